@@ -1,12 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createServiceFromEnv } from "@/lib/ai/service-factory";
+import { createCassetteServiceFromEnv } from "@/lib/ai/cassette-file";
+import { observeAIService } from "@/lib/ai/service-observer";
+import { chartTypeRegistry } from "@/lib/chart-registry";
+import { AGGREGATE_FUNCTIONS, TIME_BUCKETS } from "@/constants/chart-config";
+import { describeFormulaFunctions } from "@/lib/ai-chart-system/derived-fields";
+import {
+  ChartIntentPayload,
+  createChartIntentFunction,
+} from "@/lib/ai-chart-system/output-schemas";
+import { requestStructuredOutput } from "@/lib/ai/structured-output";
+import { AIServiceError, AIServiceProvider } from "@/lib/ai/types";
 
 export async function POST(req: NextRequest) {
   try {
-    const { prompt, dataStructure } = await req.json();
+    const { prompt, dataStructure, sessionId } = await req.json();
+    const supportedChartTypes: string[] = chartTypeRegistry.getTypes();
+    const aggregateFunctions = AGGREGATE_FUNCTIONS.map(option => option.value).join("|");
+    const timeBuckets = TIME_BUCKETS.map(option => option.value).join("|");
+    const chartTypeList = chartTypeRegistry
+      .getAll()
+      .map(plugin => `- ${plugin.type}: ${plugin.prompt.mapping ?? plugin.prompt.summary}`)
+      .join("\n");
 
     // 在服务端创建AI服务（可以访问环境变量）
-    const aiService = createServiceFromEnv("deepseek");
+    // 开启 AI_CASSETTE_MODE 时按会话录制/回放；记录实际响应的提供商，随结果返回
+    const baseService = createCassetteServiceFromEnv(undefined, { sessionId });
+    let provider: AIServiceProvider | undefined;
+    const aiService = observeAIService(baseService, response => {
+      provider = response.provider ?? baseService.provider;
+    });
 
     // 验证连接
     const isConnected = await aiService.validateConnection();
@@ -23,12 +45,14 @@ export async function POST(req: NextRequest) {
     const systemPrompt = `你是一个专业的数据可视化专家。根据用户需求和数据特征，推荐最合适的图表类型。
 
 支持的图表类型：
-- bar: 柱状图，用于比较不同类别的数值。
-- line: 折线图，用于显示趋势和时间序列变化。
-- pie: 饼图，用于显示部分与整体的比例关系。
-- area: 面积图，用于显示累积数据和多系列对比。
-- radial: 径向图/玉玦图，用于在圆形布局中比较类别数值，适合少量分类的排名或对比。
-- radar: 雷达图，用于比较多个定量变量在不同类别下的表现，适合多维数据对比。
+${chartTypeList}
+
+当某个分类字段（如门店、地区）把数据拆成过多系列时，可在 visualMapping.facet 中指定该字段，按其取值绘制同类型的小多图；各分组量级相近用 shared，相差悬殊用 independent。
+
+当X轴取值重复（如逐笔交易明细）或日期过密时，在 visualMapping.aggregation 中指定聚合方式：按X轴字段（及 colorBy）分组汇总数值字段，日期X轴可按 timeBucket 分桶；金额、数量类字段用 sum，单价、比率类字段用 avg，统计笔数用 count，统计不同取值个数用 distinct。
+
+当用户要求的指标不在字段中、但可由已有数值或日期字段计算（如利润率 = (收入 - 成本) / 收入）时，在 derivedFields 中给出结构化公式，并在 visualMapping 中使用新字段名。公式只能由以下节点组成，不要写代码或文本表达式：{"field": "已有字段名"}、{"value": 数字}、{"op": "运算", "args": [子节点]}；运算为 + - * / 或以下函数：
+${describeFormulaFunctions()}
 
 数据信息：
 - 字段：${dataStructure.schema.fields.map((f: any) => `${f.name}(${f.type})`).join(", ")}
@@ -36,80 +60,52 @@ export async function POST(req: NextRequest) {
 - 数值字段：${dataStructure.metadata.statistics.numericFields.join(", ")}
 - 分类字段：${dataStructure.metadata.statistics.categoricalFields.join(", ")}
 
-请分析用户需求并以JSON格式回复：
+请分析用户需求，调用 submit_chart_intent 提交结果（不支持函数调用时以同样结构的JSON回复）：
 {
-  "chartType": "bar|line|pie|area|radial|radar",
+  "chartType": "${supportedChartTypes.join("|")}",
   "confidence": 0.0-1.0,
   "reasoning": "选择理由",
   "visualMapping": {
     "xAxis": "字段名",
     "yAxis": ["数值字段1", "数值字段2"],
-    "colorBy": "可选的颜色分组字段"
+    "colorBy": "可选的颜色分组字段（heatmap必填，作为行维度）",
+    "sizeBy": "气泡图的气泡大小数值字段（仅bubble需要）",
+    "hierarchy": ["最外层分类字段", "内层分类字段"],
+    "ohlc": {"open": "开盘字段", "high": "最高字段", "low": "最低字段", "close": "收盘字段", "volume": "可选的成交量字段"},
+    "series": [{"field": "数值字段", "mark": "bar|line|area", "axis": "left|right"}],
+    "facet": {"field": "可选的分面分类字段（如门店），每个取值绘制一个子图", "axes": "shared|independent"},
+    "aggregation": {"function": "${aggregateFunctions}", "measures": {"数值字段": "单独指定的聚合函数"}, "timeBucket": "${timeBuckets}"}
   },
+  "derivedFields": [{"name": "利润率", "formula": {"op": "percent", "args": [{"op": "-", "args": [{"field": "收入"}, {"field": "成本"}]}, {"field": "收入"}]}}],
   "title": "图表标题",
   "description": "图表描述",
   "insights": ["洞察1", "洞察2"]
 }`;
 
-    const response = await aiService.chat({
-      messages: [{ role: "user", content: prompt }],
-      systemPrompt,
-      params: {
-        temperature: 0.3,
-        maxTokens: 800,
-        response_format: { type: "json_object" },
-      },
-    });
-
-    if (!response.content || response.content.trim() === "") {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "AI返回空响应",
-          details: {
-            finishReason: response.finishReason,
-            requestId: response.requestId,
-          },
-        },
-        { status: 500 }
-      );
-    }
-
-    // 清理和解析JSON响应
-    let cleaned = response.content.trim();
-    if (cleaned.startsWith("```json")) {
-      cleaned = cleaned.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-    } else if (cleaned.startsWith("```")) {
-      cleaned = cleaned.replace(/^```\s*/, "").replace(/\s*```$/, "");
-    }
-
-    let parsed: any;
+    let parsed: ChartIntentPayload;
     try {
-      parsed = JSON.parse(cleaned);
-    } catch (jsonError) {
-      return NextResponse.json(
+      parsed = await requestStructuredOutput<ChartIntentPayload>(
+        aiService,
         {
-          success: false,
-          error: "AI返回的内容不是有效JSON格式",
-          details: {
-            rawContent: cleaned.slice(0, 500),
-            jsonError: (jsonError as Error).message,
+          messages: [{ role: "user", content: prompt }],
+          systemPrompt,
+          params: {
+            temperature: 0.3,
+            maxTokens: 800,
+            response_format: { type: "json_object" },
           },
         },
-        { status: 500 }
+        createChartIntentFunction()
       );
-    }
-
-    // 验证AI响应
-    if (!parsed.chartType || !["bar", "line", "pie", "area", "radial", "radar"].includes(parsed.chartType)) {
+    } catch (error) {
+      if (!(error instanceof AIServiceError) || error.type !== "INVALID_RESPONSE") {
+        throw error;
+      }
       return NextResponse.json(
         {
           success: false,
-          error: "AI返回了无效的图表类型",
-          details: {
-            chartType: parsed.chartType,
-            fullResponse: parsed,
-          },
+          error: "AI返回的图表意图未通过校验",
+          details: error.details,
         },
         { status: 500 }
       );
@@ -120,7 +116,7 @@ export async function POST(req: NextRequest) {
       chartType: parsed.chartType,
       confidence: typeof parsed.confidence === "number" ? parsed.confidence : 0.8,
       reasoning: parsed.reasoning || "AI智能推荐",
-      requiredFields: extractRequiredFields(parsed.visualMapping, dataStructure),
+      requiredFields: extractRequiredFields(parsed.visualMapping, dataStructure, parsed.chartType),
       optionalFields: [parsed.visualMapping?.colorBy].filter(Boolean),
       visualMapping: {
         xAxis:
@@ -131,7 +127,16 @@ export async function POST(req: NextRequest) {
           parsed.visualMapping?.yAxis ||
           dataStructure.metadata.statistics.numericFields.slice(0, 2),
         colorBy: parsed.visualMapping?.colorBy,
+        sizeBy: parsed.visualMapping?.sizeBy,
+        series: normalizeSeriesMapping(parsed.visualMapping?.series),
+        hierarchy: Array.isArray(parsed.visualMapping?.hierarchy)
+          ? parsed.visualMapping.hierarchy.filter((field: any) => typeof field === "string")
+          : undefined,
+        ohlc: normalizeOhlcMapping(parsed.visualMapping?.ohlc),
+        facet: normalizeFacetMapping(parsed.visualMapping?.facet),
+        aggregation: normalizeAggregationMapping(parsed.visualMapping?.aggregation),
       },
+      derivedFields: normalizeDerivedFields(parsed.derivedFields),
       suggestions: {
         title: parsed.title || "数据可视化图表",
         description: parsed.description || "基于数据智能生成的可视化图表",
@@ -142,6 +147,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({
       success: true,
       chartIntent,
+      provider,
     });
   } catch (error) {
     return NextResponse.json(
@@ -155,7 +161,86 @@ export async function POST(req: NextRequest) {
 }
 
 // 辅助函数
-function extractRequiredFields(visualMapping: any, dataStructure: any): string[] {
+function normalizeSeriesMapping(series: any): any[] | undefined {
+  if (!Array.isArray(series)) return undefined;
+
+  const normalized = series
+    .filter((item: any) => item && typeof item.field === "string")
+    .map((item: any) => ({
+      field: item.field,
+      mark: ["bar", "line", "area"].includes(item.mark) ? item.mark : "line",
+      axis: item.axis === "right" ? "right" : "left",
+    }));
+
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+function normalizeOhlcMapping(ohlc: any): any | undefined {
+  if (!ohlc || typeof ohlc !== "object") return undefined;
+
+  const priceKeys = ["open", "high", "low", "close"];
+  if (!priceKeys.every(key => typeof ohlc[key] === "string")) return undefined;
+
+  return {
+    open: ohlc.open,
+    high: ohlc.high,
+    low: ohlc.low,
+    close: ohlc.close,
+    volume: typeof ohlc.volume === "string" ? ohlc.volume : undefined,
+  };
+}
+
+function normalizeFacetMapping(facet: any): any | undefined {
+  if (!facet || typeof facet.field !== "string" || !facet.field) return undefined;
+
+  return {
+    field: facet.field,
+    axes: facet.axes === "independent" ? "independent" : "shared",
+  };
+}
+
+function normalizeAggregationMapping(aggregation: any): any | undefined {
+  if (!aggregation || typeof aggregation !== "object") return undefined;
+
+  const functions: string[] = AGGREGATE_FUNCTIONS.map(option => option.value);
+  const buckets: string[] = TIME_BUCKETS.map(option => option.value);
+  if (!functions.includes(aggregation.function)) return undefined;
+
+  const measures = Object.fromEntries(
+    Object.entries(
+      aggregation.measures && typeof aggregation.measures === "object" ? aggregation.measures : {}
+    ).filter(([, fn]) => functions.includes(fn as string))
+  );
+
+  return {
+    function: aggregation.function,
+    measures: Object.keys(measures).length > 0 ? measures : undefined,
+    timeBucket: buckets.includes(aggregation.timeBucket) ? aggregation.timeBucket : undefined,
+  };
+}
+
+// 公式的字段、类型与参数由 DerivedFieldEngine 按数据架构校验，这里只保留结构完整的条目
+function normalizeDerivedFields(derivedFields: any): any[] | undefined {
+  if (!Array.isArray(derivedFields)) return undefined;
+
+  const normalized = derivedFields
+    .filter(
+      (item: any) =>
+        item &&
+        typeof item.name === "string" &&
+        item.name.trim() &&
+        typeof item.formula === "object"
+    )
+    .map((item: any) => ({ name: item.name.trim(), formula: item.formula }));
+
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+function extractRequiredFields(
+  visualMapping: any,
+  dataStructure: any,
+  chartType?: string
+): string[] {
   const required: string[] = [];
 
   if (visualMapping?.xAxis) {
@@ -170,5 +255,37 @@ function extractRequiredFields(visualMapping: any, dataStructure: any): string[]
     });
   }
 
+  if (visualMapping?.sizeBy) {
+    const field = dataStructure.schema.fields.find((f: any) => f.name === visualMapping.sizeBy);
+    if (field) required.push(field.name);
+  }
+
+  // 热力图的行维度是必需字段
+  if (chartType === "heatmap" && visualMapping?.colorBy) {
+    const field = dataStructure.schema.fields.find((f: any) => f.name === visualMapping.colorBy);
+    if (field) required.push(field.name);
+  }
+
+  // 层级图的各级字段是必需字段
+  if (Array.isArray(visualMapping?.hierarchy)) {
+    visualMapping.hierarchy.forEach((fieldName: string) => {
+      const field = dataStructure.schema.fields.find((f: any) => f.name === fieldName);
+      if (field) required.push(field.name);
+    });
+  }
+
+  // K线图的开高低收与成交量字段是必需字段
+  if (visualMapping?.ohlc && typeof visualMapping.ohlc === "object") {
+    Object.values(visualMapping.ohlc).forEach(fieldName => {
+      const field = dataStructure.schema.fields.find((f: any) => f.name === fieldName);
+      if (field) required.push(field.name);
+    });
+  }
+
+  if (typeof visualMapping?.facet?.field === "string") {
+    const field = dataStructure.schema.fields.find((f: any) => f.name === visualMapping.facet.field);
+    if (field) required.push(field.name);
+  }
+
   return [...new Set(required)];
 }
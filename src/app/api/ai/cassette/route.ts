@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionCassetteFromEnv } from "@/lib/ai/cassette-file";
+
+/**
+ * 获取某个会话录制的 AI 调用，用于随导出的会话一起保存。
+ * 录制内容包含完整的提示词与用户上传的数据，只在开发环境开放
+ */
+export async function GET(req: NextRequest) {
+  if (process.env.NODE_ENV !== "development") {
+    return NextResponse.json(
+      { success: false, error: "AI 调用录制仅在开发环境可用" },
+      { status: 403 }
+    );
+  }
+
+  const sessionId = req.nextUrl.searchParams.get("sessionId");
+  if (!sessionId) {
+    return NextResponse.json({ success: false, error: "缺少 sessionId 参数" }, { status: 400 });
+  }
+
+  try {
+    const cassette = getSessionCassetteFromEnv(sessionId);
+    if (!cassette) {
+      return NextResponse.json(
+        { success: false, error: "未开启 AI 调用录制（AI_CASSETTE_MODE）" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, cassette });
+  } catch (error) {
+    console.error("❌ [Cassette API] 读取录制失败:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "读取录制失败",
+      },
+      { status: 500 }
+    );
+  }
+}
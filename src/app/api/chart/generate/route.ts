@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { AIChartDirector } from "@/lib/ai-chart-system/ai-chart-director";
+import { createCassetteServiceFromEnv } from "@/lib/ai/cassette-file";
 import { ChartResultContent, ConversationContextPayload } from "@/types";
 import {
   ensureSessionId,
@@ -13,7 +14,7 @@ export async function POST(req: NextRequest) {
 
   try {
     const requestBody = await req.json();
-    const { prompt, files: requestFiles, conversation } = requestBody;
+    const { prompt, files: requestFiles, conversation, sheetSelection } = requestBody;
     conversationPayload = conversation;
     files = requestFiles || [];
 
@@ -37,8 +38,11 @@ export async function POST(req: NextRequest) {
     if (USE_NEW_SYSTEM) {
       console.log("✅🐛🚀 [API] 主流程：使用新的AI图表系统（统一处理所有场景）");
 
-      // 使用新的AI图表系统
-      const aiDirector = new AIChartDirector();
+      // 使用新的AI图表系统（开启 AI_CASSETTE_MODE 时按会话录制/回放 AI 调用）
+      const aiDirector = new AIChartDirector(
+        undefined,
+        createCassetteServiceFromEnv(undefined, { sessionId })
+      );
 
       // 转换文件格式（从JSON到File对象）- 仅当有文件时
       const fileObjects =
@@ -70,6 +74,7 @@ export async function POST(req: NextRequest) {
         files: fileObjects,
         conversation: resolvedConversation ?? conversationPayload,
         sessionId,
+        sheetSelection,
       });
 
       console.log("🐛🚀 [API] 主流程：新系统执行结果:", {
@@ -88,6 +93,7 @@ export async function POST(req: NextRequest) {
           config: aiResult.config,
           title: aiResult.title,
           description: aiResult.description,
+          warnings: aiResult.warnings,
         };
       } else {
         throw new Error(aiResult.error?.message || "新系统图表生成失败");
@@ -106,6 +112,7 @@ export async function POST(req: NextRequest) {
       chartType: result.chartType,
       title: result.title,
       description: result.description || "",
+      warnings: result.warnings,
       imageInfo: {
         filename: `chart-${Date.now()}.png`,
         localBlobUrl: "",
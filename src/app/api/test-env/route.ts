@@ -6,7 +6,13 @@ export async function GET(request: NextRequest) {
     DEEPSEEK_API_KEY: process.env.DEEPSEEK_API_KEY ? "已设置" : "未设置",
     DEEPSEEK_MODEL: process.env.DEEPSEEK_MODEL || "未设置",
     DEEPSEEK_BASE_URL: process.env.DEEPSEEK_BASE_URL || "未设置",
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY ? "已设置" : "未设置",
+    OPENAI_BASE_URL: process.env.OPENAI_BASE_URL || "未设置",
+    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY ? "已设置" : "未设置",
+    CUSTOM_BASE_URL: process.env.CUSTOM_BASE_URL || "未设置",
     DEFAULT_AI_PROVIDER: process.env.DEFAULT_AI_PROVIDER || "未设置",
+    AI_FALLBACK_PROVIDERS: process.env.AI_FALLBACK_PROVIDERS || "未设置",
+    AI_CASSETTE_MODE: process.env.AI_CASSETTE_MODE || "未设置",
     NODE_ENV: process.env.NODE_ENV,
   };
 
@@ -97,6 +97,7 @@ export default function HomePage() {
               size: file.size,
               uploadedAt: file.uploadedAt,
               storageType: file.size <= 1024 * 1024 ? "base64" : "indexeddb", // 1MB阈值
+              sheetSelection: file.sheetSelection,
             };
 
             if (file.size <= 1024 * 1024) {
@@ -2,24 +2,15 @@
 
 import { useState, useRef } from "react";
 import { useTranslations } from "next-intl";
-import {
-  BarChart3,
-  LineChart,
-  PieChart,
-  TrendingUp,
-  Download,
-  RotateCcw,
-  Share,
-  Radar,
-  Gauge,
-} from "lucide-react";
+import { BarChart3, Download, RotateCcw, Share } from "lucide-react";
 import { useSimpleExport } from "@/hooks/use-simple-export";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { EnhancedChart } from "@/components/charts/enhanced-chart";
+import { EnhancedChart, validateChartTypeCompatibility } from "@/components/charts/enhanced-chart";
 import { ChartType } from "@/types/chart";
 import { ExportFormat } from "@/types/common";
-import { CHART_TYPES, CHART_TYPE_LABELS } from "@/constants/chart";
+import { CHART_TYPES } from "@/constants/chart";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 
 interface ChartData {
   type: ChartType;
@@ -84,14 +75,19 @@ export function ChartPreview({ chartData, onExport, onRefresh }: ChartPreviewPro
     );
   }
 
-  const chartTypeButtons = [
-    { type: CHART_TYPES.BAR as ChartType, icon: BarChart3, label: CHART_TYPE_LABELS.bar.en },
-    { type: CHART_TYPES.LINE as ChartType, icon: LineChart, label: CHART_TYPE_LABELS.line.en },
-    { type: CHART_TYPES.PIE as ChartType, icon: PieChart, label: CHART_TYPE_LABELS.pie.en },
-    { type: CHART_TYPES.AREA as ChartType, icon: TrendingUp, label: CHART_TYPE_LABELS.area.en },
-    { type: CHART_TYPES.RADAR as ChartType, icon: Radar, label: CHART_TYPE_LABELS.radar.en },
-    { type: CHART_TYPES.RADIAL as ChartType, icon: Gauge, label: CHART_TYPE_LABELS.radial.en },
-  ];
+  // 可切换的图表类型：注册表中能渲染当前数据的类型
+  const chartTypeButtons = chartTypeRegistry
+    .getAll()
+    .filter(
+      plugin =>
+        plugin.type === chartData.type ||
+        validateChartTypeCompatibility(chartData.data, plugin.type).isValid
+    )
+    .map(plugin => ({
+      type: plugin.type,
+      icon: plugin.renderer.icon ?? BarChart3,
+      label: plugin.label.en,
+    }));
 
   const currentChartType = selectedType || chartData.type;
 
@@ -146,7 +142,7 @@ export function ChartPreview({ chartData, onExport, onRefresh }: ChartPreviewPro
         </div>
 
         {/* Chart Type Selector */}
-        <div className="flex space-x-2">
+        <div className="flex flex-wrap gap-2">
           {chartTypeButtons.map(({ type, icon: Icon, label }) => (
             <Button
               key={type}
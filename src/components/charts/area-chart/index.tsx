@@ -5,6 +5,7 @@ import { Activity, BarChart2, TrendingUp } from "lucide-react";
 import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ChartContainer } from "@/components/ui/chart";
+import { formatFieldValue } from "@/lib/value-parser";
 import {
   AreaChartProps,
   AreaChartValidationResult,
@@ -180,6 +181,8 @@ export function BeautifulAreaChart({
   fillOpacity = AREA_CHART_DEFAULTS.fillOpacity,
   useGradient = AREA_CHART_DEFAULTS.useGradient,
   showGrid = AREA_CHART_DEFAULTS.showGrid,
+  valueDomain,
+  valueFormat,
   colors: providedColors,
   primaryColor = "#22c55e",
 }: AreaChartProps) {
@@ -286,10 +289,11 @@ export function BeautifulAreaChart({
               height={40}
             />
             <YAxis
+              domain={valueDomain ?? [0, "auto"]}
               tickLine={false}
               axisLine={false}
               tick={{ fontSize: 12, fill: finalColors.text }}
-              tickFormatter={value => value.toLocaleString()}
+              tickFormatter={value => formatFieldValue(value, valueFormat)}
             />
 
             {/* 总计参考线 */}
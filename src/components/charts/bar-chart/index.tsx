@@ -1,9 +1,11 @@
 "use client";
 
-import { Bar, BarChart, CartesianGrid, LabelList, XAxis, YAxis } from "recharts";
+import { Bar, BarChart, CartesianGrid, LabelList, Tooltip, XAxis, YAxis } from "recharts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ChartContainer } from "@/components/ui/chart";
+import { formatFieldValue } from "@/lib/value-parser";
 import { BarChartProps, BarChartValidationResult, BarChartData } from "./types";
+import { FoldedCategoriesTooltip } from "../folded-categories-tooltip";
 
 /**
  * 验证柱状图数据格式和完整性
@@ -85,8 +87,11 @@ export function BeautifulBarChart({
   barRadius = 4,
   showValueLabels = true,
   showGrid = true,
+  valueDomain,
+  valueFormat,
   colors: providedColors,
   primaryColor = "#22c55e",
+  foldedCategories = [],
 }: BarChartProps) {
   // 直接使用传入的颜色配置
   const finalColors = providedColors;
@@ -154,11 +159,20 @@ export function BeautifulBarChart({
               height={40}
             />
             <YAxis
+              domain={valueDomain ?? [0, "auto"]}
               tickLine={false}
               axisLine={false}
               tick={{ fontSize: 12, fill: finalColors.text }}
-              tickFormatter={value => value.toLocaleString()}
+              tickFormatter={value => formatFieldValue(value, valueFormat)}
             />
+            {foldedCategories.length > 0 && (
+              <Tooltip
+                cursor={false}
+                content={
+                  <FoldedCategoriesTooltip categoryKey={categoryKey} folded={foldedCategories} />
+                }
+              />
+            )}
             {valueKeys.map((key, index) => (
               <Bar
                 key={key}
@@ -176,7 +190,7 @@ export function BeautifulBarChart({
                       fill: finalColors.text,
                       fontWeight: "600",
                     }}
-                    formatter={(value: number) => value.toLocaleString()}
+                    formatter={(value: number) => formatFieldValue(value, valueFormat)}
                   />
                 )}
               </Bar>
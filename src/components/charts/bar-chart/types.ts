@@ -1,5 +1,6 @@
 // Bar Chart 专用类型定义
 import { ChartConfig } from "@/components/ui/chart";
+import { FieldValueFormat } from "@/types/data";
 import { UnifiedColorConfig } from "@/types/chart-config";
 
 /**
@@ -44,11 +45,20 @@ export interface BarChartProps {
   /** 是否显示背景网格 */
   showGrid?: boolean;
 
+  /** 数值轴范围（分面共享坐标轴时统一指定），缺省时按数据自动计算 */
+  valueDomain?: [number, number];
+
+  /** 数值的显示格式（货币、百分比等），缺省时按千分位显示 */
+  valueFormat?: FieldValueFormat;
+
   /** 颜色配置（新架构） */
   colors: UnifiedColorConfig;
 
   /** 主色调（可选，用于生成颜色配置） */
   primaryColor?: string;
+
+  /** 合并进 "Other" 的分类名称，悬停 "Other" 时在提示中列出 */
+  foldedCategories?: string[];
 }
 
 /**
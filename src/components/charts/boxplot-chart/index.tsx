@@ -0,0 +1,254 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { groupBoxPlotStats, toFiniteNumbers } from "@/lib/distribution-stats";
+import {
+  BoxPlotChartProps,
+  BoxPlotChartData,
+  BoxPlotChartValidationResult,
+  BOXPLOT_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证箱线图数据结构
+ */
+export function validateBoxPlotChartData(data: BoxPlotChartData): BoxPlotChartValidationResult {
+  const errors: string[] = [];
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return { isValid: false, errors, stats: { observationCount: 0, valueKey: "" } };
+  }
+
+  const firstItem = data[0];
+  const keys = Object.keys(firstItem);
+  const valueKey = keys.find(key => typeof firstItem[key] === "number");
+  const groupKey = keys.find(key => typeof firstItem[key] === "string");
+
+  if (!valueKey) {
+    errors.push("箱线图需要1个数值字段（观测值）");
+    return { isValid: false, errors, stats: { observationCount: 0, valueKey: "", groupKey } };
+  }
+
+  const observationCount = toFiniteNumbers(data.map(item => item[valueKey])).length;
+  if (observationCount < 4) {
+    errors.push("箱线图至少需要4个有效观测值才能计算四分位数");
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    stats: { observationCount, valueKey, groupKey },
+  };
+}
+
+const TICK_COUNT = 5;
+
+const formatStat = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * 美化箱线图组件
+ * 每个分组绘制一个箱体：箱体为 Q1–Q3，中线为中位数，须线按 1.5×IQR 截断，超出部分标记为异常值
+ */
+export function BeautifulBoxPlotChart({
+  data,
+  config,
+  title,
+  description,
+  className,
+  showOutliers = BOXPLOT_CHART_DEFAULTS.showOutliers,
+  showMean = BOXPLOT_CHART_DEFAULTS.showMean,
+  showGrid = BOXPLOT_CHART_DEFAULTS.showGrid,
+  colors: providedColors,
+  primaryColor = "#22c55e",
+}: BoxPlotChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateBoxPlotChartData(data);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { valueKey, groupKey } = validation.stats;
+  const valueLabel = String(config[valueKey]?.label || valueKey);
+  const groups = groupBoxPlotStats(data, valueKey, groupKey, valueLabel);
+
+  // 纵轴范围覆盖须线，显示异常值时同时覆盖异常值，上下各留5%空白
+  const extremes = groups.flatMap(({ stats }) =>
+    showOutliers ? [stats.min, stats.max] : [stats.lowerWhisker, stats.upperWhisker]
+  );
+  const rawMin = Math.min(...extremes);
+  const rawMax = Math.max(...extremes);
+  const padding = (rawMax - rawMin || Math.abs(rawMax) || 1) * 0.05;
+  const domainMin = rawMin - padding;
+  const domainMax = rawMax + padding;
+  const toPercent = (value: number) => ((value - domainMin) / (domainMax - domainMin)) * 100;
+
+  const ticks = Array.from(
+    { length: TICK_COUNT },
+    (_, index) => domainMin + ((domainMax - domainMin) * index) / (TICK_COUNT - 1)
+  );
+
+  const colorOf = (index: number) =>
+    finalColors.series[index % finalColors.series.length] || finalColors.primary || primaryColor;
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <div className="flex min-h-64 flex-1 gap-2 py-4 text-xs">
+        {/* 纵轴刻度 */}
+        <div className="flex w-12 shrink-0 flex-col" style={{ color: finalColors.text }}>
+          <div className="relative flex-1">
+            {ticks.map((tick, index) => (
+              <span
+                key={`tick-${index}`}
+                className="absolute right-1"
+                style={{ bottom: `${toPercent(tick)}%`, transform: "translateY(50%)" }}
+              >
+                {formatStat(tick)}
+              </span>
+            ))}
+          </div>
+          {/* 占位与分组标签行等高，保证刻度与绘图区对齐 */}
+          <div className="invisible pt-2">0</div>
+        </div>
+
+        <div className="flex flex-1 flex-col">
+          <div className="relative flex flex-1">
+            {showGrid &&
+              ticks.map((tick, index) => (
+                <div
+                  key={`grid-${index}`}
+                  className="absolute inset-x-0 border-t border-dashed"
+                  style={{
+                    bottom: `${toPercent(tick)}%`,
+                    borderColor: finalColors.grid,
+                    opacity: 0.5,
+                  }}
+                />
+              ))}
+
+            {groups.map(({ group, stats }, index) => {
+              const color = colorOf(index);
+              const boxBottom = toPercent(stats.q1);
+              const boxHeight = Math.max(toPercent(stats.q3) - boxBottom, 0.5);
+
+              return (
+                <div
+                  key={group}
+                  className="relative flex-1"
+                  title={`${group}: Q1 ${formatStat(stats.q1)} · Median ${formatStat(stats.median)} · Q3 ${formatStat(stats.q3)} · n=${stats.count}`}
+                >
+                  {/* 须线 */}
+                  <div
+                    className="absolute left-1/2 w-px -translate-x-1/2"
+                    style={{
+                      bottom: `${toPercent(stats.lowerWhisker)}%`,
+                      height: `${toPercent(stats.upperWhisker) - toPercent(stats.lowerWhisker)}%`,
+                      backgroundColor: color,
+                    }}
+                  />
+                  {[stats.lowerWhisker, stats.upperWhisker].map((whisker, capIndex) => (
+                    <div
+                      key={`cap-${capIndex}`}
+                      className="absolute right-[35%] left-[35%] h-px"
+                      style={{ bottom: `${toPercent(whisker)}%`, backgroundColor: color }}
+                    />
+                  ))}
+
+                  {/* 箱体与中位数 */}
+                  <div
+                    className="absolute right-[20%] left-[20%] rounded-sm border-2"
+                    style={{
+                      bottom: `${boxBottom}%`,
+                      height: `${boxHeight}%`,
+                      borderColor: color,
+                      backgroundColor: `${color}33`,
+                    }}
+                  />
+                  <div
+                    className="absolute right-[20%] left-[20%] h-0.5"
+                    style={{ bottom: `${toPercent(stats.median)}%`, backgroundColor: color }}
+                  />
+
+                  {showMean && (
+                    <div
+                      className="absolute left-1/2 h-2 w-2 -translate-x-1/2 translate-y-1/2 rotate-45 border"
+                      style={{
+                        bottom: `${toPercent(stats.mean)}%`,
+                        borderColor: finalColors.text,
+                        backgroundColor: "#ffffff",
+                      }}
+                      title={`Mean ${formatStat(stats.mean)}`}
+                    />
+                  )}
+
+                  {showOutliers &&
+                    stats.outliers.map((outlier, outlierIndex) => (
+                      <div
+                        key={`outlier-${outlierIndex}`}
+                        className="absolute left-1/2 h-1.5 w-1.5 -translate-x-1/2 translate-y-1/2 rounded-full border"
+                        style={{ bottom: `${toPercent(outlier)}%`, borderColor: color }}
+                        title={formatStat(outlier)}
+                      />
+                    ))}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* 分组标签 */}
+          <div className="flex pt-2">
+            {groups.map(({ group }) => (
+              <div
+                key={`label-${group}`}
+                className="flex-1 truncate text-center font-medium"
+                style={{ color: finalColors.text }}
+                title={group}
+              >
+                {group}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="text-muted-foreground mt-4 grid gap-2 text-xs">
+        {groups.map(({ group, stats }, index) => (
+          <div key={`legend-${group}`} className="flex items-center gap-3">
+            <span
+              className="inline-flex h-2 w-2 rounded-full"
+              style={{ backgroundColor: colorOf(index) }}
+            />
+            <span className="text-foreground font-medium">{group}</span>
+            <span>
+              Median {formatStat(stats.median)} · IQR {formatStat(stats.q3 - stats.q1)}
+              {stats.outliers.length > 0 && ` · ${stats.outliers.length} outliers`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default BeautifulBoxPlotChart;
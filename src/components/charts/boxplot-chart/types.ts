@@ -0,0 +1,78 @@
+// Box Plot Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { UnifiedColorConfig } from "@/types/chart-config";
+
+/**
+ * 箱线图数据点结构（原始观测值）
+ * 第一个数值字段作为观测值，可选的第一个字符串字段作为分组，组件内部计算四分位数
+ */
+export interface BoxPlotChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * 箱线图数据集合
+ */
+export type BoxPlotChartData = BoxPlotChartDataPoint[];
+
+/**
+ * 箱线图组件属性
+ */
+export interface BoxPlotChartProps {
+  /** 图表数据（原始观测值） */
+  data: BoxPlotChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 是否显示异常值 */
+  showOutliers?: boolean;
+
+  /** 是否标注均值 */
+  showMean?: boolean;
+
+  /** 是否显示背景网格 */
+  showGrid?: boolean;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 箱线图数据校验结果
+ */
+export interface BoxPlotChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    observationCount: number;
+    valueKey: string;
+    groupKey?: string;
+  };
+}
+
+/**
+ * 箱线图默认配置
+ */
+export const BOXPLOT_CHART_DEFAULTS = {
+  showOutliers: true,
+  showMean: false,
+  showGrid: true,
+} as const;
@@ -0,0 +1,346 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { ChartContainer } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import { AXIS_TYPES } from "@/constants/chart";
+import { CHART_CONFIG_DEFAULTS } from "@/constants/chart-config";
+import { detectOhlcKeys, parseTimestamp } from "@/lib/ohlc-utils";
+import {
+  CandlestickChartProps,
+  CandlestickChartData,
+  CandlestickChartValidationResult,
+  CANDLESTICK_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证K线图数据结构
+ */
+export function validateCandlestickChartData(
+  data: CandlestickChartData
+): CandlestickChartValidationResult {
+  const errors: string[] = [];
+  const emptyStats = {
+    candleCount: 0,
+    xKey: "",
+    fields: null,
+    xAxisType: AXIS_TYPES.CATEGORY,
+  };
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  const firstItem = data[0];
+  const keys = Object.keys(firstItem);
+  const xKey = keys.find(key => typeof firstItem[key] !== "number") || keys[0];
+  const fields = detectOhlcKeys(firstItem);
+
+  if (!fields) {
+    errors.push("K线图需要开盘、最高、最低、收盘4个数值字段");
+    return { isValid: false, errors, stats: { ...emptyStats, xKey } };
+  }
+
+  const candleCount = data.filter(item =>
+    [fields.open, fields.high, fields.low, fields.close].every(key =>
+      Number.isFinite(Number(item[key]))
+    )
+  ).length;
+  if (candleCount === 0) {
+    errors.push("没有开高低收数值完整的数据行");
+  }
+
+  const xAxisType = data.every(item => parseTimestamp(item[xKey]) !== null)
+    ? AXIS_TYPES.TIME
+    : AXIS_TYPES.CATEGORY;
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    stats: { candleCount, xKey, fields, xAxisType },
+  };
+}
+
+interface CandleDatum {
+  x: number | string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  /** recharts 以 [最低, 最高] 数组绘制浮动柱，蜡烛形状在其范围内绘制 */
+  range: [number, number];
+  rising: boolean;
+}
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandleDatum;
+  upColor: string;
+  downColor: string;
+}
+
+/**
+ * 单根蜡烛：影线覆盖最高到最低，实体覆盖开盘到收盘
+ */
+function CandleShape({
+  x = 0,
+  y = 0,
+  width = 0,
+  height = 0,
+  payload,
+  upColor,
+  downColor,
+}: CandleShapeProps) {
+  if (!payload) return null;
+
+  const { open, high, low, close, rising } = payload;
+  const color = rising ? upColor : downColor;
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const pixelsPerUnit = high > low ? span / (high - low) : 0;
+  const toPixel = (value: number) => top + (high - value) * pixelsPerUnit;
+
+  const bodyTop = toPixel(Math.max(open, close));
+  const bodyHeight = Math.max(toPixel(Math.min(open, close)) - bodyTop, 1);
+  const bodyWidth = Math.max(width * 0.7, 1);
+  const centerX = x + width / 2;
+
+  return (
+    <g>
+      <line x1={centerX} x2={centerX} y1={top} y2={top + span} stroke={color} strokeWidth={1} />
+      <rect
+        x={centerX - bodyWidth / 2}
+        y={bodyTop}
+        width={bodyWidth}
+        height={bodyHeight}
+        fill={rising ? "#ffffff" : color}
+        stroke={color}
+        strokeWidth={1}
+      />
+    </g>
+  );
+}
+
+const formatPrice = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatVolume = (value: number) =>
+  value.toLocaleString(undefined, { notation: "compact", maximumFractionDigits: 1 });
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+/** 两个图表共用的纵轴宽度，保证蜡烛与成交量柱对齐 */
+const Y_AXIS_WIDTH = 56;
+
+/**
+ * 美化K线图组件
+ * 收盘高于开盘为上涨（空心蜡烛），否则为下跌（实心蜡烛）；包含成交量字段时在下方绘制成交量子图
+ */
+export function BeautifulCandlestickChart({
+  data,
+  config,
+  title,
+  description,
+  className,
+  showVolume = CANDLESTICK_CHART_DEFAULTS.showVolume,
+  showGrid = CANDLESTICK_CHART_DEFAULTS.showGrid,
+  colors: providedColors,
+}: CandlestickChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateCandlestickChartData(data);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid || !validation.stats.fields) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { xKey, fields, xAxisType } = validation.stats;
+  const isTimeAxis = xAxisType === AXIS_TYPES.TIME;
+
+  const candles: CandleDatum[] = data
+    .map(item => {
+      const open = Number(item[fields.open]);
+      const high = Number(item[fields.high]);
+      const low = Number(item[fields.low]);
+      const close = Number(item[fields.close]);
+      return {
+        x: isTimeAxis ? (parseTimestamp(item[xKey]) as number) : String(item[xKey]),
+        open,
+        high: Math.max(high, open, close),
+        low: Math.min(low, open, close),
+        close,
+        volume: fields.volume ? Number(item[fields.volume]) || 0 : 0,
+        range: [Math.min(low, open, close), Math.max(high, open, close)] as [number, number],
+        rising: close >= open,
+      };
+    })
+    .filter(candle => [candle.open, candle.high, candle.low, candle.close].every(Number.isFinite));
+
+  // 时间轴按时间排序，并在两端各留半个最小间隔，避免首尾蜡烛被裁切
+  let xDomain: [number, number] | undefined;
+  if (isTimeAxis) {
+    candles.sort((a, b) => (a.x as number) - (b.x as number));
+    const timestamps = candles.map(candle => candle.x as number);
+    const gaps = timestamps.slice(1).map((timestamp, index) => timestamp - timestamps[index]);
+    const positiveGaps = gaps.filter(gap => gap > 0);
+    const halfGap = (positiveGaps.length > 0 ? Math.min(...positiveGaps) : 86400000) / 2;
+    xDomain = [timestamps[0] - halfGap, timestamps[timestamps.length - 1] + halfGap];
+  }
+
+  const lows = candles.map(candle => candle.low);
+  const highs = candles.map(candle => candle.high);
+  const priceMin = Math.min(...lows);
+  const priceMax = Math.max(...highs);
+  const pricePadding = (priceMax - priceMin || Math.abs(priceMax) || 1) * 0.05;
+
+  const upColor = finalColors.increase || CHART_CONFIG_DEFAULTS.INCREASE_COLOR;
+  const downColor = finalColors.decrease || CHART_CONFIG_DEFAULTS.DECREASE_COLOR;
+  const hasVolumePanel = showVolume && Boolean(fields.volume);
+  const axisTick = { fontSize: 12, fill: finalColors.text };
+
+  const xAxisProps = isTimeAxis
+    ? {
+        dataKey: "x",
+        type: "number" as const,
+        scale: "time" as const,
+        domain: xDomain,
+        tickFormatter: formatDate,
+      }
+    : { dataKey: "x", type: "category" as const };
+
+  const last = candles[candles.length - 1];
+  const first = candles[0];
+  const change = last.close - first.open;
+  const changePercent = first.open !== 0 ? (change / first.open) * 100 : 0;
+  const risingCount = candles.filter(candle => candle.rising).length;
+  const closeLabel = String(config[fields.close]?.label || fields.close);
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <ChartContainer config={config} className="flex-1">
+        <BarChart
+          data={candles}
+          barCategoryGap="20%"
+          margin={{ top: 12, right: 24, left: 8, bottom: hasVolumePanel ? 0 : 24 }}
+        >
+          {showGrid && (
+            <CartesianGrid strokeDasharray="3 3" stroke={finalColors.grid} opacity={0.35} />
+          )}
+          <XAxis
+            {...xAxisProps}
+            hide={hasVolumePanel}
+            tickLine={false}
+            axisLine={false}
+            tick={axisTick}
+            minTickGap={24}
+          />
+          <YAxis
+            width={Y_AXIS_WIDTH}
+            domain={[priceMin - pricePadding, priceMax + pricePadding]}
+            tickFormatter={formatPrice}
+            tickLine={false}
+            axisLine={false}
+            tick={axisTick}
+          />
+          <Bar
+            dataKey="range"
+            isAnimationActive={false}
+            shape={<CandleShape upColor={upColor} downColor={downColor} />}
+          />
+        </BarChart>
+      </ChartContainer>
+
+      {hasVolumePanel && (
+        <ChartContainer config={config} className="aspect-[5/1] w-full">
+          <BarChart
+            data={candles}
+            barCategoryGap="20%"
+            margin={{ top: 4, right: 24, left: 8, bottom: 24 }}
+          >
+            {showGrid && (
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke={finalColors.grid}
+                opacity={0.35}
+                vertical={false}
+              />
+            )}
+            <XAxis
+              {...xAxisProps}
+              tickLine={false}
+              axisLine={false}
+              tick={axisTick}
+              minTickGap={24}
+            />
+            <YAxis
+              width={Y_AXIS_WIDTH}
+              tickFormatter={formatVolume}
+              tickLine={false}
+              axisLine={false}
+              tick={axisTick}
+              tickCount={3}
+            />
+            <Bar dataKey="volume" isAnimationActive={false}>
+              {candles.map((candle, index) => (
+                <Cell
+                  key={`volume-${index}`}
+                  fill={candle.rising ? upColor : downColor}
+                  fillOpacity={0.5}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+      )}
+
+      <div className="text-muted-foreground mt-4 flex flex-wrap gap-4 text-xs">
+        <div className="flex items-center gap-2">
+          <span className="inline-flex h-2 w-2 rounded-full" style={{ backgroundColor: upColor }} />
+          <span className="text-foreground font-medium">Up</span>
+          <span>{risingCount}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span
+            className="inline-flex h-2 w-2 rounded-full"
+            style={{ backgroundColor: downColor }}
+          />
+          <span className="text-foreground font-medium">Down</span>
+          <span>{candles.length - risingCount}</span>
+        </div>
+        <span>
+          {closeLabel} {formatPrice(last.close)} · {change >= 0 ? "+" : ""}
+          {formatPrice(change)} ({changePercent.toFixed(2)}%)
+        </span>
+        <span>
+          Range {formatPrice(priceMin)} – {formatPrice(priceMax)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default BeautifulCandlestickChart;
@@ -0,0 +1,79 @@
+// Candlestick Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { UnifiedColorConfig } from "@/types/chart-config";
+import { AxisType } from "@/types/chart";
+import type { OhlcFieldMapping } from "@/lib/ai-chart-system/types";
+
+/**
+ * K线图数据点结构
+ * 第一个非数值字段作为X轴（日期或分类），开高低收字段按名称识别，
+ * 无法识别时按数值字段顺序依次视为开、高、低、收、成交量
+ */
+export interface CandlestickChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * K线图数据集合
+ */
+export type CandlestickChartData = CandlestickChartDataPoint[];
+
+/**
+ * K线图组件属性
+ */
+export interface CandlestickChartProps {
+  /** 图表数据 */
+  data: CandlestickChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 是否显示成交量子图（数据包含成交量字段时生效） */
+  showVolume?: boolean;
+
+  /** 是否显示网格 */
+  showGrid?: boolean;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * K线图数据校验结果
+ */
+export interface CandlestickChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    candleCount: number;
+    xKey: string;
+    fields: OhlcFieldMapping | null;
+    /** X轴类型：全部取值可解析为日期时为时间轴 */
+    xAxisType: AxisType;
+  };
+}
+
+/**
+ * K线图默认配置
+ */
+export const CANDLESTICK_CHART_DEFAULTS = {
+  showVolume: true,
+  showGrid: true,
+} as const;
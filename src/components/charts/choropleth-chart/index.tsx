@@ -0,0 +1,227 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { createHeatmapColorStops, interpolateColorStops } from "@/lib/colors";
+import {
+  GEO_MAPS,
+  createGeoProjection,
+  matchRegions,
+  regionCenter,
+  regionToSvgPath,
+} from "@/lib/geo-regions";
+import { ChoroplethMap } from "@/types/chart-config";
+import {
+  ChoroplethChartProps,
+  ChoroplethChartData,
+  ChoroplethChartValidationResult,
+  CHOROPLETH_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证分级统计地图数据结构
+ */
+export function validateChoroplethChartData(
+  data: ChoroplethChartData,
+  map: ChoroplethMap = CHOROPLETH_CHART_DEFAULTS.map
+): ChoroplethChartValidationResult {
+  const errors: string[] = [];
+  const emptyStats = { regionKey: "", valueKey: "", match: null };
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  const firstItem = data[0];
+  const keys = Object.keys(firstItem);
+  const regionKey = keys.find(key => typeof firstItem[key] === "string");
+  const valueKey = keys.find(key => typeof firstItem[key] === "number");
+
+  if (!regionKey || !valueKey) {
+    errors.push("地图需要1个地区字段（名称或编码）和1个数值字段");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  const match = matchRegions(
+    data.map(item => item[regionKey]),
+    map
+  );
+  if (match.matches.size === 0) {
+    errors.push(`地区字段 "${regionKey}" 中没有可识别的国家或省份名称`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    stats: { regionKey, valueKey, match },
+  };
+}
+
+const formatRegionValue = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+/** SVG 画布宽度（viewBox 单位），高度按底图经纬度范围自适应 */
+const MAP_VIEW_WIDTH = 1000;
+
+/** 投影后外接框小于该尺寸的地区（如港澳、新加坡）额外绘制圆点，保证可见 */
+const MIN_REGION_SIZE = 6;
+
+/** 页脚最多列出的未匹配地区数 */
+const MAX_UNMATCHED_LISTED = 8;
+
+/**
+ * 美化分级统计地图组件
+ * 将地区名称匹配到内置底图，按数值在色阶上取色；无数据地区使用中性色
+ */
+export function BeautifulChoroplethChart({
+  data,
+  config,
+  title,
+  description,
+  className,
+  map = CHOROPLETH_CHART_DEFAULTS.map,
+  colorScale = CHOROPLETH_CHART_DEFAULTS.colorScale,
+  showLegend = CHOROPLETH_CHART_DEFAULTS.showLegend,
+  showUnmatched = CHOROPLETH_CHART_DEFAULTS.showUnmatched,
+  colors: providedColors,
+  primaryColor = "#22c55e",
+}: ChoroplethChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateChoroplethChartData(data, map);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid || !validation.stats.match) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { regionKey, valueKey, match } = validation.stats;
+  const geoMap = GEO_MAPS[match.mapKey];
+
+  // 同一地区的多行（如 "China" 与 "CN"）累加
+  const regionValues = new Map<string, number>();
+  data.forEach(item => {
+    const region = match.matches.get(String(item[regionKey]).trim());
+    const value = Number(item[valueKey]);
+    if (!region || !Number.isFinite(value)) return;
+    regionValues.set(region.code, (regionValues.get(region.code) || 0) + value);
+  });
+
+  const values = Array.from(regionValues.values());
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const diverging = colorScale === "diverging";
+
+  // 发散色阶：跨越0时以0为中点，否则以数值区间中点为中点
+  const center = diverging ? (min < 0 && max > 0 ? 0 : (min + max) / 2) : min;
+  const spread = diverging ? Math.max(max - center, center - min) : max - min;
+  const toPosition = (value: number) => {
+    if (spread === 0) return diverging ? 0.5 : 1;
+    return diverging ? 0.5 + (value - center) / (2 * spread) : (value - min) / spread;
+  };
+
+  const baseColor = finalColors.series[0] || finalColors.primary || primaryColor;
+  const stops = createHeatmapColorStops(baseColor, diverging);
+  const projection = createGeoProjection(geoMap.regions, MAP_VIEW_WIDTH);
+  const valueLabel = String(config[valueKey]?.label || valueKey);
+  const listedUnmatched = match.unmatched.slice(0, MAX_UNMATCHED_LISTED);
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <div className="flex min-h-0 flex-1 items-center justify-center">
+        <svg
+          viewBox={`0 0 ${projection.width} ${projection.height}`}
+          className="h-full max-h-full w-full"
+          preserveAspectRatio="xMidYMid meet"
+          role="img"
+          aria-label={title || geoMap.label.en}
+        >
+          {geoMap.regions.map(region => {
+            const value = regionValues.get(region.code);
+            const fill =
+              value === undefined
+                ? finalColors.grid
+                : interpolateColorStops(stops, toPosition(value));
+            const bounds = regionCenter(region, projection);
+            const isTiny = bounds.width < MIN_REGION_SIZE && bounds.height < MIN_REGION_SIZE;
+            const label = `${region.name.zh} ${region.name.en}${
+              value === undefined ? "" : `: ${formatRegionValue(value)}`
+            }`;
+
+            return (
+              <g key={region.code}>
+                <title>{label}</title>
+                <path
+                  d={regionToSvgPath(region, projection)}
+                  fill={fill}
+                  fillOpacity={value === undefined ? 0.35 : 1}
+                  stroke={finalColors.background}
+                  strokeWidth={0.8}
+                  strokeLinejoin="round"
+                />
+                {isTiny && value !== undefined && (
+                  <circle
+                    cx={bounds.x}
+                    cy={bounds.y}
+                    r={MIN_REGION_SIZE / 2}
+                    fill={fill}
+                    stroke={finalColors.background}
+                    strokeWidth={0.8}
+                  />
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {showLegend && (
+        <div className="text-muted-foreground mt-4 space-y-1 text-xs">
+          <div className="text-foreground font-medium">{valueLabel}</div>
+          <div
+            className="h-2 w-full rounded-full"
+            style={{ background: `linear-gradient(to right, ${stops.join(", ")})` }}
+          />
+          <div className="flex justify-between">
+            <span>{formatRegionValue(diverging ? center - spread : min)}</span>
+            {diverging && <span>{formatRegionValue(center)}</span>}
+            <span>{formatRegionValue(diverging ? center + spread : max)}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="text-muted-foreground mt-2 flex flex-wrap gap-4 text-xs">
+        <span>
+          {geoMap.label.en} · {regionValues.size} regions matched
+        </span>
+        {showUnmatched && match.unmatched.length > 0 && (
+          <span className="text-amber-600">
+            Unmatched: {listedUnmatched.join(", ")}
+            {match.unmatched.length > listedUnmatched.length &&
+              ` +${match.unmatched.length - listedUnmatched.length}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BeautifulChoroplethChart;
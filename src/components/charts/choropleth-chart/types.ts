@@ -0,0 +1,84 @@
+// Choropleth Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { ChoroplethMap, HeatmapColorScale, UnifiedColorConfig } from "@/types/chart-config";
+import type { RegionMatchResult } from "@/lib/geo-regions";
+
+/**
+ * 分级统计地图数据点结构
+ * 第一个字符串字段作为地区（名称或编码），第一个数值字段作为着色数值
+ */
+export interface ChoroplethChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * 分级统计地图数据集合
+ */
+export type ChoroplethChartData = ChoroplethChartDataPoint[];
+
+/**
+ * 分级统计地图组件属性
+ */
+export interface ChoroplethChartProps {
+  /** 图表数据 */
+  data: ChoroplethChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 底图：auto 时按地区名称匹配率自动选择世界或中国地图 */
+  map?: ChoroplethMap;
+
+  /** 色阶类型：顺序色阶或发散色阶 */
+  colorScale?: HeatmapColorScale;
+
+  /** 是否显示色阶图例 */
+  showLegend?: boolean;
+
+  /** 是否在页脚列出未匹配的地区 */
+  showUnmatched?: boolean;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 分级统计地图数据校验结果
+ */
+export interface ChoroplethChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    regionKey: string;
+    valueKey: string;
+    /** 地区匹配结果，数据格式错误时为 null */
+    match: RegionMatchResult | null;
+  };
+}
+
+/**
+ * 分级统计地图默认配置
+ */
+export const CHOROPLETH_CHART_DEFAULTS = {
+  map: "auto" as ChoroplethMap,
+  colorScale: "sequential" as HeatmapColorScale,
+  showLegend: true,
+  showUnmatched: true,
+} as const;
@@ -0,0 +1,227 @@
+"use client";
+
+import { Area, Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { ChartContainer } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import { planComboSeriesLayout } from "@/lib/data-analysis-utils";
+import { formatFieldValue } from "@/lib/value-parser";
+import { COMBO_AXIS_SIDES, COMBO_SERIES_MARKS } from "@/constants/chart-config";
+import { ComboSeriesAssignment } from "@/types/chart-config";
+import {
+  ComboChartProps,
+  ComboChartData,
+  ComboChartValidationResult,
+  COMBO_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证组合图数据结构
+ */
+export function validateComboChartData(data: ComboChartData): ComboChartValidationResult {
+  const errors: string[] = [];
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return {
+      isValid: false,
+      errors,
+      stats: { dataPointCount: 0, categoryKey: "", valueKeys: [] },
+    };
+  }
+
+  const firstItem = data[0];
+  const keys = Object.keys(firstItem);
+  const categoryKey = keys.find(key => typeof firstItem[key] === "string") || keys[0];
+  const valueKeys = keys.filter(key => key !== categoryKey);
+
+  if (valueKeys.length < 2) {
+    errors.push("组合图至少需要2个数值系列");
+  }
+
+  data.forEach((item, index) => {
+    valueKeys.forEach(key => {
+      const value = item[key];
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        errors.push(`数据点 ${index + 1} 的数值字段 "${key}" 必须为有效数字`);
+      }
+    });
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    stats: {
+      dataPointCount: data.length,
+      categoryKey,
+      valueKeys,
+    },
+  };
+}
+
+/**
+ * 美化组合图组件（柱形 + 折线/面积，支持双Y轴）
+ */
+export function BeautifulComboChart({
+  data,
+  config,
+  title,
+  description,
+  className,
+  seriesLayout = {},
+  showGrid = COMBO_CHART_DEFAULTS.showGrid,
+  barRadius = COMBO_CHART_DEFAULTS.barRadius,
+  showDots = COMBO_CHART_DEFAULTS.showDots,
+  fillOpacity = COMBO_CHART_DEFAULTS.fillOpacity,
+  valueFormat,
+  secondaryValueFormat,
+  colors: providedColors,
+  primaryColor = "#22c55e",
+}: ComboChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateComboChartData(data);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { categoryKey, valueKeys } = validation.stats;
+
+  // 用户未分配的系列按量级自动规划
+  const plannedLayout = planComboSeriesLayout(data, valueKeys);
+  const series = valueKeys.map((key, index) => {
+    const assignment: ComboSeriesAssignment = seriesLayout[key] ?? plannedLayout[key];
+    return {
+      key,
+      ...assignment,
+      label: String(config[key]?.label || key),
+      color: finalColors.series[index % finalColors.series.length] || finalColors.primary,
+    };
+  });
+  const hasRightAxis = series.some(item => item.axis === "right");
+
+  const markLabel = (mark: string) =>
+    COMBO_SERIES_MARKS.find(option => option.value === mark)?.label || mark;
+  const axisLabel = (axis: string) =>
+    COMBO_AXIS_SIDES.find(option => option.value === axis)?.label || axis;
+
+  const axisTick = { fontSize: 12, fill: finalColors.text };
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <ChartContainer config={config} className="flex-1">
+        <ComposedChart
+          data={data}
+          margin={{ top: 20, right: hasRightAxis ? 20 : 30, left: 20, bottom: 40 }}
+        >
+          {showGrid && (
+            <CartesianGrid strokeDasharray="3 3" stroke={finalColors.grid} opacity={0.35} />
+          )}
+          <XAxis
+            dataKey={categoryKey}
+            tickLine={false}
+            axisLine={false}
+            tick={axisTick}
+            height={40}
+          />
+          <YAxis
+            yAxisId="left"
+            tickLine={false}
+            axisLine={false}
+            tick={axisTick}
+            tickFormatter={value => formatFieldValue(value, valueFormat)}
+          />
+          {hasRightAxis && (
+            <YAxis
+              yAxisId="right"
+              orientation="right"
+              tickLine={false}
+              axisLine={false}
+              tick={axisTick}
+              tickFormatter={value => formatFieldValue(value, secondaryValueFormat)}
+            />
+          )}
+
+          {/* 柱形先绘制，折线与面积覆盖在上层 */}
+          {series
+            .filter(item => item.mark === "bar")
+            .map(item => (
+              <Bar
+                key={item.key}
+                dataKey={item.key}
+                name={item.label}
+                yAxisId={item.axis}
+                fill={item.color}
+                radius={[barRadius, barRadius, 0, 0]}
+              />
+            ))}
+          {series
+            .filter(item => item.mark === "area")
+            .map(item => (
+              <Area
+                key={item.key}
+                dataKey={item.key}
+                name={item.label}
+                yAxisId={item.axis}
+                type="monotone"
+                fill={item.color}
+                fillOpacity={fillOpacity}
+                stroke={item.color}
+                strokeWidth={2}
+              />
+            ))}
+          {series
+            .filter(item => item.mark === "line")
+            .map(item => (
+              <Line
+                key={item.key}
+                dataKey={item.key}
+                name={item.label}
+                yAxisId={item.axis}
+                type="monotone"
+                stroke={item.color}
+                strokeWidth={2}
+                dot={showDots ? { r: 4, fill: item.color } : false}
+              />
+            ))}
+        </ComposedChart>
+      </ChartContainer>
+
+      <div className="text-muted-foreground mt-4 grid gap-2 text-xs">
+        {series.map(item => (
+          <div key={item.key} className="flex items-center gap-3">
+            <span
+              className="inline-flex h-2 w-2 rounded-full"
+              style={{ backgroundColor: item.color || primaryColor }}
+            />
+            <span className="text-foreground font-medium">{item.label}</span>
+            <span>
+              {markLabel(item.mark)} · {axisLabel(item.axis)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default BeautifulComboChart;
@@ -0,0 +1,92 @@
+// Combo Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { ComboSeriesAssignment, UnifiedColorConfig } from "@/types/chart-config";
+import { FieldValueFormat } from "@/types/data";
+
+/**
+ * 组合图数据点结构
+ * 第一个字段为分类/时间字段，其余数值字段为各个系列
+ */
+export interface ComboChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * 组合图数据集合
+ */
+export type ComboChartData = ComboChartDataPoint[];
+
+/**
+ * 组合图组件属性
+ */
+export interface ComboChartProps {
+  /** 图表数据 */
+  data: ComboChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 每个系列的标记类型与坐标轴分配，未指定的系列自动规划 */
+  seriesLayout?: Record<string, ComboSeriesAssignment>;
+
+  /** 是否显示背景网格 */
+  showGrid?: boolean;
+
+  /** 柱形圆角半径 */
+  barRadius?: number;
+
+  /** 折线是否显示节点 */
+  showDots?: boolean;
+
+  /** 面积系列透明度 */
+  fillOpacity?: number;
+
+  /** 左轴数值的显示格式（货币、百分比等），缺省时按千分位显示 */
+  valueFormat?: FieldValueFormat;
+
+  /** 右轴数值的显示格式 */
+  secondaryValueFormat?: FieldValueFormat;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 组合图数据校验结果
+ */
+export interface ComboChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    dataPointCount: number;
+    categoryKey: string;
+    valueKeys: string[];
+  };
+}
+
+/**
+ * 组合图默认配置
+ */
+export const COMBO_CHART_DEFAULTS = {
+  showGrid: true,
+  barRadius: 4,
+  showDots: true,
+  fillOpacity: 0.3,
+} as const;
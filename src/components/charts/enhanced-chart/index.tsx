@@ -1,20 +1,13 @@
 "use client";
 
-import { BeautifulAreaChart } from "../area-chart";
-import { BeautifulBarChart } from "../bar-chart";
-import { BeautifulLineChart } from "../line-chart";
-import { BeautifulPieChart } from "../pie-chart";
-import { BeautifulRadarChart } from "../radar-chart";
-import { BeautifulRadialChart } from "../radial-chart";
-import {
-  EnhancedChartProps,
-  StandardChartData,
-  ChartTypeValidationResult,
-  ENHANCED_CHART_DEFAULTS,
-} from "./types";
-import { PieChartData } from "../pie-chart/types";
-import { RadialChartData } from "../radial-chart/types";
+import { EnhancedChartProps, ChartTypeValidationResult, ENHANCED_CHART_DEFAULTS } from "./types";
+import { resolveChartRenderer } from "./renderers";
 import { useChartConfig } from "@/components/charts/simple-chart-wrapper";
+import { chartTypeRegistry } from "@/lib/chart-registry";
+import { rankCategories } from "@/lib/category-ranking";
+import { TOP_N_DEFAULTS } from "@/constants/chart-config";
+
+export { transformToPieData } from "./renderers";
 
 /**
  * 验证数据与图表类型的兼容性
@@ -77,65 +70,24 @@ export function validateChartTypeCompatibility(
       .some(key => data.some(item => typeof (item as any)[key] === "number"));
   }
 
-  // 图表类型兼容性验证
-  switch (type) {
-    case "pie":
-      if (!isPieFormat && !isStandardFormat) {
-        errors.push("饼图需要包含 name 和 value 字段，或标准的分类数据格式");
-        isValid = false;
-      }
-      if (pointCount < 2) {
-        errors.push("饼图至少需要2个数据点");
-        isValid = false;
-      }
-      break;
-
-    case "radial":
-      if (!isPieFormat && !isStandardFormat) {
-        errors.push("径向图需要包含 name 和 value 字段，或标准的分类数据格式");
-        isValid = false;
-      }
-      if (pointCount < 2) {
-        errors.push("径向图建议至少包含2个数据点");
-        isValid = false;
-      }
-      break;
-
-    case "bar":
-    case "line":
-    case "area":
-      if (isPieFormat) {
-        errors.push(`${type}图不支持饼图数据格式，请使用标准数据格式`);
-        isValid = false;
-      }
-      if (pointCount < 2) {
-        errors.push(`${type}图至少需要2个数据点`);
-        isValid = false;
-      }
-      if (seriesCount < 1) {
-        errors.push(`${type}图至少需要1个数值系列`);
-        isValid = false;
-      }
-      break;
-
-    case "radar":
-      if (!isStandardFormat) {
-        errors.push("雷达图需要标准的分类数据格式");
-        isValid = false;
-      }
-      if (pointCount < 3) {
-        errors.push("雷达图至少需要3个数据点");
-        isValid = false;
-      }
-      if (seriesCount < 2) {
-        errors.push("雷达图至少需要2个数值系列用于比较");
-        isValid = false;
-      }
-      break;
+  // 图表类型兼容性验证：先检查插件声明的数据格式，再交由插件校验
+  const plugin = chartTypeRegistry.has(type) ? chartTypeRegistry.get(type) : undefined;
+  if (!plugin || !resolveChartRenderer(plugin)) {
+    errors.push(`不支持的图表类型: ${type}`);
+    isValid = false;
+  } else {
+    const formats = plugin.dataRequirements.formats;
+    const formatSupported = formats.includes(isPieFormat ? "pie" : "standard");
+    if (!formatSupported) {
+      errors.push(`${plugin.label.zh}不支持当前的数据格式`);
+      isValid = false;
+    }
 
-    default:
-      errors.push(`不支持的图表类型: ${type}`);
+    const pluginErrors = plugin.validateRenderData?.(data as Record<string, unknown>[]) ?? [];
+    if (pluginErrors.length > 0) {
+      errors.push(...pluginErrors);
       isValid = false;
+    }
   }
 
   return {
@@ -151,36 +103,6 @@ export function validateChartTypeCompatibility(
   };
 }
 
-/**
- * 数据格式转换：标准数据转饼图数据
- */
-export function transformToPieData(data: StandardChartData): PieChartData {
-  if (data.length === 0) return [];
-
-  const firstItem = data[0];
-  const keys = Object.keys(firstItem);
-  const nameKey = keys[0]; // 第一个键作为名称
-  const valueKeys = keys.slice(1); // 其余键作为数值
-
-  // 如果只有一个数值列，直接转换
-  if (valueKeys.length === 1) {
-    const valueKey = valueKeys[0];
-    return data.map(item => ({
-      name: String(item[nameKey]),
-      value: Number(item[valueKey]) || 0,
-    }));
-  }
-
-  // 如果有多个数值列，聚合所有数值
-  return data.map(item => {
-    const total = valueKeys.reduce((sum, key) => sum + (Number(item[key]) || 0), 0);
-    return {
-      name: String(item[nameKey]),
-      value: total,
-    };
-  });
-}
-
 /**
  * 增强图表组件
  * 统一的图表包装器，支持所有图表类型
@@ -192,38 +114,10 @@ export function EnhancedChart({
   title,
   description,
   className = ENHANCED_CHART_DEFAULTS.className,
-  stacked = ENHANCED_CHART_DEFAULTS.stacked,
-  fillOpacity = ENHANCED_CHART_DEFAULTS.fillOpacity,
-  innerRadius = ENHANCED_CHART_DEFAULTS.innerRadius,
-  outerRadius = ENHANCED_CHART_DEFAULTS.outerRadius,
-  showPercentage = ENHANCED_CHART_DEFAULTS.showPercentage,
-  showLegend = ENHANCED_CHART_DEFAULTS.showLegend,
-  barRadius = ENHANCED_CHART_DEFAULTS.bar.radius,
-  barShowValues = ENHANCED_CHART_DEFAULTS.bar.showValues,
-  barShowGrid = ENHANCED_CHART_DEFAULTS.bar.showGrid,
-  lineCurveType = ENHANCED_CHART_DEFAULTS.line.curveType,
-  lineShowDots = ENHANCED_CHART_DEFAULTS.line.showDots,
-  lineDotSize = ENHANCED_CHART_DEFAULTS.line.dotSize,
-  lineDotVariant = ENHANCED_CHART_DEFAULTS.line.dotVariant,
-  lineShowGrid = ENHANCED_CHART_DEFAULTS.line.showGrid,
-  radarShowGrid = ENHANCED_CHART_DEFAULTS.radar.showGrid,
-  radarShowLegend = ENHANCED_CHART_DEFAULTS.radar.showLegend,
-  radarShowDots = ENHANCED_CHART_DEFAULTS.radar.showDots,
-  radarShowArea = ENHANCED_CHART_DEFAULTS.radar.showArea,
-  radarFillOpacity = ENHANCED_CHART_DEFAULTS.radar.fillOpacity,
-  radarStrokeWidth = ENHANCED_CHART_DEFAULTS.radar.strokeWidth,
-  radarMaxValue,
-  radialBarSize = ENHANCED_CHART_DEFAULTS.radial.barSize,
-  radialCornerRadius = ENHANCED_CHART_DEFAULTS.radial.cornerRadius,
-  radialStartAngle = ENHANCED_CHART_DEFAULTS.radial.startAngle,
-  radialEndAngle = ENHANCED_CHART_DEFAULTS.radial.endAngle,
-  radialShowBackground = ENHANCED_CHART_DEFAULTS.radial.showBackground,
-  radialShowLabels = ENHANCED_CHART_DEFAULTS.radial.showLabels,
-  radialInnerRadius = ENHANCED_CHART_DEFAULTS.radial.innerRadius,
-  radialOuterRadius = ENHANCED_CHART_DEFAULTS.radial.outerRadius,
+  valueDomain,
+  valueFormat,
+  secondaryValueFormat,
   exportMode = false,
-  areaUseGradient = ENHANCED_CHART_DEFAULTS.area.useGradient,
-  areaShowGrid = ENHANCED_CHART_DEFAULTS.area.showGrid,
   unifiedConfig,
   primaryColor = "#22c55e",
   ...props
@@ -315,146 +209,50 @@ export function EnhancedChart({
     );
   }
 
-  // 渲染对应的图表组件
-  switch (type) {
-    case "bar":
-      return (
-        <BeautifulBarChart
-          data={data as StandardChartData}
-          config={activeConfig}
-          title={title}
-          description={description}
-          barRadius={activeOptions.barRadius ?? barRadius}
-          showValueLabels={activeOptions.barShowValues ?? barShowValues}
-          showGrid={activeOptions.barShowGrid ?? barShowGrid}
-          colors={activeColors}
-          primaryColor={primaryColor}
-        />
-      );
-
-    case "line":
-      return (
-        <BeautifulLineChart
-          data={data as StandardChartData}
-          config={activeConfig}
-          title={title}
-          description={description}
-          curveType={activeOptions.lineCurveType ?? lineCurveType}
-          showDots={activeOptions.lineShowDots ?? lineShowDots}
-          dotSize={activeOptions.lineDotSize ?? lineDotSize}
-          dotVariant={activeOptions.lineDotVariant ?? lineDotVariant}
-          showGrid={activeOptions.lineShowGrid ?? lineShowGrid}
-          colors={activeColors}
-          primaryColor={primaryColor}
-        />
-      );
-
-    case "pie":
-      // 数据格式转换处理
-      let pieData: PieChartData;
-      if (Array.isArray(data) && data.length > 0) {
-        const firstItem = data[0];
-        if ("name" in firstItem && "value" in firstItem) {
-          // 已经是饼图格式
-          pieData = data as PieChartData;
-        } else {
-          // 转换标准数据为饼图格式
-          pieData = transformToPieData(data as StandardChartData);
-        }
-      } else {
-        pieData = [];
-      }
-
-      return (
-        <BeautifulPieChart
-          data={pieData}
-          config={activeConfig}
-          title={title}
-          description={description}
-          showPercentage={activeOptions.showPercentage ?? showPercentage}
-          showLegend={activeOptions.showLegend ?? showLegend}
-          innerRadius={activeOptions.innerRadius ?? innerRadius}
-          outerRadius={activeOptions.outerRadius ?? outerRadius}
-          colors={activeColors}
-          primaryColor={primaryColor}
-        />
-      );
-
-    case "radial":
-      let radialData: RadialChartData;
-      if (Array.isArray(data) && data.length > 0) {
-        const firstItem = data[0];
-        if ("name" in firstItem && "value" in firstItem) {
-          radialData = data as RadialChartData;
-        } else {
-          radialData = transformToPieData(data as StandardChartData) as RadialChartData;
-        }
-      } else {
-        radialData = [];
-      }
-
-      return (
-        <BeautifulRadialChart
-          data={radialData}
-          config={activeConfig}
-          title={title}
-          description={description}
-          innerRadius={activeOptions.radialInnerRadius ?? radialInnerRadius ?? innerRadius}
-          outerRadius={activeOptions.radialOuterRadius ?? radialOuterRadius ?? outerRadius}
-          barSize={activeOptions.radialBarSize ?? radialBarSize}
-          cornerRadius={activeOptions.radialCornerRadius ?? radialCornerRadius}
-          startAngle={activeOptions.radialStartAngle ?? radialStartAngle}
-          endAngle={activeOptions.radialEndAngle ?? radialEndAngle}
-          showLegend={activeOptions.showLegend ?? showLegend}
-          showBackground={activeOptions.radialShowBackground ?? radialShowBackground}
-          showLabels={activeOptions.radialShowLabels ?? radialShowLabels}
-          colors={activeColors}
-          primaryColor={primaryColor}
-        />
-      );
-
-    case "area":
-      return (
-        <BeautifulAreaChart
-          data={data as StandardChartData}
-          config={activeConfig}
-          title={title}
-          description={description}
-          stacked={activeOptions.stacked ?? stacked}
-          fillOpacity={activeOptions.areaFillOpacity ?? activeOptions.fillOpacity ?? fillOpacity}
-          useGradient={activeOptions.areaUseGradient ?? areaUseGradient}
-          showGrid={activeOptions.areaShowGrid ?? areaShowGrid}
-          colors={activeColors}
-          primaryColor={primaryColor}
-        />
-      );
-
-    case "radar":
-      return (
-        <BeautifulRadarChart
-          data={data as StandardChartData}
-          config={activeConfig}
-          title={title}
-          description={description}
-          showGrid={activeOptions.radarShowGrid ?? radarShowGrid}
-          showLegend={activeOptions.radarShowLegend ?? radarShowLegend}
-          showDots={activeOptions.radarShowDots ?? radarShowDots}
-          showArea={activeOptions.radarShowArea ?? radarShowArea}
-          fillOpacity={activeOptions.radarFillOpacity ?? radarFillOpacity}
-          strokeWidth={activeOptions.radarStrokeWidth ?? radarStrokeWidth}
-          maxValue={activeOptions.radarMaxValue ?? radarMaxValue}
-          colors={activeColors}
-          primaryColor={primaryColor}
-        />
-      );
+  // 分类排序与 Top N 合并：保留数值最大的分类，其余合并为 "Other"
+  let rankedData = data;
+  let foldedCategories: string[] = [];
+  if (type in TOP_N_DEFAULTS) {
+    const firstItem = data[0];
+    const isPieFormat = "name" in firstItem && "value" in firstItem;
+    const keys = Object.keys(firstItem);
+    const ranked = rankCategories(data as Record<string, unknown>[], {
+      categoryKey: isPieFormat ? "name" : keys[0],
+      valueKeys: isPieFormat ? ["value"] : keys.slice(1),
+      sort: activeOptions.categorySort ?? "auto",
+      limit: activeOptions.topN ?? TOP_N_DEFAULTS[type as keyof typeof TOP_N_DEFAULTS],
+    });
+    rankedData = ranked.rows as typeof data;
+    foldedCategories = ranked.folded;
+  }
 
-    default:
-      return (
-        <div className="bg-muted rounded-lg border p-4">
-          <p className="text-muted-foreground text-sm">不支持的图表类型: {type}</p>
-        </div>
-      );
+  // 渲染插件声明的渲染组件（内置图表按渲染器名称解析为适配组件）
+  const plugin = chartTypeRegistry.get(type);
+  const Renderer = plugin && resolveChartRenderer(plugin);
+  if (!Renderer) {
+    return (
+      <div className="bg-muted rounded-lg border p-4">
+        <p className="text-muted-foreground text-sm">不支持的图表类型: {type}</p>
+      </div>
+    );
   }
+
+  return (
+    <Renderer
+      type={type}
+      data={rankedData as Record<string, unknown>[]}
+      config={activeConfig}
+      title={title}
+      description={description}
+      colors={activeColors}
+      options={{ ...plugin.defaultOptions, ...activeOptions }}
+      primaryColor={primaryColor}
+      valueDomain={valueDomain}
+      valueFormat={valueFormat}
+      secondaryValueFormat={secondaryValueFormat}
+      foldedCategories={foldedCategories}
+    />
+  );
 }
 
 // 默认导出
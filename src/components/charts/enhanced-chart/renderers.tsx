@@ -0,0 +1,432 @@
+"use client";
+
+// 内置图表的渲染适配组件
+// 将统一的渲染属性（数据、配置、选项）转换为各图表组件的专属属性，按渲染器名称供 EnhancedChart 查找
+
+import type { ComponentType } from "react";
+import { ChartConfig } from "@/components/ui/chart";
+import { ChartPluginRendererProps, ChartTypePlugin } from "@/lib/chart-registry";
+import { BeautifulAreaChart } from "../area-chart";
+import { BeautifulBarChart } from "../bar-chart";
+import { BeautifulLineChart } from "../line-chart";
+import { BeautifulPieChart } from "../pie-chart";
+import { BeautifulRadarChart } from "../radar-chart";
+import { BeautifulRadialChart } from "../radial-chart";
+import { BeautifulScatterChart } from "../scatter-chart";
+import { BeautifulComboChart } from "../combo-chart";
+import { BeautifulHeatmapChart } from "../heatmap-chart";
+import { BeautifulWaterfallChart } from "../waterfall-chart";
+import { BeautifulFunnelChart } from "../funnel-chart";
+import { BeautifulHistogramChart } from "../histogram-chart";
+import { BeautifulBoxPlotChart } from "../boxplot-chart";
+import { BeautifulTreemapChart } from "../treemap-chart";
+import { BeautifulSunburstChart } from "../sunburst-chart";
+import { BeautifulCandlestickChart } from "../candlestick-chart";
+import { BeautifulChoroplethChart } from "../choropleth-chart";
+import { PieChartData } from "../pie-chart/types";
+import { RadialChartData } from "../radial-chart/types";
+import { EnhancedChartProps, StandardChartData, ENHANCED_CHART_DEFAULTS } from "./types";
+
+const DEFAULTS = ENHANCED_CHART_DEFAULTS;
+
+/**
+ * 渲染选项：EnhancedChart 的图表选项属性与统一配置中的选项合并而成
+ */
+type RendererOptions = Partial<EnhancedChartProps> & { areaFillOpacity?: number };
+
+type ChartRenderer = ComponentType<ChartPluginRendererProps>;
+
+/**
+ * 数据格式转换：标准数据转饼图数据
+ */
+export function transformToPieData(data: StandardChartData): PieChartData {
+  if (data.length === 0) return [];
+
+  const firstItem = data[0];
+  const keys = Object.keys(firstItem);
+  const nameKey = keys[0]; // 第一个键作为名称
+  const valueKeys = keys.slice(1); // 其余键作为数值
+
+  // 如果只有一个数值列，直接转换
+  if (valueKeys.length === 1) {
+    const valueKey = valueKeys[0];
+    return data.map(item => ({
+      name: String(item[nameKey]),
+      value: Number(item[valueKey]) || 0,
+    }));
+  }
+
+  // 如果有多个数值列，聚合所有数值
+  return data.map(item => {
+    const total = valueKeys.reduce((sum, key) => sum + (Number(item[key]) || 0), 0);
+    return {
+      name: String(item[nameKey]),
+      value: total,
+    };
+  });
+}
+
+/**
+ * 饼图、径向图与漏斗图共用 name/value 分类格式，标准数据按首个字段转换
+ */
+function toPieData(data: Record<string, unknown>[]): PieChartData {
+  if (data.length === 0) return [];
+  const firstItem = data[0];
+  return "name" in firstItem && "value" in firstItem
+    ? (data as unknown as PieChartData)
+    : transformToPieData(data as StandardChartData);
+}
+
+const BarRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulBarChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      barRadius={options.barRadius ?? DEFAULTS.bar.radius}
+      showValueLabels={options.barShowValues ?? DEFAULTS.bar.showValues}
+      showGrid={options.barShowGrid ?? DEFAULTS.bar.showGrid}
+      valueDomain={props.valueDomain}
+      valueFormat={props.valueFormat}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+      foldedCategories={props.foldedCategories}
+    />
+  );
+};
+
+const LineRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulLineChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      curveType={options.lineCurveType ?? DEFAULTS.line.curveType}
+      showDots={options.lineShowDots ?? DEFAULTS.line.showDots}
+      dotSize={options.lineDotSize ?? DEFAULTS.line.dotSize}
+      dotVariant={options.lineDotVariant ?? DEFAULTS.line.dotVariant}
+      showGrid={options.lineShowGrid ?? DEFAULTS.line.showGrid}
+      valueDomain={props.valueDomain}
+      valueFormat={props.valueFormat}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const PieRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulPieChart
+      data={toPieData(props.data)}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      showPercentage={options.showPercentage ?? DEFAULTS.showPercentage}
+      showLegend={options.showLegend ?? DEFAULTS.showLegend}
+      innerRadius={options.innerRadius ?? DEFAULTS.innerRadius}
+      outerRadius={options.outerRadius ?? DEFAULTS.outerRadius}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+      foldedCategories={props.foldedCategories}
+    />
+  );
+};
+
+const RadialRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulRadialChart
+      data={toPieData(props.data) as RadialChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      innerRadius={options.radialInnerRadius ?? DEFAULTS.radial.innerRadius}
+      outerRadius={options.radialOuterRadius ?? DEFAULTS.radial.outerRadius}
+      barSize={options.radialBarSize ?? DEFAULTS.radial.barSize}
+      cornerRadius={options.radialCornerRadius ?? DEFAULTS.radial.cornerRadius}
+      startAngle={options.radialStartAngle ?? DEFAULTS.radial.startAngle}
+      endAngle={options.radialEndAngle ?? DEFAULTS.radial.endAngle}
+      showLegend={options.showLegend ?? DEFAULTS.showLegend}
+      showBackground={options.radialShowBackground ?? DEFAULTS.radial.showBackground}
+      showLabels={options.radialShowLabels ?? DEFAULTS.radial.showLabels}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+      foldedCategories={props.foldedCategories}
+    />
+  );
+};
+
+const AreaRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulAreaChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      stacked={options.stacked ?? DEFAULTS.stacked}
+      fillOpacity={options.areaFillOpacity ?? options.fillOpacity ?? DEFAULTS.fillOpacity}
+      useGradient={options.areaUseGradient ?? DEFAULTS.area.useGradient}
+      showGrid={options.areaShowGrid ?? DEFAULTS.area.showGrid}
+      valueDomain={props.valueDomain}
+      valueFormat={props.valueFormat}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const RadarRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulRadarChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      showGrid={options.radarShowGrid ?? DEFAULTS.radar.showGrid}
+      showLegend={options.radarShowLegend ?? DEFAULTS.radar.showLegend}
+      showDots={options.radarShowDots ?? DEFAULTS.radar.showDots}
+      showArea={options.radarShowArea ?? DEFAULTS.radar.showArea}
+      fillOpacity={options.radarFillOpacity ?? DEFAULTS.radar.fillOpacity}
+      strokeWidth={options.radarStrokeWidth ?? DEFAULTS.radar.strokeWidth}
+      maxValue={options.radarMaxValue ?? props.valueDomain?.[1]}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+      foldedCategories={props.foldedCategories}
+    />
+  );
+};
+
+const ScatterRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulScatterChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      bubble={props.type === "bubble"}
+      showGrid={options.scatterShowGrid ?? DEFAULTS.scatter.showGrid}
+      showTrendLine={options.scatterShowTrendLine ?? DEFAULTS.scatter.showTrendLine}
+      dotSize={options.scatterDotSize ?? DEFAULTS.scatter.dotSize}
+      fillOpacity={options.scatterFillOpacity ?? DEFAULTS.scatter.fillOpacity}
+      bubbleMinSize={options.bubbleMinSize ?? DEFAULTS.scatter.bubbleMinSize}
+      bubbleMaxSize={options.bubbleMaxSize ?? DEFAULTS.scatter.bubbleMaxSize}
+      valueDomain={props.valueDomain}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const ComboRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulComboChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      seriesLayout={options.comboSeries}
+      showGrid={options.comboShowGrid ?? DEFAULTS.combo.showGrid}
+      barRadius={options.comboBarRadius ?? DEFAULTS.combo.barRadius}
+      showDots={options.comboShowDots ?? DEFAULTS.combo.showDots}
+      valueFormat={props.valueFormat}
+      secondaryValueFormat={props.secondaryValueFormat}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const HeatmapRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulHeatmapChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      colorScale={options.heatmapColorScale ?? DEFAULTS.heatmap.colorScale}
+      showValues={options.heatmapShowValues ?? DEFAULTS.heatmap.showValues}
+      showLegend={options.heatmapShowLegend ?? DEFAULTS.heatmap.showLegend}
+      cellGap={options.heatmapCellGap ?? DEFAULTS.heatmap.cellGap}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const WaterfallRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulWaterfallChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      showTotal={options.waterfallShowTotal ?? DEFAULTS.waterfall.showTotal}
+      showConnectors={options.waterfallShowConnectors ?? DEFAULTS.waterfall.showConnectors}
+      showValues={options.waterfallShowValues ?? DEFAULTS.waterfall.showValues}
+      showGrid={options.waterfallShowGrid ?? DEFAULTS.waterfall.showGrid}
+      barRadius={options.waterfallBarRadius ?? DEFAULTS.waterfall.barRadius}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const FunnelRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulFunnelChart
+      data={toPieData(props.data)}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      showConversion={options.funnelShowConversion ?? DEFAULTS.funnel.showConversion}
+      conversionBase={options.funnelConversionBase ?? DEFAULTS.funnel.conversionBase}
+      showValues={options.funnelShowValues ?? DEFAULTS.funnel.showValues}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const HistogramRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulHistogramChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      binMethod={options.histogramBinMethod ?? DEFAULTS.histogram.binMethod}
+      binCount={options.histogramBinCount ?? DEFAULTS.histogram.binCount}
+      showGrid={options.histogramShowGrid ?? DEFAULTS.histogram.showGrid}
+      showMean={options.histogramShowMean ?? DEFAULTS.histogram.showMean}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const BoxPlotRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulBoxPlotChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      showOutliers={options.boxplotShowOutliers ?? DEFAULTS.boxplot.showOutliers}
+      showMean={options.boxplotShowMean ?? DEFAULTS.boxplot.showMean}
+      showGrid={options.boxplotShowGrid ?? DEFAULTS.boxplot.showGrid}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const TreemapRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulTreemapChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      showLabels={options.treemapShowLabels ?? DEFAULTS.treemap.showLabels}
+      showValues={options.treemapShowValues ?? DEFAULTS.treemap.showValues}
+      cellGap={options.treemapCellGap ?? DEFAULTS.treemap.cellGap}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const SunburstRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulSunburstChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      showLabels={options.sunburstShowLabels ?? DEFAULTS.sunburst.showLabels}
+      innerRadius={options.sunburstInnerRadius ?? DEFAULTS.sunburst.innerRadius}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const CandlestickRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulCandlestickChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      showVolume={options.candlestickShowVolume ?? DEFAULTS.candlestick.showVolume}
+      showGrid={options.candlestickShowGrid ?? DEFAULTS.candlestick.showGrid}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+const ChoroplethRenderer: ChartRenderer = props => {
+  const options = props.options as RendererOptions;
+  return (
+    <BeautifulChoroplethChart
+      data={props.data as StandardChartData}
+      config={props.config as ChartConfig}
+      title={props.title}
+      description={props.description}
+      map={options.choroplethMap ?? DEFAULTS.choropleth.map}
+      colorScale={options.choroplethColorScale ?? DEFAULTS.choropleth.colorScale}
+      showLegend={options.choroplethShowLegend ?? DEFAULTS.choropleth.showLegend}
+      showUnmatched={options.choroplethShowUnmatched ?? DEFAULTS.choropleth.showUnmatched}
+      colors={props.colors}
+      primaryColor={props.primaryColor}
+    />
+  );
+};
+
+/**
+ * 内置渲染器名称到适配组件的映射，名称与内置插件的 renderer.name 对应
+ */
+const BUILTIN_RENDERERS: Record<string, ChartRenderer> = {
+  BeautifulBarChart: BarRenderer,
+  BeautifulLineChart: LineRenderer,
+  BeautifulPieChart: PieRenderer,
+  BeautifulRadialChart: RadialRenderer,
+  BeautifulAreaChart: AreaRenderer,
+  BeautifulRadarChart: RadarRenderer,
+  BeautifulScatterChart: ScatterRenderer,
+  BeautifulComboChart: ComboRenderer,
+  BeautifulHeatmapChart: HeatmapRenderer,
+  BeautifulWaterfallChart: WaterfallRenderer,
+  BeautifulFunnelChart: FunnelRenderer,
+  BeautifulHistogramChart: HistogramRenderer,
+  BeautifulBoxPlotChart: BoxPlotRenderer,
+  BeautifulTreemapChart: TreemapRenderer,
+  BeautifulSunburstChart: SunburstRenderer,
+  BeautifulCandlestickChart: CandlestickRenderer,
+  BeautifulChoroplethChart: ChoroplethRenderer,
+};
+
+/**
+ * 解析插件的渲染组件：插件自带组件优先，否则按渲染器名称查找内置适配组件
+ */
+export function resolveChartRenderer(plugin: ChartTypePlugin): ChartRenderer | undefined {
+  return plugin.renderer.component ?? BUILTIN_RENDERERS[plugin.renderer.name];
+}
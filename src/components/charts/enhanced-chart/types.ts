@@ -1,6 +1,7 @@
 // Enhanced Chart 专用类型定义
 import { ChartConfig } from "@/components/ui/chart";
 import { ChartType } from "@/types/chart";
+import { FieldValueFormat } from "@/types/data";
 
 // 导入各图表组件的数据类型
 import { BarChartData } from "../bar-chart/types";
@@ -9,6 +10,25 @@ import { PieChartData } from "../pie-chart/types";
 import { AreaChartData } from "../area-chart/types";
 import { RadarChartData, RADAR_CHART_DEFAULTS } from "../radar-chart/types";
 import { RadialChartData, RADIAL_CHART_DEFAULTS } from "../radial-chart/types";
+import { SCATTER_CHART_DEFAULTS } from "../scatter-chart/types";
+import { COMBO_CHART_DEFAULTS } from "../combo-chart/types";
+import { HEATMAP_CHART_DEFAULTS } from "../heatmap-chart/types";
+import { WATERFALL_CHART_DEFAULTS } from "../waterfall-chart/types";
+import { FUNNEL_CHART_DEFAULTS } from "../funnel-chart/types";
+import { HISTOGRAM_CHART_DEFAULTS } from "../histogram-chart/types";
+import { BOXPLOT_CHART_DEFAULTS } from "../boxplot-chart/types";
+import { TREEMAP_CHART_DEFAULTS } from "../treemap-chart/types";
+import { SUNBURST_CHART_DEFAULTS } from "../sunburst-chart/types";
+import { CANDLESTICK_CHART_DEFAULTS } from "../candlestick-chart/types";
+import { CHOROPLETH_CHART_DEFAULTS } from "../choropleth-chart/types";
+import {
+  CategorySort,
+  ChoroplethMap,
+  ComboSeriesAssignment,
+  FunnelConversionBase,
+  HeatmapColorScale,
+  HistogramBinMethod,
+} from "@/types/chart-config";
 
 /**
  * 通用图表数据点接口
@@ -143,6 +163,141 @@ export interface EnhancedChartProps {
   /** 径向图外半径 */
   radialOuterRadius?: number;
 
+  /** 散点图是否显示背景网格 */
+  scatterShowGrid?: boolean;
+
+  /** 散点图是否显示趋势线 */
+  scatterShowTrendLine?: boolean;
+
+  /** 散点图点大小 */
+  scatterDotSize?: number;
+
+  /** 散点图/气泡图填充透明度 */
+  scatterFillOpacity?: number;
+
+  /** 气泡图最小气泡尺寸 */
+  bubbleMinSize?: number;
+
+  /** 气泡图最大气泡尺寸 */
+  bubbleMaxSize?: number;
+
+  /** 组合图各系列的标记类型与坐标轴分配 */
+  comboSeries?: Record<string, ComboSeriesAssignment>;
+
+  /** 组合图是否显示背景网格 */
+  comboShowGrid?: boolean;
+
+  /** 组合图柱形圆角半径 */
+  comboBarRadius?: number;
+
+  /** 组合图折线是否显示节点 */
+  comboShowDots?: boolean;
+
+  /** 热力图色阶类型 */
+  heatmapColorScale?: HeatmapColorScale;
+
+  /** 热力图是否显示单元格数值 */
+  heatmapShowValues?: boolean;
+
+  /** 热力图是否显示色阶图例 */
+  heatmapShowLegend?: boolean;
+
+  /** 热力图单元格间距 */
+  heatmapCellGap?: number;
+
+  /** 瀑布图是否追加期末合计柱 */
+  waterfallShowTotal?: boolean;
+
+  /** 瀑布图是否显示连接线 */
+  waterfallShowConnectors?: boolean;
+
+  /** 瀑布图是否显示数值标签 */
+  waterfallShowValues?: boolean;
+
+  /** 瀑布图是否显示网格 */
+  waterfallShowGrid?: boolean;
+
+  /** 瀑布图柱体圆角 */
+  waterfallBarRadius?: number;
+
+  /** 漏斗图是否显示转化率 */
+  funnelShowConversion?: boolean;
+
+  /** 漏斗图转化率计算基准 */
+  funnelConversionBase?: FunnelConversionBase;
+
+  /** 漏斗图是否显示阶段数值 */
+  funnelShowValues?: boolean;
+
+  /** 直方图自动分箱规则 */
+  histogramBinMethod?: HistogramBinMethod;
+
+  /** 直方图手动分箱数量，0 表示按规则自动计算 */
+  histogramBinCount?: number;
+
+  /** 直方图是否显示网格 */
+  histogramShowGrid?: boolean;
+
+  /** 直方图是否标注均值 */
+  histogramShowMean?: boolean;
+
+  /** 箱线图是否显示异常值 */
+  boxplotShowOutliers?: boolean;
+
+  /** 箱线图是否标注均值 */
+  boxplotShowMean?: boolean;
+
+  /** 箱线图是否显示网格 */
+  boxplotShowGrid?: boolean;
+
+  /** 矩形树图是否显示名称 */
+  treemapShowLabels?: boolean;
+
+  /** 矩形树图是否显示数值 */
+  treemapShowValues?: boolean;
+
+  /** 矩形树图矩形间距 */
+  treemapCellGap?: number;
+
+  /** 旭日图是否显示名称 */
+  sunburstShowLabels?: boolean;
+
+  /** 旭日图中心空白半径 */
+  sunburstInnerRadius?: number;
+
+  /** K线图是否显示成交量子图 */
+  candlestickShowVolume?: boolean;
+
+  /** K线图是否显示网格 */
+  candlestickShowGrid?: boolean;
+
+  /** 地图底图（auto 时按地区名称自动选择世界或中国地图） */
+  choroplethMap?: ChoroplethMap;
+
+  /** 地图色阶类型 */
+  choroplethColorScale?: HeatmapColorScale;
+
+  /** 地图是否显示色阶图例 */
+  choroplethShowLegend?: boolean;
+
+  /** 地图是否列出未匹配的地区 */
+  choroplethShowUnmatched?: boolean;
+
+  /** 饼图、径向图、柱状图、雷达图保留的分类数，其余合并为 "Other"；0 表示不合并，缺省按图表类型取默认值 */
+  topN?: number;
+
+  /** 饼图、径向图、柱状图、雷达图的分类排序方式 */
+  categorySort?: CategorySort;
+
+  /** 数值轴范围（分面共享坐标轴时由外部统一指定；雷达图取其上限） */
+  valueDomain?: [number, number];
+
+  /** 数值轴与数值标签的显示格式（货币、百分比等） */
+  valueFormat?: FieldValueFormat;
+
+  /** 组合图右轴的显示格式 */
+  secondaryValueFormat?: FieldValueFormat;
+
   /** 导出模式 - 隐藏UI元素，仅显示图表 */
   exportMode?: boolean;
 
@@ -317,6 +472,39 @@ export const ENHANCED_CHART_DEFAULTS = {
   // 径向图默认值
   radial: RADIAL_CHART_DEFAULTS,
 
+  // 散点图/气泡图默认值
+  scatter: SCATTER_CHART_DEFAULTS,
+
+  // 组合图默认值
+  combo: COMBO_CHART_DEFAULTS,
+
+  // 热力图默认值
+  heatmap: HEATMAP_CHART_DEFAULTS,
+
+  // 瀑布图默认值
+  waterfall: WATERFALL_CHART_DEFAULTS,
+
+  // 漏斗图默认值
+  funnel: FUNNEL_CHART_DEFAULTS,
+
+  // 直方图默认值
+  histogram: HISTOGRAM_CHART_DEFAULTS,
+
+  // 箱线图默认值
+  boxplot: BOXPLOT_CHART_DEFAULTS,
+
+  // 矩形树图默认值
+  treemap: TREEMAP_CHART_DEFAULTS,
+
+  // 旭日图默认值
+  sunburst: SUNBURST_CHART_DEFAULTS,
+
+  // K线图默认值
+  candlestick: CANDLESTICK_CHART_DEFAULTS,
+
+  // 分级统计地图默认值
+  choropleth: CHOROPLETH_CHART_DEFAULTS,
+
   // 导出默认值
   export: {
     quality: 0.95,
@@ -332,31 +520,7 @@ export const ENHANCED_CHART_DEFAULTS = {
   },
 } as const;
 
-/**
- * 图表类型映射
- */
-export const CHART_TYPE_MAP = {
-  bar: "BeautifulBarChart",
-  line: "BeautifulLineChart",
-  pie: "BeautifulPieChart",
-  area: "BeautifulAreaChart",
-  radar: "BeautifulRadarChart",
-  radial: "BeautifulRadialChart",
-} as const;
-
 /**
  * 支持的导出格式
  */
 export const SUPPORTED_EXPORT_FORMATS = ["png", "jpeg", "webp"] as const;
-
-/**
- * 图表类型兼容性映射
- */
-export const CHART_DATA_COMPATIBILITY = {
-  bar: ["standard"],
-  line: ["standard"],
-  area: ["standard"],
-  pie: ["pie", "standard"], // 饼图支持两种数据格式
-  radial: ["pie", "standard"],
-  radar: ["standard"],
-} as const;
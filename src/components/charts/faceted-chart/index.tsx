@@ -0,0 +1,137 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { createChartPalette, mapSeriesKeysToColors } from "@/lib/colors";
+import { computeFacetValueDomain, resolveFacetColumns, splitFacetRows } from "@/lib/facet-utils";
+import { FACET_AXIS_MODES } from "@/constants/chart-config";
+import { EnhancedChart } from "../enhanced-chart";
+import { StandardChartData } from "../enhanced-chart/types";
+import { FacetedChartProps, FACETED_CHART_DEFAULTS } from "./types";
+
+/** 以分类取值作为系列的图表类型：各子图的分类不同，颜色按分类名称统一分配 */
+const CATEGORICAL_TYPES = ["pie", "radial", "funnel"];
+
+/**
+ * 分面（小多图）组件
+ * 按分面字段拆分数据，为每个取值绘制一个同类型子图；
+ * 系列颜色通过 mapSeriesKeysToColors 统一分配，保证同一系列在各子图中颜色一致
+ */
+export function FacetedChart({
+  type,
+  data,
+  config,
+  facet,
+  unifiedConfig,
+  options,
+  valueFormat,
+  title,
+  description,
+  className,
+}: FacetedChartProps) {
+  const groups = splitFacetRows(data, facet.field, facet.values?.length ? facet.values : undefined)
+    .filter(group => group.rows.length > 0)
+    .map(group => ({
+      value: group.value,
+      rows: group.rows.map(row => {
+        const { [facet.field]: _facetValue, ...rest } = row;
+        return rest;
+      }) as StandardChartData,
+    }));
+
+  if (groups.length === 0) {
+    return (
+      <div className={cn("flex h-full w-full flex-col", className)}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <p className="text-sm text-red-600">• 分面字段 "{facet.field}" 没有可用的取值</p>
+      </div>
+    );
+  }
+
+  const isCategorical = CATEGORICAL_TYPES.includes(type);
+  const getSeriesKeys = (rows: StandardChartData): string[] =>
+    isCategorical
+      ? rows.map(row => String(row.name ?? row.label ?? ""))
+      : unifiedConfig.seriesKeys.map(entry => entry.key);
+
+  // 所有子图的系列键合并后统一分配颜色
+  const allSeriesKeys = Array.from(new Set(groups.flatMap(group => getSeriesKeys(group.rows))));
+  const palette = {
+    ...createChartPalette(unifiedConfig.colors.primary, allSeriesKeys.length),
+    series: unifiedConfig.colors.series,
+  };
+  const colorMap = mapSeriesKeysToColors(allSeriesKeys, palette);
+
+  // 共享坐标轴：散点/气泡图取Y轴字段，其余图表取全部系列字段
+  const firstRow = groups[0].rows[0] || {};
+  const numericKeys = Object.keys(firstRow).filter(key => typeof firstRow[key] === "number");
+  const valueKeys =
+    type === "scatter" || type === "bubble"
+      ? numericKeys.slice(1, 2)
+      : unifiedConfig.seriesKeys.map(entry => entry.key);
+  const valueDomain =
+    facet.axes === "shared" && !isCategorical
+      ? computeFacetValueDomain(
+          groups.flatMap(group => group.rows),
+          valueKeys
+        )
+      : undefined;
+
+  const columns = resolveFacetColumns(groups.length, facet.columns);
+  const axesLabel = FACET_AXIS_MODES.find(mode => mode.value === facet.axes)?.label;
+
+  return (
+    <div className={cn("flex h-full w-full flex-col", className)}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+      >
+        {groups.map(group => {
+          const panelKeys = getSeriesKeys(group.rows);
+          const panelConfig = {
+            ...unifiedConfig,
+            colors: { ...unifiedConfig.colors, series: panelKeys.map(key => colorMap[key]) },
+            seriesKeys: isCategorical
+              ? panelKeys.map(key => ({ key, label: key }))
+              : unifiedConfig.seriesKeys,
+          };
+
+          return (
+            <div
+              key={group.value}
+              className="min-w-0 rounded-md border p-2"
+              style={{ height: FACETED_CHART_DEFAULTS.panelHeight }}
+            >
+              <EnhancedChart
+                type={type}
+                data={group.rows}
+                config={config}
+                title={group.value}
+                className="h-full w-full"
+                unifiedConfig={panelConfig}
+                valueDomain={valueDomain}
+                valueFormat={valueFormat}
+                {...options}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="text-muted-foreground mt-2 flex flex-wrap gap-4 text-xs">
+        <span>
+          {facet.field} · {groups.length} panels
+        </span>
+        {axesLabel && <span>{axesLabel}</span>}
+      </div>
+    </div>
+  );
+}
+
+export default FacetedChart;
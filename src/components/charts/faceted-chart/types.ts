@@ -0,0 +1,66 @@
+// Faceted Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { ChartType } from "@/types/chart";
+import { FacetAxisMode, UnifiedChartConfig, UnifiedOptionConfig } from "@/types/chart-config";
+import { FieldValueFormat } from "@/types/data";
+import { StandardChartData } from "../enhanced-chart/types";
+
+/**
+ * 分面配置
+ */
+export interface FacetedChartFacet {
+  /** 分面字段，每个取值绘制一个子图 */
+  field: string;
+
+  /** 坐标轴模式：shared 各子图共用数值轴范围，independent 各子图独立缩放 */
+  axes: FacetAxisMode;
+
+  /** 网格列数，缺省时按子图数量自动计算 */
+  columns?: number;
+
+  /** 子图顺序（分面取值），缺省时按数据出现顺序 */
+  values?: string[];
+}
+
+/**
+ * 分面（小多图）组件属性
+ */
+export interface FacetedChartProps {
+  /** 子图的图表类型 */
+  type: ChartType;
+
+  /** 图表数据，每行包含分面字段 */
+  data: StandardChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 分面配置 */
+  facet: FacetedChartFacet;
+
+  /** 统一配置：颜色与选项在所有子图间共享 */
+  unifiedConfig: UnifiedChartConfig;
+
+  /** 图表选项，透传给每个子图 */
+  options?: UnifiedOptionConfig;
+
+  /** 数值的显示格式，透传给每个子图 */
+  valueFormat?: FieldValueFormat;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+}
+
+/**
+ * 分面（小多图）默认配置
+ */
+export const FACETED_CHART_DEFAULTS = {
+  /** 单个子图的高度（px） */
+  panelHeight: 260,
+} as const;
@@ -0,0 +1,49 @@
+"use client";
+
+import { OTHER_CATEGORY_LABEL } from "@/constants/chart-config";
+
+/** 提示中最多列出的合并分类数 */
+const MAX_LISTED_CATEGORIES = 15;
+
+export interface FoldedCategoriesTooltipProps {
+  /** 由 recharts Tooltip 注入 */
+  active?: boolean;
+  /** 由 recharts Tooltip 注入，payload[0].payload 为悬停的数据行 */
+  payload?: Array<{ payload?: Record<string, unknown> }>;
+  /** 分类字段 */
+  categoryKey: string;
+  /** 合并进 "Other" 的分类名称 */
+  folded: string[];
+}
+
+/**
+ * Top N 合并分类的提示
+ * 悬停在 "Other" 柱体或扇区上时列出被合并的分类，其余数据项不显示提示
+ */
+export function FoldedCategoriesTooltip({
+  active,
+  payload,
+  categoryKey,
+  folded,
+}: FoldedCategoriesTooltipProps) {
+  const row = payload?.[0]?.payload;
+  if (!active || !row || row[categoryKey] !== OTHER_CATEGORY_LABEL || folded.length === 0) {
+    return null;
+  }
+
+  const listed = folded.slice(0, MAX_LISTED_CATEGORIES);
+
+  return (
+    <div className="border-border/50 bg-background grid max-w-[16rem] gap-1.5 rounded-lg border px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">
+        {OTHER_CATEGORY_LABEL} ({folded.length})
+      </div>
+      <ul className="text-muted-foreground grid gap-0.5">
+        {listed.map(name => (
+          <li key={name}>{name}</li>
+        ))}
+        {folded.length > listed.length && <li>… +{folded.length - listed.length}</li>}
+      </ul>
+    </div>
+  );
+}
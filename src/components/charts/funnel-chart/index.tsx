@@ -0,0 +1,136 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import {
+  FunnelChartProps,
+  FunnelChartData,
+  FunnelChartValidationResult,
+  FUNNEL_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证漏斗图数据结构
+ */
+export function validateFunnelChartData(data: FunnelChartData): FunnelChartValidationResult {
+  const errors: string[] = [];
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return { isValid: false, errors, stats: { stageCount: 0, firstValue: 0, lastValue: 0 } };
+  }
+
+  if (data.length < 2) {
+    errors.push("漏斗图至少需要2个阶段");
+  }
+
+  data.forEach((item, index) => {
+    if (typeof item.name !== "string" || item.name.length === 0) {
+      errors.push(`阶段 ${index + 1} 缺少名称`);
+    }
+    if (typeof item.value !== "number" || Number.isNaN(item.value) || item.value < 0) {
+      errors.push(`阶段 ${index + 1} 的数值必须为非负数字`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    stats: {
+      stageCount: data.length,
+      firstValue: data[0].value,
+      lastValue: data[data.length - 1].value,
+    },
+  };
+}
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+/**
+ * 美化漏斗图组件
+ * 按数据顺序自上而下排列阶段，阶段之间显示转化率
+ */
+export function BeautifulFunnelChart({
+  data,
+  title,
+  description,
+  className,
+  showConversion = FUNNEL_CHART_DEFAULTS.showConversion,
+  conversionBase = FUNNEL_CHART_DEFAULTS.conversionBase,
+  showValues = FUNNEL_CHART_DEFAULTS.showValues,
+  colors: providedColors,
+  primaryColor = "#22c55e",
+}: FunnelChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateFunnelChartData(data);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { firstValue, lastValue } = validation.stats;
+  const maxValue = Math.max(...data.map(item => item.value), 1);
+  const conversionOf = (index: number) => {
+    const base = conversionBase === "first" ? firstValue : data[index - 1].value;
+    return base > 0 ? data[index].value / base : 0;
+  };
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <div className="flex flex-1 flex-col justify-center gap-1 py-4">
+        {data.map((stage, index) => {
+          const color =
+            finalColors.series[index % finalColors.series.length] || finalColors.primary;
+          // 保留最小宽度，避免末端阶段过窄而无法显示标签
+          const width = Math.max((stage.value / maxValue) * 100, 8);
+
+          return (
+            <div key={`${stage.name}-${index}`} className="flex flex-col items-center gap-1">
+              {showConversion && index > 0 && (
+                <div className="text-muted-foreground text-xs">
+                  ↓ {formatPercent(conversionOf(index))}
+                </div>
+              )}
+              <div
+                className="flex min-h-10 items-center justify-center rounded-md px-3 text-sm font-semibold text-white transition-all"
+                style={{ width: `${width}%`, backgroundColor: color || primaryColor }}
+                title={`${stage.name}: ${stage.value.toLocaleString()}`}
+              >
+                <span className="truncate">
+                  {stage.name}
+                  {showValues && ` · ${stage.value.toLocaleString()}`}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="text-muted-foreground mt-4 flex items-center gap-3 text-xs">
+        <span className="text-foreground font-medium">Overall conversion</span>
+        <span>{firstValue > 0 ? formatPercent(lastValue / firstValue) : "—"}</span>
+      </div>
+    </div>
+  );
+}
+
+export default BeautifulFunnelChart;
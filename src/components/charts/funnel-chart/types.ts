@@ -0,0 +1,82 @@
+// Funnel Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { FunnelConversionBase, UnifiedColorConfig } from "@/types/chart-config";
+
+/**
+ * 漏斗图数据点结构
+ * 与饼图相同的分类格式，数组顺序即漏斗阶段顺序
+ */
+export interface FunnelChartDataPoint {
+  /** 阶段名称 */
+  name: string;
+
+  /** 阶段数值 */
+  value: number;
+}
+
+/**
+ * 漏斗图数据集合
+ */
+export type FunnelChartData = FunnelChartDataPoint[];
+
+/**
+ * 漏斗图组件属性
+ */
+export interface FunnelChartProps {
+  /** 图表数据 */
+  data: FunnelChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 是否显示阶段之间的转化率 */
+  showConversion?: boolean;
+
+  /** 转化率计算基准：相对上一阶段或第一阶段 */
+  conversionBase?: FunnelConversionBase;
+
+  /** 是否显示阶段数值 */
+  showValues?: boolean;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 漏斗图数据校验结果
+ */
+export interface FunnelChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    stageCount: number;
+    firstValue: number;
+    lastValue: number;
+  };
+}
+
+/**
+ * 漏斗图默认配置
+ */
+export const FUNNEL_CHART_DEFAULTS = {
+  showConversion: true,
+  conversionBase: "previous" as FunnelConversionBase,
+  showValues: true,
+} as const;
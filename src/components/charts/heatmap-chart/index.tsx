@@ -0,0 +1,212 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { createHeatmapColorStops, interpolateColorStops } from "@/lib/colors";
+import {
+  HeatmapChartProps,
+  HeatmapChartData,
+  HeatmapChartValidationResult,
+  HEATMAP_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证热力图数据结构
+ */
+export function validateHeatmapChartData(data: HeatmapChartData): HeatmapChartValidationResult {
+  const errors: string[] = [];
+  const emptyStats = { dataPointCount: 0, xKey: "", yKey: "", valueKey: "" };
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  const firstItem = data[0];
+  const keys = Object.keys(firstItem);
+  const [xKey, yKey] = keys.filter(key => typeof firstItem[key] === "string");
+  const valueKey = keys.find(key => typeof firstItem[key] === "number");
+
+  if (!xKey || !yKey || !valueKey) {
+    errors.push("热力图需要2个分类字段（行、列）和1个数值字段");
+    return {
+      isValid: false,
+      errors,
+      stats: { ...emptyStats, dataPointCount: data.length },
+    };
+  }
+
+  data.forEach((item, index) => {
+    const value = item[valueKey];
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      errors.push(`数据点 ${index + 1} 的数值字段 "${valueKey}" 必须为有效数字`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    stats: { dataPointCount: data.length, xKey, yKey, valueKey },
+  };
+}
+
+const formatCellValue = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+/**
+ * 美化热力图组件
+ * 以两个分类维度为行列，单元格颜色表示数值大小
+ */
+export function BeautifulHeatmapChart({
+  data,
+  config,
+  title,
+  description,
+  className,
+  colorScale = HEATMAP_CHART_DEFAULTS.colorScale,
+  showValues = HEATMAP_CHART_DEFAULTS.showValues,
+  showLegend = HEATMAP_CHART_DEFAULTS.showLegend,
+  cellGap = HEATMAP_CHART_DEFAULTS.cellGap,
+  colors: providedColors,
+  primaryColor = "#22c55e",
+}: HeatmapChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateHeatmapChartData(data);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { xKey, yKey, valueKey } = validation.stats;
+
+  // 按出现顺序收集行列分类，重复的行列组合累加
+  const xCategories = Array.from(new Set(data.map(item => String(item[xKey]))));
+  const yCategories = Array.from(new Set(data.map(item => String(item[yKey]))));
+  const cellValues = new Map<string, number>();
+  data.forEach(item => {
+    const cellKey = `${item[xKey]}\u0000${item[yKey]}`;
+    cellValues.set(cellKey, (cellValues.get(cellKey) || 0) + Number(item[valueKey]));
+  });
+
+  const values = Array.from(cellValues.values());
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const diverging = colorScale === "diverging";
+
+  // 发散色阶：跨越0时以0为中点，否则以数值区间中点为中点
+  const center = diverging ? (min < 0 && max > 0 ? 0 : (min + max) / 2) : min;
+  const spread = diverging ? Math.max(max - center, center - min) : max - min;
+  const toPosition = (value: number) => {
+    if (spread === 0) return diverging ? 0.5 : 1;
+    return diverging ? 0.5 + (value - center) / (2 * spread) : (value - min) / spread;
+  };
+
+  const baseColor = finalColors.series[0] || finalColors.primary || primaryColor;
+  const stops = createHeatmapColorStops(baseColor, diverging);
+  // 深色单元格使用白色文字，保证数值可读
+  const isDarkCell = (position: number) =>
+    diverging ? Math.abs(position - 0.5) > 0.3 : position > 0.55;
+
+  const valueLabel = String(config[valueKey]?.label || valueKey);
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto py-4">
+        <div
+          className="grid text-xs"
+          style={{
+            gridTemplateColumns: `auto repeat(${xCategories.length}, minmax(36px, 1fr))`,
+            gap: cellGap,
+          }}
+        >
+          <div />
+          {xCategories.map(xCategory => (
+            <div
+              key={`x-${xCategory}`}
+              className="truncate px-1 pb-1 text-center font-medium"
+              style={{ color: finalColors.text }}
+              title={xCategory}
+            >
+              {xCategory}
+            </div>
+          ))}
+
+          {yCategories.map(yCategory => (
+            <div key={`row-${yCategory}`} className="contents">
+              <div
+                className="flex items-center justify-end truncate pr-2 font-medium"
+                style={{ color: finalColors.text }}
+                title={yCategory}
+              >
+                {yCategory}
+              </div>
+              {xCategories.map(xCategory => {
+                const value = cellValues.get(`${xCategory}\u0000${yCategory}`);
+                if (value === undefined) {
+                  return (
+                    <div
+                      key={`${xCategory}-${yCategory}`}
+                      className="min-h-9 rounded-sm"
+                      style={{ backgroundColor: finalColors.grid, opacity: 0.3 }}
+                    />
+                  );
+                }
+
+                const position = toPosition(value);
+                return (
+                  <div
+                    key={`${xCategory}-${yCategory}`}
+                    className="flex min-h-9 items-center justify-center rounded-sm font-semibold"
+                    style={{
+                      backgroundColor: interpolateColorStops(stops, position),
+                      color: isDarkCell(position) ? "#ffffff" : finalColors.text,
+                    }}
+                    title={`${yCategory} · ${xCategory}: ${formatCellValue(value)}`}
+                  >
+                    {showValues && formatCellValue(value)}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {showLegend && (
+        <div className="text-muted-foreground mt-4 space-y-1 text-xs">
+          <div className="text-foreground font-medium">{valueLabel}</div>
+          <div
+            className="h-2 w-full rounded-full"
+            style={{ background: `linear-gradient(to right, ${stops.join(", ")})` }}
+          />
+          <div className="flex justify-between">
+            <span>{formatCellValue(diverging ? center - spread : min)}</span>
+            {diverging && <span>{formatCellValue(center)}</span>}
+            <span>{formatCellValue(diverging ? center + spread : max)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BeautifulHeatmapChart;
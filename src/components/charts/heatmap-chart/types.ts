@@ -0,0 +1,83 @@
+// Heatmap Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { HeatmapColorScale, UnifiedColorConfig } from "@/types/chart-config";
+
+/**
+ * 热力图数据点结构（长表格式）
+ * 前两个字符串字段分别作为列（X轴）与行（Y轴）分类，第一个数值字段作为单元格数值
+ */
+export interface HeatmapChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * 热力图数据集合
+ */
+export type HeatmapChartData = HeatmapChartDataPoint[];
+
+/**
+ * 热力图组件属性
+ */
+export interface HeatmapChartProps {
+  /** 图表数据 */
+  data: HeatmapChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 色阶类型：顺序色阶或发散色阶 */
+  colorScale?: HeatmapColorScale;
+
+  /** 是否在单元格中显示数值 */
+  showValues?: boolean;
+
+  /** 是否显示色阶图例 */
+  showLegend?: boolean;
+
+  /** 单元格间距 */
+  cellGap?: number;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 热力图数据校验结果
+ */
+export interface HeatmapChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    dataPointCount: number;
+    xKey: string;
+    yKey: string;
+    valueKey: string;
+  };
+}
+
+/**
+ * 热力图默认配置
+ */
+export const HEATMAP_CHART_DEFAULTS = {
+  colorScale: "sequential" as HeatmapColorScale,
+  showValues: true,
+  showLegend: true,
+  cellGap: 2,
+} as const;
@@ -0,0 +1,81 @@
+// Histogram Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { HistogramBinMethod, UnifiedColorConfig } from "@/types/chart-config";
+
+/**
+ * 直方图数据点结构（原始观测值）
+ * 第一个数值字段作为分箱字段，组件内部完成分箱计数
+ */
+export interface HistogramChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * 直方图数据集合
+ */
+export type HistogramChartData = HistogramChartDataPoint[];
+
+/**
+ * 直方图组件属性
+ */
+export interface HistogramChartProps {
+  /** 图表数据（原始观测值） */
+  data: HistogramChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 自动分箱规则 */
+  binMethod?: HistogramBinMethod;
+
+  /** 手动分箱数量，0 表示按规则自动计算 */
+  binCount?: number;
+
+  /** 是否显示背景网格 */
+  showGrid?: boolean;
+
+  /** 是否标注均值所在区间 */
+  showMean?: boolean;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 直方图数据校验结果
+ */
+export interface HistogramChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    observationCount: number;
+    valueKey: string;
+  };
+}
+
+/**
+ * 直方图默认配置
+ */
+export const HISTOGRAM_CHART_DEFAULTS = {
+  binMethod: "auto" as HistogramBinMethod,
+  binCount: 0,
+  showGrid: true,
+  showMean: true,
+} as const;
@@ -4,6 +4,7 @@ import { GitCommitVertical, Minus, TrendingDown, TrendingUp } from "lucide-react
 import { CartesianGrid, LabelList, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ChartContainer } from "@/components/ui/chart";
+import { formatFieldValue } from "@/lib/value-parser";
 import { LineChartProps, LineChartValidationResult, LineChartData, TrendAnalysis } from "./types";
 
 /**
@@ -120,6 +121,8 @@ export function BeautifulLineChart({
   dotSize = 6,
   dotVariant = "default",
   showGrid = true,
+  valueDomain,
+  valueFormat,
   colors: providedColors,
   primaryColor = "#22c55e",
 }: LineChartProps) {
@@ -271,10 +274,11 @@ export function BeautifulLineChart({
               height={40}
             />
             <YAxis
+              domain={valueDomain ?? [0, "auto"]}
               tickLine={false}
               axisLine={false}
               tick={{ fontSize: 12, fill: finalColors.text }}
-              tickFormatter={value => value.toLocaleString()}
+              tickFormatter={value => formatFieldValue(value, valueFormat)}
             />
 
             {/* 参考线 */}
@@ -323,7 +327,9 @@ export function BeautifulLineChart({
                     fontWeight: "700",
                     textShadow: "0 1px 2px rgba(255,255,255,0.8)",
                   }}
-                  formatter={(value: number) => (value > 0 ? value.toLocaleString() : "")}
+                  formatter={(value: number) =>
+                    value > 0 ? formatFieldValue(value, valueFormat) : ""
+                  }
                 />
               ))}
           </LineChart>
@@ -1,5 +1,6 @@
 // Line Chart 专用类型定义
 import { ChartConfig } from "@/components/ui/chart";
+import { FieldValueFormat } from "@/types/data";
 import { UnifiedColorConfig } from "@/types/chart-config";
 
 /**
@@ -87,6 +88,12 @@ export interface LineChartProps {
   /** 是否显示背景网格 */
   showGrid?: boolean;
 
+  /** 数值轴范围（分面共享坐标轴时统一指定），缺省时按数据自动计算 */
+  valueDomain?: [number, number];
+
+  /** 数值的显示格式（货币、百分比等），缺省时按千分位显示 */
+  valueFormat?: FieldValueFormat;
+
   /** 颜色配置（新架构） - 必需 */
   colors: UnifiedColorConfig;
 
@@ -1,6 +1,6 @@
 "use client";
 
-import { Cell, Legend, Pie, PieChart } from "recharts";
+import { Cell, Legend, Pie, PieChart, Tooltip } from "recharts";
 import { ChartContainer } from "@/components/ui/chart";
 import {
   PieChartProps,
@@ -10,6 +10,7 @@ import {
   PIE_CHART_DEFAULTS,
 } from "./types";
 import { cn } from "@/lib/utils";
+import { FoldedCategoriesTooltip } from "../folded-categories-tooltip";
 
 /**
  * 分析饼图数据分布
@@ -176,6 +177,7 @@ export function BeautifulPieChart({
   outerRadius = PIE_CHART_DEFAULTS.outerRadius,
   colors: providedColors,
   primaryColor = "#22c55e",
+  foldedCategories = [],
 }: PieChartProps) {
   // 直接使用传入的颜色配置
   const finalColors = providedColors;
@@ -280,6 +282,11 @@ export function BeautifulPieChart({
                 <Cell key={`cell-${index}`} fill={entry.color} />
               ))}
             </Pie>
+            {foldedCategories.length > 0 && (
+              <Tooltip
+                content={<FoldedCategoriesTooltip categoryKey="name" folded={foldedCategories} />}
+              />
+            )}
             {showLegend && (
               <Legend
                 verticalAlign="bottom"
@@ -8,6 +8,7 @@ import {
   PolarRadiusAxis,
   Radar,
   RadarChart as RechartsRadarChart,
+  Tooltip,
 } from "recharts";
 import { ChartContainer } from "@/components/ui/chart";
 import {
@@ -17,6 +18,7 @@ import {
   RADAR_CHART_DEFAULTS,
 } from "./types";
 import { cn } from "@/lib/utils";
+import { FoldedCategoriesTooltip } from "../folded-categories-tooltip";
 
 /**
  * 验证雷达图数据结构
@@ -106,6 +108,7 @@ export function BeautifulRadarChart({
   maxValue,
   colors: providedColors,
   primaryColor = "#22c55e",
+  foldedCategories = [],
 }: RadarChartProps) {
   // 直接使用传入的颜色配置
   const finalColors = providedColors;
@@ -201,6 +204,14 @@ export function BeautifulRadarChart({
               </Radar>
             );
           })}
+          {foldedCategories.length > 0 && (
+            <Tooltip
+              cursor={false}
+              content={
+                <FoldedCategoriesTooltip categoryKey={dimensionKey} folded={foldedCategories} />
+              }
+            />
+          )}
         </RechartsRadarChart>
       </ChartContainer>
 
@@ -6,6 +6,7 @@ import {
   PolarRadiusAxis,
   RadialBar,
   RadialBarChart as RechartsRadialBarChart,
+  Tooltip,
 } from "recharts";
 import { ChartContainer } from "@/components/ui/chart";
 import {
@@ -15,6 +16,7 @@ import {
   RADIAL_CHART_DEFAULTS,
 } from "./types";
 import { cn } from "@/lib/utils";
+import { FoldedCategoriesTooltip } from "../folded-categories-tooltip";
 
 /**
  * 验证径向图数据
@@ -92,6 +94,7 @@ export function BeautifulRadialChart({
   showLabels = RADIAL_CHART_DEFAULTS.showLabels,
   colors: providedColors,
   primaryColor = "#22c55e",
+  foldedCategories = [],
 }: RadialChartProps) {
   // 直接使用传入的颜色配置
   const finalColors = providedColors;
@@ -173,6 +176,12 @@ export function BeautifulRadialChart({
                 : undefined
             }
           />
+          {foldedCategories.length > 0 && (
+            <Tooltip
+              cursor={false}
+              content={<FoldedCategoriesTooltip categoryKey="name" folded={foldedCategories} />}
+            />
+          )}
         </RechartsRadialBarChart>
       </ChartContainer>
 
@@ -67,6 +67,9 @@ export interface RadialChartProps {
 
   /** 主色调（可选，用于生成颜色配置） */
   primaryColor?: string;
+
+  /** 合并进 "Other" 的分类名称，悬停 "Other" 时在提示中列出 */
+  foldedCategories?: string[];
 }
 
 /**
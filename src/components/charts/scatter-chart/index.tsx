@@ -0,0 +1,278 @@
+"use client";
+
+import {
+  CartesianGrid,
+  ReferenceLine,
+  Scatter,
+  ScatterChart as RechartsScatterChart,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts";
+import { ChartContainer } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import {
+  ScatterChartProps,
+  ScatterChartData,
+  ScatterChartValidationResult,
+  SCATTER_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证散点图/气泡图数据结构
+ */
+export function validateScatterChartData(
+  data: ScatterChartData,
+  bubble = false
+): ScatterChartValidationResult {
+  const errors: string[] = [];
+  const emptyStats = { dataPointCount: 0, xKey: "", yKey: "" };
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  const firstItem = data[0];
+  const keys = Object.keys(firstItem);
+  const numericKeys = keys.filter(key => typeof firstItem[key] === "number");
+  const groupKey = keys.find(key => typeof firstItem[key] === "string");
+  const requiredNumeric = bubble ? 3 : 2;
+
+  if (numericKeys.length < requiredNumeric) {
+    errors.push(
+      bubble
+        ? "气泡图需要3个数值字段（X坐标、Y坐标、气泡大小）"
+        : "散点图需要2个数值字段（X坐标、Y坐标）"
+    );
+    return {
+      isValid: false,
+      errors,
+      stats: { ...emptyStats, dataPointCount: data.length },
+    };
+  }
+
+  const [xKey, yKey, sizeKey] = numericKeys;
+
+  data.forEach((item, index) => {
+    [xKey, yKey, ...(bubble ? [sizeKey] : [])].forEach(key => {
+      const value = item[key];
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        errors.push(`数据点 ${index + 1} 的数值字段 ${key} 必须为有效数字`);
+      }
+    });
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    stats: {
+      dataPointCount: data.length,
+      xKey,
+      yKey,
+      sizeKey: bubble ? sizeKey : undefined,
+      groupKey,
+    },
+  };
+}
+
+/**
+ * 计算皮尔逊相关系数与最小二乘拟合线
+ */
+export function calculateCorrelation(
+  data: ScatterChartData,
+  xKey: string,
+  yKey: string
+): { r: number; slope: number; intercept: number } | null {
+  const points = data
+    .map(item => ({ x: Number(item[xKey]), y: Number(item[yKey]) }))
+    .filter(point => Number.isFinite(point.x) && Number.isFinite(point.y));
+
+  if (points.length < 2) return null;
+
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  points.forEach(({ x, y }) => {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  });
+
+  if (varianceX === 0 || varianceY === 0) return null;
+
+  const slope = covariance / varianceX;
+  return {
+    r: covariance / Math.sqrt(varianceX * varianceY),
+    slope,
+    intercept: meanY - slope * meanX,
+  };
+}
+
+/**
+ * 美化散点图组件（同时支持气泡图）
+ */
+export function BeautifulScatterChart({
+  data,
+  config,
+  title,
+  description,
+  className,
+  bubble = false,
+  showGrid = SCATTER_CHART_DEFAULTS.showGrid,
+  valueDomain,
+  showTrendLine = SCATTER_CHART_DEFAULTS.showTrendLine,
+  dotSize = SCATTER_CHART_DEFAULTS.dotSize,
+  bubbleMinSize = SCATTER_CHART_DEFAULTS.bubbleMinSize,
+  bubbleMaxSize = SCATTER_CHART_DEFAULTS.bubbleMaxSize,
+  fillOpacity = SCATTER_CHART_DEFAULTS.fillOpacity,
+  colors: providedColors,
+  primaryColor = "#22c55e",
+}: ScatterChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateScatterChartData(data, bubble);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { xKey, yKey, sizeKey, groupKey } = validation.stats;
+
+  // 按分组字段拆分为多个系列，没有分组时整体作为一个系列
+  const groups = groupKey
+    ? Array.from(new Set(data.map(item => String(item[groupKey])))).map(name => ({
+        name,
+        points: data.filter(item => String(item[groupKey]) === name),
+      }))
+    : [{ name: String(config[yKey]?.label || yKey), points: data }];
+
+  const correlation = calculateCorrelation(data, xKey, yKey);
+  const xValues = data.map(item => Number(item[xKey]));
+  const xMin = Math.min(...xValues);
+  const xMax = Math.max(...xValues);
+  // 散点尺寸以面积表示，ZAxis 的 range 与 recharts 的符号面积一致
+  const dotArea = Math.PI * dotSize * dotSize;
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <ChartContainer config={config} className="flex-1">
+        <RechartsScatterChart margin={{ top: 20, right: 30, left: 20, bottom: 40 }}>
+          {showGrid && (
+            <CartesianGrid strokeDasharray="3 3" stroke={finalColors.grid} opacity={0.4} />
+          )}
+          <XAxis
+            type="number"
+            dataKey={xKey}
+            name={String(config[xKey]?.label || xKey)}
+            domain={["auto", "auto"]}
+            tickLine={false}
+            axisLine={false}
+            tick={{ fontSize: 12, fill: finalColors.text }}
+            tickFormatter={value => value.toLocaleString()}
+            height={40}
+          />
+          <YAxis
+            type="number"
+            dataKey={yKey}
+            name={String(config[yKey]?.label || yKey)}
+            domain={valueDomain ?? ["auto", "auto"]}
+            tickLine={false}
+            axisLine={false}
+            tick={{ fontSize: 12, fill: finalColors.text }}
+            tickFormatter={value => value.toLocaleString()}
+          />
+          {bubble && sizeKey ? (
+            <ZAxis
+              type="number"
+              dataKey={sizeKey}
+              range={[bubbleMinSize, bubbleMaxSize]}
+              name={String(config[sizeKey]?.label || sizeKey)}
+            />
+          ) : (
+            <ZAxis type="number" range={[dotArea, dotArea]} />
+          )}
+
+          {showTrendLine && correlation && (
+            <ReferenceLine
+              segment={[
+                { x: xMin, y: correlation.slope * xMin + correlation.intercept },
+                { x: xMax, y: correlation.slope * xMax + correlation.intercept },
+              ]}
+              stroke={finalColors.text}
+              strokeDasharray="6 4"
+              opacity={0.6}
+              ifOverflow="extendDomain"
+            />
+          )}
+
+          {groups.map((group, index) => {
+            const color =
+              finalColors.series[index % finalColors.series.length] || finalColors.primary;
+            return (
+              <Scatter
+                key={group.name}
+                name={group.name}
+                data={group.points}
+                fill={color}
+                fillOpacity={fillOpacity}
+                stroke={color}
+                animationBegin={index * 150}
+              />
+            );
+          })}
+        </RechartsScatterChart>
+      </ChartContainer>
+
+      <div className="text-muted-foreground mt-4 grid gap-2 text-xs">
+        {groupKey &&
+          groups.map((group, index) => (
+            <div key={group.name} className="flex items-center gap-3">
+              <span
+                className="inline-flex h-2 w-2 rounded-full"
+                style={{
+                  backgroundColor:
+                    finalColors.series[index % finalColors.series.length] || primaryColor,
+                }}
+              />
+              <span className="text-foreground font-medium">{group.name}</span>
+              <span>{group.points.length} points</span>
+            </div>
+          ))}
+        {correlation && (
+          <div className="flex items-center gap-3">
+            <span className="text-foreground font-medium">
+              {String(config[xKey]?.label || xKey)} × {String(config[yKey]?.label || yKey)}
+            </span>
+            <span>r = {correlation.r.toFixed(2)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BeautifulScatterChart;
@@ -0,0 +1,99 @@
+// Scatter Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { UnifiedColorConfig } from "@/types/chart-config";
+
+/**
+ * 散点图数据点结构
+ * 前两个数值字段分别作为X/Y坐标，气泡图的第三个数值字段作为气泡大小，
+ * 可选的字符串字段作为分组（颜色）依据
+ */
+export interface ScatterChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * 散点图数据集合
+ */
+export type ScatterChartData = ScatterChartDataPoint[];
+
+/**
+ * 散点图组件属性
+ */
+export interface ScatterChartProps {
+  /** 图表数据 */
+  data: ScatterChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 是否为气泡图（使用第三个数值字段控制点大小） */
+  bubble?: boolean;
+
+  /** 是否显示背景网格 */
+  showGrid?: boolean;
+
+  /** 数值轴范围（分面共享坐标轴时统一指定），缺省时按数据自动计算 */
+  valueDomain?: [number, number];
+
+  /** 是否显示趋势线（最小二乘拟合） */
+  showTrendLine?: boolean;
+
+  /** 散点大小 */
+  dotSize?: number;
+
+  /** 气泡最小尺寸 */
+  bubbleMinSize?: number;
+
+  /** 气泡最大尺寸 */
+  bubbleMaxSize?: number;
+
+  /** 点的填充透明度 */
+  fillOpacity?: number;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 散点图数据校验结果
+ */
+export interface ScatterChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    dataPointCount: number;
+    xKey: string;
+    yKey: string;
+    sizeKey?: string;
+    groupKey?: string;
+  };
+}
+
+/**
+ * 散点图默认配置
+ */
+export const SCATTER_CHART_DEFAULTS = {
+  showGrid: true,
+  showTrendLine: false,
+  dotSize: 8,
+  bubbleMinSize: 60,
+  bubbleMaxSize: 600,
+  fillOpacity: 0.75,
+} as const;
@@ -0,0 +1,239 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { lightenHexColor } from "@/lib/colors";
+import { buildHierarchyTree, countHierarchyLeaves, HierarchyNode } from "@/lib/hierarchy-utils";
+import {
+  SunburstChartProps,
+  SunburstChartData,
+  SunburstChartValidationResult,
+  SUNBURST_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证旭日图数据结构
+ */
+export function validateSunburstChartData(data: SunburstChartData): SunburstChartValidationResult {
+  const errors: string[] = [];
+  const emptyStats = { branchCount: 0, leafCount: 0, totalValue: 0 };
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  const roots = buildHierarchyTree(data);
+  if (roots.length === 0) {
+    errors.push("旭日图需要至少1个层级字段和1个正数的尺寸字段");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    stats: {
+      branchCount: roots.length,
+      leafCount: countHierarchyLeaves(roots),
+      totalValue: roots.reduce((sum, node) => sum + node.value, 0),
+    },
+  };
+}
+
+/** SVG 画布尺寸（viewBox），实际尺寸随容器缩放 */
+const VIEW_SIZE = 400;
+const OUTER_RADIUS = VIEW_SIZE / 2 - 8;
+
+interface SunburstArc {
+  node: HierarchyNode;
+  color: string;
+  startAngle: number;
+  endAngle: number;
+  innerRadius: number;
+  outerRadius: number;
+}
+
+const polarPoint = (radius: number, angle: number) => ({
+  x: VIEW_SIZE / 2 + radius * Math.sin(angle),
+  y: VIEW_SIZE / 2 - radius * Math.cos(angle),
+});
+
+/**
+ * 生成环形扇区路径，角度以12点钟方向为0、顺时针递增
+ */
+function describeArc({ startAngle, endAngle, innerRadius, outerRadius }: SunburstArc): string {
+  // 完整圆环无法用单段圆弧表示，略微收窄避免起止点重合
+  const sweep = Math.min(endAngle - startAngle, Math.PI * 2 - 1e-4);
+  const end = startAngle + sweep;
+  const largeArc = sweep > Math.PI ? 1 : 0;
+  const outerStart = polarPoint(outerRadius, startAngle);
+  const outerEnd = polarPoint(outerRadius, end);
+  const innerStart = polarPoint(innerRadius, end);
+  const innerEnd = polarPoint(innerRadius, startAngle);
+
+  return [
+    `M ${outerStart.x} ${outerStart.y}`,
+    `A ${outerRadius} ${outerRadius} 0 ${largeArc} 1 ${outerEnd.x} ${outerEnd.y}`,
+    `L ${innerStart.x} ${innerStart.y}`,
+    innerRadius > 0
+      ? `A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${innerEnd.x} ${innerEnd.y}`
+      : "",
+    "Z",
+  ].join(" ");
+}
+
+const maxDepthOf = (nodes: HierarchyNode[]): number =>
+  nodes.reduce((depth, node) => Math.max(depth, 1 + maxDepthOf(node.children)), 0);
+
+const formatNodeValue = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+/**
+ * 美化旭日图组件
+ * 由内向外逐层展开，扇区角度与数值成正比，顶层分支各用一种颜色
+ */
+export function BeautifulSunburstChart({
+  data,
+  title,
+  description,
+  className,
+  showLabels = SUNBURST_CHART_DEFAULTS.showLabels,
+  innerRadius = SUNBURST_CHART_DEFAULTS.innerRadius,
+  colors: providedColors,
+  primaryColor = "#22c55e",
+}: SunburstChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateSunburstChartData(data);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const roots = buildHierarchyTree(data);
+  const { leafCount, totalValue } = validation.stats;
+  const branchColor = (index: number) =>
+    finalColors.series[index % finalColors.series.length] || finalColors.primary || primaryColor;
+
+  const centerRadius = Math.min(Math.max(innerRadius, 0), OUTER_RADIUS - 20);
+  const ringWidth = (OUTER_RADIUS - centerRadius) / Math.max(maxDepthOf(roots), 1);
+
+  // 逐层展开：子节点在父节点的角度范围内按数值比例切分
+  const arcs: SunburstArc[] = [];
+  const layout = (
+    nodes: HierarchyNode[],
+    startAngle: number,
+    span: number,
+    parentValue: number,
+    colorOf: (index: number) => string
+  ) => {
+    let angle = startAngle;
+    nodes.forEach((node, index) => {
+      const nodeSpan = parentValue > 0 ? (node.value / parentValue) * span : 0;
+      const color = colorOf(index);
+      arcs.push({
+        node,
+        color: lightenHexColor(color, Math.min(node.depth * 0.1, 0.3)),
+        startAngle: angle,
+        endAngle: angle + nodeSpan,
+        innerRadius: centerRadius + node.depth * ringWidth,
+        outerRadius: centerRadius + (node.depth + 1) * ringWidth,
+      });
+      layout(node.children, angle, nodeSpan, node.value, () => color);
+      angle += nodeSpan;
+    });
+  };
+  layout(roots, 0, Math.PI * 2, totalValue, branchColor);
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <div className="flex min-h-64 flex-1 items-center justify-center py-4">
+        <svg
+          viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`}
+          className="aspect-square h-full max-h-[420px] w-auto max-w-full"
+        >
+          {arcs.map(arc => {
+            const sweep = arc.endAngle - arc.startAngle;
+            const midAngle = arc.startAngle + sweep / 2;
+            const labelPoint = polarPoint((arc.innerRadius + arc.outerRadius) / 2, midAngle);
+            // 扇区弧长足够时才显示名称
+            const arcLength = sweep * ((arc.innerRadius + arc.outerRadius) / 2);
+            const canShowLabel = showLabels && arcLength > 36 && ringWidth > 18;
+            const share = totalValue > 0 ? (arc.node.value / totalValue) * 100 : 0;
+
+            return (
+              <g key={arc.node.path}>
+                <path d={describeArc(arc)} fill={arc.color} stroke="#ffffff" strokeWidth={1.5}>
+                  <title>
+                    {`${arc.node.path}: ${formatNodeValue(arc.node.value)} (${share.toFixed(1)}%)`}
+                  </title>
+                </path>
+                {canShowLabel && (
+                  <text
+                    x={labelPoint.x}
+                    y={labelPoint.y}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    fontSize={10}
+                    fontWeight={600}
+                    fill="#ffffff"
+                    pointerEvents="none"
+                  >
+                    {arc.node.name.length > 10 ? `${arc.node.name.slice(0, 9)}…` : arc.node.name}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          {centerRadius > 24 && (
+            <text
+              x={VIEW_SIZE / 2}
+              y={VIEW_SIZE / 2}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fontSize={13}
+              fontWeight={700}
+              fill={finalColors.text}
+            >
+              {formatNodeValue(totalValue)}
+            </text>
+          )}
+        </svg>
+      </div>
+
+      <div className="text-muted-foreground mt-4 flex flex-wrap gap-4 text-xs">
+        {roots.map((root, index) => (
+          <div key={root.path} className="flex items-center gap-2">
+            <span
+              className="inline-flex h-2 w-2 rounded-full"
+              style={{ backgroundColor: branchColor(index) }}
+            />
+            <span className="text-foreground font-medium">{root.name}</span>
+            <span>{totalValue > 0 ? `${((root.value / totalValue) * 100).toFixed(1)}%` : "—"}</span>
+          </div>
+        ))}
+        <span>{leafCount} leaves</span>
+      </div>
+    </div>
+  );
+}
+
+export default BeautifulSunburstChart;
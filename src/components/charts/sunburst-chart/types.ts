@@ -0,0 +1,75 @@
+// Sunburst Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { UnifiedColorConfig } from "@/types/chart-config";
+
+/**
+ * 旭日图数据点结构
+ * 推荐使用层级节点行（path / parent / name / depth / value）；
+ * 也可传入明细行，此时全部文本字段按顺序作为层级，第一个数值字段作为扇区大小
+ */
+export interface SunburstChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * 旭日图数据集合
+ */
+export type SunburstChartData = SunburstChartDataPoint[];
+
+/**
+ * 旭日图组件属性
+ */
+export interface SunburstChartProps {
+  /** 图表数据 */
+  data: SunburstChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 是否在扇区上显示名称 */
+  showLabels?: boolean;
+
+  /** 中心空白半径 */
+  innerRadius?: number;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 旭日图数据校验结果
+ */
+export interface SunburstChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    branchCount: number;
+    leafCount: number;
+    totalValue: number;
+  };
+}
+
+/**
+ * 旭日图默认配置
+ */
+export const SUNBURST_CHART_DEFAULTS = {
+  showLabels: true,
+  innerRadius: 30,
+} as const;
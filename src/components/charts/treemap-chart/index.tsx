@@ -0,0 +1,223 @@
+"use client";
+
+import { Treemap } from "recharts";
+import { ChartContainer } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import { lightenHexColor } from "@/lib/colors";
+import { buildHierarchyTree, countHierarchyLeaves, HierarchyNode } from "@/lib/hierarchy-utils";
+import {
+  TreemapChartProps,
+  TreemapChartData,
+  TreemapChartValidationResult,
+  TREEMAP_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证矩形树图数据结构
+ */
+export function validateTreemapChartData(data: TreemapChartData): TreemapChartValidationResult {
+  const errors: string[] = [];
+  const emptyStats = { branchCount: 0, leafCount: 0, totalValue: 0 };
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  const roots = buildHierarchyTree(data);
+  if (roots.length === 0) {
+    errors.push("矩形树图需要至少1个层级字段和1个正数的尺寸字段");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    stats: {
+      branchCount: roots.length,
+      leafCount: countHierarchyLeaves(roots),
+      totalValue: roots.reduce((sum, node) => sum + node.value, 0),
+    },
+  };
+}
+
+/**
+ * recharts Treemap 节点数据：在层级节点上附加填充色
+ */
+interface TreemapDatum {
+  name: string;
+  path: string;
+  value: number;
+  fill: string;
+  children?: TreemapDatum[];
+}
+
+interface TreemapCellProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  depth?: number;
+  name?: string;
+  path?: string;
+  value?: number;
+  fill?: string;
+  children?: unknown[];
+  showLabels: boolean;
+  showValues: boolean;
+  cellGap: number;
+  textColor: string;
+}
+
+const formatNodeValue = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+/**
+ * 单个矩形：父节点作为底色绘制，名称只标注在空间足够的叶子节点上
+ */
+function TreemapCell({
+  x = 0,
+  y = 0,
+  width = 0,
+  height = 0,
+  depth = 0,
+  name,
+  path,
+  value = 0,
+  fill,
+  children,
+  showLabels,
+  showValues,
+  cellGap,
+  textColor,
+}: TreemapCellProps) {
+  // 根节点（depth 0）由 recharts 生成，不绘制
+  if (depth === 0) return null;
+
+  const isLeaf = !children || children.length === 0;
+  const canShowLabel = showLabels && isLeaf && width > 48 && height > 24;
+
+  return (
+    <g>
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill={fill}
+        stroke="#ffffff"
+        strokeWidth={cellGap}
+        rx={2}
+      >
+        <title>{`${path ?? name}: ${formatNodeValue(value)}`}</title>
+      </rect>
+      {canShowLabel && (
+        <text x={x + 6} y={y + 16} fontSize={11} fontWeight={600} fill={textColor}>
+          {name && name.length > width / 7 ? `${name.slice(0, Math.floor(width / 7))}…` : name}
+        </text>
+      )}
+      {canShowLabel && showValues && height > 40 && (
+        <text x={x + 6} y={y + 30} fontSize={10} fill={textColor} opacity={0.85}>
+          {formatNodeValue(value)}
+        </text>
+      )}
+    </g>
+  );
+}
+
+/**
+ * 美化矩形树图组件
+ * 顶层分支各用一种颜色，子层级逐层变浅，矩形面积与数值成正比
+ */
+export function BeautifulTreemapChart({
+  data,
+  config,
+  title,
+  description,
+  className,
+  showLabels = TREEMAP_CHART_DEFAULTS.showLabels,
+  showValues = TREEMAP_CHART_DEFAULTS.showValues,
+  cellGap = TREEMAP_CHART_DEFAULTS.cellGap,
+  colors: providedColors,
+  primaryColor = "#22c55e",
+}: TreemapChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateTreemapChartData(data);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const roots = buildHierarchyTree(data);
+  const { leafCount, totalValue } = validation.stats;
+  const branchColor = (index: number) =>
+    finalColors.series[index % finalColors.series.length] || finalColors.primary || primaryColor;
+
+  const toDatum = (node: HierarchyNode, color: string): TreemapDatum => ({
+    name: node.name,
+    path: node.path,
+    value: node.value,
+    fill: lightenHexColor(color, Math.min(node.depth * 0.08, 0.3)),
+    children:
+      node.children.length > 0 ? node.children.map(child => toDatum(child, color)) : undefined,
+  });
+  const treemapData = roots.map((root, index) => toDatum(root, branchColor(index)));
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <ChartContainer config={config} className="flex-1">
+        <Treemap
+          data={treemapData}
+          dataKey="value"
+          nameKey="name"
+          aspectRatio={4 / 3}
+          isAnimationActive={false}
+          content={
+            <TreemapCell
+              showLabels={showLabels}
+              showValues={showValues}
+              cellGap={cellGap}
+              textColor="#ffffff"
+            />
+          }
+        />
+      </ChartContainer>
+
+      <div className="text-muted-foreground mt-4 flex flex-wrap gap-4 text-xs">
+        {roots.map((root, index) => (
+          <div key={root.path} className="flex items-center gap-2">
+            <span
+              className="inline-flex h-2 w-2 rounded-full"
+              style={{ backgroundColor: branchColor(index) }}
+            />
+            <span className="text-foreground font-medium">{root.name}</span>
+            <span>{totalValue > 0 ? `${((root.value / totalValue) * 100).toFixed(1)}%` : "—"}</span>
+          </div>
+        ))}
+        <span>{leafCount} leaves</span>
+      </div>
+    </div>
+  );
+}
+
+export default BeautifulTreemapChart;
@@ -0,0 +1,79 @@
+// Treemap Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { UnifiedColorConfig } from "@/types/chart-config";
+
+/**
+ * 矩形树图数据点结构
+ * 推荐使用层级节点行（path / parent / name / depth / value）；
+ * 也可传入明细行，此时全部文本字段按顺序作为层级，第一个数值字段作为面积
+ */
+export interface TreemapChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * 矩形树图数据集合
+ */
+export type TreemapChartData = TreemapChartDataPoint[];
+
+/**
+ * 矩形树图组件属性
+ */
+export interface TreemapChartProps {
+  /** 图表数据 */
+  data: TreemapChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 是否在矩形中显示名称 */
+  showLabels?: boolean;
+
+  /** 是否在名称下方显示数值 */
+  showValues?: boolean;
+
+  /** 矩形之间的间距 */
+  cellGap?: number;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 矩形树图数据校验结果
+ */
+export interface TreemapChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    branchCount: number;
+    leafCount: number;
+    totalValue: number;
+  };
+}
+
+/**
+ * 矩形树图默认配置
+ */
+export const TREEMAP_CHART_DEFAULTS = {
+  showLabels: true,
+  showValues: false,
+  cellGap: 2,
+} as const;
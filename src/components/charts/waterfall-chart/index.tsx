@@ -0,0 +1,200 @@
+"use client";
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  LabelList,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ChartContainer } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import { buildWaterfallSteps } from "@/lib/data-analysis-utils";
+import { CHART_CONFIG_DEFAULTS } from "@/constants/chart-config";
+import {
+  WaterfallChartProps,
+  WaterfallChartData,
+  WaterfallChartValidationResult,
+  WATERFALL_CHART_DEFAULTS,
+} from "./types";
+
+/**
+ * 验证瀑布图数据结构
+ */
+export function validateWaterfallChartData(
+  data: WaterfallChartData
+): WaterfallChartValidationResult {
+  const errors: string[] = [];
+  const emptyStats = { dataPointCount: 0, categoryKey: "", valueKey: "" };
+
+  if (!Array.isArray(data) || data.length === 0) {
+    errors.push("数据不能为空");
+    return { isValid: false, errors, stats: emptyStats };
+  }
+
+  const firstItem = data[0];
+  const keys = Object.keys(firstItem);
+  const categoryKey = keys.find(key => typeof firstItem[key] === "string");
+  const valueKey = keys.find(key => typeof firstItem[key] === "number");
+
+  if (!categoryKey || !valueKey) {
+    errors.push("瀑布图需要1个分类字段（步骤名称）和1个数值字段（变化量）");
+    return {
+      isValid: false,
+      errors,
+      stats: { ...emptyStats, dataPointCount: data.length },
+    };
+  }
+
+  data.forEach((item, index) => {
+    const value = item[valueKey];
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      errors.push(`数据点 ${index + 1} 的数值字段 "${valueKey}" 必须为有效数字`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    stats: { dataPointCount: data.length, categoryKey, valueKey },
+  };
+}
+
+const formatDelta = (value: number) =>
+  `${value > 0 ? "+" : ""}${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+/**
+ * 美化瀑布图组件
+ * 每根柱体从上一步的累计值浮动到新的累计值，合计柱从0开始绘制
+ */
+export function BeautifulWaterfallChart({
+  data,
+  config,
+  title,
+  description,
+  className,
+  showTotal = WATERFALL_CHART_DEFAULTS.showTotal,
+  showConnectors = WATERFALL_CHART_DEFAULTS.showConnectors,
+  showValues = WATERFALL_CHART_DEFAULTS.showValues,
+  showGrid = WATERFALL_CHART_DEFAULTS.showGrid,
+  barRadius = WATERFALL_CHART_DEFAULTS.barRadius,
+  colors: providedColors,
+  primaryColor = "#22c55e",
+}: WaterfallChartProps) {
+  // 直接使用传入的颜色配置
+  const finalColors = providedColors;
+  const validation = validateWaterfallChartData(data);
+  const containerClass = cn("flex h-full w-full flex-col", className);
+
+  if (!validation.isValid) {
+    return (
+      <div className={containerClass}>
+        <h3 className="mb-2 text-lg font-semibold text-red-600">数据格式错误</h3>
+        <div className="space-y-1 text-red-600">
+          {validation.errors.map((error, index) => (
+            <p key={index} className="text-sm">
+              • {error}
+            </p>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { categoryKey, valueKey } = validation.stats;
+  const steps = buildWaterfallSteps(data, categoryKey, valueKey, showTotal);
+
+  const kindColors = {
+    increase: finalColors.increase || CHART_CONFIG_DEFAULTS.INCREASE_COLOR,
+    decrease: finalColors.decrease || CHART_CONFIG_DEFAULTS.DECREASE_COLOR,
+    total: finalColors.total || CHART_CONFIG_DEFAULTS.TOTAL_COLOR,
+  };
+  const kindLabels = { increase: "Increase", decrease: "Decrease", total: "Total" };
+
+  // recharts 以 [起点, 终点] 数组绘制浮动柱
+  const chartData = steps.map(step => ({
+    label: step.label,
+    range: [Math.min(step.start, step.end), Math.max(step.start, step.end)],
+    display: step.kind === "total" ? step.end.toLocaleString() : formatDelta(step.value),
+    kind: step.kind,
+  }));
+
+  const axisTick = { fontSize: 12, fill: finalColors.text };
+  const valueLabel = String(config[valueKey]?.label || valueKey);
+
+  return (
+    <div className={containerClass}>
+      {(title || description) && (
+        <div className="mb-4 space-y-1">
+          {title && <h3 className="text-lg font-semibold">{title}</h3>}
+          {description && <p className="text-muted-foreground text-sm">{description}</p>}
+        </div>
+      )}
+
+      <ChartContainer config={config} className="flex-1">
+        <BarChart data={chartData} margin={{ top: 24, right: 30, left: 20, bottom: 40 }}>
+          {showGrid && (
+            <CartesianGrid strokeDasharray="3 3" stroke={finalColors.grid} opacity={0.35} />
+          )}
+          <XAxis dataKey="label" tickLine={false} axisLine={false} tick={axisTick} height={40} />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            tick={axisTick}
+            tickFormatter={value => value.toLocaleString()}
+          />
+          <ReferenceLine y={0} stroke={finalColors.grid} />
+
+          {/* 连接线：从当前柱的累计值水平延伸到下一根柱 */}
+          {showConnectors &&
+            steps.slice(0, -1).map((step, index) => (
+              <ReferenceLine
+                key={`connector-${index}`}
+                segment={[
+                  { x: step.label, y: step.end },
+                  { x: steps[index + 1].label, y: step.end },
+                ]}
+                stroke={finalColors.text}
+                strokeDasharray="3 3"
+                opacity={0.4}
+              />
+            ))}
+
+          <Bar
+            dataKey="range"
+            name={valueLabel}
+            radius={[barRadius, barRadius, barRadius, barRadius]}
+          >
+            {chartData.map((entry, index) => (
+              <Cell key={`cell-${index}`} fill={kindColors[entry.kind]} />
+            ))}
+            {showValues && (
+              <LabelList
+                dataKey="display"
+                position="top"
+                style={{ fontSize: "11px", fill: finalColors.text, fontWeight: "600" }}
+              />
+            )}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+
+      <div className="text-muted-foreground mt-4 flex flex-wrap gap-4 text-xs">
+        {(Object.keys(kindColors) as Array<keyof typeof kindColors>).map(kind => (
+          <div key={kind} className="flex items-center gap-2">
+            <span
+              className="inline-flex h-2 w-2 rounded-full"
+              style={{ backgroundColor: kindColors[kind] || primaryColor }}
+            />
+            <span className="text-foreground font-medium">{kindLabels[kind]}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default BeautifulWaterfallChart;
@@ -0,0 +1,87 @@
+// Waterfall Chart 专用类型定义
+import { ChartConfig } from "@/components/ui/chart";
+import { UnifiedColorConfig } from "@/types/chart-config";
+
+/**
+ * 瀑布图数据点结构
+ * 第一个字符串字段作为分类（步骤名称），第一个数值字段作为变化量；
+ * 名称包含合计关键词（如 Total、合计、期初）的行按合计柱绘制
+ */
+export interface WaterfallChartDataPoint {
+  [key: string]: string | number;
+}
+
+/**
+ * 瀑布图数据集合
+ */
+export type WaterfallChartData = WaterfallChartDataPoint[];
+
+/**
+ * 瀑布图组件属性
+ */
+export interface WaterfallChartProps {
+  /** 图表数据 */
+  data: WaterfallChartData;
+
+  /** 图表配置 */
+  config: ChartConfig;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 自定义样式类名 */
+  className?: string;
+
+  /** 是否在末尾追加期末合计柱 */
+  showTotal?: boolean;
+
+  /** 是否显示相邻柱体之间的连接线 */
+  showConnectors?: boolean;
+
+  /** 是否显示数值标签 */
+  showValues?: boolean;
+
+  /** 是否显示背景网格 */
+  showGrid?: boolean;
+
+  /** 柱体圆角 */
+  barRadius?: number;
+
+  /** 颜色配置（新架构） - 必需 */
+  colors: UnifiedColorConfig;
+
+  /** 主色调（可选，用于生成颜色配置） */
+  primaryColor?: string;
+}
+
+/**
+ * 瀑布图数据校验结果
+ */
+export interface WaterfallChartValidationResult {
+  /** 数据是否有效 */
+  isValid: boolean;
+
+  /** 错误信息 */
+  errors: string[];
+
+  /** 统计信息 */
+  stats: {
+    dataPointCount: number;
+    categoryKey: string;
+    valueKey: string;
+  };
+}
+
+/**
+ * 瀑布图默认配置
+ */
+export const WATERFALL_CHART_DEFAULTS = {
+  showTotal: true,
+  showConnectors: true,
+  showValues: true,
+  showGrid: true,
+  barRadius: 4,
+} as const;
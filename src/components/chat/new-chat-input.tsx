@@ -2,12 +2,23 @@
 
 import { useState, useRef, useCallback } from "react";
 import { cn } from "@/lib/utils";
-import { FileAttachment } from "@/types";
+import { FileAttachment, SheetSelection } from "@/types";
+import { WorkbookSheetSummary } from "@/lib/ai-chart-system/types";
+import { readWorkbook, summarizeWorkbook } from "@/lib/workbook-utils";
+import { detectClipboardTable, toTsv } from "@/lib/clipboard-table";
 import { Send, Paperclip, X, FileSpreadsheet, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
 
 interface NewChatInputProps {
@@ -22,6 +33,9 @@ interface NewChatInputProps {
   className?: string;
 }
 
+/** 工作表下拉框中"自动选择"选项的取值 */
+const AUTO_SHEET = "__auto__";
+
 export function NewChatInput({
   onSendMessage,
   onCancel,
@@ -30,11 +44,12 @@ export function NewChatInput({
   disabled = false,
   placeholder = "Describe the chart you want or upload a data file...",
   maxFiles = 3,
-  acceptedFileTypes = [".xlsx", ".xls", ".csv"],
+  acceptedFileTypes = [".xlsx", ".xls", ".csv", ".tsv", ".json", ".ndjson", ".md", ".markdown"],
   className,
 }: NewChatInputProps) {
   const [message, setMessage] = useState("");
   const [files, setFiles] = useState<FileAttachment[]>([]);
+  const [workbookSheets, setWorkbookSheets] = useState<Record<string, WorkbookSheetSummary[]>>({});
   const [isDragOver, setIsDragOver] = useState(false);
   const [isComposing, setIsComposing] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -47,6 +62,7 @@ export function NewChatInput({
     onSendMessage(message.trim(), files);
     setMessage("");
     setFiles([]);
+    setWorkbookSheets({});
   }, [message, files, onSendMessage]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -103,6 +119,7 @@ export function NewChatInput({
 
     if (newFiles.length > 0) {
       setFiles(prev => [...prev, ...newFiles]);
+      newFiles.filter(file => file.type === "excel").forEach(loadWorkbookSheets);
       toast({
         title: "File uploaded successfully",
         description: `Added ${newFiles.length} file${newFiles.length > 1 ? "s" : ""}`,
@@ -115,10 +132,65 @@ export function NewChatInput({
     }
   };
 
+  // 粘贴表格（Excel/Google Sheets/网页）时转换为TSV附件，按文件数据处理而非从描述中提取
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const table = detectClipboardTable(e.clipboardData);
+    if (!table) return;
+
+    if (files.length >= maxFiles) {
+      toast({
+        title: "Too many files",
+        description: `Pasted table kept as text: at most ${maxFiles} files can be attached`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    e.preventDefault();
+    const name = `pasted-table-${files.length + 1}.tsv`;
+    const file = new File([toTsv(table.rows)], name, { type: "text/tab-separated-values" });
+
+    setFiles(prev => [
+      ...prev,
+      {
+        id: `${Date.now()}_paste`,
+        name,
+        size: file.size,
+        type: "csv",
+        file,
+        uploadedAt: new Date(),
+      },
+    ]);
+    toast({
+      title: "Table pasted as data",
+      description: `${table.rows.length - 1} rows × ${table.rows[0].length} columns attached`,
+    });
+  };
+
   const removeFile = (fileId: string) => {
     setFiles(prev => prev.filter(file => file.id !== fileId));
   };
 
+  // 读取工作簿的工作表与数据区域，供用户选择
+  const loadWorkbookSheets = async (attachment: FileAttachment) => {
+    try {
+      const sheets = summarizeWorkbook(readWorkbook(await attachment.file.arrayBuffer()));
+      setWorkbookSheets(prev => ({ ...prev, [attachment.id]: sheets }));
+    } catch (error) {
+      console.warn("📊 [NewChatInput] 工作表读取失败，使用自动识别:", error);
+    }
+  };
+
+  const updateSheetSelection = (fileId: string, updates: SheetSelection) => {
+    setFiles(prev =>
+      prev.map(file =>
+        file.id === fileId
+          ? { ...file, sheetSelection: { ...file.sheetSelection, ...updates } }
+          : file
+      )
+    );
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     if (!isDragOver) setIsDragOver(true);
@@ -158,6 +230,47 @@ export function NewChatInput({
                   <div className="min-w-0 flex-1">
                     <p className="truncate text-sm font-medium">{file.name}</p>
                     <p className="text-muted-foreground text-xs">{formatFileSize(file.size)}</p>
+                    {workbookSheets[file.id] && (
+                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                        <Select
+                          value={file.sheetSelection?.sheet ?? AUTO_SHEET}
+                          onValueChange={value =>
+                            updateSheetSelection(file.id, {
+                              sheet: value === AUTO_SHEET ? undefined : value,
+                            })
+                          }
+                        >
+                          <SelectTrigger className="h-7 w-44 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={AUTO_SHEET}>Auto-detect sheet</SelectItem>
+                            {workbookSheets[file.id].map(sheet => (
+                              <SelectItem
+                                key={sheet.name}
+                                value={sheet.name}
+                                disabled={sheet.regions.length === 0}
+                              >
+                                {sheet.name}
+                                {sheet.regions.length > 0
+                                  ? ` · ${sheet.regions.map(region => region.range).join(", ")}`
+                                  : " · no table"}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          value={file.sheetSelection?.range ?? ""}
+                          onChange={e =>
+                            updateSheetSelection(file.id, {
+                              range: e.target.value.trim() || undefined,
+                            })
+                          }
+                          placeholder="Range, e.g. A5:F40"
+                          className="h-7 w-36 text-xs"
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
                 <Button
@@ -193,6 +306,7 @@ export function NewChatInput({
             onKeyDown={handleKeyDown}
             onCompositionStart={() => setIsComposing(true)}
             onCompositionEnd={() => setIsComposing(false)}
+            onPaste={handlePaste}
             placeholder={placeholder}
             disabled={disabled || isLoading}
             className="max-h-[200px] min-h-[60px] resize-none border-0 p-0 focus-visible:ring-0"
@@ -293,9 +407,14 @@ function getFileType(file: File): FileAttachment["type"] {
     case "xls":
       return "excel";
     case "csv":
+    case "tsv":
       return "csv";
     case "json":
+    case "ndjson":
       return "json";
+    case "md":
+    case "markdown":
+      return "markdown";
     case "png":
     case "jpg":
     case "jpeg":
@@ -9,7 +9,7 @@ import { NewChatInput } from "./new-chat-input";
 import { ChatArea } from "@/components/layout/chat-area";
 import { UploadedFile } from "@/types/chat";
 import { ChartType } from "@/types/chart";
-import { CHART_TYPE_LABELS } from "@/constants/chart";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 import { generateChart } from "@/lib/ai-chart-system";
 import { useSimpleExport } from "@/hooks/use-simple-export";
 import { EnhancedChart } from "@/components/charts/enhanced-chart";
@@ -402,7 +402,7 @@ export function NewChatPanel({ className, onChartGenerated, onImageGenerated }:
 
   // 获取图表类型标签
   const getChartTypeName = (chartType: ChartType): string =>
-    CHART_TYPE_LABELS[chartType]?.en || "Chart";
+    chartTypeRegistry.has(chartType) ? chartTypeRegistry.getLabel(chartType) : "Chart";
 
   // 处理图片点击
   const handleImageClick = useCallback((imageUrl: string, title?: string) => {
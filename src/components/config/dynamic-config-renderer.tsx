@@ -13,8 +13,13 @@ import {
   ConfigChangeEvent,
   ColorConfigItem,
   OptionConfigItem,
+  ComboSeriesAssignment,
 } from "@/types/chart-config";
-import { CHART_CONFIG_TYPES } from "@/constants/chart-config";
+import {
+  CHART_CONFIG_TYPES,
+  COMBO_SERIES_MARKS,
+  COMBO_AXIS_SIDES,
+} from "@/constants/chart-config";
 
 interface DynamicConfigRendererProps {
   /** 配置描述 */
@@ -174,6 +179,60 @@ export const DynamicConfigRenderer: FC<DynamicConfigRendererProps> = ({
           />
         );
 
+      case CHART_CONFIG_TYPES.SERIES_ASSIGNMENT: {
+        // 逐个系列分配标记类型与坐标轴（组合图）
+        const assignments = (currentValue || {}) as Record<string, ComboSeriesAssignment>;
+        const updateAssignment = (seriesKey: string, patch: Partial<ComboSeriesAssignment>) => {
+          const previous = assignments[seriesKey] || { mark: "line", axis: "left" };
+          onChange({
+            type: "option",
+            key: item.key,
+            value: { ...assignments, [seriesKey]: { ...previous, ...patch } },
+            seriesKey,
+          });
+        };
+
+        return (
+          <div key={item.key} className="space-y-2">
+            <Label className="text-sm font-medium">{item.label}</Label>
+            {config.seriesKeys.map(series => {
+              const assignment = assignments[series.key];
+              return (
+                <div key={series.key} className="rounded-lg border bg-background/50 p-3">
+                  <Label className="text-xs font-medium text-muted-foreground mb-2 block">
+                    {series.label}
+                  </Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <SelectDropdown
+                      {...commonProps}
+                      label="Mark"
+                      value={assignment?.mark ?? "line"}
+                      options={COMBO_SERIES_MARKS}
+                      onChange={newValue =>
+                        updateAssignment(series.key, {
+                          mark: newValue as ComboSeriesAssignment["mark"],
+                        })
+                      }
+                    />
+                    <SelectDropdown
+                      {...commonProps}
+                      label="Axis"
+                      value={assignment?.axis ?? "left"}
+                      options={COMBO_AXIS_SIDES}
+                      onChange={newValue =>
+                        updateAssignment(series.key, {
+                          axis: newValue as ComboSeriesAssignment["axis"],
+                        })
+                      }
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        );
+      }
+
       default:
         return null;
     }
@@ -11,6 +11,7 @@ import { BeautifulRadarChart } from "@/components/charts/radar-chart";
 import { BeautifulRadialChart } from "@/components/charts/radial-chart";
 import { generateChartConfig } from "@/lib/data-standardization";
 import { generateChartColors } from "@/lib/simplified-color-config";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 
 // 完全重构的演示组件 - 使用新的简化配置系统
 const LineChartDemo = () => {
@@ -175,6 +176,36 @@ const RadialChartDemo = () => {
   );
 };
 
+// 扩展图表类型：使用插件声明的渲染组件与模板数据
+const PluginChartDemo = ({ chartType }: { chartType: string }) => {
+  const plugin = chartTypeRegistry.has(chartType) ? chartTypeRegistry.get(chartType) : undefined;
+  const Renderer = plugin?.renderer.component;
+  if (!Renderer || !plugin.sampleData?.length) {
+    return null;
+  }
+
+  const chartConfig = generateChartConfig(
+    plugin.type,
+    [...plugin.sampleData],
+    undefined,
+    "#22c55e"
+  );
+  const colors = generateChartColors(plugin.type, chartConfig.seriesCount, "#22c55e");
+
+  return (
+    <div className="h-[280px] w-full">
+      <Renderer
+        type={plugin.type}
+        data={chartConfig.data as Record<string, unknown>[]}
+        config={chartConfig.config}
+        colors={colors}
+        options={{ ...plugin.defaultOptions }}
+        primaryColor="#22c55e"
+      />
+    </div>
+  );
+};
+
 interface DemoItem {
   id: string;
   title: string;
@@ -224,7 +255,7 @@ export function HorizontalDemoSection({
       }
 
       default:
-        return null;
+        return <PluginChartDemo chartType={chartType} />;
     }
   }, []);
 
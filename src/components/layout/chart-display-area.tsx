@@ -8,6 +8,8 @@ import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
 import { ChartResultContent, ChartType } from "@/types";
 import { EnhancedChart } from "@/components/charts/enhanced-chart";
+import { FacetedChart } from "@/components/charts/faceted-chart";
+import type { FacetedChartFacet } from "@/components/charts/faceted-chart/types";
 import { useChartExport, useChartExportStatus } from "@/contexts/chart-export-context";
 // ChartThemeProvider removed - using direct color configs now
 import { useToast } from "@/components/ui/use-toast";
@@ -27,10 +29,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ENHANCED_CHART_DEFAULTS } from "@/components/charts/enhanced-chart/types";
-import { CHART_TYPE_LABELS } from "@/constants/chart";
-import { CHART_CONFIG_SCHEMAS } from "@/constants/chart-config";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 import type { LineDotVariant } from "@/components/charts/line-chart/types";
-import type { ChartPalette } from "@/types";
+import type { ChartPalette, FieldValueFormat } from "@/types";
 import {
   UnifiedChartConfig,
   UnifiedOptionConfig,
@@ -44,6 +45,9 @@ import {
   convertToChartTheme,
   getChartConfigSchema,
   generateDataDrivenConfigSchema,
+  getSemanticColorConfigs,
+  getAggregationOptionItems,
+  resolveAggregatedData,
 } from "@/lib/chart-config-utils";
 import { DynamicConfigRenderer } from "@/components/config/dynamic-config-renderer";
 import { ColorInput } from "@/components/config/color-input";
@@ -223,7 +227,7 @@ function useConfigurableChartTheme(chart: ChartResultContent) {
       };
     });
 
-    if (chart.chartType === "pie" || chart.chartType === "radial") {
+    if (["pie", "radial", "funnel"].includes(chart.chartType)) {
       // 对于饼图和径向图，colors数组包含所有切片的颜色
       chartConfig.colors = unifiedConfig.seriesKeys.map((entry, index) => {
         const fillKey = `series-${entry.key}-fill`;
@@ -259,7 +263,7 @@ function useConfigurableChartTheme(chart: ChartResultContent) {
 // ✅ getDefaultOptions 已被 generateOptionConfig 替代
 
 function getChartTypeLabel(chartType: ChartType): string {
-  return CHART_TYPE_LABELS[chartType]?.en || chartType;
+  return chartTypeRegistry.getLabel(chartType);
 }
 
 // --- DECOMPOSED CHILD COMPONENTS ---
@@ -329,16 +333,45 @@ const ChartRenderer: FC<{
   config: any;
   unifiedConfig: UnifiedChartConfig;
 }> = memo(({ chart, chartRef, config, unifiedConfig }) => {
+  // 分面图表：按分面字段渲染小多图
+  const facet = chart.chartConfig?.facet as FacetedChartFacet | undefined;
+  // 选项面板切换了聚合方式时重新聚合
+  const data = useMemo(
+    () => resolveAggregatedData(chart.chartData, chart.chartConfig, unifiedConfig.options),
+    [chart.chartData, chart.chartConfig, unifiedConfig.options]
+  );
+  // 数值轴格式：数据中识别出的货币、百分比等；计数类聚合的结果不带原字段格式
+  const countsOnly = ["count", "distinct"].includes(unifiedConfig.options.aggregateFunction ?? "");
+  const valueFormat = countsOnly
+    ? undefined
+    : (chart.chartConfig?.axes?.yAxis?.format as FieldValueFormat | undefined);
+  const secondaryValueFormat = countsOnly
+    ? undefined
+    : (chart.chartConfig?.axes?.secondaryYAxis?.format as FieldValueFormat | undefined);
 
   return (
     <div ref={chartRef} className="w-full rounded-lg border p-4">
-      <EnhancedChart
-        type={chart.chartType}
-        data={chart.chartData}
-        config={config}
-        unifiedConfig={unifiedConfig}
-        {...unifiedConfig.options}
-      />
+      {facet ? (
+        <FacetedChart
+          type={chart.chartType}
+          data={data}
+          config={config}
+          facet={facet}
+          unifiedConfig={unifiedConfig}
+          options={unifiedConfig.options}
+          valueFormat={valueFormat}
+        />
+      ) : (
+        <EnhancedChart
+          type={chart.chartType}
+          data={data}
+          config={config}
+          unifiedConfig={unifiedConfig}
+          valueFormat={valueFormat}
+          secondaryValueFormat={secondaryValueFormat}
+          {...unifiedConfig.options}
+        />
+      )}
     </div>
   );
 });
@@ -354,6 +387,20 @@ const ChartFooter: FC<{
       <div className="flex flex-wrap items-center gap-4">
         <span>Type: {getChartTypeLabel(chart.chartType)}</span>
         <span>Rows: {chart.chartData.length}</span>
+        {chart.chartConfig?.aggregation && (
+          <span title="可在选项面板中切换聚合方式与日期粒度">
+            Aggregated: {chart.chartConfig.aggregation.function}
+            {chart.chartConfig.aggregation.timeBucket
+              ? ` by ${chart.chartConfig.aggregation.timeBucket}`
+              : ""}{" "}
+            ({chart.chartConfig.aggregation.sourceRows} source rows)
+          </span>
+        )}
+        {chart.chartConfig?.transform && !chart.chartConfig.transform.reverted && (
+          <span title='发送"撤销转换"可恢复原始表格结构'>
+            Reshaped: {chart.chartConfig.transform.description}
+          </span>
+        )}
         {chart.imageInfo && (
           <span>
             Size: {chart.imageInfo.dimensions.width} × {chart.imageInfo.dimensions.height}
@@ -401,7 +448,7 @@ const DataDrivenThemePanel: FC<{
   const schema = useMemo(() => {
     const colorConfigs: ColorConfigItem[] = [];
 
-    if (!["pie", "radial"].includes(config.chartType)) {
+    if (!["pie", "radial", "funnel", "treemap", "sunburst"].includes(config.chartType)) {
       colorConfigs.push({
         key: "grid",
         label: "Grid Color",
@@ -417,12 +464,18 @@ const DataDrivenThemePanel: FC<{
       });
     }
 
-    colorConfigs.push({
-      key: "series",
-      label: "Series Colors",
-      category: "series" as const,
-      isArray: true,
-    });
+    // 瀑布图使用增加/减少/合计语义颜色代替系列颜色
+    const semanticColors = getSemanticColorConfigs(config.chartType);
+    if (semanticColors.length > 0) {
+      colorConfigs.push(...semanticColors);
+    } else {
+      colorConfigs.push({
+        key: "series",
+        label: "Series Colors",
+        category: "series" as const,
+        isArray: true,
+      });
+    }
 
     if (chartTypeHasStroke(config.chartType)) {
       colorConfigs.push({
@@ -481,16 +534,19 @@ DataDrivenThemePanel.displayName = "DataDrivenThemePanel";
  */
 const DataDrivenOptionsPanel: FC<{
   config: UnifiedChartConfig;
+  chartConfig?: Record<string, any>;
   onChange: (event: ConfigChangeEvent) => void;
-}> = memo(({ config, onChange }) => {
-  // 使用静态配置中的选项，因为选项配置不依赖于数据
+}> = memo(({ config, chartConfig, onChange }) => {
+  // 使用静态配置中的选项，因为选项配置不依赖于数据；带有可重新计算的聚合时追加聚合选项
   const schema = useMemo(() => {
-    const baseSchema = CHART_CONFIG_SCHEMAS[config.chartType];
     return {
       colors: [],
-      options: baseSchema?.options || [],
+      options: [
+        ...chartTypeRegistry.getConfigSchema(config.chartType).options,
+        ...getAggregationOptionItems(chartConfig),
+      ],
     };
-  }, [config.chartType]);
+  }, [config.chartType, chartConfig]);
 
 
   // 如果没有选项配置，不渲染面板
@@ -636,7 +692,11 @@ function ThemedChartContent({
       </div>
       <div className="grid gap-3 border-t p-3 md:grid-cols-2">
         <DataDrivenThemePanel config={unifiedConfig} onChange={handleConfigChange} />
-        <DataDrivenOptionsPanel config={unifiedConfig} onChange={handleConfigChange} />
+        <DataDrivenOptionsPanel
+          config={unifiedConfig}
+          chartConfig={chart.chartConfig}
+          onChange={handleConfigChange}
+        />
       </div>
 
       <ChartFooter chart={chart} isExporting={isExporting} exportError={exportError} />
@@ -20,8 +20,15 @@ function getFileTypeFromName(filename: string): string {
       return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
     case "csv":
       return "text/csv";
+    case "tsv":
+      return "text/tab-separated-values";
     case "json":
       return "application/json";
+    case "ndjson":
+      return "application/x-ndjson";
+    case "md":
+    case "markdown":
+      return "text/markdown";
     case "txt":
       return "text/plain";
     case "pdf":
@@ -151,7 +158,10 @@ function getFileTypeLabel(mimeType: string): string {
     "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "Excel",
     "application/vnd.ms-excel": "Excel",
     "text/csv": "CSV",
+    "text/tab-separated-values": "TSV",
     "application/json": "JSON",
+    "application/x-ndjson": "NDJSON",
+    "text/markdown": "Markdown",
     "text/plain": "Text",
     "image/png": "PNG",
     "image/jpeg": "JPG",
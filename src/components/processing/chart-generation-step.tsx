@@ -1,8 +1,8 @@
 "use client";
 
 import { PieChart } from "lucide-react";
-import { CHART_TYPE_LABELS } from "@/constants/chart";
-import { ProcessingStep, ChartGenerationData } from "@/types";
+import { chartTypeRegistry } from "@/lib/chart-registry";
+import { ProcessingStep, ChartGenerationData, ChartType } from "@/types";
 import { BaseStepComponent } from "./base-step-component";
 
 interface ChartGenerationStepProps {
@@ -88,7 +88,7 @@ export function ChartGenerationStepComponent(props: ChartGenerationStepProps) {
 }
 
 function getChartTypeLabel(chartType: string): string {
-  return CHART_TYPE_LABELS[chartType as keyof typeof CHART_TYPE_LABELS]?.zh || chartType;
+  return chartTypeRegistry.getLabel(chartType as ChartType, "zh");
 }
 
 function formatDuration(ms: number): string {
@@ -1,8 +1,8 @@
 "use client";
 
 import { Target } from "lucide-react";
-import { ProcessingStep, ChartTypeDetectionData } from "@/types";
-import { CHART_TYPE_LABELS } from "@/constants/chart";
+import { ProcessingStep, ChartTypeDetectionData, ChartType } from "@/types";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 import { BaseStepComponent } from "./base-step-component";
 
 interface ChartTypeDetectionStepProps {
@@ -77,5 +77,5 @@ export function ChartTypeDetectionStepComponent(props: ChartTypeDetectionStepPro
 }
 
 function getChartTypeLabel(chartType: string): string {
-  return CHART_TYPE_LABELS[chartType as keyof typeof CHART_TYPE_LABELS]?.zh || chartType;
+  return chartTypeRegistry.getLabel(chartType as ChartType, "zh");
 }
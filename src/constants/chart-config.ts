@@ -11,6 +11,7 @@ export const CHART_CONFIG_TYPES = {
   BOOLEAN: "boolean",
   NUMBER: "number",
   SELECT: "select",
+  SERIES_ASSIGNMENT: "series-assignment",
 } as const;
 
 /**
@@ -23,6 +24,9 @@ export const COLOR_CONFIG_CATEGORIES = {
   BACKGROUND: "background",
   TEXT: "text",
   BORDER: "border",
+  INCREASE: "increase",
+  DECREASE: "decrease",
+  TOTAL: "total",
 } as const;
 
 /**
@@ -44,6 +48,10 @@ export const CHART_CONFIG_RANGES = {
   STROKE_WIDTH: { min: 1, max: 5, step: 0.5 },
   BAR_SIZE: { min: 5, max: 40, step: 1 },
   CORNER_RADIUS: { min: 0, max: 20, step: 1 },
+  BUBBLE_SIZE: { min: 20, max: 1200, step: 20 },
+  CELL_GAP: { min: 0, max: 8, step: 1 },
+  BIN_COUNT: { min: 0, max: 100, step: 1 },
+  TOP_N: { min: 0, max: 50, step: 1 },
 } as const;
 
 /**
@@ -64,274 +72,179 @@ export const LINE_CURVE_TYPES = [
 ] as const;
 
 /**
- * 各图表类型的配置描述
+ * 组合图系列标记类型选项
  */
-export const CHART_CONFIG_SCHEMAS = {
-  bar: {
-    colors: [
-      {
-        key: "grid",
-        label: "Grid Color",
-        category: COLOR_CONFIG_CATEGORIES.GRID,
-      },
-      {
-        key: "series",
-        label: "Bar Colors",
-        category: COLOR_CONFIG_CATEGORIES.SERIES,
-        isArray: true,
-      },
-    ],
-    options: [
-      {
-        key: "barRadius",
-        label: "Corner Radius",
-        type: CHART_CONFIG_TYPES.NUMBER,
-        defaultValue: 4,
-        range: CHART_CONFIG_RANGES.BAR_RADIUS,
-        unit: "px",
-      },
-      {
-        key: "barShowGrid",
-        label: "Show Grid",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "barShowValues",
-        label: "Show Value Labels",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-    ],
-  },
-  line: {
-    colors: [
-      {
-        key: "grid",
-        label: "Grid Color",
-        category: COLOR_CONFIG_CATEGORIES.GRID,
-      },
-      {
-        key: "series",
-        label: "Line Colors",
-        category: COLOR_CONFIG_CATEGORIES.SERIES,
-        isArray: true,
-      },
-    ],
-    options: [
-      {
-        key: "lineCurveType",
-        label: "Curve Type",
-        type: CHART_CONFIG_TYPES.SELECT,
-        defaultValue: "monotone",
-        options: LINE_CURVE_TYPES,
-      },
-      {
-        key: "lineShowGrid",
-        label: "Show Grid",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "lineShowDots",
-        label: "Show Points",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "lineDotSize",
-        label: "Point Size",
-        type: CHART_CONFIG_TYPES.NUMBER,
-        defaultValue: 6,
-        range: CHART_CONFIG_RANGES.DOT_SIZE,
-        unit: "px",
-        dependsOn: "lineShowDots",
-      },
-      {
-        key: "lineDotVariant",
-        label: "Point Style",
-        type: CHART_CONFIG_TYPES.SELECT,
-        defaultValue: "default",
-        options: LINE_DOT_VARIANTS,
-        dependsOn: "lineShowDots",
-      },
-    ],
-  },
-  pie: {
-    colors: [
-      {
-        key: "series",
-        label: "Slice Colors",
-        category: COLOR_CONFIG_CATEGORIES.SERIES,
-        isArray: true,
-      },
-    ],
-    options: [
-      {
-        key: "showLegend",
-        label: "Show Legend",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "showPercentage",
-        label: "Show Labels",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "innerRadius",
-        label: "Inner Radius",
-        type: CHART_CONFIG_TYPES.NUMBER,
-        defaultValue: 0,
-        range: CHART_CONFIG_RANGES.INNER_RADIUS,
-        unit: "px",
-      },
-    ],
-  },
-  area: {
-    colors: [
-      {
-        key: "grid",
-        label: "Grid Color",
-        category: COLOR_CONFIG_CATEGORIES.GRID,
-      },
-      {
-        key: "series",
-        label: "Area Colors",
-        category: COLOR_CONFIG_CATEGORIES.SERIES,
-        isArray: true,
-        hasStroke: true, // 区域图有边框颜色
-      },
-    ],
-    options: [
-      {
-        key: "areaShowGrid",
-        label: "Show Grid",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "areaUseGradient",
-        label: "Gradient Fill",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "areaFillOpacity",
-        label: "Fill Opacity",
-        type: CHART_CONFIG_TYPES.NUMBER,
-        defaultValue: 0.6,
-        range: CHART_CONFIG_RANGES.OPACITY,
-        unit: "%",
-        formatter: (value: number) => Math.round(value * 100),
-      },
-    ],
-  },
-  radar: {
-    colors: [
-      {
-        key: "series",
-        label: "Radar Colors",
-        category: COLOR_CONFIG_CATEGORIES.SERIES,
-        isArray: true,
-        hasStroke: true, // 雷达图有边框颜色
-      },
-    ],
-    options: [
-      {
-        key: "radarShowLegend",
-        label: "Show Legend",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "radarShowArea",
-        label: "Fill Area",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "radarShowDots",
-        label: "Show Points",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "radarFillOpacity",
-        label: "Fill Opacity",
-        type: CHART_CONFIG_TYPES.NUMBER,
-        defaultValue: 0.3,
-        range: CHART_CONFIG_RANGES.OPACITY,
-        unit: "%",
-        formatter: (value: number) => Math.round(value * 100),
-        dependsOn: "radarShowArea",
-      },
-      {
-        key: "radarStrokeWidth",
-        label: "Line Width",
-        type: CHART_CONFIG_TYPES.NUMBER,
-        defaultValue: 2,
-        range: CHART_CONFIG_RANGES.STROKE_WIDTH,
-        unit: "px",
-      },
-    ],
+export const COMBO_SERIES_MARKS = [
+  { value: "bar", label: "Bar" },
+  { value: "line", label: "Line" },
+  { value: "area", label: "Area" },
+] as const;
+
+/**
+ * 组合图Y轴位置选项
+ */
+export const COMBO_AXIS_SIDES = [
+  { value: "left", label: "Left Axis" },
+  { value: "right", label: "Right Axis" },
+] as const;
+
+/**
+ * 热力图色阶类型选项
+ */
+export const HEATMAP_COLOR_SCALES = [
+  { value: "sequential", label: "Sequential" },
+  { value: "diverging", label: "Diverging" },
+] as const;
+
+/**
+ * 直方图分箱规则选项
+ */
+export const HISTOGRAM_BIN_METHODS = [
+  { value: "auto", label: "Auto" },
+  { value: "sturges", label: "Sturges" },
+  { value: "freedman-diaconis", label: "Freedman–Diaconis" },
+] as const;
+
+/**
+ * 漏斗图转化率计算基准选项
+ */
+export const FUNNEL_CONVERSION_BASES = [
+  { value: "previous", label: "Previous Stage" },
+  { value: "first", label: "First Stage" },
+] as const;
+
+/**
+ * 分级统计地图底图选项（auto 按地区名称匹配率自动选择）
+ */
+export const CHOROPLETH_MAPS = [
+  { value: "auto", label: "Auto" },
+  { value: "world", label: "World" },
+  { value: "china", label: "China" },
+] as const;
+
+/**
+ * 分面（小多图）坐标轴模式选项
+ */
+export const FACET_AXIS_MODES = [
+  { value: "shared", label: "Shared Axes" },
+  { value: "independent", label: "Independent Axes" },
+] as const;
+
+/**
+ * 分面（小多图）默认值
+ * MAX_SERIES_COUNT 为未配置 maxSeriesCount 时单图可读的系列数上限，MAX_PANELS 为子图数量上限
+ */
+export const FACET_DEFAULTS = {
+  MAX_SERIES_COUNT: 8,
+  MAX_PANELS: 24,
+  MIN_ROWS_PER_PANEL: 2,
+} as const;
+
+/**
+ * 瀑布图合计行识别关键词
+ * 分类名称即为关键词，或以关键词开头并紧跟分隔符（如 "Total: 2024"、"合计（万元）"）时按合计柱绘制
+ */
+export const WATERFALL_TOTAL_KEYWORDS = [
+  "total",
+  "grand total",
+  "subtotal",
+  "opening",
+  "opening balance",
+  "closing",
+  "closing balance",
+  "合计",
+  "总计",
+  "小计",
+  "期初",
+  "期初余额",
+  "期末",
+  "期末余额",
+] as const;
+
+/**
+ * 双Y轴判定阈值：系列量级相差的数量级（10的幂）
+ */
+export const DUAL_AXIS_MAGNITUDE_THRESHOLD = 2;
+
+/**
+ * 聚合函数选项
+ */
+export const AGGREGATE_FUNCTIONS = [
+  { value: "sum", label: "Sum" },
+  { value: "avg", label: "Average" },
+  { value: "count", label: "Count" },
+  { value: "min", label: "Min" },
+  { value: "max", label: "Max" },
+  { value: "median", label: "Median" },
+  { value: "distinct", label: "Distinct Count" },
+] as const;
+
+/**
+ * 日期分桶粒度选项（从细到粗排列）
+ */
+export const TIME_BUCKETS = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+  { value: "quarter", label: "Quarter" },
+  { value: "year", label: "Year" },
+] as const;
+
+/**
+ * 分组聚合默认值
+ * MAX_TIME_BUCKETS 为自动选择日期粒度时的分桶数上限，
+ * MAX_SOURCE_ROWS 为随图表下发、供配置面板重新聚合的原始行数上限
+ */
+export const AGGREGATION_DEFAULTS = {
+  MAX_TIME_BUCKETS: 60,
+  MAX_SOURCE_ROWS: 5000,
+} as const;
+
+/**
+ * 分组聚合的配置项，图表带有可重新计算的聚合结果时追加到选项面板
+ */
+export const AGGREGATION_CONFIG_OPTIONS = [
+  {
+    key: "aggregateFunction",
+    label: "Aggregation",
+    type: CHART_CONFIG_TYPES.SELECT,
+    defaultValue: "sum",
+    options: AGGREGATE_FUNCTIONS,
   },
-  radial: {
-    colors: [
-      {
-        key: "series",
-        label: "Ring Colors",
-        category: COLOR_CONFIG_CATEGORIES.SERIES,
-        isArray: true,
-      },
-      {
-        key: "background",
-        label: "Track Background",
-        category: COLOR_CONFIG_CATEGORIES.BACKGROUND,
-      },
-    ],
-    options: [
-      {
-        key: "showLegend",
-        label: "Show Legend",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "radialShowLabels",
-        label: "Show Value Labels",
-        type: CHART_CONFIG_TYPES.BOOLEAN,
-        defaultValue: true,
-      },
-      {
-        key: "radialInnerRadius",
-        label: "Inner Radius",
-        type: CHART_CONFIG_TYPES.NUMBER,
-        defaultValue: 45,
-        range: { min: 20, max: 100, step: 5 },
-        unit: "px",
-      },
-      {
-        key: "radialBarSize",
-        label: "Ring Width",
-        type: CHART_CONFIG_TYPES.NUMBER,
-        defaultValue: 20,
-        range: CHART_CONFIG_RANGES.BAR_SIZE,
-        unit: "px",
-      },
-      {
-        key: "radialCornerRadius",
-        label: "Corner Radius",
-        type: CHART_CONFIG_TYPES.NUMBER,
-        defaultValue: 10,
-        range: CHART_CONFIG_RANGES.CORNER_RADIUS,
-        unit: "px",
-      },
-    ],
+  {
+    key: "timeBucket",
+    label: "Time Bucket",
+    type: CHART_CONFIG_TYPES.SELECT,
+    defaultValue: "month",
+    options: TIME_BUCKETS,
   },
+] as const;
+
+/**
+ * 分类排序方式选项
+ * auto 在分类有自然顺序（月份、星期、季度、日期、数值区间）时按自然顺序，否则按数值降序
+ */
+export const CATEGORY_SORT_MODES = [
+  { value: "auto", label: "Smart" },
+  { value: "value", label: "By Value" },
+  { value: "label", label: "By Label" },
+] as const;
+
+/**
+ * 各图表类型默认保留的分类数（Top N），其余分类合并为 "Other"
+ */
+export const TOP_N_DEFAULTS = {
+  pie: 8,
+  radial: 8,
+  bar: 20,
+  radar: 10,
 } as const;
 
+/**
+ * 合并分类的名称
+ */
+export const OTHER_CATEGORY_LABEL = "Other";
+
 /**
  * 默认配置值常量
  */
@@ -342,6 +255,9 @@ export const CHART_CONFIG_DEFAULTS = {
   GRID_COLOR: "#e5e7eb",
   BACKGROUND_COLOR: "#ffffff",
   TEXT_COLOR: "#374151",
+  INCREASE_COLOR: "#10b981",
+  DECREASE_COLOR: "#ef4444",
+  TOTAL_COLOR: "#64748b",
 } as const;
 
 /**
@@ -352,4 +268,5 @@ export const CONFIG_COMPONENT_MAP = {
   [CHART_CONFIG_TYPES.BOOLEAN]: "Switch",
   [CHART_CONFIG_TYPES.NUMBER]: "Slider",
   [CHART_CONFIG_TYPES.SELECT]: "Select",
+  [CHART_CONFIG_TYPES.SERIES_ASSIGNMENT]: "SeriesAssignment",
 } as const;
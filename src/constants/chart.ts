@@ -8,6 +8,18 @@ export const CHART_TYPES = {
   AREA: "area",
   RADAR: "radar",
   RADIAL: "radial",
+  SCATTER: "scatter",
+  BUBBLE: "bubble",
+  COMBO: "combo",
+  HEATMAP: "heatmap",
+  WATERFALL: "waterfall",
+  FUNNEL: "funnel",
+  HISTOGRAM: "histogram",
+  BOXPLOT: "boxplot",
+  TREEMAP: "treemap",
+  SUNBURST: "sunburst",
+  CANDLESTICK: "candlestick",
+  CHOROPLETH: "choropleth",
 } as const;
 
 // 简单图表支持的类型
@@ -58,15 +70,6 @@ export const CHART_OPTIONS = {
   },
 } as const;
 
-export const CHART_TYPE_LABELS = {
-  [CHART_TYPES.BAR]: { en: "Bar chart", zh: "柱状图" },
-  [CHART_TYPES.LINE]: { en: "Line chart", zh: "折线图" },
-  [CHART_TYPES.PIE]: { en: "Pie chart", zh: "饼图" },
-  [CHART_TYPES.AREA]: { en: "Area chart", zh: "面积图" },
-  [CHART_TYPES.RADAR]: { en: "Radar chart", zh: "雷达图" },
-  [CHART_TYPES.RADIAL]: { en: "Radial chart", zh: "径向图" },
-} as const;
-
 // 颜色主题常量
 export const COLOR_THEMES = {
   DEFAULT: "default",
@@ -43,7 +43,16 @@ export const SUPPORTED_FILE_TYPES = {
   CSV: "text/csv",
 } as const;
 
-export const SUPPORTED_FILE_EXTENSIONS = [".xlsx", ".xls", ".csv"] as const;
+export const SUPPORTED_FILE_EXTENSIONS = [
+  ".xlsx",
+  ".xls",
+  ".csv",
+  ".tsv",
+  ".json",
+  ".ndjson",
+  ".md",
+  ".markdown",
+] as const;
 
 // 数据处理限制
 export const DATA_LIMITS = {
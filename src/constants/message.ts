@@ -28,6 +28,7 @@ export const ATTACHMENT_TYPES = {
   EXCEL: "excel",
   CSV: "csv",
   JSON: "json",
+  MARKDOWN: "markdown",
   IMAGE: "image",
 } as const;
 
@@ -36,8 +37,9 @@ export const ATTACHMENT_TYPES = {
  */
 export const SUPPORTED_FILE_EXTENSIONS_BY_TYPE = {
   [ATTACHMENT_TYPES.EXCEL]: [".xlsx", ".xls"],
-  [ATTACHMENT_TYPES.CSV]: [".csv"],
-  [ATTACHMENT_TYPES.JSON]: [".json"],
+  [ATTACHMENT_TYPES.CSV]: [".csv", ".tsv"],
+  [ATTACHMENT_TYPES.JSON]: [".json", ".ndjson"],
+  [ATTACHMENT_TYPES.MARKDOWN]: [".md", ".markdown"],
   [ATTACHMENT_TYPES.IMAGE]: [".png", ".jpg", ".jpeg", ".gif", ".webp"],
 } as const;
 
@@ -0,0 +1,938 @@
+/**
+ * 中国省级行政区边界（离线内置）
+ * 低精度示意轮廓，坐标为 [经度, 纬度]，相邻省份尽量共用边界顶点。
+ * 北京、天津位于河北轮廓之内，需排在河北之后绘制。
+ */
+
+import type { GeoRegion } from "@/lib/geo-regions";
+
+export const CHINA_PROVINCES: GeoRegion[] = [
+  {
+    code: "CN-XJ",
+    altCodes: ["650000", "XJ"],
+    name: { en: "Xinjiang", zh: "新疆维吾尔自治区" },
+    aliases: ["新疆", "xinjiang uygur", "xinjiang uyghur"],
+    polygons: [
+      [
+        [73.5, 39.4],
+        [76, 40.5],
+        [80.2, 42.1],
+        [80, 44.9],
+        [82.5, 45.5],
+        [82.5, 47.1],
+        [85.5, 47],
+        [87.8, 49.2],
+        [90.7, 47.8],
+        [91, 45.5],
+        [93.5, 45],
+        [96.4, 42.7],
+        [93.8, 41.2],
+        [91, 38.6],
+        [89.5, 36.1],
+        [86, 36.1],
+        [82, 35.6],
+        [78, 35.5],
+        [75, 37.2],
+      ],
+    ],
+  },
+  {
+    code: "CN-XZ",
+    altCodes: ["540000", "XZ"],
+    name: { en: "Tibet", zh: "西藏自治区" },
+    aliases: ["西藏", "xizang"],
+    polygons: [
+      [
+        [78, 35.5],
+        [82, 35.6],
+        [86, 36.1],
+        [89.5, 36.1],
+        [92, 34.5],
+        [94, 33.4],
+        [96.2, 32],
+        [98.3, 32.3],
+        [98.8, 30.5],
+        [99, 28.2],
+        [98.3, 27.6],
+        [97.3, 28.1],
+        [95.3, 27],
+        [92, 26.9],
+        [91.6, 27.8],
+        [89, 27.3],
+        [88, 27.9],
+        [86, 28],
+        [84, 28.6],
+        [81.5, 30.3],
+        [79, 30.9],
+        [78.7, 32.5],
+        [79.4, 33.9],
+      ],
+    ],
+  },
+  {
+    code: "CN-QH",
+    altCodes: ["630000", "QH"],
+    name: { en: "Qinghai", zh: "青海省" },
+    polygons: [
+      [
+        [89.5, 36.1],
+        [91, 38.6],
+        [94, 38.3],
+        [98, 39],
+        [100.8, 38.3],
+        [102.8, 37.6],
+        [103, 36.6],
+        [102.4, 35.4],
+        [101.8, 33.8],
+        [100.5, 32.6],
+        [99, 33.2],
+        [98.3, 32.3],
+        [96.2, 32],
+        [94, 33.4],
+        [92, 34.5],
+      ],
+    ],
+  },
+  {
+    code: "CN-GS",
+    altCodes: ["620000", "GS"],
+    name: { en: "Gansu", zh: "甘肃省" },
+    polygons: [
+      [
+        [96.4, 42.7],
+        [97.2, 42.8],
+        [99, 40.5],
+        [101.7, 39.3],
+        [103.5, 39.3],
+        [104, 38.5],
+        [104.2, 37.6],
+        [105.2, 36.6],
+        [105.6, 35.7],
+        [106.4, 35.3],
+        [107, 36],
+        [107.4, 36.8],
+        [108.7, 36.3],
+        [108.5, 35],
+        [106.6, 34.6],
+        [106.5, 33.2],
+        [105.6, 32.7],
+        [104.3, 33],
+        [103, 33.6],
+        [101.8, 33.8],
+        [102.4, 35.4],
+        [103, 36.6],
+        [102.8, 37.6],
+        [100.8, 38.3],
+        [98, 39],
+        [94, 38.3],
+        [91, 38.6],
+        [93.8, 41.2],
+      ],
+    ],
+  },
+  {
+    code: "CN-NX",
+    altCodes: ["640000", "NX"],
+    name: { en: "Ningxia", zh: "宁夏回族自治区" },
+    aliases: ["宁夏", "ningxia hui"],
+    polygons: [
+      [
+        [104.2, 37.6],
+        [105.2, 36.6],
+        [105.6, 35.7],
+        [106.4, 35.3],
+        [107, 36],
+        [107.4, 36.8],
+        [107.3, 37.9],
+        [106.8, 39.3],
+        [105.8, 38.2],
+      ],
+    ],
+  },
+  {
+    code: "CN-NM",
+    altCodes: ["150000", "NM"],
+    name: { en: "Inner Mongolia", zh: "内蒙古自治区" },
+    aliases: ["内蒙古", "内蒙", "nei mongol", "neimenggu"],
+    polygons: [
+      [
+        [97.2, 42.8],
+        [100.9, 42.6],
+        [105, 41.6],
+        [107, 42.4],
+        [109.5, 42.5],
+        [111.9, 43.7],
+        [113.6, 44.7],
+        [116, 45.7],
+        [117.4, 46.6],
+        [119.7, 47],
+        [118.5, 47.9],
+        [115.5, 47.8],
+        [117.8, 49.5],
+        [119.5, 50.3],
+        [120.8, 53.3],
+        [121.8, 51.8],
+        [124, 50.4],
+        [122.5, 49.5],
+        [122.5, 47.5],
+        [123.5, 46],
+        [121.8, 45.5],
+        [122, 44.5],
+        [123.3, 43.4],
+        [122.3, 43],
+        [120, 42.3],
+        [119.2, 41.1],
+        [117.4, 42.6],
+        [116, 42.2],
+        [114.5, 41.8],
+        [114.1, 40.7],
+        [113.8, 40.5],
+        [112.3, 40.3],
+        [111.5, 40.5],
+        [111.2, 39.6],
+        [109.5, 38.6],
+        [108, 37.7],
+        [107.3, 37.9],
+        [106.8, 39.3],
+        [105.8, 38.2],
+        [104.2, 37.6],
+        [104, 38.5],
+        [103.5, 39.3],
+        [101.7, 39.3],
+        [99, 40.5],
+      ],
+    ],
+  },
+  {
+    code: "CN-HL",
+    altCodes: ["230000", "HL"],
+    name: { en: "Heilongjiang", zh: "黑龙江省" },
+    polygons: [
+      [
+        [120.8, 53.3],
+        [122.4, 53.5],
+        [125.5, 53],
+        [127.5, 50],
+        [130.5, 48.9],
+        [132.5, 47.7],
+        [134.7, 48.3],
+        [133.9, 46.4],
+        [133.1, 45.1],
+        [131.8, 45.2],
+        [131, 43.5],
+        [129.8, 43.9],
+        [128.6, 44.2],
+        [127.5, 45],
+        [126.2, 45.2],
+        [124.8, 45.5],
+        [123.5, 46],
+        [122.5, 47.5],
+        [122.5, 49.5],
+        [124, 50.4],
+        [121.8, 51.8],
+      ],
+    ],
+  },
+  {
+    code: "CN-JL",
+    altCodes: ["220000", "JL"],
+    name: { en: "Jilin", zh: "吉林省" },
+    polygons: [
+      [
+        [123.5, 46],
+        [124.8, 45.5],
+        [126.2, 45.2],
+        [127.5, 45],
+        [128.6, 44.2],
+        [129.8, 43.9],
+        [131, 43.5],
+        [131.3, 42.9],
+        [130.6, 42.4],
+        [129.7, 42.4],
+        [128.1, 41.9],
+        [126.5, 41.4],
+        [125.7, 40.9],
+        [125.2, 42.1],
+        [124.3, 42.9],
+        [123.3, 43.4],
+        [122, 44.5],
+        [121.8, 45.5],
+      ],
+    ],
+  },
+  {
+    code: "CN-LN",
+    altCodes: ["210000", "LN"],
+    name: { en: "Liaoning", zh: "辽宁省" },
+    polygons: [
+      [
+        [119.2, 41.1],
+        [120, 42.3],
+        [122.3, 43],
+        [123.3, 43.4],
+        [124.3, 42.9],
+        [125.2, 42.1],
+        [125.7, 40.9],
+        [124.4, 40],
+        [123, 39.6],
+        [121.6, 38.8],
+        [121.3, 39.5],
+        [122.2, 40.6],
+        [121.3, 40.9],
+        [120.4, 40.3],
+        [119.8, 40],
+      ],
+    ],
+  },
+  {
+    code: "CN-HE",
+    altCodes: ["130000", "HE"],
+    name: { en: "Hebei", zh: "河北省" },
+    polygons: [
+      [
+        [114.1, 40.7],
+        [114.5, 41.8],
+        [116, 42.2],
+        [117.4, 42.6],
+        [119.2, 41.1],
+        [119.8, 40],
+        [119.2, 39.4],
+        [118.3, 39.1],
+        [117.7, 38.9],
+        [117.6, 38.4],
+        [117.8, 38.2],
+        [116.5, 37.6],
+        [115.6, 36.6],
+        [115.4, 36.1],
+        [114, 36.3],
+        [113.7, 36.4],
+        [113.5, 37.2],
+        [114.1, 38.2],
+        [113.8, 39],
+        [114, 39.9],
+      ],
+    ],
+  },
+  {
+    code: "CN-BJ",
+    altCodes: ["110000", "BJ"],
+    name: { en: "Beijing", zh: "北京市" },
+    aliases: ["peking"],
+    polygons: [
+      [
+        [115.5, 39.9],
+        [115.9, 40.6],
+        [116.6, 41.05],
+        [117.4, 40.6],
+        [117.2, 40.1],
+        [116.7, 39.6],
+        [116.2, 39.5],
+        [115.7, 39.6],
+      ],
+    ],
+  },
+  {
+    code: "CN-TJ",
+    altCodes: ["120000", "TJ"],
+    name: { en: "Tianjin", zh: "天津市" },
+    polygons: [
+      [
+        [117.2, 40.2],
+        [117.5, 40],
+        [117.8, 39.6],
+        [118, 39.2],
+        [117.6, 38.6],
+        [117, 38.6],
+        [116.8, 39],
+        [117.1, 39.6],
+      ],
+    ],
+  },
+  {
+    code: "CN-SX",
+    altCodes: ["140000", "SX"],
+    name: { en: "Shanxi", zh: "山西省" },
+    polygons: [
+      [
+        [111.2, 39.6],
+        [111.5, 40.5],
+        [112.3, 40.3],
+        [113.8, 40.5],
+        [114.1, 40.7],
+        [114, 39.9],
+        [113.8, 39],
+        [114.1, 38.2],
+        [113.5, 37.2],
+        [113.7, 36.4],
+        [113.6, 35.5],
+        [112.5, 35.1],
+        [111.5, 34.8],
+        [110.3, 34.6],
+        [110.5, 35.9],
+        [110.6, 37.5],
+        [110.9, 38.5],
+      ],
+    ],
+  },
+  {
+    code: "CN-SN",
+    altCodes: ["610000", "SN"],
+    name: { en: "Shaanxi", zh: "陕西省" },
+    aliases: ["shensi"],
+    polygons: [
+      [
+        [107.3, 37.9],
+        [108, 37.7],
+        [109.5, 38.6],
+        [111.2, 39.6],
+        [110.9, 38.5],
+        [110.6, 37.5],
+        [110.5, 35.9],
+        [110.3, 34.6],
+        [110.9, 34],
+        [111, 33.2],
+        [110.1, 32.6],
+        [109.8, 32],
+        [108.4, 32.2],
+        [107.4, 32.5],
+        [106, 32.8],
+        [105.6, 32.7],
+        [106.5, 33.2],
+        [106.6, 34.6],
+        [108.5, 35],
+        [108.7, 36.3],
+        [107.4, 36.8],
+      ],
+    ],
+  },
+  {
+    code: "CN-HA",
+    altCodes: ["410000", "HA"],
+    name: { en: "Henan", zh: "河南省" },
+    polygons: [
+      [
+        [110.3, 34.6],
+        [111.5, 34.8],
+        [112.5, 35.1],
+        [113.6, 35.5],
+        [113.7, 36.4],
+        [114, 36.3],
+        [115.4, 36.1],
+        [116, 35.1],
+        [116.4, 34.6],
+        [115.6, 34.1],
+        [115.3, 33.2],
+        [115.6, 32.4],
+        [115.6, 31.6],
+        [114.4, 31.6],
+        [113.8, 31.9],
+        [112.5, 32.4],
+        [111.6, 32.7],
+        [111, 33.2],
+        [110.9, 34],
+      ],
+    ],
+  },
+  {
+    code: "CN-SD",
+    altCodes: ["370000", "SD"],
+    name: { en: "Shandong", zh: "山东省" },
+    polygons: [
+      [
+        [117.8, 38.2],
+        [119.1, 37.8],
+        [118.9, 37.3],
+        [119.5, 37.1],
+        [120.3, 37.6],
+        [121.5, 37.8],
+        [122.7, 37.4],
+        [121.9, 36.9],
+        [120.7, 36.4],
+        [120.1, 36],
+        [119.2, 35],
+        [118.5, 34.6],
+        [117.2, 34.5],
+        [116.4, 34.6],
+        [116, 35.1],
+        [115.4, 36.1],
+        [115.6, 36.6],
+        [116.5, 37.6],
+      ],
+    ],
+  },
+  {
+    code: "CN-JS",
+    altCodes: ["320000", "JS"],
+    name: { en: "Jiangsu", zh: "江苏省" },
+    polygons: [
+      [
+        [119.2, 35],
+        [120.3, 34.2],
+        [120.9, 33],
+        [121.9, 31.8],
+        [121.1, 31.5],
+        [120.9, 31],
+        [119.6, 31.1],
+        [119.4, 31.2],
+        [118.7, 31.4],
+        [118.4, 32],
+        [118.8, 32.6],
+        [118.2, 33.2],
+        [117.4, 33.7],
+        [116.4, 34.6],
+        [117.2, 34.5],
+        [118.5, 34.6],
+      ],
+    ],
+  },
+  {
+    code: "CN-SH",
+    altCodes: ["310000", "SH"],
+    name: { en: "Shanghai", zh: "上海市" },
+    polygons: [
+      [
+        [120.9, 31],
+        [121.1, 31.5],
+        [121.4, 31.8],
+        [121.9, 31.7],
+        [122, 31.2],
+        [121.8, 30.9],
+        [121.3, 30.7],
+        [121, 30.8],
+      ],
+    ],
+  },
+  {
+    code: "CN-ZJ",
+    altCodes: ["330000", "ZJ"],
+    name: { en: "Zhejiang", zh: "浙江省" },
+    polygons: [
+      [
+        [120.9, 31],
+        [121.3, 30.7],
+        [120.9, 30.4],
+        [121.7, 30],
+        [121.9, 29],
+        [121.4, 28.3],
+        [120.8, 27.8],
+        [120.3, 27.1],
+        [119.6, 27.6],
+        [118.9, 27.9],
+        [118.4, 28.3],
+        [118.2, 29.4],
+        [118.9, 30.3],
+        [119.4, 31.2],
+        [119.6, 31.1],
+      ],
+    ],
+  },
+  {
+    code: "CN-AH",
+    altCodes: ["340000", "AH"],
+    name: { en: "Anhui", zh: "安徽省" },
+    polygons: [
+      [
+        [116.4, 34.6],
+        [117.4, 33.7],
+        [118.2, 33.2],
+        [118.8, 32.6],
+        [118.4, 32],
+        [118.7, 31.4],
+        [119.4, 31.2],
+        [118.9, 30.3],
+        [118.2, 29.4],
+        [117.5, 29.6],
+        [116.6, 29.8],
+        [116, 29.8],
+        [116.1, 30.4],
+        [115.6, 31],
+        [115.6, 31.6],
+        [115.6, 32.4],
+        [115.3, 33.2],
+        [115.6, 34.1],
+      ],
+    ],
+  },
+  {
+    code: "CN-FJ",
+    altCodes: ["350000", "FJ"],
+    name: { en: "Fujian", zh: "福建省" },
+    aliases: ["fukien"],
+    polygons: [
+      [
+        [120.3, 27.1],
+        [119.6, 26.2],
+        [119.4, 25.4],
+        [118.6, 24.6],
+        [117.8, 24.2],
+        [117.2, 23.6],
+        [116.6, 24.3],
+        [116, 24.9],
+        [116.5, 25.9],
+        [116.7, 26.5],
+        [117.4, 27.3],
+        [118, 27.8],
+        [118.4, 28.3],
+        [118.9, 27.9],
+        [119.6, 27.6],
+      ],
+    ],
+  },
+  {
+    code: "CN-JX",
+    altCodes: ["360000", "JX"],
+    name: { en: "Jiangxi", zh: "江西省" },
+    polygons: [
+      [
+        [118.4, 28.3],
+        [118, 27.8],
+        [117.4, 27.3],
+        [116.7, 26.5],
+        [116.5, 25.9],
+        [116, 24.9],
+        [115.3, 24.6],
+        [114.6, 24.6],
+        [114, 25.3],
+        [113.8, 26.2],
+        [114.1, 27],
+        [113.7, 27.6],
+        [114.1, 28.6],
+        [113.9, 29.1],
+        [114.9, 29.4],
+        [115.6, 29.8],
+        [116, 29.8],
+        [116.6, 29.8],
+        [117.5, 29.6],
+        [118.2, 29.4],
+      ],
+    ],
+  },
+  {
+    code: "CN-HB",
+    altCodes: ["420000", "HB"],
+    name: { en: "Hubei", zh: "湖北省" },
+    polygons: [
+      [
+        [111, 33.2],
+        [111.6, 32.7],
+        [112.5, 32.4],
+        [113.8, 31.9],
+        [114.4, 31.6],
+        [115.6, 31.6],
+        [115.6, 31],
+        [116.1, 30.4],
+        [116, 29.8],
+        [115.6, 29.8],
+        [114.9, 29.4],
+        [113.9, 29.1],
+        [112.6, 29.5],
+        [111.8, 29.8],
+        [110.6, 29.7],
+        [109.2, 29.2],
+        [108.4, 29.9],
+        [108.8, 30.8],
+        [110.1, 31.3],
+        [109.8, 32],
+        [110.1, 32.6],
+      ],
+    ],
+  },
+  {
+    code: "CN-HN",
+    altCodes: ["430000", "HN"],
+    name: { en: "Hunan", zh: "湖南省" },
+    polygons: [
+      [
+        [113.9, 29.1],
+        [114.1, 28.6],
+        [113.7, 27.6],
+        [114.1, 27],
+        [113.8, 26.2],
+        [114, 25.3],
+        [113, 25.2],
+        [111.9, 24.9],
+        [111.3, 25.2],
+        [110.8, 26],
+        [109.5, 26],
+        [109, 26.9],
+        [109.4, 27.6],
+        [109.1, 28.3],
+        [109.4, 28.7],
+        [109.2, 29.2],
+        [110.6, 29.7],
+        [111.8, 29.8],
+        [112.6, 29.5],
+      ],
+    ],
+  },
+  {
+    code: "CN-GD",
+    altCodes: ["440000", "GD"],
+    name: { en: "Guangdong", zh: "广东省" },
+    aliases: ["canton"],
+    polygons: [
+      [
+        [117.2, 23.6],
+        [116.5, 22.9],
+        [115.2, 22.8],
+        [114.5, 22.6],
+        [114, 22.5],
+        [113.6, 22.7],
+        [113.5, 22.2],
+        [113, 21.9],
+        [112, 21.7],
+        [111, 21.4],
+        [110.4, 21.2],
+        [110.3, 20.3],
+        [109.9, 20.8],
+        [109.8, 21.6],
+        [110.3, 22.2],
+        [110.8, 22.8],
+        [111.4, 23.6],
+        [111.6, 24.4],
+        [111.9, 24.9],
+        [113, 25.2],
+        [114, 25.3],
+        [114.6, 24.6],
+        [115.3, 24.6],
+        [116, 24.9],
+        [116.6, 24.3],
+      ],
+    ],
+  },
+  {
+    code: "CN-GX",
+    altCodes: ["450000", "GX"],
+    name: { en: "Guangxi", zh: "广西壮族自治区" },
+    aliases: ["广西", "guangxi zhuang"],
+    polygons: [
+      [
+        [109.8, 21.6],
+        [109.1, 21.5],
+        [108.5, 21.7],
+        [108, 21.5],
+        [107.3, 22],
+        [106.7, 22],
+        [106.6, 22.9],
+        [105.6, 23.3],
+        [105.1, 24],
+        [104.7, 24.6],
+        [105.5, 24.8],
+        [106.2, 25],
+        [107.4, 25.3],
+        [108.6, 25.6],
+        [109.5, 26],
+        [110.8, 26],
+        [111.3, 25.2],
+        [111.9, 24.9],
+        [111.6, 24.4],
+        [111.4, 23.6],
+        [110.8, 22.8],
+        [110.3, 22.2],
+      ],
+    ],
+  },
+  {
+    code: "CN-HI",
+    altCodes: ["460000", "HI"],
+    name: { en: "Hainan", zh: "海南省" },
+    polygons: [
+      [
+        [108.6, 19.2],
+        [108.7, 18.5],
+        [109.5, 18.2],
+        [110.1, 18.4],
+        [110.6, 19.1],
+        [111, 19.6],
+        [110.7, 20.1],
+        [110, 20.1],
+        [109.2, 19.8],
+      ],
+    ],
+  },
+  {
+    code: "CN-YN",
+    altCodes: ["530000", "YN"],
+    name: { en: "Yunnan", zh: "云南省" },
+    polygons: [
+      [
+        [98.3, 27.6],
+        [99, 28.2],
+        [99.5, 28.2],
+        [100.4, 27.8],
+        [101.2, 27],
+        [102, 26.2],
+        [102.7, 26.6],
+        [103.3, 27.6],
+        [103.9, 28.2],
+        [104.9, 27.8],
+        [104.3, 26.7],
+        [104.5, 25.8],
+        [104.7, 24.6],
+        [105.1, 24],
+        [105.6, 23.3],
+        [104.5, 22.8],
+        [103.6, 22.8],
+        [102.5, 22.5],
+        [101.8, 22.5],
+        [101.6, 21.2],
+        [100.8, 21.5],
+        [100.1, 21.7],
+        [99.3, 22.1],
+        [99.5, 22.9],
+        [98.8, 23.9],
+        [97.6, 24],
+        [97.7, 24.8],
+        [98.6, 25.9],
+        [98.7, 27],
+      ],
+    ],
+  },
+  {
+    code: "CN-GZ",
+    altCodes: ["520000", "GZ"],
+    name: { en: "Guizhou", zh: "贵州省" },
+    aliases: ["kweichow"],
+    polygons: [
+      [
+        [104.9, 27.8],
+        [104.3, 26.7],
+        [104.5, 25.8],
+        [104.7, 24.6],
+        [105.5, 24.8],
+        [106.2, 25],
+        [107.4, 25.3],
+        [108.6, 25.6],
+        [109.5, 26],
+        [109, 26.9],
+        [109.4, 27.6],
+        [109.1, 28.3],
+        [108.6, 28.6],
+        [107.9, 29.1],
+        [107.2, 28.8],
+        [106.5, 28.6],
+        [106, 28.3],
+        [105.6, 28],
+      ],
+    ],
+  },
+  {
+    code: "CN-CQ",
+    altCodes: ["500000", "CQ"],
+    name: { en: "Chongqing", zh: "重庆市" },
+    aliases: ["chungking"],
+    polygons: [
+      [
+        [106, 28.3],
+        [106.5, 28.6],
+        [107.2, 28.8],
+        [107.9, 29.1],
+        [108.6, 28.6],
+        [109.1, 28.3],
+        [109.4, 28.7],
+        [109.2, 29.2],
+        [108.4, 29.9],
+        [108.8, 30.8],
+        [110.1, 31.3],
+        [109.8, 32],
+        [108.4, 32.2],
+        [107.9, 31.5],
+        [107.3, 30.7],
+        [106.7, 30.3],
+        [106.2, 30.2],
+        [105.6, 29.8],
+        [105.4, 29.3],
+        [105.9, 28.8],
+      ],
+    ],
+  },
+  {
+    code: "CN-SC",
+    altCodes: ["510000", "SC"],
+    name: { en: "Sichuan", zh: "四川省" },
+    aliases: ["szechuan", "szechwan"],
+    polygons: [
+      [
+        [98.3, 32.3],
+        [99, 33.2],
+        [100.5, 32.6],
+        [101.8, 33.8],
+        [103, 33.6],
+        [104.3, 33],
+        [105.6, 32.7],
+        [106, 32.8],
+        [107.4, 32.5],
+        [108.4, 32.2],
+        [107.9, 31.5],
+        [107.3, 30.7],
+        [106.7, 30.3],
+        [106.2, 30.2],
+        [105.6, 29.8],
+        [105.4, 29.3],
+        [105.9, 28.8],
+        [106, 28.3],
+        [105.6, 28],
+        [104.9, 27.8],
+        [103.9, 28.2],
+        [103.3, 27.6],
+        [102.7, 26.6],
+        [102, 26.2],
+        [101.2, 27],
+        [100.4, 27.8],
+        [99.5, 28.2],
+        [99, 28.2],
+        [98.8, 30.5],
+      ],
+    ],
+  },
+  {
+    code: "CN-TW",
+    altCodes: ["710000", "TW"],
+    name: { en: "Taiwan", zh: "台湾省" },
+    aliases: ["台湾", "臺灣", "taiwan province"],
+    polygons: [
+      [
+        [120.1, 23],
+        [120.7, 22],
+        [120.9, 22.3],
+        [121.5, 23.5],
+        [121.9, 24.6],
+        [121.6, 25.3],
+        [121, 25.1],
+        [120.2, 23.8],
+      ],
+    ],
+  },
+  {
+    code: "CN-HK",
+    altCodes: ["810000", "HK"],
+    name: { en: "Hong Kong", zh: "香港特别行政区" },
+    aliases: ["香港", "hongkong", "hksar"],
+    polygons: [
+      [
+        [113.85, 22.2],
+        [113.9, 22.5],
+        [114.1, 22.55],
+        [114.4, 22.55],
+        [114.45, 22.3],
+        [114.3, 22.15],
+        [114, 22.15],
+      ],
+    ],
+  },
+  {
+    code: "CN-MO",
+    altCodes: ["820000", "MO"],
+    name: { en: "Macau", zh: "澳门特别行政区" },
+    aliases: ["澳门", "macao", "masar"],
+    polygons: [
+      [
+        [113.52, 22.1],
+        [113.53, 22.22],
+        [113.6, 22.22],
+        [113.62, 22.12],
+        [113.58, 22.07],
+      ],
+    ],
+  },
+];
@@ -0,0 +1,2930 @@
+/**
+ * 世界国家/地区边界（离线内置）
+ * 低精度示意轮廓，坐标为 [经度, 纬度]，仅收录常见国家；
+ * code 使用 ISO 3166-1 alpha-3，altCodes 为 alpha-2。
+ */
+
+import type { GeoRegion } from "@/lib/geo-regions";
+
+export const WORLD_COUNTRIES: GeoRegion[] = [
+  // 北美洲
+  {
+    code: "USA",
+    altCodes: ["US"],
+    name: { en: "United States", zh: "美国" },
+    aliases: ["united states of america", "america", "u.s.", "u.s.a.", "美利坚合众国"],
+    polygons: [
+      [
+        [-124.7, 48.4],
+        [-123, 46],
+        [-124.2, 42],
+        [-120.5, 34.5],
+        [-117.1, 32.5],
+        [-114.7, 32.7],
+        [-111, 31.3],
+        [-108.2, 31.8],
+        [-106.5, 31.8],
+        [-104.5, 29.7],
+        [-103, 29],
+        [-100.9, 29.4],
+        [-99.5, 26.5],
+        [-97.1, 25.9],
+        [-97.4, 27.8],
+        [-94, 29.6],
+        [-89.6, 29.2],
+        [-88, 30.7],
+        [-84.9, 29.7],
+        [-82.6, 27.4],
+        [-81, 25.2],
+        [-80, 26.8],
+        [-81.4, 30.7],
+        [-75.5, 35.2],
+        [-76, 37],
+        [-74, 40.6],
+        [-70, 41.7],
+        [-70.7, 43.1],
+        [-67, 44.8],
+        [-67.8, 47.1],
+        [-69.2, 47.4],
+        [-71.5, 45],
+        [-74.7, 45],
+        [-76.8, 43.6],
+        [-79, 43.3],
+        [-82.5, 41.7],
+        [-82.4, 43],
+        [-84.6, 46.5],
+        [-88.4, 48.3],
+        [-95.2, 49],
+        [-123, 49],
+      ],
+      [
+        [-141, 69.6],
+        [-156.8, 71.3],
+        [-166, 68.8],
+        [-162, 66.3],
+        [-165, 62.5],
+        [-161.5, 58.6],
+        [-157, 58.8],
+        [-152, 60.5],
+        [-147, 60.8],
+        [-141, 60],
+      ],
+    ],
+  },
+  {
+    code: "CAN",
+    altCodes: ["CA"],
+    name: { en: "Canada", zh: "加拿大" },
+    polygons: [
+      [
+        [-141, 69.6],
+        [-135, 69.5],
+        [-128, 70.2],
+        [-117, 69],
+        [-108, 68.5],
+        [-95, 68],
+        [-88, 68.5],
+        [-82, 66.5],
+        [-86, 64],
+        [-93, 61.5],
+        [-94.8, 59],
+        [-92.5, 57],
+        [-88, 55.5],
+        [-82.3, 52.9],
+        [-79.5, 51.5],
+        [-78.5, 55.5],
+        [-77, 60.5],
+        [-78, 62.3],
+        [-73, 62],
+        [-69.5, 58.8],
+        [-64.5, 60.3],
+        [-61.5, 56],
+        [-57, 52],
+        [-59.5, 48],
+        [-64.5, 46],
+        [-66, 45],
+        [-67, 44.8],
+        [-67.8, 47.1],
+        [-69.2, 47.4],
+        [-71.5, 45],
+        [-74.7, 45],
+        [-76.8, 43.6],
+        [-79, 43.3],
+        [-82.5, 41.7],
+        [-82.4, 43],
+        [-84.6, 46.5],
+        [-88.4, 48.3],
+        [-95.2, 49],
+        [-123, 49],
+        [-124.7, 48.4],
+        [-128, 51],
+        [-130.5, 54.7],
+        [-133.5, 58.5],
+        [-137.5, 59],
+        [-141, 60],
+      ],
+      [
+        [-90, 71.5],
+        [-80, 73.5],
+        [-72, 71.5],
+        [-62, 66.5],
+        [-65, 62.8],
+        [-73, 64.5],
+        [-78, 65],
+        [-85, 69],
+      ],
+      [
+        [-120, 71.5],
+        [-110, 73.5],
+        [-100, 72.5],
+        [-102, 69],
+        [-112, 68.5],
+        [-119, 69.5],
+      ],
+    ],
+  },
+  {
+    code: "GRL",
+    altCodes: ["GL"],
+    name: { en: "Greenland", zh: "格陵兰" },
+    polygons: [
+      [
+        [-73, 78.3],
+        [-60, 82],
+        [-30, 83.5],
+        [-20, 81],
+        [-18, 76],
+        [-22, 70],
+        [-32, 68],
+        [-40, 65],
+        [-43, 60],
+        [-48, 61],
+        [-53, 66],
+        [-55, 71],
+        [-66, 76],
+      ],
+    ],
+  },
+  {
+    code: "MEX",
+    altCodes: ["MX"],
+    name: { en: "Mexico", zh: "墨西哥" },
+    aliases: ["méxico", "united mexican states"],
+    polygons: [
+      [
+        [-117.1, 32.5],
+        [-116, 30],
+        [-114.2, 28],
+        [-112, 25],
+        [-109.9, 22.9],
+        [-110.5, 24.2],
+        [-112.8, 28.5],
+        [-114.8, 31.5],
+        [-112.8, 30.5],
+        [-110, 27],
+        [-108, 25],
+        [-105.6, 23],
+        [-105.3, 20.5],
+        [-102, 18],
+        [-97, 15.9],
+        [-94.5, 16.2],
+        [-92.2, 14.5],
+        [-92, 17.8],
+        [-89.2, 17.8],
+        [-88.3, 18.5],
+        [-87.5, 20.5],
+        [-87, 21.5],
+        [-90.4, 21.1],
+        [-90.5, 19.5],
+        [-92, 18.6],
+        [-94.5, 18.2],
+        [-96, 19],
+        [-97.6, 21.5],
+        [-97.8, 24],
+        [-97.1, 25.9],
+        [-99.5, 26.5],
+        [-100.9, 29.4],
+        [-103, 29],
+        [-104.5, 29.7],
+        [-106.5, 31.8],
+        [-108.2, 31.8],
+        [-111, 31.3],
+        [-114.7, 32.7],
+      ],
+    ],
+  },
+  {
+    code: "CUB",
+    altCodes: ["CU"],
+    name: { en: "Cuba", zh: "古巴" },
+    polygons: [
+      [
+        [-84.9, 21.9],
+        [-82.3, 23.2],
+        [-80.5, 23],
+        [-77.5, 21.8],
+        [-74.2, 20.3],
+        [-77.7, 19.9],
+        [-78.7, 21.6],
+        [-81.8, 22.2],
+      ],
+    ],
+  },
+  // 南美洲
+  {
+    code: "BRA",
+    altCodes: ["BR"],
+    name: { en: "Brazil", zh: "巴西" },
+    aliases: ["brasil"],
+    polygons: [
+      [
+        [-60, 5.2],
+        [-51.6, 4.2],
+        [-50, 1.8],
+        [-48.5, -1],
+        [-44, -2.5],
+        [-39, -3],
+        [-35.2, -5.5],
+        [-35, -9],
+        [-38.5, -13],
+        [-39.2, -17.8],
+        [-41, -22],
+        [-44.5, -23.2],
+        [-48.6, -26],
+        [-48.6, -28.5],
+        [-53.4, -33.7],
+        [-57.6, -30.2],
+        [-53.8, -27.1],
+        [-54.6, -25.6],
+        [-58.2, -19.8],
+        [-60.2, -16.3],
+        [-65.3, -10],
+        [-70.5, -11],
+        [-73.2, -9.4],
+        [-74, -7.3],
+        [-70, -4.3],
+        [-69.5, -1],
+        [-70, 1.5],
+        [-67, 2],
+        [-64.2, 1.4],
+        [-64, 4],
+        [-61, 4.5],
+      ],
+    ],
+  },
+  {
+    code: "ARG",
+    altCodes: ["AR"],
+    name: { en: "Argentina", zh: "阿根廷" },
+    polygons: [
+      [
+        [-53.6, -26.2],
+        [-57.6, -30.2],
+        [-58.4, -33.1],
+        [-57, -35.7],
+        [-57.5, -38.2],
+        [-62.2, -38.8],
+        [-65, -41],
+        [-64.3, -42.5],
+        [-67.5, -46],
+        [-65.8, -47.8],
+        [-69.2, -52],
+        [-68.4, -52.4],
+        [-71.5, -52],
+        [-72.5, -51.5],
+        [-73.5, -49],
+        [-72, -46],
+        [-71.7, -42],
+        [-71, -38],
+        [-70.3, -33],
+        [-69.8, -30],
+        [-68.5, -27],
+        [-68.2, -24],
+        [-67, -22.8],
+        [-65, -22],
+        [-62.8, -22],
+        [-60, -23.9],
+        [-57.8, -25.2],
+        [-54.6, -25.6],
+      ],
+    ],
+  },
+  {
+    code: "CHL",
+    altCodes: ["CL"],
+    name: { en: "Chile", zh: "智利" },
+    polygons: [
+      [
+        [-70.3, -18.3],
+        [-69, -19],
+        [-68.2, -21.5],
+        [-67, -22.8],
+        [-68.2, -24],
+        [-68.5, -27],
+        [-69.8, -30],
+        [-70.3, -33],
+        [-71, -38],
+        [-71.7, -42],
+        [-72, -46],
+        [-73.5, -49],
+        [-72.5, -51.5],
+        [-71.5, -52],
+        [-68.4, -52.4],
+        [-69, -55.5],
+        [-74.5, -52.5],
+        [-75.6, -48],
+        [-74, -43],
+        [-73.5, -37],
+        [-71.7, -30],
+        [-70.6, -23],
+      ],
+    ],
+  },
+  {
+    code: "PER",
+    altCodes: ["PE"],
+    name: { en: "Peru", zh: "秘鲁" },
+    aliases: ["perú"],
+    polygons: [
+      [
+        [-80.3, -3.4],
+        [-81.3, -4.5],
+        [-79.8, -7],
+        [-77, -12],
+        [-76, -14],
+        [-72, -17],
+        [-70.3, -18.3],
+        [-69.5, -17.5],
+        [-69, -15],
+        [-69.6, -11],
+        [-70.5, -11],
+        [-73.2, -9.4],
+        [-74, -7.3],
+        [-70, -4.3],
+        [-70.1, -2.7],
+        [-73.7, -1.3],
+        [-75.2, -0.1],
+        [-78.3, -3.4],
+      ],
+    ],
+  },
+  {
+    code: "COL",
+    altCodes: ["CO"],
+    name: { en: "Colombia", zh: "哥伦比亚" },
+    polygons: [
+      [
+        [-77.4, 8.7],
+        [-75.5, 10.6],
+        [-71.9, 12.4],
+        [-71.3, 11],
+        [-72.3, 8],
+        [-70, 7],
+        [-67.5, 6.2],
+        [-67.8, 2.8],
+        [-67, 2],
+        [-70, 1.5],
+        [-69.5, -1],
+        [-70.1, -2.7],
+        [-73.7, -1.3],
+        [-75.2, -0.1],
+        [-77.7, 0.8],
+        [-79, 1.7],
+        [-77.3, 4],
+        [-77.5, 7],
+      ],
+    ],
+  },
+  {
+    code: "VEN",
+    altCodes: ["VE"],
+    name: { en: "Venezuela", zh: "委内瑞拉" },
+    polygons: [
+      [
+        [-71.9, 12.4],
+        [-68.5, 11.2],
+        [-64, 10.6],
+        [-61, 10.7],
+        [-60, 8.5],
+        [-60.7, 7],
+        [-60.2, 5.2],
+        [-63, 3.9],
+        [-64, 4],
+        [-64.2, 1.4],
+        [-67, 2],
+        [-67.8, 2.8],
+        [-67.5, 6.2],
+        [-70, 7],
+        [-72.3, 8],
+        [-71.3, 11],
+      ],
+    ],
+  },
+  {
+    code: "BOL",
+    altCodes: ["BO"],
+    name: { en: "Bolivia", zh: "玻利维亚" },
+    polygons: [
+      [
+        [-69.6, -11],
+        [-65.3, -10],
+        [-62, -13.5],
+        [-60.2, -16.3],
+        [-58.2, -19.8],
+        [-62.8, -22],
+        [-65, -22],
+        [-67, -22.8],
+        [-68.2, -21.5],
+        [-69, -19],
+        [-69.5, -17.5],
+        [-69, -15],
+      ],
+    ],
+  },
+  {
+    code: "ECU",
+    altCodes: ["EC"],
+    name: { en: "Ecuador", zh: "厄瓜多尔" },
+    polygons: [
+      [
+        [-80.3, -3.4],
+        [-78.3, -3.4],
+        [-75.2, -0.1],
+        [-77.7, 0.8],
+        [-79, 1.7],
+        [-80.1, 0.4],
+        [-80.9, -1.9],
+      ],
+    ],
+  },
+  {
+    code: "URY",
+    altCodes: ["UY"],
+    name: { en: "Uruguay", zh: "乌拉圭" },
+    polygons: [
+      [
+        [-58.4, -33.1],
+        [-57.6, -30.2],
+        [-53.4, -33.7],
+        [-54.9, -34.9],
+        [-58.4, -34.5],
+      ],
+    ],
+  },
+  // 欧洲
+  {
+    code: "GBR",
+    altCodes: ["GB", "UK"],
+    name: { en: "United Kingdom", zh: "英国" },
+    aliases: [
+      "great britain",
+      "britain",
+      "england",
+      "united kingdom of great britain and northern ireland",
+    ],
+    polygons: [
+      [
+        [-5.7, 50],
+        [-3, 50.6],
+        [1.4, 51.2],
+        [1.7, 52.7],
+        [0, 53.5],
+        [-1.6, 55.5],
+        [-2, 57.6],
+        [-3, 58.6],
+        [-5, 58.6],
+        [-6.2, 56.5],
+        [-5, 55],
+        [-3, 54.9],
+        [-3.2, 53.4],
+        [-4.6, 52.8],
+        [-5.3, 51.8],
+        [-3.2, 51.4],
+      ],
+      [
+        [-5.4, 54.3],
+        [-6.2, 55.2],
+        [-7.3, 55.2],
+        [-8.1, 54.6],
+        [-6.6, 54],
+      ],
+    ],
+  },
+  {
+    code: "IRL",
+    altCodes: ["IE"],
+    name: { en: "Ireland", zh: "爱尔兰" },
+    polygons: [
+      [
+        [-6.2, 53.3],
+        [-6.6, 54],
+        [-8.1, 54.6],
+        [-7.3, 55.2],
+        [-8.5, 55],
+        [-10, 54.2],
+        [-9.8, 53],
+        [-10.4, 51.8],
+        [-8, 51.6],
+        [-6.3, 52.2],
+      ],
+    ],
+  },
+  {
+    code: "FRA",
+    altCodes: ["FR"],
+    name: { en: "France", zh: "法国" },
+    polygons: [
+      [
+        [2.5, 51.1],
+        [4.2, 50],
+        [5.8, 49.5],
+        [6.4, 49.5],
+        [8.2, 49],
+        [7.6, 47.6],
+        [6, 46.2],
+        [7, 45.9],
+        [7, 45.3],
+        [7.5, 43.8],
+        [6.2, 43.1],
+        [4.5, 43.4],
+        [3, 42.5],
+        [1.5, 42.5],
+        [-1.8, 43.4],
+        [-1.2, 46.2],
+        [-2.2, 47.2],
+        [-4.6, 48],
+        [-4.5, 48.6],
+        [-1.8, 48.7],
+        [-1.4, 49.7],
+        [0.2, 49.7],
+        [1.6, 50.2],
+      ],
+    ],
+  },
+  {
+    code: "ESP",
+    altCodes: ["ES"],
+    name: { en: "Spain", zh: "西班牙" },
+    aliases: ["españa"],
+    polygons: [
+      [
+        [-1.8, 43.4],
+        [1.5, 42.5],
+        [3.2, 41.9],
+        [0.8, 41],
+        [-0.3, 39.4],
+        [0.2, 38.7],
+        [-0.8, 37.6],
+        [-2.1, 36.7],
+        [-4.4, 36.7],
+        [-5.6, 36],
+        [-6.4, 36.8],
+        [-7.4, 37.2],
+        [-7, 38.2],
+        [-7.3, 39.5],
+        [-6.9, 41],
+        [-8.1, 41.8],
+        [-8.9, 42],
+        [-9.3, 43],
+        [-7.7, 43.8],
+        [-4.5, 43.4],
+      ],
+    ],
+  },
+  {
+    code: "PRT",
+    altCodes: ["PT"],
+    name: { en: "Portugal", zh: "葡萄牙" },
+    polygons: [
+      [
+        [-8.9, 42],
+        [-8.1, 41.8],
+        [-6.9, 41],
+        [-7.3, 39.5],
+        [-7, 38.2],
+        [-7.4, 37.2],
+        [-8.9, 37],
+        [-8.8, 38.7],
+        [-9.5, 39],
+        [-8.7, 40.6],
+      ],
+    ],
+  },
+  {
+    code: "DEU",
+    altCodes: ["DE"],
+    name: { en: "Germany", zh: "德国" },
+    aliases: ["deutschland"],
+    polygons: [
+      [
+        [6, 53.5],
+        [8.6, 53.9],
+        [9, 54.8],
+        [11, 54],
+        [14.2, 53.9],
+        [14.6, 52.6],
+        [15, 51.1],
+        [12.2, 50.3],
+        [13.8, 48.8],
+        [13, 47.5],
+        [10.5, 47.5],
+        [9.6, 47.5],
+        [8.6, 47.8],
+        [7.6, 47.6],
+        [8.2, 49],
+        [6.4, 49.5],
+        [6.1, 50.8],
+        [6, 52],
+        [7, 52.3],
+        [7.1, 53.2],
+      ],
+    ],
+  },
+  {
+    code: "NLD",
+    altCodes: ["NL"],
+    name: { en: "Netherlands", zh: "荷兰" },
+    aliases: ["holland", "the netherlands"],
+    polygons: [
+      [
+        [3.4, 51.4],
+        [4.3, 51.4],
+        [5.9, 51],
+        [6.1, 50.8],
+        [6, 52],
+        [7, 52.3],
+        [7.1, 53.2],
+        [6, 53.5],
+        [4.7, 52.9],
+        [4.1, 52],
+      ],
+    ],
+  },
+  {
+    code: "BEL",
+    altCodes: ["BE"],
+    name: { en: "Belgium", zh: "比利时" },
+    polygons: [
+      [
+        [2.5, 51.1],
+        [3.4, 51.4],
+        [4.3, 51.4],
+        [5.9, 51],
+        [6.1, 50.8],
+        [6.4, 49.5],
+        [5.8, 49.5],
+        [4.2, 50],
+      ],
+    ],
+  },
+  {
+    code: "CHE",
+    altCodes: ["CH"],
+    name: { en: "Switzerland", zh: "瑞士" },
+    polygons: [
+      [
+        [6, 46.2],
+        [7.6, 47.6],
+        [8.6, 47.8],
+        [9.6, 47.5],
+        [10.5, 46.8],
+        [10, 46.2],
+        [9, 45.8],
+        [7, 45.9],
+      ],
+    ],
+  },
+  {
+    code: "AUT",
+    altCodes: ["AT"],
+    name: { en: "Austria", zh: "奥地利" },
+    polygons: [
+      [
+        [9.6, 47.5],
+        [10.5, 47.5],
+        [13, 47.5],
+        [13.8, 48.8],
+        [15, 49],
+        [16.9, 48.6],
+        [17.1, 48],
+        [16.1, 46.8],
+        [13.7, 46.5],
+        [12.2, 47],
+        [10.5, 46.8],
+      ],
+    ],
+  },
+  {
+    code: "ITA",
+    altCodes: ["IT"],
+    name: { en: "Italy", zh: "意大利" },
+    aliases: ["italia"],
+    polygons: [
+      [
+        [7, 45.9],
+        [9, 45.8],
+        [10, 46.2],
+        [10.5, 46.8],
+        [12.2, 47],
+        [13.7, 46.5],
+        [13.6, 45.7],
+        [12.3, 45.3],
+        [12.3, 44.3],
+        [14, 42.6],
+        [16.2, 41.9],
+        [18.5, 40.2],
+        [17.2, 39.2],
+        [16.5, 38.4],
+        [15.6, 38],
+        [15.7, 40],
+        [14, 40.8],
+        [12.2, 41.8],
+        [10.2, 43.9],
+        [8.6, 44.3],
+        [7.5, 43.8],
+        [7, 45.3],
+      ],
+      [
+        [12.4, 37.8],
+        [15.6, 38.3],
+        [15.1, 36.7],
+      ],
+      [
+        [8.4, 39],
+        [9.6, 39.2],
+        [9.8, 40.9],
+        [8.2, 41],
+      ],
+    ],
+  },
+  {
+    code: "POL",
+    altCodes: ["PL"],
+    name: { en: "Poland", zh: "波兰" },
+    aliases: ["polska"],
+    polygons: [
+      [
+        [14.2, 53.9],
+        [18.5, 54.8],
+        [22.8, 54.4],
+        [23.5, 53.9],
+        [24, 52.3],
+        [23.6, 51.5],
+        [24, 50.4],
+        [22.6, 49.1],
+        [19.5, 49.5],
+        [18.9, 49.5],
+        [16.9, 50.4],
+        [15, 51.1],
+        [14.6, 52.6],
+      ],
+    ],
+  },
+  {
+    code: "CZE",
+    altCodes: ["CZ"],
+    name: { en: "Czechia", zh: "捷克" },
+    aliases: ["czech republic"],
+    polygons: [
+      [
+        [12.2, 50.3],
+        [15, 51.1],
+        [16.9, 50.4],
+        [18.9, 49.5],
+        [17.1, 48.8],
+        [16.9, 48.6],
+        [15, 49],
+        [13.8, 48.8],
+      ],
+    ],
+  },
+  {
+    code: "SVK",
+    altCodes: ["SK"],
+    name: { en: "Slovakia", zh: "斯洛伐克" },
+    polygons: [
+      [
+        [16.9, 48.6],
+        [17.1, 48.8],
+        [18.9, 49.5],
+        [19.5, 49.5],
+        [22.6, 49.1],
+        [22.1, 48.4],
+        [18.8, 47.8],
+        [17.1, 48],
+      ],
+    ],
+  },
+  {
+    code: "HUN",
+    altCodes: ["HU"],
+    name: { en: "Hungary", zh: "匈牙利" },
+    polygons: [
+      [
+        [16.1, 46.8],
+        [17.1, 48],
+        [18.8, 47.8],
+        [22.1, 48.4],
+        [22.9, 47.9],
+        [21, 46.3],
+        [20.3, 46.1],
+        [18.8, 45.9],
+        [16.5, 46.5],
+      ],
+    ],
+  },
+  {
+    code: "DNK",
+    altCodes: ["DK"],
+    name: { en: "Denmark", zh: "丹麦" },
+    polygons: [
+      [
+        [8.1, 55.5],
+        [8.2, 56.8],
+        [9.5, 57.1],
+        [10.6, 57.7],
+        [10.3, 56.2],
+        [9.6, 55.5],
+        [9.8, 54.9],
+        [9, 54.8],
+      ],
+      [
+        [11.1, 55.7],
+        [12.6, 56],
+        [12.4, 55.2],
+        [11.2, 55.2],
+      ],
+    ],
+  },
+  {
+    code: "NOR",
+    altCodes: ["NO"],
+    name: { en: "Norway", zh: "挪威" },
+    polygons: [
+      [
+        [5, 62],
+        [5.2, 59.5],
+        [7, 58],
+        [8.5, 58.2],
+        [10.5, 59.3],
+        [11.4, 59],
+        [12.4, 60.5],
+        [12.2, 62.8],
+        [14, 64.5],
+        [15.5, 66.2],
+        [18, 68.5],
+        [20.5, 69],
+        [25, 68.6],
+        [29, 69.7],
+        [31, 70.3],
+        [28, 71.1],
+        [23.5, 70.8],
+        [18.5, 70],
+        [14, 68.3],
+        [12.5, 66],
+        [10, 64],
+        [7, 63],
+      ],
+    ],
+  },
+  {
+    code: "SWE",
+    altCodes: ["SE"],
+    name: { en: "Sweden", zh: "瑞典" },
+    polygons: [
+      [
+        [11.4, 59],
+        [11.2, 58.3],
+        [12.8, 56.2],
+        [14.5, 55.5],
+        [16.4, 56.5],
+        [16.6, 57.9],
+        [18.5, 59.3],
+        [17.2, 60.7],
+        [17.4, 62.3],
+        [19.8, 63.6],
+        [21.5, 65.4],
+        [24, 65.8],
+        [23.5, 67.9],
+        [20.5, 69],
+        [18, 68.5],
+        [15.5, 66.2],
+        [14, 64.5],
+        [12.2, 62.8],
+        [12.4, 60.5],
+      ],
+    ],
+  },
+  {
+    code: "FIN",
+    altCodes: ["FI"],
+    name: { en: "Finland", zh: "芬兰" },
+    aliases: ["suomi"],
+    polygons: [
+      [
+        [21.5, 60.7],
+        [22.9, 59.9],
+        [26, 60.4],
+        [28.7, 60.5],
+        [30.1, 61.5],
+        [29.5, 64],
+        [30, 67.5],
+        [28.9, 69],
+        [29, 69.7],
+        [25, 68.6],
+        [20.5, 69],
+        [23.5, 67.9],
+        [24, 65.8],
+        [25.3, 65.1],
+        [21.5, 63.2],
+        [21.3, 61.9],
+      ],
+    ],
+  },
+  {
+    code: "EST",
+    altCodes: ["EE"],
+    name: { en: "Estonia", zh: "爱沙尼亚" },
+    polygons: [
+      [
+        [23.5, 58.5],
+        [23.4, 59.2],
+        [25.6, 59.6],
+        [28, 59.5],
+        [27.6, 57.8],
+        [25.6, 57.9],
+        [24.3, 57.9],
+        [24, 58.4],
+      ],
+    ],
+  },
+  {
+    code: "LVA",
+    altCodes: ["LV"],
+    name: { en: "Latvia", zh: "拉脱维亚" },
+    polygons: [
+      [
+        [21, 56],
+        [21, 57.5],
+        [22.6, 57.8],
+        [24.4, 57.2],
+        [24.3, 57.9],
+        [25.6, 57.9],
+        [27.6, 57.8],
+        [28.2, 56.1],
+        [26.6, 55.7],
+        [25, 56.3],
+        [22, 56.4],
+      ],
+    ],
+  },
+  {
+    code: "LTU",
+    altCodes: ["LT"],
+    name: { en: "Lithuania", zh: "立陶宛" },
+    polygons: [
+      [
+        [21, 56],
+        [22, 56.4],
+        [25, 56.3],
+        [26.6, 55.7],
+        [26.8, 55.3],
+        [25.8, 54.2],
+        [23.5, 53.9],
+        [22.8, 54.4],
+        [21.3, 55.2],
+      ],
+    ],
+  },
+  {
+    code: "BLR",
+    altCodes: ["BY"],
+    name: { en: "Belarus", zh: "白俄罗斯" },
+    polygons: [
+      [
+        [23.5, 53.9],
+        [25.8, 54.2],
+        [26.8, 55.3],
+        [28.2, 56.1],
+        [30.8, 55.6],
+        [32.7, 53.4],
+        [31.8, 52.1],
+        [30.5, 51.3],
+        [25.5, 51.9],
+        [23.6, 51.5],
+        [24, 52.3],
+      ],
+    ],
+  },
+  {
+    code: "UKR",
+    altCodes: ["UA"],
+    name: { en: "Ukraine", zh: "乌克兰" },
+    polygons: [
+      [
+        [22.1, 48.4],
+        [22.6, 49.1],
+        [24, 50.4],
+        [23.6, 51.5],
+        [25.5, 51.9],
+        [30.5, 51.3],
+        [31.8, 52.1],
+        [34, 52],
+        [35.5, 50.4],
+        [38, 50.3],
+        [40, 49.6],
+        [39.8, 47.9],
+        [38, 47.1],
+        [35.2, 46.3],
+        [34, 46],
+        [36.6, 45.3],
+        [33.5, 44.4],
+        [32.5, 45.4],
+        [33.6, 46],
+        [31.5, 46.6],
+        [30.4, 46],
+        [29.6, 45.4],
+        [28.2, 45.5],
+        [28.2, 46.5],
+        [27, 48.2],
+        [24.9, 47.7],
+        [22.9, 47.9],
+      ],
+    ],
+  },
+  {
+    code: "ROU",
+    altCodes: ["RO"],
+    name: { en: "Romania", zh: "罗马尼亚" },
+    polygons: [
+      [
+        [20.3, 46.1],
+        [21, 46.3],
+        [22.9, 47.9],
+        [24.9, 47.7],
+        [27, 48.2],
+        [28.2, 46.5],
+        [28.2, 45.5],
+        [29.6, 45.4],
+        [28.6, 44.3],
+        [27.8, 43.9],
+        [25.6, 43.7],
+        [22.7, 44.2],
+        [21.5, 44.8],
+      ],
+    ],
+  },
+  {
+    code: "BGR",
+    altCodes: ["BG"],
+    name: { en: "Bulgaria", zh: "保加利亚" },
+    polygons: [
+      [
+        [22.7, 44.2],
+        [25.6, 43.7],
+        [27.8, 43.9],
+        [28.6, 43.7],
+        [28, 42],
+        [26.1, 41.4],
+        [22.9, 41.3],
+        [22.4, 42.3],
+        [23, 43],
+      ],
+    ],
+  },
+  {
+    code: "SRB",
+    altCodes: ["RS"],
+    name: { en: "Serbia", zh: "塞尔维亚" },
+    polygons: [
+      [
+        [18.8, 45.9],
+        [20.3, 46.1],
+        [21.5, 44.8],
+        [22.7, 44.2],
+        [23, 43],
+        [22.4, 42.3],
+        [20.6, 41.9],
+        [19.2, 43.5],
+        [19.4, 44.9],
+      ],
+    ],
+  },
+  {
+    code: "GRC",
+    altCodes: ["GR"],
+    name: { en: "Greece", zh: "希腊" },
+    aliases: ["hellas"],
+    polygons: [
+      [
+        [20.2, 39.7],
+        [21, 40.8],
+        [22.9, 41.3],
+        [26.1, 41.4],
+        [26.3, 40.9],
+        [24, 40.7],
+        [22.6, 40.3],
+        [23, 39],
+        [24, 38.2],
+        [22.9, 37.5],
+        [21.7, 36.8],
+        [21.1, 38.3],
+      ],
+    ],
+  },
+  {
+    code: "RUS",
+    altCodes: ["RU"],
+    name: { en: "Russia", zh: "俄罗斯" },
+    aliases: ["russian federation", "俄罗斯联邦", "俄国"],
+    polygons: [
+      [
+        [30.9, 69.6],
+        [41, 67.5],
+        [44, 68.5],
+        [53.5, 68.7],
+        [59, 68.5],
+        [68.5, 68.2],
+        [69, 73],
+        [73, 71.5],
+        [80, 73.5],
+        [87, 75],
+        [100, 76.5],
+        [104, 77.7],
+        [113, 73.7],
+        [128, 72.6],
+        [140, 72.5],
+        [150, 71.5],
+        [160, 70],
+        [170, 70],
+        [180, 69],
+        [180, 65],
+        [177, 62.5],
+        [170, 60],
+        [163, 58],
+        [162, 55],
+        [158.5, 52],
+        [156.7, 51],
+        [155.6, 55],
+        [156.7, 57.5],
+        [160, 61],
+        [155, 59.3],
+        [152, 59.2],
+        [143, 59.3],
+        [137, 54],
+        [140.5, 52],
+        [141, 48],
+        [139, 46.5],
+        [135.5, 43.8],
+        [131.8, 43],
+        [130.6, 42.4],
+        [131.3, 42.9],
+        [131, 43.5],
+        [131.8, 45.2],
+        [133.1, 45.1],
+        [133.9, 46.4],
+        [134.7, 48.3],
+        [132.5, 47.7],
+        [130.5, 48.9],
+        [127.5, 50],
+        [125.5, 53],
+        [122.4, 53.5],
+        [120.8, 53.3],
+        [119.5, 50.3],
+        [117.8, 49.5],
+        [116.7, 49.8],
+        [114, 50.3],
+        [108, 49.3],
+        [106, 50.4],
+        [98, 52],
+        [97, 49.8],
+        [92, 50.8],
+        [87.8, 49.2],
+        [87.3, 49.1],
+        [83, 51],
+        [79, 53],
+        [76.5, 54.2],
+        [70, 55.2],
+        [65, 54.6],
+        [61, 53.9],
+        [61, 51.5],
+        [55, 50.8],
+        [50.5, 51.5],
+        [48, 50],
+        [46.5, 48.5],
+        [47.5, 47.5],
+        [49, 46.4],
+        [47.5, 45.5],
+        [47.5, 43],
+        [48.5, 41.8],
+        [46.5, 41.8],
+        [43.5, 42.5],
+        [40, 43.4],
+        [37.5, 45],
+        [38, 47.1],
+        [39.8, 47.9],
+        [40, 49.6],
+        [38, 50.3],
+        [35.5, 50.4],
+        [34, 52],
+        [31.8, 52.1],
+        [32.7, 53.4],
+        [30.8, 55.6],
+        [28.2, 56.1],
+        [27.6, 57.8],
+        [28, 59.5],
+        [30.3, 59.9],
+        [28.7, 60.5],
+        [30.1, 61.5],
+        [29.5, 64],
+        [30, 67.5],
+        [28.9, 69],
+      ],
+    ],
+  },
+  // 亚洲
+  {
+    code: "CHN",
+    altCodes: ["CN"],
+    name: { en: "China", zh: "中国" },
+    aliases: ["people's republic of china", "prc", "中华人民共和国", "中国大陆", "mainland china"],
+    polygons: [
+      [
+        [73.5, 39.4],
+        [76, 40.5],
+        [80.2, 42.1],
+        [80, 44.9],
+        [82.5, 45.5],
+        [82.5, 47.1],
+        [85.5, 47],
+        [87.8, 49.2],
+        [90.7, 47.8],
+        [91, 45.5],
+        [93.5, 45],
+        [96.4, 42.7],
+        [100.9, 42.6],
+        [105, 41.6],
+        [107, 42.4],
+        [109.5, 42.5],
+        [111.9, 43.7],
+        [113.6, 44.7],
+        [116, 45.7],
+        [117.4, 46.6],
+        [119.7, 47],
+        [118.5, 47.9],
+        [115.5, 47.8],
+        [117.8, 49.5],
+        [119.5, 50.3],
+        [120.8, 53.3],
+        [122.4, 53.5],
+        [125.5, 53],
+        [127.5, 50],
+        [130.5, 48.9],
+        [132.5, 47.7],
+        [134.7, 48.3],
+        [133.9, 46.4],
+        [133.1, 45.1],
+        [131.8, 45.2],
+        [131, 43.5],
+        [131.3, 42.9],
+        [130.6, 42.4],
+        [129.7, 42.4],
+        [128.1, 41.9],
+        [126.5, 41.4],
+        [125.7, 40.9],
+        [124.4, 40],
+        [123, 39.6],
+        [121.6, 38.8],
+        [121.3, 39.5],
+        [122.2, 40.6],
+        [121.3, 40.9],
+        [120.4, 40.3],
+        [119.8, 40],
+        [119.2, 39.4],
+        [118.3, 39.1],
+        [117.7, 38.9],
+        [117.6, 38.4],
+        [117.8, 38.2],
+        [119.1, 37.8],
+        [118.9, 37.3],
+        [119.5, 37.1],
+        [120.3, 37.6],
+        [121.5, 37.8],
+        [122.7, 37.4],
+        [121.9, 36.9],
+        [120.7, 36.4],
+        [120.1, 36],
+        [119.2, 35],
+        [120.3, 34.2],
+        [120.9, 33],
+        [121.9, 31.8],
+        [122, 31.2],
+        [121.7, 30],
+        [121.9, 29],
+        [121.4, 28.3],
+        [120.8, 27.8],
+        [120.3, 27.1],
+        [119.6, 26.2],
+        [119.4, 25.4],
+        [118.6, 24.6],
+        [117.8, 24.2],
+        [117.2, 23.6],
+        [116.5, 22.9],
+        [115.2, 22.8],
+        [114.3, 22.4],
+        [113.6, 22.7],
+        [113.5, 22.2],
+        [113, 21.9],
+        [112, 21.7],
+        [111, 21.4],
+        [110.4, 21.2],
+        [110.3, 20.3],
+        [109.9, 20.8],
+        [109.8, 21.6],
+        [109.1, 21.5],
+        [108.5, 21.7],
+        [108, 21.5],
+        [107.3, 22],
+        [106.7, 22],
+        [106.6, 22.9],
+        [105.6, 23.3],
+        [104.5, 22.8],
+        [103.6, 22.8],
+        [102.5, 22.5],
+        [101.8, 22.5],
+        [101.6, 21.2],
+        [100.8, 21.5],
+        [100.1, 21.7],
+        [99.3, 22.1],
+        [99.5, 22.9],
+        [98.8, 23.9],
+        [97.6, 24],
+        [97.7, 24.8],
+        [98.6, 25.9],
+        [98.7, 27],
+        [98.3, 27.6],
+        [97.3, 28.1],
+        [95.3, 27],
+        [92, 26.9],
+        [91.6, 27.8],
+        [89, 27.3],
+        [88, 27.9],
+        [86, 28],
+        [84, 28.6],
+        [81.5, 30.3],
+        [79, 30.9],
+        [78.7, 32.5],
+        [79.4, 33.9],
+        [78, 35.5],
+        [75, 37.2],
+      ],
+      [
+        [108.6, 19.2],
+        [108.7, 18.5],
+        [109.5, 18.2],
+        [110.1, 18.4],
+        [110.6, 19.1],
+        [111, 19.6],
+        [110.7, 20.1],
+        [110, 20.1],
+        [109.2, 19.8],
+      ],
+    ],
+  },
+  {
+    code: "TWN",
+    altCodes: ["TW"],
+    name: { en: "Taiwan", zh: "中国台湾" },
+    aliases: ["台湾", "臺灣", "taiwan, china", "chinese taipei"],
+    polygons: [
+      [
+        [120.1, 23],
+        [120.7, 22],
+        [120.9, 22.3],
+        [121.5, 23.5],
+        [121.9, 24.6],
+        [121.6, 25.3],
+        [121, 25.1],
+        [120.2, 23.8],
+      ],
+    ],
+  },
+  {
+    code: "MNG",
+    altCodes: ["MN"],
+    name: { en: "Mongolia", zh: "蒙古" },
+    aliases: ["蒙古国"],
+    polygons: [
+      [
+        [87.8, 49.2],
+        [92, 50.8],
+        [97, 49.8],
+        [98, 52],
+        [106, 50.4],
+        [108, 49.3],
+        [114, 50.3],
+        [116.7, 49.8],
+        [117.8, 49.5],
+        [115.5, 47.8],
+        [118.5, 47.9],
+        [119.7, 47],
+        [117.4, 46.6],
+        [116, 45.7],
+        [113.6, 44.7],
+        [111.9, 43.7],
+        [109.5, 42.5],
+        [107, 42.4],
+        [105, 41.6],
+        [100.9, 42.6],
+        [96.4, 42.7],
+        [93.5, 45],
+        [91, 45.5],
+        [90.7, 47.8],
+      ],
+    ],
+  },
+  {
+    code: "PRK",
+    altCodes: ["KP"],
+    name: { en: "North Korea", zh: "朝鲜" },
+    aliases: ["democratic people's republic of korea", "dprk", "korea, north"],
+    polygons: [
+      [
+        [124.4, 40],
+        [125.7, 40.9],
+        [126.5, 41.4],
+        [128.1, 41.9],
+        [129.7, 42.4],
+        [130.6, 42.4],
+        [129.7, 40.8],
+        [128, 40],
+        [127.5, 39.7],
+        [128.3, 38.6],
+        [127.1, 38.3],
+        [126.1, 37.7],
+        [125.2, 37.9],
+        [124.7, 38.1],
+        [125.3, 39.5],
+      ],
+    ],
+  },
+  {
+    code: "KOR",
+    altCodes: ["KR"],
+    name: { en: "South Korea", zh: "韩国" },
+    aliases: ["republic of korea", "korea", "korea, south", "大韩民国"],
+    polygons: [
+      [
+        [126.1, 37.7],
+        [127.1, 38.3],
+        [128.3, 38.6],
+        [129.4, 36.2],
+        [129.3, 35.2],
+        [128, 34.8],
+        [126.3, 34.4],
+        [126.5, 35.8],
+        [126.8, 36.8],
+      ],
+    ],
+  },
+  {
+    code: "JPN",
+    altCodes: ["JP"],
+    name: { en: "Japan", zh: "日本" },
+    aliases: ["nippon"],
+    polygons: [
+      [
+        [130.9, 34],
+        [132.5, 35.5],
+        [135.4, 35.6],
+        [136.8, 37.3],
+        [138.5, 37.4],
+        [140, 39.8],
+        [140, 41.3],
+        [141.5, 41.3],
+        [141.9, 39.2],
+        [140.8, 36],
+        [140.8, 35],
+        [139.8, 35],
+        [138.8, 34.6],
+        [137, 34.6],
+        [135.8, 33.5],
+        [135.1, 34.6],
+        [132.5, 34.3],
+      ],
+      [
+        [140, 41.5],
+        [139.8, 42.5],
+        [141.4, 43.3],
+        [141.9, 45.5],
+        [145.2, 44.3],
+        [145.5, 43.3],
+        [143.2, 42],
+        [141.5, 42.5],
+      ],
+      [
+        [129.7, 33.3],
+        [130.9, 34],
+        [132, 33.2],
+        [131.2, 31.3],
+        [130.2, 31.2],
+        [130.2, 32.6],
+      ],
+      [
+        [132.5, 33.9],
+        [134.2, 34.4],
+        [134.7, 33.8],
+        [133, 32.7],
+      ],
+    ],
+  },
+  {
+    code: "KAZ",
+    altCodes: ["KZ"],
+    name: { en: "Kazakhstan", zh: "哈萨克斯坦" },
+    polygons: [
+      [
+        [49, 46.4],
+        [47.5, 47.5],
+        [46.5, 48.5],
+        [48, 50],
+        [50.5, 51.5],
+        [55, 50.8],
+        [61, 51.5],
+        [61, 53.9],
+        [65, 54.6],
+        [70, 55.2],
+        [76.5, 54.2],
+        [79, 53],
+        [83, 51],
+        [87.3, 49.1],
+        [85.5, 47],
+        [82.5, 47.1],
+        [82.5, 45.5],
+        [80, 44.9],
+        [80.2, 42.1],
+        [79, 42.8],
+        [75, 42.9],
+        [71, 42.3],
+        [68.6, 40.7],
+        [66, 42.9],
+        [61, 44.4],
+        [58.5, 45.6],
+        [56, 45],
+        [56, 41.3],
+        [52.8, 41.7],
+        [51, 43],
+        [51.5, 44.5],
+        [53, 46.5],
+      ],
+    ],
+  },
+  {
+    code: "UZB",
+    altCodes: ["UZ"],
+    name: { en: "Uzbekistan", zh: "乌兹别克斯坦" },
+    polygons: [
+      [
+        [56, 45],
+        [58.5, 45.6],
+        [61, 44.4],
+        [66, 42.9],
+        [68.6, 40.7],
+        [71, 42.3],
+        [73, 40.8],
+        [71, 40.2],
+        [69.3, 40.7],
+        [68.4, 38.2],
+        [67.5, 37.3],
+        [66.5, 37.4],
+        [64.5, 38.9],
+        [61.9, 41.2],
+        [60.1, 41.4],
+        [58.6, 42.7],
+        [56, 41.3],
+      ],
+    ],
+  },
+  {
+    code: "TKM",
+    altCodes: ["TM"],
+    name: { en: "Turkmenistan", zh: "土库曼斯坦" },
+    polygons: [
+      [
+        [52.8, 41.7],
+        [56, 41.3],
+        [58.6, 42.7],
+        [60.1, 41.4],
+        [61.9, 41.2],
+        [64.5, 38.9],
+        [66.5, 37.4],
+        [64.8, 37.1],
+        [62.5, 35.3],
+        [61.2, 35.6],
+        [60, 37],
+        [56, 38],
+        [54, 37],
+        [53.9, 38.9],
+        [53, 40],
+      ],
+    ],
+  },
+  {
+    code: "AFG",
+    altCodes: ["AF"],
+    name: { en: "Afghanistan", zh: "阿富汗" },
+    polygons: [
+      [
+        [61.2, 35.6],
+        [62.5, 35.3],
+        [64.8, 37.1],
+        [66.5, 37.4],
+        [67.8, 37.2],
+        [70, 37.9],
+        [71.5, 37.2],
+        [74.9, 37.2],
+        [71.5, 36.2],
+        [71.2, 34.6],
+        [69.5, 33.9],
+        [70, 31.6],
+        [66.3, 29.9],
+        [62.7, 29.4],
+        [61.5, 29.5],
+        [61.8, 31.3],
+        [60.5, 33.7],
+      ],
+    ],
+  },
+  {
+    code: "PAK",
+    altCodes: ["PK"],
+    name: { en: "Pakistan", zh: "巴基斯坦" },
+    polygons: [
+      [
+        [61.6, 25.2],
+        [66.6, 25.4],
+        [67.4, 24],
+        [68.4, 23.6],
+        [70, 24.2],
+        [71, 24.4],
+        [70.5, 25.7],
+        [69.5, 27.2],
+        [71.9, 27.9],
+        [74.5, 31],
+        [74.8, 32.5],
+        [74.2, 34.7],
+        [76.5, 35.8],
+        [75, 37.2],
+        [71.5, 36.2],
+        [71.2, 34.6],
+        [69.5, 33.9],
+        [70, 31.6],
+        [66.3, 29.9],
+        [62.7, 29.4],
+        [61.5, 29.5],
+        [62.8, 28.3],
+      ],
+    ],
+  },
+  {
+    code: "IND",
+    altCodes: ["IN"],
+    name: { en: "India", zh: "印度" },
+    aliases: ["bharat", "republic of india"],
+    polygons: [
+      [
+        [68.4, 23.6],
+        [69.7, 22.4],
+        [70.5, 20.8],
+        [72.8, 21],
+        [72.8, 19],
+        [73.5, 16],
+        [74.8, 12.8],
+        [76.2, 9.9],
+        [77.5, 8.1],
+        [78.2, 8.9],
+        [79.9, 10.3],
+        [80.3, 13.5],
+        [80.2, 15.7],
+        [82.2, 16.6],
+        [84.8, 19.3],
+        [86.9, 20.8],
+        [87.5, 21.6],
+        [89, 21.7],
+        [88.7, 23.5],
+        [88.1, 24.5],
+        [88.6, 26.3],
+        [89.8, 26],
+        [92, 25.1],
+        [92.3, 23.7],
+        [91.6, 22.9],
+        [92.6, 21.4],
+        [93.1, 22.7],
+        [94.2, 23.9],
+        [94.6, 25.2],
+        [95.3, 27],
+        [92, 26.9],
+        [89.8, 26.7],
+        [88.9, 27.3],
+        [88, 27.9],
+        [88.1, 26.4],
+        [85, 26.6],
+        [83.3, 27.3],
+        [81, 28.4],
+        [80.1, 28.8],
+        [81.5, 30.3],
+        [79, 30.9],
+        [78.7, 32.5],
+        [79.4, 33.9],
+        [78, 35.5],
+        [76.5, 35.8],
+        [74.2, 34.7],
+        [74.8, 32.5],
+        [74.5, 31],
+        [71.9, 27.9],
+        [69.5, 27.2],
+        [70.5, 25.7],
+        [71, 24.4],
+        [70, 24.2],
+      ],
+    ],
+  },
+  {
+    code: "NPL",
+    altCodes: ["NP"],
+    name: { en: "Nepal", zh: "尼泊尔" },
+    polygons: [
+      [
+        [80.1, 28.8],
+        [81, 28.4],
+        [83.3, 27.3],
+        [85, 26.6],
+        [88.1, 26.4],
+        [88, 27.9],
+        [86, 28],
+        [84, 28.6],
+        [81.5, 30.3],
+      ],
+    ],
+  },
+  {
+    code: "BGD",
+    altCodes: ["BD"],
+    name: { en: "Bangladesh", zh: "孟加拉国" },
+    aliases: ["孟加拉"],
+    polygons: [
+      [
+        [88.1, 24.5],
+        [88.7, 23.5],
+        [89, 21.7],
+        [90.6, 22.1],
+        [91.8, 22.3],
+        [92.6, 21.4],
+        [91.6, 22.9],
+        [92.3, 23.7],
+        [92, 25.1],
+        [89.8, 26],
+        [88.6, 26.3],
+      ],
+    ],
+  },
+  {
+    code: "LKA",
+    altCodes: ["LK"],
+    name: { en: "Sri Lanka", zh: "斯里兰卡" },
+    polygons: [
+      [
+        [79.9, 6.8],
+        [80.3, 9.8],
+        [81.2, 8.6],
+        [81.9, 7.4],
+        [81.3, 6.2],
+        [80.2, 6],
+      ],
+    ],
+  },
+  {
+    code: "MMR",
+    altCodes: ["MM"],
+    name: { en: "Myanmar", zh: "缅甸" },
+    aliases: ["burma"],
+    polygons: [
+      [
+        [92.2, 21],
+        [92.6, 21.4],
+        [93.1, 22.7],
+        [94.2, 23.9],
+        [94.6, 25.2],
+        [95.3, 27],
+        [97.3, 28.1],
+        [98.3, 27.6],
+        [98.7, 27],
+        [98.6, 25.9],
+        [97.7, 24.8],
+        [97.6, 24],
+        [98.8, 23.9],
+        [99.5, 22.9],
+        [99.3, 22.1],
+        [100.1, 21.7],
+        [100.5, 20.2],
+        [100.1, 20.4],
+        [98.5, 19.7],
+        [97.7, 18],
+        [98.9, 16.4],
+        [98.3, 14.4],
+        [99.1, 12.3],
+        [99.6, 11],
+        [98.7, 10.1],
+        [98.4, 12.7],
+        [97.6, 16],
+        [97.2, 16.9],
+        [95, 15.8],
+        [94.2, 16],
+        [94.6, 17.5],
+        [94.3, 19],
+        [93.4, 20.1],
+      ],
+    ],
+  },
+  {
+    code: "THA",
+    altCodes: ["TH"],
+    name: { en: "Thailand", zh: "泰国" },
+    aliases: ["siam"],
+    polygons: [
+      [
+        [100.1, 20.4],
+        [100.5, 20.2],
+        [101.2, 19.6],
+        [101, 17.5],
+        [102.1, 18.2],
+        [103, 18],
+        [104.7, 17.5],
+        [105.6, 15.6],
+        [105.2, 14.3],
+        [103, 14.4],
+        [102.6, 12.2],
+        [100.9, 12.6],
+        [100, 13.4],
+        [99.2, 10.3],
+        [100.3, 8.3],
+        [101, 6.9],
+        [102.1, 6.2],
+        [101.2, 5.7],
+        [100.2, 6.5],
+        [98.3, 8],
+        [98.7, 10.1],
+        [99.6, 11],
+        [99.1, 12.3],
+        [98.3, 14.4],
+        [98.9, 16.4],
+        [97.7, 18],
+        [98.5, 19.7],
+      ],
+    ],
+  },
+  {
+    code: "LAO",
+    altCodes: ["LA"],
+    name: { en: "Laos", zh: "老挝" },
+    aliases: ["lao pdr", "lao people's democratic republic"],
+    polygons: [
+      [
+        [101.8, 22.5],
+        [102.1, 22.4],
+        [102.2, 21.4],
+        [103, 20.8],
+        [104.4, 20.3],
+        [104, 19.2],
+        [105.1, 18.7],
+        [106.5, 16.7],
+        [107.4, 16],
+        [107.6, 14.4],
+        [105.9, 14],
+        [105.6, 15.6],
+        [104.7, 17.5],
+        [103, 18],
+        [102.1, 18.2],
+        [101, 17.5],
+        [101.2, 19.6],
+        [100.5, 20.2],
+        [101.1, 21.4],
+        [101.6, 21.2],
+      ],
+    ],
+  },
+  {
+    code: "KHM",
+    altCodes: ["KH"],
+    name: { en: "Cambodia", zh: "柬埔寨" },
+    polygons: [
+      [
+        [102.6, 12.2],
+        [103, 14.4],
+        [105.2, 14.3],
+        [105.9, 14],
+        [107.6, 14.4],
+        [107.5, 12.3],
+        [105.9, 11.7],
+        [106.2, 11],
+        [104.8, 10.2],
+        [103.6, 10.5],
+        [103.1, 11.2],
+      ],
+    ],
+  },
+  {
+    code: "VNM",
+    altCodes: ["VN"],
+    name: { en: "Vietnam", zh: "越南" },
+    aliases: ["viet nam"],
+    polygons: [
+      [
+        [102.1, 22.4],
+        [102.5, 22.5],
+        [103.6, 22.8],
+        [104.5, 22.8],
+        [105.6, 23.3],
+        [106.6, 22.9],
+        [106.7, 22],
+        [107.3, 22],
+        [108, 21.5],
+        [106.5, 20.4],
+        [105.7, 19],
+        [106.7, 17],
+        [108.9, 15.3],
+        [109.3, 13],
+        [109.2, 11.7],
+        [107.2, 10.4],
+        [105, 8.6],
+        [104.8, 10.2],
+        [106.2, 11],
+        [105.9, 11.7],
+        [107.5, 12.3],
+        [107.6, 14.4],
+        [107.4, 16],
+        [106.5, 16.7],
+        [105.1, 18.7],
+        [104, 19.2],
+        [104.4, 20.3],
+        [103, 20.8],
+        [102.2, 21.4],
+      ],
+    ],
+  },
+  {
+    code: "MYS",
+    altCodes: ["MY"],
+    name: { en: "Malaysia", zh: "马来西亚" },
+    polygons: [
+      [
+        [100.2, 6.5],
+        [101.2, 5.7],
+        [102.1, 6.2],
+        [103.4, 4.8],
+        [103.5, 2.8],
+        [104.3, 1.4],
+        [103.5, 1.3],
+        [101.3, 2.8],
+        [100.3, 5.5],
+      ],
+      [
+        [109.6, 1.9],
+        [111.2, 1.1],
+        [112.9, 1.6],
+        [114.6, 1.4],
+        [115.6, 4.2],
+        [117.6, 4.2],
+        [119.2, 5.3],
+        [117.1, 6.9],
+        [116, 6.1],
+        [113, 3.1],
+        [111.5, 2.7],
+        [110, 1.7],
+      ],
+    ],
+  },
+  {
+    code: "SGP",
+    altCodes: ["SG"],
+    name: { en: "Singapore", zh: "新加坡" },
+    polygons: [
+      [
+        [103.6, 1.25],
+        [103.65, 1.45],
+        [104, 1.45],
+        [104.05, 1.3],
+        [103.8, 1.2],
+      ],
+    ],
+  },
+  {
+    code: "IDN",
+    altCodes: ["ID"],
+    name: { en: "Indonesia", zh: "印度尼西亚" },
+    aliases: ["印尼"],
+    polygons: [
+      [
+        [95.3, 5.6],
+        [97.5, 5.2],
+        [100.4, 2.3],
+        [103.8, -1],
+        [106, -3.1],
+        [105.8, -5.8],
+        [104.5, -5.9],
+        [102.3, -4],
+        [100.3, -0.8],
+        [98.7, 1.6],
+      ],
+      [
+        [105.2, -6.8],
+        [106, -5.9],
+        [108.3, -6.3],
+        [110.4, -6.9],
+        [112.7, -6.9],
+        [114.6, -7.8],
+        [114.4, -8.6],
+        [110.9, -8.2],
+        [108.1, -7.8],
+        [106.4, -7.4],
+      ],
+      [
+        [109.1, -1],
+        [109.6, 1.9],
+        [111.2, 1.1],
+        [112.9, 1.6],
+        [114.6, 1.4],
+        [115.6, 4.2],
+        [117.6, 4.2],
+        [118, 1],
+        [117.5, -1],
+        [116.5, -3.8],
+        [114.5, -4.1],
+        [111.7, -3],
+        [110.1, -2.9],
+      ],
+      [
+        [119.5, -5.5],
+        [120.4, -5.5],
+        [120.9, -2.6],
+        [122.3, -4.7],
+        [123.2, -4.4],
+        [121.3, -1.9],
+        [123.3, -0.9],
+        [125.1, 1.5],
+        [120.9, 1.3],
+        [119.7, -0.1],
+        [119.4, -3.5],
+      ],
+      [
+        [131, -1.3],
+        [134.2, -0.9],
+        [135.5, -3.4],
+        [138, -1.7],
+        [141, -2.6],
+        [141, -9.1],
+        [139, -8.1],
+        [137.8, -8.4],
+        [138.6, -6.4],
+        [135.2, -4.4],
+        [132.7, -4],
+        [132.2, -2.8],
+        [133.2, -2.2],
+      ],
+    ],
+  },
+  {
+    code: "PHL",
+    altCodes: ["PH"],
+    name: { en: "Philippines", zh: "菲律宾" },
+    aliases: ["the philippines"],
+    polygons: [
+      [
+        [120.6, 18.5],
+        [122.3, 18.5],
+        [122.1, 17],
+        [121.5, 15.9],
+        [121.7, 14.3],
+        [124.1, 13.2],
+        [123.3, 13],
+        [121.8, 13.9],
+        [120.6, 14.4],
+        [120.1, 16],
+      ],
+      [
+        [122, 7],
+        [123.5, 7.8],
+        [125.4, 9.7],
+        [126.5, 7.4],
+        [126.2, 6.3],
+        [125.4, 5.6],
+        [124.2, 6.2],
+        [123.9, 7.7],
+      ],
+    ],
+  },
+  // 中东与中亚
+  {
+    code: "TUR",
+    altCodes: ["TR"],
+    name: { en: "Turkey", zh: "土耳其" },
+    aliases: ["türkiye", "turkiye"],
+    polygons: [
+      [
+        [26.1, 41.4],
+        [28, 42],
+        [29, 41.2],
+        [31.5, 41.2],
+        [35, 42],
+        [38, 41],
+        [41.5, 41.5],
+        [43.5, 41.1],
+        [44.8, 39.7],
+        [44.2, 37.2],
+        [42.5, 37.2],
+        [40, 36.8],
+        [36.7, 36.6],
+        [36.2, 36],
+        [35.5, 36.6],
+        [32.5, 36.1],
+        [30.5, 36.4],
+        [28.2, 36.7],
+        [26.5, 38.5],
+        [26.2, 39.5],
+        [26.6, 40.3],
+      ],
+    ],
+  },
+  {
+    code: "IRN",
+    altCodes: ["IR"],
+    name: { en: "Iran", zh: "伊朗" },
+    aliases: ["islamic republic of iran", "persia"],
+    polygons: [
+      [
+        [44.8, 39.7],
+        [48, 39.5],
+        [48.6, 38.4],
+        [49, 37.5],
+        [51.3, 36.8],
+        [54, 37],
+        [56, 38],
+        [60, 37],
+        [61.2, 35.6],
+        [60.5, 33.7],
+        [61.8, 31.3],
+        [61.5, 29.5],
+        [62.8, 28.3],
+        [61.6, 25.2],
+        [57.3, 25.7],
+        [56.4, 27.1],
+        [54, 26.6],
+        [51.5, 27.9],
+        [50.1, 30.2],
+        [48.5, 29.9],
+        [48, 30.5],
+        [47.7, 31.4],
+        [46.1, 33],
+        [45.4, 33.9],
+        [46.2, 35],
+        [45.6, 35.9],
+        [44.8, 37.3],
+        [44.2, 37.2],
+      ],
+    ],
+  },
+  {
+    code: "IRQ",
+    altCodes: ["IQ"],
+    name: { en: "Iraq", zh: "伊拉克" },
+    polygons: [
+      [
+        [42.5, 37.2],
+        [44.2, 37.2],
+        [44.8, 37.3],
+        [45.6, 35.9],
+        [46.2, 35],
+        [45.4, 33.9],
+        [46.1, 33],
+        [47.7, 31.4],
+        [48, 30.5],
+        [48.4, 29.9],
+        [47.7, 29.1],
+        [46.5, 29.1],
+        [42.8, 31.1],
+        [39.2, 32.2],
+        [38.8, 33.4],
+        [41.2, 34.4],
+        [41.3, 36.4],
+      ],
+    ],
+  },
+  {
+    code: "SYR",
+    altCodes: ["SY"],
+    name: { en: "Syria", zh: "叙利亚" },
+    aliases: ["syrian arab republic"],
+    polygons: [
+      [
+        [36.2, 36],
+        [36.7, 36.6],
+        [40, 36.8],
+        [42.5, 37.2],
+        [41.3, 36.4],
+        [41.2, 34.4],
+        [38.8, 33.4],
+        [36, 32.4],
+        [35.9, 33.4],
+        [36.3, 34.7],
+        [35.9, 35.3],
+      ],
+    ],
+  },
+  {
+    code: "JOR",
+    altCodes: ["JO"],
+    name: { en: "Jordan", zh: "约旦" },
+    polygons: [
+      [
+        [35.5, 32.4],
+        [36, 32.4],
+        [38.8, 33.4],
+        [39.2, 32.2],
+        [37, 31.5],
+        [38, 30.5],
+        [36.5, 29.5],
+        [35, 29.4],
+        [35.5, 31.5],
+      ],
+    ],
+  },
+  {
+    code: "ISR",
+    altCodes: ["IL"],
+    name: { en: "Israel", zh: "以色列" },
+    polygons: [
+      [
+        [34.3, 31.2],
+        [35, 29.4],
+        [35.5, 31.5],
+        [35.5, 32.4],
+        [35.6, 33.2],
+        [35.1, 33.1],
+        [34.6, 32],
+      ],
+    ],
+  },
+  {
+    code: "SAU",
+    altCodes: ["SA"],
+    name: { en: "Saudi Arabia", zh: "沙特阿拉伯" },
+    aliases: ["沙特", "kingdom of saudi arabia", "ksa"],
+    polygons: [
+      [
+        [34.6, 28.1],
+        [36.5, 29.5],
+        [38, 30.5],
+        [37, 31.5],
+        [39.2, 32.2],
+        [42.8, 31.1],
+        [46.5, 29.1],
+        [48.4, 28.5],
+        [50.2, 26.6],
+        [51.6, 24.2],
+        [52, 23.1],
+        [55.7, 22],
+        [55, 20],
+        [52, 19],
+        [48.5, 18],
+        [46.5, 17.3],
+        [43.3, 17.5],
+        [42.8, 16.4],
+        [41.2, 19],
+        [39, 21.8],
+        [37, 25],
+        [35.2, 28],
+      ],
+    ],
+  },
+  {
+    code: "ARE",
+    altCodes: ["AE"],
+    name: { en: "United Arab Emirates", zh: "阿联酋" },
+    aliases: ["uae", "阿拉伯联合酋长国", "emirates"],
+    polygons: [
+      [
+        [51.6, 24.2],
+        [52.6, 24.2],
+        [54.1, 24.1],
+        [55.4, 25.3],
+        [56.4, 26.4],
+        [56.4, 24.9],
+        [55.8, 24.3],
+        [55.7, 22],
+        [52, 23.1],
+      ],
+    ],
+  },
+  {
+    code: "OMN",
+    altCodes: ["OM"],
+    name: { en: "Oman", zh: "阿曼" },
+    polygons: [
+      [
+        [52, 19],
+        [55, 20],
+        [55.7, 22],
+        [55.8, 24.3],
+        [56.4, 24.9],
+        [56.8, 24.2],
+        [58.8, 23.5],
+        [59.8, 22.3],
+        [58.5, 20.4],
+        [57.7, 18.9],
+        [56.3, 17.9],
+        [55.2, 17.6],
+        [53.1, 16.6],
+      ],
+    ],
+  },
+  {
+    code: "YEM",
+    altCodes: ["YE"],
+    name: { en: "Yemen", zh: "也门" },
+    polygons: [
+      [
+        [42.8, 16.4],
+        [43.3, 17.5],
+        [46.5, 17.3],
+        [48.5, 18],
+        [52, 19],
+        [53.1, 16.6],
+        [52.2, 15.9],
+        [49.6, 14.7],
+        [45.6, 13.3],
+        [43.5, 12.6],
+        [42.6, 15.2],
+      ],
+    ],
+  },
+  // 非洲
+  {
+    code: "EGY",
+    altCodes: ["EG"],
+    name: { en: "Egypt", zh: "埃及" },
+    polygons: [
+      [
+        [25, 31.6],
+        [29, 30.9],
+        [32, 31.3],
+        [34.3, 31.2],
+        [34.9, 29.5],
+        [32.6, 29.9],
+        [33.5, 28],
+        [35.7, 23.9],
+        [36.9, 22],
+        [25, 22],
+      ],
+    ],
+  },
+  {
+    code: "LBY",
+    altCodes: ["LY"],
+    name: { en: "Libya", zh: "利比亚" },
+    polygons: [
+      [
+        [11.5, 33.1],
+        [15.2, 32.3],
+        [19, 30.3],
+        [20, 31],
+        [20, 32.5],
+        [23, 32.6],
+        [25, 31.6],
+        [25, 22],
+        [25, 20],
+        [24, 19.5],
+        [24, 20],
+        [15.5, 23.4],
+        [14, 22.5],
+        [11.9, 23.5],
+        [10.2, 24.8],
+        [9.6, 26.5],
+        [9.9, 30.5],
+        [10.3, 31.7],
+      ],
+    ],
+  },
+  {
+    code: "TUN",
+    altCodes: ["TN"],
+    name: { en: "Tunisia", zh: "突尼斯" },
+    polygons: [
+      [
+        [8.6, 36.9],
+        [10.3, 37.3],
+        [11.1, 36.8],
+        [10.1, 34.3],
+        [11.5, 33.1],
+        [10.3, 31.7],
+        [9.9, 30.5],
+        [9, 32.1],
+        [8.4, 35.3],
+      ],
+    ],
+  },
+  {
+    code: "DZA",
+    altCodes: ["DZ"],
+    name: { en: "Algeria", zh: "阿尔及利亚" },
+    polygons: [
+      [
+        [-8.7, 27.7],
+        [-8.7, 28.8],
+        [-5, 30],
+        [-3.6, 31.7],
+        [-1.2, 32.1],
+        [-1.8, 34.8],
+        [-2.2, 35.1],
+        [1, 36.5],
+        [8.6, 36.9],
+        [8.4, 35.3],
+        [9, 32.1],
+        [9.9, 30.5],
+        [9.6, 26.5],
+        [10.2, 24.8],
+        [11.9, 23.5],
+        [7.5, 20.9],
+        [5.7, 19.6],
+        [4.3, 19.2],
+        [3.2, 19],
+        [1.1, 20.7],
+        [-4.9, 24.9],
+      ],
+    ],
+  },
+  {
+    code: "MAR",
+    altCodes: ["MA"],
+    name: { en: "Morocco", zh: "摩洛哥" },
+    polygons: [
+      [
+        [-1.2, 32.1],
+        [-3.6, 31.7],
+        [-5, 30],
+        [-8.7, 28.8],
+        [-8.7, 27.7],
+        [-13.2, 27.7],
+        [-11.5, 28.2],
+        [-9.8, 29.9],
+        [-9.8, 31.5],
+        [-8.5, 33.3],
+        [-6.8, 34],
+        [-5.9, 35.8],
+        [-2.2, 35.1],
+        [-1.8, 34.8],
+      ],
+    ],
+  },
+  {
+    code: "MLI",
+    altCodes: ["ML"],
+    name: { en: "Mali", zh: "马里" },
+    polygons: [
+      [
+        [-12.2, 14.6],
+        [-11.4, 15.6],
+        [-5.4, 15.5],
+        [-6.5, 24.9],
+        [-4.9, 24.9],
+        [1.1, 20.7],
+        [3.2, 19],
+        [4.3, 19.2],
+        [4.3, 16.8],
+        [3.6, 15.5],
+        [0.2, 14.9],
+        [-0.5, 15.1],
+        [-2, 14.6],
+        [-4, 13.5],
+        [-5.4, 10.4],
+        [-8, 10.2],
+        [-8.6, 11.7],
+        [-11.5, 12.4],
+      ],
+    ],
+  },
+  {
+    code: "NER",
+    altCodes: ["NE"],
+    name: { en: "Niger", zh: "尼日尔" },
+    polygons: [
+      [
+        [0.2, 14.9],
+        [1.1, 13.3],
+        [3.6, 11.7],
+        [4.1, 13.5],
+        [6.3, 13.7],
+        [9, 12.8],
+        [12.3, 13.1],
+        [13.6, 14],
+        [15.5, 16.9],
+        [15.9, 20.4],
+        [15.5, 23.4],
+        [14, 22.5],
+        [11.9, 23.5],
+        [7.5, 20.9],
+        [5.7, 19.6],
+        [4.3, 19.2],
+        [4.3, 16.8],
+        [3.6, 15.5],
+      ],
+    ],
+  },
+  {
+    code: "TCD",
+    altCodes: ["TD"],
+    name: { en: "Chad", zh: "乍得" },
+    polygons: [
+      [
+        [13.6, 14],
+        [14.6, 12.2],
+        [14.5, 11.5],
+        [15.5, 9.9],
+        [15.5, 7.5],
+        [18.5, 8],
+        [21, 9.5],
+        [22.9, 10.9],
+        [21.8, 12.6],
+        [22.4, 14],
+        [24, 15.7],
+        [24, 19.5],
+        [15.5, 23.4],
+        [15.9, 20.4],
+        [15.5, 16.9],
+      ],
+    ],
+  },
+  {
+    code: "SDN",
+    altCodes: ["SD"],
+    name: { en: "Sudan", zh: "苏丹" },
+    polygons: [
+      [
+        [21.8, 12.6],
+        [22.4, 14],
+        [24, 15.7],
+        [24, 20],
+        [25, 20],
+        [25, 22],
+        [36.9, 22],
+        [37.4, 18.6],
+        [38.4, 18],
+        [36.4, 14.4],
+        [35.5, 12.4],
+        [34.2, 10.6],
+        [33.9, 9.5],
+        [27.2, 9.6],
+        [24, 8.3],
+        [22.9, 10.9],
+      ],
+    ],
+  },
+  {
+    code: "NGA",
+    altCodes: ["NG"],
+    name: { en: "Nigeria", zh: "尼日利亚" },
+    polygons: [
+      [
+        [2.7, 6.3],
+        [2.8, 9],
+        [3.6, 11.7],
+        [4.1, 13.5],
+        [6.3, 13.7],
+        [9, 12.8],
+        [12.3, 13.1],
+        [13.6, 14],
+        [14.6, 12.2],
+        [14.5, 11.5],
+        [13.3, 10.2],
+        [11.8, 7.1],
+        [9.8, 6.8],
+        [8.5, 4.7],
+        [6, 4.3],
+        [4.4, 6.4],
+      ],
+    ],
+  },
+  {
+    code: "ETH",
+    altCodes: ["ET"],
+    name: { en: "Ethiopia", zh: "埃塞俄比亚" },
+    polygons: [
+      [
+        [33, 7.8],
+        [35, 5.4],
+        [38.5, 3.6],
+        [41.9, 4],
+        [43, 5],
+        [44.9, 5],
+        [47.8, 8],
+        [44, 9],
+        [42.9, 11],
+        [42.4, 12.5],
+        [40.2, 14.4],
+        [38.4, 14.4],
+        [36.4, 14.4],
+        [35.5, 12.4],
+        [34.2, 10.6],
+        [33.9, 8.4],
+      ],
+    ],
+  },
+  {
+    code: "SOM",
+    altCodes: ["SO"],
+    name: { en: "Somalia", zh: "索马里" },
+    polygons: [
+      [
+        [41, -0.9],
+        [41, 2.8],
+        [41.9, 4],
+        [43, 5],
+        [44.9, 5],
+        [47.8, 8],
+        [44, 9],
+        [43.3, 11],
+        [44.6, 10.4],
+        [47.5, 11.2],
+        [51.2, 11.8],
+        [51, 10.4],
+        [49, 6],
+        [46.6, 2.6],
+        [43.1, 0.3],
+      ],
+    ],
+  },
+  {
+    code: "KEN",
+    altCodes: ["KE"],
+    name: { en: "Kenya", zh: "肯尼亚" },
+    polygons: [
+      [
+        [33.9, 0.1],
+        [34.8, 1.2],
+        [35, 4.6],
+        [35.9, 4.6],
+        [38.5, 3.6],
+        [41.9, 4],
+        [41, 2.8],
+        [41, -0.9],
+        [39.2, -4.7],
+        [37.7, -3.1],
+        [33.9, -1],
+      ],
+    ],
+  },
+  {
+    code: "TZA",
+    altCodes: ["TZ"],
+    name: { en: "Tanzania", zh: "坦桑尼亚" },
+    aliases: ["united republic of tanzania"],
+    polygons: [
+      [
+        [33.9, -1],
+        [37.7, -3.1],
+        [39.2, -4.7],
+        [38.8, -6.5],
+        [39.5, -8],
+        [40.4, -10.4],
+        [38, -11.3],
+        [34.6, -11.6],
+        [33, -9.5],
+        [30.7, -8.3],
+        [29.6, -6],
+        [30.5, -2.4],
+        [30.8, -1],
+      ],
+    ],
+  },
+  {
+    code: "COD",
+    altCodes: ["CD"],
+    name: { en: "DR Congo", zh: "刚果（金）" },
+    aliases: ["democratic republic of the congo", "congo-kinshasa", "刚果民主共和国", "刚果金"],
+    polygons: [
+      [
+        [12.2, -6],
+        [13.2, -5.8],
+        [16, -5.9],
+        [16.9, -7.2],
+        [18.5, -7.9],
+        [21.8, -7.3],
+        [22, -9.7],
+        [24, -11],
+        [26, -11.9],
+        [27.4, -12.1],
+        [29.5, -12.2],
+        [28.5, -9.3],
+        [30.7, -8.3],
+        [29.6, -6],
+        [29.3, -3.3],
+        [29, -1.7],
+        [29.6, -1],
+        [30.8, 1.8],
+        [31.2, 2.2],
+        [30.7, 3.6],
+        [28.4, 4.3],
+        [27.4, 5.2],
+        [25.3, 5.2],
+        [22.4, 4],
+        [19.4, 5.1],
+        [18.5, 3.5],
+        [17.9, 1.7],
+        [17.5, -0.7],
+        [16.4, -1.7],
+        [14.4, -4.7],
+        [12.6, -5.1],
+      ],
+    ],
+  },
+  {
+    code: "AGO",
+    altCodes: ["AO"],
+    name: { en: "Angola", zh: "安哥拉" },
+    polygons: [
+      [
+        [12.2, -6],
+        [13.2, -8.6],
+        [13.7, -10.7],
+        [12.5, -13.5],
+        [11.8, -16.8],
+        [13.4, -17],
+        [18.3, -17.4],
+        [20.9, -18.3],
+        [21, -17.9],
+        [23.2, -17.6],
+        [22, -16.2],
+        [22, -13],
+        [24, -13],
+        [24, -11],
+        [22, -9.7],
+        [21.8, -7.3],
+        [18.5, -7.9],
+        [16.9, -7.2],
+        [16, -5.9],
+        [13.2, -5.8],
+      ],
+    ],
+  },
+  {
+    code: "ZAF",
+    altCodes: ["ZA"],
+    name: { en: "South Africa", zh: "南非" },
+    aliases: ["republic of south africa", "rsa"],
+    polygons: [
+      [
+        [16.5, -28.6],
+        [17.5, -30.7],
+        [18.4, -34.1],
+        [20, -34.8],
+        [22.5, -34],
+        [25.7, -34],
+        [27.5, -33.2],
+        [30, -31.3],
+        [31.5, -29.3],
+        [32.9, -26.8],
+        [32, -26.3],
+        [31.3, -25.5],
+        [31.3, -22.4],
+        [29.4, -22.1],
+        [27, -23.6],
+        [25.6, -25.5],
+        [23.3, -25.3],
+        [20, -24.8],
+        [20, -28.4],
+        [17.4, -28.7],
+      ],
+    ],
+  },
+  {
+    code: "MDG",
+    altCodes: ["MG"],
+    name: { en: "Madagascar", zh: "马达加斯加" },
+    polygons: [
+      [
+        [49.3, -12],
+        [50.5, -15.5],
+        [49.5, -17.5],
+        [48.5, -20.5],
+        [47.1, -24.9],
+        [45.2, -25.6],
+        [43.7, -23.5],
+        [43.3, -21.8],
+        [44.4, -20],
+        [44, -17.3],
+        [46.2, -15.8],
+        [47.9, -13.7],
+      ],
+    ],
+  },
+  // 大洋洲
+  {
+    code: "AUS",
+    altCodes: ["AU"],
+    name: { en: "Australia", zh: "澳大利亚" },
+    aliases: ["澳洲", "commonwealth of australia"],
+    polygons: [
+      [
+        [113.3, -22],
+        [114.2, -26.3],
+        [115, -30],
+        [115.7, -33.5],
+        [115, -34.3],
+        [118, -35],
+        [121.5, -33.8],
+        [123.6, -33.9],
+        [126, -32.3],
+        [131.3, -31.5],
+        [134.2, -32.8],
+        [135.6, -34.9],
+        [138, -34.4],
+        [138.2, -35.6],
+        [139.6, -36.6],
+        [140.6, -38],
+        [143.6, -38.8],
+        [146.3, -39.1],
+        [148, -37.8],
+        [150, -37.4],
+        [150.7, -34.2],
+        [152.9, -31],
+        [153.6, -28.2],
+        [153.1, -25.8],
+        [150.8, -22.6],
+        [149, -20.5],
+        [146.4, -18.9],
+        [145.3, -15],
+        [143.5, -14.1],
+        [142.5, -10.7],
+        [141.6, -12.9],
+        [141.5, -16.5],
+        [140, -17.7],
+        [137.2, -15.9],
+        [135.4, -14.7],
+        [136.8, -12.2],
+        [135.8, -11.9],
+        [132.6, -11.5],
+        [131, -12.2],
+        [129.4, -14.4],
+        [127.8, -14.4],
+        [125.7, -14.5],
+        [124.4, -16.3],
+        [122.2, -18.2],
+        [121, -19.5],
+        [117.4, -20.7],
+        [114.6, -21.8],
+      ],
+      [
+        [144.7, -40.7],
+        [148.3, -40.9],
+        [147.9, -43.2],
+        [146, -43.6],
+        [145.2, -42.3],
+      ],
+    ],
+  },
+  {
+    code: "NZL",
+    altCodes: ["NZ"],
+    name: { en: "New Zealand", zh: "新西兰" },
+    aliases: ["aotearoa"],
+    polygons: [
+      [
+        [172.7, -34.4],
+        [174.3, -35.3],
+        [175.9, -37.2],
+        [178.5, -37.7],
+        [177.9, -39.2],
+        [176.9, -39.6],
+        [175.2, -41.6],
+        [174.6, -41.2],
+        [174.8, -39.8],
+        [173.8, -39.2],
+        [174.6, -38],
+        [174.6, -36.2],
+      ],
+      [
+        [172.6, -40.5],
+        [174.3, -41.3],
+        [174.2, -41.8],
+        [172.7, -43.5],
+        [171.2, -44.3],
+        [170.6, -45.9],
+        [169.3, -46.6],
+        [166.5, -46],
+        [166.7, -45.1],
+        [168.3, -44],
+        [170.6, -43],
+        [172.1, -41.4],
+      ],
+    ],
+  },
+];
@@ -330,6 +330,7 @@ export function useChatSession() {
     async (options?: {
       includeFiles?: boolean;
       includeCharts?: boolean;
+      includeCassette?: boolean;
       format?: "json" | "compressed";
     }) => {
       console.log("📤 [ChatSession] 导出会话数据:", session.id);
@@ -92,9 +92,11 @@ export function useMessageList({
                 ? ATTACHMENT_TYPES.CSV
                 : file.type.includes("json")
                   ? ATTACHMENT_TYPES.JSON
-                  : file.type.includes("image")
-                    ? ATTACHMENT_TYPES.IMAGE
-                    : ATTACHMENT_TYPES.EXCEL,
+                  : file.type.includes("markdown")
+                    ? ATTACHMENT_TYPES.MARKDOWN
+                    : file.type.includes("image")
+                      ? ATTACHMENT_TYPES.IMAGE
+                      : ATTACHMENT_TYPES.EXCEL,
           size: file.size,
           file: file as any, // Cast to File for now
           uploadedAt: file.uploadedAt || new Date(),
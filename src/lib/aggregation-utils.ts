@@ -0,0 +1,248 @@
+/**
+ * 分组聚合工具
+ * 按X轴字段与其余分组字段汇总数值字段，日期X轴可按日/周/月/季/年分桶；
+ * 服务端生成图表与客户端配置面板重新聚合共用
+ */
+
+import { TIME_BUCKETS } from "@/constants/chart-config";
+import { quantile } from "@/lib/distribution-stats";
+import { evaluateDerivedFormula, formulaFields } from "@/lib/ai-chart-system/derived-fields";
+import { parseDateValue, parseLocaleNumber, toIsoDateText } from "@/lib/value-parser";
+import type {
+  AggregateFunction,
+  AggregationSpec,
+  DataRow,
+  DerivedField,
+  DataValue,
+  TimeBucket,
+} from "@/lib/ai-chart-system/types";
+
+/** 分桶粒度从细到粗的顺序 */
+export const TIME_BUCKET_ORDER: TimeBucket[] = TIME_BUCKETS.map(bucket => bucket.value);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimeBucketKey {
+  /** 分桶标签：日与周为 "2024-03-04"（周一），月为 "2024-03"，季度为 "2024-Q1"，年为 "2024" */
+  label: string;
+  /** 分桶起始时间，用于排序 */
+  time: number;
+}
+
+const isBlank = (value: DataValue): boolean =>
+  value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+
+const toNumber = (value: DataValue): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") return parseLocaleNumber(value)?.value ?? null;
+  return null;
+};
+
+/**
+ * 将日期取值归入分桶，无法解析为日期时返回 null
+ */
+export function bucketDate(value: DataValue, bucket: TimeBucket): TimeBucketKey | null {
+  const parsed = parseDateValue(value);
+  if (!parsed) return null;
+
+  const date = parsed.date;
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (bucket) {
+    case "year":
+      return { label: String(year), time: Date.UTC(year, 0, 1) };
+    case "quarter": {
+      const quarter = Math.floor(month / 3);
+      return { label: `${year}-Q${quarter + 1}`, time: Date.UTC(year, quarter * 3, 1) };
+    }
+    case "month": {
+      const start = new Date(Date.UTC(year, month, 1));
+      return { label: toIsoDateText(start, "month"), time: start.getTime() };
+    }
+    case "week": {
+      // ISO 周：以周一为起点
+      const day = Date.UTC(year, month, date.getUTCDate());
+      const start = new Date(day - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+      return { label: toIsoDateText(start, "day"), time: start.getTime() };
+    }
+    default: {
+      const start = new Date(Date.UTC(year, month, date.getUTCDate()));
+      return { label: toIsoDateText(start, "day"), time: start.getTime() };
+    }
+  }
+}
+
+/**
+ * 选择日期分桶粒度：从 minBucket 起取分桶数不超过 maxBuckets 的最细粒度，都超过时使用年
+ */
+export function chooseTimeBucket(
+  values: DataValue[],
+  maxBuckets: number,
+  minBucket: TimeBucket = "day"
+): TimeBucket {
+  const candidates = TIME_BUCKET_ORDER.slice(TIME_BUCKET_ORDER.indexOf(minBucket));
+  return (
+    candidates.find(bucket => {
+      const labels = new Set<string>();
+      for (const value of values) {
+        const key = bucketDate(value, bucket);
+        if (key) labels.add(key.label);
+        if (labels.size > maxBuckets) return false;
+      }
+      return true;
+    }) ?? "year"
+  );
+}
+
+/**
+ * 对一组取值执行聚合；count 统计非空取值数，distinct 统计不同的非空取值数，
+ * 其余函数只使用可解析为数值的取值，没有数值时返回 null
+ */
+export function aggregateValues(values: DataValue[], fn: AggregateFunction): number | null {
+  const present = values.filter(value => !isBlank(value));
+  if (fn === "count") return present.length;
+  if (fn === "distinct") return new Set(present.map(value => String(value).trim())).size;
+
+  const numbers = present.map(toNumber).filter((value): value is number => value !== null);
+  if (numbers.length === 0) return null;
+
+  switch (fn) {
+    case "avg":
+      return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+    case "min":
+      return numbers.reduce((min, value) => Math.min(min, value), Infinity);
+    case "max":
+      return numbers.reduce((max, value) => Math.max(max, value), -Infinity);
+    case "median":
+      return quantile(
+        [...numbers].sort((a, b) => a - b),
+        0.5
+      );
+    default:
+      return numbers.reduce((sum, value) => sum + value, 0);
+  }
+}
+
+/**
+ * 需要由汇总值重新计算的派生字段：计数类聚合直接统计逐行结果，其余聚合函数
+ * 先汇总公式引用的原始字段再计算（如利润率按月求和为 Σ利润 / Σ收入，而非逐行利润率之和）
+ */
+function recomputedDerivedFields(spec: AggregationSpec): DerivedField[] {
+  return (spec.derivedFields ?? []).filter(field => {
+    const fn = spec.measures?.[field.name] ?? spec.function;
+    return spec.valueFields.includes(field.name) && fn !== "count" && fn !== "distinct";
+  });
+}
+
+/**
+ * 分组聚合
+ * 每个X轴取值（或日期分桶）与分组字段取值的组合输出一行；X轴为空或无法分桶的行被忽略。
+ * 按日期分桶时按时间排序，否则按首次出现的顺序。
+ * 派生字段在聚合后按汇总的原始字段计算，变化率、累计求和与排名按每个分组的汇总序列计算
+ */
+export function aggregateRows(rows: DataRow[], spec: AggregationSpec): DataRow[] {
+  const derived = recomputedDerivedFields(spec);
+  const inputFields = Array.from(new Set(derived.flatMap(field => formulaFields(field.formula))));
+  const groups = new Map<
+    string,
+    { row: DataRow; time: number; values: DataValue[][]; inputs: DataValue[][] }
+  >();
+
+  rows.forEach(row => {
+    const xValue = row[spec.xField];
+    if (isBlank(xValue)) return;
+
+    let x: DataValue = typeof xValue === "string" ? xValue.trim() : xValue;
+    let time = 0;
+    if (spec.timeBucket) {
+      const bucket = bucketDate(xValue, spec.timeBucket);
+      if (!bucket) return;
+      x = bucket.label;
+      time = bucket.time;
+    }
+
+    const groupValues = spec.groupBy.map(field => row[field] ?? null);
+    const key = JSON.stringify([x, ...groupValues]);
+    let group = groups.get(key);
+    if (!group) {
+      const base: DataRow = { [spec.xField]: x };
+      spec.groupBy.forEach((field, index) => {
+        base[field] = groupValues[index];
+      });
+      group = {
+        row: base,
+        time,
+        values: spec.valueFields.map(() => []),
+        inputs: inputFields.map(() => []),
+      };
+      groups.set(key, group);
+    }
+    spec.valueFields.forEach((field, index) => group!.values[index].push(row[field] ?? null));
+    inputFields.forEach((field, index) => group!.inputs[index].push(row[field] ?? null));
+  });
+
+  const ordered = Array.from(groups.values());
+  if (spec.timeBucket) {
+    ordered.sort((a, b) => a.time - b.time);
+  }
+
+  const results = ordered.map(({ row, values }) => {
+    const result: DataRow = { ...row };
+    spec.valueFields.forEach((field, index) => {
+      result[field] = aggregateValues(values[index], spec.measures?.[field] ?? spec.function);
+    });
+    return result;
+  });
+
+  if (derived.length > 0) {
+    // 按分组字段拆分序列，每个序列内按聚合后的顺序计算
+    const series = new Map<string, number[]>();
+    ordered.forEach(({ row }, index) => {
+      const key = JSON.stringify(spec.groupBy.map(field => row[field]));
+      series.set(key, [...(series.get(key) ?? []), index]);
+    });
+
+    derived.forEach(field => {
+      const fn = spec.measures?.[field.name] ?? spec.function;
+      const inputRows = ordered.map(({ inputs }) =>
+        inputFields.reduce<DataRow>((inputRow, input, index) => {
+          inputRow[input] = aggregateValues(inputs[index], fn);
+          return inputRow;
+        }, {})
+      );
+
+      series.forEach(indexes => {
+        const values = evaluateDerivedFormula(
+          field.formula,
+          indexes.map(index => inputRows[index])
+        );
+        indexes.forEach((rowIndex, index) => {
+          results[rowIndex][field.name] = values[index];
+        });
+      });
+    });
+  }
+
+  return results;
+}
+
+/**
+ * 提取参与聚合的字段取值（包括派生字段引用的原始字段），作为客户端重新聚合的数据源
+ */
+export function pickAggregationSource(rows: DataRow[], spec: AggregationSpec): DataRow[] {
+  const fields = Array.from(
+    new Set([
+      spec.xField,
+      ...spec.groupBy,
+      ...spec.valueFields,
+      ...(spec.derivedFields ?? []).flatMap(field => formulaFields(field.formula)),
+    ])
+  );
+  return rows.map(row =>
+    fields.reduce<DataRow>((picked, field) => {
+      picked[field] = row[field] ?? null;
+      return picked;
+    }, {})
+  );
+}
@@ -2,7 +2,7 @@
 // 重构现有的 AI agents 系统，使用新的 AI 服务层
 
 import { ChartType } from "@/types/chart";
-import { CHART_TYPE_LABELS } from "@/constants/chart";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 import { AIService } from "./ai/types";
 import { createServiceFromEnv } from "./ai/service-factory";
 
@@ -589,7 +589,18 @@ export class ChartIntentAgent implements AIAgent {
         ];
         break;
 
-      default: // bar
+      default: {
+        // 扩展图表类型使用插件的模板数据，其余按柱状图生成
+        const sampleData =
+          chartType === "bar" ? undefined : chartTypeRegistry.get(chartType)?.sampleData;
+        if (sampleData?.length) {
+          data = sampleData.map(row => ({ ...row }));
+          const keys = Object.keys(sampleData[0]);
+          yAxisKeys = keys.filter(key => typeof sampleData[0][key] === "number");
+          xAxisKey = keys.find(key => !yAxisKeys.includes(key)) ?? keys[0];
+          break;
+        }
+
         xAxisKey = "product";
         yAxisKeys = ["sales", "target"];
         data = [
@@ -599,6 +610,7 @@ export class ChartIntentAgent implements AIAgent {
           { product: "产品D", sales: 600, target: 700 },
         ];
         break;
+      }
     }
 
     return {
@@ -678,7 +690,7 @@ export class ChartIntentAgent implements AIAgent {
     dataMapping: DataMappingResult
   ): MetadataResult {
     return {
-      title: `${CHART_TYPE_LABELS[chartType]?.zh ?? chartType}分析`,
+      title: `${chartTypeRegistry.getLabel(chartType, "zh")}分析`,
       description: "基于数据自动生成的图表",
       config: this.generateChartConfig(dataMapping),
       labels: {
@@ -3,8 +3,10 @@
 
 import { ChartType } from "@/types/chart";
 import { ConversationContextPayload, ConversationMessageSummary } from "@/types";
-import { AIService } from "@/lib/ai/types";
+import { AIService, AIServiceProvider } from "@/lib/ai/types";
 import { createServiceFromEnv } from "@/lib/ai/service-factory";
+import { observeAIService } from "@/lib/ai/service-observer";
+import { requestStructuredOutput } from "@/lib/ai/structured-output";
 import {
   ScenarioType,
   AIChartResult,
@@ -13,35 +15,33 @@ import {
   AIChartError,
   AIChartSystemConfig,
   UnifiedDataStructure,
+  SheetSelection,
+  DataRow,
+  DataTransform,
+  DerivedField,
+  FileInfo,
 } from "./types";
-import { CHART_TYPE_LABELS } from "@/constants/chart";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 import { InputRouter, IInputRouter } from "./input-router";
 import { DataExtractor, IDataExtractor } from "./data-extractor";
 import { IntentAnalyzer, IIntentAnalyzer } from "./intent-analyzer";
 import { ChartGenerator, IChartGenerator } from "./chart-generator";
+import { DataMerger, IDataMerger } from "./data-merger";
+import { DataReshaper, IDataReshaper } from "./data-reshaper";
+import { DerivedFieldEngine, IDerivedFieldEngine } from "./derived-fields";
+import {
+  MOCK_DATA_FUNCTION,
+  MockDataPayload,
+  PromptIntentPayload,
+  createPromptIntentFunction,
+} from "./output-schemas";
 import { getUnifiedDataSnapshot, storeUnifiedDataSnapshot } from "@/lib/conversation-memory";
 
-const CHART_TYPE_KEYWORDS: Record<ChartType, string[]> = {
-  bar: ["bar", "bar chart", "柱状", "条形", "柱状图", "条形图", "柱图", "对比", "比较"],
-  line: ["line", "line chart", "折线", "折线图", "趋势", "走势", "曲线", "line graph"],
-  pie: ["pie", "pie chart", "饼图", "饼状图", "占比", "比例", "份额", "donut"],
-  area: ["area", "area chart", "面积图", "面积", "堆叠", "stacked"],
-  radar: ["radar", "radar chart", "雷达", "蛛网", "极坐标", "spider"],
-  radial: [
-    "radial",
-    "radial chart",
-    "radial bar",
-    "radial bar chart",
-    "径向",
-    "环形",
-    "仪表",
-    "gauge",
-    "progress ring",
-  ],
-};
-
 const CHART_TYPE_DISAMBIGUATION: Array<{ regex: RegExp; chartType: ChartType }> = [
   { regex: /\bradial(?:\s*-\s*|\s+)bar(?:\s+chart)?\b/, chartType: "radial" },
+  // "revenue (bars) vs. margin % (line)" 这类同时提到柱形和折线的描述视为组合图
+  { regex: /\bbars?\b[^.;。；]*\blines?\b|\blines?\b[^.;。；]*\bbars?\b/, chartType: "combo" },
+  { regex: /柱[状形]?[^。；]*[折曲]线|[折曲]线[^。；]*柱[状形]?/, chartType: "combo" },
 ];
 
 /**
@@ -52,6 +52,8 @@ export interface AIChartSystemInput {
   files?: File[];
   conversation?: ConversationContextPayload;
   sessionId?: string;
+  /** 界面中为Excel文件选择的工作表与区域，优先于描述中的指定 */
+  sheetSelection?: SheetSelection;
 }
 
 /**
@@ -77,21 +79,34 @@ export class AIChartDirector implements IAIChartDirector {
   private dataExtractor: IDataExtractor;
   private intentAnalyzer: IIntentAnalyzer;
   private chartGenerator: IChartGenerator;
+  private dataMerger: IDataMerger;
+  private dataReshaper: IDataReshaper;
+  private derivedFieldEngine: IDerivedFieldEngine;
   private aiService: AIService;
+  private servedProviders: AIServiceProvider[] = [];
   private lastError?: string;
 
   constructor(config?: Partial<AIChartSystemConfig>, aiService?: AIService) {
     console.log("🚀 [AIChartDirector] 初始化AI图表系统...");
 
     try {
-      // 初始化AI服务
-      this.aiService = aiService || createServiceFromEnv("deepseek");
+      // 初始化AI服务，记录每次响应实际来自哪个提供商
+      const baseService = aiService || createServiceFromEnv();
+      this.aiService = observeAIService(baseService, response =>
+        this.recordProvider(response.provider ?? baseService.provider)
+      );
 
       // 初始化各个组件
       this.inputRouter = new InputRouter();
       this.dataExtractor = new DataExtractor(this.aiService);
-      this.intentAnalyzer = new IntentAnalyzer(this.aiService);
+      // 意图分析经由 API 路由调用 AI，由路由返回实际响应的提供商
+      this.intentAnalyzer = new IntentAnalyzer(this.aiService, config, provider =>
+        this.recordProvider(provider)
+      );
       this.chartGenerator = new ChartGenerator();
+      this.dataMerger = new DataMerger();
+      this.dataReshaper = new DataReshaper();
+      this.derivedFieldEngine = new DerivedFieldEngine();
 
       console.log("✅ [AIChartDirector] 系统初始化完成");
     } catch (error) {
@@ -107,6 +122,7 @@ export class AIChartDirector implements IAIChartDirector {
    */
   async generateChart(input: AIChartSystemInput): Promise<AIChartResult> {
     const startTime = Date.now();
+    this.servedProviders = [];
 
     console.log("🎯 [AIChartDirector] 开始处理图表生成请求:", {
       promptLength: input.prompt.length,
@@ -121,16 +137,20 @@ export class AIChartDirector implements IAIChartDirector {
 
       // 步骤2: 根据场景处理数据
       console.log("🐛🎯 [AIChartDirector] 开始数据提取和统一化...");
-      const unifiedData = await this.extractAndUnifyData(scenario, input);
+      const extractedData = await this.extractAndUnifyData(scenario, input);
 
+      // 会话缓存保存转换前的数据，后续对话可重新转换或撤销
       const sessionId = input.sessionId || input.conversation?.sessionId;
       if (sessionId) {
         storeUnifiedDataSnapshot(sessionId, {
-          data: unifiedData.data,
-          schema: unifiedData.schema,
-          metadata: unifiedData.metadata,
+          data: extractedData.data,
+          schema: extractedData.schema,
+          metadata: extractedData.metadata,
         });
       }
+
+      // 步骤2.5: 宽表/长表转换；步骤2.6: 计算描述中给出或沿用上一张图表的派生字段
+      let unifiedData = this.deriveFields(this.reshapeData(extractedData, input), input);
       console.log("✅🐛🎯 [AIChartDirector] 数据提取完成:", {
         rows: unifiedData.data.length,
         fields: unifiedData.schema.fields.length,
@@ -178,6 +198,11 @@ export class AIChartDirector implements IAIChartDirector {
         suggestedTitle: chartIntent.suggestions.title || "未提供标题建议",
       });
 
+      // AI根据描述提出的派生字段
+      if (chartIntent.derivedFields?.length) {
+        unifiedData = this.derivedFieldEngine.apply(unifiedData, chartIntent.derivedFields);
+      }
+
       // 步骤4: 验证数据兼容性
       const compatibility = this.intentAnalyzer.validateDataCompatibility(chartIntent, unifiedData);
       console.log("🔍 [AIChartDirector] 数据兼容性检查:", {
@@ -208,11 +233,16 @@ export class AIChartDirector implements IAIChartDirector {
         configKeys: result.success ? Object.keys(result.config) : [],
       });
 
+      if (this.servedProviders.length > 0) {
+        result.metadata.aiProviders = [...this.servedProviders];
+      }
+
       const totalTime = Date.now() - startTime;
       console.log("🎉 [AIChartDirector] 图表生成成功:", {
         chartType: result.chartType,
         processingTime: totalTime,
         confidence: result.metadata.confidence,
+        aiProviders: result.metadata.aiProviders,
       });
 
       return result;
@@ -237,6 +267,15 @@ export class AIChartDirector implements IAIChartDirector {
     }
   }
 
+  /**
+   * 记录响应AI请求的提供商
+   */
+  private recordProvider(provider: AIServiceProvider): void {
+    if (!this.servedProviders.includes(provider)) {
+      this.servedProviders.push(provider);
+    }
+  }
+
   /**
    * 获取系统状态
    */
@@ -303,7 +342,7 @@ export class AIChartDirector implements IAIChartDirector {
   private async extractAndUnifyData(scenario: ScenarioType, input: AIChartSystemInput) {
     console.log("📊 [Stage2] 数据提取和统一...");
 
-    const { prompt, files = [], conversation } = input;
+    const { prompt, files = [], conversation, sheetSelection } = input;
 
     switch (scenario) {
       case "PROMPT_ONLY":
@@ -314,10 +353,10 @@ export class AIChartDirector implements IAIChartDirector {
         );
 
       case "PROMPT_WITH_FILE":
-        return this.handlePromptWithFileData(prompt, files, conversation);
+        return this.handlePromptWithFileData(prompt, files, conversation, sheetSelection);
 
       case "FILE_ONLY":
-        return this.handleFileOnlyData(files);
+        return this.handleFileOnlyData(files, sheetSelection);
 
       default:
         throw new AIChartError(
@@ -328,6 +367,84 @@ export class AIChartDirector implements IAIChartDirector {
     }
   }
 
+  /**
+   * 步骤2.5: 宽表/长表转换
+   * 描述中要求转换或撤销时按要求处理；否则沿用上一张图表的转换（含撤销状态），没有时对列名为时间的宽表自动转换
+   */
+  private reshapeData(data: UnifiedDataStructure, input: AIChartSystemInput): UnifiedDataStructure {
+    const request = this.dataReshaper.parseRequest(input.prompt);
+    const previous = input.conversation?.lastChart?.config?.transform as DataTransform | undefined;
+
+    // 复用的图表数据已是转换后的结构时，先还原为原始结构
+    let base = data;
+    if (previous && !previous.reverted && this.dataReshaper.isApplied(data.data, previous)) {
+      base = this.renormalize(data, this.dataReshaper.undo(data.data, previous));
+    }
+    const carried =
+      previous && this.dataReshaper.canApply(base.data, previous) ? previous : undefined;
+
+    if (request?.kind === "undo") {
+      if (!carried || carried.reverted) return base;
+      console.log("↩️ [Reshape] 撤销数据转换:", carried.description);
+      return { ...base, metadata: { ...base.metadata, transform: { ...carried, reverted: true } } };
+    }
+
+    const transform = request
+      ? this.dataReshaper.plan(base, request)
+      : (carried ?? this.dataReshaper.plan(base, null));
+
+    if (!transform || transform.reverted) {
+      if (request) {
+        console.warn("⚠️ [Reshape] 数据结构不满足转换要求，保持原始结构:", request);
+      }
+      return transform ? { ...base, metadata: { ...base.metadata, transform } } : base;
+    }
+
+    console.log("🔄 [Reshape] 转换数据结构:", {
+      description: transform.description,
+      automatic: transform.automatic,
+    });
+    return this.renormalize(base, this.dataReshaper.apply(base.data, transform), transform);
+  }
+
+  /**
+   * 步骤2.6: 派生字段
+   * 描述中显式给出的公式列（如 "利润率 = (收入 - 成本) / 收入"）与上一张图表的派生字段在意图分析前计算，
+   * 同名时以本次描述为准；引用的字段不存在或数据中已有同名字段时跳过
+   */
+  private deriveFields(
+    data: UnifiedDataStructure,
+    input: AIChartSystemInput
+  ): UnifiedDataStructure {
+    const requested = this.derivedFieldEngine.parseRequest(input.prompt, data.schema);
+    const previous =
+      (input.conversation?.lastChart?.config?.derivedFields as DerivedField[] | undefined) ?? [];
+    const carried = previous.filter(
+      field =>
+        !requested.some(item => item.name === field.name) &&
+        !data.schema.fields.some(existing => existing.name === field.name)
+    );
+
+    const fields = [...carried, ...requested];
+    return fields.length > 0 ? this.derivedFieldEngine.apply(data, fields) : data;
+  }
+
+  /**
+   * 重新标准化转换后的数据，保留文件、工作簿、合并信息与解析提示
+   */
+  private renormalize(
+    data: UnifiedDataStructure,
+    rows: DataRow[],
+    transform?: DataTransform
+  ): UnifiedDataStructure {
+    const { fileInfo, sourceFiles, workbook, lineage, parseWarnings } = data.metadata;
+    return this.dataExtractor.normalizeData(
+      rows,
+      data.metadata.source === "file" ? "file" : "prompt",
+      { fileInfo, sourceFiles, workbook, lineage, parseWarnings, ...(transform && { transform }) }
+    );
+  }
+
   /**
    * 步骤3: 意图分析
    */
@@ -337,17 +454,19 @@ export class AIChartDirector implements IAIChartDirector {
     data: UnifiedDataStructure
   ) {
     console.log("🎯 [Stage3] 意图分析...");
+    const sessionId = input.sessionId || input.conversation?.sessionId;
 
     switch (scenario) {
       case "PROMPT_ONLY":
       case "PROMPT_WITH_FILE":
         return this.intentAnalyzer.analyzeChartIntent(
           this.composePromptWithContext(input.prompt, input.conversation, data),
-          data
+          data,
+          sessionId
         );
 
       case "FILE_ONLY":
-        return this.intentAnalyzer.suggestBestVisualization(data);
+        return this.intentAnalyzer.suggestBestVisualization(data, sessionId);
 
       default:
         throw new AIChartError(
@@ -455,6 +574,10 @@ export class AIChartDirector implements IAIChartDirector {
 
     try {
       const composedPrompt = this.composePromptWithContext(prompt, conversation);
+      const chartTypeList = chartTypeRegistry
+        .getAll()
+        .map(plugin => `- ${plugin.type}: ${plugin.prompt.summary}`)
+        .join("\n");
       // 使用AI分析用户意图
       const systemPrompt = `你是一个专业的数据可视化专家。从用户的描述中分析他们的图表需求。
 
@@ -465,14 +588,9 @@ export class AIChartDirector implements IAIChartDirector {
 4. 如果无法确定图表类型，选择最通用的类型
 
 支持的图表类型：
-- bar: 柱状图，适合比较分类数据
-- line: 折线图，适合显示趋势变化
-- pie: 饼图，适合显示比例关系
-- area: 面积图，适合显示累计数据
-- radar: 雷达图，适合多维度对比
-- radial: 径向图，适合层次结构
-
-响应格式（严格JSON）：
+${chartTypeList}
+
+调用 submit_prompt_intent 提交结果（不支持函数调用时以同样结构的严格JSON回复）：
 {
   "chartType": "图表类型",
   "confidence": 0.0-1.0,
@@ -484,25 +602,26 @@ export class AIChartDirector implements IAIChartDirector {
   }
 }`;
 
-      const response = await this.aiService.chat({
-        messages: [{ role: "user", content: composedPrompt }],
-        systemPrompt,
-        params: {
-          temperature: 0.2, // 较低温度确保一致性
-          maxTokens: 500,
+      const parsed = await requestStructuredOutput<PromptIntentPayload>(
+        this.aiService,
+        {
+          messages: [{ role: "user", content: composedPrompt }],
+          systemPrompt,
+          params: {
+            temperature: 0.2, // 较低温度确保一致性
+            maxTokens: 500,
+          },
         },
-      });
-
-      let content = this.cleanJsonResponse(response.content);
-      const parsed = JSON.parse(content);
+        createPromptIntentFunction()
+      );
 
       return {
         chartType: parsed.chartType as ChartType,
         confidence: parsed.confidence || 0.7,
         reasoning: parsed.reasoning || "基于提示词分析",
         suggestions: {
-          title: parsed.suggestions?.title || "数据图表",
-          description: parsed.suggestions?.description || "",
+          title: parsed.suggestions.title || "数据图表",
+          description: parsed.suggestions.description,
         },
       };
     } catch (error) {
@@ -519,26 +638,8 @@ export class AIChartDirector implements IAIChartDirector {
   private fallbackKeywordAnalysis(prompt: string) {
     const lowerPrompt = prompt.toLowerCase();
 
-    // 简化的关键词匹配
-    const chartTypeKeywords = {
-      line: [
-        "line",
-        "trend",
-        "timeline",
-        "over time",
-        "growth",
-        "decline",
-        "走势",
-        "趋势",
-        "折线",
-        "变化",
-      ],
-      bar: ["bar", "column", "compare", "comparison", "vs", "对比", "柱状", "比较"],
-      pie: ["pie", "share", "percentage", "proportion", "distribution", "饼图", "占比", "比例"],
-      area: ["area", "stacked", "cumulative", "filled", "coverage", "累计", "面积", "堆叠"],
-      radar: ["radar", "spider", "multi", "dimension", "雷达", "多维", "综合"],
-      radial: ["radial", "circular", "hierarchy", "tree", "径向", "圆形", "层次"],
-    };
+    // 使用注册表中的提示关键词匹配
+    const chartTypeKeywords = chartTypeRegistry.getKeywordMap("hints");
 
     let bestMatch = { type: "bar", score: 0 }; // 默认柱状图
 
@@ -582,32 +683,31 @@ export class AIChartDirector implements IAIChartDirector {
 3. 使用中文字段名和数据值
 4. 数据应该有意义且相关
 
-响应格式（严格JSON数组）：
-[
-  {"字段1": "值", "字段2": 数值, ...},
-  {"字段1": "值", "字段2": 数值, ...}
-]`;
-
-      const response = await this.aiService.chat({
-        messages: [
-          { role: "user", content: `图表类型: ${chartIntent.chartType}\n描述: ${prompt}` },
-        ],
-        systemPrompt,
-        params: {
-          temperature: 0.4,
-          maxTokens: 800,
-        },
-      });
-
-      let content = this.cleanJsonResponse(response.content);
-      const mockData = JSON.parse(content);
+调用 submit_mock_data 提交结果（不支持函数调用时以同样结构的严格JSON回复）：
+{
+  "data": [
+    {"字段1": "值", "字段2": 数值, ...},
+    {"字段1": "值", "字段2": 数值, ...}
+  ]
+}`;
 
-      if (Array.isArray(mockData) && mockData.length > 0) {
-        console.log("✅ [MockDataGen] AI生成模拟数据成功");
-        return mockData;
-      }
+      const { data } = await requestStructuredOutput<MockDataPayload>(
+        this.aiService,
+        {
+          messages: [
+            { role: "user", content: `图表类型: ${chartIntent.chartType}\n描述: ${prompt}` },
+          ],
+          systemPrompt,
+          params: {
+            temperature: 0.4,
+            maxTokens: 800,
+          },
+        },
+        MOCK_DATA_FUNCTION
+      );
 
-      throw new Error("AI生成的数据格式不正确");
+      console.log("✅ [MockDataGen] AI生成模拟数据成功");
+      return data;
     } catch (error) {
       console.warn("🎲 [MockDataGen] AI生成失败，使用预设模板:", error);
 
@@ -620,67 +720,9 @@ export class AIChartDirector implements IAIChartDirector {
    * 生成预设模板数据
    */
   private generateTemplateData(chartType: ChartType) {
-    const templates: Record<ChartType, any[]> = {
-      bar: [
-        { category: "产品A", value: 320 },
-        { category: "产品B", value: 240 },
-        { category: "产品C", value: 180 },
-        { category: "产品D", value: 290 },
-        { category: "产品E", value: 160 },
-      ],
-      line: [
-        { time: "1月", value: 150 },
-        { time: "2月", value: 180 },
-        { time: "3月", value: 160 },
-        { time: "4月", value: 220 },
-        { time: "5月", value: 200 },
-        { time: "6月", value: 250 },
-      ],
-      pie: [
-        { category: "类别A", value: 35 },
-        { category: "类别B", value: 25 },
-        { category: "类别C", value: 20 },
-        { category: "类别D", value: 20 },
-      ],
-      area: [
-        { time: "Q1", series1: 100, series2: 80 },
-        { time: "Q2", series1: 120, series2: 95 },
-        { time: "Q3", series1: 140, series2: 110 },
-        { time: "Q4", series1: 160, series2: 125 },
-      ],
-      radar: [
-        { dimension: "技能A", score: 85 },
-        { dimension: "技能B", score: 72 },
-        { dimension: "技能C", score: 68 },
-        { dimension: "技能D", score: 79 },
-        { dimension: "技能E", score: 91 },
-      ],
-      radial: [
-        { category: "一级", level: 1, value: 100 },
-        { category: "二级A", level: 2, value: 60 },
-        { category: "二级B", level: 2, value: 40 },
-        { category: "三级A", level: 3, value: 35 },
-        { category: "三级B", level: 3, value: 25 },
-      ],
-    };
-
-    return templates[chartType] || templates.bar;
-  }
-
-  /**
-   * 清理AI响应中的JSON内容
-   */
-  private cleanJsonResponse(content: string): string {
-    let cleaned = content.trim();
-
-    // 移除markdown代码块
-    if (cleaned.startsWith("```json")) {
-      cleaned = cleaned.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-    } else if (cleaned.startsWith("```")) {
-      cleaned = cleaned.replace(/^```\s*/, "").replace(/\s*```$/, "");
-    }
-
-    return cleaned;
+    const sampleData =
+      chartTypeRegistry.get(chartType)?.sampleData ?? chartTypeRegistry.get("bar")?.sampleData;
+    return sampleData ? [...sampleData] : [];
   }
 
   /**
@@ -689,53 +731,67 @@ export class AIChartDirector implements IAIChartDirector {
   private async handlePromptWithFileData(
     prompt: string,
     files: File[],
-    _conversation?: ConversationContextPayload
+    _conversation?: ConversationContextPayload,
+    sheetSelection?: SheetSelection
   ) {
     console.log("📁📝 [PromptWithFile] 处理Prompt+文件场景...");
 
-    // 提取文件数据
-    const fileDataList = await this.dataExtractor.extractFromFiles(files);
-
-    if (fileDataList.length === 0) {
-      throw new AIChartError("data_extraction", "INSUFFICIENT_DATA", "文件数据提取失败");
-    }
-
-    // 使用第一个文件的数据（未来可以支持多文件合并）
-    const primaryFileData = fileDataList[0];
-
-    // 标准化数据
-    return this.dataExtractor.normalizeData(primaryFileData.data, "file", {
-      fileInfo: {
-        name: files[0].name,
-        size: files[0].size,
-        type: files[0].type,
-      },
-    });
+    // 描述中提到的工作表与区域在读取工作簿后按实际的工作表名识别
+    return this.unifyFileData(files, sheetSelection, prompt);
   }
 
   /**
    * 处理仅文件场景
    */
-  private async handleFileOnlyData(files: File[]) {
+  private async handleFileOnlyData(files: File[], sheetSelection?: SheetSelection) {
     console.log("📁 [FileOnly] 处理仅文件场景...");
 
+    return this.unifyFileData(files, sheetSelection);
+  }
+
+  /**
+   * 提取并标准化文件数据，多个文件时先合并（关联或纵向拼接），字段来源记录在 metadata.lineage
+   */
+  private async unifyFileData(files: File[], sheetSelection?: SheetSelection, prompt?: string) {
     // 提取文件数据
-    const fileDataList = await this.dataExtractor.extractFromFiles(files);
+    const fileDataList = await this.dataExtractor.extractFromFiles(files, sheetSelection, prompt);
 
     if (fileDataList.length === 0) {
       throw new AIChartError("data_extraction", "INSUFFICIENT_DATA", "文件数据提取失败");
     }
 
-    // 使用第一个文件的数据
-    const primaryFileData = fileDataList[0];
+    const sourceFiles: FileInfo[] = files.map(file => ({
+      name: file.name,
+      size: file.size,
+      type: file.type,
+    }));
+
+    // 文件解析中的提示（格式异常的行、自动选择的工作表等），多文件时标明所属文件
+    const extractionWarnings = fileDataList.flatMap((fileData, index) =>
+      fileDataList.length === 1
+        ? fileData.warnings
+        : fileData.warnings.map(warning => `${files[index].name}: ${warning}`)
+    );
 
-    // 标准化数据
-    return this.dataExtractor.normalizeData(primaryFileData.data, "file", {
-      fileInfo: {
-        name: files[0].name,
-        size: files[0].size,
-        type: files[0].type,
-      },
+    if (fileDataList.length === 1) {
+      return this.dataExtractor.normalizeData(fileDataList[0].data, "file", {
+        fileInfo: sourceFiles[0],
+        workbook: fileDataList[0].workbook,
+        parseWarnings: extractionWarnings,
+      });
+    }
+
+    // 多文件合并，关联方案、被忽略的文件与未匹配情况随数据一起返回
+    const merged = this.dataMerger.merge(
+      fileDataList.map((fileData, index) => ({ name: files[index].name, data: fileData.data }))
+    );
+    merged.warnings.forEach(warning => console.log("🔗 [MultiFile]", warning));
+
+    return this.dataExtractor.normalizeData(merged.data, "file", {
+      fileInfo: sourceFiles.find(file => file.name === merged.lineage.files[0]) ?? sourceFiles[0],
+      sourceFiles,
+      lineage: merged.lineage,
+      parseWarnings: [...extractionWarnings, ...merged.warnings],
     });
   }
 
@@ -937,9 +993,10 @@ function detectChartTypeFromPrompt(prompt: string): ChartType | null {
   const scores: Partial<Record<ChartType, number>> = {};
   let bestMatch: { type: ChartType; score: number } | null = null;
 
-  for (const [chartType, keywords] of Object.entries(CHART_TYPE_KEYWORDS) as [
+  const keywordMap = chartTypeRegistry.getKeywordMap("explicit");
+  for (const [chartType, keywords] of Object.entries(keywordMap) as [
     ChartType,
-    string[],
+    readonly string[],
   ][]) {
     let score = 0;
     for (const keyword of keywords) {
@@ -1000,8 +1057,5 @@ function escapeRegExp(value: string): string {
 }
 
 function getChartLabel(chartType: ChartType): string {
-  const labels = CHART_TYPE_LABELS as Record<ChartType, { en?: string; zh?: string }>;
-  const entry = labels[chartType];
-  if (!entry) return chartType;
-  return entry.zh || entry.en || chartType;
+  return chartTypeRegistry.getLabel(chartType, "zh");
 }
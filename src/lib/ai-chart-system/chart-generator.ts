@@ -2,7 +2,33 @@
 // 负责基于真实数据生成图表配置，无Mock逻辑
 
 import { ChartType } from "@/types/chart";
-import { CHART_TYPES } from "@/constants/chart";
+import { AXIS_TYPES, CHART_TYPES } from "@/constants/chart";
+import {
+  AGGREGATION_DEFAULTS,
+  OTHER_CATEGORY_LABEL,
+  TOP_N_DEFAULTS,
+} from "@/constants/chart-config";
+import { aggregateRows, pickAggregationSource } from "@/lib/aggregation-utils";
+import { rankCategories } from "@/lib/category-ranking";
+import { formatFormula, hasDatePart, inlineDerivedFields } from "./derived-fields";
+import { buildWaterfallSteps, planComboSeriesLayout } from "@/lib/data-analysis-utils";
+import {
+  computeHistogramBins,
+  groupBoxPlotStats,
+  quantile,
+  toFiniteNumbers,
+} from "@/lib/distribution-stats";
+import {
+  buildHierarchyRows,
+  buildHierarchyTree,
+  countHierarchyLeaves,
+  HierarchyNode,
+} from "@/lib/hierarchy-utils";
+import { parseTimestamp } from "@/lib/ohlc-utils";
+import { matchRegions } from "@/lib/geo-regions";
+import { getFacetValues, splitFacetRows } from "@/lib/facet-utils";
+import { chartTypeRegistry } from "@/lib/chart-registry";
+import { parseLocaleNumber } from "@/lib/value-parser";
 import {
   ChartIntent,
   UnifiedDataStructure,
@@ -11,9 +37,35 @@ import {
   DataRow,
   DataValue,
   AIChartError,
+  SeriesMapping,
+  OhlcFieldMapping,
+  FieldValueFormat,
+  AggregationSpec,
 } from "./types";
 
-const { PIE, BAR, LINE, AREA, RADAR, RADIAL } = CHART_TYPES;
+const {
+  PIE,
+  BAR,
+  LINE,
+  AREA,
+  RADAR,
+  RADIAL,
+  SCATTER,
+  BUBBLE,
+  COMBO,
+  HEATMAP,
+  WATERFALL,
+  FUNNEL,
+  HISTOGRAM,
+  BOXPLOT,
+  TREEMAP,
+  SUNBURST,
+  CANDLESTICK,
+  CHOROPLETH,
+} = CHART_TYPES;
+
+/** 按自然顺序或数值排序分类、渲染时合并 Top N 之外分类的图表类型 */
+const RANKED_CATEGORY_TYPES = Object.keys(TOP_N_DEFAULTS) as Array<keyof typeof TOP_N_DEFAULTS>;
 
 /**
  * 图表生成器接口
@@ -71,8 +123,10 @@ export class ChartGenerator implements IChartGenerator {
 
       // 生成洞察
       const insights = await this.generateInsights(processedData, intent);
+      const warnings = this.collectWarnings(processedData, intent, data);
 
-      const needsCircularTransform = intent.chartType === PIE || intent.chartType === RADIAL;
+      // 漏斗图与饼图共用 name/value 分类格式
+      const needsCircularTransform = this.outputsPieFormat(intent.chartType);
 
       console.log("🐛🎨 [ChartGenerator] 数据转换判断:", {
         chartType: intent.chartType,
@@ -103,8 +157,9 @@ export class ChartGenerator implements IChartGenerator {
         data: resultData,
         config,
         title: intent.suggestions.title,
-        description: intent.suggestions.description,
+        description: this.buildDescription(intent, data),
         insights,
+        warnings: warnings.length > 0 ? warnings : undefined,
         metadata: {
           generatedAt: new Date(),
           dataSource: data.metadata.source,
@@ -139,6 +194,10 @@ export class ChartGenerator implements IChartGenerator {
     const stats = data.metadata.statistics;
     const mapping = intent.visualMapping;
 
+    // 分组聚合后的取值用于计算数值范围；分面字段也作为分组字段，与逐组聚合的结果一致
+    const aggregation = this.getAggregationSpec(intent, data, true);
+    const valueRows = aggregation ? aggregateRows(data.data, aggregation) : data.data;
+
     // 基础配置
     const config: ChartConfig = {
       colors: this.generateColorScheme(stats.numericFields.length),
@@ -156,6 +215,9 @@ export class ChartGenerator implements IChartGenerator {
       legend: {
         show:
           mapping.yAxis.length > 1 ||
+          chartType === COMBO ||
+          chartType === HEATMAP ||
+          Boolean((chartType === SCATTER || chartType === BUBBLE) && mapping.colorBy) ||
           chartType === PIE ||
           chartType === RADIAL ||
           chartType === RADAR,
@@ -210,13 +272,189 @@ export class ChartGenerator implements IChartGenerator {
           },
         };
         break;
+
+      case SCATTER:
+      case BUBBLE:
+        // 散点/气泡图的X轴同样是数值轴
+        config.axes.xAxis.type = "value";
+        break;
+
+      case COMBO:
+        config.series = this.resolveSeriesMapping(data, intent);
+        if (stats.dateFields.includes(mapping.xAxis)) {
+          config.axes.xAxis.type = "time";
+        }
+        break;
+
+      case HEATMAP:
+        // 热力图的行列都是分类轴，数值通过颜色表达
+        config.axes = {
+          xAxis: {
+            label: this.formatAxisLabel(mapping.xAxis || "Column"),
+            type: "category",
+          },
+          yAxis: {
+            label: this.formatAxisLabel(mapping.colorBy || "Row"),
+            type: "category",
+          },
+        };
+        break;
+
+      case WATERFALL: {
+        // 瀑布图的数值范围取决于累计值，而不是单步变化量
+        const steps = buildWaterfallSteps(valueRows, mapping.xAxis, mapping.yAxis[0], true);
+        const levels = steps.flatMap(step => [step.start, step.end]);
+        const padding = (Math.max(...levels) - Math.min(...levels)) * 0.1;
+        config.axes.yAxis.min = Math.min(0, Math.min(...levels) - padding);
+        config.axes.yAxis.max = Math.max(...levels) + padding;
+        break;
+      }
+
+      case FUNNEL:
+        config.legend.show = false;
+        break;
+
+      case HISTOGRAM:
+        // 直方图的X轴为观测值区间，Y轴为频数
+        config.legend.show = false;
+        config.axes = {
+          xAxis: {
+            label: this.formatAxisLabel(mapping.xAxis),
+            type: "value",
+          },
+          yAxis: {
+            label: "Count",
+            type: "value",
+            min: 0,
+          },
+        };
+        break;
+
+      case BOXPLOT:
+        // 箱线图按分类分组，每组一个箱体
+        config.axes.xAxis.type = "category";
+        config.legend.show = mapping.xAxis !== mapping.yAxis[0];
+        break;
+
+      case TREEMAP:
+      case SUNBURST:
+        // 层级图没有坐标轴意义，X轴记录顶层层级，Y轴记录尺寸字段
+        config.legend.show = true;
+        config.axes = {
+          xAxis: {
+            label: this.formatAxisLabel(mapping.hierarchy?.[0] || mapping.xAxis),
+            type: "category",
+          },
+          yAxis: {
+            label: this.formatAxisLabel(mapping.yAxis[0] || "Count"),
+            type: "value",
+            min: 0,
+          },
+        };
+        break;
+
+      case CANDLESTICK: {
+        // K线图：日期字段使用时间轴，价格轴覆盖最高价与最低价
+        const priceFields = mapping.ohlc ? [mapping.ohlc.high, mapping.ohlc.low] : mapping.yAxis;
+        const priceRange = this.calculateYAxisRange(data.data, priceFields);
+        config.legend.show = false;
+        config.axes = {
+          xAxis: {
+            label: this.formatAxisLabel(mapping.xAxis),
+            type: stats.dateFields.includes(mapping.xAxis) ? AXIS_TYPES.TIME : AXIS_TYPES.CATEGORY,
+          },
+          yAxis: {
+            label: "Price",
+            type: AXIS_TYPES.VALUE,
+            min: priceRange.min,
+            max: priceRange.max,
+          },
+        };
+        break;
+      }
+
+      case CHOROPLETH:
+        // 地图以色阶图例代替系列图例，X轴记录地区字段，Y轴记录着色指标
+        config.legend.show = false;
+        config.axes.xAxis.type = AXIS_TYPES.CATEGORY;
+        break;
+
+      default:
+        // 扩展图表类型由插件在默认配置上调整
+        chartTypeRegistry.get(chartType)?.configureChart?.(config, data, intent);
+        break;
+    }
+
+    // 分面：记录各子图对应的分面取值
+    if (mapping.facet) {
+      config.facet = { ...mapping.facet, values: getFacetValues(data.data, mapping.facet.field) };
     }
 
-    // 数值范围计算
-    if (mapping.yAxis.length > 0) {
-      const yAxisRange = this.calculateYAxisRange(data.data, mapping.yAxis);
+    // 记录数据转换，后续对话可据此撤销
+    if (data.metadata.transform) {
+      config.transform = data.metadata.transform;
+    }
+
+    // 记录派生字段公式，后续对话据此重新计算
+    if (data.metadata.derivedFields?.length) {
+      config.derivedFields = data.metadata.derivedFields;
+    }
+
+    // 记录分组聚合；结果为标准行格式且行数不超过上限时附带聚合前的取值，供配置面板重新聚合
+    if (aggregation) {
+      config.aggregation = {
+        ...aggregation,
+        sourceRows: data.data.length,
+        source:
+          !this.outputsPieFormat(chartType) &&
+          data.data.length <= AGGREGATION_DEFAULTS.MAX_SOURCE_ROWS
+            ? pickAggregationSource(data.data, aggregation)
+            : undefined,
+      };
+    }
+
+    // 数值范围计算（双轴时左右轴分别计算）
+    const leftFields = config.series
+      ? config.series.filter(item => item.axis === "left").map(item => item.field)
+      : mapping.yAxis;
+    const rightFields = config.series
+      ? config.series.filter(item => item.axis === "right").map(item => item.field)
+      : [];
+
+    if (
+      leftFields.length > 0 &&
+      chartType !== HEATMAP &&
+      chartType !== WATERFALL &&
+      chartType !== HISTOGRAM &&
+      chartType !== TREEMAP &&
+      chartType !== SUNBURST &&
+      chartType !== CANDLESTICK &&
+      chartType !== CHOROPLETH
+    ) {
+      const yAxisRange = this.calculateYAxisRange(valueRows, leftFields);
+      config.axes.yAxis.label = this.formatAxisLabel(leftFields[0]);
       config.axes.yAxis.min = yAxisRange.min;
       config.axes.yAxis.max = yAxisRange.max;
+
+      const format = this.findValueFormat(data, this.keepFormattedFields(leftFields, aggregation));
+      if (format) {
+        config.axes.yAxis.format = format;
+      }
+    }
+
+    if (rightFields.length > 0) {
+      const secondaryRange = this.calculateYAxisRange(valueRows, rightFields);
+      config.axes.secondaryYAxis = {
+        label: this.formatAxisLabel(rightFields[0]),
+        type: "value",
+        min: secondaryRange.min,
+        max: secondaryRange.max,
+      };
+
+      const format = this.findValueFormat(data, this.keepFormattedFields(rightFields, aggregation));
+      if (format) {
+        config.axes.secondaryYAxis.format = format;
+      }
     }
 
     return config;
@@ -250,90 +488,57 @@ export class ChartGenerator implements IChartGenerator {
       }
     }
 
+    const facet = intent.visualMapping.facet;
+    if (facet && !data.schema.fields.some(field => field.name === facet.field)) {
+      throw new AIChartError(
+        "chart_generation",
+        "INVALID_REQUEST",
+        `分面字段不存在：${facet.field}`,
+        { facet }
+      );
+    }
+
     // 图表特定验证
-    this.validateChartSpecificRequirements(intent.chartType, data);
+    this.validateChartSpecificRequirements(intent.chartType, data, intent);
   }
 
   /**
-   * 图表特定验证
+   * 图表特定验证：字段要求由插件校验钩子检查，数据点数按插件声明的最小值检查
    */
   private validateChartSpecificRequirements(
     chartType: ChartType,
-    data: UnifiedDataStructure
+    data: UnifiedDataStructure,
+    intent: ChartIntent
   ): void {
-    const stats = data.metadata.statistics;
-
-    switch (chartType) {
-      case PIE:
-        if (stats.numericFields.length === 0) {
-          throw new AIChartError("chart_generation", "INVALID_REQUEST", "饼图需要至少一个数值字段");
-        }
-        if (data.data.length > 12) {
-          throw new AIChartError(
-            "chart_generation",
-            "INVALID_REQUEST",
-            "饼图类别过多（超过12个），建议使用柱状图"
-          );
-        }
-        break;
-
-      case RADIAL:
-        if (stats.numericFields.length === 0) {
-          throw new AIChartError("chart_generation", "INVALID_REQUEST", "径向图需要一个数值字段");
-        }
-        if (stats.categoricalFields.length === 0) {
-          throw new AIChartError(
-            "chart_generation",
-            "INVALID_REQUEST",
-            "径向图需要分类字段作为角度坐标"
-          );
-        }
-        break;
-
-      case LINE:
-        if (stats.numericFields.length === 0) {
-          throw new AIChartError(
-            "chart_generation",
-            "INVALID_REQUEST",
-            "折线图需要至少一个数值字段"
-          );
-        }
-        if (data.data.length < 2) {
-          throw new AIChartError(
-            "chart_generation",
-            "INSUFFICIENT_DATA",
-            "折线图需要至少2个数据点"
-          );
-        }
-        break;
+    const plugin = chartTypeRegistry.get(chartType);
+    if (!plugin) {
+      throw new AIChartError(
+        "chart_generation",
+        "INVALID_REQUEST",
+        `不支持的图表类型：${chartType}`
+      );
+    }
 
-      case BAR:
-      case AREA:
-        if (stats.numericFields.length === 0) {
-          throw new AIChartError(
-            "chart_generation",
-            "INVALID_REQUEST",
-            `${chartType}图需要至少一个数值字段`
-          );
-        }
-        break;
+    const issues = plugin.validateData?.(data, intent).issues ?? [];
+    if (issues.length > 0) {
+      throw new AIChartError("chart_generation", "INVALID_REQUEST", issues.join("；"), {
+        chartType,
+      });
+    }
 
-      case RADAR:
-        if (stats.numericFields.length < 2) {
-          throw new AIChartError(
-            "chart_generation",
-            "INVALID_REQUEST",
-            "雷达图需要至少两个数值字段用于比较"
-          );
-        }
-        if (stats.categoricalFields.length === 0) {
-          throw new AIChartError(
-            "chart_generation",
-            "INVALID_REQUEST",
-            "雷达图需要分类字段作为轴标签"
-          );
-        }
-        break;
+    // 分组聚合时按聚合后的数据点数判断
+    const aggregation = this.getAggregationSpec(intent, data);
+    const pointCount = aggregation
+      ? aggregateRows(data.data, aggregation).length
+      : data.data.length;
+    const { minDataPoints, reason } = plugin.dataRequirements;
+    if (pointCount < minDataPoints) {
+      throw new AIChartError(
+        "chart_generation",
+        "INSUFFICIENT_DATA",
+        `${plugin.label.zh}需要至少${minDataPoints}个数据点，${reason}`,
+        { chartType, pointCount }
+      );
     }
   }
 
@@ -343,25 +548,81 @@ export class ChartGenerator implements IChartGenerator {
   private preprocessData(data: UnifiedDataStructure, intent: ChartIntent): DataRow[] {
     const mapping = intent.visualMapping;
 
-    const processedData = data.data.map((row, index) => {
+    // 分面：按分面字段拆分后逐组预处理（聚合、排序互不影响），再为每行标记所属子图
+    if (mapping.facet) {
+      const facetField = mapping.facet.field;
+      const unfacetedIntent = { ...intent, visualMapping: { ...mapping, facet: undefined } };
+      return splitFacetRows(data.data, facetField).flatMap(group =>
+        this.preprocessData({ ...data, data: group.rows }, unfacetedIntent).map(row => ({
+          ...row,
+          [facetField]: group.value,
+        }))
+      );
+    }
+
+    // 插件声明了预处理钩子时，由插件负责字段映射与清理
+    const preprocess = chartTypeRegistry.get(intent.chartType)?.preprocess;
+    if (preprocess) {
+      return preprocess(data, intent);
+    }
+
+    // 层级图：按层级字段聚合为节点行，尺寸字段缺省时按行计数
+    if (intent.chartType === TREEMAP || intent.chartType === SUNBURST) {
+      const nodeRows = buildHierarchyRows(data.data, mapping.hierarchy || [], mapping.yAxis[0]);
+      console.log("✅ [ChartGenerator] 层级数据构建完成:", {
+        原始数据: data.data.length,
+        层级: mapping.hierarchy,
+        节点数: nodeRows.length,
+      });
+      return nodeRows;
+    }
+
+    // K线图：按开、高、低、收、成交量顺序输出字段，日期可解析时按时间排序
+    if (intent.chartType === CANDLESTICK && mapping.ohlc) {
+      return this.preprocessCandlestickData(data, mapping.xAxis, mapping.ohlc);
+    }
+    const isScatter = intent.chartType === SCATTER || intent.chartType === BUBBLE;
+    const isHeatmap = intent.chartType === HEATMAP;
+    const yFields = this.getValueFields(intent);
+    // 箱线图的分组字段与地图的地区编码统一转为文本；无分组时X轴即观测值字段，保持数值
+    const stringifyX =
+      isHeatmap ||
+      intent.chartType === CHOROPLETH ||
+      (intent.chartType === BOXPLOT && mapping.xAxis !== yFields[0]);
+
+    // 分组聚合：每个X轴取值（日期按粒度分桶）与 colorBy 组合汇总为一行
+    const aggregation = this.getAggregationSpec(intent, data);
+    const sourceRows = aggregation ? aggregateRows(data.data, aggregation) : data.data;
+
+    const processedData = sourceRows.map((row, index) => {
       const processed: DataRow = {};
 
-      // 复制X轴字段
+      // 复制X轴字段（日期分桶标签保持原样）
       if (mapping.xAxis && row[mapping.xAxis] !== undefined) {
-        processed[mapping.xAxis] = this.formatValue(row[mapping.xAxis], mapping.xAxis, data);
+        const xValue = aggregation?.timeBucket
+          ? row[mapping.xAxis]
+          : this.formatValue(row[mapping.xAxis], mapping.xAxis, data);
+        processed[mapping.xAxis] = stringifyX ? String(xValue) : xValue;
       }
 
       // 复制Y轴字段
-      mapping.yAxis.forEach(yField => {
+      yFields.forEach(yField => {
         if (row[yField] !== undefined) {
           const value = this.parseNumericValue(row[yField]);
           processed[yField] = value;
         }
       });
 
-      // 复制颜色分组字段
+      // 复制颜色分组字段（热力图的行维度统一转为文本分类）
       if (mapping.colorBy && row[mapping.colorBy] !== undefined) {
-        processed[mapping.colorBy] = row[mapping.colorBy];
+        processed[mapping.colorBy] = isHeatmap
+          ? String(this.formatValue(row[mapping.colorBy], mapping.colorBy, data))
+          : row[mapping.colorBy];
+      }
+
+      // 复制气泡大小字段
+      if (intent.chartType === BUBBLE && mapping.sizeBy && row[mapping.sizeBy] !== undefined) {
+        processed[mapping.sizeBy] = this.parseNumericValue(row[mapping.sizeBy]);
       }
 
       return processed;
@@ -374,20 +635,147 @@ export class ChartGenerator implements IChartGenerator {
         mapping.xAxis && row[mapping.xAxis] !== null && row[mapping.xAxis] !== undefined;
 
       // 至少要有一个有效的Y轴值
-      const hasYValue = mapping.yAxis.some(
+      const hasYValue = yFields.some(
         yField => typeof row[yField] === "number" && !isNaN(row[yField])
       );
 
+      // 散点/气泡图的坐标（以及气泡大小）必须都是有效数值
+      if (isScatter) {
+        const numericKeys = [mapping.xAxis, ...yFields];
+        if (intent.chartType === BUBBLE && mapping.sizeBy) {
+          numericKeys.push(mapping.sizeBy);
+        }
+        return numericKeys.every(key => typeof row[key] === "number" && !isNaN(row[key]));
+      }
+
+      // 热力图的单元格需要行、列两个维度
+      if (isHeatmap) {
+        return hasXValue && hasYValue && row[mapping.colorBy!] != null;
+      }
+
       return hasXValue && hasYValue;
     });
 
+    // 分类图表：有自然顺序时按自然顺序，否则按数值降序排列分类
+    const rankedData = this.isRankedCategoryChart(intent.chartType)
+      ? rankCategories(cleanedData, { categoryKey: mapping.xAxis, valueKeys: yFields }).rows
+      : cleanedData;
+
     console.log("✅ [ChartGenerator] 数据预处理完成:", {
       原始数据: data.data.length,
+      聚合: aggregation
+        ? `${aggregation.function}${aggregation.timeBucket ? ` / ${aggregation.timeBucket}` : ""}`
+        : "无",
       清理后数据: cleanedData.length,
       丢弃行数: processedData.length - cleanedData.length,
     });
 
-    return cleanedData;
+    return rankedData;
+  }
+
+  private outputsPieFormat(chartType: ChartType): boolean {
+    return chartTypeRegistry.get(chartType)?.generation?.outputFormat === "pie";
+  }
+
+  private isRankedCategoryChart(chartType: ChartType): chartType is keyof typeof TOP_N_DEFAULTS {
+    return (RANKED_CATEGORY_TYPES as ChartType[]).includes(chartType);
+  }
+
+  /**
+   * 参与映射的数值字段：散点/气泡图、热力图、瀑布图、漏斗图、分布图和地图只使用第一个数值字段
+   */
+  private getValueFields(intent: ChartIntent): string[] {
+    const yAxis = intent.visualMapping.yAxis;
+    return chartTypeRegistry.get(intent.chartType)?.generation?.singleMetric
+      ? yAxis.slice(0, 1)
+      : yAxis;
+  }
+
+  /**
+   * 分组聚合规格：按X轴字段与 colorBy（includeFacet 时还包括分面字段）分组，
+   * 散点/气泡图、分布图、层级图、K线图以及自带预处理钩子的插件图表不聚合。
+   * 数值字段中的派生字段附带展开后的公式，聚合后按汇总的原始字段重新计算
+   */
+  private getAggregationSpec(
+    intent: ChartIntent,
+    data: UnifiedDataStructure,
+    includeFacet = false
+  ): AggregationSpec | undefined {
+    const mapping = intent.visualMapping;
+    const plugin = chartTypeRegistry.get(intent.chartType);
+    if (!mapping.aggregation || plugin?.generation?.skipAggregation || plugin?.preprocess) {
+      return undefined;
+    }
+
+    const groupBy = [mapping.colorBy, includeFacet ? mapping.facet?.field : undefined].filter(
+      (field): field is string => Boolean(field) && field !== mapping.xAxis
+    );
+    const valueFields = this.getValueFields(intent);
+    const allDerived = data.metadata.derivedFields ?? [];
+    const derivedFields = allDerived
+      .filter(field => valueFields.includes(field.name))
+      .map(field => ({ name: field.name, formula: inlineDerivedFields(field.formula, allDerived) }))
+      .filter(field => !hasDatePart(field.formula));
+
+    return {
+      ...mapping.aggregation,
+      xField: mapping.xAxis,
+      groupBy: Array.from(new Set(groupBy)),
+      valueFields,
+      ...(derivedFields.length > 0 && { derivedFields }),
+    };
+  }
+
+  /**
+   * 计数类聚合（count、distinct）的结果不再带有原字段的货币、百分比格式
+   */
+  private keepFormattedFields(fields: string[], aggregation?: AggregationSpec): string[] {
+    if (!aggregation) return fields;
+    return fields.filter(field => {
+      const fn = aggregation.measures?.[field] ?? aggregation.function;
+      return fn !== "count" && fn !== "distinct";
+    });
+  }
+
+  private preprocessCandlestickData(
+    data: UnifiedDataStructure,
+    xField: string,
+    ohlc: OhlcFieldMapping
+  ): DataRow[] {
+    const priceFields = [ohlc.open, ohlc.high, ohlc.low, ohlc.close];
+    const candles = data.data
+      .map(row => {
+        const processed: DataRow = {
+          [xField]: this.formatValue(row[xField], xField, data),
+        };
+        priceFields.forEach(field => {
+          processed[field] = this.parseNumericValue(row[field]);
+        });
+        if (ohlc.volume) {
+          processed[ohlc.volume] = this.parseNumericValue(row[ohlc.volume]) ?? 0;
+        }
+        return processed;
+      })
+      .filter(
+        row =>
+          row[xField] != null &&
+          row[xField] !== "" &&
+          priceFields.every(field => typeof row[field] === "number")
+      );
+
+    if (candles.every(row => parseTimestamp(row[xField]) !== null)) {
+      candles.sort(
+        (a, b) => (parseTimestamp(a[xField]) as number) - (parseTimestamp(b[xField]) as number)
+      );
+    }
+
+    console.log("✅ [ChartGenerator] K线数据预处理完成:", {
+      原始数据: data.data.length,
+      周期数: candles.length,
+      成交量: ohlc.volume || "无",
+    });
+
+    return candles;
   }
 
   private normalizePieResult(data: DataRow[], intent: ChartIntent): DataRow[] {
@@ -413,9 +801,11 @@ export class ChartGenerator implements IChartGenerator {
           return null;
         }
 
+        const facetField = intent.visualMapping.facet?.field;
         return {
           name: String(name),
           value,
+          ...(facetField ? { [facetField]: row[facetField] } : {}),
         } as DataRow;
       })
       .filter((row): row is DataRow => row !== null);
@@ -480,13 +870,235 @@ export class ChartGenerator implements IChartGenerator {
           const metricCount = mapping.yAxis.length;
           insights.push(`雷达图展示 ${metricCount} 个指标的全景对比`);
           break;
+
+        case COMBO:
+          const comboLayout = planComboSeriesLayout(data, mapping.yAxis);
+          const rightSeries = mapping.yAxis.filter(
+            field =>
+              (mapping.series?.find(item => item.field === field) || comboLayout[field])?.axis ===
+              "right"
+          );
+          if (rightSeries.length > 0) {
+            insights.push(
+              `${rightSeries.join("、")} 使用右侧Y轴，避免与左轴指标的量级差异相互压缩`
+            );
+          }
+          break;
+
+        case HEATMAP:
+          const hottestCell = data.reduce<DataRow | null>((best, row) => {
+            const value = this.parseNumericValue(row[mapping.yAxis[0]]);
+            const bestValue = best ? this.parseNumericValue(best[mapping.yAxis[0]]) : null;
+            return value !== null && (bestValue === null || value > bestValue) ? row : best;
+          }, null);
+          if (hottestCell && mapping.colorBy) {
+            insights.push(
+              `最高单元格：${hottestCell[mapping.colorBy]} × ${hottestCell[mapping.xAxis]}（${Number(hottestCell[mapping.yAxis[0]]).toLocaleString()}）`
+            );
+          }
+          break;
+
+        case WATERFALL:
+          const steps = buildWaterfallSteps(data, mapping.xAxis, mapping.yAxis[0], true);
+          const deltas = steps.filter(step => step.kind !== "total");
+          if (deltas.length > 0) {
+            const netChange = deltas.reduce((sum, step) => sum + step.value, 0);
+            const largestGain = deltas.reduce((best, step) =>
+              step.value > best.value ? step : best
+            );
+            const largestLoss = deltas.reduce((best, step) =>
+              step.value < best.value ? step : best
+            );
+            const closing = steps[steps.length - 1].end;
+            insights.push(
+              `净变化：${netChange >= 0 ? "+" : ""}${netChange.toLocaleString()}，期末合计 ${closing.toLocaleString()}`
+            );
+            if (largestGain.value > 0) {
+              insights.push(
+                `最大增加项：${largestGain.label}（+${largestGain.value.toLocaleString()}）`
+              );
+            }
+            if (largestLoss.value < 0) {
+              insights.push(
+                `最大减少项：${largestLoss.label}（${largestLoss.value.toLocaleString()}）`
+              );
+            }
+          }
+          break;
+
+        case FUNNEL:
+          const stageValues = data.map(row => this.parseNumericValue(row[mapping.yAxis[0]]) || 0);
+          if (stageValues.length >= 2 && stageValues[0] > 0) {
+            const overall = (stageValues[stageValues.length - 1] / stageValues[0]) * 100;
+            insights.push(`整体转化率：${overall.toFixed(1)}%`);
+
+            // 找出转化率最低（流失最严重）的阶段
+            const stepRates = stageValues
+              .slice(1)
+              .map((value, index) => (stageValues[index] > 0 ? value / stageValues[index] : 0));
+            const worstIndex = stepRates.indexOf(Math.min(...stepRates));
+            insights.push(
+              `流失最多的环节：${data[worstIndex][mapping.xAxis]} → ${data[worstIndex + 1][mapping.xAxis]}（转化率 ${(stepRates[worstIndex] * 100).toFixed(1)}%）`
+            );
+          }
+          break;
+
+        case CHOROPLETH: {
+          const regionMatch = matchRegions(data.map(row => row[mapping.xAxis]));
+          const topRegion = data.reduce<DataRow | null>((best, row) => {
+            const value = this.parseNumericValue(row[mapping.yAxis[0]]);
+            if (value === null || !regionMatch.matches.has(String(row[mapping.xAxis]))) {
+              return best;
+            }
+            return !best || value > (this.parseNumericValue(best[mapping.yAxis[0]]) || 0)
+              ? row
+              : best;
+          }, null);
+          if (topRegion) {
+            insights.push(
+              `数值最高的地区：${topRegion[mapping.xAxis]}（${Number(topRegion[mapping.yAxis[0]]).toLocaleString()}）`
+            );
+          }
+          insights.push(
+            `共匹配 ${regionMatch.matches.size} 个地区（${regionMatch.mapKey === "china" ? "中国省级行政区" : "世界国家"}）`
+          );
+          break;
+        }
+
+        case HISTOGRAM:
+          const observations = toFiniteNumbers(data.map(row => row[mapping.xAxis]));
+          if (observations.length > 0) {
+            const sortedObservations = [...observations].sort((a, b) => a - b);
+            const histogram = computeHistogramBins(observations);
+            const ruleLabel =
+              histogram.method === "freedman-diaconis" ? "Freedman–Diaconis" : "Sturges";
+            insights.push(
+              `按 ${ruleLabel} 规则分为 ${histogram.bins.length} 个区间（${observations.length} 个观测值）`
+            );
+            insights.push(
+              `中位数 ${quantile(sortedObservations, 0.5).toLocaleString()}，四分位距 ${(quantile(sortedObservations, 0.75) - quantile(sortedObservations, 0.25)).toLocaleString()}`
+            );
+            const peakBin = histogram.bins.reduce((best, bin) =>
+              bin.count > best.count ? bin : best
+            );
+            insights.push(`观测值最集中的区间：${peakBin.label}（${peakBin.count} 个）`);
+          }
+          break;
+
+        case BOXPLOT:
+          const groupKey = mapping.xAxis !== mapping.yAxis[0] ? mapping.xAxis : undefined;
+          const groups = groupBoxPlotStats(data, mapping.yAxis[0], groupKey, mapping.yAxis[0]);
+          if (groups.length > 0) {
+            const highest = groups.reduce((best, group) =>
+              group.stats.median > best.stats.median ? group : best
+            );
+            insights.push(
+              groups.length > 1
+                ? `中位数最高的分组：${highest.group}（${highest.stats.median.toLocaleString()}）`
+                : `中位数 ${highest.stats.median.toLocaleString()}，四分位距 ${(highest.stats.q3 - highest.stats.q1).toLocaleString()}`
+            );
+            const outlierCount = groups.reduce(
+              (sum, group) => sum + group.stats.outliers.length,
+              0
+            );
+            if (outlierCount > 0) {
+              insights.push(`共识别出 ${outlierCount} 个异常值（超出 1.5 倍四分位距）`);
+            }
+          }
+          break;
+
+        case TREEMAP:
+        case SUNBURST:
+          const roots = buildHierarchyTree(data);
+          const hierarchyTotal = roots.reduce((sum, node) => sum + node.value, 0);
+          if (roots.length > 0 && hierarchyTotal > 0) {
+            const largestBranch = roots[0];
+            insights.push(
+              `最大分支：${largestBranch.name}（占 ${((largestBranch.value / hierarchyTotal) * 100).toFixed(1)}%）`
+            );
+            const collectLeaves = (nodes: HierarchyNode[]): HierarchyNode[] =>
+              nodes.flatMap(node =>
+                node.children.length > 0 ? collectLeaves(node.children) : [node]
+              );
+            const largestLeaf = collectLeaves(roots).reduce((best, node) =>
+              node.value > best.value ? node : best
+            );
+            insights.push(
+              `最大末级项：${largestLeaf.path}（${largestLeaf.value.toLocaleString()}）`
+            );
+            insights.push(`共 ${roots.length} 个顶层分支、${countHierarchyLeaves(roots)} 个末级项`);
+          }
+          break;
+
+        case CANDLESTICK:
+          if (mapping.ohlc && data.length > 0) {
+            const { open, high, low, close, volume } = mapping.ohlc;
+            const firstOpen = Number(data[0][open]);
+            const lastClose = Number(data[data.length - 1][close]);
+            if (firstOpen !== 0) {
+              const change = ((lastClose - firstOpen) / firstOpen) * 100;
+              insights.push(
+                `区间涨跌幅：${change >= 0 ? "+" : ""}${change.toFixed(2)}%（${firstOpen.toLocaleString()} → ${lastClose.toLocaleString()}）`
+              );
+            }
+            const peak = data.reduce((best, row) =>
+              Number(row[high]) > Number(best[high]) ? row : best
+            );
+            const trough = data.reduce((best, row) =>
+              Number(row[low]) < Number(best[low]) ? row : best
+            );
+            insights.push(
+              `最高价 ${Number(peak[high]).toLocaleString()}（${peak[mapping.xAxis]}），最低价 ${Number(trough[low]).toLocaleString()}（${trough[mapping.xAxis]}）`
+            );
+            const risingCount = data.filter(row => Number(row[close]) >= Number(row[open])).length;
+            insights.push(`上涨 ${risingCount} 个周期，下跌 ${data.length - risingCount} 个周期`);
+            if (volume) {
+              const busiest = data.reduce((best, row) =>
+                Number(row[volume]) > Number(best[volume]) ? row : best
+              );
+              insights.push(
+                `成交量最大：${busiest[mapping.xAxis]}（${Number(busiest[volume]).toLocaleString()}）`
+              );
+            }
+          }
+          break;
+
+        case SCATTER:
+        case BUBBLE:
+          const correlation = this.calculateCorrelation(data, mapping.xAxis, mapping.yAxis[0]);
+          if (correlation !== null) {
+            const strength =
+              Math.abs(correlation) >= 0.7 ? "强" : Math.abs(correlation) >= 0.4 ? "中等" : "弱";
+            const direction = correlation >= 0 ? "正" : "负";
+            insights.push(
+              `${mapping.xAxis} 与 ${mapping.yAxis[0]} 呈${strength}${direction}相关（r = ${correlation.toFixed(2)}）`
+            );
+          }
+          break;
+
+        default:
+          // 扩展图表类型的洞察由插件提供
+          insights.push(
+            ...(chartTypeRegistry.get(intent.chartType)?.generateInsights?.(data, intent) ?? [])
+          );
+          break;
       }
 
-      // 数据质量洞察
-      const nullCount = data.reduce(
-        (count, row) => count + mapping.yAxis.filter(field => row[field] == null).length,
-        0
-      );
+      if (mapping.facet) {
+        const panelCount = getFacetValues(data, mapping.facet.field).length;
+        insights.push(
+          `按 ${mapping.facet.field} 拆分为 ${panelCount} 个子图（${mapping.facet.axes === "shared" ? "共享" : "独立"}数值轴）`
+        );
+      }
+
+      // 数据质量洞察（层级图的节点行已聚合，不再包含原始数值字段）
+      const isHierarchy = intent.chartType === TREEMAP || intent.chartType === SUNBURST;
+      const nullCount = isHierarchy
+        ? 0
+        : data.reduce(
+            (count, row) => count + mapping.yAxis.filter(field => row[field] == null).length,
+            0
+          );
 
       if (nullCount > 0) {
         insights.push(`发现 ${nullCount} 个缺失数值，已自动处理`);
@@ -498,6 +1110,78 @@ export class ChartGenerator implements IChartGenerator {
     return insights.slice(0, 6); // 限制洞察数量
   }
 
+  /**
+   * 图表描述：映射中用到派生字段时附上其公式
+   */
+  private buildDescription(intent: ChartIntent, data: UnifiedDataStructure): string {
+    const mapping = intent.visualMapping;
+    const mappedFields = new Set([
+      mapping.xAxis,
+      ...mapping.yAxis,
+      mapping.colorBy,
+      mapping.sizeBy,
+      mapping.facet?.field,
+      ...(mapping.hierarchy ?? []),
+    ]);
+    const formulas = (data.metadata.derivedFields ?? [])
+      .filter(field => mappedFields.has(field.name))
+      .map(field => `${field.name} = ${formatFormula(field.formula)}`);
+
+    const description = intent.suggestions.description;
+    return formulas.length > 0
+      ? [description, `公式：${formulas.join("；")}`].filter(Boolean).join(" ")
+      : description;
+  }
+
+  /**
+   * 收集非致命警告：数据解析与多文件合并的提示、地图中未能匹配到底图的地区
+   */
+  private collectWarnings(
+    data: DataRow[],
+    intent: ChartIntent,
+    source: UnifiedDataStructure
+  ): string[] {
+    const warnings: string[] = [...(source.metadata.parseWarnings ?? [])];
+
+    const transform = source.metadata.transform;
+    if (transform && !transform.reverted) {
+      warnings.push(
+        `${transform.automatic ? "已自动" : "已按要求"}${transform.description}，发送"撤销转换"可恢复原始结构`
+      );
+    }
+
+    if (this.isRankedCategoryChart(intent.chartType)) {
+      const limit = TOP_N_DEFAULTS[intent.chartType];
+      const facetField = intent.visualMapping.facet?.field;
+      const panels = facetField ? splitFacetRows(data, facetField) : [{ rows: data }];
+      const foldedCount = Math.max(
+        ...panels.map(
+          panel =>
+            rankCategories(panel.rows, {
+              categoryKey: intent.visualMapping.xAxis,
+              valueKeys: this.getValueFields(intent),
+              limit,
+            }).folded.length
+        )
+      );
+      if (foldedCount > 0) {
+        warnings.push(
+          `默认只显示数值最大的 ${limit} 个分类，其余 ${foldedCount} 个合并为"${OTHER_CATEGORY_LABEL}"，可在选项面板调整 Top N`
+        );
+      }
+    }
+
+    if (intent.chartType === CHOROPLETH) {
+      const { unmatched } = matchRegions(data.map(row => row[intent.visualMapping.xAxis]));
+      if (unmatched.length > 0) {
+        warnings.push(`未匹配的地区（${unmatched.length}）：${unmatched.join("、")}`);
+        console.warn("⚠️ [ChartGenerator] 地图中存在未匹配的地区:", unmatched);
+      }
+    }
+
+    return warnings;
+  }
+
   // 辅助方法
 
   private generateColorScheme(seriesCount: number): string[] {
@@ -534,6 +1218,24 @@ export class ChartGenerator implements IChartGenerator {
     return fieldName.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase());
   }
 
+  /**
+   * 数值轴的取值格式：取首个带格式的字段，轴上各字段格式类型不一致时不设置
+   */
+  private findValueFormat(
+    data: UnifiedDataStructure,
+    fieldNames: string[]
+  ): FieldValueFormat | undefined {
+    const formats = fieldNames.map(
+      name => data.schema.fields.find(field => field.name === name)?.format
+    );
+    const [first] = formats;
+    if (!first || first.kind === "date") return undefined;
+
+    return formats.every(format => format?.kind === first.kind && format.symbol === first.symbol)
+      ? first
+      : undefined;
+  }
+
   private inferAxisType(
     fieldName: string,
     data: UnifiedDataStructure
@@ -619,10 +1321,8 @@ export class ChartGenerator implements IChartGenerator {
     }
 
     if (typeof value === "string") {
-      // 清理字符串：移除货币符号、千分位分隔符等
-      const cleaned = value.replace(/[,$%¥€£]/g, "").trim();
-      const parsed = parseFloat(cleaned);
-      return isNaN(parsed) ? null : parsed;
+      // 按本地化格式解析：货币符号、千分位、百分比、括号负数与万/亿等数量级
+      return parseLocaleNumber(value)?.value ?? null;
     }
 
     return null;
@@ -653,6 +1353,42 @@ export class ChartGenerator implements IChartGenerator {
     return { min, max, average, total };
   }
 
+  /**
+   * 解析组合图系列映射：沿用意图中的分配，缺失的系列按量级自动规划
+   */
+  private resolveSeriesMapping(data: UnifiedDataStructure, intent: ChartIntent): SeriesMapping[] {
+    const yFields = intent.visualMapping.yAxis;
+    const existing = intent.visualMapping.series || [];
+    const planned = planComboSeriesLayout(data.data, yFields);
+
+    return yFields.map(
+      field => existing.find(item => item.field === field) || { field, ...planned[field] }
+    );
+  }
+
+  private calculateCorrelation(data: DataRow[], xField: string, yField: string): number | null {
+    const points = data
+      .map(row => [this.parseNumericValue(row[xField]), this.parseNumericValue(row[yField])])
+      .filter((point): point is [number, number] => point[0] !== null && point[1] !== null);
+
+    if (points.length < 2) return null;
+
+    const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+    const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    points.forEach(([x, y]) => {
+      covariance += (x - meanX) * (y - meanY);
+      varianceX += (x - meanX) ** 2;
+      varianceY += (y - meanY) ** 2;
+    });
+
+    if (varianceX === 0 || varianceY === 0) return null;
+    return covariance / Math.sqrt(varianceX * varianceY);
+  }
+
   private calculateTrend(data: DataRow[], field: string): number {
     if (data.length < 2) return 0;
 
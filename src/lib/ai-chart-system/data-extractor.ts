@@ -1,9 +1,14 @@
 // Data Extractor - 数据提取器
 // 负责统一的数据提取和处理，确保系统内数据源唯一性
 
-import * as XLSX from "xlsx";
 import { AIService } from "@/lib/ai/types";
 import { createServiceFromEnv } from "@/lib/ai/service-factory";
+import { requestStructuredOutput } from "@/lib/ai/structured-output";
+import { decodeTextBuffer, parseCsv } from "@/lib/csv-parser";
+import { parseJsonRecords, parseNdjsonRecords } from "@/lib/json-records";
+import { parseMarkdownTable } from "@/lib/markdown-table";
+import { extractWorkbookTable, parseSheetSelection, readWorkbook } from "@/lib/workbook-utils";
+import { analyzeColumn, parseFieldValue } from "@/lib/value-parser";
 import {
   UnifiedDataStructure,
   ExtractedData,
@@ -12,10 +17,11 @@ import {
   DataRow,
   DataValue,
   DataField,
-  FieldType,
   DataStatistics,
+  SheetSelection,
   AIChartError,
 } from "./types";
+import { EXTRACTED_DATA_FUNCTION, ExtractedDataPayload } from "./output-schemas";
 
 /**
  * 数据提取器接口
@@ -24,8 +30,15 @@ export interface IDataExtractor {
   /** 从prompt提取数据 */
   extractFromPrompt(prompt: string): Promise<ExtractedData | null>;
 
-  /** 从文件提取数据 */
-  extractFromFiles(files: File[]): Promise<ExtractedData[]>;
+  /**
+   * 从文件提取数据，selection 指定Excel文件使用的工作表与区域；
+   * 提供 prompt 时按工作簿中实际的工作表名从描述中识别选择，selection 优先
+   */
+  extractFromFiles(
+    files: File[],
+    selection?: SheetSelection,
+    prompt?: string
+  ): Promise<ExtractedData[]>;
 
   /** 标准化数据结构 */
   normalizeData(
@@ -43,7 +56,7 @@ export class DataExtractor implements IDataExtractor {
 
   constructor(aiService?: AIService) {
     // 使用提供的AI服务或从环境变量创建
-    this.aiService = aiService || createServiceFromEnv("deepseek");
+    this.aiService = aiService || createServiceFromEnv();
   }
 
   /**
@@ -78,7 +91,11 @@ export class DataExtractor implements IDataExtractor {
   /**
    * 从文件提取数据
    */
-  async extractFromFiles(files: File[]): Promise<ExtractedData[]> {
+  async extractFromFiles(
+    files: File[],
+    selection?: SheetSelection,
+    prompt?: string
+  ): Promise<ExtractedData[]> {
     console.log("📁 [DataExtractor] 开始处理文件数据，文件数量:", files.length);
 
     const results: ExtractedData[] = [];
@@ -93,11 +110,22 @@ export class DataExtractor implements IDataExtractor {
         switch (fileExtension) {
           case ".xlsx":
           case ".xls":
-            extractedData = await this.extractFromExcel(file);
+            extractedData = await this.extractFromExcel(file, selection, prompt);
             break;
 
           case ".csv":
-            extractedData = await this.extractFromCSV(file);
+          case ".tsv":
+            extractedData = await this.extractFromCSV(file, fileExtension === ".tsv");
+            break;
+
+          case ".json":
+          case ".ndjson":
+            extractedData = await this.extractFromJSON(file, fileExtension === ".ndjson");
+            break;
+
+          case ".md":
+          case ".markdown":
+            extractedData = await this.extractFromMarkdown(file);
             break;
 
           default:
@@ -113,6 +141,7 @@ export class DataExtractor implements IDataExtractor {
           file: file.name,
           rows: extractedData.data.length,
           confidence: extractedData.confidence,
+          warnings: extractedData.warnings.length,
         });
       } catch (error) {
         console.error(`❌ [DataExtractor] 文件 ${file.name} 处理失败:`, error);
@@ -143,12 +172,16 @@ export class DataExtractor implements IDataExtractor {
         throw new AIChartError("data_extraction", "INSUFFICIENT_DATA", "没有可处理的数据");
       }
 
-      // 生成数据架构
-      const schema = this.generateDataSchema(rawData);
+      // 生成数据架构（按列识别数值、货币、百分比与日期格式）
+      const { schema, parseWarnings } = this.generateDataSchema(rawData);
+      parseWarnings.forEach(warning => console.warn("⚠️ [DataExtractor]", warning));
 
       // 清理和标准化数据
       const cleanedData = this.cleanData(rawData, schema);
 
+      // 调用方传入的提示（文件解析、多文件合并）在前，重新标准化时去掉重复项
+      const warnings = Array.from(new Set([...(metadata?.parseWarnings ?? []), ...parseWarnings]));
+
       // 生成元数据
       const fullMetadata: DataMetadata = {
         source,
@@ -156,6 +189,7 @@ export class DataExtractor implements IDataExtractor {
         preview: cleanedData.slice(0, 5), // 前5行预览
         statistics: this.calculateStatistics(cleanedData, schema),
         ...metadata,
+        ...(warnings.length > 0 && { parseWarnings: warnings }),
       };
 
       // 验证数据质量
@@ -197,7 +231,7 @@ export class DataExtractor implements IDataExtractor {
 3. 保持数据的原始含义
 4. 如果没有具体数据，返回 hasData: false
 
-响应格式（严格JSON）：
+调用 submit_extracted_data 提交结果（不支持函数调用时以同样结构的严格JSON回复）：
 {
   "hasData": boolean,
   "data": [
@@ -210,20 +244,20 @@ export class DataExtractor implements IDataExtractor {
 重要：只有在用户明确提供了具体数值、列表或表格时才提取数据。`;
 
     try {
-      const response = await this.aiService.chat({
-        messages: [{ role: "user", content: prompt }],
-        systemPrompt,
-        params: {
-          temperature: 0.1, // 极低温度确保准确性
-          maxTokens: 1000,
+      const parsed = await requestStructuredOutput<ExtractedDataPayload>(
+        this.aiService,
+        {
+          messages: [{ role: "user", content: prompt }],
+          systemPrompt,
+          params: {
+            temperature: 0.1, // 极低温度确保准确性
+            maxTokens: 1000,
+          },
         },
-      });
-
-      // 解析AI响应
-      let content = this.cleanJsonResponse(response.content);
-      const parsed = JSON.parse(content);
+        EXTRACTED_DATA_FUNCTION
+      );
 
-      if (!parsed.hasData || !parsed.data || !Array.isArray(parsed.data)) {
+      if (!parsed.hasData || parsed.data.length === 0) {
         console.log("🤖 [AI Extract] AI判断没有可提取的数据");
         return null;
       }
@@ -423,90 +457,49 @@ export class DataExtractor implements IDataExtractor {
 
   /**
    * Excel文件数据提取
+   * 列出所有工作表的数据区域，按指定的工作表/区域或自动选择最像数据表的区域，
+   * 合并单元格与多行表头合并为单行字段名
    */
-  private async extractFromExcel(file: File): Promise<ExtractedData> {
-    console.log("🐛📊 [Excel Parser] 开始解析Excel文件:", file.name);
-
+  private async extractFromExcel(
+    file: File,
+    selection?: SheetSelection,
+    prompt?: string
+  ): Promise<ExtractedData> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
 
       reader.onload = e => {
         try {
-          console.log("🐛📊 [Excel Parser] 文件读取完成，开始解析...");
-
-          const data = new Uint8Array(e.target?.result as ArrayBuffer);
-          console.log("🐛📊 [Excel Parser] ArrayBuffer大小:", data.length);
-
-          const workbook = XLSX.read(data, { type: "array" });
-          console.log(
-            "🐛📊 [Excel Parser] Workbook解析完成，工作表数量:",
-            workbook.SheetNames.length
-          );
-          console.log("🐛📊 [Excel Parser] 工作表名称:", workbook.SheetNames);
-
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          console.log("🐛📊 [Excel Parser] 选择工作表:", sheetName);
-
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-          console.log("🐛📊 [Excel Parser] JSON转换完成，原始数据行数:", jsonData.length);
-          console.log("🐛📊 [Excel Parser] 前3行原始数据:", jsonData.slice(0, 3));
-
-          if (jsonData.length === 0) {
-            console.error("🐛📊 [Excel Parser] 文件内容为空");
-            reject(new AIChartError("data_extraction", "INSUFFICIENT_DATA", "文件内容为空"));
-            return;
-          }
-
-          const headers = jsonData[0] as string[];
-          console.log("🐛📊 [Excel Parser] 解析到的表头:", headers);
-
-          const rows = jsonData
-            .slice(1)
-            .filter(
-              (row: any) => Array.isArray(row) && row.some(cell => cell !== null && cell !== "")
-            ) as any[][];
-
-          console.log("🐛📊 [Excel Parser] 过滤后的数据行数:", rows.length);
-          console.log("🐛📊 [Excel Parser] 前2行过滤后数据:", rows.slice(0, 2));
-
-          const structuredData = rows.map((row: unknown[], rowIndex: number) => {
-            const obj: DataRow = {};
-            headers.forEach((header, index) => {
-              const fieldName = header || `Column_${index + 1}`;
-              const value = row[index];
-              obj[fieldName] = value === undefined || value === null ? "" : (value as DataValue);
-            });
-
-            if (rowIndex < 2) {
-              console.log(`🐛📊 [Excel Parser] 结构化数据行 ${rowIndex}:`, obj);
-            }
-
-            return obj;
+          const workbook = readWorkbook(e.target?.result as ArrayBuffer);
+          const table = extractWorkbookTable(workbook, {
+            ...(prompt && parseSheetSelection(prompt, workbook.SheetNames)),
+            ...selection,
           });
 
-          console.log("🐛📊 [Excel Parser] 最终结构化数据行数:", structuredData.length);
-          console.log("🐛📊 [Excel Parser] 数据字段:", Object.keys(structuredData[0] || {}));
-
-          const result = {
-            data: structuredData,
-            confidence: 0.9,
-            extractionMethod: "file_parsing" as const,
-            warnings: structuredData.length === 0 ? ["文件中没有有效数据行"] : [],
-          };
-
-          console.log("✅🐛📊 [Excel Parser] Excel解析成功:", {
-            rowCount: result.data.length,
-            confidence: result.confidence,
-            hasWarnings: result.warnings.length > 0,
+          console.log("📊 [Excel Parser] 数据区域识别完成:", {
+            sheets: workbook.SheetNames,
+            sheet: table.info.sheet,
+            range: table.info.region.range,
+            headerRows: table.info.region.headerRows,
+            autoSelected: table.info.autoSelected,
+            rows: table.rows.length,
           });
 
-          resolve(result);
-        } catch (error) {
-          console.error("❌🐛📊 [Excel Parser] Excel解析失败:", {
-            error: error instanceof Error ? error.message : error,
-            stack: error instanceof Error ? error.stack : undefined,
+          resolve({
+            data: table.rows,
+            confidence: table.info.autoSelected && table.warnings.length > 0 ? 0.8 : 0.9,
+            extractionMethod: "file_parsing",
+            warnings:
+              table.rows.length === 0
+                ? [...table.warnings, "文件中没有有效数据行"]
+                : table.warnings,
+            workbook: table.info,
           });
+        } catch (error) {
+          if (error instanceof AIChartError) {
+            reject(error);
+            return;
+          }
           reject(
             new AIChartError(
               "data_extraction",
@@ -517,50 +510,52 @@ export class DataExtractor implements IDataExtractor {
         }
       };
 
-      reader.onerror = error => {
-        console.error("❌🐛📊 [Excel Parser] 文件读取失败:", error);
-        reject(new AIChartError("data_extraction", "UNKNOWN_ERROR", "文件读取失败"));
-      };
+      reader.onerror = () =>
+        reject(new AIChartError("data_extraction", "UNKNOWN_ERROR", "Excel文件读取失败"));
 
-      console.log("🐛📊 [Excel Parser] 开始读取文件为ArrayBuffer...");
       reader.readAsArrayBuffer(file);
     });
   }
 
   /**
-   * CSV文件数据提取
+   * CSV/TSV文件数据提取
+   * 自动识别编码（BOM、UTF-8、GBK）、分隔符、引号与表头，格式异常的行记入 warnings
    */
-  private async extractFromCSV(file: File): Promise<ExtractedData> {
+  private async extractFromCSV(file: File, isTsv = false): Promise<ExtractedData> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
 
       reader.onload = e => {
         try {
-          const csvText = e.target?.result as string;
-          const lines = csvText.split("\n").filter(line => line.trim());
+          const { text, encoding } = decodeTextBuffer(e.target?.result as ArrayBuffer);
+          const parsed = parseCsv(text, isTsv ? { delimiter: "\t" } : {});
+
+          console.log("📄 [CSV Parser] 格式识别完成:", {
+            encoding,
+            delimiter: parsed.dialect.delimiter,
+            quote: parsed.dialect.quote,
+            hasHeader: parsed.dialect.hasHeader,
+            rows: parsed.rows.length,
+          });
 
-          if (lines.length === 0) {
+          if (parsed.rows.length === 0) {
             reject(new AIChartError("data_extraction", "INSUFFICIENT_DATA", "CSV文件内容为空"));
             return;
           }
 
-          const headers = lines[0].split(",").map(h => h.trim());
-          const dataRows = lines.slice(1);
-
-          const structuredData = dataRows.map(row => {
-            const values = row.split(",").map(v => v.trim());
-            const obj: DataRow = {};
-            headers.forEach((header, index) => {
-              obj[header] = values[index] || "";
-            });
-            return obj;
-          });
+          const warnings = [...parsed.warnings];
+          if (encoding === "gbk") {
+            warnings.unshift("文件按 GBK 编码解析");
+          }
+          if (!parsed.dialect.hasHeader) {
+            warnings.unshift("未识别到表头，字段按 Column_1、Column_2… 命名");
+          }
 
           resolve({
-            data: structuredData,
-            confidence: 0.9,
+            data: parsed.rows,
+            confidence: parsed.warnings.length > 0 ? 0.8 : 0.9,
             extractionMethod: "file_parsing",
-            warnings: [],
+            warnings,
           });
         } catch (error) {
           reject(
@@ -576,33 +571,117 @@ export class DataExtractor implements IDataExtractor {
       reader.onerror = () =>
         reject(new AIChartError("data_extraction", "UNKNOWN_ERROR", "CSV文件读取失败"));
 
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
+    });
+  }
+
+  /**
+   * JSON/NDJSON文件数据提取
+   * 定位文档中的记录数组，嵌套对象展开为点号分隔的字段名
+   */
+  private async extractFromJSON(file: File, isNdjson = false): Promise<ExtractedData> {
+    const text = await this.readTextFile(file);
+
+    let parsed;
+    try {
+      parsed = isNdjson ? parseNdjsonRecords(text) : parseJsonRecords(text);
+    } catch (error) {
+      throw new AIChartError(
+        "data_extraction",
+        "INVALID_REQUEST",
+        `JSON文件格式错误: ${error instanceof Error ? error.message : "未知错误"}`
+      );
+    }
+
+    console.log("🧾 [JSON Parser] 记录识别完成:", {
+      format: isNdjson ? "ndjson" : "json",
+      path: parsed.path,
+      fields: parsed.headers.length,
+      rows: parsed.rows.length,
+    });
+
+    if (parsed.rows.length === 0) {
+      throw new AIChartError("data_extraction", "INSUFFICIENT_DATA", "JSON文件中没有可用的记录");
+    }
+
+    return {
+      data: parsed.rows,
+      confidence: parsed.warnings.length > 0 ? 0.8 : 0.9,
+      extractionMethod: "file_parsing",
+      warnings: parsed.warnings,
+    };
+  }
+
+  /**
+   * Markdown文件数据提取，使用文档中规模最大的管道表格
+   */
+  private async extractFromMarkdown(file: File): Promise<ExtractedData> {
+    const parsed = parseMarkdownTable(await this.readTextFile(file));
+
+    if (!parsed || parsed.rows.length === 0) {
+      throw new AIChartError("data_extraction", "INSUFFICIENT_DATA", "Markdown文件中没有找到表格");
+    }
+
+    console.log("🧾 [Markdown Parser] 表格识别完成:", {
+      tables: parsed.tableCount,
+      line: parsed.line,
+      fields: parsed.headers.length,
+      rows: parsed.rows.length,
+    });
+
+    return {
+      data: parsed.rows,
+      confidence: parsed.warnings.length > 0 ? 0.8 : 0.9,
+      extractionMethod: "file_parsing",
+      warnings: parsed.warnings,
+    };
+  }
+
+  /**
+   * 读取文本文件，自动识别编码
+   */
+  private readTextFile(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+
+      reader.onload = e => resolve(decodeTextBuffer(e.target?.result as ArrayBuffer).text);
+      reader.onerror = () =>
+        reject(new AIChartError("data_extraction", "UNKNOWN_ERROR", `文件读取失败: ${file.name}`));
+
+      reader.readAsArrayBuffer(file);
     });
   }
 
   // 辅助方法们...
 
-  private generateDataSchema(data: DataRow[]): DataSchema {
+  private generateDataSchema(data: DataRow[]): { schema: DataSchema; parseWarnings: string[] } {
     if (data.length === 0) {
       return {
-        fields: [],
-        rowCount: 0,
-        qualityScore: 0,
+        schema: {
+          fields: [],
+          rowCount: 0,
+          qualityScore: 0,
+        },
+        parseWarnings: [],
       };
     }
 
     const sampleSize = Math.min(data.length, 100);
     const sample = data.slice(0, sampleSize);
     const fieldInfo: Record<string, any> = {};
+    const parseWarnings: string[] = [];
 
     // 分析每个字段
     Object.keys(data[0] || {}).forEach(fieldName => {
       const values = sample.map(row => row[fieldName]).filter(v => v != null);
       const uniqueValues = new Set(values);
+      const analysis = analyzeColumn(fieldName, values);
+      parseWarnings.push(...analysis.warnings);
 
       fieldInfo[fieldName] = {
         name: fieldName,
-        type: this.inferFieldType(values),
+        type: analysis.type,
+        ...(analysis.format && { format: analysis.format }),
         nullable: values.length < sample.length,
         unique: uniqueValues.size === values.length && values.length > 1,
         sampleValues: Array.from(uniqueValues).slice(0, 5),
@@ -613,33 +692,15 @@ export class DataExtractor implements IDataExtractor {
     const qualityScore = this.calculateQualityScore(data, fields);
 
     return {
-      fields,
-      rowCount: data.length,
-      qualityScore,
+      schema: {
+        fields,
+        rowCount: data.length,
+        qualityScore,
+      },
+      parseWarnings,
     };
   }
 
-  private inferFieldType(values: DataValue[]): FieldType {
-    if (values.length === 0) return "string";
-
-    const numericCount = values.filter(v => v !== null && !isNaN(Number(v))).length;
-    const dateCount = values.filter(
-      v => v !== null && typeof v === "string" && !isNaN(Date.parse(v))
-    ).length;
-    const booleanCount = values.filter(
-      v =>
-        typeof v === "boolean" ||
-        (v !== null && ["true", "false", "是", "否", "yes", "no"].includes(String(v).toLowerCase()))
-    ).length;
-
-    const total = values.length;
-
-    if (booleanCount / total > 0.8) return "boolean";
-    if (numericCount / total > 0.8) return "number";
-    if (dateCount / total > 0.6) return "date";
-    return "string";
-  }
-
   private calculateQualityScore(data: DataRow[], fields: DataField[]): number {
     let score = 1.0;
 
@@ -663,7 +724,7 @@ export class DataExtractor implements IDataExtractor {
     const consistencyScore =
       fields.reduce((avg, field) => {
         const values = data.map(row => row[field.name]).filter(v => v != null);
-        const typeConsistency = this.calculateTypeConsistency(values, field.type);
+        const typeConsistency = this.calculateTypeConsistency(values, field);
         return avg + typeConsistency;
       }, 0) / fields.length;
 
@@ -672,14 +733,18 @@ export class DataExtractor implements IDataExtractor {
     return Math.max(0, Math.min(1, score));
   }
 
-  private calculateTypeConsistency(values: DataValue[], expectedType: string): number {
+  private calculateTypeConsistency(values: DataValue[], field: DataField): number {
     if (values.length === 0) return 1;
 
     let consistentCount = 0;
 
     for (const value of values) {
-      const actualType = this.inferFieldType([value]);
-      if (actualType === expectedType) {
+      // 能按字段格式解析的取值视为一致（布尔字段要求取值本身为布尔写法）
+      const consistent =
+        field.type === "boolean"
+          ? analyzeColumn(field.name, [value]).type === "boolean"
+          : parseFieldValue(value, field.type, field.format) !== null;
+      if (consistent) {
         consistentCount++;
       }
     }
@@ -692,37 +757,8 @@ export class DataExtractor implements IDataExtractor {
       const cleanedRow: DataRow = {};
 
       schema.fields.forEach(field => {
-        let value = row[field.name];
-
-        // 类型转换和清理
-        switch (field.type) {
-          case "number":
-            if (value == null) {
-              value = null;
-            } else {
-              const numValue = Number(value);
-              value = isNaN(numValue) ? null : numValue;
-            }
-            break;
-          case "date":
-            if (value != null && (typeof value === "string" || typeof value === "number")) {
-              const date = new Date(value);
-              value = isNaN(date.getTime()) ? null : date.toISOString();
-            } else {
-              value = null;
-            }
-            break;
-          case "boolean":
-            if (value != null) {
-              const str = String(value).toLowerCase();
-              value = ["true", "1", "是", "yes"].includes(str);
-            }
-            break;
-          default:
-            value = value == null ? null : String(value).trim();
-        }
-
-        cleanedRow[field.name] = value;
+        // 类型转换和清理：数值去掉货币符号与千分位，日期统一为 ISO 文本
+        cleanedRow[field.name] = parseFieldValue(row[field.name], field.type, field.format);
       });
 
       return cleanedRow;
@@ -795,19 +831,6 @@ export class DataExtractor implements IDataExtractor {
     return Array.from({ length }, (_, i) => `第${i + 1}天`);
   }
 
-  private cleanJsonResponse(content: string): string {
-    let cleaned = content.trim();
-
-    // 移除markdown代码块
-    if (cleaned.startsWith("```json")) {
-      cleaned = cleaned.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-    } else if (cleaned.startsWith("```")) {
-      cleaned = cleaned.replace(/^```\s*/, "").replace(/\s*```$/, "");
-    }
-
-    return cleaned;
-  }
-
   private getFileExtension(filename: string): string {
     const lastDot = filename.lastIndexOf(".");
     return lastDot !== -1 ? filename.substring(lastDot).toLowerCase() : "";
@@ -0,0 +1,357 @@
+// Data Merger - 数据合并器
+// 负责将多个文件的提取结果合并为一份数据：结构相同时纵向拼接，否则按共享的关联字段左连接
+
+import { DataLineage, DataRow, DataValue, FieldSource, JoinReport } from "./types";
+
+/** 关联字段最低的取值匹配率（主表取值在被关联文件中出现的比例） */
+const MIN_KEY_OVERLAP = 0.2;
+
+/** 仅凭取值匹配（字段名不相关）时要求的最低匹配率 */
+const MIN_VALUE_ONLY_OVERLAP = 0.5;
+
+/** 被关联文件的关联字段最低唯一率，低于该值会导致一对多放大行数 */
+const MIN_LOOKUP_UNIQUENESS = 0.95;
+
+/** "文件名+字段名" 形式（如 customers 文件的 id 对应 customer_id）的字段名得分 */
+const STEM_KEY_SCORE = 0.9;
+
+/** 纵向拼接时记录来源文件的字段名 */
+export const UNION_SOURCE_FIELD = "source_file";
+
+/**
+ * 参与合并的数据源
+ */
+export interface MergeSource {
+  /** 文件名 */
+  name: string;
+  data: DataRow[];
+}
+
+/**
+ * 合并结果
+ */
+export interface MergeResult {
+  data: DataRow[];
+  lineage: DataLineage;
+  /** 关联方案与未匹配情况的说明 */
+  warnings: string[];
+}
+
+/**
+ * 关联字段候选
+ */
+export interface JoinKeyCandidate {
+  leftKey: string;
+  rightKey: string;
+  score: number;
+}
+
+/**
+ * 数据合并器接口
+ */
+export interface IDataMerger {
+  /** 合并多个数据源：结构相同时纵向拼接，否则以引用其他文件的事实表为主表左连接 */
+  merge(sources: MergeSource[]): MergeResult;
+
+  /** 查找两份数据之间的关联字段，没有合适字段时返回 null */
+  findJoinKey(left: MergeSource, right: MergeSource): JoinKeyCandidate | null;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9一-龥]/g, "");
+
+/** 文件名主干的单数形式，如 "customers.xlsx" → "customer" */
+const fileStem = (fileName: string) =>
+  normalizeName(fileName.replace(/\.[^.]+$/, "")).replace(/(?<=[a-z])s$/, "");
+
+/** 关联键的比较形式：文本去空格并忽略大小写，整数与整数文本视为相同 */
+function toKey(value: DataValue): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : null;
+  if (typeof value === "boolean") return null;
+  return String(value).trim().toLowerCase();
+}
+
+function fieldsOf(data: DataRow[]): string[] {
+  return Array.from(new Set(data.flatMap(row => Object.keys(row))));
+}
+
+/** 字段非空取值的唯一率 */
+function uniqueness(data: DataRow[], field: string): number {
+  const values = data.map(row => toKey(row[field])).filter(key => key !== null);
+  return values.length === 0 ? 0 : new Set(values).size / values.length;
+}
+
+/**
+ * 数据合并器实现
+ */
+export class DataMerger implements IDataMerger {
+  /**
+   * 合并多个数据源
+   * 所有文件的字段集合相同时纵向拼接；否则以事实表为主表，依次左连接其余文件
+   */
+  merge(sources: MergeSource[]): MergeResult {
+    console.log(
+      "🔗 [DataMerger] 开始合并数据源:",
+      sources.map(source => ({ name: source.name, rows: source.data.length }))
+    );
+
+    const result = this.haveSameSchema(sources) ? this.union(sources) : this.join(sources);
+
+    console.log("✅ [DataMerger] 数据合并完成:", {
+      strategy: result.lineage.strategy,
+      rows: result.data.length,
+      fields: Object.keys(result.lineage.fields).length,
+      joins: result.lineage.joins,
+    });
+
+    return result;
+  }
+
+  /**
+   * 查找关联字段：字段名相同或为 "文件名+字段名"（如 customer_id 对应 customers 文件的 id）时加分，
+   * 主表取值在被关联文件中的匹配率越高得分越高；被关联字段必须基本唯一。
+   * 任一侧存在 "文件名+字段名" 形式的字段时，不选两侧都唯一的字段（如两个表各自的 id 自增主键）
+   */
+  findJoinKey(left: MergeSource, right: MergeSource): JoinKeyCandidate | null {
+    const rightStem = fileStem(right.name);
+    const leftStem = fileStem(left.name);
+    const candidates: Array<JoinKeyCandidate & { nameScore: number; bothUnique: boolean }> = [];
+    const leftFields = fieldsOf(left.data);
+    const rightFields = fieldsOf(right.data);
+    const hasStemKey = leftFields.some(leftKey =>
+      rightFields.some(
+        rightKey => this.scoreKeyNames(leftKey, rightKey, leftStem, rightStem) === STEM_KEY_SCORE
+      )
+    );
+
+    rightFields.forEach(rightKey => {
+      const rightValues = right.data.map(row => toKey(row[rightKey])).filter(key => key !== null);
+      const rightSet = new Set(rightValues);
+      if (rightValues.length === 0 || rightSet.size / rightValues.length < MIN_LOOKUP_UNIQUENESS) {
+        return;
+      }
+
+      leftFields.forEach(leftKey => {
+        const leftValues = left.data.map(row => toKey(row[leftKey])).filter(key => key !== null);
+        const leftSet = new Set(leftValues);
+        if (leftSet.size === 0) return;
+
+        const overlap = Array.from(leftSet).filter(key => rightSet.has(key!)).length / leftSet.size;
+        const nameScore = this.scoreKeyNames(leftKey, rightKey, leftStem, rightStem);
+        const minOverlap = nameScore > 0 ? MIN_KEY_OVERLAP : MIN_VALUE_ONLY_OVERLAP;
+        if (overlap < minOverlap) return;
+
+        candidates.push({
+          leftKey,
+          rightKey,
+          score: overlap * 0.6 + nameScore * 0.4,
+          nameScore,
+          bothUnique: leftSet.size / leftValues.length >= MIN_LOOKUP_UNIQUENESS,
+        });
+      });
+    });
+
+    const best = candidates
+      .filter(
+        candidate => !(hasStemKey && candidate.bothUnique && candidate.nameScore !== STEM_KEY_SCORE)
+      )
+      .sort((a, b) => b.score - a.score)[0];
+    return best ? { leftKey: best.leftKey, rightKey: best.rightKey, score: best.score } : null;
+  }
+
+  /**
+   * 判断 source 是否引用 target（外键方向）：source 的关联字段不唯一，
+   * 或为 "target 文件名+字段名" 形式（如 orders.customer_id → customers.id）
+   */
+  private references(source: MergeSource, target: MergeSource): boolean {
+    const key = this.findJoinKey(source, target);
+    if (!key) return false;
+
+    const nameScore = this.scoreKeyNames(
+      key.leftKey,
+      key.rightKey,
+      fileStem(source.name),
+      fileStem(target.name)
+    );
+    const isStemOfTarget =
+      nameScore === STEM_KEY_SCORE &&
+      normalizeName(key.leftKey) === fileStem(target.name) + normalizeName(key.rightKey);
+    return isStemOfTarget || uniqueness(source.data, key.leftKey) < MIN_LOOKUP_UNIQUENESS;
+  }
+
+  /**
+   * 选择主表：引用其他文件最多的事实表优先，相同时取行数较多者
+   */
+  private pickBase(sources: MergeSource[]): MergeSource[] {
+    const referenceCounts = new Map(
+      sources.map(source => [
+        source,
+        sources.filter(other => other !== source && this.references(source, other)).length,
+      ])
+    );
+    return [...sources].sort(
+      (a, b) => referenceCounts.get(b)! - referenceCounts.get(a)! || b.data.length - a.data.length
+    );
+  }
+
+  /**
+   * 字段名匹配程度：同名为 1，"文件名+字段名" 组合为 STEM_KEY_SCORE，否则为 0
+   */
+  private scoreKeyNames(
+    leftKey: string,
+    rightKey: string,
+    leftStem: string,
+    rightStem: string
+  ): number {
+    const left = normalizeName(leftKey);
+    const right = normalizeName(rightKey);
+    if (left === right) return 1;
+    if (left === rightStem + right || right === leftStem + left) return STEM_KEY_SCORE;
+    return 0;
+  }
+
+  /**
+   * 字段集合（忽略大小写与分隔符）是否完全相同
+   */
+  private haveSameSchema(sources: MergeSource[]): boolean {
+    const signature = (source: MergeSource) =>
+      fieldsOf(source.data).map(normalizeName).sort().join("|");
+    const first = signature(sources[0]);
+    return sources.every(source => signature(source) === first);
+  }
+
+  /**
+   * 纵向拼接：字段名统一为首个文件的写法，并追加来源文件字段
+   */
+  private union(sources: MergeSource[]): MergeResult {
+    const baseFields = fieldsOf(sources[0].data);
+    const fields: Record<string, FieldSource[]> = {};
+    const data: DataRow[] = [];
+
+    sources.forEach(source => {
+      const sourceFields = fieldsOf(source.data);
+      const mapping = baseFields.map(field => ({
+        field,
+        original: sourceFields.find(item => normalizeName(item) === normalizeName(field))!,
+      }));
+
+      mapping.forEach(({ field, original }) => {
+        fields[field] = [...(fields[field] ?? []), { file: source.name, field: original }];
+      });
+      source.data.forEach(row => {
+        const merged: DataRow = {};
+        mapping.forEach(({ field, original }) => {
+          merged[field] = row[original] ?? null;
+        });
+        merged[UNION_SOURCE_FIELD] = source.name;
+        data.push(merged);
+      });
+    });
+
+    fields[UNION_SOURCE_FIELD] = sources.map(source => ({ file: source.name, field: "" }));
+
+    return {
+      data,
+      lineage: { strategy: "union", files: sources.map(source => source.name), fields, joins: [] },
+      warnings: [
+        `${sources.length} 个文件字段相同，已纵向合并为 ${data.length} 行，来源记录在 ${UNION_SOURCE_FIELD} 字段`,
+      ],
+    };
+  }
+
+  /**
+   * 左连接：以事实表（关联字段不唯一、引用其他文件的表）为主表，依次关联其余文件；
+   * 找不到关联字段的文件被忽略
+   */
+  private join(sources: MergeSource[]): MergeResult {
+    const [base, ...others] = this.pickBase(sources);
+
+    let data = base.data.map(row => ({ ...row }));
+    const fields: Record<string, FieldSource[]> = {};
+    fieldsOf(base.data).forEach(field => {
+      fields[field] = [{ file: base.name, field }];
+    });
+
+    const joins: JoinReport[] = [];
+    const files = [base.name];
+    const warnings: string[] = [];
+
+    others.forEach(other => {
+      const key = this.findJoinKey({ name: base.name, data }, other);
+      if (!key) {
+        warnings.push(`未找到 ${base.name} 与 ${other.name} 的关联字段，已忽略 ${other.name}`);
+        return;
+      }
+
+      const lookup = new Map<string, DataRow>();
+      let duplicates = 0;
+      other.data.forEach(row => {
+        const value = toKey(row[key.rightKey]);
+        if (value === null) return;
+        if (lookup.has(value)) {
+          duplicates++;
+        } else {
+          lookup.set(value, row);
+        }
+      });
+
+      // 被关联文件的字段与已有字段重名时追加文件名后缀
+      const suffix = fileStem(other.name);
+      const existing = new Set(Object.keys(fields));
+      const columns = fieldsOf(other.data)
+        .filter(field => field !== key.rightKey)
+        .map(field => ({ field, target: existing.has(field) ? `${field}_${suffix}` : field }));
+      columns.forEach(({ field, target }) => {
+        fields[target] = [{ file: other.name, field }];
+      });
+      fields[key.leftKey] = [...fields[key.leftKey], { file: other.name, field: key.rightKey }];
+
+      const usedKeys = new Set<string>();
+      let matchedRows = 0;
+      data = data.map(row => {
+        const value = toKey(row[key.leftKey]);
+        const match = value === null ? undefined : lookup.get(value);
+        if (match) {
+          matchedRows++;
+          usedKeys.add(value!);
+        }
+
+        const merged: DataRow = { ...row };
+        columns.forEach(({ field, target }) => {
+          merged[target] = match?.[field] ?? null;
+        });
+        return merged;
+      });
+
+      const report: JoinReport = {
+        file: other.name,
+        leftKey: key.leftKey,
+        rightKey: key.rightKey,
+        matchedRows,
+        unmatchedRows: data.length - matchedRows,
+        unusedKeys: lookup.size - usedKeys.size,
+      };
+      joins.push(report);
+      files.push(other.name);
+
+      warnings.push(
+        `按 ${key.leftKey} = ${other.name}.${key.rightKey} 关联（左连接）：匹配 ${report.matchedRows} 行，未匹配 ${report.unmatchedRows} 行，${other.name} 中 ${report.unusedKeys} 个键未被使用`
+      );
+      if (duplicates === 0 && uniqueness(data, key.leftKey) >= MIN_LOOKUP_UNIQUENESS) {
+        warnings.push(
+          `${key.leftKey} 与 ${other.name}.${key.rightKey} 两侧取值均唯一，按一对一关联，请确认二者表示同一实体`
+        );
+      }
+      if (duplicates > 0) {
+        warnings.push(
+          `${other.name}.${key.rightKey} 存在 ${duplicates} 个重复键，使用首次出现的记录`
+        );
+      }
+    });
+
+    return { data, lineage: { strategy: "join", files, fields, joins }, warnings };
+  }
+}
+
+// 导出单例实例
+export const dataMerger = new DataMerger();
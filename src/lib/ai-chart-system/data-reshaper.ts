@@ -0,0 +1,469 @@
+// Data Reshaper - 数据重塑器
+// 负责识别宽表（如每月一列）并在宽表与长表之间转换；转换按步骤记录，可按逆序撤销
+
+import { parseDateValue } from "@/lib/value-parser";
+import { DataRow, DataTransform, ReshapeStep, UnifiedDataStructure } from "./types";
+
+/** 识别为宽表所需的最少数值列数 */
+const MIN_WIDE_COLUMNS = 3;
+
+/** 列名像时间的数值列在全部数值列中的最低占比 */
+const MIN_PERIOD_HEADER_RATIO = 0.8;
+
+/** 转置后作为系列的标识取值上限，超过时只展开为长表 */
+const MAX_SERIES = 10;
+
+/** 透视展开的列数上限 */
+const MAX_PIVOT_COLUMNS = 30;
+
+/** 列名为时间：月份、季度、年份或可解析的日期 */
+const PERIOD_HEADER_PATTERNS = [
+  /^(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?$/i,
+  /^([1-9]|1[0-2]|[一二三四五六七八九十]|十[一二])月份?$/,
+  /^(Q[1-4]|第?[1-4一二三四]季度)$/i,
+  /^(FY\s?)?(19|20)\d{2}年?$/i,
+];
+
+/** 重复类别列名的分隔符，如 "Sales_North"、"销售额-华东" */
+const HEADER_SEPARATOR = /[_\-\s·/]+/;
+
+const RESHAPE_REQUEST_PATTERNS: Array<{ regex: RegExp; kind: ReshapeRequestKind }> = [
+  {
+    regex:
+      /撤销.{0,6}(转换|重塑|透视|转置)|恢复(成|为)?原(始|来)的?(表格?|结构|格式)|不要(转换|转置|透视)|\bundo\b.{0,20}\b(reshap|pivot|transpos|melt|transform)|\b(keep|restore)\b.{0,12}\boriginal\b.{0,12}\b(layout|table|shape|structure)/i,
+    kind: "undo",
+  },
+  {
+    regex:
+      /(当作|当成|作为|视为|看作)\s*(时间|日期)|\btreat\b.{0,40}\bcolumns?\b.{0,10}\bas\b.{0,10}\b(time|dates?|periods?)\b|转置|行列互换|\btranspose\b|\bswap\b.{0,12}\brows\b.{0,12}\bcolumns\b/i,
+    kind: "transpose",
+  },
+  {
+    regex:
+      /宽表转长表|转(换)?(为|成)长表|逆透视|\bunpivot\b|\bmelt\b|\bwide\s+to\s+long\b|\blong\s+format\b/i,
+    kind: "melt",
+  },
+  {
+    regex:
+      /长表转宽表|转(换)?(为|成)宽表|透视|展开(为|成)列|\bpivot\b|\blong\s+to\s+wide\b|\bwide\s+format\b/i,
+    kind: "pivot",
+  },
+];
+
+/** 透视时指定的展开字段，如 "按地区透视"、"pivot by region" */
+const PIVOT_FIELD_PATTERN =
+  /按\s*["“]?([^"”\s，。,]+?)["”]?\s*(?:透视|展开)|把\s*["“]?([^"”\s，。,]+?)["”]?\s*(?:展开|拆分)(?:为|成)列|\bpivot\s+(?:by|on)\s+["']?([\w.-]+)/i;
+
+/**
+ * 重塑要求：transpose 将时间列转为行（系列为原标识列的取值），melt 展开为长表，pivot 展开为宽表，undo 撤销上一次转换
+ */
+export type ReshapeRequestKind = "transpose" | "melt" | "pivot" | "undo";
+
+export interface ReshapeRequest {
+  kind: ReshapeRequestKind;
+  /** pivot 时指定的展开字段 */
+  field?: string;
+}
+
+/**
+ * 识别到的宽表布局
+ */
+export interface WideLayout {
+  idFields: string[];
+  valueFields: string[];
+  /** period 为列名是时间（月份、季度、年份），category 为 "指标_类别" 形式的重复类别 */
+  headerKind: "period" | "category";
+  /** category 时列名的公共部分（如 "Sales"） */
+  measure?: string;
+}
+
+/**
+ * 数据重塑器接口
+ */
+export interface IDataReshaper {
+  /** 识别宽表布局，不是宽表时返回 null */
+  detectWideLayout(data: UnifiedDataStructure): WideLayout | null;
+
+  /** 识别描述中的重塑要求，没有时返回 null */
+  parseRequest(prompt: string): ReshapeRequest | null;
+
+  /** 规划转换：有明确要求时按要求，否则仅对列名为时间的宽表自动转换；无需转换时返回 null */
+  plan(data: UnifiedDataStructure, request: ReshapeRequest | null): DataTransform | null;
+
+  /** 执行转换 */
+  apply(data: DataRow[], transform: DataTransform): DataRow[];
+
+  /** 撤销转换：按相反顺序执行各步骤的逆操作 */
+  undo(data: DataRow[], transform: DataTransform): DataRow[];
+
+  /** 数据是否已经是转换后的结构 */
+  isApplied(data: DataRow[], transform: DataTransform): boolean;
+
+  /** 数据是否包含转换所需的字段（用于判断上一轮的转换能否沿用） */
+  canApply(data: DataRow[], transform: DataTransform): boolean;
+}
+
+const isPeriodHeader = (header: string) =>
+  PERIOD_HEADER_PATTERNS.some(pattern => pattern.test(header.trim())) ||
+  parseDateValue(header) !== null;
+
+const hasChinese = (names: string[]) => names.some(name => /[一-龥]/.test(name));
+
+/** 生成不与已有字段重名的字段名 */
+function uniqueName(base: string, existing: string[]): string {
+  let name = base;
+  let suffix = 2;
+  while (existing.includes(name)) {
+    name = `${base}_${suffix++}`;
+  }
+  return name;
+}
+
+const fieldsOf = (data: DataRow[]) => Array.from(new Set(data.flatMap(row => Object.keys(row))));
+
+/**
+ * 数据重塑器实现
+ */
+export class DataReshaper implements IDataReshaper {
+  /**
+   * 识别宽表：至少 3 个数值列的列名为时间，或共享同一指标前缀/后缀的重复类别
+   */
+  detectWideLayout(data: UnifiedDataStructure): WideLayout | null {
+    const allFields = data.schema.fields.map(field => field.name);
+    const numericFields = data.schema.fields
+      .filter(field => field.type === "number")
+      .map(field => field.name);
+    if (numericFields.length < MIN_WIDE_COLUMNS) return null;
+
+    const periodFields = numericFields.filter(isPeriodHeader);
+    if (
+      periodFields.length >= MIN_WIDE_COLUMNS &&
+      periodFields.length / numericFields.length >= MIN_PERIOD_HEADER_RATIO
+    ) {
+      return {
+        idFields: allFields.filter(field => !periodFields.includes(field)),
+        valueFields: periodFields,
+        headerKind: "period",
+      };
+    }
+
+    const category = this.findRepeatedCategories(numericFields);
+    if (category) {
+      return {
+        idFields: allFields.filter(field => !category.fields.includes(field)),
+        valueFields: category.fields,
+        headerKind: "category",
+        measure: category.measure,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * 识别描述中的重塑要求
+   */
+  parseRequest(prompt: string): ReshapeRequest | null {
+    const matched = RESHAPE_REQUEST_PATTERNS.find(({ regex }) => regex.test(prompt));
+    if (!matched) return null;
+
+    if (matched.kind === "pivot") {
+      const field = prompt.match(PIVOT_FIELD_PATTERN);
+      const name = field?.[1] ?? field?.[2] ?? field?.[3];
+      return name ? { kind: "pivot", field: name } : { kind: "pivot" };
+    }
+
+    return { kind: matched.kind };
+  }
+
+  /**
+   * 规划转换
+   * 自动转换只处理列名为时间的宽表：单个标识列且取值不多时转置为 "时间行 × 系列列"，否则展开为长表
+   */
+  plan(data: UnifiedDataStructure, request: ReshapeRequest | null): DataTransform | null {
+    const layout = this.detectWideLayout(data);
+
+    if (!request) {
+      return layout?.headerKind === "period"
+        ? (this.planTranspose(data, layout, true) ?? this.planMelt(data, layout, true))
+        : null;
+    }
+
+    switch (request.kind) {
+      case "transpose":
+      case "melt": {
+        const target = layout ?? this.numericLayout(data);
+        if (!target) return null;
+        return request.kind === "transpose"
+          ? (this.planTranspose(data, target, false) ?? this.planMelt(data, target, false))
+          : this.planMelt(data, target, false);
+      }
+      case "pivot":
+        return this.planPivot(data, request.field);
+      default:
+        return null;
+    }
+  }
+
+  apply(data: DataRow[], transform: DataTransform): DataRow[] {
+    return transform.steps.reduce((rows, step) => this.applyStep(rows, step), data);
+  }
+
+  undo(data: DataRow[], transform: DataTransform): DataRow[] {
+    return [...transform.steps]
+      .reverse()
+      .reduce((rows, step) => this.applyStep(rows, this.invertStep(step)), data);
+  }
+
+  isApplied(data: DataRow[], transform: DataTransform): boolean {
+    const last = transform.steps[transform.steps.length - 1];
+    if (!last || data.length === 0) return false;
+
+    const fields = new Set(fieldsOf(data));
+    return last.op === "melt"
+      ? fields.has(last.variableField) &&
+          fields.has(last.valueField) &&
+          last.valueFields.every(field => !fields.has(field))
+      : !fields.has(last.columnField) && last.columns.every(column => fields.has(column));
+  }
+
+  canApply(data: DataRow[], transform: DataTransform): boolean {
+    const first = transform.steps[0];
+    if (!first || data.length === 0) return false;
+
+    const fields = new Set(fieldsOf(data));
+    const required =
+      first.op === "melt"
+        ? [...first.idFields, ...first.valueFields]
+        : [...first.indexFields, first.columnField, first.valueField];
+    return required.every(field => fields.has(field));
+  }
+
+  /**
+   * 未识别到宽表但用户要求展开时，使用全部数值列
+   */
+  private numericLayout(data: UnifiedDataStructure): WideLayout | null {
+    const numericFields = data.schema.fields
+      .filter(field => field.type === "number")
+      .map(field => field.name);
+    if (numericFields.length < 2) return null;
+
+    return {
+      idFields: data.schema.fields
+        .map(field => field.name)
+        .filter(field => !numericFields.includes(field)),
+      valueFields: numericFields,
+      headerKind: "category",
+    };
+  }
+
+  /**
+   * 查找共享同一指标前缀或后缀的数值列，如 Sales_North / Sales_South / Sales_East
+   */
+  private findRepeatedCategories(fields: string[]): { fields: string[]; measure: string } | null {
+    const groups = new Map<string, string[]>();
+    fields.forEach(field => {
+      const parts = field.split(HEADER_SEPARATOR).filter(Boolean);
+      if (parts.length < 2) return;
+      [`prefix:${parts[0]}`, `suffix:${parts[parts.length - 1]}`].forEach(key => {
+        groups.set(key, [...(groups.get(key) ?? []), field]);
+      });
+    });
+
+    const [key, grouped] =
+      Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length)[0] ?? [];
+    if (!key || !grouped || grouped.length < MIN_WIDE_COLUMNS) return null;
+
+    return { fields: grouped, measure: key.replace(/^(prefix|suffix):/, "") };
+  }
+
+  private variableNames(data: UnifiedDataStructure, layout: WideLayout) {
+    const existing = data.schema.fields.map(field => field.name);
+    const chinese = hasChinese(existing);
+    const variableBase =
+      layout.headerKind === "period"
+        ? chinese
+          ? "期间"
+          : "Period"
+        : chinese
+          ? "类别"
+          : "Category";
+    const variableField = uniqueName(variableBase, existing);
+    const valueField = uniqueName(layout.measure ?? (chinese ? "数值" : "Value"), [
+      ...existing,
+      variableField,
+    ]);
+    return { variableField, valueField };
+  }
+
+  private describeColumns(layout: WideLayout): string {
+    const { valueFields } = layout;
+    const kind = layout.headerKind === "period" ? "时间" : "类别";
+    return `${valueFields.length} 个${kind}列（${valueFields[0]} … ${valueFields[valueFields.length - 1]}）`;
+  }
+
+  private planMelt(
+    data: UnifiedDataStructure,
+    layout: WideLayout,
+    automatic: boolean
+  ): DataTransform {
+    const { variableField, valueField } = this.variableNames(data, layout);
+    return {
+      steps: [
+        {
+          op: "melt",
+          idFields: layout.idFields,
+          valueFields: layout.valueFields,
+          variableField,
+          valueField,
+        },
+      ],
+      description: `将 ${this.describeColumns(layout)}展开为 ${variableField} / ${valueField} 两列`,
+      automatic,
+    };
+  }
+
+  /**
+   * 转置：时间列转为行，唯一标识列的取值作为系列列；标识列不唯一或取值过多时返回 null
+   */
+  private planTranspose(
+    data: UnifiedDataStructure,
+    layout: WideLayout,
+    automatic: boolean
+  ): DataTransform | null {
+    if (layout.idFields.length !== 1) return null;
+
+    const [idField] = layout.idFields;
+    const { variableField, valueField } = this.variableNames(data, layout);
+    const ids = data.data.map(row => row[idField]);
+    const columns = Array.from(new Set(ids.map(id => (id === null ? "" : String(id)))));
+    if (
+      columns.length !== ids.length ||
+      columns.length > MAX_SERIES ||
+      columns.some(column => column === "" || column === variableField)
+    ) {
+      return null;
+    }
+
+    return {
+      steps: [
+        {
+          op: "melt",
+          idFields: [idField],
+          valueFields: layout.valueFields,
+          variableField,
+          valueField,
+        },
+        { op: "pivot", indexFields: [variableField], columnField: idField, valueField, columns },
+      ],
+      description: `将 ${this.describeColumns(layout)}转为 ${variableField} 行，${idField} 的取值作为系列`,
+      automatic,
+    };
+  }
+
+  /**
+   * 透视：唯一的数值列按指定字段（或取值最少的分类字段）展开为多列
+   */
+  private planPivot(data: UnifiedDataStructure, fieldName?: string): DataTransform | null {
+    const numericFields = data.schema.fields.filter(field => field.type === "number");
+    if (numericFields.length !== 1) return null;
+
+    const valueField = numericFields[0].name;
+    const candidates = data.schema.fields.filter(field => field.type !== "number");
+    const distinct = (name: string) =>
+      Array.from(new Set(data.data.map(row => row[name]).filter(value => value !== null))).map(
+        String
+      );
+
+    const requested = fieldName
+      ? candidates.find(field => field.name.toLowerCase() === fieldName.toLowerCase())
+      : undefined;
+    const columnField =
+      requested?.name ??
+      candidates
+        .map(field => ({ name: field.name, count: distinct(field.name).length }))
+        .filter(field => field.count >= 2 && field.count <= MAX_SERIES)
+        .sort((a, b) => a.count - b.count)[0]?.name;
+    if (!columnField) return null;
+
+    const columns = distinct(columnField);
+    const indexFields = candidates.map(field => field.name).filter(name => name !== columnField);
+    if (
+      columns.length > MAX_PIVOT_COLUMNS ||
+      columns.some(column => indexFields.includes(column))
+    ) {
+      return null;
+    }
+
+    return {
+      steps: [{ op: "pivot", indexFields, columnField, valueField, columns }],
+      description: `按 ${columnField} 将 ${valueField} 展开为 ${columns.length} 列`,
+      automatic: false,
+    };
+  }
+
+  private invertStep(step: ReshapeStep): ReshapeStep {
+    return step.op === "melt"
+      ? {
+          op: "pivot",
+          indexFields: step.idFields,
+          columnField: step.variableField,
+          valueField: step.valueField,
+          columns: step.valueFields,
+        }
+      : {
+          op: "melt",
+          idFields: step.indexFields,
+          valueFields: step.columns,
+          variableField: step.columnField,
+          valueField: step.valueField,
+        };
+  }
+
+  private applyStep(data: DataRow[], step: ReshapeStep): DataRow[] {
+    if (step.op === "melt") {
+      return data.flatMap(row =>
+        step.valueFields.map(field => {
+          const melted: DataRow = {};
+          step.idFields.forEach(id => {
+            melted[id] = row[id] ?? null;
+          });
+          melted[step.variableField] = field;
+          melted[step.valueField] = row[field] ?? null;
+          return melted;
+        })
+      );
+    }
+
+    // 透视：按索引字段分组，同一单元格出现多个数值时求和
+    const groups = new Map<string, DataRow>();
+    data.forEach(row => {
+      const key = JSON.stringify(step.indexFields.map(field => row[field] ?? null));
+      let pivoted = groups.get(key);
+      if (!pivoted) {
+        pivoted = {};
+        step.indexFields.forEach(field => {
+          pivoted![field] = row[field] ?? null;
+        });
+        step.columns.forEach(column => {
+          pivoted![column] = null;
+        });
+        groups.set(key, pivoted);
+      }
+
+      const column = String(row[step.columnField] ?? "");
+      if (!step.columns.includes(column)) return;
+
+      const value = row[step.valueField] ?? null;
+      const current = pivoted[column];
+      if (value === null) return;
+      pivoted[column] =
+        typeof current === "number" && typeof value === "number" ? current + value : value;
+    });
+
+    return Array.from(groups.values());
+  }
+}
+
+// 导出单例实例
+export const dataReshaper = new DataReshaper();
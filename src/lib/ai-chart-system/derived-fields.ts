@@ -0,0 +1,685 @@
+// Derived Fields - 派生字段引擎
+// 按结构化公式（字段、常量、四则运算与白名单函数组成的表达式树）计算新列，不执行任意代码
+
+import { parseDateValue, parseLocaleNumber } from "@/lib/value-parser";
+import {
+  AIChartError,
+  DataField,
+  DataRow,
+  DataSchema,
+  DataValue,
+  DerivedField,
+  FieldValueFormat,
+  FormulaFunction,
+  FormulaNode,
+  FormulaOperator,
+  UnifiedDataStructure,
+} from "./types";
+
+/** 单次请求计算的派生字段上限 */
+const MAX_DERIVED_FIELDS = 5;
+
+/** 单个公式的节点数上限 */
+const MAX_FORMULA_NODES = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FormulaValueType = "number" | "date";
+
+/**
+ * 函数的参数个数、参数类型与说明
+ */
+const FUNCTION_SPECS: Record<
+  FormulaFunction,
+  { minArgs: number; maxArgs: number; input: FormulaValueType; description: string }
+> = {
+  ratio: { minArgs: 2, maxArgs: 2, input: "number", description: "a / b，除数为 0 时为空" },
+  percent: { minArgs: 2, maxArgs: 2, input: "number", description: "a / b × 100，结果为百分比" },
+  pct_change: { minArgs: 1, maxArgs: 1, input: "number", description: "相对上一行的变化率（%）" },
+  cumsum: { minArgs: 1, maxArgs: 1, input: "number", description: "按行顺序累计求和" },
+  rank: { minArgs: 1, maxArgs: 1, input: "number", description: "降序排名，最大值为 1" },
+  abs: { minArgs: 1, maxArgs: 1, input: "number", description: "绝对值" },
+  round: { minArgs: 1, maxArgs: 2, input: "number", description: "四舍五入，第二个参数为小数位数" },
+  year: { minArgs: 1, maxArgs: 1, input: "date", description: "日期字段的年份" },
+  quarter: { minArgs: 1, maxArgs: 1, input: "date", description: "日期字段的季度（1-4）" },
+  month: { minArgs: 1, maxArgs: 1, input: "date", description: "日期字段的月份（1-12）" },
+  week: { minArgs: 1, maxArgs: 1, input: "date", description: "日期字段的 ISO 周数" },
+  day: { minArgs: 1, maxArgs: 1, input: "date", description: "日期字段的日（1-31）" },
+  weekday: { minArgs: 1, maxArgs: 1, input: "date", description: "日期字段的星期（周一为 1）" },
+};
+
+const OPERATORS: FormulaOperator[] = ["+", "-", "*", "/"];
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTION_SPECS) as FormulaFunction[];
+
+const DATE_PART_FUNCTIONS = FORMULA_FUNCTIONS.filter(fn => FUNCTION_SPECS[fn].input === "date");
+
+/** 不加括号即可写在公式中的字段名 */
+const BARE_FIELD_NAME = /^[A-Za-z_一-龥][\w一-龥]*$/;
+
+/** 描述中显式给出的公式列，如 "利润率 = (收入 - 成本) / 收入"、"margin = percent(revenue - cost, revenue)" */
+const FORMULA_ASSIGNMENT = /(\[[^\]\n]+\]|[A-Za-z_一-龥][\w一-龥]*)\s*[=＝](?![=＝])/g;
+
+/** 公式列名称前的动词，如 "请新增一列利润率"、"计算利润率" */
+const FORMULA_NAME_PREFIX =
+  /^(?:.{0,4}?(?:新增|添加|增加|计算|创建|生成)一?(?:个|列|字段|计算列|派生字段)|(?:新增|添加|增加|计算|创建|生成))/;
+
+const isFieldNode = (node: FormulaNode): node is { field: string } => "field" in node;
+const isValueNode = (node: FormulaNode): node is { value: number } => "value" in node;
+
+const isFormulaFunction = (name: string): name is FormulaFunction =>
+  Object.prototype.hasOwnProperty.call(FUNCTION_SPECS, name);
+
+/**
+ * 公式函数说明，供AI提示词使用
+ */
+export function describeFormulaFunctions(): string {
+  return FORMULA_FUNCTIONS.map(fn => {
+    const spec = FUNCTION_SPECS[fn];
+    const args = spec.input === "date" ? "日期字段" : spec.maxArgs === 2 ? "a, b" : "a";
+    return `- ${fn}(${args})：${spec.description}`;
+  }).join("\n");
+}
+
+/**
+ * 递归下降解析器：字段名可直接书写或用方括号括起（如 [Net Sales]），支持 + - * / 、括号、负号与函数调用
+ */
+class FormulaParser {
+  private pos: number;
+
+  constructor(
+    private readonly text: string,
+    start = 0
+  ) {
+    this.pos = start;
+  }
+
+  get position(): number {
+    return this.pos;
+  }
+
+  parseExpression(): FormulaNode {
+    let node = this.parseTerm();
+    for (let op = this.peekOperator("+-"); op; op = this.peekOperator("+-")) {
+      this.pos++;
+      node = { op: op as FormulaOperator, args: [node, this.parseTerm()] };
+    }
+    return node;
+  }
+
+  atEnd(): boolean {
+    this.skipSpaces();
+    return this.pos >= this.text.length;
+  }
+
+  private parseTerm(): FormulaNode {
+    let node = this.parseUnary();
+    for (let op = this.peekOperator("*/×÷"); op; op = this.peekOperator("*/×÷")) {
+      this.pos++;
+      node = { op: op === "×" ? "*" : op === "÷" ? "/" : op, args: [node, this.parseUnary()] };
+    }
+    return node;
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.peekOperator("-")) {
+      this.pos++;
+      return { op: "-", args: [this.parseUnary()] };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    this.skipSpaces();
+    const rest = this.text.slice(this.pos);
+
+    const number = /^\d+(?:\.\d+)?/.exec(rest);
+    if (number) {
+      this.pos += number[0].length;
+      return { value: Number(number[0]) };
+    }
+
+    if (this.consume("(（")) {
+      const node = this.parseExpression();
+      this.expect(")）");
+      return node;
+    }
+
+    const bracketed = /^\[([^\]\n]+)\]/.exec(rest);
+    if (bracketed) {
+      this.pos += bracketed[0].length;
+      return { field: bracketed[1].trim() };
+    }
+
+    const name = /^[A-Za-z_一-龥][\w一-龥]*/.exec(rest)?.[0];
+    if (!name) this.fail();
+    this.pos += name.length;
+
+    this.skipSpaces();
+    const fn = name.toLowerCase();
+    if (isFormulaFunction(fn) && this.consume("(（")) {
+      const args = [this.parseExpression()];
+      while (this.consume(",，")) {
+        args.push(this.parseExpression());
+      }
+      this.expect(")）");
+      return { op: fn, args };
+    }
+
+    return { field: name };
+  }
+
+  private peekOperator(chars: string): FormulaOperator | "×" | "÷" | null {
+    this.skipSpaces();
+    const char = this.text[this.pos];
+    return char && chars.includes(char) ? (char as FormulaOperator | "×" | "÷") : null;
+  }
+
+  private consume(chars: string): boolean {
+    this.skipSpaces();
+    if (this.pos < this.text.length && chars.includes(this.text[this.pos])) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(chars: string): void {
+    if (!this.consume(chars)) this.fail();
+  }
+
+  private skipSpaces(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private fail(): never {
+    const found = this.text.slice(this.pos, this.pos + 10) || "结尾";
+    throw new AIChartError(
+      "data_extraction",
+      "INVALID_REQUEST",
+      `公式解析失败：第 ${this.pos + 1} 个字符处的 "${found}"`,
+      { formula: this.text }
+    );
+  }
+}
+
+/**
+ * 解析文本公式，如 "(revenue - cost) / revenue"
+ */
+export function parseFormula(text: string): FormulaNode {
+  const parser = new FormulaParser(text);
+  const node = parser.parseExpression();
+  if (!parser.atEnd()) {
+    throw new AIChartError(
+      "data_extraction",
+      "INVALID_REQUEST",
+      `公式解析失败：第 ${parser.position + 1} 个字符后有多余内容`,
+      { formula: text }
+    );
+  }
+  return node;
+}
+
+const PRECEDENCE: Record<FormulaOperator, number> = { "+": 1, "-": 1, "*": 2, "/": 2 };
+
+const precedenceOf = (node: FormulaNode): number => {
+  if (isFieldNode(node) || isValueNode(node)) return 4;
+  if (!OPERATORS.includes(node.op as FormulaOperator)) return 4;
+  return node.args.length === 1 ? 3 : PRECEDENCE[node.op as FormulaOperator];
+};
+
+/**
+ * 将公式显示为文本，只在需要时添加括号
+ */
+export function formatFormula(node: FormulaNode): string {
+  if (isFieldNode(node)) {
+    return BARE_FIELD_NAME.test(node.field) && !isFormulaFunction(node.field.toLowerCase())
+      ? node.field
+      : `[${node.field}]`;
+  }
+  if (isValueNode(node)) return String(node.value);
+
+  if (!OPERATORS.includes(node.op as FormulaOperator)) {
+    return `${node.op}(${node.args.map(formatFormula).join(", ")})`;
+  }
+
+  const precedence = precedenceOf(node);
+  const wrap = (arg: FormulaNode, needsParens: boolean) =>
+    needsParens ? `(${formatFormula(arg)})` : formatFormula(arg);
+
+  if (node.args.length === 1) {
+    return `-${wrap(node.args[0], precedenceOf(node.args[0]) < precedence)}`;
+  }
+
+  const [left, right] = node.args;
+  const nonAssociative = node.op === "-" || node.op === "/";
+  const rightPrecedence = precedenceOf(right);
+  return `${wrap(left, precedenceOf(left) < precedence)} ${node.op} ${wrap(
+    right,
+    rightPrecedence < precedence || (nonAssociative && rightPrecedence === precedence)
+  )}`;
+}
+
+const toNumber = (value: DataValue): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") return parseLocaleNumber(value)?.value ?? null;
+  return null;
+};
+
+/** 去除浮点误差（如 0.1 + 0.2） */
+const cleanNumber = (value: number | null): number | null =>
+  value === null || !Number.isFinite(value) ? null : Math.round(value * 1e10) / 1e10;
+
+/** ISO 周数：所在周的周四所在年份的第几周 */
+function isoWeek(date: Date): number {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const thursday = new Date(day + (3 - ((date.getUTCDay() + 6) % 7)) * DAY_MS);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1;
+}
+
+function datePart(value: DataValue, fn: FormulaFunction): number | null {
+  const date = parseDateValue(value)?.date;
+  if (!date) return null;
+
+  switch (fn) {
+    case "year":
+      return date.getUTCFullYear();
+    case "quarter":
+      return Math.floor(date.getUTCMonth() / 3) + 1;
+    case "month":
+      return date.getUTCMonth() + 1;
+    case "week":
+      return isoWeek(date);
+    case "day":
+      return date.getUTCDate();
+    default:
+      return ((date.getUTCDay() + 6) % 7) + 1;
+  }
+}
+
+/**
+ * 按列计算公式：四则运算与行内函数逐行计算，变化率、累计求和与排名按整列计算
+ */
+function evaluateFormula(node: FormulaNode, rows: DataRow[]): Array<number | null> {
+  if (isFieldNode(node)) return rows.map(row => toNumber(row[node.field] ?? null));
+  if (isValueNode(node)) return rows.map(() => node.value);
+
+  if (DATE_PART_FUNCTIONS.includes(node.op as FormulaFunction)) {
+    const source = node.args[0] as { field: string };
+    return rows.map(row => datePart(row[source.field] ?? null, node.op as FormulaFunction));
+  }
+
+  const columns = node.args.map(arg => evaluateFormula(arg, rows));
+  const [a, b] = columns;
+  const pairwise = (fn: (x: number, y: number) => number | null) =>
+    a.map((x, index) => (x === null || b[index] === null ? null : fn(x, b[index] as number)));
+  const divide = (x: number, y: number) => (y === 0 ? null : x / y);
+
+  switch (node.op) {
+    case "+":
+      return pairwise((x, y) => x + y);
+    case "-":
+      return b ? pairwise((x, y) => x - y) : a.map(x => (x === null ? null : -x));
+    case "*":
+      return pairwise((x, y) => x * y);
+    case "/":
+    case "ratio":
+      return pairwise(divide);
+    case "percent":
+      return pairwise((x, y) => (y === 0 ? null : (x / y) * 100));
+    case "pct_change":
+      return a.map((x, index) => {
+        const previous = index > 0 ? a[index - 1] : null;
+        return x === null || previous === null || previous === 0
+          ? null
+          : ((x - previous) / Math.abs(previous)) * 100;
+      });
+    case "cumsum": {
+      let total = 0;
+      return a.map(x => {
+        if (x === null) return null;
+        total += x;
+        return total;
+      });
+    }
+    case "rank": {
+      // 并列时取相同名次，下一名次跳过并列数（1, 2, 2, 4）
+      const ranks = new Map<number, number>();
+      a.filter((x): x is number => x !== null)
+        .sort((x, y) => y - x)
+        .forEach((x, index) => {
+          if (!ranks.has(x)) ranks.set(x, index + 1);
+        });
+      return a.map(x => (x === null ? null : ranks.get(x)!));
+    }
+    case "abs":
+      return a.map(x => (x === null ? null : Math.abs(x)));
+    case "round": {
+      const factor = 10 ** Math.min(Math.max(Math.round(b?.[0] ?? 0), 0), 10);
+      return a.map(x => (x === null ? null : Math.round(x * factor) / factor));
+    }
+    default:
+      return rows.map(() => null);
+  }
+}
+
+/**
+ * 公式引用的字段名
+ */
+export function formulaFields(node: FormulaNode): string[] {
+  if (isFieldNode(node)) return [node.field];
+  if (isValueNode(node)) return [];
+  return Array.from(new Set(node.args.flatMap(formulaFields)));
+}
+
+/**
+ * 是否包含日期部分函数；含日期部分的公式只能逐行计算，不能由汇总值重新计算
+ */
+export function hasDatePart(node: FormulaNode): boolean {
+  if (isFieldNode(node) || isValueNode(node)) return false;
+  return DATE_PART_FUNCTIONS.includes(node.op as FormulaFunction) || node.args.some(hasDatePart);
+}
+
+/**
+ * 将公式中引用的派生字段替换为其公式，得到只引用原始字段的公式
+ */
+export function inlineDerivedFields(node: FormulaNode, fields: DerivedField[]): FormulaNode {
+  if (isFieldNode(node)) {
+    const derived = fields.find(field => field.name === node.field);
+    return derived ? inlineDerivedFields(derived.formula, fields) : node;
+  }
+  if (isValueNode(node)) return node;
+  return { op: node.op, args: node.args.map(arg => inlineDerivedFields(arg, fields)) };
+}
+
+/**
+ * 按行计算公式（用于分组聚合后的汇总行）
+ */
+export function evaluateDerivedFormula(
+  formula: FormulaNode,
+  rows: DataRow[]
+): Array<number | null> {
+  return evaluateFormula(formula, rows).map(cleanNumber);
+}
+
+/**
+ * 派生字段引擎接口
+ */
+export interface IDerivedFieldEngine {
+  /** 识别描述中显式给出的公式列，只返回通过校验的字段 */
+  parseRequest(prompt: string, schema: DataSchema): DerivedField[];
+
+  /** 按数据架构校验派生字段，返回错误列表 */
+  validate(field: DerivedField, schema: DataSchema): string[];
+
+  /** 依次计算派生字段并追加到数据中，后面的字段可引用前面的字段；未通过校验的字段被跳过 */
+  apply(data: UnifiedDataStructure, fields: DerivedField[]): UnifiedDataStructure;
+}
+
+/**
+ * 派生字段引擎实现
+ */
+export class DerivedFieldEngine implements IDerivedFieldEngine {
+  parseRequest(prompt: string, schema: DataSchema): DerivedField[] {
+    const fields: DerivedField[] = [];
+
+    for (const match of Array.from(prompt.matchAll(FORMULA_ASSIGNMENT))) {
+      const rawName = match[1].startsWith("[")
+        ? match[1].slice(1, -1).trim()
+        : match[1].replace(FORMULA_NAME_PREFIX, "");
+      if (!rawName) continue;
+
+      try {
+        const parser = new FormulaParser(prompt, match.index! + match[0].length);
+        const field = { name: rawName, formula: parser.parseExpression() };
+        const errors = this.validate(field, this.withFields(schema, fields));
+        if (errors.length === 0) {
+          fields.push(field);
+        }
+      } catch {
+        // 等号后不是公式，忽略
+      }
+    }
+
+    if (fields.length > 0) {
+      console.log(
+        "🧮 [DerivedFields] 识别到公式列:",
+        fields.map(field => `${field.name} = ${formatFormula(field.formula)}`)
+      );
+    }
+    return fields.slice(0, MAX_DERIVED_FIELDS);
+  }
+
+  validate(field: DerivedField, schema: DataSchema): string[] {
+    const errors: string[] = [];
+    const name = typeof field?.name === "string" ? field.name.trim() : "";
+
+    if (!name) {
+      errors.push("派生字段缺少名称");
+    } else if (schema.fields.some(existing => existing.name === name)) {
+      errors.push(`字段 "${name}" 已存在`);
+    }
+
+    let nodeCount = 0;
+    let fieldCount = 0;
+    const check = (node: FormulaNode): FormulaValueType | null => {
+      nodeCount++;
+      if (nodeCount > MAX_FORMULA_NODES) {
+        if (nodeCount === MAX_FORMULA_NODES + 1) {
+          errors.push(`公式过于复杂（超过 ${MAX_FORMULA_NODES} 个节点）`);
+        }
+        return null;
+      }
+      if (!node || typeof node !== "object") {
+        errors.push("公式节点必须是对象");
+        return null;
+      }
+
+      if (isFieldNode(node)) {
+        fieldCount++;
+        const source = schema.fields.find(existing => existing.name === node.field);
+        if (!source) {
+          errors.push(`公式引用了不存在的字段 "${node.field}"`);
+          return null;
+        }
+        if (source.type === "date") return "date";
+        if (source.type !== "number") {
+          errors.push(`字段 "${node.field}" 不是数值字段`);
+          return null;
+        }
+        return "number";
+      }
+
+      if (isValueNode(node)) {
+        if (typeof node.value !== "number" || !Number.isFinite(node.value)) {
+          errors.push("公式中的常量必须是有限数值");
+        }
+        return "number";
+      }
+
+      const op = (node as { op?: unknown }).op;
+      const args = (node as { args?: unknown }).args;
+      if (!Array.isArray(args)) {
+        errors.push(`运算 "${String(op)}" 缺少参数列表`);
+        return null;
+      }
+
+      if (OPERATORS.includes(op as FormulaOperator)) {
+        const arity = op === "-" ? [1, 2] : [2];
+        if (!arity.includes(args.length)) {
+          errors.push(`运算 "${op}" 需要 2 个参数`);
+        }
+        args.forEach(arg => {
+          if (check(arg) === "date") errors.push(`日期字段不能直接参与 "${op}" 运算`);
+        });
+        return "number";
+      }
+
+      if (typeof op !== "string" || !isFormulaFunction(op)) {
+        errors.push(`不支持的运算 "${String(op)}"`);
+        return null;
+      }
+
+      const spec = FUNCTION_SPECS[op];
+      if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+        errors.push(
+          `函数 ${op} 需要 ${spec.minArgs === spec.maxArgs ? spec.minArgs : `${spec.minArgs}-${spec.maxArgs}`} 个参数`
+        );
+      }
+      if (spec.input === "date") {
+        if (!isFieldNode(args[0]) || check(args[0]) !== "date") {
+          errors.push(`函数 ${op} 的参数必须是日期字段`);
+        }
+        return "number";
+      }
+      if (op === "round" && args[1] !== undefined && !isValueNode(args[1])) {
+        errors.push("函数 round 的小数位数必须是常量");
+      }
+      args.forEach(arg => {
+        if (check(arg) === "date") errors.push(`函数 ${op} 的参数不能是日期字段`);
+      });
+      return "number";
+    };
+
+    check(field?.formula);
+    if (errors.length === 0 && fieldCount === 0) {
+      errors.push("公式至少需要引用一个字段");
+    }
+    return errors;
+  }
+
+  apply(data: UnifiedDataStructure, fields: DerivedField[]): UnifiedDataStructure {
+    let current = data;
+    const applied: DerivedField[] = [];
+
+    for (const field of fields.slice(0, MAX_DERIVED_FIELDS)) {
+      const errors = this.validate(field, current.schema);
+      if (errors.length > 0) {
+        console.warn("⚠️ [DerivedFields] 派生字段未通过校验，已跳过:", {
+          name: field?.name,
+          errors,
+        });
+        continue;
+      }
+
+      const name = field.name.trim();
+      const formula = field.formula;
+      // 顶层为日期部分（如 month(订单日期)）时作为分类字段
+      const categorical =
+        !isFieldNode(formula) &&
+        !isValueNode(formula) &&
+        DATE_PART_FUNCTIONS.includes(formula.op as FormulaFunction);
+      const values = evaluateFormula(formula, current.data).map(cleanNumber);
+      const rows = current.data.map((row, index) => ({
+        ...row,
+        [name]: categorical && values[index] !== null ? String(values[index]) : values[index],
+      }));
+
+      const format = categorical ? undefined : this.inferFormat(formula, current.schema);
+      const nullCount = values.filter(value => value === null).length;
+      const dataField: DataField = {
+        name,
+        type: categorical ? "string" : "number",
+        nullable: nullCount > 0,
+        ...(format && { format }),
+      };
+      const statistics = current.metadata.statistics;
+
+      current = {
+        ...current,
+        data: rows,
+        schema: { ...current.schema, fields: [...current.schema.fields, dataField] },
+        metadata: {
+          ...current.metadata,
+          preview: rows.slice(0, 5),
+          statistics: {
+            ...statistics,
+            numericFields: categorical
+              ? statistics.numericFields
+              : [...statistics.numericFields, name],
+            categoricalFields: categorical
+              ? [...statistics.categoricalFields, name]
+              : statistics.categoricalFields,
+            missingValues: statistics.missingValues + nullCount,
+          },
+        },
+      };
+      applied.push({ name, formula });
+    }
+
+    if (applied.length === 0) return data;
+
+    console.log(
+      "🧮 [DerivedFields] 计算派生字段:",
+      applied.map(field => `${field.name} = ${formatFormula(field.formula)}`)
+    );
+    return {
+      ...current,
+      metadata: {
+        ...current.metadata,
+        derivedFields: [...(data.metadata.derivedFields ?? []), ...applied],
+      },
+    };
+  }
+
+  /**
+   * 推断结果的取值格式：加减沿用同格式字段的格式，乘除常量沿用另一侧的格式，
+   * percent 与 pct_change 为百分比，比率、排名与日期部分不带格式
+   */
+  private inferFormat(node: FormulaNode, schema: DataSchema): FieldValueFormat | undefined {
+    if (isFieldNode(node)) {
+      const format = schema.fields.find(field => field.name === node.field)?.format;
+      return format?.kind === "date" ? undefined : format;
+    }
+    if (isValueNode(node)) return undefined;
+
+    switch (node.op) {
+      case "percent":
+      case "pct_change":
+        return { kind: "percent" };
+      case "cumsum":
+      case "abs":
+      case "round":
+        return this.inferFormat(node.args[0], schema);
+      case "+":
+      case "-": {
+        const formats = node.args
+          .filter(arg => !isValueNode(arg))
+          .map(arg => this.inferFormat(arg, schema));
+        const [first] = formats;
+        return first &&
+          formats.every(format => format?.kind === first.kind && format.symbol === first.symbol)
+          ? first
+          : undefined;
+      }
+      case "*":
+      case "/": {
+        const [left, right] = node.args;
+        if (isValueNode(right)) return this.inferFormat(left, schema);
+        if (node.op === "*" && isValueNode(left)) return this.inferFormat(right, schema);
+        return undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 在数据架构中追加已识别的派生字段，供后续公式引用
+   */
+  private withFields(schema: DataSchema, fields: DerivedField[]): DataSchema {
+    return {
+      ...schema,
+      fields: [
+        ...schema.fields,
+        ...fields.map(field => ({ name: field.name, type: "number" as const, nullable: true })),
+      ],
+    };
+  }
+}
+
+// 导出单例实例
+export const derivedFieldEngine = new DerivedFieldEngine();
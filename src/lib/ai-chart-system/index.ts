@@ -1,7 +1,7 @@
 // AI Chart System - 统一导出
 // Professional AI-driven chart generation system
 
-import { CHART_TYPES } from "@/constants/chart";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 
 // 核心系统
 export { AIChartDirector, aiChartDirector, generateChart, getSystemStatus } from './ai-chart-director';
@@ -11,6 +11,9 @@ export { InputRouter, inputRouter } from './input-router';
 export { DataExtractor, dataExtractor } from './data-extractor';
 export { IntentAnalyzer, intentAnalyzer } from './intent-analyzer';  
 export { ChartGenerator, chartGenerator } from './chart-generator';
+export { DataMerger, dataMerger } from './data-merger';
+export { DataReshaper, dataReshaper } from './data-reshaper';
+export { DerivedFieldEngine, derivedFieldEngine } from './derived-fields';
 
 // 类型定义
 export type {
@@ -26,10 +29,17 @@ export type {
   DataSchema,
   DataMetadata,
   ExtractedData,
+  DataLineage,
+  DataTransform,
+  ReshapeStep,
+  DerivedField,
+  FormulaNode,
   
   // 意图分析类型
   ChartIntent,
   CompatibilityResult,
+  AggregationMapping,
+  AggregationSpec,
   
   // 配置类型
   ChartConfig,
@@ -51,8 +61,17 @@ export { AIChartError } from './types';
 
 // 系统常量
 export const AI_CHART_SYSTEM_VERSION = '1.0.0';
-export const SUPPORTED_FILE_FORMATS = ['.xlsx', '.xls', '.csv'];
-export const SUPPORTED_CHART_TYPES = Object.values(CHART_TYPES);
+export const SUPPORTED_FILE_FORMATS = [
+  '.xlsx',
+  '.xls',
+  '.csv',
+  '.tsv',
+  '.json',
+  '.ndjson',
+  '.md',
+  '.markdown',
+];
+export const SUPPORTED_CHART_TYPES = chartTypeRegistry.getTypes();
 
 /**
  * 快速开始指南:
@@ -29,7 +29,16 @@ export interface IInputRouter {
  */
 export class InputRouter implements IInputRouter {
   private readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-  private readonly SUPPORTED_FILE_TYPES = [".xlsx", ".xls", ".csv"];
+  private readonly SUPPORTED_FILE_TYPES = [
+    ".xlsx",
+    ".xls",
+    ".csv",
+    ".tsv",
+    ".json",
+    ".ndjson",
+    ".md",
+    ".markdown",
+  ];
   private readonly MIN_PROMPT_LENGTH = 3;
 
   /**
@@ -206,7 +215,9 @@ export class InputRouter implements IInputRouter {
       // 检查文件类型
       const fileExtension = this.getFileExtension(file.name);
       if (!this.SUPPORTED_FILE_TYPES.includes(fileExtension)) {
-        errors.push(`文件 ${file.name} 格式不支持，仅支持 Excel (.xlsx, .xls) 和 CSV 文件`);
+        errors.push(
+          `文件 ${file.name} 格式不支持，仅支持 Excel (.xlsx, .xls)、CSV/TSV、JSON/NDJSON 和 Markdown 表格文件`
+        );
       }
 
       // 检查文件名
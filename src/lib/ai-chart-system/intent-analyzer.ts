@@ -2,9 +2,27 @@
 // 负责AI驱动的用户意图分析和图表类型推荐
 
 import { ChartType } from "@/types/chart";
-import { CHART_TYPES, CHART_TYPE_LABELS } from "@/constants/chart";
-import { AIService } from "@/lib/ai/types";
+import { CHART_TYPES } from "@/constants/chart";
+import {
+  AGGREGATION_DEFAULTS,
+  DUAL_AXIS_MAGNITUDE_THRESHOLD,
+  FACET_DEFAULTS,
+} from "@/constants/chart-config";
+import { AIService, AIServiceProvider } from "@/lib/ai/types";
 import { createServiceFromEnv } from "@/lib/ai/service-factory";
+import {
+  getFieldMagnitude,
+  isWaterfallTotalLabel,
+  needsDualAxis,
+  planComboSeriesLayout,
+} from "@/lib/data-analysis-utils";
+import { isFacetCandidate, splitFacetRows } from "@/lib/facet-utils";
+import { bucketDate, chooseTimeBucket, TIME_BUCKET_ORDER } from "@/lib/aggregation-utils";
+import { detectNestedHierarchy } from "@/lib/hierarchy-utils";
+import { detectOhlcFields } from "@/lib/ohlc-utils";
+import { matchRegions, RegionMatchResult } from "@/lib/geo-regions";
+import { chartTypeRegistry } from "@/lib/chart-registry";
+import { DerivedFieldEngine, IDerivedFieldEngine } from "./derived-fields";
 import {
   ChartIntent,
   CompatibilityResult,
@@ -13,99 +31,111 @@ import {
   VisualMapping,
   AIChartError,
   DataRow,
+  SeriesMapping,
+  AIChartSystemConfig,
+  AggregateFunction,
+  TimeBucket,
+  FieldValueFormat,
 } from "./types";
 
-const SUPPORTED_CHART_TYPES = Object.values(CHART_TYPES) as ChartType[];
-const { BAR, LINE, PIE, AREA, RADAR, RADIAL } = CHART_TYPES;
-
-const KEYWORD_MAP: Record<ChartType, string[]> = {
-  [LINE]: [
-    "line",
-    "line chart",
-    "line graph",
-    "trend",
-    "timeline",
-    "over time",
-    "growth",
-    "decline",
-    "走势",
-    "趋势",
-    "折线",
-    "变化",
-  ],
-  [AREA]: [
-    "area",
-    "area chart",
-    "stacked",
-    "cumulative",
-    "filled",
-    "coverage",
-    "累计",
-    "面积",
-    "堆叠",
-  ],
-  [BAR]: [
-    "bar",
-    "column",
-    "compare",
-    "comparison",
-    "versus",
-    "ranking",
-    "top",
-    "bottom",
-    "对比",
-    "比较",
-    "柱状",
-    "条形",
-  ],
-  [PIE]: [
-    "pie",
-    "donut",
-    "share",
-    "portion",
-    "ratio",
-    "percentage",
-    "percent",
-    "distribution",
-    "breakdown",
-    "composition",
-    "占比",
-    "比例",
-    "份额",
-    "饼图",
-  ],
-  [RADAR]: [
-    "radar",
-    "spider",
-    "star",
-    "polar",
-    "net",
-    "雷达",
-    "蛛网",
-    "极坐标",
-  ],
-  [RADIAL]: [
-    "radial",
-    "radial bar",
-    "gauge",
-    "circular",
-    "环形",
-    "径向",
-    "仪表",
-    "进度环",
-  ],
-};
-
-const FALLBACK_CHART_LABEL: Record<ChartType, string> = SUPPORTED_CHART_TYPES.reduce(
-  (acc, chartType) => {
-    acc[chartType] = CHART_TYPE_LABELS[chartType]?.en ?? chartType;
-    return acc;
-  },
-  {} as Record<ChartType, string>
-);
+const {
+  BAR,
+  LINE,
+  PIE,
+  AREA,
+  RADAR,
+  RADIAL,
+  SCATTER,
+  BUBBLE,
+  COMBO,
+  HEATMAP,
+  WATERFALL,
+  FUNNEL,
+  HISTOGRAM,
+  BOXPLOT,
+  TREEMAP,
+  SUNBURST,
+  CANDLESTICK,
+  CHOROPLETH,
+} = CHART_TYPES;
+
+/** 分类字段中能匹配到底图地区的取值占比达到该值时，视为地区字段 */
+const REGION_FIELD_MIN_MATCH_RATE = 0.6;
+
+/** 系列过多时可以按分类拆分为小多图的图表类型 */
+const FACET_CANDIDATE_TYPES: ChartType[] = [LINE, AREA, BAR, SCATTER, BUBBLE, COMBO, RADAR];
+
+/** 叶子数量达到该值时，嵌套分类更适合用层级图而不是饼图展示 */
+const HIERARCHY_MIN_LEAVES = 8;
+
+/** X轴取值重复或日期过密时可以分组聚合的图表类型 */
+const AGGREGATION_CANDIDATE_TYPES: ChartType[] = [
+  BAR,
+  LINE,
+  AREA,
+  COMBO,
+  PIE,
+  RADIAL,
+  RADAR,
+  HEATMAP,
+  WATERFALL,
+  FUNNEL,
+  CHOROPLETH,
+];
+
+/** 提示词中的聚合方式，按顺序匹配第一个 */
+const AGGREGATE_FUNCTION_HINTS: Array<{ pattern: RegExp; fn: AggregateFunction }> = [
+  { pattern: /中位数|median/i, fn: "median" },
+  { pattern: /去重|不重复|distinct|unique/i, fn: "distinct" },
+  { pattern: /平均|均值|average|\bavg\b|\bmean\b/i, fn: "avg" },
+  { pattern: /最大值|峰值|\bmax(imum)?\b/i, fn: "max" },
+  { pattern: /最小值|\bmin(imum)?\b/i, fn: "min" },
+  { pattern: /计数|次数|笔数|单数|个数|\bcount\b|number of/i, fn: "count" },
+  { pattern: /总和|合计|总计|汇总|\bsum\b|\btotal\b/i, fn: "sum" },
+];
+
+/** 提示词中的日期粒度，按从粗到细的顺序匹配第一个 */
+const TIME_BUCKET_HINTS: Array<{ pattern: RegExp; bucket: TimeBucket }> = [
+  { pattern: /按年(?!龄)|每年|逐年|年度|yearly|annual|per year|by year/i, bucket: "year" },
+  { pattern: /按季|每季|季度|quarterly|per quarter|by quarter/i, bucket: "quarter" },
+  { pattern: /按月|每月|逐月|月度|monthly|per month|by month/i, bucket: "month" },
+  { pattern: /按周|每周|逐周|周度|weekly|per week|by week/i, bucket: "week" },
+  { pattern: /按天|按日(?!期)|每天|每日|逐日|daily|per day|by day/i, bucket: "day" },
+];
+
+/** 不可相加、默认取平均值的指标（单价、比率、评分等） */
+const AVERAGE_MEASURE_PATTERN =
+  /rate|ratio|percent|pct|price|avg|average|mean|score|rating|temperature|率|比例|占比|单价|价格|均|评分|得分|温度/i;
+
+/** 可以在量级悬殊时升级为双轴组合图的图表类型 */
+const DUAL_AXIS_CANDIDATE_TYPES: ChartType[] = [BAR, LINE, AREA];
+
+const CORRELATION_HINTS = [
+  "correlat",
+  "relationship",
+  "track",
+  "depend",
+  "impact of",
+  "affect",
+  "相关",
+  "关系",
+  "关联",
+  "影响",
+];
+
+const DISTRIBUTION_HINTS = [
+  "distribution",
+  "distributed",
+  "spread",
+  "dispersion",
+  "skew",
+  "分布",
+  "离散",
+  "偏态",
+];
 
 const createScoreMap = (): Record<ChartType, number> =>
-  SUPPORTED_CHART_TYPES.reduce((acc, chartType) => {
+  chartTypeRegistry.getTypes().reduce((acc, chartType) => {
     acc[chartType] = 0;
     return acc;
   }, {} as Record<ChartType, number>);
@@ -128,14 +158,18 @@ interface HeuristicRecommendation {
  * 意图分析器接口
  */
 export interface IIntentAnalyzer {
-  /** 分析图表意图 */
-  analyzeChartIntent(prompt: string, dataStructure: UnifiedDataStructure): Promise<ChartIntent>;
+  /** 分析图表意图；sessionId 随 AI 请求发送，用于按会话录制 AI 调用 */
+  analyzeChartIntent(
+    prompt: string,
+    dataStructure: UnifiedDataStructure,
+    sessionId?: string
+  ): Promise<ChartIntent>;
 
   /** 验证数据兼容性 */
   validateDataCompatibility(intent: ChartIntent, data: UnifiedDataStructure): CompatibilityResult;
 
   /** 自动推荐最佳可视化方案 */
-  suggestBestVisualization(data: UnifiedDataStructure): Promise<ChartIntent>;
+  suggestBestVisualization(data: UnifiedDataStructure, sessionId?: string): Promise<ChartIntent>;
 }
 
 /**
@@ -143,9 +177,23 @@ export interface IIntentAnalyzer {
  */
 export class IntentAnalyzer implements IIntentAnalyzer {
   private aiService: AIService;
+  private maxSeriesCount: number;
+  private derivedFieldEngine: IDerivedFieldEngine;
+  private onProvider?: (provider: AIServiceProvider) => void;
 
-  constructor(aiService?: AIService) {
-    this.aiService = aiService || createServiceFromEnv("deepseek");
+  /**
+   * @param onProvider 意图分析经由 API 路由调用 AI，路由返回实际响应的提供商时回调
+   */
+  constructor(
+    aiService?: AIService,
+    config?: Partial<AIChartSystemConfig>,
+    onProvider?: (provider: AIServiceProvider) => void
+  ) {
+    this.aiService = aiService || createServiceFromEnv();
+    this.onProvider = onProvider;
+    this.derivedFieldEngine = new DerivedFieldEngine();
+    this.maxSeriesCount =
+      config?.chartGeneration?.maxSeriesCount ?? FACET_DEFAULTS.MAX_SERIES_COUNT;
   }
 
   /**
@@ -153,19 +201,24 @@ export class IntentAnalyzer implements IIntentAnalyzer {
    */
   async analyzeChartIntent(
     prompt: string,
-    dataStructure: UnifiedDataStructure
+    dataStructure: UnifiedDataStructure,
+    sessionId?: string
   ): Promise<ChartIntent> {
     console.log("🎯 [IntentAnalyzer] 开始AI意图分析...");
 
     try {
       const heuristic = this.buildHeuristicRecommendation(prompt, dataStructure);
 
-      // 使用AI分析
-      const aiIntent = await this.aiAnalyzeIntent(prompt, dataStructure);
-      if (aiIntent) {
+      // 使用AI分析；AI提出的派生字段先计算，再按包含派生字段的数据规划映射
+      const rawAiIntent = await this.aiAnalyzeIntent(prompt, dataStructure, sessionId);
+      const derived = rawAiIntent ? this.applyDerivedFields(rawAiIntent, dataStructure) : null;
+      const aiIntent = derived
+        ? this.planVisualMapping(derived.intent, derived.data, prompt)
+        : null;
+      if (aiIntent && derived) {
         console.log("✅ [IntentAnalyzer] AI意图分析成功:", aiIntent.chartType);
 
-        const compatibility = this.validateDataCompatibility(aiIntent, dataStructure);
+        const compatibility = this.validateDataCompatibility(aiIntent, derived.data);
         const fallbackIntent = heuristic.intent;
         const fallbackCompatibility = fallbackIntent
           ? this.validateDataCompatibility(fallbackIntent, dataStructure)
@@ -297,7 +350,10 @@ export class IntentAnalyzer implements IIntentAnalyzer {
   /**
    * 自动推荐最佳可视化方案（文件场景）
    */
-  async suggestBestVisualization(data: UnifiedDataStructure): Promise<ChartIntent> {
+  async suggestBestVisualization(
+    data: UnifiedDataStructure,
+    sessionId?: string
+  ): Promise<ChartIntent> {
     console.log("🤖 [IntentAnalyzer] AI推荐最佳可视化方案...");
 
     try {
@@ -317,10 +373,11 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
 请推荐最适合的图表类型并说明原因。`;
 
       // 使用AI进行数据特征分析和图表推荐
-      const aiIntent = await this.aiAnalyzeIntent(dataAnalysisPrompt, data);
+      const aiIntent = await this.aiAnalyzeIntent(dataAnalysisPrompt, data, sessionId);
       if (aiIntent) {
         console.log("✅ [IntentAnalyzer] AI自动推荐完成:", aiIntent.chartType);
-        return aiIntent;
+        const derived = this.applyDerivedFields(aiIntent, data);
+        return this.planVisualMapping(derived.intent, derived.data);
       }
 
       // AI分析失败，抛出错误
@@ -343,12 +400,34 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
     }
   }
 
+  /**
+   * 校验并计算AI提出的派生字段，意图中只保留计算成功的字段
+   */
+  private applyDerivedFields(
+    intent: ChartIntent,
+    data: UnifiedDataStructure
+  ): { intent: ChartIntent; data: UnifiedDataStructure } {
+    if (!intent.derivedFields?.length) {
+      return { intent: { ...intent, derivedFields: undefined }, data };
+    }
+
+    const derivedData = this.derivedFieldEngine.apply(data, intent.derivedFields);
+    const applied = (derivedData.metadata.derivedFields ?? []).slice(
+      data.metadata.derivedFields?.length ?? 0
+    );
+    return {
+      intent: { ...intent, derivedFields: applied.length > 0 ? applied : undefined },
+      data: derivedData,
+    };
+  }
+
   /**
    * AI驱动的意图分析 - 通过API调用
    */
   private async aiAnalyzeIntent(
     prompt: string,
-    dataStructure: UnifiedDataStructure
+    dataStructure: UnifiedDataStructure,
+    sessionId?: string
   ): Promise<ChartIntent | null> {
     try {
       const response = await fetch("/api/ai/analyze-intent", {
@@ -359,6 +438,7 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
         body: JSON.stringify({
           prompt,
           dataStructure,
+          sessionId,
         }),
       });
 
@@ -372,6 +452,9 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
         throw new Error(`AI意图分析失败: ${result.error}`);
       }
 
+      if (result.provider) {
+        this.onProvider?.(result.provider);
+      }
       return result.chartIntent;
     } catch (error) {
       console.warn(
@@ -386,24 +469,13 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
    * 获取不同图表类型的最小数据要求
    */
   private getMinimumDataRequirement(chartType: ChartType): { min: number; reason: string } {
-    switch (chartType) {
-      case PIE:
-        return { min: 1, reason: "可以显示单个数据点的占比" };
-      case RADIAL:
-        return { min: 1, reason: "单指标分布即可展示环形占比" };
-      case BAR:
-        return { min: 1, reason: "可以显示单个类别的数值" };
-      case LINE:
-        return { min: 2, reason: "需要至少两个数据点来显示趋势" };
-      case AREA:
-        return { min: 2, reason: "需要至少两个数据点来显示面积变化" };
-      case RADAR:
-        return { min: 3, reason: "雷达图至少需要三个维度来形成图形" };
-      default:
-        return { min: 1, reason: "基础数据要求" };
-    }
+    const requirements = chartTypeRegistry.get(chartType)?.dataRequirements;
+    return requirements
+      ? { min: requirements.minDataPoints, reason: requirements.reason }
+      : { min: 1, reason: "基础数据要求" };
   }
 
+
   /**
    * 检查图表类型与数据的兼容性
    */
@@ -468,6 +540,130 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
           issues.push("雷达图需要分类字段来描绘轴标签");
         }
         break;
+
+      case SCATTER:
+        if (stats.numericFields.length < 2) {
+          issues.push("散点图需要至少两个数值字段分别作为X轴和Y轴");
+        }
+        break;
+
+      case BUBBLE:
+        if (stats.numericFields.length < 3) {
+          issues.push("气泡图需要至少三个数值字段（X轴、Y轴和气泡大小）");
+          suggestions.push("数值字段不足时可改用散点图");
+        }
+        break;
+
+      case COMBO:
+        if (stats.numericFields.length < 2) {
+          issues.push("组合图需要至少两个数值字段");
+        }
+        if (stats.categoricalFields.length === 0 && stats.dateFields.length === 0) {
+          issues.push("组合图需要分类或时间字段作为X轴");
+        }
+        break;
+
+      case HEATMAP:
+        if (stats.numericFields.length === 0) {
+          issues.push("热力图需要一个数值字段来决定单元格颜色");
+        }
+        if (stats.categoricalFields.length + stats.dateFields.length < 2) {
+          issues.push("热力图需要两个分类或时间字段分别作为行和列");
+          suggestions.push("只有一个维度时可改用柱状图");
+        }
+        break;
+
+      case WATERFALL:
+        if (stats.numericFields.length === 0) {
+          issues.push("瀑布图需要一个数值字段表示各步骤的变化量");
+        }
+        if (stats.categoricalFields.length === 0 && stats.dateFields.length === 0) {
+          issues.push("瀑布图需要分类或时间字段作为步骤名称");
+        }
+        break;
+
+      case FUNNEL:
+        if (stats.numericFields.length === 0) {
+          issues.push("漏斗图需要一个数值字段表示各阶段数量");
+        }
+        if (stats.categoricalFields.length === 0) {
+          issues.push("漏斗图需要分类字段作为阶段名称");
+        }
+        if (
+          stats.numericFields.length > 0 &&
+          !this.isNonIncreasing(data, stats.numericFields[0])
+        ) {
+          suggestions.push("阶段数值未逐级递减，请确认阶段顺序是否正确");
+        }
+        break;
+
+      case HISTOGRAM:
+        if (stats.numericFields.length === 0) {
+          issues.push("直方图需要一个数值字段作为观测值");
+        }
+        if (data.data.length < 20) {
+          suggestions.push("观测值较少时分箱结果不稳定，可考虑使用箱线图或柱状图");
+        }
+        break;
+
+      case BOXPLOT:
+        if (stats.numericFields.length === 0) {
+          issues.push("箱线图需要一个数值字段作为观测值");
+        }
+        if (
+          stats.categoricalFields.length > 0 &&
+          this.countUniqueCategories(data, stats.categoricalFields[0]) >= data.data.length
+        ) {
+          suggestions.push("每个分类只有一个观测值，箱线图无法体现组内分布，建议使用柱状图");
+        }
+        break;
+
+      case TREEMAP:
+      case SUNBURST:
+        if (stats.categoricalFields.length === 0) {
+          issues.push("层级图需要至少一个分类字段作为层级");
+        }
+        if (detectNestedHierarchy(data.data, stats.categoricalFields).length < 2) {
+          suggestions.push("未识别到嵌套的分类层级，单层数据可考虑使用饼图或柱状图");
+        }
+        break;
+
+      case CANDLESTICK:
+        if (!detectOhlcFields(data.schema.fields)) {
+          issues.push("K线图需要开盘、最高、最低、收盘4个数值字段");
+        }
+        if (stats.dateFields.length === 0) {
+          suggestions.push("未识别到日期字段，K线将按分类顺序排列");
+        }
+        break;
+
+      case CHOROPLETH: {
+        const region = this.detectRegionField(data);
+        if (!region) {
+          issues.push("地图需要一个包含国家或中国省份名称（或编码）的分类字段");
+        } else if (region.match.unmatched.length > 0) {
+          suggestions.push(
+            `地区字段 ${region.field} 中有 ${region.match.unmatched.length} 个取值未能匹配到底图`
+          );
+        }
+        if (stats.numericFields.length === 0) {
+          issues.push("地图需要一个数值字段用于着色");
+        }
+        break;
+      }
+
+      default: {
+        // 扩展图表类型由插件自行校验
+        const plugin = chartTypeRegistry.get(chartType);
+        if (!plugin) {
+          issues.push(`不支持的图表类型：${chartType}`);
+        } else if (plugin.validateData) {
+          const validation = plugin.validateData(data);
+          issues.push(...validation.issues);
+          suggestions.push(...validation.suggestions);
+        }
+        break;
+      }
     }
 
     return {
@@ -497,19 +693,17 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
       });
     }
 
-    return [...new Set(required)];
-  }
-
-  private cleanJsonResponse(content: string): string {
-    let cleaned = content.trim();
-
-    if (cleaned.startsWith("```json")) {
-      cleaned = cleaned.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-    } else if (cleaned.startsWith("```")) {
-      cleaned = cleaned.replace(/^```\s*/, "").replace(/\s*```$/, "");
+    if (visualMapping?.sizeBy) {
+      const field = data.schema.fields.find(f => f.name === visualMapping.sizeBy);
+      if (field) required.push(field.name);
     }
 
-    return cleaned;
+    visualMapping?.hierarchy?.forEach(fieldName => {
+      const field = data.schema.fields.find(f => f.name === fieldName);
+      if (field) required.push(field.name);
+    });
+
+    return [...new Set(required)];
   }
 
   private generateFallbackIntent(prompt: string, data: UnifiedDataStructure): ChartIntent | null {
@@ -552,11 +746,12 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
     const matchedKeywords: string[] = [];
     const normalizedPrompt = prompt.toLowerCase();
 
-    (Object.entries(KEYWORD_MAP) as [ChartType, string[]][]).forEach(([chartType, keywords]) => {
+    const keywordMap = chartTypeRegistry.getKeywordMap("hints");
+    Object.entries(keywordMap).forEach(([chartType, keywords]) => {
       keywords.forEach(keyword => {
         const normalizedKeyword = keyword.toLowerCase();
         if (normalizedPrompt.includes(normalizedKeyword)) {
-          scores[chartType] += 2;
+          scores[chartType as ChartType] += 2;
           matchedKeywords.push(keyword);
         }
       });
@@ -572,6 +767,17 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
       reasons.push(`Detected time-related field ${dateFields[0]} which favors trend charts`);
     }
 
+    // 开高低收字段齐全时，画成多条折线会丢失每个周期的波动区间
+    const ohlcFields = detectOhlcFields(data.schema.fields);
+    if (ohlcFields) {
+      scores[CANDLESTICK] += 4;
+      scores[LINE] -= 1;
+      scores[AREA] -= 1;
+      reasons.push(
+        `Detected OHLC fields (${[ohlcFields.open, ohlcFields.high, ohlcFields.low, ohlcFields.close].join(", ")}) which favor a candlestick chart`
+      );
+    }
+
     if (categoricalFields.length > 0) {
       scores[BAR] += 1.2;
       reasons.push(`Categorical field ${categoricalFields[0]} suggests comparison visuals`);
@@ -596,6 +802,137 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
       );
     }
 
+    // 两个数值字段主导时（缺少分类/时间维度或分类字段近乎唯一），倾向于散点图
+    const categoryIsIdentifier =
+      categoricalFields.length > 0 &&
+      this.countUniqueCategories(data, categoricalFields[0]) >= data.data.length * 0.9;
+    const numericDominant =
+      numericFields.length >= 2 &&
+      dateFields.length === 0 &&
+      (categoricalFields.length === 0 || categoryIsIdentifier);
+
+    if (numericDominant) {
+      scores[SCATTER] += 1.8;
+      reasons.push(
+        `Numeric fields ${numericFields.slice(0, 2).join(", ")} dominate the dataset, favoring scatter plots`
+      );
+      if (numericFields.length >= 3) {
+        scores[BUBBLE] += 1.0;
+      }
+    }
+
+    if (
+      numericFields.length >= 2 &&
+      CORRELATION_HINTS.some(hint => normalizedPrompt.includes(hint))
+    ) {
+      scores[SCATTER] += 2.5;
+      scores[BUBBLE] += numericFields.length >= 3 ? 1.2 : 0;
+      reasons.push("Correlation language detected, boosting scatter chart score");
+    }
+
+    // 多个指标量级相差数个数量级时，单一Y轴会把小量级系列压平，改用双轴组合图
+    if (
+      numericFields.length >= 2 &&
+      (categoricalFields.length > 0 || dateFields.length > 0) &&
+      needsDualAxis(data.data, numericFields.slice(0, 4))
+    ) {
+      scores[COMBO] += 2.4;
+      reasons.push("Metric magnitudes differ by orders of magnitude, favoring a dual-axis combo chart");
+    }
+
+    // 两个维度交叉、单一指标的长表数据（如地区×月份销量）适合热力图矩阵
+    const dimensionFields = [...categoricalFields, ...dateFields];
+    if (dimensionFields.length >= 2 && numericFields.length === 1) {
+      const crossCellCount =
+        this.countUniqueCategories(data, dimensionFields[0]) *
+        this.countUniqueCategories(data, dimensionFields[1]);
+      if (crossCellCount >= 6) {
+        scores[HEATMAP] += 2.0;
+        reasons.push(
+          `Two dimensions (${dimensionFields.slice(0, 2).join(" × ")}) with a single metric form a matrix, favoring heatmaps`
+        );
+      }
+    }
+
+    // 单一指标正负交替或包含合计行时，适合用瀑布图展示逐项增减
+    const primaryMetric = numericFields[0];
+    const stepLabelField = categoricalFields[0] || dateFields[0];
+    if (primaryMetric && stepLabelField) {
+      const metricValues = data.data.map(row => Number(row[primaryMetric]));
+      const hasMixedSigns =
+        metricValues.some(value => value > 0) && metricValues.some(value => value < 0);
+      const hasTotalRows = data.data.some(row =>
+        isWaterfallTotalLabel(String(row[stepLabelField] ?? ""))
+      );
+      if (hasMixedSigns || hasTotalRows) {
+        scores[WATERFALL] += hasTotalRows ? 1.6 : 1.2;
+        reasons.push(
+          `${primaryMetric} contains ${hasTotalRows ? "total rows" : "both gains and losses"}, fitting a waterfall bridge`
+        );
+      }
+    }
+
+    // 单一指标沿阶段逐级递减时，适合用漏斗图展示转化
+    if (
+      numericFields.length === 1 &&
+      categoricalFields.length > 0 &&
+      data.data.length >= 3 &&
+      this.isNonIncreasing(data, numericFields[0])
+    ) {
+      scores[FUNNEL] += 1.5;
+      reasons.push(`${numericFields[0]} decreases stage by stage, fitting a conversion funnel`);
+    }
+
+    // 原始观测值：分类字段重复出现（每组多个观测）时适合箱线图，
+    // 没有可用分组且行数较多时适合直方图
+    const rowsPerCategory =
+      categoricalFields.length > 0
+        ? data.data.length / this.countUniqueCategories(data, categoricalFields[0])
+        : 0;
+    const hasRepeatedGroups = rowsPerCategory >= 5 && !categoryIsIdentifier;
+    const mentionsDistribution = DISTRIBUTION_HINTS.some(hint =>
+      normalizedPrompt.includes(hint)
+    );
+
+    if (hasRepeatedGroups) {
+      scores[BOXPLOT] += mentionsDistribution ? 2.6 : 1.4;
+      reasons.push(
+        `${categoricalFields[0]} repeats across ~${Math.round(rowsPerCategory)} observations per group, fitting per-group box plots`
+      );
+    } else if (dateFields.length === 0 && data.data.length >= 20) {
+      scores[HISTOGRAM] += mentionsDistribution ? 2.6 : 1.0;
+      reasons.push(
+        `${data.data.length} raw observations of ${numericFields[0]} without a grouping field favor a histogram`
+      );
+    }
+
+    // 嵌套的分类层级（如品类→子类→商品）且叶子较多时，饼图会把层级压平，改用层级图
+    const nestedHierarchy = detectNestedHierarchy(data.data, categoricalFields);
+    if (nestedHierarchy.length >= 2) {
+      const leafCount = this.countUniqueCategories(
+        data,
+        nestedHierarchy[nestedHierarchy.length - 1]
+      );
+      if (leafCount >= HIERARCHY_MIN_LEAVES) {
+        scores[TREEMAP] += 2.2;
+        scores[SUNBURST] += nestedHierarchy.length >= 3 ? 1.8 : 1.4;
+        scores[PIE] -= 1;
+        reasons.push(
+          `Nested categories (${nestedHierarchy.join(" → ")}) with ${leafCount} leaves favor hierarchical charts`
+        );
+      }
+    }
+
+    // 分类字段取值多为国家或省份名称时，适合用地图展示地理分布
+    const regionField = this.detectRegionField(data);
+    if (regionField) {
+      scores[CHOROPLETH] += 3;
+      scores[PIE] -= 0.5;
+      reasons.push(
+        `${regionField.field} matches ${regionField.match.matches.size} ${regionField.match.mapKey} regions, favoring a choropleth map`
+      );
+    }
+
     const rowCount = data.data.length;
     if (rowCount <= 8) {
       scores[PIE] += 0.6;
@@ -691,6 +1028,58 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
       }
     }
 
+    if (selectedType === BUBBLE && numericFields.length < 3) {
+      selectedType = SCATTER;
+      reasons.push("Bubble chart needs three numeric fields, falling back to scatter");
+    }
+
+    if (selectedType === SCATTER && numericFields.length < 2) {
+      selectedType = categoricalFields.length > 0 ? BAR : dateFields.length > 0 ? LINE : BAR;
+      reasons.push("Scatter chart needs two numeric fields, switching to a more robust type");
+    }
+
+    if (selectedType === COMBO && numericFields.length < 2) {
+      selectedType = dateFields.length > 0 ? LINE : BAR;
+      reasons.push("Combo chart needs at least two metrics, switching to a single-series type");
+    }
+
+    if (
+      selectedType === HEATMAP &&
+      (categoricalFields.length + dateFields.length < 2 || numericFields.length === 0)
+    ) {
+      selectedType = dateFields.length > 0 ? LINE : BAR;
+      reasons.push("Heatmap needs two dimensions and one metric, switching to a single-axis type");
+    }
+
+    if (
+      (selectedType === WATERFALL || selectedType === FUNNEL) &&
+      (numericFields.length === 0 ||
+        (categoricalFields.length === 0 && (selectedType === FUNNEL || dateFields.length === 0)))
+    ) {
+      reasons.push(`${selectedType} chart needs stage labels and a metric, switching to a basic type`);
+      selectedType = dateFields.length > 0 ? LINE : BAR;
+    }
+
+    if ((selectedType === TREEMAP || selectedType === SUNBURST) && categoricalFields.length === 0) {
+      reasons.push(`${selectedType} chart needs categorical levels, switching to a basic type`);
+      selectedType = dateFields.length > 0 ? LINE : BAR;
+    }
+
+    if (selectedType === CANDLESTICK && !ohlcFields) {
+      reasons.push("Candlestick chart needs open/high/low/close fields, switching to a line chart");
+      selectedType = dateFields.length > 0 ? LINE : BAR;
+    }
+
+    if (selectedType === CHOROPLETH && !regionField) {
+      reasons.push("Choropleth map needs a field of country or province names, switching to a bar chart");
+      selectedType = BAR;
+    }
+
+    if (selectedType === BOXPLOT && data.data.length < 4) {
+      selectedType = categoricalFields.length > 0 ? BAR : LINE;
+      reasons.push("Box plot needs at least four observations, switching to a basic type");
+    }
+
     const xAxis = this.pickFallbackXAxis(selectedType, data);
     const yAxis = this.pickFallbackYAxis(selectedType, data, xAxis);
 
@@ -709,8 +1098,31 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
       };
     }
 
-    const requiredFields = Array.from(new Set([xAxis, ...yAxis].filter(Boolean)));
+    const sizeBy =
+      selectedType === BUBBLE
+        ? numericFields.find(field => field !== xAxis && !yAxis.includes(field))
+        : undefined;
+
     const optionalFields = categoricalFields.filter(field => field !== xAxis);
+    const colorBy = this.pickFallbackColorBy(selectedType, data, optionalFields, xAxis);
+    const hierarchy =
+      selectedType === TREEMAP || selectedType === SUNBURST
+        ? this.resolveHierarchy(data)
+        : undefined;
+    const ohlc = selectedType === CANDLESTICK && ohlcFields ? ohlcFields : undefined;
+    // 热力图的第二维度（colorBy）、层级图的各级字段与K线图的成交量是必需字段
+    const requiredFields = Array.from(
+      new Set(
+        [
+          xAxis,
+          ...yAxis,
+          sizeBy,
+          selectedType === HEATMAP ? colorBy : undefined,
+          ...(hierarchy || []),
+          ohlc?.volume,
+        ].filter(Boolean)
+      )
+    ) as string[];
 
     const confidence = Math.max(0.5, Math.min(0.9, 0.55 + maxScore * 0.08));
 
@@ -726,13 +1138,17 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
       visualMapping: {
         xAxis,
         yAxis,
-        colorBy: selectedType === PIE || selectedType === RADIAL ? undefined : optionalFields[0],
+        colorBy,
+        sizeBy,
+        series: selectedType === COMBO ? this.buildSeriesMapping(data, yAxis) : undefined,
+        hierarchy,
+        ohlc,
       },
       suggestions,
     };
 
     return {
-      intent,
+      intent: this.applyAggregationPlanning(this.applyFacetPlanning(intent, data), data, prompt),
       analysis: {
         bestType: selectedType,
         bestScore: maxScore,
@@ -744,8 +1160,373 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
     };
   }
 
+  /**
+   * 组合图系列规划：为AI结果补齐系列映射，
+   * 柱/线/面积图的多个系列量级悬殊时自动升级为双轴组合图
+   */
+  private applyDualAxisPlanning(intent: ChartIntent, data: UnifiedDataStructure): ChartIntent {
+    const yAxis = intent.visualMapping?.yAxis || [];
+
+    if (intent.chartType === COMBO) {
+      const existing = intent.visualMapping.series || [];
+      const planned = this.buildSeriesMapping(data, yAxis);
+      return {
+        ...intent,
+        visualMapping: {
+          ...intent.visualMapping,
+          series: planned.map(
+            mapping => existing.find(item => item.field === mapping.field) || mapping
+          ),
+        },
+      };
+    }
+
+    if (
+      DUAL_AXIS_CANDIDATE_TYPES.includes(intent.chartType) &&
+      yAxis.length >= 2 &&
+      needsDualAxis(data.data, yAxis)
+    ) {
+      console.log("🧭 [IntentAnalyzer] 系列量级差异悬殊，切换为双轴组合图:", {
+        previous: intent.chartType,
+        yAxis,
+      });
+
+      return {
+        ...intent,
+        chartType: COMBO,
+        reasoning: `${intent.reasoning}；系列量级相差数个数量级，使用双Y轴组合图`,
+        visualMapping: {
+          ...intent.visualMapping,
+          series: this.buildSeriesMapping(data, yAxis),
+        },
+      };
+    }
+
+    return intent;
+  }
+
+  /**
+   * 视觉映射规划：依次补齐双轴、层级、K线字段映射、分面与分组聚合
+   */
+  private planVisualMapping(
+    intent: ChartIntent,
+    data: UnifiedDataStructure,
+    prompt = ""
+  ): ChartIntent {
+    return this.applyAggregationPlanning(
+      this.applyFacetPlanning(
+        this.applyOhlcPlanning(
+          this.applyHierarchyPlanning(this.applyDualAxisPlanning(intent, data), data),
+          data
+        ),
+        data
+      ),
+      data,
+      prompt
+    );
+  }
+
+  /**
+   * 聚合规划：X轴取值在同一分组内重复、日期X轴点数超过上限或用户要求按月/季等汇总时，
+   * 按X轴字段（及 colorBy、分面字段）分组聚合。
+   * 聚合函数优先遵循提示词，其次沿用AI给出的方案，否则金额类字段求和、单价比率类字段取平均
+   */
+  private applyAggregationPlanning(
+    intent: ChartIntent,
+    data: UnifiedDataStructure,
+    prompt: string
+  ): ChartIntent {
+    const mapping = intent.visualMapping;
+    if (!AGGREGATION_CANDIDATE_TYPES.includes(intent.chartType) || !mapping.xAxis) {
+      return mapping.aggregation
+        ? { ...intent, visualMapping: { ...mapping, aggregation: undefined } }
+        : intent;
+    }
+
+    const xField = data.schema.fields.find(field => field.name === mapping.xAxis);
+    const requestedFunction = AGGREGATE_FUNCTION_HINTS.find(hint => hint.pattern.test(prompt))?.fn;
+    const requestedBucket = TIME_BUCKET_HINTS.find(hint => hint.pattern.test(prompt))?.bucket;
+
+    // 日期分桶粒度不细于字段本身的粒度；未指定时取分桶数不超过上限的最细粒度
+    let timeBucket: TimeBucket | undefined;
+    if (xField?.type === "date") {
+      const minBucket = this.toTimeBucket(xField.format?.granularity);
+      const proposed = requestedBucket ?? mapping.aggregation?.timeBucket;
+      timeBucket =
+        proposed && TIME_BUCKET_ORDER.indexOf(proposed) >= TIME_BUCKET_ORDER.indexOf(minBucket)
+          ? proposed
+          : chooseTimeBucket(
+              data.data.map(row => row[mapping.xAxis]),
+              AGGREGATION_DEFAULTS.MAX_TIME_BUCKETS,
+              minBucket
+            );
+    }
+
+    const groupFields = [mapping.colorBy, mapping.facet?.field].filter(
+      (field): field is string => Boolean(field) && field !== mapping.xAxis
+    );
+    const groupKeys = new Set(
+      data.data.map(row =>
+        JSON.stringify([
+          timeBucket ? bucketDate(row[mapping.xAxis], timeBucket)?.label : row[mapping.xAxis],
+          ...groupFields.map(field => row[field] ?? null),
+        ])
+      )
+    );
+    if (!mapping.aggregation && groupKeys.size === data.data.length) {
+      return intent;
+    }
+
+    const averaged = mapping.yAxis.filter(field => this.isAverageMeasure(data, field));
+    const defaultFunction: AggregateFunction =
+      averaged.length > 0 && averaged.length === mapping.yAxis.length ? "avg" : "sum";
+    const fn = requestedFunction ?? mapping.aggregation?.function ?? defaultFunction;
+    const measures = requestedFunction
+      ? undefined
+      : mapping.aggregation
+        ? mapping.aggregation.measures
+        : fn === "sum" && averaged.length > 0
+          ? Object.fromEntries(averaged.map(field => [field, "avg" as AggregateFunction]))
+          : undefined;
+
+    console.log("🧭 [IntentAnalyzer] X轴取值重复或日期过密，按分组聚合:", {
+      xAxis: mapping.xAxis,
+      groupBy: groupFields,
+      function: fn,
+      measures,
+      timeBucket,
+      rows: data.data.length,
+      groups: groupKeys.size,
+    });
+
+    return {
+      ...intent,
+      reasoning: `${intent.reasoning}；按 ${mapping.xAxis}${timeBucket ? `（${timeBucket}）` : ""} 分组聚合（${fn}），${data.data.length} 行汇总为 ${groupKeys.size} 个数据点`,
+      visualMapping: {
+        ...mapping,
+        aggregation: { function: fn, measures, timeBucket },
+      },
+    };
+  }
+
+  private toTimeBucket(granularity?: FieldValueFormat["granularity"]): TimeBucket {
+    return !granularity || granularity === "datetime" ? "day" : granularity;
+  }
+
+  private isAverageMeasure(data: UnifiedDataStructure, fieldName: string): boolean {
+    const field = data.schema.fields.find(item => item.name === fieldName);
+    return field?.format?.kind === "percent" || AVERAGE_MEASURE_PATTERN.test(fieldName);
+  }
+
+  /**
+   * 分面规划：校验AI给出的分面字段；系列数超过 maxSeriesCount 时，
+   * 按系列分组字段拆分为小多图，各子图量级悬殊时使用独立坐标轴
+   */
+  private applyFacetPlanning(intent: ChartIntent, data: UnifiedDataStructure): ChartIntent {
+    const mapping = intent.visualMapping;
+    const categoricalFields = data.metadata?.statistics?.categoricalFields || [];
+
+    if (mapping.facet) {
+      const isValid =
+        categoricalFields.includes(mapping.facet.field) && mapping.facet.field !== mapping.xAxis;
+      return isValid
+        ? intent
+        : { ...intent, visualMapping: { ...mapping, facet: undefined } };
+    }
+
+    if (!FACET_CANDIDATE_TYPES.includes(intent.chartType)) {
+      return intent;
+    }
+
+    // 系列分组字段：优先使用 colorBy，否则取X轴取值重复出现时的另一个分类字段（长表数据）
+    const xAxisRepeats = this.countUniqueCategories(data, mapping.xAxis) < data.data.length;
+    const splitField =
+      mapping.colorBy && categoricalFields.includes(mapping.colorBy)
+        ? mapping.colorBy
+        : xAxisRepeats
+          ? categoricalFields.find(field => field !== mapping.xAxis)
+          : undefined;
+
+    if (
+      !splitField ||
+      splitField === mapping.xAxis ||
+      !isFacetCandidate(data.data, splitField, this.maxSeriesCount)
+    ) {
+      return intent;
+    }
+
+    const groups = splitFacetRows(data.data, splitField);
+    const magnitudes = groups
+      .map(group => getFieldMagnitude(group.rows, mapping.yAxis[0]))
+      .filter((magnitude): magnitude is number => magnitude !== null);
+    const independent =
+      magnitudes.length >= 2 &&
+      Math.max(...magnitudes) - Math.min(...magnitudes) >= DUAL_AXIS_MAGNITUDE_THRESHOLD;
+
+    console.log("🧭 [IntentAnalyzer] 系列数超过上限，拆分为小多图:", {
+      field: splitField,
+      panels: groups.length,
+      maxSeriesCount: this.maxSeriesCount,
+      axes: independent ? "independent" : "shared",
+    });
+
+    return {
+      ...intent,
+      reasoning: `${intent.reasoning}；${splitField} 有 ${groups.length} 个分组，超过单图可读的 ${this.maxSeriesCount} 个系列，按其拆分为小多图`,
+      requiredFields: Array.from(new Set([...intent.requiredFields, splitField])),
+      visualMapping: {
+        ...mapping,
+        colorBy: mapping.colorBy === splitField ? undefined : mapping.colorBy,
+        facet: { field: splitField, axes: independent ? "independent" : "shared" },
+      },
+    };
+  }
+
+  /**
+   * 层级规划：为层级图补齐层级字段，AI 未给出或字段无效时自动识别嵌套分类
+   */
+  private applyHierarchyPlanning(intent: ChartIntent, data: UnifiedDataStructure): ChartIntent {
+    if (intent.chartType !== TREEMAP && intent.chartType !== SUNBURST) {
+      return intent;
+    }
+
+    const hierarchy = this.resolveHierarchy(data, intent.visualMapping?.hierarchy);
+    if (hierarchy.length === 0) {
+      return intent;
+    }
+
+    return {
+      ...intent,
+      requiredFields: Array.from(new Set([...intent.requiredFields, ...hierarchy])),
+      visualMapping: {
+        ...intent.visualMapping,
+        xAxis: hierarchy[0],
+        hierarchy,
+      },
+    };
+  }
+
+  /**
+   * K线规划：AI 给出的开高低收字段无效时按字段名重新识别，并将 yAxis 统一为开、高、低、收顺序
+   */
+  private applyOhlcPlanning(intent: ChartIntent, data: UnifiedDataStructure): ChartIntent {
+    if (intent.chartType !== CANDLESTICK) {
+      return intent;
+    }
+
+    const fieldNames = new Set(data.schema.fields.map(field => field.name));
+    const proposed = intent.visualMapping?.ohlc;
+    const ohlc =
+      proposed &&
+      [proposed.open, proposed.high, proposed.low, proposed.close].every(field =>
+        fieldNames.has(field)
+      )
+        ? {
+            ...proposed,
+            volume:
+              proposed.volume && fieldNames.has(proposed.volume) ? proposed.volume : undefined,
+          }
+        : detectOhlcFields(data.schema.fields);
+    if (!ohlc) {
+      return intent;
+    }
+
+    const yAxis = [ohlc.open, ohlc.high, ohlc.low, ohlc.close];
+    return {
+      ...intent,
+      requiredFields: Array.from(
+        new Set(
+          [intent.visualMapping.xAxis, ...yAxis, ohlc.volume].filter(
+            (field): field is string => Boolean(field)
+          )
+        )
+      ),
+      visualMapping: {
+        ...intent.visualMapping,
+        yAxis,
+        ohlc,
+      },
+    };
+  }
+
+  private resolveHierarchy(data: UnifiedDataStructure, preferred?: string[]): string[] {
+    const fieldNames = new Set(data.schema.fields.map(field => field.name));
+    const valid = (preferred || []).filter(field => fieldNames.has(field));
+    if (valid.length > 0) {
+      return valid;
+    }
+
+    const categoricalFields = data.metadata.statistics.categoricalFields;
+    const nested = detectNestedHierarchy(data.data, categoricalFields);
+    return nested.length > 0 ? nested : categoricalFields.slice(0, 1);
+  }
+
+  private buildSeriesMapping(data: UnifiedDataStructure, yAxis: string[]): SeriesMapping[] {
+    const layout = planComboSeriesLayout(data.data, yAxis);
+    return yAxis.map(field => ({ field, ...layout[field] }));
+  }
+
+  private pickFallbackColorBy(
+    chartType: ChartType,
+    data: UnifiedDataStructure,
+    candidates: string[],
+    xAxis: string
+  ): string | undefined {
+    if (
+      chartType === PIE ||
+      chartType === RADIAL ||
+      chartType === WATERFALL ||
+      chartType === FUNNEL ||
+      chartType === HISTOGRAM ||
+      chartType === BOXPLOT ||
+      chartType === TREEMAP ||
+      chartType === SUNBURST ||
+      chartType === CANDLESTICK ||
+      chartType === CHOROPLETH
+    ) {
+      return undefined;
+    }
+
+    // 热力图的行维度：优先取另一个分类字段，其次取时间字段
+    if (chartType === HEATMAP) {
+      const dateFields = data.metadata.statistics.dateFields.filter(field => field !== xAxis);
+      return candidates[0] || dateFields[0];
+    }
+
+    // 散点图按分类着色时，分组过多会导致颜色循环、失去区分度
+    if (chartType === SCATTER || chartType === BUBBLE) {
+      return candidates.find(field => this.countUniqueCategories(data, field) <= 8);
+    }
+
+    return candidates[0];
+  }
+
   private pickFallbackXAxis(chartType: ChartType, data: UnifiedDataStructure): string | null {
     const stats = data.metadata.statistics;
+
+    if (chartType === SCATTER || chartType === BUBBLE || chartType === HISTOGRAM) {
+      return stats.numericFields[0] || null;
+    }
+
+    // 层级图以最外层层级作为X轴
+    if (chartType === TREEMAP || chartType === SUNBURST) {
+      return this.resolveHierarchy(data)[0] || null;
+    }
+
+    // K线图优先使用日期字段作为时间轴
+    if (chartType === CANDLESTICK) {
+      return stats.dateFields[0] || stats.categoricalFields[0] || null;
+    }
+
+    // 地图以地区字段作为X轴
+    if (chartType === CHOROPLETH) {
+      return this.detectRegionField(data)?.field || stats.categoricalFields[0] || null;
+    }
+
+    // 箱线图按分类分组，没有分类字段时以数值字段本身作为唯一分组
+    if (chartType === BOXPLOT) {
+      return stats.categoricalFields[0] || stats.numericFields[0] || null;
+    }
     const stringField = data.schema.fields.find(field => field.type === "string")?.name;
     const dateField = data.schema.fields.find(field => field.type === "date")?.name;
     const fallback = stringField || dateField || data.schema.fields[0]?.name || null;
@@ -767,6 +1548,19 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
     xAxis: string | null
   ): string[] {
     const numericFields = data.metadata.statistics.numericFields;
+
+    // 直方图（以及无分组的箱线图）的X轴字段即观测值字段
+    if (chartType === HISTOGRAM || chartType === BOXPLOT) {
+      if (xAxis && numericFields.includes(xAxis)) return [xAxis];
+      if (chartType === HISTOGRAM) return numericFields.slice(0, 1);
+    }
+
+    // K线图的Y轴按开、高、低、收顺序排列
+    if (chartType === CANDLESTICK) {
+      const ohlc = detectOhlcFields(data.schema.fields);
+      return ohlc ? [ohlc.open, ohlc.high, ohlc.low, ohlc.close] : [];
+    }
+
     const available = numericFields.filter(field => field !== xAxis);
 
     const selected = available.length > 0 ? available : numericFields;
@@ -776,7 +1570,19 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
       return numericFallback ? [numericFallback] : [];
     }
 
-    if (chartType === PIE || chartType === RADIAL) {
+    if (
+      chartType === PIE ||
+      chartType === RADIAL ||
+      chartType === SCATTER ||
+      chartType === BUBBLE ||
+      chartType === HEATMAP ||
+      chartType === WATERFALL ||
+      chartType === FUNNEL ||
+      chartType === BOXPLOT ||
+      chartType === TREEMAP ||
+      chartType === SUNBURST ||
+      chartType === CHOROPLETH
+    ) {
       return [selected[0]];
     }
 
@@ -789,6 +1595,10 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
       return selected.slice(0, count);
     }
 
+    if (chartType === COMBO) {
+      return selected.slice(0, 4);
+    }
+
     return selected.slice(0, 3);
   }
 
@@ -798,7 +1608,7 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
     yAxis: string[],
     data: UnifiedDataStructure
   ): ChartIntent["suggestions"] {
-    const chartLabel = FALLBACK_CHART_LABEL[chartType];
+    const chartLabel = chartTypeRegistry.getLabel(chartType);
     const formattedMetricList = yAxis.join(", ");
 
     const title = `${chartLabel} of ${this.toTitleCase(xAxis)}`;
@@ -882,6 +1692,14 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
       .join(" ");
   }
 
+  private isNonIncreasing(data: UnifiedDataStructure, field: string): boolean {
+    const values = data.data.map(row => Number(row[field])).filter(Number.isFinite);
+    return (
+      values.length >= 2 &&
+      values.every((value, index) => index === 0 || value <= values[index - 1])
+    );
+  }
+
   private countUniqueCategories(data: UnifiedDataStructure, field?: string): number {
     if (!field) return data.data.length;
     const unique = new Set<string>();
@@ -893,6 +1711,22 @@ ${JSON.stringify(data.data.slice(0, 3), null, 2)}
     });
     return unique.size || data.data.length;
   }
+
+  /**
+   * 查找取值多为国家或中国省份名称（或编码）的分类字段
+   */
+  private detectRegionField(
+    data: UnifiedDataStructure
+  ): { field: string; match: RegionMatchResult } | null {
+    const categoricalFields = data.metadata?.statistics?.categoricalFields || [];
+    for (const field of categoricalFields) {
+      const match = matchRegions(data.data.map(row => row[field]));
+      if (match.matchRate >= REGION_FIELD_MIN_MATCH_RATE && match.matches.size >= 2) {
+        return { field, match };
+      }
+    }
+    return null;
+  }
 }
 
 // 导出单例实例
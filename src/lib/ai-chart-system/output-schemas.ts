@@ -0,0 +1,251 @@
+// Output Schemas - AI 各阶段结构化输出的函数定义
+// 作为 AIRequest.functions 发送给模型，并用于校验模型返回的结果
+
+import { AIFunction, JSONSchema } from "@/lib/ai/types";
+import { chartTypeRegistry } from "@/lib/chart-registry";
+import { AGGREGATE_FUNCTIONS, TIME_BUCKETS } from "@/constants/chart-config";
+import type { DataRow, FormulaNode } from "./types";
+
+/**
+ * 图表洞察：标题、描述与洞察要点
+ */
+export interface ChartInsightPayload {
+  title: string;
+  description: string;
+  insights?: string[];
+}
+
+/**
+ * 基于数据架构的图表意图（/api/ai/analyze-intent）
+ */
+export interface ChartIntentPayload extends ChartInsightPayload {
+  chartType: string;
+  confidence: number;
+  reasoning: string;
+  visualMapping: {
+    xAxis: string;
+    yAxis: string[];
+    colorBy?: string;
+    sizeBy?: string;
+    hierarchy?: string[];
+    ohlc?: { open: string; high: string; low: string; close: string; volume?: string };
+    series?: Array<{ field: string; mark?: string; axis?: string }>;
+    facet?: { field: string; axes?: string };
+    aggregation?: { function: string; measures?: Record<string, string>; timeBucket?: string };
+  };
+  derivedFields?: Array<{ name: string; formula: FormulaNode }>;
+}
+
+/**
+ * 仅根据描述分析的图表意图
+ */
+export interface PromptIntentPayload {
+  chartType: string;
+  confidence: number;
+  reasoning: string;
+  suggestions: ChartInsightPayload & { dataStructure?: string };
+}
+
+/**
+ * 从描述中提取的数据
+ */
+export interface ExtractedDataPayload {
+  hasData: boolean;
+  data: DataRow[];
+  confidence: number;
+  extractionNotes?: string;
+}
+
+/**
+ * 按图表类型生成的模拟数据
+ */
+export interface MockDataPayload {
+  data: DataRow[];
+}
+
+const FIELD_NAME: JSONSchema = { type: "string", description: "数据中已有的字段名" };
+
+const CONFIDENCE: JSONSchema = { type: "number", minimum: 0, maximum: 1 };
+
+const DATA_ROWS: JSONSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    additionalProperties: { type: ["string", "number", "boolean", "null"] },
+  },
+};
+
+/**
+ * 洞察内容的字段定义，图表意图与纯描述意图共用
+ */
+export const CHART_INSIGHT_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string", description: "图表标题" },
+    description: { type: "string", description: "图表描述" },
+    insights: { type: "array", items: { type: "string" }, description: "数据洞察要点" },
+  },
+  required: ["title", "description"],
+};
+
+// 公式为递归结构，这里只约束节点形状，字段与函数由 DerivedFieldEngine 按数据架构校验
+const FORMULA_NODE_SCHEMA: JSONSchema = {
+  type: "object",
+  description: '公式节点：{"field": 字段名}、{"value": 数字} 或 {"op": 运算, "args": [子节点]}',
+  properties: {
+    field: { type: "string" },
+    value: { type: "number" },
+    op: { type: "string" },
+    args: { type: "array", items: { type: "object" } },
+  },
+};
+
+function chartTypeSchema(): JSONSchema {
+  return { type: "string", enum: chartTypeRegistry.getTypes() };
+}
+
+/**
+ * 基于数据架构推荐图表的函数定义（图表类型取自注册表）
+ */
+export function createChartIntentFunction(): AIFunction {
+  const aggregateFunctions: string[] = AGGREGATE_FUNCTIONS.map(option => option.value);
+
+  return {
+    name: "submit_chart_intent",
+    description: "提交推荐的图表类型、字段映射与图表洞察",
+    parameters: {
+      type: "object",
+      properties: {
+        chartType: chartTypeSchema(),
+        confidence: CONFIDENCE,
+        reasoning: { type: "string", description: "选择理由" },
+        visualMapping: {
+          type: "object",
+          properties: {
+            xAxis: FIELD_NAME,
+            yAxis: { type: "array", items: FIELD_NAME },
+            colorBy: FIELD_NAME,
+            sizeBy: FIELD_NAME,
+            hierarchy: { type: "array", items: FIELD_NAME },
+            ohlc: {
+              type: "object",
+              properties: {
+                open: FIELD_NAME,
+                high: FIELD_NAME,
+                low: FIELD_NAME,
+                close: FIELD_NAME,
+                volume: FIELD_NAME,
+              },
+              required: ["open", "high", "low", "close"],
+            },
+            series: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  field: FIELD_NAME,
+                  mark: { type: "string", enum: ["bar", "line", "area"] },
+                  axis: { type: "string", enum: ["left", "right"] },
+                },
+                required: ["field"],
+              },
+            },
+            facet: {
+              type: "object",
+              properties: {
+                field: FIELD_NAME,
+                axes: { type: "string", enum: ["shared", "independent"] },
+              },
+              required: ["field"],
+            },
+            aggregation: {
+              type: "object",
+              properties: {
+                function: { type: "string", enum: aggregateFunctions },
+                measures: {
+                  type: "object",
+                  additionalProperties: { type: "string", enum: aggregateFunctions },
+                },
+                timeBucket: { type: "string", enum: TIME_BUCKETS.map(option => option.value) },
+              },
+              required: ["function"],
+            },
+          },
+          required: ["xAxis", "yAxis"],
+        },
+        derivedFields: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              formula: FORMULA_NODE_SCHEMA,
+            },
+            required: ["name", "formula"],
+          },
+        },
+        ...CHART_INSIGHT_SCHEMA.properties,
+      },
+      required: ["chartType", "confidence", "reasoning", "visualMapping", "title", "description"],
+    },
+  };
+}
+
+/**
+ * 仅根据描述分析图表需求的函数定义
+ */
+export function createPromptIntentFunction(): AIFunction {
+  return {
+    name: "submit_prompt_intent",
+    description: "提交根据用户描述判断的图表类型与标题、描述建议",
+    parameters: {
+      type: "object",
+      properties: {
+        chartType: chartTypeSchema(),
+        confidence: CONFIDENCE,
+        reasoning: { type: "string", description: "选择理由" },
+        suggestions: {
+          ...CHART_INSIGHT_SCHEMA,
+          properties: {
+            ...CHART_INSIGHT_SCHEMA.properties,
+            dataStructure: { type: "string", description: "数据结构特征描述" },
+          },
+        },
+      },
+      required: ["chartType", "confidence", "reasoning", "suggestions"],
+    },
+  };
+}
+
+/**
+ * 从描述中提取数据的函数定义
+ */
+export const EXTRACTED_DATA_FUNCTION: AIFunction = {
+  name: "submit_extracted_data",
+  description: "提交从用户描述中提取的结构化数据",
+  parameters: {
+    type: "object",
+    properties: {
+      hasData: { type: "boolean", description: "描述中是否包含明确的数值数据" },
+      data: DATA_ROWS,
+      confidence: CONFIDENCE,
+      extractionNotes: { type: "string", description: "提取说明" },
+    },
+    required: ["hasData", "data", "confidence"],
+  },
+};
+
+/**
+ * 生成模拟数据的函数定义
+ */
+export const MOCK_DATA_FUNCTION: AIFunction = {
+  name: "submit_mock_data",
+  description: "提交按图表类型生成的模拟数据",
+  parameters: {
+    type: "object",
+    properties: {
+      data: { ...DATA_ROWS, minItems: 1 },
+    },
+    required: ["data"],
+  },
+};
@@ -2,7 +2,9 @@
 // 专业AI图表系统类型定义
 
 import { ChartType } from "@/types/chart";
-import { AIServiceError } from "@/lib/ai/types";
+import { AggregateFunction, FacetAxisMode, TimeBucket } from "@/types/chart-config";
+import { FieldValueFormat, SheetSelection } from "@/types/data";
+import { AIServiceError, AIServiceProvider } from "@/lib/ai/types";
 
 /**
  * 场景类型 - 三种核心处理场景
@@ -22,6 +24,8 @@ export interface DataField {
   type: FieldType;
   nullable: boolean;
   unique?: boolean;
+  /** 取值格式（货币、百分比、日期粒度等），普通数值与文本字段缺省 */
+  format?: FieldValueFormat;
 }
 
 /**
@@ -82,9 +86,27 @@ export interface DataMetadata {
   /** 提取时间 */
   extractedAt: Date;
   
-  /** 原始文件信息 */
+  /** 原始文件信息（多文件合并时为主表文件） */
   fileInfo?: FileInfo;
   
+  /** 多文件合并时参与合并的全部文件 */
+  sourceFiles?: FileInfo[];
+  
+  /** 工作簿解析信息（Excel文件） */
+  workbook?: WorkbookInfo;
+  
+  /** 多文件合并时各字段的来源 */
+  lineage?: DataLineage;
+  
+  /** 解析与合并中的提示（如无法确定日/月顺序的日期、多文件关联未匹配的行） */
+  parseWarnings?: string[];
+  
+  /** 宽表/长表转换记录 */
+  transform?: DataTransform;
+  
+  /** 已计算的派生字段（按计算顺序） */
+  derivedFields?: DerivedField[];
+  
   /** 数据预览 */
   preview: DataRow[];
   
@@ -92,6 +114,124 @@ export interface DataMetadata {
   statistics: DataStatistics;
 }
 
+/**
+ * 字段来源：来自哪个文件的哪个原始字段
+ */
+export interface FieldSource {
+  file: string;
+  field: string;
+}
+
+/**
+ * 文件关联结果
+ */
+export interface JoinReport {
+  /** 被关联的文件 */
+  file: string;
+  /** 合并结果中的关联字段 */
+  leftKey: string;
+  /** 被关联文件中的关联字段 */
+  rightKey: string;
+  /** 匹配到的主表行数 */
+  matchedRows: number;
+  /** 未匹配到的主表行数 */
+  unmatchedRows: number;
+  /** 被关联文件中未被使用的键数量 */
+  unusedKeys: number;
+}
+
+/**
+ * 多文件合并的数据血缘
+ */
+export interface DataLineage {
+  /** join 为按关联字段左连接，union 为结构相同的文件纵向拼接 */
+  strategy: 'join' | 'union';
+  /** 参与合并的文件，首个为主表 */
+  files: string[];
+  /** 各字段的来源 */
+  fields: Record<string, FieldSource[]>;
+  joins: JoinReport[];
+}
+
+/**
+ * 数据重塑步骤
+ * melt 将多个数值列展开为 "变量列 + 数值列" 的长表；pivot 将某一列的取值展开为多个数值列
+ */
+export type ReshapeStep =
+  | {
+      op: 'melt';
+      /** 保留的标识列 */
+      idFields: string[];
+      /** 被展开的数值列（按原始顺序） */
+      valueFields: string[];
+      /** 存放原列名的新字段 */
+      variableField: string;
+      /** 存放数值的新字段 */
+      valueField: string;
+    }
+  | {
+      op: 'pivot';
+      /** 作为行索引的字段 */
+      indexFields: string[];
+      /** 取值展开为列的字段 */
+      columnField: string;
+      valueField: string;
+      /** 展开后的列（按首次出现的顺序） */
+      columns: string[];
+    };
+
+/**
+ * 数据转换记录，按相反顺序执行各步骤的逆操作即可撤销
+ */
+export interface DataTransform {
+  steps: ReshapeStep[];
+  /** 面向用户的转换说明 */
+  description: string;
+  /** true 为自动识别宽表后执行，false 为用户在描述中要求 */
+  automatic: boolean;
+  /** 用户已撤销该转换，后续对话保持原始结构 */
+  reverted?: boolean;
+}
+
+/**
+ * 公式中的四则运算
+ */
+export type FormulaOperator = '+' | '-' | '*' | '/';
+
+/**
+ * 公式中可用的函数：比率、百分比、环比变化率、累计求和、排名、取整与日期部分
+ */
+export type FormulaFunction =
+  | 'ratio'
+  | 'percent'
+  | 'pct_change'
+  | 'cumsum'
+  | 'rank'
+  | 'abs'
+  | 'round'
+  | 'year'
+  | 'quarter'
+  | 'month'
+  | 'week'
+  | 'day'
+  | 'weekday';
+
+/**
+ * 公式表达式树：字段引用、数值常量或对子表达式的运算，不包含可执行代码
+ */
+export type FormulaNode =
+  | { field: string }
+  | { value: number }
+  | { op: FormulaOperator | FormulaFunction; args: FormulaNode[] };
+
+/**
+ * 派生字段：按公式从已有字段计算出的新列
+ */
+export interface DerivedField {
+  name: string;
+  formula: FormulaNode;
+}
+
 /**
  * 统一数据结构 - 系统内唯一数据源格式
  */
@@ -143,6 +283,9 @@ export interface ChartIntent {
   /** 推荐的视觉映射 */
   visualMapping: VisualMapping;
   
+  /** 生成图表前需要计算的派生字段（AI根据描述提出并已通过校验） */
+  derivedFields?: DerivedField[];
+  
   /** AI生成的标题和描述 */
   suggestions: {
     title: string;
@@ -174,6 +317,74 @@ export interface AutoAnalysisResult {
   visualMapping: ChartIntent['visualMapping'];
 }
 
+/**
+ * 系列标记类型（组合图）
+ */
+export type SeriesMark = 'bar' | 'line' | 'area';
+
+/**
+ * Y轴位置（组合图双轴）
+ */
+export type YAxisSide = 'left' | 'right';
+
+/**
+ * 单个系列的标记与坐标轴映射
+ */
+export interface SeriesMapping {
+  field: string;
+  mark: SeriesMark;
+  axis: YAxisSide;
+}
+
+/**
+ * K线图的开高低收（及可选成交量）字段映射
+ */
+export interface OhlcFieldMapping {
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume?: string;
+}
+
+/**
+ * 分面（小多图）映射：按分类字段的每个取值绘制一个子图
+ */
+export interface FacetMapping {
+  /** 分面字段 */
+  field: string;
+  /** shared：各子图共用数值轴范围；independent：各子图独立缩放 */
+  axes: FacetAxisMode;
+  /** 网格列数，缺省时按子图数量自动计算 */
+  columns?: number;
+}
+
+/**
+ * 分组聚合映射：按X轴字段（及 colorBy）分组汇总数值字段
+ */
+export interface AggregationMapping {
+  /** 数值字段的默认聚合函数 */
+  function: AggregateFunction;
+  /** 个别数值字段的聚合函数，覆盖默认值 */
+  measures?: Record<string, AggregateFunction>;
+  /** X轴为日期时的分桶粒度，缺省时按原始取值分组 */
+  timeBucket?: TimeBucket;
+}
+
+/**
+ * 完整的聚合规格：聚合映射加上分组字段与数值字段
+ */
+export interface AggregationSpec extends AggregationMapping {
+  /** X轴字段 */
+  xField: string;
+  /** 其余分组字段（colorBy、分面字段） */
+  groupBy: string[];
+  /** 参与聚合的数值字段 */
+  valueFields: string[];
+  /** 数值字段中的派生字段（公式已展开为原始字段）；聚合后按汇总的原始字段重新计算 */
+  derivedFields?: DerivedField[];
+}
+
 /**
  * 视觉映射定义
  */
@@ -182,6 +393,21 @@ export interface VisualMapping {
   yAxis: string[];
   colorBy?: string;
   sizeBy?: string;
+
+  /** 组合图中每个Y轴字段的标记类型与坐标轴 */
+  series?: SeriesMapping[];
+
+  /** 矩形树图/旭日图的层级字段，从外到内排列；yAxis[0] 为尺寸字段，缺省时按行计数 */
+  hierarchy?: string[];
+
+  /** K线图的开高低收字段；yAxis 按开、高、低、收顺序排列，成交量不计入 yAxis */
+  ohlc?: OhlcFieldMapping;
+
+  /** 分面字段；设置后按该字段拆分为多个同类型子图 */
+  facet?: FacetMapping;
+
+  /** 分组聚合；设置后每个X轴取值（日期按粒度分桶）与 colorBy 组合只保留一行汇总值 */
+  aggregation?: AggregationMapping;
 }
 
 /**
@@ -197,6 +423,47 @@ export interface ExtractedData {
   confidence: number;
   extractionMethod: ExtractionMethod;
   warnings: string[];
+  /** 工作簿解析信息，仅Excel文件提供 */
+  workbook?: WorkbookInfo;
+}
+
+export type { AggregateFunction, FieldValueFormat, SheetSelection, TimeBucket };
+
+/**
+ * 工作表中识别到的数据表区域
+ */
+export interface WorkbookTableRegion {
+  /** A1 格式的区域（含表头） */
+  range: string;
+  /** 表头行数，0 表示没有表头 */
+  headerRows: number;
+  /** 数据行数（不含表头） */
+  rowCount: number;
+  columnCount: number;
+  /** 数据表特征得分，越高越像数据表 */
+  score: number;
+}
+
+/**
+ * 工作表概要
+ */
+export interface WorkbookSheetSummary {
+  name: string;
+  regions: WorkbookTableRegion[];
+}
+
+/**
+ * 工作簿解析信息
+ */
+export interface WorkbookInfo {
+  /** 所有工作表及其数据区域 */
+  sheets: WorkbookSheetSummary[];
+  /** 实际使用的工作表 */
+  sheet: string;
+  /** 实际使用的区域 */
+  region: WorkbookTableRegion;
+  /** 是否自动选择（未指定工作表与区域） */
+  autoSelected: boolean;
 }
 
 /**
@@ -214,12 +481,34 @@ export interface ChartConfig {
       type: 'category' | 'time' | 'value';
     };
     yAxis: {
+      label: string;
+      /** 热力图的行维度为分类轴，其余图表为数值轴 */
+      type: 'value' | 'category';
+      min?: number;
+      max?: number;
+      /** 数值字段的取值格式（货币、百分比等），用于刻度与数值标签 */
+      format?: FieldValueFormat;
+    };
+    secondaryYAxis?: {
       label: string;
       type: 'value';
       min?: number;
       max?: number;
+      format?: FieldValueFormat;
     };
   };
+  series?: SeriesMapping[];
+  /** 分面配置，values 为各子图对应的分面取值（按数据出现顺序） */
+  facet?: FacetMapping & { values: string[] };
+  /** 生成图表前对数据做的宽表/长表转换，后续对话可据此撤销 */
+  transform?: DataTransform;
+  /** 图表数据中的派生字段，后续对话据此重新计算 */
+  derivedFields?: DerivedField[];
+  /**
+   * 生成时应用的分组聚合；sourceRows 为聚合前的行数，
+   * source 为聚合前的映射字段取值（行数不超过上限时提供），供配置面板切换聚合方式时重新计算
+   */
+  aggregation?: AggregationSpec & { sourceRows: number; source?: DataRow[] };
   legend: {
     show: boolean;
     position: 'top' | 'bottom' | 'left' | 'right';
@@ -235,6 +524,8 @@ export interface ChartMetadata {
   dataSource: string;
   processingTime: number;
   confidence: number;
+  /** 本次生成中实际响应 AI 请求的服务提供商（按首次使用顺序，降级时包含备用提供商） */
+  aiProviders?: AIServiceProvider[];
 }
 
 /**
@@ -248,6 +539,8 @@ export interface ChartGenerationResult {
   title: string;
   description: string;
   insights: string[];
+  /** 生成过程中的非致命问题（如地图中未匹配的地区） */
+  warnings?: string[];
   metadata: ChartMetadata;
 }
 
@@ -289,9 +582,9 @@ export interface IDataExtractor {
 }
 
 export interface IIntentAnalyzer {
-  analyzeChartIntent(prompt: string, dataStructure: UnifiedDataStructure): Promise<ChartIntent>;
+  analyzeChartIntent(prompt: string, dataStructure: UnifiedDataStructure, sessionId?: string): Promise<ChartIntent>;
   validateDataCompatibility(intent: ChartIntent, data: UnifiedDataStructure): CompatibilityResult;
-  suggestBestVisualization(data: UnifiedDataStructure): Promise<ChartIntent>;
+  suggestBestVisualization(data: UnifiedDataStructure, sessionId?: string): Promise<ChartIntent>;
 }
 
 export interface IChartGenerator {
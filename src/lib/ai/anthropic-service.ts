@@ -0,0 +1,340 @@
+// Anthropic Messages API 服务实现
+
+import { BaseAIService } from "./base-service";
+import { AIRequest, AIResponse, AIServiceError, AIModelConfig, AIFunction } from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Messages API 没有 JSON 模式，请求 json_object 时追加到系统提示词末尾 */
+const JSON_MODE_INSTRUCTION =
+  "只输出一个合法的 JSON 对象，不要使用 Markdown 代码块，不要在 JSON 前后添加任何说明文字。";
+
+/**
+ * Messages API 请求格式
+ */
+interface AnthropicRequest {
+  model: string;
+  system?: string;
+  messages: Array<{
+    role: "user" | "assistant";
+    content: string;
+  }>;
+  max_tokens: number;
+  temperature?: number;
+  stream?: boolean;
+  tools?: Array<{
+    name: string;
+    description: string;
+    input_schema: AIFunction["parameters"];
+  }>;
+  tool_choice?: { type: "tool"; name: string };
+}
+
+type AnthropicStopReason =
+  | "end_turn"
+  | "max_tokens"
+  | "stop_sequence"
+  | "tool_use"
+  | "pause_turn"
+  | "refusal"
+  | null;
+
+interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+interface AnthropicToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+/**
+ * Messages API 响应格式
+ */
+interface AnthropicResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: Array<
+    | { type: "text"; text: string }
+    | AnthropicToolUseBlock
+    | { type: string; [key: string]: unknown }
+  >;
+  stop_reason: AnthropicStopReason;
+  usage: AnthropicUsage;
+}
+
+/**
+ * Messages API 流式事件（只列出用到的字段）
+ */
+type AnthropicStreamEvent =
+  | { type: "message_start"; message: { id: string; usage: AnthropicUsage } }
+  | { type: "content_block_start"; content_block: { type: string; name?: string } }
+  | { type: "content_block_delta"; delta: { type: string; text?: string; partial_json?: string } }
+  | { type: "message_delta"; delta: { stop_reason: AnthropicStopReason }; usage: AnthropicUsage }
+  | { type: "error"; error: { type: string; message: string } }
+  | { type: "ping" | "content_block_stop" | "message_stop" };
+
+/**
+ * 模型列表响应
+ */
+interface AnthropicModelsResponse {
+  data: Array<{
+    id: string;
+    type: "model";
+    display_name: string;
+  }>;
+}
+
+/**
+ * Anthropic AI 服务实现
+ */
+export class AnthropicAIService extends BaseAIService {
+  constructor(config: AIModelConfig) {
+    super("anthropic", {
+      ...config,
+      baseURL: (config.baseURL || "https://api.anthropic.com").replace(/\/+$/, ""),
+      modelName: config.modelName || "claude-3-haiku-20240307",
+    });
+  }
+
+  protected async sendRequest(request: AIRequest): Promise<AIResponse> {
+    const body = this.buildRequestBody(request, false);
+
+    return this.withRetry(async () => {
+      const response = await this.makeHttpRequest<AnthropicResponse>(
+        `${this.config.baseURL}/v1/messages`,
+        {
+          method: "POST",
+          headers: this.buildHeaders(),
+          body,
+        }
+      );
+
+      const text = response.content
+        .map(block => (block.type === "text" ? String(block.text) : ""))
+        .join("");
+      const toolUse = response.content.find(
+        (block): block is AnthropicToolUseBlock => block.type === "tool_use"
+      );
+
+      return {
+        content: this.isJsonMode(request) ? this.extractJsonText(text) : text,
+        role: "assistant",
+        functionCall: toolUse
+          ? { name: toolUse.name, arguments: JSON.stringify(toolUse.input ?? {}) }
+          : undefined,
+        finishReason: this.mapStopReason(response.stop_reason),
+        usage: this.mapUsage(response.usage),
+        requestId: response.id,
+      };
+    });
+  }
+
+  protected async *sendStreamRequest(request: AIRequest): AsyncIterable<AIResponse> {
+    const stream = this.makeStreamRequest(`${this.config.baseURL}/v1/messages`, {
+      headers: this.buildHeaders(),
+      body: this.buildRequestBody(request, true),
+    });
+
+    let requestId: string | undefined;
+    let inputTokens = 0;
+    // 工具调用的输入以 JSON 片段分块到达，拼接完整后随完成原因一起返回
+    let functionCall: AIResponse["functionCall"];
+
+    for await (const data of stream) {
+      const event = JSON.parse(data) as AnthropicStreamEvent;
+
+      switch (event.type) {
+        case "message_start":
+          requestId = event.message.id;
+          inputTokens = event.message.usage?.input_tokens ?? 0;
+          break;
+        case "content_block_start":
+          if (event.content_block.type === "tool_use" && !functionCall) {
+            functionCall = { name: event.content_block.name ?? "", arguments: "" };
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta.type === "text_delta" && event.delta.text) {
+            yield { content: event.delta.text, role: "assistant", requestId };
+          } else if (event.delta.type === "input_json_delta" && functionCall) {
+            functionCall.arguments += event.delta.partial_json ?? "";
+          }
+          break;
+        case "message_delta":
+          // message_delta 中的 output_tokens 为累计值
+          yield {
+            content: "",
+            role: "assistant",
+            functionCall: functionCall && {
+              ...functionCall,
+              arguments: functionCall.arguments || "{}",
+            },
+            finishReason: this.mapStopReason(event.delta.stop_reason),
+            usage: this.mapUsage({
+              input_tokens: event.usage?.input_tokens || inputTokens,
+              output_tokens: event.usage?.output_tokens ?? 0,
+            }),
+            requestId,
+          };
+          break;
+        case "error":
+          throw new AIServiceError(
+            event.error.type === "overloaded_error" ? "SERVICE_UNAVAILABLE" : "UNKNOWN_ERROR",
+            event.error.message,
+            event.error,
+            event.error.type === "overloaded_error"
+          );
+      }
+    }
+  }
+
+  async validateConnection(): Promise<boolean> {
+    try {
+      const testRequest: AIRequest = {
+        messages: [{ role: "user", content: "Hello" }],
+        params: {
+          maxTokens: 10,
+          temperature: 0.1,
+        },
+      };
+
+      await this.sendRequest(testRequest);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.makeHttpRequest<AnthropicModelsResponse>(
+        `${this.config.baseURL}/v1/models`,
+        {
+          method: "GET",
+          headers: this.buildHeaders(),
+        }
+      );
+
+      return response.data.map(model => model.id);
+    } catch (error) {
+      console.warn("获取 Anthropic 模型列表失败，使用当前模型:", error);
+      return [this.config.modelName];
+    }
+  }
+
+  /**
+   * 转换为 Messages API 请求格式
+   * 系统消息合并为顶层 system 字段；相邻的同角色消息合并，保证以 user 开头、角色交替
+   */
+  private buildRequestBody(request: AIRequest, stream: boolean): AnthropicRequest {
+    const systemParts = request.messages
+      .filter(msg => msg.role === "system")
+      .map(msg => msg.content);
+    // 通过工具返回结构化结果时不需要 JSON 模式提示
+    if (this.isJsonMode(request) && !request.functions?.length) {
+      systemParts.push(JSON_MODE_INSTRUCTION);
+    }
+
+    const messages: AnthropicRequest["messages"] = [];
+    request.messages
+      .filter(msg => msg.role !== "system")
+      .forEach(msg => {
+        const role = msg.role === "assistant" ? "assistant" : "user";
+        const last = messages[messages.length - 1];
+        if (last && last.role === role) {
+          last.content += `\n\n${msg.content}`;
+        } else if (messages.length === 0 && role === "assistant") {
+          messages.push({ role: "user", content: "(继续)" }, { role, content: msg.content });
+        } else {
+          messages.push({ role, content: msg.content });
+        }
+      });
+
+    // Messages API 的 temperature 取值范围为 0-1；只传 temperature，不同时传 top_p
+    const temperature = request.params?.temperature;
+
+    return {
+      model: this.config.modelName,
+      system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+      messages,
+      max_tokens: request.params?.maxTokens || 2000,
+      temperature: temperature === undefined ? undefined : Math.min(Math.max(temperature, 0), 1),
+      stream,
+      ...this.buildTools(request),
+    };
+  }
+
+  /**
+   * 函数定义映射为 tools；只有一个函数时强制调用
+   */
+  private buildTools(request: AIRequest): Pick<AnthropicRequest, "tools" | "tool_choice"> {
+    if (!request.functions?.length) {
+      return {};
+    }
+
+    return {
+      tools: request.functions.map(fn => ({
+        name: fn.name,
+        description: fn.description,
+        input_schema: fn.parameters,
+      })),
+      tool_choice:
+        request.functions.length === 1
+          ? { type: "tool", name: request.functions[0].name }
+          : undefined,
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      "x-api-key": this.config.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    };
+  }
+
+  private isJsonMode(request: AIRequest): boolean {
+    return request.params?.response_format?.type === "json_object";
+  }
+
+  /**
+   * 去掉模型偶尔附带的代码块标记与前后说明文字
+   */
+  private extractJsonText(text: string): string {
+    const trimmed = text
+      .trim()
+      .replace(/^```(?:json)?\s*/i, "")
+      .replace(/\s*```$/, "");
+    const start = trimmed.indexOf("{");
+    const end = trimmed.lastIndexOf("}");
+    return start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+  }
+
+  private mapStopReason(reason: AnthropicStopReason | undefined): AIResponse["finishReason"] {
+    switch (reason) {
+      case "max_tokens":
+        return "length";
+      case "refusal":
+        return "content_filter";
+      case "tool_use":
+        return "function_call";
+      default:
+        return "stop";
+    }
+  }
+
+  private mapUsage(usage: AnthropicUsage | undefined): AIResponse["usage"] {
+    return usage
+      ? {
+          promptTokens: usage.input_tokens,
+          completionTokens: usage.output_tokens,
+          totalTokens: usage.input_tokens + usage.output_tokens,
+        }
+      : undefined;
+  }
+}
@@ -96,10 +96,42 @@ export abstract class BaseAIService implements AIService {
   }
 
   /**
-   * 流式聊天接口 - 子类可选实现
+   * 流式聊天接口 - 模板方法
+   * 逐块返回增量内容，最后一块携带完成原因与 Token 使用情况；统计按拼接后的完整响应计算
    */
   async *chatStream(request: AIRequest): AsyncIterable<AIResponse> {
-    throw new AIServiceError("SERVICE_UNAVAILABLE", "当前服务不支持流式响应", undefined, false);
+    const startTime = Date.now();
+    this._stats.totalRequests++;
+    this._stats.lastRequestTime = new Date();
+
+    this._events.requestStart?.(request);
+
+    const merged: AIResponse = { content: "", role: "assistant", provider: this.provider };
+    try {
+      this.validateRequest(request);
+      const processedRequest = await this.preprocessRequest(request);
+
+      for await (const chunk of this.sendStreamRequest(processedRequest)) {
+        merged.content += chunk.content;
+        merged.functionCall = chunk.functionCall ?? merged.functionCall;
+        merged.finishReason = chunk.finishReason ?? merged.finishReason;
+        merged.usage = chunk.usage ?? merged.usage;
+        merged.requestId = chunk.requestId ?? merged.requestId;
+        yield { ...chunk, provider: chunk.provider ?? this.provider };
+      }
+
+      const duration = Date.now() - startTime;
+      this.updateSuccessStats(duration, merged);
+      this._events.requestComplete?.(merged, duration);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this._stats.failedRequests++;
+
+      const aiError = this.handleError(error);
+      this._events.requestError?.(aiError, duration);
+
+      throw aiError;
+    }
   }
 
   /**
@@ -117,6 +149,13 @@ export abstract class BaseAIService implements AIService {
    */
   protected abstract sendRequest(request: AIRequest): Promise<AIResponse>;
 
+  /**
+   * 发送流式请求 - 子类可选实现
+   */
+  protected async *sendStreamRequest(request: AIRequest): AsyncIterable<AIResponse> {
+    throw new AIServiceError("SERVICE_UNAVAILABLE", "当前服务不支持流式响应", undefined, false);
+  }
+
   /**
    * 验证请求参数
    */
@@ -138,11 +177,18 @@ export abstract class BaseAIService implements AIService {
     }
 
     // 验证 API Key
-    if (!this.config.apiKey) {
+    if (this.requiresApiKey() && !this.config.apiKey) {
       throw new AIServiceError("INVALID_API_KEY", "API 密钥未配置", undefined, false);
     }
   }
 
+  /**
+   * 是否必须配置 API 密钥
+   */
+  protected requiresApiKey(): boolean {
+    return true;
+  }
+
   /**
    * 预处理请求
    */
@@ -171,7 +217,7 @@ export abstract class BaseAIService implements AIService {
    */
   protected async postprocessResponse(response: AIResponse): Promise<AIResponse> {
     // 子类可以重写此方法添加后处理逻辑
-    return response;
+    return { ...response, provider: response.provider ?? this.provider };
   }
 
   /**
@@ -232,6 +278,7 @@ export abstract class BaseAIService implements AIService {
         case 500:
         case 502:
         case 503:
+        case 529:
           return new AIServiceError(
             "SERVICE_UNAVAILABLE",
             AI_ERROR_MESSAGES.SERVICE_UNAVAILABLE,
@@ -386,6 +433,109 @@ export abstract class BaseAIService implements AIService {
     }
   }
 
+  /**
+   * 流式 HTTP 请求辅助方法
+   * 逐条返回 Server-Sent Events 的 data 内容；超时为空闲超时，建立连接后每收到一块数据重新计时，
+   * 超时或调用方提前结束迭代时中断连接
+   */
+  protected async *makeStreamRequest(
+    url: string,
+    options: {
+      headers?: Record<string, string>;
+      body: any;
+      timeout?: number;
+    }
+  ): AsyncIterable<string> {
+    const controller = new AbortController();
+    const idleTimeout = options.timeout || this.config.timeout;
+    let timedOut = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const resetIdleTimer = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, idleTimeout);
+    };
+    const isTimeout = (error: unknown) =>
+      timedOut && error instanceof Error && error.name === "AbortError";
+
+    try {
+      resetIdleTimer();
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "text/event-stream",
+            ...options.headers,
+          },
+          body: JSON.stringify(options.body),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (isTimeout(error)) {
+          throw new Error("Request timeout");
+        }
+        throw error;
+      }
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw {
+          response: {
+            status: response.status,
+            data: errorData,
+          },
+          message: `HTTP ${response.status}`,
+        };
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      try {
+        while (true) {
+          resetIdleTimer();
+          const { done, value } = await reader.read();
+          buffer += decoder.decode(value, { stream: !done });
+
+          // 事件之间以空行分隔，最后一段可能不完整，留到下次读取
+          const events = buffer.split(/\r?\n\r?\n/);
+          buffer = done ? "" : events.pop() || "";
+
+          for (const event of events) {
+            const data = event
+              .split(/\r?\n/)
+              .filter(line => line.startsWith("data:"))
+              .map(line => line.slice(5).trimStart())
+              .join("\n");
+            if (data && data !== "[DONE]") {
+              // 等待调用方处理期间不计入空闲时间
+              clearTimeout(timeoutId);
+              yield data;
+            }
+          }
+
+          if (done) break;
+        }
+      } catch (error) {
+        if (isTimeout(error)) {
+          throw new Error("Request timeout");
+        }
+        throw error;
+      } finally {
+        await reader.cancel().catch(() => undefined);
+      }
+    } finally {
+      // 正常结束、超时或调用方提前结束迭代时都停止计时并中断连接
+      clearTimeout(timeoutId);
+      controller.abort();
+    }
+  }
+
   /**
    * 销毁服务实例
    */
@@ -0,0 +1,108 @@
+// AI 调用录制文件（仅服务端）：按 AI_CASSETTE_MODE / AI_CASSETTE_PATH 把录制内容读写到本地 JSON 文件
+
+import fs from "fs";
+import path from "path";
+import { AICassette, AICassetteEntry, AICassetteMode, AIService } from "./types";
+import { CassetteAIService, MemoryCassetteStore } from "./cassette-service";
+import { createServiceFromEnv } from "./service-factory";
+
+const DEFAULT_CASSETTE_PATH = ".ai-cassettes/cassette.json";
+
+/**
+ * 基于本地文件的录制存储，每次录制后立即写回文件
+ * 也可以直接读取附带 _cassette 字段的导出会话文件
+ */
+export class FileCassetteStore extends MemoryCassetteStore {
+  constructor(private filePath: string) {
+    super(FileCassetteStore.load(filePath));
+  }
+
+  add(entry: AICassetteEntry): void {
+    super.add(entry);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.cassette, null, 2), "utf-8");
+  }
+
+  private static load(filePath: string): AICassette | undefined {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    const cassette: AICassette | undefined = Array.isArray(parsed?.entries)
+      ? parsed
+      : parsed?._cassette;
+    if (!cassette || !Array.isArray(cassette.entries)) {
+      throw new Error(`录制文件格式无效: ${filePath}`);
+    }
+
+    console.log(`📼 [Cassette] 已加载 ${cassette.entries.length} 条录制: ${filePath}`);
+    return cassette;
+  }
+}
+
+// 同一文件只保留一个存储实例，避免并发请求互相覆盖
+const stores = new Map<string, FileCassetteStore>();
+
+function getCassetteStore(filePath: string): FileCassetteStore {
+  let store = stores.get(filePath);
+  if (!store) {
+    store = new FileCassetteStore(filePath);
+    stores.set(filePath, store);
+  }
+  return store;
+}
+
+/**
+ * 读取录制模式，未设置或为 off 时返回 null
+ */
+export function getCassetteModeFromEnv(): AICassetteMode | null {
+  const mode = process.env.AI_CASSETTE_MODE?.trim().toLowerCase();
+  if (!mode || mode === "off") {
+    return null;
+  }
+  if (mode !== "record" && mode !== "replay") {
+    console.warn(`⚠️ AI_CASSETTE_MODE=${mode} 无效，已关闭录制`);
+    return null;
+  }
+  return mode;
+}
+
+function getCassettePathFromEnv(): string {
+  return path.resolve(process.cwd(), process.env.AI_CASSETTE_PATH || DEFAULT_CASSETTE_PATH);
+}
+
+/**
+ * 按环境变量为 AI 服务加上录制/回放，关闭时直接返回原服务
+ * 回放不访问真实服务，因此未配置 API 密钥时也能回放
+ */
+export function createCassetteServiceFromEnv(
+  createService: () => AIService = () => createServiceFromEnv(),
+  options: { sessionId?: string } = {}
+): AIService {
+  const mode = getCassetteModeFromEnv();
+  if (!mode) {
+    return createService();
+  }
+
+  let service: AIService;
+  try {
+    service = createService();
+  } catch (error) {
+    if (mode !== "replay") throw error;
+    console.warn("⚠️ [Cassette] 回放模式下无法创建 AI 服务，使用离线服务占位:", error);
+    service = createServiceFromEnv("mock");
+  }
+
+  return new CassetteAIService(service, getCassetteStore(getCassettePathFromEnv()), mode, options);
+}
+
+/**
+ * 读取某个会话录制的 AI 调用，未开启录制时返回 null
+ */
+export function getSessionCassetteFromEnv(sessionId: string): AICassette | null {
+  if (!getCassetteModeFromEnv()) {
+    return null;
+  }
+  return getCassetteStore(getCassettePathFromEnv()).toCassette(sessionId);
+}
@@ -0,0 +1,258 @@
+// AI 调用录制与回放：录制真实请求与响应，回放时按请求哈希原样返回，用于回归检查提示词改动与复现问题
+
+import {
+  AICassette,
+  AICassetteEntry,
+  AICassetteMode,
+  AIModelConfig,
+  AIRequest,
+  AIResponse,
+  AIService,
+  AIServiceError,
+  AIServiceProvider,
+  AIServiceStats,
+  AI_ERROR_MESSAGES,
+  NormalizedAIRequest,
+} from "./types";
+
+/**
+ * 录制内容存储
+ */
+export interface CassetteStore {
+  /** 查找请求哈希对应的录制，优先返回指定会话的记录，其次返回最新录制的记录 */
+  find(key: string, sessionId?: string): AICassetteEntry | undefined;
+  add(entry: AICassetteEntry): void;
+  /** 导出录制内容，指定会话时只包含该会话的调用 */
+  toCassette(sessionId?: string): AICassette;
+}
+
+/**
+ * 创建空的录制内容
+ */
+export function createEmptyCassette(): AICassette {
+  const now = new Date().toISOString();
+  return { version: 1, createdAt: now, updatedAt: now, entries: [] };
+}
+
+/**
+ * 归一化请求：系统提示词并入消息列表，统一换行，去掉未设置的参数；stream 不参与匹配
+ */
+export function normalizeAIRequest(request: AIRequest): NormalizedAIRequest {
+  const messages = [
+    ...(request.systemPrompt ? [{ role: "system" as const, content: request.systemPrompt }] : []),
+    ...request.messages,
+  ].map(message => ({
+    role: message.role,
+    content: message.content.replace(/\r\n/g, "\n"),
+    ...("name" in message && message.name ? { name: message.name } : {}),
+  }));
+
+  const params = request.params
+    ? Object.fromEntries(Object.entries(request.params).filter(([, value]) => value !== undefined))
+    : {};
+
+  return {
+    messages,
+    ...(Object.keys(params).length > 0 ? { params } : {}),
+    ...(request.functions?.length ? { functions: request.functions } : {}),
+  };
+}
+
+/**
+ * 键有序的 JSON 序列化，保证同样的请求得到同样的文本
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 计算归一化请求的哈希（53 位，浏览器与服务端结果一致）
+ */
+export function hashAIRequest(request: NormalizedAIRequest): string {
+  const text = stableStringify(request);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+/**
+ * 内存录制存储，同一请求重复录制时保留最新响应
+ */
+export class MemoryCassetteStore implements CassetteStore {
+  protected cassette: AICassette;
+
+  constructor(cassette?: AICassette) {
+    this.cassette = cassette ?? createEmptyCassette();
+  }
+
+  find(key: string, sessionId?: string): AICassetteEntry | undefined {
+    // 新录制的记录追加在末尾，从后往前查找
+    const matches = this.cassette.entries.filter(entry => entry.key === key).reverse();
+    return (
+      (sessionId ? matches.find(entry => entry.sessionId === sessionId) : undefined) ?? matches[0]
+    );
+  }
+
+  add(entry: AICassetteEntry): void {
+    this.cassette.entries = [
+      ...this.cassette.entries.filter(
+        existing => !(existing.key === entry.key && existing.sessionId === entry.sessionId)
+      ),
+      entry,
+    ];
+    this.cassette.updatedAt = entry.recordedAt;
+  }
+
+  toCassette(sessionId?: string): AICassette {
+    return {
+      ...this.cassette,
+      entries: sessionId
+        ? this.cassette.entries.filter(entry => entry.sessionId === sessionId)
+        : [...this.cassette.entries],
+    };
+  }
+}
+
+/**
+ * 录制/回放装饰器
+ * record 模式把每次成功的 chat 请求与响应写入存储；replay 模式不访问被包装的服务，
+ * 找不到匹配记录时抛出 CASSETTE_MISS 错误
+ */
+export class CassetteAIService implements AIService {
+  private _stats: AIServiceStats = {
+    totalRequests: 0,
+    successfulRequests: 0,
+    failedRequests: 0,
+    averageResponseTime: 0,
+    totalTokensUsed: 0,
+  };
+
+  constructor(
+    private service: AIService,
+    private store: CassetteStore,
+    public readonly mode: AICassetteMode,
+    private options: { sessionId?: string } = {}
+  ) {}
+
+  get provider(): AIServiceProvider {
+    return this.service.provider;
+  }
+
+  get config(): AIModelConfig {
+    return this.service.config;
+  }
+
+  get stats(): AIServiceStats {
+    return this.mode === "replay" ? { ...this._stats } : this.service.stats;
+  }
+
+  async chat(request: AIRequest): Promise<AIResponse> {
+    const normalized = normalizeAIRequest(request);
+    const key = hashAIRequest(normalized);
+
+    if (this.mode === "replay") {
+      return this.replay(key);
+    }
+
+    const response = await this.service.chat(request);
+    this.record(key, normalized, response);
+    return response;
+  }
+
+  async *chatStream(request: AIRequest): AsyncIterable<AIResponse> {
+    const normalized = normalizeAIRequest(request);
+    const key = hashAIRequest(normalized);
+
+    if (this.mode === "replay") {
+      yield this.replay(key);
+      return;
+    }
+
+    // 录制拼接后的完整响应，回放时作为一块返回
+    const merged: AIResponse = { content: "", role: "assistant" };
+    for await (const chunk of this.service.chatStream(request)) {
+      merged.content += chunk.content;
+      merged.functionCall = chunk.functionCall ?? merged.functionCall;
+      merged.finishReason = chunk.finishReason ?? merged.finishReason;
+      merged.usage = chunk.usage ?? merged.usage;
+      merged.requestId = chunk.requestId ?? merged.requestId;
+      merged.provider = chunk.provider ?? merged.provider;
+      yield chunk;
+    }
+    this.record(key, normalized, merged);
+  }
+
+  async validateConnection(): Promise<boolean> {
+    // 回放不依赖真实服务
+    return this.mode === "replay" ? true : this.service.validateConnection();
+  }
+
+  getAvailableModels(): Promise<string[]> {
+    return this.service.getAvailableModels();
+  }
+
+  resetStats(): void {
+    this._stats = {
+      totalRequests: 0,
+      successfulRequests: 0,
+      failedRequests: 0,
+      averageResponseTime: 0,
+      totalTokensUsed: 0,
+    };
+    this.service.resetStats();
+  }
+
+  destroy(): void {
+    this.service.destroy();
+  }
+
+  private replay(key: string): AIResponse {
+    this._stats.totalRequests++;
+    this._stats.lastRequestTime = new Date();
+
+    const entry = this.store.find(key, this.options.sessionId);
+    if (!entry) {
+      this._stats.failedRequests++;
+      console.warn(`📼 [Cassette] 回放未命中: ${key}`);
+      throw new AIServiceError(
+        "CASSETTE_MISS",
+        `${AI_ERROR_MESSAGES.CASSETTE_MISS}（${key}）`,
+        { key },
+        false
+      );
+    }
+
+    this._stats.successfulRequests++;
+    this._stats.totalTokensUsed += entry.response.usage?.totalTokens ?? 0;
+    return { ...entry.response };
+  }
+
+  private record(key: string, request: NormalizedAIRequest, response: AIResponse): void {
+    this.store.add({
+      key,
+      sessionId: this.options.sessionId,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+  }
+}
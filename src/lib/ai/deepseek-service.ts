@@ -1,7 +1,7 @@
 // Deepseek AI 服务具体实现
 
 import { BaseAIService } from "./base-service";
-import { AIRequest, AIResponse, AIServiceError, AIModelConfig } from "./types";
+import { AIRequest, AIResponse, AIServiceError, AIModelConfig, AIFunction } from "./types";
 
 /**
  * Deepseek API 请求格式
@@ -21,6 +21,14 @@ interface DeepseekRequest {
   response_format?: {
     type: "text" | "json_object";
   };
+  tools?: Array<{
+    type: "function";
+    function: AIFunction;
+  }>;
+  tool_choice?: {
+    type: "function";
+    function: { name: string };
+  };
 }
 
 /**
@@ -36,8 +44,13 @@ interface DeepseekResponse {
     message: {
       role: "assistant";
       content: string;
+      tool_calls?: Array<{
+        id: string;
+        type: "function";
+        function: { name: string; arguments: string };
+      }>;
     };
-    finish_reason: "stop" | "length" | "content_filter";
+    finish_reason: "stop" | "length" | "content_filter" | "tool_calls";
   }>;
   usage: {
     prompt_tokens: number;
@@ -86,6 +99,16 @@ export class DeepseekAIService extends BaseAIService {
       presence_penalty: request.params?.presencePenalty,
       stream: false,
       response_format: request.params?.response_format,
+      // 函数定义映射为 tools，只有一个函数时强制调用
+      ...(request.functions?.length
+        ? {
+            tools: request.functions.map(fn => ({ type: "function" as const, function: fn })),
+            tool_choice:
+              request.functions.length === 1
+                ? { type: "function" as const, function: { name: request.functions[0].name } }
+                : undefined,
+          }
+        : {}),
     };
 
     // 使用重试机制发送请求
@@ -102,10 +125,15 @@ export class DeepseekAIService extends BaseAIService {
       );
 
       // 转换为标准 AIResponse 格式
+      const toolCall = response.choices[0]?.message?.tool_calls?.[0];
+      const finishReason = response.choices[0]?.finish_reason;
       return {
         content: response.choices[0]?.message?.content || "",
         role: "assistant",
-        finishReason: response.choices[0]?.finish_reason || "stop",
+        functionCall: toolCall
+          ? { name: toolCall.function.name, arguments: toolCall.function.arguments }
+          : undefined,
+        finishReason: finishReason === "tool_calls" ? "function_call" : finishReason || "stop",
         usage: response.usage
           ? {
               promptTokens: response.usage.prompt_tokens,
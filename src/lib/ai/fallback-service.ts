@@ -0,0 +1,368 @@
+// AI 服务降级链：按顺序尝试多个提供商，每个提供商带独立熔断器
+
+import {
+  AIService,
+  AIServiceProvider,
+  AIModelConfig,
+  AIRequest,
+  AIResponse,
+  AIServiceError,
+  AIServiceErrorType,
+  AIServiceStats,
+  CIRCUIT_BREAKER_DEFAULTS,
+} from "./types";
+
+/** 请求本身的问题（参数无效、结构化结果未通过校验等），提供商是可用的，不计入熔断 */
+const REQUEST_ERROR_TYPES: AIServiceErrorType[] = [
+  "INVALID_REQUEST",
+  "INVALID_RESPONSE",
+  "INSUFFICIENT_DATA",
+  "DATA_INCOMPATIBLE",
+];
+
+/**
+ * 熔断器配置
+ */
+export interface CircuitBreakerOptions {
+  /** 连续失败多少次后熔断 */
+  failureThreshold: number;
+  /** 响应时间超过该值（毫秒）视为慢请求 */
+  slowCallDuration: number;
+  /** 连续慢请求多少次后熔断 */
+  slowCallThreshold: number;
+  /** 熔断后多久（毫秒）允许一次试探请求 */
+  cooldown: number;
+}
+
+/**
+ * 熔断器状态：closed 正常放行，open 跳过该提供商，half_open 冷却结束后放行一次试探请求
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * 单个提供商的熔断器快照
+ */
+export interface CircuitSnapshot {
+  provider: AIServiceProvider;
+  modelName: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  consecutiveSlowCalls: number;
+  /** 熔断原因 */
+  reason?: string;
+  /** 熔断开始时间 */
+  openedAt?: Date;
+}
+
+interface CircuitEntry {
+  service: AIService;
+  state: CircuitState;
+  consecutiveFailures: number;
+  consecutiveSlowCalls: number;
+  reason?: string;
+  openedAt?: number;
+}
+
+/**
+ * AI 服务降级链
+ * 请求依次交给未熔断的提供商处理，失败后立即改用下一个；连续失败或连续慢请求达到阈值时熔断该提供商，
+ * 冷却期内后续请求直接跳过它，冷却结束后放行一次试探请求，成功则恢复
+ */
+export class FallbackAIService implements AIService {
+  private circuits: CircuitEntry[];
+  private options: CircuitBreakerOptions;
+  private _stats: AIServiceStats;
+
+  constructor(services: AIService[], options?: Partial<CircuitBreakerOptions>) {
+    if (services.length === 0) {
+      throw new AIServiceError("INVALID_REQUEST", "降级链至少需要一个 AI 服务", undefined, false);
+    }
+
+    this.circuits = services.map(service => ({
+      service,
+      state: "closed",
+      consecutiveFailures: 0,
+      consecutiveSlowCalls: 0,
+    }));
+    this.options = { ...CIRCUIT_BREAKER_DEFAULTS, ...options };
+    this._stats = this.createEmptyStats();
+  }
+
+  /** 首选提供商 */
+  get provider(): AIServiceProvider {
+    return this.circuits[0].service.provider;
+  }
+
+  get config(): AIModelConfig {
+    return this.circuits[0].service.config;
+  }
+
+  get stats(): AIServiceStats {
+    return { ...this._stats };
+  }
+
+  async chat(request: AIRequest): Promise<AIResponse> {
+    const startTime = Date.now();
+    this._stats.totalRequests++;
+    this._stats.lastRequestTime = new Date();
+
+    const errors: AIServiceError[] = [];
+    for (const circuit of this.circuits) {
+      if (!this.acquire(circuit)) continue;
+
+      const attemptStart = Date.now();
+      try {
+        const response = await circuit.service.chat(request);
+        this.recordSuccess(circuit, Date.now() - attemptStart);
+        this.updateSuccessStats(Date.now() - startTime, response);
+
+        return { ...response, provider: response.provider ?? circuit.service.provider };
+      } catch (error) {
+        errors.push(this.recordFailure(circuit, error));
+      }
+    }
+
+    this._stats.failedRequests++;
+    throw this.createExhaustedError(errors);
+  }
+
+  /**
+   * 流式请求只在尚未收到任何内容前切换提供商，已输出部分内容后出错直接抛出
+   */
+  async *chatStream(request: AIRequest): AsyncIterable<AIResponse> {
+    const startTime = Date.now();
+    this._stats.totalRequests++;
+    this._stats.lastRequestTime = new Date();
+
+    const errors: AIServiceError[] = [];
+    for (const circuit of this.circuits) {
+      if (!this.acquire(circuit)) continue;
+
+      const attemptStart = Date.now();
+      let started = false;
+      let settled = false;
+      let usage: AIResponse["usage"];
+      try {
+        for await (const chunk of circuit.service.chatStream(request)) {
+          started = true;
+          usage = chunk.usage ?? usage;
+          yield { ...chunk, provider: chunk.provider ?? circuit.service.provider };
+        }
+        settled = true;
+        this.recordSuccess(circuit, Date.now() - attemptStart);
+        this.updateSuccessStats(Date.now() - startTime, {
+          content: "",
+          role: "assistant",
+          usage,
+        });
+        return;
+      } catch (error) {
+        settled = true;
+        const aiError = this.recordFailure(circuit, error);
+        if (started) {
+          this._stats.failedRequests++;
+          throw aiError;
+        }
+        errors.push(aiError);
+      } finally {
+        // 调用方提前结束迭代时试探未完成，恢复为熔断状态等待下次试探
+        if (!settled && circuit.state === "half_open") {
+          circuit.state = "open";
+        }
+      }
+    }
+
+    this._stats.failedRequests++;
+    throw this.createExhaustedError(errors);
+  }
+
+  async validateConnection(): Promise<boolean> {
+    for (const circuit of this.circuits) {
+      if (this.resolveState(circuit) === "open") continue;
+      if (await circuit.service.validateConnection()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    const models = await Promise.all(
+      this.circuits.map(circuit => circuit.service.getAvailableModels().catch(() => []))
+    );
+    return Array.from(new Set(models.flat()));
+  }
+
+  /**
+   * 获取各提供商的熔断器状态
+   */
+  getCircuitStates(): CircuitSnapshot[] {
+    return this.circuits.map(circuit => ({
+      provider: circuit.service.provider,
+      modelName: circuit.service.config.modelName,
+      state: this.resolveState(circuit),
+      consecutiveFailures: circuit.consecutiveFailures,
+      consecutiveSlowCalls: circuit.consecutiveSlowCalls,
+      reason: circuit.reason,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt) : undefined,
+    }));
+  }
+
+  /**
+   * 手动恢复所有熔断器
+   */
+  resetCircuits(): void {
+    this.circuits.forEach(circuit => this.closeCircuit(circuit));
+  }
+
+  resetStats(): void {
+    this._stats = this.createEmptyStats();
+    this.circuits.forEach(circuit => circuit.service.resetStats());
+  }
+
+  destroy(): void {
+    this.circuits.forEach(circuit => circuit.service.destroy());
+  }
+
+  /**
+   * 判断提供商能否处理本次请求；冷却结束后转为 half_open 放行一次试探，试探结束前不再放行其他请求
+   */
+  private acquire(circuit: CircuitEntry): boolean {
+    const state = this.resolveState(circuit);
+    if (state === "half_open" && circuit.state === "open") {
+      circuit.state = "half_open";
+      return true;
+    }
+    return state === "closed";
+  }
+
+  private resolveState(circuit: CircuitEntry): CircuitState {
+    if (
+      circuit.state === "open" &&
+      circuit.openedAt !== undefined &&
+      Date.now() - circuit.openedAt >= this.options.cooldown
+    ) {
+      return "half_open";
+    }
+    return circuit.state;
+  }
+
+  private recordSuccess(circuit: CircuitEntry, duration: number): void {
+    circuit.consecutiveFailures = 0;
+
+    if (duration < this.options.slowCallDuration) {
+      this.closeCircuit(circuit);
+      return;
+    }
+
+    // 响应成功但过慢：试探请求过慢时重新熔断，正常状态下累计连续慢请求
+    circuit.consecutiveSlowCalls++;
+    if (
+      circuit.state === "half_open" ||
+      circuit.consecutiveSlowCalls >= this.options.slowCallThreshold
+    ) {
+      this.openCircuit(
+        circuit,
+        `连续 ${circuit.consecutiveSlowCalls} 次响应超过 ${this.options.slowCallDuration}ms`
+      );
+    }
+  }
+
+  private recordFailure(circuit: CircuitEntry, error: unknown): AIServiceError {
+    const aiError =
+      error instanceof AIServiceError
+        ? error
+        : new AIServiceError(
+            "UNKNOWN_ERROR",
+            error instanceof Error ? error.message : String(error),
+            error,
+            false
+          );
+
+    if (REQUEST_ERROR_TYPES.includes(aiError.type)) {
+      console.warn(
+        `⚠️ [FallbackAIService] ${circuit.service.provider} 拒绝了请求（不计入熔断）:`,
+        aiError.message
+      );
+      // 试探请求得到了提供商的响应，说明服务已恢复
+      if (circuit.state === "half_open") {
+        this.closeCircuit(circuit);
+      }
+      return aiError;
+    }
+
+    circuit.consecutiveFailures++;
+    console.warn(
+      `⚠️ [FallbackAIService] ${circuit.service.provider} 请求失败（连续 ${circuit.consecutiveFailures} 次）:`,
+      aiError.message
+    );
+
+    if (
+      circuit.state === "half_open" ||
+      circuit.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.openCircuit(circuit, `连续 ${circuit.consecutiveFailures} 次失败: ${aiError.message}`);
+    }
+
+    return aiError;
+  }
+
+  private openCircuit(circuit: CircuitEntry, reason: string): void {
+    circuit.state = "open";
+    circuit.openedAt = Date.now();
+    circuit.reason = reason;
+    console.warn(`🔌 [FallbackAIService] ${circuit.service.provider} 已熔断: ${reason}`);
+  }
+
+  private closeCircuit(circuit: CircuitEntry): void {
+    if (circuit.state !== "closed") {
+      console.log(`✅ [FallbackAIService] ${circuit.service.provider} 已恢复`);
+    }
+    circuit.state = "closed";
+    circuit.consecutiveFailures = 0;
+    circuit.consecutiveSlowCalls = 0;
+    circuit.reason = undefined;
+    circuit.openedAt = undefined;
+  }
+
+  private createExhaustedError(errors: AIServiceError[]): AIServiceError {
+    if (errors.length === 0) {
+      return new AIServiceError(
+        "SERVICE_UNAVAILABLE",
+        "所有 AI 服务均已熔断，请稍后重试",
+        { circuits: this.getCircuitStates() },
+        true
+      );
+    }
+
+    const lastError = errors[errors.length - 1];
+    return new AIServiceError(
+      lastError.type,
+      `所有 AI 服务均请求失败: ${errors.map(error => error.message).join("; ")}`,
+      { errors, circuits: this.getCircuitStates() },
+      errors.some(error => error.retryable)
+    );
+  }
+
+  private updateSuccessStats(duration: number, response: AIResponse): void {
+    this._stats.successfulRequests++;
+
+    const totalSuccessful = this._stats.successfulRequests;
+    this._stats.averageResponseTime =
+      (this._stats.averageResponseTime * (totalSuccessful - 1) + duration) / totalSuccessful;
+
+    if (response.usage) {
+      this._stats.totalTokensUsed += response.usage.totalTokens;
+    }
+  }
+
+  private createEmptyStats(): AIServiceStats {
+    return {
+      totalRequests: 0,
+      successfulRequests: 0,
+      failedRequests: 0,
+      averageResponseTime: 0,
+      totalTokensUsed: 0,
+    };
+  }
+}
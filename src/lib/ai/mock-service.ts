@@ -0,0 +1,288 @@
+// 离线 Mock AI 服务：按规则与图表注册表中的示例数据回答各阶段提示词，不访问网络，输出稳定
+
+import { BaseAIService } from "./base-service";
+import { AIRequest, AIResponse, AIModelConfig } from "./types";
+import { chartTypeRegistry } from "@/lib/chart-registry";
+import type { ChartType } from "@/types/chart";
+
+/**
+ * 已识别的提示词阶段
+ */
+export type MockPromptStage =
+  | "data_extraction"
+  | "intent_with_data"
+  | "intent_prompt_only"
+  | "mock_data"
+  | "session_title"
+  | "unknown";
+
+interface MockResponder {
+  stage: Exclude<MockPromptStage, "unknown">;
+  /** 匹配系统提示词或用户消息中的特征文本 */
+  match: RegExp;
+  respond: (system: string, user: string) => string;
+}
+
+interface PromptField {
+  name: string;
+  type: string;
+}
+
+const DEFAULT_CHART_TYPE: ChartType = "bar";
+const STREAM_CHUNK_SIZE = 16;
+
+/** 标题中去掉的请求用语 */
+const REQUEST_WORDS = /^(请|请你|帮我|麻烦|给我)?(生成|创建|制作|画|绘制|做)(一个|一张|个|张)?/;
+
+/**
+ * 按关键词为用户描述选择图表类型，命中数相同时按注册顺序
+ */
+function pickChartType(text: string, allowed?: string[]): ChartType {
+  const normalized = text.toLowerCase();
+  const candidates = chartTypeRegistry
+    .getTypes()
+    .filter(type => !allowed || allowed.length === 0 || allowed.includes(type));
+
+  for (const kind of ["explicit", "hints"] as const) {
+    const keywordMap = chartTypeRegistry.getKeywordMap(kind);
+    let best: { type: ChartType; score: number } | null = null;
+    for (const type of candidates) {
+      const score = (keywordMap[type] ?? []).filter(keyword =>
+        normalized.includes(keyword.toLowerCase())
+      ).length;
+      if (score > 0 && (!best || score > best.score)) {
+        best = { type, score };
+      }
+    }
+    if (best) return best.type;
+  }
+
+  return candidates.includes(DEFAULT_CHART_TYPE) ? DEFAULT_CHART_TYPE : candidates[0];
+}
+
+/**
+ * 读取提示词中 "- 标签：a, b" 形式的列表
+ */
+function readPromptList(system: string, label: string): string[] {
+  const line = new RegExp(`- ${label}：(.*)`).exec(system)?.[1] ?? "";
+  return line
+    .split(/,\s*/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function readPromptFields(system: string): PromptField[] {
+  return readPromptList(system, "字段")
+    .map(item => /^(.+)\((\w+)\)$/.exec(item))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => ({ name: match[1], type: match[2] }));
+}
+
+/**
+ * 从用户描述生成简短标题
+ */
+function summarizePrompt(text: string, maxLength: number): string {
+  const firstLine = text.split("\n").find(line => line.trim()) ?? "";
+  const cleaned = firstLine
+    .trim()
+    .replace(REQUEST_WORDS, "")
+    .replace(/[<>:"/\\|?*「」“”'"]/g, "")
+    .split(/[，,。；;：:\n]/)[0]
+    .trim();
+  const title = cleaned || "数据可视化";
+  return title.length > maxLength ? title.slice(0, maxLength) : title;
+}
+
+/**
+ * 各阶段提示词的规则应答，按顺序匹配
+ */
+const MOCK_RESPONDERS: MockResponder[] = [
+  {
+    // DataExtractor：提取 "名称：数值" 形式的数据
+    stage: "data_extraction",
+    match: /数据提取专家/,
+    respond: (_system, user) => {
+      const pairs = Array.from(
+        user.matchAll(/([^\s：:，,；;。、]+?)\s*[：:]\s*(-?\d+(?:\.\d+)?)/g)
+      );
+      const data = pairs.map(([, name, value]) => ({ 名称: name, 数值: Number(value) }));
+      return JSON.stringify({
+        hasData: data.length >= 2,
+        data: data.length >= 2 ? data : [],
+        confidence: data.length >= 2 ? 0.9 : 0,
+        extractionNotes:
+          data.length >= 2 ? `离线规则提取了 ${data.length} 组名称与数值` : "未发现名称与数值对",
+      });
+    },
+  },
+  {
+    // IntentAnalyzer（/api/ai/analyze-intent）：基于数据架构推荐图表与映射
+    stage: "intent_with_data",
+    match: /根据用户需求和数据特征/,
+    respond: (system, user) => {
+      const allowed = /"chartType": "([^"]+)"/.exec(system)?.[1].split("|") ?? [];
+      const fields = readPromptFields(system);
+      const numericFields = readPromptList(system, "数值字段");
+      const categoricalFields = readPromptList(system, "分类字段");
+      const dateField = fields.find(field => field.type === "date")?.name;
+      const rowCount = Number(/- 数据行数：(\d+)/.exec(system)?.[1] ?? 0);
+
+      const chartType = pickChartType(user, allowed);
+      const xAxis = dateField ?? categoricalFields[0] ?? fields[0]?.name ?? "category";
+      const yAxis = numericFields.filter(field => field !== xAxis).slice(0, 2);
+      const otherCategories = categoricalFields.filter(field => field !== xAxis);
+      const chartLabel = chartTypeRegistry.getLabel(chartType, "zh");
+
+      return JSON.stringify({
+        chartType,
+        confidence: 0.75,
+        reasoning: `离线规则：根据描述关键词选择${chartLabel}，以 ${xAxis} 为X轴`,
+        visualMapping: {
+          xAxis,
+          yAxis,
+          colorBy: chartType === "heatmap" ? otherCategories[0] : undefined,
+          sizeBy: chartType === "bubble" ? numericFields[2] : undefined,
+          hierarchy:
+            chartType === "treemap" || chartType === "sunburst"
+              ? categoricalFields.slice(0, 2)
+              : undefined,
+        },
+        title: summarizePrompt(user, 20),
+        description: `${yAxis.join("、") || "数据"}的${chartLabel}`,
+        insights: [`共 ${rowCount} 行数据，展示 ${yAxis.length} 个数值字段`],
+      });
+    },
+  },
+  {
+    // AIChartDirector 纯文本意图分析
+    stage: "intent_prompt_only",
+    match: /从用户的描述中分析他们的图表需求/,
+    respond: (_system, user) => {
+      const chartType = pickChartType(user);
+      const chartLabel = chartTypeRegistry.getLabel(chartType, "zh");
+      return JSON.stringify({
+        chartType,
+        confidence: 0.7,
+        reasoning: `离线规则：根据描述关键词选择${chartLabel}`,
+        suggestions: {
+          title: summarizePrompt(user, 20),
+          description: `基于描述生成的${chartLabel}`,
+          dataStructure: "分类字段与数值字段",
+        },
+      });
+    },
+  },
+  {
+    // AIChartDirector 模拟数据：使用注册表中该图表类型的示例数据
+    stage: "mock_data",
+    match: /数据生成专家/,
+    respond: system => {
+      const requested = /图表类型：(\S+)/.exec(system)?.[1] ?? "";
+      const type = chartTypeRegistry.has(requested) ? requested : DEFAULT_CHART_TYPE;
+      const sampleData =
+        chartTypeRegistry.get(type)?.sampleData ??
+        chartTypeRegistry.get(DEFAULT_CHART_TYPE)?.sampleData ??
+        [];
+      return JSON.stringify({ data: sampleData });
+    },
+  },
+  {
+    // SessionTitleGenerator：取第一条用户消息概括为标题
+    stage: "session_title",
+    match: /生成一个简洁的会话标题/,
+    respond: (_system, user) => {
+      const maxLength = Number(/不超过(\d+)个字符/.exec(user)?.[1] ?? 50);
+      const firstUserLine = /用户: (.*)/.exec(user)?.[1]?.replace(" [包含文件]", "") ?? "";
+      return summarizePrompt(firstUserLine, maxLength);
+    },
+  },
+];
+
+/**
+ * 离线 Mock AI 服务
+ * 不需要 API 密钥，同样的请求总是得到同样的响应；无法识别的提示词在 JSON 模式下返回空对象，
+ * 其余返回说明文字，由调用方走各自的降级逻辑
+ */
+export class MockAIService extends BaseAIService {
+  constructor(config: AIModelConfig) {
+    super("mock", {
+      ...config,
+      modelName: config.modelName || "mock-rules",
+    });
+  }
+
+  protected async sendRequest(request: AIRequest): Promise<AIResponse> {
+    // 系统提示词已在预处理中并入消息列表
+    const system = this.joinMessages(request, "system");
+    const user = this.joinMessages(request, "user");
+    const responder = MOCK_RESPONDERS.find(
+      item => item.match.test(system) || item.match.test(user)
+    );
+
+    // 带函数定义的请求以函数调用返回结构化结果
+    const fn = request.functions?.[0];
+
+    let content: string;
+    if (responder) {
+      content = responder.respond(system, user);
+    } else if (fn || request.params?.response_format?.type === "json_object") {
+      content = "{}";
+    } else {
+      content = "离线模式下无法回答该请求";
+    }
+
+    const promptTokens = this.estimateTokens(system + user);
+    const completionTokens = this.estimateTokens(content);
+
+    return {
+      content: fn ? "" : content,
+      role: "assistant",
+      functionCall: fn ? { name: fn.name, arguments: content } : undefined,
+      finishReason: fn ? "function_call" : "stop",
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      requestId: `mock-${responder?.stage ?? "unknown"}`,
+    };
+  }
+
+  protected async *sendStreamRequest(request: AIRequest): AsyncIterable<AIResponse> {
+    const response = await this.sendRequest(request);
+    for (let start = 0; start < response.content.length; start += STREAM_CHUNK_SIZE) {
+      yield {
+        content: response.content.slice(start, start + STREAM_CHUNK_SIZE),
+        role: "assistant",
+        requestId: response.requestId,
+      };
+    }
+    yield { ...response, content: "" };
+  }
+
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  async validateConnection(): Promise<boolean> {
+    return true;
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [this.config.modelName];
+  }
+
+  private joinMessages(request: AIRequest, role: "system" | "user"): string {
+    return request.messages
+      .filter(msg => msg.role === role)
+      .map(msg => msg.content)
+      .join("\n");
+  }
+
+  /**
+   * 粗略估算 Token 数（约 4 个字符一个 Token），保证统计稳定
+   */
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
@@ -0,0 +1,296 @@
+// OpenAI 兼容服务实现（OpenAI 以及 vLLM、Ollama 等提供 chat completions 接口的自建服务）
+
+import { BaseAIService } from "./base-service";
+import { AIRequest, AIResponse, AIModelConfig, AIFunction } from "./types";
+
+/**
+ * Chat Completions 请求格式
+ */
+interface ChatCompletionRequest {
+  model: string;
+  messages: Array<{
+    role: "system" | "user" | "assistant";
+    content: string;
+    name?: string;
+  }>;
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  stream?: boolean;
+  stream_options?: {
+    include_usage: boolean;
+  };
+  response_format?: {
+    type: "text" | "json_object";
+  };
+  tools?: Array<{
+    type: "function";
+    function: AIFunction;
+  }>;
+  tool_choice?: {
+    type: "function";
+    function: { name: string };
+  };
+}
+
+interface ChatCompletionToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+type ChatCompletionFinishReason =
+  | "stop"
+  | "length"
+  | "content_filter"
+  | "tool_calls"
+  | "function_call"
+  | null;
+
+interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Chat Completions 响应格式
+ */
+interface ChatCompletionResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: ChatCompletionToolCall[];
+    };
+    finish_reason: ChatCompletionFinishReason;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+/**
+ * Chat Completions 流式响应块
+ */
+interface ChatCompletionChunk {
+  id: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: "assistant";
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        function?: Partial<ChatCompletionToolCall["function"]>;
+      }>;
+    };
+    finish_reason: ChatCompletionFinishReason;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+/**
+ * 模型列表响应
+ */
+interface ModelsResponse {
+  object: "list";
+  data: Array<{
+    id: string;
+    object: "model";
+    owned_by?: string;
+  }>;
+}
+
+/**
+ * OpenAI 兼容 AI 服务实现
+ * provider 为 custom 时连接自建服务：必须配置 baseURL，API 密钥可以为空
+ */
+export class OpenAICompatibleAIService extends BaseAIService {
+  constructor(config: AIModelConfig, provider: "openai" | "custom" = "openai") {
+    super(provider, {
+      ...config,
+      baseURL: (config.baseURL || "https://api.openai.com/v1").replace(/\/+$/, ""),
+      modelName: config.modelName || "gpt-3.5-turbo",
+    });
+  }
+
+  protected async sendRequest(request: AIRequest): Promise<AIResponse> {
+    const body = this.buildRequestBody(request, false);
+
+    return this.withRetry(async () => {
+      const response = await this.makeHttpRequest<ChatCompletionResponse>(
+        `${this.config.baseURL}/chat/completions`,
+        {
+          method: "POST",
+          headers: this.buildHeaders(),
+          body,
+        }
+      );
+
+      const choice = response.choices[0];
+      const toolCall = choice?.message?.tool_calls?.[0];
+      return {
+        content: choice?.message?.content || "",
+        role: "assistant",
+        functionCall: toolCall
+          ? { name: toolCall.function.name, arguments: toolCall.function.arguments }
+          : undefined,
+        finishReason: this.mapFinishReason(choice?.finish_reason),
+        usage: this.mapUsage(response.usage),
+        requestId: response.id,
+      };
+    });
+  }
+
+  protected async *sendStreamRequest(request: AIRequest): AsyncIterable<AIResponse> {
+    const stream = this.makeStreamRequest(`${this.config.baseURL}/chat/completions`, {
+      headers: this.buildHeaders(),
+      body: this.buildRequestBody(request, true),
+    });
+
+    // 工具调用的参数分块到达，拼接完整后随完成原因一起返回
+    let functionCall: AIResponse["functionCall"];
+
+    for await (const data of stream) {
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      const choice = chunk.choices?.[0];
+
+      const toolDelta = choice?.delta?.tool_calls?.find(call => call.index === 0)?.function;
+      if (toolDelta) {
+        functionCall = {
+          name: (functionCall?.name ?? "") + (toolDelta.name ?? ""),
+          arguments: (functionCall?.arguments ?? "") + (toolDelta.arguments ?? ""),
+        };
+      }
+
+      // 开启 include_usage 后，最后一块没有 choices，只携带 Token 使用情况
+      if (!choice && !chunk.usage) continue;
+      if (toolDelta && !choice?.delta?.content && !choice?.finish_reason) continue;
+
+      yield {
+        content: choice?.delta?.content || "",
+        role: "assistant",
+        functionCall: choice?.finish_reason ? functionCall : undefined,
+        finishReason: choice?.finish_reason
+          ? this.mapFinishReason(choice.finish_reason)
+          : undefined,
+        usage: this.mapUsage(chunk.usage),
+        requestId: chunk.id,
+      };
+    }
+  }
+
+  protected requiresApiKey(): boolean {
+    // 自建服务通常不校验 API 密钥
+    return this.provider !== "custom";
+  }
+
+  async validateConnection(): Promise<boolean> {
+    try {
+      const testRequest: AIRequest = {
+        messages: [{ role: "user", content: "Hello" }],
+        params: {
+          maxTokens: 10,
+          temperature: 0.1,
+        },
+      };
+
+      await this.sendRequest(testRequest);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.makeHttpRequest<ModelsResponse>(`${this.config.baseURL}/models`, {
+        method: "GET",
+        headers: this.buildHeaders(),
+      });
+
+      return response.data.map(model => model.id);
+    } catch (error) {
+      console.warn(`获取 ${this.provider} 模型列表失败，使用当前模型:`, error);
+      return [this.config.modelName];
+    }
+  }
+
+  /**
+   * 转换为 Chat Completions 请求格式
+   */
+  private buildRequestBody(request: AIRequest, stream: boolean): ChatCompletionRequest {
+    return {
+      model: this.config.modelName,
+      messages: request.messages.map(msg => ({
+        role: msg.role,
+        content: msg.content,
+        ...(msg.name ? { name: msg.name } : {}),
+      })),
+      temperature: request.params?.temperature ?? 0.7,
+      max_tokens: request.params?.maxTokens || 2000,
+      top_p: request.params?.topP,
+      frequency_penalty: request.params?.frequencyPenalty,
+      presence_penalty: request.params?.presencePenalty,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      // JSON 模式直接映射为 response_format
+      response_format: request.params?.response_format,
+      ...this.buildTools(request),
+    };
+  }
+
+  /**
+   * 函数定义映射为 tools；只有一个函数时强制调用
+   */
+  private buildTools(request: AIRequest): Pick<ChatCompletionRequest, "tools" | "tool_choice"> {
+    if (!request.functions?.length) {
+      return {};
+    }
+
+    return {
+      tools: request.functions.map(fn => ({ type: "function", function: fn })),
+      tool_choice:
+        request.functions.length === 1
+          ? { type: "function", function: { name: request.functions[0].name } }
+          : undefined,
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  private mapFinishReason(
+    reason: ChatCompletionFinishReason | undefined
+  ): AIResponse["finishReason"] {
+    switch (reason) {
+      case "length":
+        return "length";
+      case "content_filter":
+        return "content_filter";
+      case "tool_calls":
+      case "function_call":
+        return "function_call";
+      default:
+        return "stop";
+    }
+  }
+
+  private mapUsage(usage: ChatCompletionUsage | null | undefined): AIResponse["usage"] {
+    return usage
+      ? {
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          totalTokens: usage.total_tokens,
+        }
+      : undefined;
+  }
+}
@@ -9,6 +9,32 @@ import {
   PROVIDER_DEFAULTS,
 } from "./types";
 import { DeepseekAIService } from "./deepseek-service";
+import { OpenAICompatibleAIService } from "./openai-service";
+import { AnthropicAIService } from "./anthropic-service";
+import { MockAIService } from "./mock-service";
+import { FallbackAIService, CircuitBreakerOptions } from "./fallback-service";
+
+const SUPPORTED_PROVIDERS: AIServiceProvider[] = [
+  "deepseek",
+  "openai",
+  "anthropic",
+  "custom",
+  "mock",
+];
+
+/** 不需要 API 密钥的提供商：自建服务与离线 Mock */
+const KEYLESS_PROVIDERS: AIServiceProvider[] = ["custom", "mock"];
+
+/**
+ * 文本的 32 位 FNV-1a 哈希，用于在缓存键中区分 API 密钥而不保存明文
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
 
 /**
  * AI 服务工厂类
@@ -35,8 +61,8 @@ export class DefaultAIServiceFactory implements AIServiceFactory {
     // 合并默认配置
     const mergedConfig = this.mergeWithDefaults(provider, config);
 
-    // 检查是否有缓存实例
-    const cacheKey = `${provider}-${config.modelName}`;
+    // 检查是否有缓存实例（服务地址、API 密钥、重试与超时设置不同的实例分别缓存）
+    const cacheKey = this.getCacheKey(provider, config);
     const cachedService = this.serviceInstances.get(cacheKey);
     if (cachedService) {
       return cachedService;
@@ -51,21 +77,29 @@ export class DefaultAIServiceFactory implements AIServiceFactory {
         break;
 
       case "openai":
-        // TODO: 实现 OpenAI 服务
-        throw new AIServiceError("SERVICE_UNAVAILABLE", "OpenAI 服务暂未实现", { provider }, false);
+        service = new OpenAICompatibleAIService(mergedConfig);
+        break;
 
       case "anthropic":
-        // TODO: 实现 Anthropic 服务
-        throw new AIServiceError(
-          "SERVICE_UNAVAILABLE",
-          "Anthropic 服务暂未实现",
-          { provider },
-          false
-        );
+        service = new AnthropicAIService(mergedConfig);
+        break;
 
       case "custom":
-        // TODO: 实现自定义服务
-        throw new AIServiceError("SERVICE_UNAVAILABLE", "自定义服务暂未实现", { provider }, false);
+        // 自建的 OpenAI 兼容服务（vLLM、Ollama 等）
+        if (!this.validateCustomConfig(mergedConfig)) {
+          throw new AIServiceError(
+            "INVALID_REQUEST",
+            "自定义服务需要配置有效的 baseURL",
+            { provider },
+            false
+          );
+        }
+        service = new OpenAICompatibleAIService(mergedConfig, "custom");
+        break;
+
+      case "mock":
+        service = new MockAIService(mergedConfig);
+        break;
 
       default:
         throw new AIServiceError(
@@ -93,8 +127,8 @@ export class DefaultAIServiceFactory implements AIServiceFactory {
    * 验证配置
    */
   validateConfig(provider: AIServiceProvider, config: AIModelConfig): boolean {
-    // 通用验证
-    if (!config.apiKey || config.apiKey.trim() === "") {
+    // 通用验证（自建服务与离线 Mock 可以不配置 API 密钥）
+    if (!KEYLESS_PROVIDERS.includes(provider) && (!config.apiKey || config.apiKey.trim() === "")) {
       return false;
     }
 
@@ -112,6 +146,8 @@ export class DefaultAIServiceFactory implements AIServiceFactory {
         return this.validateAnthropicConfig(config);
       case "custom":
         return this.validateCustomConfig(config);
+      case "mock":
+        return true;
       default:
         return false;
     }
@@ -121,14 +157,18 @@ export class DefaultAIServiceFactory implements AIServiceFactory {
    * 获取支持的提供商列表
    */
   getSupportedProviders(): AIServiceProvider[] {
-    return ["deepseek"]; // 目前只支持 Deepseek
+    return [...SUPPORTED_PROVIDERS];
   }
 
   /**
-   * 获取缓存的服务实例
+   * 获取缓存的服务实例（未指定的服务地址、重试与超时设置按提供商默认值查找）
    */
-  getCachedService(provider: AIServiceProvider, modelName: string): AIService | undefined {
-    const cacheKey = `${provider}-${modelName}`;
+  getCachedService(
+    provider: AIServiceProvider,
+    modelName: string,
+    config: Partial<Pick<AIModelConfig, "baseURL" | "apiKey" | "maxRetries" | "timeout">> = {}
+  ): AIService | undefined {
+    const cacheKey = this.getCacheKey(provider, { ...config, modelName });
     return this.serviceInstances.get(cacheKey);
   }
 
@@ -140,6 +180,35 @@ export class DefaultAIServiceFactory implements AIServiceFactory {
     this.serviceInstances.clear();
   }
 
+  /**
+   * 创建降级链服务实例
+   * 降级链实例按成员缓存，熔断器状态在多次请求之间保留；成员默认不重试，失败后直接交给下一个提供商
+   */
+  createFallbackService(
+    members: Array<{ provider: AIServiceProvider; config: AIModelConfig }>,
+    options?: Partial<CircuitBreakerOptions>
+  ): AIService {
+    const memberConfigs = members.map(({ provider, config }) => ({
+      provider,
+      config: { ...config, maxRetries: config.maxRetries ?? 1 },
+    }));
+    const cacheKey = `fallback:${memberConfigs
+      .map(({ provider, config }) => this.getCacheKey(provider, config))
+      .join(",")}`;
+    const cachedService = this.serviceInstances.get(cacheKey);
+    if (cachedService) {
+      return cachedService;
+    }
+
+    const services = memberConfigs.map(({ provider, config }) =>
+      this.createService(provider, config)
+    );
+    const service = new FallbackAIService(services, options);
+    this.serviceInstances.set(cacheKey, service);
+
+    return service;
+  }
+
   /**
    * 创建带有自动重连的服务实例
    */
@@ -160,6 +229,23 @@ export class DefaultAIServiceFactory implements AIServiceFactory {
     return service;
   }
 
+  /**
+   * 缓存键：同一模型的服务地址、API 密钥、重试次数或超时不同时使用不同实例，
+   * 避免不同端点共用熔断器，或先创建者决定其他调用方的重试策略；API 密钥只以哈希形式出现
+   */
+  private getCacheKey(
+    provider: AIServiceProvider,
+    config: Pick<AIModelConfig, "modelName" | "baseURL" | "maxRetries" | "timeout"> &
+      Partial<Pick<AIModelConfig, "apiKey">>
+  ): string {
+    const defaults = this.getDefaultConfig(provider);
+    const baseURL = config.baseURL ?? defaults.baseURL ?? "";
+    const maxRetries = config.maxRetries ?? defaults.maxRetries;
+    const timeout = config.timeout ?? defaults.timeout;
+    const keyHash = hashText(config.apiKey ?? "");
+    return `${provider}-${config.modelName}-${baseURL}-key:${keyHash}-retries:${maxRetries}-timeout:${timeout}`;
+  }
+
   /**
    * 合并默认配置
    */
@@ -192,54 +278,87 @@ export class DefaultAIServiceFactory implements AIServiceFactory {
     }
 
     // 验证参数范围
-    const params = config.requestParams;
-    if (params) {
-      if (params.temperature !== undefined && (params.temperature < 0 || params.temperature > 2)) {
-        return false;
-      }
-      if (params.maxTokens !== undefined && (params.maxTokens < 1 || params.maxTokens > 4000)) {
-        return false;
-      }
-      if (params.topP !== undefined && (params.topP < 0 || params.topP > 1)) {
-        return false;
-      }
-    }
-
-    return true;
+    return this.validateRequestParams(config, { maxTemperature: 2, maxTokens: 4000 });
   }
 
   /**
    * 验证 OpenAI 配置
    */
   private validateOpenAIConfig(config: AIModelConfig): boolean {
-    // TODO: 实现 OpenAI 配置验证
-    return true;
+    if (config.baseURL && !this.isValidURL(config.baseURL)) {
+      return false;
+    }
+
+    return this.validateRequestParams(config, { maxTemperature: 2 });
   }
 
   /**
    * 验证 Anthropic 配置
    */
   private validateAnthropicConfig(config: AIModelConfig): boolean {
-    // TODO: 实现 Anthropic 配置验证
-    return true;
+    if (config.baseURL && !this.isValidURL(config.baseURL)) {
+      return false;
+    }
+
+    if (!config.modelName.startsWith("claude")) {
+      console.warn(`未知的 Anthropic 模型: ${config.modelName}`);
+    }
+
+    // Messages API 的 temperature 取值范围为 0-1
+    return this.validateRequestParams(config, { maxTemperature: 1 });
   }
 
   /**
-   * 验证自定义配置
+   * 验证请求参数范围
    */
-  private validateCustomConfig(config: AIModelConfig): boolean {
-    // 自定义服务需要提供 baseURL
-    if (!config.baseURL || config.baseURL.trim() === "") {
+  private validateRequestParams(
+    config: AIModelConfig,
+    limits: { maxTemperature: number; maxTokens?: number }
+  ): boolean {
+    const params = config.requestParams;
+    if (!params) {
+      return true;
+    }
+
+    if (
+      params.temperature !== undefined &&
+      (params.temperature < 0 || params.temperature > limits.maxTemperature)
+    ) {
+      return false;
+    }
+    if (
+      params.maxTokens !== undefined &&
+      (params.maxTokens < 1 ||
+        (limits.maxTokens !== undefined && params.maxTokens > limits.maxTokens))
+    ) {
+      return false;
+    }
+    if (params.topP !== undefined && (params.topP < 0 || params.topP > 1)) {
       return false;
     }
 
+    return true;
+  }
+
+  private isValidURL(url: string): boolean {
     try {
-      new URL(config.baseURL);
+      new URL(url);
+      return true;
     } catch {
       return false;
     }
+  }
 
-    return true;
+  /**
+   * 验证自定义配置
+   */
+  private validateCustomConfig(config: AIModelConfig): boolean {
+    // 自定义服务需要提供 baseURL
+    if (!config.baseURL || config.baseURL.trim() === "") {
+      return false;
+    }
+
+    return this.isValidURL(config.baseURL);
   }
 
   /**
@@ -294,32 +413,134 @@ export function createDeepseekService(config: {
   });
 }
 
+/**
+ * 读取 DEFAULT_AI_PROVIDER 环境变量，未设置或无效时使用 Deepseek
+ */
+export function getDefaultProviderFromEnv(): AIServiceProvider {
+  const provider = process.env.DEFAULT_AI_PROVIDER?.trim().toLowerCase();
+  if (!provider) {
+    return "deepseek";
+  }
+
+  if (!SUPPORTED_PROVIDERS.includes(provider as AIServiceProvider)) {
+    console.warn(`⚠️ DEFAULT_AI_PROVIDER=${provider} 不受支持，使用 deepseek`);
+    return "deepseek";
+  }
+
+  return provider as AIServiceProvider;
+}
+
+/**
+ * 读取降级链：DEFAULT_AI_PROVIDER 在前，AI_FALLBACK_PROVIDERS（逗号分隔）依次在后
+ */
+export function getProviderChainFromEnv(): AIServiceProvider[] {
+  const fallbacks = (process.env.AI_FALLBACK_PROVIDERS || "")
+    .split(",")
+    .map(provider => provider.trim().toLowerCase())
+    .filter(Boolean)
+    .filter(provider => {
+      const supported = SUPPORTED_PROVIDERS.includes(provider as AIServiceProvider);
+      if (!supported) {
+        console.warn(`⚠️ AI_FALLBACK_PROVIDERS 中的 ${provider} 不受支持，已忽略`);
+      }
+      return supported;
+    }) as AIServiceProvider[];
+
+  return Array.from(new Set([getDefaultProviderFromEnv(), ...fallbacks]));
+}
+
 /**
  * 便捷函数：使用环境变量创建服务
+ * 未指定提供商时按 DEFAULT_AI_PROVIDER 选择，配置了 AI_FALLBACK_PROVIDERS 时返回降级链；
+ * 各提供商读取 <PROVIDER>_API_KEY、<PROVIDER>_MODEL、<PROVIDER>_BASE_URL
  */
-export function createServiceFromEnv(provider: AIServiceProvider = "deepseek"): AIService {
+export function createServiceFromEnv(provider?: AIServiceProvider): AIService {
+  if (provider) {
+    return createAIService(provider, getProviderConfigFromEnv(provider));
+  }
+
+  const chain = getProviderChainFromEnv();
+  if (chain.length > 1) {
+    return createFallbackServiceFromEnv(chain);
+  }
+
+  return createAIService(chain[0], getProviderConfigFromEnv(chain[0]));
+}
+
+/**
+ * 便捷函数：使用环境变量创建降级链，跳过未配置的提供商
+ */
+export function createFallbackServiceFromEnv(
+  providers: AIServiceProvider[] = getProviderChainFromEnv(),
+  options?: Partial<CircuitBreakerOptions>
+): AIService {
+  const members: Array<{ provider: AIServiceProvider; config: AIModelConfig }> = [];
+
+  providers.forEach(provider => {
+    try {
+      const config = getProviderConfigFromEnv(provider);
+      if (!KEYLESS_PROVIDERS.includes(provider) && !config.apiKey) {
+        console.warn(`⚠️ 降级链跳过未配置 API 密钥的 ${provider}`);
+        return;
+      }
+      members.push({ provider, config });
+    } catch (error) {
+      console.warn(`⚠️ 降级链跳过 ${provider}:`, error instanceof Error ? error.message : error);
+    }
+  });
+
+  if (members.length === 0) {
+    throw new Error(`降级链中没有可用的 AI 服务: ${providers.join(", ")}`);
+  }
+
+  return aiServiceFactory.createFallbackService(members, options);
+}
+
+/**
+ * 从环境变量读取提供商配置
+ */
+function getProviderConfigFromEnv(provider: AIServiceProvider): AIModelConfig {
   let apiKey: string;
   let modelName: string;
+  let baseURL: string | undefined;
 
   switch (provider) {
     case "deepseek":
       apiKey = process.env.DEEPSEEK_API_KEY || "";
       modelName = process.env.DEEPSEEK_MODEL || "deepseek-chat";
+      baseURL = process.env.DEEPSEEK_BASE_URL;
       break;
     case "openai":
       apiKey = process.env.OPENAI_API_KEY || "";
       modelName = process.env.OPENAI_MODEL || "gpt-3.5-turbo";
+      baseURL = process.env.OPENAI_BASE_URL;
       break;
     case "anthropic":
       apiKey = process.env.ANTHROPIC_API_KEY || "";
       modelName = process.env.ANTHROPIC_MODEL || "claude-3-haiku-20240307";
+      baseURL = process.env.ANTHROPIC_BASE_URL;
+      break;
+    case "custom":
+      apiKey = process.env.CUSTOM_API_KEY || "";
+      modelName = process.env.CUSTOM_MODEL || "";
+      baseURL = process.env.CUSTOM_BASE_URL;
+      if (!modelName || !baseURL) {
+        throw new Error("自定义服务需要配置 CUSTOM_BASE_URL 和 CUSTOM_MODEL 环境变量");
+      }
+      break;
+    case "mock":
+      // 离线 Mock 不访问网络，无需密钥与地址
+      apiKey = "";
+      modelName = "mock-rules";
       break;
     default:
       throw new Error(`不支持从环境变量创建 ${provider} 服务`);
   }
 
-  return createAIService(provider, {
+  return {
     apiKey,
     modelName,
-  });
+    // 未设置时保留提供商默认地址
+    ...(baseURL ? { baseURL } : {}),
+  };
 }
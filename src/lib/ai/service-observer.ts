@@ -0,0 +1,42 @@
+// AI 服务响应观察：在不改变行为的前提下把每次成功响应通知给调用方
+
+import { AIService, AIResponse } from "./types";
+
+/**
+ * 包装 AI 服务，每次 chat 成功或流式响应结束时回调 onResponse
+ */
+export function observeAIService(
+  service: AIService,
+  onResponse: (response: AIResponse) => void
+): AIService {
+  return {
+    get provider() {
+      return service.provider;
+    },
+    get config() {
+      return service.config;
+    },
+    get stats() {
+      return service.stats;
+    },
+    async chat(request) {
+      const response = await service.chat(request);
+      onResponse(response);
+      return response;
+    },
+    async *chatStream(request) {
+      let last: AIResponse | undefined;
+      for await (const chunk of service.chatStream(request)) {
+        last = chunk;
+        yield chunk;
+      }
+      if (last) {
+        onResponse(last);
+      }
+    },
+    validateConnection: () => service.validateConnection(),
+    getAvailableModels: () => service.getAvailableModels(),
+    resetStats: () => service.resetStats(),
+    destroy: () => service.destroy(),
+  };
+}
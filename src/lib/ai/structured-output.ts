@@ -0,0 +1,194 @@
+// 结构化输出：以函数定义约束 AI 的输出结构，按 JSON Schema 校验，未通过时带着校验错误重新请求
+
+import {
+  AIFunction,
+  AIMessage,
+  AIRequest,
+  AIService,
+  AIServiceError,
+  AI_ERROR_MESSAGES,
+  JSONSchema,
+  JSONSchemaType,
+} from "./types";
+
+/** 未通过校验时重新请求的次数 */
+const DEFAULT_MAX_REPAIRS = 1;
+
+/** 反馈给模型与写入错误信息的校验错误条数上限 */
+const MAX_REPORTED_ERRORS = 10;
+
+/**
+ * 结构化输出选项
+ */
+export interface StructuredOutputOptions {
+  /** 未通过校验时重新请求的次数，默认 1 */
+  maxRepairs?: number;
+}
+
+/**
+ * 从文本响应中取出 JSON：去掉 Markdown 代码块标记与前后的说明文字
+ */
+export function extractJsonContent(content: string): string {
+  const trimmed = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf("}"), trimmed.lastIndexOf("]"));
+  return start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+function describeType(value: unknown): JSONSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JSONSchemaType;
+}
+
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  const actual = describeType(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * 按 JSON Schema 校验取值，返回错误列表（为空表示通过）
+ */
+export function validateJsonSchema(value: unknown, schema: JSONSchema, path = "$"): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: 类型应为 ${types.join(" | ")}，实际为 ${describeType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    return [
+      `${path}: 取值应为 ${schema.enum.map(item => JSON.stringify(item)).join(" | ")} 之一，实际为 ${JSON.stringify(value)}`,
+    ];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: 应不小于 ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: 应不大于 ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: 至少需要 ${schema.minItems} 项`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: 最多允许 ${schema.maxItems} 项`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (describeType(value) === "object") {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    schema.required?.forEach(key => {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: 缺少必填字段`);
+      }
+    });
+
+    Object.entries(record).forEach(([key, item]) => {
+      if (item === undefined) return;
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(item, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: 不允许的字段`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * 解析并校验一次响应的结构化结果
+ */
+function parseStructuredOutput(raw: string, fn: AIFunction): { value?: unknown; errors: string[] } {
+  if (!raw.trim()) {
+    return { errors: ["响应为空"] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    return { errors: [`不是有效的 JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  return { value, errors: validateJsonSchema(value, fn.parameters) };
+}
+
+function buildRepairMessage(fn: AIFunction, errors: string[]): AIMessage {
+  return {
+    role: "user",
+    content: `上一次的输出未通过校验：
+${errors.map(error => `- ${error}`).join("\n")}
+
+请修正以上问题，重新调用 ${fn.name} 输出完整结果。`,
+  };
+}
+
+/**
+ * 请求结构化输出
+ * 以 fn 作为唯一的函数定义要求模型调用它；模型未调用函数时从文本内容中解析 JSON。
+ * 结果未通过 fn.parameters 校验时，把上一次输出与校验错误追加到对话中重新请求，
+ * 仍不合格时抛出 INVALID_RESPONSE 错误，由调用方走各自的降级逻辑
+ */
+export async function requestStructuredOutput<T>(
+  service: AIService,
+  request: AIRequest,
+  fn: AIFunction,
+  options: StructuredOutputOptions = {}
+): Promise<T> {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  let messages = request.messages;
+  let errors: string[] = [];
+  let raw = "";
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const response = await service.chat({ ...request, messages, functions: [fn] });
+    raw =
+      response.functionCall?.name === fn.name
+        ? response.functionCall.arguments
+        : extractJsonContent(response.content);
+
+    const result = parseStructuredOutput(raw, fn);
+    errors = result.errors.slice(0, MAX_REPORTED_ERRORS);
+    if (errors.length === 0) {
+      return result.value as T;
+    }
+
+    console.warn(`⚠️ [StructuredOutput] ${fn.name} 第 ${attempt + 1} 次输出未通过校验:`, errors);
+    messages = [
+      ...request.messages,
+      { role: "assistant", content: raw || "(空)" },
+      buildRepairMessage(fn, errors),
+    ];
+  }
+
+  throw new AIServiceError(
+    "INVALID_RESPONSE",
+    `${AI_ERROR_MESSAGES.INVALID_RESPONSE}（${fn.name}）: ${errors.join("; ")}`,
+    { function: fn.name, errors, rawContent: raw.slice(0, 500) },
+    false
+  );
+}
@@ -3,7 +3,7 @@
 /**
  * AI 服务提供商类型
  */
-export type AIServiceProvider = "deepseek" | "openai" | "anthropic" | "custom";
+export type AIServiceProvider = "deepseek" | "openai" | "anthropic" | "custom" | "mock";
 
 /**
  * AI 模型配置
@@ -73,7 +73,7 @@ export interface AIRequest {
   /** 是否流式响应 */
   stream?: boolean;
 
-  /** 函数定义（用于 Function Calling） */
+  /** 函数定义（用于 Function Calling），只有一个函数时要求模型必须调用它 */
   functions?: AIFunction[];
 }
 
@@ -90,11 +90,38 @@ export interface AIFunction {
   /** 参数 schema */
   parameters: {
     type: "object";
-    properties: Record<string, any>;
+    properties: Record<string, JSONSchema>;
     required?: string[];
+    additionalProperties?: boolean | JSONSchema;
   };
 }
 
+/**
+ * JSON Schema（结构化输出使用的子集）
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  enum?: Array<string | number | boolean | null>;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type JSONSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
 /**
  * AI 响应结果
  */
@@ -123,6 +150,9 @@ export interface AIResponse {
 
   /** 请求 ID */
   requestId?: string;
+
+  /** 实际处理请求的服务提供商（降级链中可能不是首选提供商） */
+  provider?: AIServiceProvider;
 }
 
 /**
@@ -139,6 +169,8 @@ export type AIServiceErrorType =
   | "SERVICE_UNAVAILABLE"
   | "INSUFFICIENT_DATA"
   | "DATA_INCOMPATIBLE"
+  | "CASSETTE_MISS"
+  | "INVALID_RESPONSE"
   | "UNKNOWN_ERROR";
 
 /**
@@ -223,6 +255,46 @@ export interface AIService {
   destroy(): void;
 }
 
+/**
+ * AI 调用录制模式：record 调用真实服务并保存请求与响应，replay 只从录制内容返回响应
+ */
+export type AICassetteMode = "record" | "replay";
+
+/**
+ * 归一化后的 AI 请求（用于计算录制键）
+ */
+export interface NormalizedAIRequest {
+  /** 系统提示词并入消息列表，换行统一为 \n */
+  messages: Array<Pick<AIMessage, "role" | "content" | "name">>;
+  /** 去掉未设置的参数 */
+  params?: AIModelConfig["requestParams"];
+  functions?: AIFunction[];
+}
+
+/**
+ * 录制的一次 AI 调用
+ */
+export interface AICassetteEntry {
+  /** 归一化请求的哈希 */
+  key: string;
+  /** 发起调用的会话 */
+  sessionId?: string;
+  request: NormalizedAIRequest;
+  response: AIResponse;
+  /** 录制时间（ISO 字符串） */
+  recordedAt: string;
+}
+
+/**
+ * AI 调用录制文件
+ */
+export interface AICassette {
+  version: 1;
+  createdAt: string;
+  updatedAt: string;
+  entries: AICassetteEntry[];
+}
+
 /**
  * AI 服务工厂接口
  */
@@ -280,6 +352,20 @@ export const AI_SERVICE_DEFAULTS = {
   },
 } as const;
 
+/**
+ * 熔断器默认配置
+ */
+export const CIRCUIT_BREAKER_DEFAULTS = {
+  /** 连续失败多少次后熔断 */
+  failureThreshold: 3,
+  /** 响应时间超过该值（毫秒）视为慢请求 */
+  slowCallDuration: 20000,
+  /** 连续慢请求多少次后熔断 */
+  slowCallThreshold: 2,
+  /** 熔断后多久（毫秒）允许一次试探请求 */
+  cooldown: 60000,
+} as const;
+
 /**
  * 错误消息映射
  */
@@ -294,6 +380,8 @@ export const AI_ERROR_MESSAGES: Record<AIServiceErrorType, string> = {
   SERVICE_UNAVAILABLE: "AI 服务暂不可用",
   INSUFFICIENT_DATA: "数据不足，无法生成图表",
   DATA_INCOMPATIBLE: "数据格式不兼容",
+  CASSETTE_MISS: "录制的 AI 响应中没有与该请求匹配的记录",
+  INVALID_RESPONSE: "AI 返回的结构化结果未通过校验",
   UNKNOWN_ERROR: "未知错误",
 };
 
@@ -339,4 +427,13 @@ export const PROVIDER_DEFAULTS: Record<AIServiceProvider, Partial<AIModelConfig>
       maxTokens: 1000,
     },
   },
+  mock: {
+    modelName: "mock-rules",
+    timeout: 30000,
+    maxRetries: 1,
+    requestParams: {
+      temperature: 0,
+      maxTokens: 1000,
+    },
+  },
 };
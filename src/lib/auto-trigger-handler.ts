@@ -544,6 +544,7 @@ class AutoTriggerHandler {
       const request = {
         prompt: triggerMessage.content.text,
         files: restoredFiles, // 支持多文件
+        sheetSelection: triggerMessage.content.attachments?.[0]?.sheetSelection,
       };
 
       // 执行AI处理
@@ -636,6 +637,7 @@ class AutoTriggerHandler {
         chartType: result.chartType,
         title: result.title,
         description: result.description,
+        warnings: result.warnings,
         imageInfo: {
           filename: `chart_${Date.now()}.png`,
           localBlobUrl: "", // 需要在图表生成后设置
@@ -0,0 +1,169 @@
+/**
+ * 分类排序与 Top N 合并
+ * 分类有自然顺序（月份、星期、季度、日期、数值区间）时按自然顺序排列，否则按数值降序；
+ * 超出 Top N 的分类合并为 "Other"。服务端生成图表与客户端渲染共用
+ */
+
+import { OTHER_CATEGORY_LABEL } from "@/constants/chart-config";
+import { parseDateValue, parseLocaleNumber } from "@/lib/value-parser";
+import type { CategorySort } from "@/types/chart-config";
+
+const EN_MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+const EN_WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+const CN_NUMERALS = ["一", "二", "三", "四", "五", "六", "七", "八", "九", "十", "十一", "十二"];
+const CN_WEEKDAYS = ["一", "二", "三", "四", "五", "六", "日"];
+
+/** 英文名称或不少于三个字母的缩写（Sept、Tues）在列表中的序号 */
+const toNameOrdinal = (text: string, names: string[]): number | null => {
+  const word = /^([a-z]{3,})\.?$/i.exec(text)?.[1].toLowerCase();
+  const index = word ? names.findIndex(name => name.startsWith(word)) : -1;
+  return index >= 0 ? index + 1 : null;
+};
+
+/** 中文或阿拉伯数字序号，超出 max 时返回 null */
+const toOrdinal = (text: string, max: number): number | null => {
+  const index = /^\d+$/.test(text) ? Number(text) : CN_NUMERALS.indexOf(text) + 1;
+  return index >= 1 && index <= max ? index : null;
+};
+
+const toFiniteNumber = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) ? value : 0;
+
+/**
+ * 自然顺序识别规则：按顺序尝试，全部分类都能取得序号的第一条规则生效
+ */
+const NATURAL_ORDER_RULES: Array<(label: string) => number | null> = [
+  // 月份：Jan、January、Sept.、1月、一月、十二月份
+  label => {
+    const english = toNameOrdinal(label, EN_MONTHS);
+    if (english) return english;
+    const chinese = /^(\d{1,2}|[一二三四五六七八九十]{1,3})月份?$/.exec(label);
+    return chinese ? toOrdinal(chinese[1], 12) : null;
+  },
+  // 星期：Mon、Monday、周一、星期日、礼拜天
+  label => {
+    const english = toNameOrdinal(label, EN_WEEKDAYS);
+    if (english) return english;
+    const chinese = /^(?:周|星期|礼拜)([一二三四五六日天])$/.exec(label);
+    return chinese ? CN_WEEKDAYS.indexOf(chinese[1] === "天" ? "日" : chinese[1]) + 1 : null;
+  },
+  // 季度：Q1、2024-Q1、2024 Q1、第一季度、一季度
+  label => {
+    const english = /^(?:(\d{4})\s*[-\s]?\s*)?Q([1-4])$/i.exec(label);
+    if (english) return Number(english[1] ?? 0) * 10 + Number(english[2]);
+    const chinese = /^(?:(\d{4})年?)?第?([1-4一二三四])季度?$/.exec(label);
+    const quarter = chinese ? toOrdinal(chinese[2], 4) : null;
+    return chinese && quarter ? Number(chinese[1] ?? 0) * 10 + quarter : null;
+  },
+  // 日期
+  label => parseDateValue(label)?.date.getTime() ?? null,
+  // 数值与数值区间（"0-10"、"18-24岁"、"100+" 按起点排序）
+  label => {
+    const exact = parseLocaleNumber(label)?.value;
+    if (exact !== undefined) return exact;
+    const range = /^[<>≤≥]?\s*(-?\d+(?:\.\d+)?)/.exec(label);
+    return range ? Number(range[1]) : null;
+  },
+];
+
+/**
+ * 计算分类的自然顺序序号，没有统一的自然顺序时返回 null
+ */
+export function getNaturalOrder(labels: string[]): number[] | null {
+  if (labels.length < 2) return null;
+  for (const rule of NATURAL_ORDER_RULES) {
+    const orders: number[] = [];
+    for (const label of labels) {
+      const order = rule(label.trim());
+      if (order === null || !Number.isFinite(order)) break;
+      orders.push(order);
+    }
+    if (orders.length === labels.length) return orders;
+  }
+  return null;
+}
+
+export interface RankCategoriesOptions {
+  /** 分类字段 */
+  categoryKey: string;
+  /** 参与排名的数值字段，多个字段时按合计值排名 */
+  valueKeys: string[];
+  /** 排序方式，默认 auto */
+  sort?: CategorySort;
+  /** 保留的分类数，0 表示不合并 */
+  limit?: number;
+  /** 合并分类的名称 */
+  otherLabel?: string;
+}
+
+export interface RankedCategories<T> {
+  rows: T[];
+  /** 合并进 "Other" 的分类名称（按数值降序） */
+  folded: string[];
+}
+
+/**
+ * 排序分类并将超出 Top N 的分类合并为一行
+ * 保留数值最大的 limit 个分类，按排序方式排列后将合并行放在最后；
+ * 分类不唯一（长表格式）时原样返回
+ */
+export function rankCategories<T extends Record<string, unknown>>(
+  rows: T[],
+  options: RankCategoriesOptions
+): RankedCategories<T> {
+  const { categoryKey, valueKeys, sort = "auto", limit = 0 } = options;
+  const labels = rows.map(row => String(row[categoryKey] ?? ""));
+  if (rows.length < 2 || new Set(labels).size !== labels.length) {
+    return { rows, folded: [] };
+  }
+
+  const totalOf = (row: T) => valueKeys.reduce((sum, key) => sum + toFiniteNumber(row[key]), 0);
+  const entries = rows.map((row, index) => ({ row, label: labels[index], total: totalOf(row) }));
+  const byValue = [...entries].sort((a, b) => b.total - a.total);
+
+  // 仅多出一个分类时合并没有意义
+  const shouldFold = limit > 0 && entries.length > limit + 1;
+  const kept = shouldFold ? new Set(byValue.slice(0, limit)) : new Set(entries);
+  const foldedEntries = byValue.filter(entry => !kept.has(entry));
+
+  let ordered: typeof entries;
+  const natural = sort === "value" ? null : getNaturalOrder(labels);
+  if (natural) {
+    ordered = entries
+      .map((entry, index) => ({ entry, order: natural[index] }))
+      .sort((a, b) => a.order - b.order)
+      .map(({ entry }) => entry);
+  } else if (sort === "label") {
+    ordered = [...entries].sort((a, b) =>
+      a.label.localeCompare(b.label, undefined, { numeric: true })
+    );
+  } else {
+    ordered = byValue;
+  }
+
+  const result = ordered.filter(entry => kept.has(entry)).map(entry => entry.row);
+  if (foldedEntries.length > 0) {
+    const other: Record<string, unknown> = {
+      [categoryKey]: options.otherLabel ?? OTHER_CATEGORY_LABEL,
+    };
+    valueKeys.forEach(key => {
+      other[key] = foldedEntries.reduce((sum, { row }) => sum + toFiniteNumber(row[key]), 0);
+    });
+    result.push(other as T);
+  }
+
+  return { rows: result, folded: foldedEntries.map(entry => entry.label) };
+}
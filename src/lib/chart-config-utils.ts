@@ -12,12 +12,26 @@ import {
   ConfigValidationResult,
   ChartConfigSchema,
   ColorConfigItem,
+  OptionConfigItem,
 } from "@/types/chart-config";
-import { CHART_CONFIG_SCHEMAS, CHART_CONFIG_DEFAULTS } from "@/constants/chart-config";
+import {
+  AGGREGATION_CONFIG_OPTIONS,
+  CHART_CONFIG_DEFAULTS,
+  COLOR_CONFIG_CATEGORIES,
+} from "@/constants/chart-config";
 import { ChartType } from "@/types/chart";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 import { generateSeriesConfigs, generateCommonColors, createChartTheme } from "@/lib/colors";
-import { extractSeriesKeys, validateSeriesKeys, type SeriesKey } from "@/lib/data-analysis-utils";
-import { standardizeChartData, getSeriesCount } from "@/lib/data-standardization";
+import { buildHierarchyTree } from "@/lib/hierarchy-utils";
+import { aggregateRows } from "@/lib/aggregation-utils";
+import type { ChartConfig } from "@/lib/ai-chart-system/types";
+import {
+  extractSeriesKeys,
+  validateSeriesKeys,
+  planComboSeriesLayout,
+  type SeriesKey,
+} from "@/lib/data-analysis-utils";
+import { standardizeChartData, getSeriesCount, getScatterGroups } from "@/lib/data-standardization";
 
 /**
  * 数据驱动的配置生成 - 核心函数
@@ -42,8 +56,8 @@ export function generateDataDrivenConfigSchema(
   const colorConfigs = generateSeriesColorConfigs(chartType, seriesKeys);
 
   // 3. 获取基础选项配置
-  const baseSchema = CHART_CONFIG_SCHEMAS[chartType];
-  const optionConfigs = baseSchema?.options || [];
+  const baseSchema = chartTypeRegistry.getConfigSchema(chartType);
+  const optionConfigs = baseSchema.options;
 
   // 4. 添加网格等通用配置
   const additionalConfigs = generateAdditionalColorConfigs(chartType);
@@ -94,7 +108,7 @@ function generateAdditionalColorConfigs(chartType: ChartType): ColorConfigItem[]
   const configs: ColorConfigItem[] = [];
 
   // 大部分图表需要网格配置
-  if (!["pie", "radial"].includes(chartType)) {
+  if (!["pie", "radial", "funnel", "treemap", "sunburst"].includes(chartType)) {
     configs.push({
       key: "grid",
       label: "Grid Color",
@@ -113,9 +127,26 @@ function generateAdditionalColorConfigs(chartType: ChartType): ColorConfigItem[]
     });
   }
 
+  // 瀑布图等图表的增加/减少/合计语义颜色
+  configs.push(...getSemanticColorConfigs(chartType));
+
   return configs;
 }
 
+/**
+ * 获取图表的语义颜色配置项（增加/减少/合计），来自静态配置描述
+ */
+export function getSemanticColorConfigs(chartType: ChartType): ColorConfigItem[] {
+  const semanticCategories: string[] = [
+    COLOR_CONFIG_CATEGORIES.INCREASE,
+    COLOR_CONFIG_CATEGORIES.DECREASE,
+    COLOR_CONFIG_CATEGORIES.TOTAL,
+  ];
+  const colorItems = chartTypeRegistry.getConfigSchema(chartType).colors;
+
+  return colorItems.filter(item => semanticCategories.includes(item.category));
+}
+
 /**
  * 判断图表类型是否支持描边颜色
  */
@@ -134,7 +165,7 @@ export function getChartConfigSchema(
 ): ChartConfigSchema {
   // 如果没有数据，使用旧的静态配置
   if (!chartData || chartData.length === 0) {
-    return CHART_CONFIG_SCHEMAS[chartType] || { colors: [], options: [] };
+    return chartTypeRegistry.getConfigSchema(chartType);
   }
 
   // 使用新的数据驱动配置生成
@@ -190,7 +221,7 @@ function resolveSeriesKeys(
   baseKeys: Array<{ key: string; label: string }>,
   seriesCount: number
 ): Array<{ key: string; label: string }> {
-  if (Array.isArray(data) && ["pie", "radial"].includes(chartType)) {
+  if (Array.isArray(data) && ["pie", "radial", "funnel"].includes(chartType)) {
     const categoricalData = data as Array<Record<string, unknown>>;
     const usedKeys = new Set<string>();
 
@@ -208,6 +239,30 @@ function resolveSeriesKeys(
     });
   }
 
+  if (Array.isArray(data) && ["treemap", "sunburst"].includes(chartType)) {
+    const roots = buildHierarchyTree(data as Array<Record<string, unknown>>);
+    const usedKeys = new Set<string>();
+    return roots.map((root, index) => {
+      const key = ensureUniqueKey(sanitizeSeriesKey(root.name, index), usedKeys);
+      usedKeys.add(key);
+      return { key, label: root.name };
+    });
+  }
+
+  if (Array.isArray(data) && ["scatter", "bubble", "boxplot"].includes(chartType)) {
+    const groups = getScatterGroups(data);
+    if (groups.length === 0) {
+      return baseKeys.slice(0, 1);
+    }
+
+    const usedKeys = new Set<string>();
+    return groups.map((group, index) => {
+      const key = ensureUniqueKey(sanitizeSeriesKey(group, index), usedKeys);
+      usedKeys.add(key);
+      return { key, label: group };
+    });
+  }
+
   if (baseKeys.length >= seriesCount) {
     return baseKeys;
   }
@@ -294,6 +349,19 @@ function generateSimplifiedColorConfig(
     // 简化：不使用复杂的dynamic配置
   };
 
+  // 瀑布图的增加/减少/合计颜色具有固定语义，不随主色变化
+  if (chartType === "waterfall") {
+    result.increase = CHART_CONFIG_DEFAULTS.INCREASE_COLOR;
+    result.decrease = CHART_CONFIG_DEFAULTS.DECREASE_COLOR;
+    result.total = CHART_CONFIG_DEFAULTS.TOTAL_COLOR;
+  }
+
+  // K线图的涨跌颜色同样固定
+  if (chartType === "candlestick") {
+    result.increase = CHART_CONFIG_DEFAULTS.INCREASE_COLOR;
+    result.decrease = CHART_CONFIG_DEFAULTS.DECREASE_COLOR;
+  }
+
   return result;
 }
 
@@ -336,19 +404,96 @@ export function generateOptionConfig(
   chartConfig?: Record<string, { label?: string; color?: string; show?: boolean }>
 ): UnifiedOptionConfig {
   // 使用静态配置描述来生成选项，因为选项不依赖于数据
-  const baseSchema = CHART_CONFIG_SCHEMAS[chartType];
   const options: UnifiedOptionConfig = {};
 
-  if (baseSchema && baseSchema.options) {
-    // 根据配置描述设置默认值
-    baseSchema.options.forEach(item => {
-      (options as Record<string, unknown>)[item.key] = item.defaultValue;
-    });
+  // 根据配置描述设置默认值，插件声明的默认选项优先
+  chartTypeRegistry.getConfigSchema(chartType).options.forEach(item => {
+    (options as Record<string, unknown>)[item.key] = item.defaultValue;
+  });
+  Object.assign(options, chartTypeRegistry.get(chartType)?.defaultOptions);
+
+  // 组合图：优先沿用生成阶段给出的系列布局，缺失的系列按量级自动规划
+  if (chartType === "combo" && seriesKeys && chartData) {
+    const keys = seriesKeys.map(entry => entry.key);
+    const generatedSeries = (chartConfig as Record<string, unknown> | undefined)?.series;
+    const planned = planComboSeriesLayout(chartData, keys);
+
+    if (Array.isArray(generatedSeries)) {
+      generatedSeries.forEach(entry => {
+        if (entry && keys.includes(entry.field)) {
+          planned[entry.field] = { mark: entry.mark, axis: entry.axis };
+        }
+      });
+    }
+
+    options.comboSeries = planned;
+  }
+
+  // 分组聚合：选项面板的初始值取生成阶段的聚合方式
+  const aggregation = getRecomputableAggregation(chartConfig);
+  if (aggregation) {
+    options.aggregateFunction = aggregation.function;
+    options.timeBucket = aggregation.timeBucket;
   }
 
   return options;
 }
 
+/**
+ * 获取可在客户端重新计算的分组聚合：生成阶段附带了聚合前取值时返回聚合规格
+ */
+export function getRecomputableAggregation(
+  chartConfig?: Record<string, unknown>
+): ChartConfig["aggregation"] | undefined {
+  const aggregation = chartConfig?.aggregation as ChartConfig["aggregation"] | undefined;
+  return aggregation?.source ? aggregation : undefined;
+}
+
+/**
+ * 分组聚合的选项配置项；X轴未按日期分桶时不提供分桶粒度
+ */
+export function getAggregationOptionItems(
+  chartConfig?: Record<string, unknown>
+): OptionConfigItem[] {
+  const aggregation = getRecomputableAggregation(chartConfig);
+  if (!aggregation) return [];
+
+  return AGGREGATION_CONFIG_OPTIONS.filter(
+    item => item.key !== "timeBucket" || Boolean(aggregation.timeBucket)
+  );
+}
+
+/**
+ * 按选项面板中的聚合方式重新聚合图表数据；与生成阶段相同时直接使用生成结果。
+ * 切换聚合函数后不再保留逐字段指定的聚合函数
+ */
+export function resolveAggregatedData<T>(
+  chartData: T[],
+  chartConfig: Record<string, unknown> | undefined,
+  options: UnifiedOptionConfig
+): T[] {
+  const aggregation = getRecomputableAggregation(chartConfig);
+  if (!aggregation?.source) return chartData;
+
+  const fn = options.aggregateFunction ?? aggregation.function;
+  const timeBucket = aggregation.timeBucket
+    ? (options.timeBucket ?? aggregation.timeBucket)
+    : undefined;
+  if (fn === aggregation.function && timeBucket === aggregation.timeBucket) {
+    return chartData;
+  }
+
+  const rows = aggregateRows(aggregation.source, {
+    ...aggregation,
+    function: fn,
+    measures: fn === aggregation.function ? aggregation.measures : undefined,
+    timeBucket,
+  });
+  return rows.filter(row =>
+    aggregation.valueFields.some(field => typeof row[field] === "number")
+  ) as T[];
+}
+
 /**
  * 获取默认颜色配置
  */
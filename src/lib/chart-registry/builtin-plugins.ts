@@ -0,0 +1,1818 @@
+// 内置图表类型插件
+// 每种图表的名称、数据要求、关键词、配置描述与钩子都在这里声明；
+// 渲染组件由 EnhancedChart 按渲染器名称解析为内置适配组件，这里只声明渲染器名称
+
+import {
+  BarChart3,
+  BoxSelect,
+  CandlestickChart,
+  ChartColumn,
+  ChartColumnDecreasing,
+  ChartNoAxesCombined,
+  CircleDot,
+  Filter,
+  Gauge,
+  Grid3x3,
+  LayoutDashboard,
+  LineChart,
+  Map as MapIcon,
+  PieChart,
+  Radar,
+  ScatterChart,
+  SunMedium,
+  TrendingUp,
+} from "lucide-react";
+import { CHART_TYPES } from "@/constants/chart";
+import {
+  CATEGORY_SORT_MODES,
+  CHART_CONFIG_RANGES,
+  CHART_CONFIG_TYPES,
+  CHOROPLETH_MAPS,
+  COLOR_CONFIG_CATEGORIES,
+  FUNNEL_CONVERSION_BASES,
+  HEATMAP_COLOR_SCALES,
+  HISTOGRAM_BIN_METHODS,
+  LINE_CURVE_TYPES,
+  LINE_DOT_VARIANTS,
+  TOP_N_DEFAULTS,
+} from "@/constants/chart-config";
+import { detectOhlcKeys } from "@/lib/ohlc-utils";
+import { matchRegions } from "@/lib/geo-regions";
+import { ChartDataValidation, ChartTypePlugin } from "./types";
+
+const {
+  BAR,
+  LINE,
+  PIE,
+  AREA,
+  RADAR,
+  RADIAL,
+  SCATTER,
+  BUBBLE,
+  COMBO,
+  HEATMAP,
+  WATERFALL,
+  FUNNEL,
+  HISTOGRAM,
+  BOXPLOT,
+  TREEMAP,
+  SUNBURST,
+  CANDLESTICK,
+  CHOROPLETH,
+} = CHART_TYPES;
+
+/**
+ * 按 [是否不满足, 问题说明] 列表收集问题
+ */
+function collectIssues(checks: Array<[boolean, string]>): string[] {
+  return checks.filter(([failed]) => failed).map(([, issue]) => issue);
+}
+
+function checkRequirements(checks: Array<[boolean, string]>): ChartDataValidation {
+  return { issues: collectIssues(checks), suggestions: [] };
+}
+
+// 渲染数据的形态判断：data 为 EnhancedChart 收到的图表数据
+
+function isPieRows(rows: Record<string, unknown>[]): boolean {
+  const first = rows[0];
+  return Boolean(first) && "name" in first && "value" in first;
+}
+
+/**
+ * 首行中取值为指定类型的字段数
+ */
+function countKeysOfType(rows: Record<string, unknown>[], type: "string" | "number"): number {
+  const first = rows[0] ?? {};
+  return Object.keys(first).filter(key => typeof first[key] === type).length;
+}
+
+/**
+ * 数值系列数：name/value 格式为 1，标准格式为除首个（分类）字段外的字段数
+ */
+function countSeries(rows: Record<string, unknown>[]): number {
+  if (rows.length === 0) return 0;
+  return isPieRows(rows) ? 1 : Object.keys(rows[0]).length - 1;
+}
+
+/**
+ * 除首个（分类）字段外是否存在数值字段
+ */
+function hasNumericSeries(rows: Record<string, unknown>[]): boolean {
+  if (rows.length === 0) return false;
+  if (isPieRows(rows)) return true;
+  return Object.keys(rows[0])
+    .slice(1)
+    .some(key => rows.some(row => typeof row[key] === "number"));
+}
+
+export const BUILTIN_CHART_PLUGINS: ChartTypePlugin[] = [
+  {
+    type: BAR,
+    label: { en: "Bar chart", zh: "柱状图" },
+    renderer: { name: "BeautifulBarChart", icon: BarChart3 },
+    dataRequirements: {
+      minDataPoints: 1,
+      reason: "可以显示单个类别的数值",
+      formats: ["standard"],
+    },
+    keywords: {
+      explicit: ["bar", "bar chart", "柱状", "条形", "柱状图", "条形图", "柱图", "对比", "比较"],
+      hints: [
+        "bar",
+        "column",
+        "compare",
+        "comparison",
+        "versus",
+        "ranking",
+        "top",
+        "bottom",
+        "对比",
+        "比较",
+        "柱状",
+        "条形",
+      ],
+    },
+    prompt: {
+      summary: "柱状图，适合比较分类数据",
+      mapping: "柱状图，用于比较不同类别的数值。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "series",
+          label: "Bar Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "barRadius",
+          label: "Corner Radius",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 4,
+          range: CHART_CONFIG_RANGES.BAR_RADIUS,
+          unit: "px",
+        },
+        {
+          key: "barShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "barShowValues",
+          label: "Show Value Labels",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "topN",
+          label: "Top N (0 = all)",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: TOP_N_DEFAULTS.bar,
+          range: CHART_CONFIG_RANGES.TOP_N,
+        },
+        {
+          key: "categorySort",
+          label: "Sort Categories",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "auto",
+          options: CATEGORY_SORT_MODES,
+        },
+      ],
+    },
+    sampleData: [
+      { category: "产品A", value: 320 },
+      { category: "产品B", value: 240 },
+      { category: "产品C", value: 180 },
+      { category: "产品D", value: 290 },
+      { category: "产品E", value: 160 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([[stats.numericFields.length === 0, "柱状图需要至少一个数值字段"]]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [rows.length < 2, "柱状图至少需要2个数据点"],
+        [countSeries(rows) < 1, "柱状图至少需要1个数值系列"],
+      ]),
+  },
+  {
+    type: LINE,
+    label: { en: "Line chart", zh: "折线图" },
+    renderer: { name: "BeautifulLineChart", icon: LineChart },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个数据点来显示趋势",
+      formats: ["standard"],
+    },
+    keywords: {
+      explicit: ["line", "line chart", "折线", "折线图", "趋势", "走势", "曲线", "line graph"],
+      hints: [
+        "line",
+        "line chart",
+        "line graph",
+        "trend",
+        "timeline",
+        "over time",
+        "growth",
+        "decline",
+        "走势",
+        "趋势",
+        "折线",
+        "变化",
+      ],
+    },
+    prompt: {
+      summary: "折线图，适合显示趋势变化",
+      mapping: "折线图，用于显示趋势和时间序列变化。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "series",
+          label: "Line Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "lineCurveType",
+          label: "Curve Type",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "monotone",
+          options: LINE_CURVE_TYPES,
+        },
+        {
+          key: "lineShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "lineShowDots",
+          label: "Show Points",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "lineDotSize",
+          label: "Point Size",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 6,
+          range: CHART_CONFIG_RANGES.DOT_SIZE,
+          unit: "px",
+          dependsOn: "lineShowDots",
+        },
+        {
+          key: "lineDotVariant",
+          label: "Point Style",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "default",
+          options: LINE_DOT_VARIANTS,
+          dependsOn: "lineShowDots",
+        },
+      ],
+    },
+    sampleData: [
+      { time: "1月", value: 150 },
+      { time: "2月", value: 180 },
+      { time: "3月", value: 160 },
+      { time: "4月", value: 220 },
+      { time: "5月", value: 200 },
+      { time: "6月", value: 250 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([[stats.numericFields.length === 0, "折线图需要至少一个数值字段"]]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [rows.length < 2, "折线图至少需要2个数据点"],
+        [countSeries(rows) < 1, "折线图至少需要1个数值系列"],
+      ]),
+  },
+  {
+    type: PIE,
+    label: { en: "Pie chart", zh: "饼图" },
+    renderer: { name: "BeautifulPieChart", icon: PieChart },
+    dataRequirements: {
+      minDataPoints: 1,
+      reason: "可以显示单个数据点的占比",
+      formats: ["pie", "standard"],
+    },
+    generation: {
+      outputFormat: "pie",
+    },
+    keywords: {
+      explicit: ["pie", "pie chart", "饼图", "饼状图", "占比", "比例", "份额", "donut"],
+      hints: [
+        "pie",
+        "donut",
+        "share",
+        "portion",
+        "ratio",
+        "percentage",
+        "percent",
+        "distribution",
+        "breakdown",
+        "composition",
+        "占比",
+        "比例",
+        "份额",
+        "饼图",
+      ],
+    },
+    prompt: {
+      summary: "饼图，适合显示比例关系",
+      mapping: "饼图，用于显示部分与整体的比例关系。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "series",
+          label: "Slice Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "showLegend",
+          label: "Show Legend",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "showPercentage",
+          label: "Show Labels",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "innerRadius",
+          label: "Inner Radius",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 0,
+          range: CHART_CONFIG_RANGES.INNER_RADIUS,
+          unit: "px",
+        },
+        {
+          key: "topN",
+          label: "Top N (0 = all)",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: TOP_N_DEFAULTS.pie,
+          range: CHART_CONFIG_RANGES.TOP_N,
+        },
+        {
+          key: "categorySort",
+          label: "Sort Categories",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "auto",
+          options: CATEGORY_SORT_MODES,
+        },
+      ],
+    },
+    sampleData: [
+      { category: "类别A", value: 35 },
+      { category: "类别B", value: 25 },
+      { category: "类别C", value: 20 },
+      { category: "类别D", value: 20 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([[stats.numericFields.length === 0, "饼图需要至少一个数值字段"]]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [
+          !isPieRows(rows) && Object.keys(rows[0] ?? {}).length < 2,
+          "饼图需要包含 name 和 value 字段，或标准的分类数据格式",
+        ],
+        [rows.length < 2, "饼图至少需要2个数据点"],
+      ]),
+  },
+  {
+    type: AREA,
+    label: { en: "Area chart", zh: "面积图" },
+    renderer: { name: "BeautifulAreaChart", icon: TrendingUp },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个数据点来显示面积变化",
+      formats: ["standard"],
+    },
+    keywords: {
+      explicit: ["area", "area chart", "面积图", "面积", "堆叠", "stacked"],
+      hints: [
+        "area",
+        "area chart",
+        "stacked",
+        "cumulative",
+        "filled",
+        "coverage",
+        "累计",
+        "面积",
+        "堆叠",
+      ],
+    },
+    prompt: {
+      summary: "面积图，适合显示累计数据",
+      mapping: "面积图，用于显示累积数据和多系列对比。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "series",
+          label: "Area Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+          hasStroke: true, // 区域图有边框颜色
+        },
+      ],
+      options: [
+        {
+          key: "areaShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "areaUseGradient",
+          label: "Gradient Fill",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "areaFillOpacity",
+          label: "Fill Opacity",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 0.6,
+          range: CHART_CONFIG_RANGES.OPACITY,
+          unit: "%",
+          formatter: (value: number) => Math.round(value * 100),
+        },
+      ],
+    },
+    sampleData: [
+      { time: "Q1", series1: 100, series2: 80 },
+      { time: "Q2", series1: 120, series2: 95 },
+      { time: "Q3", series1: 140, series2: 110 },
+      { time: "Q4", series1: 160, series2: 125 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([[stats.numericFields.length === 0, "面积图需要至少一个数值字段"]]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [rows.length < 2, "面积图至少需要2个数据点"],
+        [countSeries(rows) < 1, "面积图至少需要1个数值系列"],
+      ]),
+  },
+  {
+    type: RADAR,
+    label: { en: "Radar chart", zh: "雷达图" },
+    renderer: { name: "BeautifulRadarChart", icon: Radar },
+    dataRequirements: {
+      minDataPoints: 3,
+      reason: "雷达图至少需要三个维度来形成图形",
+      formats: ["standard"],
+    },
+    keywords: {
+      explicit: ["radar", "radar chart", "雷达", "蛛网", "极坐标", "spider"],
+      hints: ["radar", "spider", "star", "polar", "net", "雷达", "蛛网", "极坐标"],
+    },
+    prompt: {
+      summary: "雷达图，适合多维度对比",
+      mapping: "雷达图，用于比较多个定量变量在不同类别下的表现，适合多维数据对比。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "series",
+          label: "Radar Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+          hasStroke: true, // 雷达图有边框颜色
+        },
+      ],
+      options: [
+        {
+          key: "radarShowLegend",
+          label: "Show Legend",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "radarShowArea",
+          label: "Fill Area",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "radarShowDots",
+          label: "Show Points",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "radarFillOpacity",
+          label: "Fill Opacity",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 0.3,
+          range: CHART_CONFIG_RANGES.OPACITY,
+          unit: "%",
+          formatter: (value: number) => Math.round(value * 100),
+          dependsOn: "radarShowArea",
+        },
+        {
+          key: "radarStrokeWidth",
+          label: "Line Width",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 2,
+          range: CHART_CONFIG_RANGES.STROKE_WIDTH,
+          unit: "px",
+        },
+        {
+          key: "topN",
+          label: "Top N (0 = all)",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: TOP_N_DEFAULTS.radar,
+          range: CHART_CONFIG_RANGES.TOP_N,
+        },
+        {
+          key: "categorySort",
+          label: "Sort Categories",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "auto",
+          options: CATEGORY_SORT_MODES,
+        },
+      ],
+    },
+    sampleData: [
+      { dimension: "技能A", score: 85 },
+      { dimension: "技能B", score: 72 },
+      { dimension: "技能C", score: 68 },
+      { dimension: "技能D", score: 79 },
+      { dimension: "技能E", score: 91 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [stats.numericFields.length < 2, "雷达图需要至少两个数值字段用于比较"],
+        [stats.categoricalFields.length === 0, "雷达图需要分类字段作为轴标签"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [rows.length < 3, "雷达图至少需要3个数据点"],
+        [countSeries(rows) < 2, "雷达图至少需要2个数值系列用于比较"],
+      ]),
+  },
+  {
+    type: RADIAL,
+    label: { en: "Radial chart", zh: "径向图" },
+    renderer: { name: "BeautifulRadialChart", icon: Gauge },
+    dataRequirements: {
+      minDataPoints: 1,
+      reason: "单指标分布即可展示环形占比",
+      formats: ["pie", "standard"],
+    },
+    generation: {
+      outputFormat: "pie",
+    },
+    keywords: {
+      explicit: [
+        "radial",
+        "radial chart",
+        "radial bar",
+        "radial bar chart",
+        "径向",
+        "环形",
+        "仪表",
+        "gauge",
+        "progress ring",
+      ],
+      hints: ["radial", "radial bar", "gauge", "circular", "环形", "径向", "仪表", "进度环"],
+    },
+    prompt: {
+      summary: "径向图，适合层次结构",
+      mapping: "径向图/玉玦图，用于在圆形布局中比较类别数值，适合少量分类的排名或对比。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "series",
+          label: "Ring Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+        {
+          key: "background",
+          label: "Track Background",
+          category: COLOR_CONFIG_CATEGORIES.BACKGROUND,
+        },
+      ],
+      options: [
+        {
+          key: "showLegend",
+          label: "Show Legend",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "radialShowLabels",
+          label: "Show Value Labels",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "radialInnerRadius",
+          label: "Inner Radius",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 45,
+          range: { min: 20, max: 100, step: 5 },
+          unit: "px",
+        },
+        {
+          key: "radialBarSize",
+          label: "Ring Width",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 20,
+          range: CHART_CONFIG_RANGES.BAR_SIZE,
+          unit: "px",
+        },
+        {
+          key: "radialCornerRadius",
+          label: "Corner Radius",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 10,
+          range: CHART_CONFIG_RANGES.CORNER_RADIUS,
+          unit: "px",
+        },
+        {
+          key: "topN",
+          label: "Top N (0 = all)",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: TOP_N_DEFAULTS.radial,
+          range: CHART_CONFIG_RANGES.TOP_N,
+        },
+        {
+          key: "categorySort",
+          label: "Sort Categories",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "auto",
+          options: CATEGORY_SORT_MODES,
+        },
+      ],
+    },
+    sampleData: [
+      { category: "一级", level: 1, value: 100 },
+      { category: "二级A", level: 2, value: 60 },
+      { category: "二级B", level: 2, value: 40 },
+      { category: "三级A", level: 3, value: 35 },
+      { category: "三级B", level: 3, value: 25 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [stats.numericFields.length === 0, "径向图需要一个数值字段"],
+        [stats.categoricalFields.length === 0, "径向图需要分类字段作为角度坐标"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [
+          !isPieRows(rows) && Object.keys(rows[0] ?? {}).length < 2,
+          "径向图需要包含 name 和 value 字段，或标准的分类数据格式",
+        ],
+        [rows.length < 2, "径向图建议至少包含2个数据点"],
+      ]),
+  },
+  {
+    type: SCATTER,
+    label: { en: "Scatter chart", zh: "散点图" },
+    renderer: { name: "BeautifulScatterChart", icon: ScatterChart },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个数据点来观察变量关系",
+      formats: ["standard"],
+    },
+    generation: {
+      singleMetric: true,
+      skipAggregation: true,
+    },
+    keywords: {
+      explicit: ["scatter", "scatter plot", "scatter chart", "散点", "散点图"],
+      hints: [
+        "scatter",
+        "scatter plot",
+        "correlation",
+        "correlate",
+        "relationship between",
+        "track",
+        "散点",
+        "相关",
+        "关联",
+      ],
+    },
+    prompt: {
+      summary: "散点图，适合展示两个数值变量之间的相关性",
+      mapping: "散点图，用于观察两个数值变量之间的相关关系，xAxis 和 yAxis 都必须是数值字段。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "series",
+          label: "Point Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "scatterShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "scatterShowTrendLine",
+          label: "Show Trend Line",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: false,
+        },
+        {
+          key: "scatterDotSize",
+          label: "Point Size",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 8,
+          range: CHART_CONFIG_RANGES.DOT_SIZE,
+          unit: "px",
+        },
+        {
+          key: "scatterFillOpacity",
+          label: "Fill Opacity",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 0.75,
+          range: CHART_CONFIG_RANGES.OPACITY,
+          unit: "%",
+          formatter: (value: number) => Math.round(value * 100),
+        },
+      ],
+    },
+    sampleData: [
+      { 广告投入: 12, 销售额: 150 },
+      { 广告投入: 18, 销售额: 210 },
+      { 广告投入: 25, 销售额: 260 },
+      { 广告投入: 31, 销售额: 330 },
+      { 广告投入: 40, 销售额: 390 },
+      { 广告投入: 46, 销售额: 470 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [stats.numericFields.length < 2, "散点图需要至少两个数值字段分别作为X轴和Y轴"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [rows.length < 2, "散点图至少需要2个数据点"],
+        [countKeysOfType(rows, "number") < 2, "散点图至少需要2个数值字段"],
+      ]),
+  },
+  {
+    type: BUBBLE,
+    label: { en: "Bubble chart", zh: "气泡图" },
+    renderer: { name: "BeautifulScatterChart", icon: CircleDot },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个数据点来观察变量关系",
+      formats: ["standard"],
+    },
+    generation: {
+      singleMetric: true,
+      skipAggregation: true,
+    },
+    keywords: {
+      explicit: ["bubble", "bubble chart", "气泡", "气泡图"],
+      hints: ["bubble", "bubble chart", "sized by", "气泡", "大小表示"],
+    },
+    prompt: {
+      summary: "气泡图，在散点图基础上用气泡大小表示第三个数值变量",
+      mapping: "气泡图，在散点图基础上用第三个数值字段（sizeBy）表示气泡大小。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "series",
+          label: "Bubble Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "scatterShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "scatterShowTrendLine",
+          label: "Show Trend Line",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: false,
+        },
+        {
+          key: "bubbleMinSize",
+          label: "Min Bubble Size",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 60,
+          range: CHART_CONFIG_RANGES.BUBBLE_SIZE,
+          unit: "px²",
+        },
+        {
+          key: "bubbleMaxSize",
+          label: "Max Bubble Size",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 600,
+          range: CHART_CONFIG_RANGES.BUBBLE_SIZE,
+          unit: "px²",
+        },
+        {
+          key: "scatterFillOpacity",
+          label: "Fill Opacity",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 0.6,
+          range: CHART_CONFIG_RANGES.OPACITY,
+          unit: "%",
+          formatter: (value: number) => Math.round(value * 100),
+        },
+      ],
+    },
+    sampleData: [
+      { 产品: "产品A", 价格: 120, 销量: 340, 利润: 45 },
+      { 产品: "产品B", 价格: 80, 销量: 520, 利润: 60 },
+      { 产品: "产品C", 价格: 200, 销量: 150, 利润: 38 },
+      { 产品: "产品D", 价格: 150, 销量: 260, 利润: 52 },
+      { 产品: "产品E", 价格: 60, 销量: 610, 利润: 41 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [stats.numericFields.length < 3, "气泡图需要至少三个数值字段（X轴、Y轴和气泡大小）"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [rows.length < 2, "气泡图至少需要2个数据点"],
+        [countKeysOfType(rows, "number") < 3, "气泡图至少需要3个数值字段"],
+      ]),
+  },
+  {
+    type: COMBO,
+    label: { en: "Combo chart", zh: "组合图" },
+    renderer: { name: "BeautifulComboChart", icon: ChartNoAxesCombined },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个数据点来对比多个指标",
+      formats: ["standard"],
+    },
+    keywords: {
+      explicit: [
+        "combo",
+        "combo chart",
+        "combined chart",
+        "dual axis",
+        "secondary axis",
+        "组合图",
+        "双轴",
+        "双y轴",
+        "次坐标",
+      ],
+      hints: [
+        "combo",
+        "dual axis",
+        "secondary axis",
+        "bar and line",
+        "bars and line",
+        "组合图",
+        "双轴",
+        "柱线",
+      ],
+    },
+    prompt: {
+      summary: "组合图，柱形与折线组合，适合量级差异大的指标（如收入与利润率）使用双Y轴对比",
+      mapping:
+        "组合图，每个数值系列可选择柱形(bar)/折线(line)/面积(area)，并分配到左(left)或右(right)Y轴；指标量级相差很大（如收入与利润率）时使用。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "series",
+          label: "Series Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "comboSeries",
+          label: "Series Layout",
+          type: CHART_CONFIG_TYPES.SERIES_ASSIGNMENT,
+          defaultValue: {},
+        },
+        {
+          key: "comboShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "comboBarRadius",
+          label: "Bar Radius",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 4,
+          range: CHART_CONFIG_RANGES.BAR_RADIUS,
+          unit: "px",
+        },
+        {
+          key: "comboShowDots",
+          label: "Show Line Points",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+      ],
+    },
+    sampleData: [
+      { month: "1月", 收入: 125000, 利润率: 18.5 },
+      { month: "2月", 收入: 138000, 利润率: 20.1 },
+      { month: "3月", 收入: 142000, 利润率: 19.4 },
+      { month: "4月", 收入: 156000, 利润率: 22.3 },
+      { month: "5月", 收入: 149000, 利润率: 21.0 },
+      { month: "6月", 收入: 171000, 利润率: 23.6 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([[stats.numericFields.length < 2, "组合图需要至少两个数值字段"]]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [rows.length < 2, "组合图至少需要2个数据点"],
+        [countSeries(rows) < 2, "组合图至少需要2个数值系列"],
+      ]),
+  },
+  {
+    type: HEATMAP,
+    label: { en: "Heatmap", zh: "热力图" },
+    renderer: { name: "BeautifulHeatmapChart", icon: Grid3x3 },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个单元格才能体现颜色深浅差异",
+      formats: ["standard"],
+    },
+    generation: {
+      singleMetric: true,
+    },
+    keywords: {
+      explicit: ["heatmap", "heat map", "热力图", "热图"],
+      hints: ["heatmap", "heat map", "matrix", "热力图", "热图", "矩阵"],
+    },
+    prompt: {
+      summary: "热力图，以两个分类维度为行列、颜色深浅表示数值，适合矩阵型数据（如地区×月份销量）",
+      mapping:
+        "热力图，xAxis 为列维度、colorBy 为行维度（两者都是分类或时间字段，colorBy 必填），yAxis 只包含一个数值字段，用颜色深浅表示数值大小。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "series",
+          label: "Scale Color",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "heatmapColorScale",
+          label: "Color Scale",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "sequential",
+          options: HEATMAP_COLOR_SCALES,
+        },
+        {
+          key: "heatmapShowValues",
+          label: "Show Values",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "heatmapShowLegend",
+          label: "Show Legend",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "heatmapCellGap",
+          label: "Cell Gap",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 2,
+          range: CHART_CONFIG_RANGES.CELL_GAP,
+          unit: "px",
+        },
+      ],
+    },
+    sampleData: [
+      { region: "华东", month: "1月", sales: 320 },
+      { region: "华东", month: "2月", sales: 280 },
+      { region: "华东", month: "3月", sales: 360 },
+      { region: "华南", month: "1月", sales: 210 },
+      { region: "华南", month: "2月", sales: 260 },
+      { region: "华南", month: "3月", sales: 240 },
+      { region: "华北", month: "1月", sales: 150 },
+      { region: "华北", month: "2月", sales: 190 },
+      { region: "华北", month: "3月", sales: 230 },
+    ],
+    validateData: (data, intent) => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [
+          Boolean(intent && !intent.visualMapping.colorBy),
+          "热力图需要指定第二个分类字段（colorBy）作为行维度",
+        ],
+        [stats.numericFields.length === 0, "热力图需要一个数值字段来决定单元格颜色"],
+        [
+          stats.categoricalFields.length + stats.dateFields.length < 2,
+          "热力图需要两个分类或时间字段分别作为行和列",
+        ],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [
+          countKeysOfType(rows, "string") < 2 || !hasNumericSeries(rows),
+          "热力图需要2个分类字段和1个数值字段",
+        ],
+      ]),
+  },
+  {
+    type: WATERFALL,
+    label: { en: "Waterfall chart", zh: "瀑布图" },
+    renderer: { name: "BeautifulWaterfallChart", icon: ChartColumnDecreasing },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个步骤来展示累计变化",
+      formats: ["standard"],
+    },
+    generation: {
+      singleMetric: true,
+    },
+    keywords: {
+      explicit: ["waterfall", "waterfall chart", "bridge", "瀑布图", "瀑布", "桥图"],
+      hints: ["waterfall", "bridge", "running total", "variance", "瀑布", "增减", "利润桥"],
+    },
+    prompt: {
+      summary: "瀑布图，展示从期初到期末的逐项增减（如季度利润桥），区分增加、减少与合计",
+      mapping:
+        '瀑布图，xAxis 为步骤名称，yAxis 只包含一个表示变化量的数值字段（正数为增加、负数为减少，名称含"合计/期初/期末/Total"的行作为合计柱）。',
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "increase",
+          label: "Increase Color",
+          category: COLOR_CONFIG_CATEGORIES.INCREASE,
+        },
+        {
+          key: "decrease",
+          label: "Decrease Color",
+          category: COLOR_CONFIG_CATEGORIES.DECREASE,
+        },
+        {
+          key: "total",
+          label: "Total Color",
+          category: COLOR_CONFIG_CATEGORIES.TOTAL,
+        },
+      ],
+      options: [
+        {
+          key: "waterfallShowTotal",
+          label: "Show Ending Total",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "waterfallShowConnectors",
+          label: "Show Connectors",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "waterfallShowValues",
+          label: "Show Value Labels",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "waterfallShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "waterfallBarRadius",
+          label: "Corner Radius",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 4,
+          range: CHART_CONFIG_RANGES.BAR_RADIUS,
+          unit: "px",
+        },
+      ],
+    },
+    sampleData: [
+      { label: "期初利润", value: 1200 },
+      { label: "收入增长", value: 450 },
+      { label: "成本上升", value: -180 },
+      { label: "汇率影响", value: -60 },
+      { label: "其他", value: 40 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [stats.numericFields.length === 0, "瀑布图需要一个数值字段表示各步骤的变化量"],
+        [
+          stats.categoricalFields.length === 0 && stats.dateFields.length === 0,
+          "瀑布图需要分类或时间字段作为步骤名称",
+        ],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [rows.length < 2, "瀑布图至少需要2个步骤"],
+        [!hasNumericSeries(rows), "瀑布图需要1个数值字段表示变化量"],
+      ]),
+  },
+  {
+    type: FUNNEL,
+    label: { en: "Funnel chart", zh: "漏斗图" },
+    renderer: { name: "BeautifulFunnelChart", icon: Filter },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个阶段才能计算转化率",
+      formats: ["pie", "standard"],
+    },
+    generation: {
+      singleMetric: true,
+      outputFormat: "pie",
+    },
+    keywords: {
+      explicit: ["funnel", "funnel chart", "conversion funnel", "漏斗", "漏斗图", "转化漏斗"],
+      hints: ["funnel", "conversion", "drop-off", "drop off", "漏斗", "转化", "流失"],
+    },
+    prompt: {
+      summary: "漏斗图，按顺序展示各阶段数量及阶段间转化率（如注册转化漏斗）",
+      mapping:
+        "漏斗图，xAxis 为阶段名称（按漏斗顺序排列），yAxis 只包含一个表示各阶段数量的数值字段，用于展示阶段间转化率。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "series",
+          label: "Stage Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "funnelShowConversion",
+          label: "Show Conversion Rate",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "funnelConversionBase",
+          label: "Conversion Base",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "previous",
+          options: FUNNEL_CONVERSION_BASES,
+          dependsOn: "funnelShowConversion",
+        },
+        {
+          key: "funnelShowValues",
+          label: "Show Values",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+      ],
+    },
+    sampleData: [
+      { name: "访问", value: 10000 },
+      { name: "注册", value: 4200 },
+      { name: "激活", value: 2600 },
+      { name: "付费", value: 900 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [stats.numericFields.length === 0, "漏斗图需要一个数值字段表示各阶段数量"],
+        [stats.categoricalFields.length === 0, "漏斗图需要分类字段作为阶段名称"],
+        [data.data.length > 12, "漏斗图阶段过多（超过12个），建议使用柱状图"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [
+          !isPieRows(rows) && Object.keys(rows[0] ?? {}).length < 2,
+          "漏斗图需要包含 name 和 value 字段，或标准的分类数据格式",
+        ],
+        [rows.length < 2, "漏斗图至少需要2个阶段"],
+      ]),
+  },
+  {
+    type: HISTOGRAM,
+    label: { en: "Histogram", zh: "直方图" },
+    renderer: { name: "BeautifulHistogramChart", icon: ChartColumn },
+    dataRequirements: {
+      minDataPoints: 5,
+      reason: "需要足够多的观测值才能体现分布形态",
+      formats: ["pie", "standard"],
+    },
+    generation: {
+      singleMetric: true,
+      skipAggregation: true,
+    },
+    keywords: {
+      explicit: ["histogram", "frequency distribution", "直方图", "频数分布", "频率分布"],
+      hints: ["histogram", "frequency", "bins", "直方图", "频数", "分箱"],
+    },
+    prompt: {
+      summary: "直方图，将单个数值字段的原始观测值分箱计数，展示数值分布形态（如订单金额分布）",
+      mapping:
+        "直方图，适用于原始观测值（未聚合的明细行），xAxis 与 yAxis[0] 都填同一个数值字段，系统自动分箱计数。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "series",
+          label: "Bar Color",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "histogramBinMethod",
+          label: "Bin Rule",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "auto",
+          options: HISTOGRAM_BIN_METHODS,
+        },
+        {
+          key: "histogramBinCount",
+          label: "Bin Count (0 = rule)",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 0,
+          range: CHART_CONFIG_RANGES.BIN_COUNT,
+        },
+        {
+          key: "histogramShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "histogramShowMean",
+          label: "Show Mean Line",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+      ],
+    },
+    sampleData: [
+      { 订单金额: 38 },
+      { 订单金额: 52 },
+      { 订单金额: 61 },
+      { 订单金额: 64 },
+      { 订单金额: 70 },
+      { 订单金额: 73 },
+      { 订单金额: 75 },
+      { 订单金额: 79 },
+      { 订单金额: 82 },
+      { 订单金额: 85 },
+      { 订单金额: 88 },
+      { 订单金额: 91 },
+      { 订单金额: 96 },
+      { 订单金额: 104 },
+      { 订单金额: 118 },
+      { 订单金额: 135 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [stats.numericFields.length === 0, "直方图需要一个数值字段作为观测值"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [countKeysOfType(rows, "number") === 0, "直方图需要1个数值字段表示观测值"],
+        [rows.length < 2, "直方图至少需要2个观测值"],
+      ]),
+  },
+  {
+    type: BOXPLOT,
+    label: { en: "Box plot", zh: "箱线图" },
+    renderer: { name: "BeautifulBoxPlotChart", icon: BoxSelect },
+    dataRequirements: {
+      minDataPoints: 4,
+      reason: "需要至少四个观测值才能计算四分位数",
+      formats: ["pie", "standard"],
+    },
+    generation: {
+      singleMetric: true,
+      skipAggregation: true,
+    },
+    keywords: {
+      explicit: ["boxplot", "box plot", "box-and-whisker", "箱线图", "箱形图", "盒须图"],
+      hints: [
+        "boxplot",
+        "box plot",
+        "box-and-whisker",
+        "quartile",
+        "outlier",
+        "箱线图",
+        "四分位",
+        "异常值",
+      ],
+    },
+    prompt: {
+      summary: "箱线图，按分类展示数值的中位数、四分位数与异常值（如各地区客单价分布对比）",
+      mapping:
+        "箱线图，适用于原始观测值，xAxis 为分组的分类字段（无分组时填数值字段本身），yAxis 只包含一个数值字段，展示中位数、四分位数与异常值。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "series",
+          label: "Box Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "boxplotShowOutliers",
+          label: "Show Outliers",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "boxplotShowMean",
+          label: "Show Mean",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: false,
+        },
+        {
+          key: "boxplotShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+      ],
+    },
+    sampleData: [
+      { region: "华东", 客单价: 182 },
+      { region: "华东", 客单价: 205 },
+      { region: "华东", 客单价: 219 },
+      { region: "华东", 客单价: 236 },
+      { region: "华东", 客单价: 410 },
+      { region: "华南", 客单价: 150 },
+      { region: "华南", 客单价: 168 },
+      { region: "华南", 客单价: 174 },
+      { region: "华南", 客单价: 191 },
+      { region: "华南", 客单价: 203 },
+      { region: "华北", 客单价: 122 },
+      { region: "华北", 客单价: 140 },
+      { region: "华北", 客单价: 156 },
+      { region: "华北", 客单价: 161 },
+      { region: "华北", 客单价: 177 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [stats.numericFields.length === 0, "箱线图需要一个数值字段作为观测值"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [countKeysOfType(rows, "number") === 0, "箱线图需要1个数值字段表示观测值"],
+        [rows.length < 4, "箱线图至少需要4个观测值"],
+      ]),
+  },
+  {
+    type: TREEMAP,
+    label: { en: "Treemap", zh: "矩形树图" },
+    renderer: { name: "BeautifulTreemapChart", icon: LayoutDashboard },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个节点才能体现层级占比",
+      formats: ["pie", "standard"],
+    },
+    generation: {
+      skipAggregation: true,
+    },
+    keywords: {
+      explicit: ["treemap", "tree map", "矩形树图", "树图", "树状图"],
+      hints: ["treemap", "tree map", "hierarchy", "hierarchical", "矩形树图", "树图", "层级"],
+    },
+    prompt: {
+      summary: "矩形树图，按多级分类（如品类→子类→商品）嵌套展示，矩形面积表示数值大小",
+      mapping:
+        "矩形树图，适用于嵌套的分类层级（如品类→子类→商品），hierarchy 按从外到内列出层级字段，xAxis 为最外层字段，yAxis 只包含一个表示面积的数值字段。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "series",
+          label: "Branch Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "treemapShowLabels",
+          label: "Show Labels",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "treemapShowValues",
+          label: "Show Values",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: false,
+          dependsOn: "treemapShowLabels",
+        },
+        {
+          key: "treemapCellGap",
+          label: "Cell Gap",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 2,
+          range: CHART_CONFIG_RANGES.CELL_GAP,
+          unit: "px",
+        },
+      ],
+    },
+    sampleData: [
+      { 品类: "数码", 子类: "手机", 商品: "旗舰机", 销售额: 4200 },
+      { 品类: "数码", 子类: "手机", 商品: "入门机", 销售额: 1800 },
+      { 品类: "数码", 子类: "电脑", 商品: "笔记本", 销售额: 3100 },
+      { 品类: "数码", 子类: "电脑", 商品: "平板", 销售额: 1500 },
+      { 品类: "家居", 子类: "家具", 商品: "沙发", 销售额: 2200 },
+      { 品类: "家居", 子类: "家具", 商品: "餐桌", 销售额: 900 },
+      { 品类: "家居", 子类: "厨具", 商品: "锅具", 销售额: 700 },
+      { 品类: "服饰", 子类: "男装", 商品: "外套", 销售额: 1300 },
+      { 品类: "服饰", 子类: "女装", 商品: "连衣裙", 销售额: 1600 },
+    ],
+    validateData: (data, intent) => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [
+          Boolean(intent && !intent.visualMapping.hierarchy?.length),
+          "层级图需要指定层级字段（hierarchy）",
+        ],
+        [stats.categoricalFields.length === 0, "矩形树图需要至少一个分类字段作为层级"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [
+          countKeysOfType(rows, "string") === 0 || countKeysOfType(rows, "number") === 0,
+          "矩形树图需要层级字段和1个数值尺寸字段",
+        ],
+      ]),
+  },
+  {
+    type: SUNBURST,
+    label: { en: "Sunburst", zh: "旭日图" },
+    renderer: { name: "BeautifulSunburstChart", icon: SunMedium },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个节点才能体现层级占比",
+      formats: ["pie", "standard"],
+    },
+    generation: {
+      skipAggregation: true,
+    },
+    keywords: {
+      explicit: ["sunburst", "sunburst chart", "旭日图", "多层饼图", "多层环形图"],
+      hints: ["sunburst", "旭日图", "旭日", "多层饼图", "多层环形"],
+    },
+    prompt: {
+      summary: "旭日图，以同心圆环由内向外展示多级分类的层级占比",
+      mapping: "旭日图，层级要求同 treemap，由内向外逐层展开，适合展示两到三级的层级占比。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "series",
+          label: "Branch Colors",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+      ],
+      options: [
+        {
+          key: "sunburstShowLabels",
+          label: "Show Labels",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "sunburstInnerRadius",
+          label: "Inner Radius",
+          type: CHART_CONFIG_TYPES.NUMBER,
+          defaultValue: 30,
+          range: CHART_CONFIG_RANGES.INNER_RADIUS,
+          unit: "px",
+        },
+      ],
+    },
+    sampleData: [
+      { 地区: "华东", 省份: "上海", 城市: "上海", 用户数: 5200 },
+      { 地区: "华东", 省份: "浙江", 城市: "杭州", 用户数: 3400 },
+      { 地区: "华东", 省份: "浙江", 城市: "宁波", 用户数: 1200 },
+      { 地区: "华南", 省份: "广东", 城市: "广州", 用户数: 3900 },
+      { 地区: "华南", 省份: "广东", 城市: "深圳", 用户数: 4600 },
+      { 地区: "华北", 省份: "北京", 城市: "北京", 用户数: 4800 },
+      { 地区: "华北", 省份: "河北", 城市: "石家庄", 用户数: 900 },
+    ],
+    validateData: (data, intent) => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [
+          Boolean(intent && !intent.visualMapping.hierarchy?.length),
+          "层级图需要指定层级字段（hierarchy）",
+        ],
+        [stats.categoricalFields.length === 0, "旭日图需要至少一个分类字段作为层级"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [
+          countKeysOfType(rows, "string") === 0 || countKeysOfType(rows, "number") === 0,
+          "旭日图需要层级字段和1个数值尺寸字段",
+        ],
+      ]),
+  },
+  {
+    type: CANDLESTICK,
+    label: { en: "Candlestick chart", zh: "K线图" },
+    renderer: { name: "BeautifulCandlestickChart", icon: CandlestickChart },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个周期才能体现价格走势",
+      formats: ["standard"],
+    },
+    generation: {
+      skipAggregation: true,
+    },
+    keywords: {
+      explicit: ["candlestick", "candlestick chart", "ohlc", "k线图", "k线", "蜡烛图"],
+      hints: ["candlestick", "ohlc", "k线", "蜡烛图", "股价", "行情"],
+    },
+    prompt: {
+      summary: "K线图，按日期展示开盘、最高、最低、收盘价（可附成交量），适合股票等金融时间序列",
+      mapping:
+        "K线图，数据包含开盘/最高/最低/收盘字段时优先使用（不要画成多条折线），xAxis 为日期字段，ohlc 指定各价格字段，成交量字段可选。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "grid",
+          label: "Grid Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+        {
+          key: "increase",
+          label: "Up Color",
+          category: COLOR_CONFIG_CATEGORIES.INCREASE,
+        },
+        {
+          key: "decrease",
+          label: "Down Color",
+          category: COLOR_CONFIG_CATEGORIES.DECREASE,
+        },
+      ],
+      options: [
+        {
+          key: "candlestickShowVolume",
+          label: "Show Volume Panel",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "candlestickShowGrid",
+          label: "Show Grid",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+      ],
+    },
+    sampleData: [
+      { date: "2024-03-01", open: 102.5, high: 105.2, low: 101.8, close: 104.6, volume: 18200 },
+      { date: "2024-03-04", open: 104.6, high: 106.0, low: 103.1, close: 103.4, volume: 15600 },
+      { date: "2024-03-05", open: 103.4, high: 104.1, low: 100.2, close: 100.9, volume: 21400 },
+      { date: "2024-03-06", open: 100.9, high: 102.7, low: 99.8, close: 102.3, volume: 17900 },
+      { date: "2024-03-07", open: 102.3, high: 107.4, low: 102.0, close: 106.8, volume: 26300 },
+      { date: "2024-03-08", open: 106.8, high: 108.1, low: 105.5, close: 107.2, volume: 19800 },
+      { date: "2024-03-11", open: 107.2, high: 107.9, low: 104.6, close: 105.1, volume: 16700 },
+      { date: "2024-03-12", open: 105.1, high: 106.3, low: 103.9, close: 106.0, volume: 14200 },
+    ],
+    validateData: (data, intent) => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [
+          Boolean(intent && !intent.visualMapping.ohlc),
+          "K线图需要指定开盘、最高、最低、收盘字段（ohlc）",
+        ],
+        [stats.numericFields.length < 4, "K线图需要开盘、最高、最低、收盘4个数值字段"],
+      ]);
+    },
+    validateRenderData: rows =>
+      collectIssues([
+        [!detectOhlcKeys(rows[0] ?? {}), "K线图需要开盘、最高、最低、收盘4个数值字段"],
+      ]),
+  },
+  {
+    type: CHOROPLETH,
+    label: { en: "Choropleth map", zh: "分级统计地图" },
+    renderer: { name: "BeautifulChoroplethChart", icon: MapIcon },
+    dataRequirements: {
+      minDataPoints: 2,
+      reason: "需要至少两个地区才能体现颜色深浅差异",
+      formats: ["pie", "standard"],
+    },
+    generation: {
+      singleMetric: true,
+    },
+    keywords: {
+      explicit: [
+        "choropleth",
+        "choropleth map",
+        "world map",
+        "country map",
+        "province map",
+        "filled map",
+        "地图",
+        "世界地图",
+        "中国地图",
+        "热力地图",
+        "分级统计图",
+        "分级统计地图",
+      ],
+      hints: [
+        "choropleth",
+        "world map",
+        "country map",
+        "by country",
+        "by province",
+        "地图",
+        "各国",
+        "各省",
+        "省份",
+      ],
+    },
+    prompt: {
+      summary:
+        "分级统计地图，按国家或中国省份着色展示数值（如各国销售额、各省用户数），地区字段为国家/省份名称或ISO编码",
+      mapping:
+        "分级统计地图，分类字段为国家或中国省份名称（中英文或ISO编码均可）时优先使用（不要画成几十根柱子），xAxis 为地区字段，yAxis 只包含一个用于着色的数值字段。",
+    },
+    configSchema: {
+      colors: [
+        {
+          key: "series",
+          label: "Scale Color",
+          category: COLOR_CONFIG_CATEGORIES.SERIES,
+          isArray: true,
+        },
+        {
+          key: "grid",
+          label: "No Data Color",
+          category: COLOR_CONFIG_CATEGORIES.GRID,
+        },
+      ],
+      options: [
+        {
+          key: "choroplethMap",
+          label: "Base Map",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "auto",
+          options: CHOROPLETH_MAPS,
+        },
+        {
+          key: "choroplethColorScale",
+          label: "Color Scale",
+          type: CHART_CONFIG_TYPES.SELECT,
+          defaultValue: "sequential",
+          options: HEATMAP_COLOR_SCALES,
+        },
+        {
+          key: "choroplethShowLegend",
+          label: "Show Legend",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+        {
+          key: "choroplethShowUnmatched",
+          label: "List Unmatched Regions",
+          type: CHART_CONFIG_TYPES.BOOLEAN,
+          defaultValue: true,
+        },
+      ],
+    },
+    sampleData: [
+      { country: "United States", sales: 4820 },
+      { country: "China", sales: 4310 },
+      { country: "Germany", sales: 2150 },
+      { country: "Japan", sales: 1980 },
+      { country: "United Kingdom", sales: 1640 },
+      { country: "France", sales: 1420 },
+      { country: "Brazil", sales: 1130 },
+      { country: "India", sales: 1080 },
+      { country: "Australia", sales: 860 },
+      { country: "Canada", sales: 790 },
+    ],
+    validateData: data => {
+      const stats = data.metadata.statistics;
+      return checkRequirements([
+        [
+          stats.categoricalFields.length === 0 || stats.numericFields.length === 0,
+          "地图需要一个地区字段（国家或省份名称）和一个数值字段",
+        ],
+      ]);
+    },
+    validateRenderData: rows => {
+      // 地区字段（名称或编码）至少要有一个取值能匹配到内置底图
+      const first = rows[0] ?? {};
+      const regionKey = Object.keys(first).find(key => typeof first[key] === "string");
+      if (!regionKey || countKeysOfType(rows, "number") === 0) {
+        return ["地图需要1个地区字段（名称或编码）和1个数值字段"];
+      }
+      return matchRegions(rows.map(row => row[regionKey])).matches.size === 0
+        ? ["地区字段中没有可识别的国家或省份名称"]
+        : [];
+    },
+  },
+];
@@ -0,0 +1,17 @@
+// 图表类型注册表 - 统一导出
+
+export { ChartTypeRegistry, chartTypeRegistry } from "./registry";
+export type { ChartKeywordKind } from "./registry";
+export { BUILTIN_CHART_PLUGINS } from "./builtin-plugins";
+export type {
+  ChartDataFormat,
+  ChartTypeLabel,
+  ChartPluginRendererProps,
+  ChartRendererDefinition,
+  ChartDataRequirements,
+  ChartKeywords,
+  ChartPromptDescription,
+  ChartDataValidation,
+  ChartGenerationTraits,
+  ChartTypePlugin,
+} from "./types";
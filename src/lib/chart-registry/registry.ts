@@ -0,0 +1,90 @@
+// 图表类型注册表
+// 集中管理每种图表的渲染器、数据要求、关键词、配置描述和预处理钩子
+
+import { ChartType } from "@/types/chart";
+import { ChartConfigSchema } from "@/types/chart-config";
+import { BUILTIN_CHART_PLUGINS } from "./builtin-plugins";
+import { ChartDataFormat, ChartTypePlugin } from "./types";
+
+export type ChartKeywordKind = "explicit" | "hints";
+
+const EMPTY_CONFIG_SCHEMA: ChartConfigSchema = { colors: [], options: [] };
+
+/**
+ * 图表类型注册表
+ * 内置图表在创建时注册；扩展图表需要在服务端与前端入口各注册一次
+ */
+export class ChartTypeRegistry {
+  private plugins = new Map<ChartType, ChartTypePlugin>();
+
+  constructor(plugins: readonly ChartTypePlugin[] = []) {
+    plugins.forEach(plugin => this.register(plugin));
+  }
+
+  /**
+   * 注册图表类型插件
+   */
+  register(plugin: ChartTypePlugin): void {
+    if (this.plugins.has(plugin.type)) {
+      throw new Error(`图表类型已注册: ${plugin.type}`);
+    }
+
+    this.plugins.set(plugin.type, plugin);
+  }
+
+  /**
+   * 注销图表类型插件，返回是否存在
+   */
+  unregister(type: ChartType): boolean {
+    return this.plugins.delete(type);
+  }
+
+  has(type: string): type is ChartType {
+    return this.plugins.has(type as ChartType);
+  }
+
+  get(type: ChartType): ChartTypePlugin | undefined {
+    return this.plugins.get(type);
+  }
+
+  /**
+   * 按注册顺序返回所有插件
+   */
+  getAll(): ChartTypePlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  getTypes(): ChartType[] {
+    return Array.from(this.plugins.keys());
+  }
+
+  /**
+   * 获取图表名称，未注册的类型返回类型标识本身
+   */
+  getLabel(type: ChartType, locale: "en" | "zh" = "en"): string {
+    return this.plugins.get(type)?.label[locale] ?? type;
+  }
+
+  getConfigSchema(type: ChartType): ChartConfigSchema {
+    return this.plugins.get(type)?.configSchema ?? EMPTY_CONFIG_SCHEMA;
+  }
+
+  getDataFormats(type: ChartType): readonly ChartDataFormat[] {
+    return this.plugins.get(type)?.dataRequirements.formats ?? [];
+  }
+
+  /**
+   * 获取各图表类型的关键词表
+   */
+  getKeywordMap(kind: ChartKeywordKind): Record<ChartType, readonly string[]> {
+    return this.getAll().reduce(
+      (acc, plugin) => {
+        acc[plugin.type] = plugin.keywords[kind];
+        return acc;
+      },
+      {} as Record<ChartType, readonly string[]>
+    );
+  }
+}
+
+export const chartTypeRegistry = new ChartTypeRegistry(BUILTIN_CHART_PLUGINS);
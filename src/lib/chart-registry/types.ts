@@ -0,0 +1,195 @@
+// 图表类型插件相关类型定义
+
+import type { ComponentType } from "react";
+import { ChartType } from "@/types/chart";
+import { ChartConfigSchema, UnifiedColorConfig } from "@/types/chart-config";
+import { FieldValueFormat } from "@/types/data";
+import type {
+  ChartConfig,
+  ChartIntent,
+  DataRow,
+  UnifiedDataStructure,
+} from "@/lib/ai-chart-system/types";
+
+/**
+ * 图表数据格式：standard 为 "分类 + 数值字段" 的行数据，pie 为 { name, value } 行数据
+ */
+export type ChartDataFormat = "standard" | "pie";
+
+/**
+ * 图表类型的中英文名称
+ */
+export interface ChartTypeLabel {
+  en: string;
+  zh: string;
+}
+
+/**
+ * 图表渲染组件接收的属性
+ * 插件图表与内置图表的适配组件统一使用该结构
+ */
+export interface ChartPluginRendererProps {
+  /** 图表类型；多个类型共用同一渲染组件时用于区分 */
+  type: ChartType;
+
+  /** 预处理后的图表数据 */
+  data: Record<string, unknown>[];
+
+  /** 系列配置（标签与颜色） */
+  config: Record<string, { label?: unknown; color?: string }>;
+
+  /** 图表标题 */
+  title?: string;
+
+  /** 图表描述 */
+  description?: string;
+
+  /** 颜色配置 */
+  colors: UnifiedColorConfig;
+
+  /** 图表选项：插件默认选项与用户配置合并后的结果 */
+  options: Record<string, unknown>;
+
+  /** 主色调 */
+  primaryColor?: string;
+
+  /** 数值轴范围（分面共享坐标轴时由外部统一指定） */
+  valueDomain?: [number, number];
+
+  /** 数值轴与数值标签的显示格式 */
+  valueFormat?: FieldValueFormat;
+
+  /** 右轴的显示格式 */
+  secondaryValueFormat?: FieldValueFormat;
+
+  /** 合并为 "Other" 的分类 */
+  foldedCategories?: string[];
+}
+
+/**
+ * 图表渲染器声明
+ */
+export interface ChartRendererDefinition {
+  /** 渲染组件名称，用于日志与调试 */
+  name: string;
+
+  /** 渲染组件；内置图表由 EnhancedChart 按渲染器名称解析为内置适配组件，无需提供 */
+  component?: ComponentType<ChartPluginRendererProps>;
+
+  /** 图表类型图标，用于类型切换按钮；缺省时使用柱状图图标 */
+  icon?: ComponentType<{ className?: string }>;
+}
+
+/**
+ * 图表数据要求
+ */
+export interface ChartDataRequirements {
+  /** 最少数据行数 */
+  minDataPoints: number;
+
+  /** 最少数据行数的原因说明 */
+  reason: string;
+
+  /** 渲染组件支持的数据格式 */
+  formats: readonly ChartDataFormat[];
+}
+
+/**
+ * 图表生成阶段的数据处理方式
+ */
+export interface ChartGenerationTraits {
+  /** 只使用第一个数值字段，其余数值字段不参与映射 */
+  singleMetric?: boolean;
+
+  /** 需要逐条观测值或自行汇总，不做分组聚合 */
+  skipAggregation?: boolean;
+
+  /** 生成结果的数据格式，缺省为 standard */
+  outputFormat?: ChartDataFormat;
+}
+
+/**
+ * 图表关键词
+ */
+export interface ChartKeywords {
+  /** 用户明确指定图表类型时使用的词（如 "柱状图"），命中时覆盖AI推荐 */
+  explicit: readonly string[];
+
+  /** 暗示适合该图表的词（如 "趋势"、"占比"），用于启发式评分 */
+  hints: readonly string[];
+}
+
+/**
+ * 图表在AI提示词中的说明
+ */
+export interface ChartPromptDescription {
+  /** 一句话用途说明，用于纯文本意图分析 */
+  summary: string;
+
+  /** 字段映射要求，用于带数据的意图分析；缺省时使用 summary */
+  mapping?: string;
+}
+
+/**
+ * 数据校验结果：issues 为阻断性问题，suggestions 为改进建议
+ */
+export interface ChartDataValidation {
+  issues: string[];
+  suggestions: string[];
+}
+
+/**
+ * 图表类型插件
+ */
+export interface ChartTypePlugin {
+  /** 图表类型标识；新增的插件类型使用 "x-" 前缀 */
+  type: ChartType;
+
+  /** 图表名称 */
+  label: ChartTypeLabel;
+
+  /** 渲染器 */
+  renderer: ChartRendererDefinition;
+
+  /** 数据要求 */
+  dataRequirements: ChartDataRequirements;
+
+  /** 生成阶段的数据处理方式 */
+  generation?: ChartGenerationTraits;
+
+  /** 关键词 */
+  keywords: ChartKeywords;
+
+  /** AI提示词说明 */
+  prompt: ChartPromptDescription;
+
+  /** 配置面板描述 */
+  configSchema?: ChartConfigSchema;
+
+  /** 默认选项，覆盖配置描述中的默认值 */
+  defaultOptions?: Record<string, unknown>;
+
+  /** 无数据时用于演示的模板数据 */
+  sampleData?: readonly DataRow[];
+
+  /** 作为分类标签而非数值系列的字段名，用于从图表数据中推断系列 */
+  categoricalKeys?: readonly string[];
+
+  /** 数据预处理钩子：返回图表使用的数据行，替代默认的字段映射 */
+  preprocess?: (data: UnifiedDataStructure, intent: ChartIntent) => DataRow[];
+
+  /**
+   * 数据兼容性校验钩子：图表生成阶段对所有类型生效（附带意图，可校验字段映射）；
+   * 意图分析阶段仅用于扩展类型，内置类型另有附带建议的检查
+   */
+  validateData?: (data: UnifiedDataStructure, intent?: ChartIntent) => ChartDataValidation;
+
+  /** 图表配置钩子：在默认配置上调整坐标轴、图例等（图表生成阶段） */
+  configureChart?: (config: ChartConfig, data: UnifiedDataStructure, intent: ChartIntent) => void;
+
+  /** 数据洞察钩子：返回该图表特有的洞察，追加在通用统计洞察之后 */
+  generateInsights?: (data: DataRow[], intent: ChartIntent) => string[];
+
+  /** 渲染数据校验钩子（前端渲染阶段），返回错误信息列表 */
+  validateRenderData?: (data: Record<string, unknown>[]) => string[];
+}
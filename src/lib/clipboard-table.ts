@@ -0,0 +1,101 @@
+/**
+ * 剪贴板表格识别
+ * 识别从 Excel、Google Sheets 或网页复制的表格（制表符分隔文本或 HTML 表格），
+ * 转换为 TSV 文本，作为内联数据附件走文件解析流程
+ */
+
+import { parseCsvRecords } from "@/lib/csv-parser";
+
+/** 识别为表格所需的最少行数（含表头） */
+const MIN_TABLE_ROWS = 2;
+
+/** 识别为表格所需的最少列数 */
+const MIN_TABLE_COLUMNS = 2;
+
+/** 列数与首行一致的行所占的最低比例 */
+const MIN_CONSISTENT_RATIO = 0.8;
+
+export interface ClipboardTable {
+  rows: string[][];
+  /** 表格来源：制表符分隔的纯文本或 HTML 表格 */
+  source: "text" | "html";
+}
+
+function isTable(rows: string[][]): boolean {
+  if (rows.length < MIN_TABLE_ROWS || rows[0].length < MIN_TABLE_COLUMNS) return false;
+
+  const consistent = rows.filter(row => row.length === rows[0].length).length;
+  return consistent / rows.length >= MIN_CONSISTENT_RATIO;
+}
+
+/**
+ * 解析制表符分隔的文本（Excel 复制的单元格内容可能带引号与换行），不是表格时返回 null
+ */
+export function parseTabularText(text: string): string[][] | null {
+  if (!text.includes("\t")) return null;
+
+  const rows = parseCsvRecords(text, "\t", '"')
+    .records.map(record => record.fields)
+    .filter(fields => fields.some(field => field.trim() !== ""));
+
+  return isTable(rows) ? rows : null;
+}
+
+/**
+ * 解析 HTML 中规模最大的表格，合并单元格的值填充到整个合并区域；不是表格时返回 null
+ * 依赖浏览器的 DOMParser，仅在客户端使用
+ */
+export function parseHtmlTable(html: string): string[][] | null {
+  if (!/<table[\s>]/i.test(html) || typeof DOMParser === "undefined") return null;
+
+  const document = new DOMParser().parseFromString(html, "text/html");
+  const tables = Array.from(document.querySelectorAll("table")).map(table => {
+    const grid: string[][] = [];
+    Array.from(table.rows).forEach((row, rowIndex) => {
+      grid[rowIndex] = grid[rowIndex] ?? [];
+      let column = 0;
+      Array.from(row.cells).forEach(cell => {
+        while (grid[rowIndex][column] !== undefined) column++;
+        const text = (cell.textContent ?? "").replace(/\s+/g, " ").trim();
+        for (let r = 0; r < Math.max(1, cell.rowSpan); r++) {
+          grid[rowIndex + r] = grid[rowIndex + r] ?? [];
+          for (let c = 0; c < Math.max(1, cell.colSpan); c++) {
+            grid[rowIndex + r][column + c] = text;
+          }
+        }
+        column += Math.max(1, cell.colSpan);
+      });
+    });
+
+    return grid
+      .map(row => Array.from(row, cell => cell ?? ""))
+      .filter(row => row.some(cell => cell !== ""));
+  });
+
+  const largest = tables.sort(
+    (a, b) => b.length * (b[0]?.length ?? 0) - a.length * (a[0]?.length ?? 0)
+  )[0];
+  return largest && isTable(largest) ? largest : null;
+}
+
+/**
+ * 识别剪贴板中的表格：优先使用制表符分隔的纯文本（保留原始取值），其次使用 HTML 表格
+ */
+export function detectClipboardTable(clipboard: DataTransfer): ClipboardTable | null {
+  const textRows = parseTabularText(clipboard.getData("text/plain"));
+  if (textRows) return { rows: textRows, source: "text" };
+
+  const htmlRows = parseHtmlTable(clipboard.getData("text/html"));
+  return htmlRows ? { rows: htmlRows, source: "html" } : null;
+}
+
+/**
+ * 将表格转换为 TSV 文本，含制表符、换行或引号的单元格加引号转义
+ */
+export function toTsv(rows: string[][]): string {
+  return rows
+    .map(row =>
+      row.map(cell => (/[\t\r\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join("\t")
+    )
+    .join("\n");
+}
@@ -283,6 +283,70 @@ export const ensureChartTheme = (
   };
 };
 
+const interpolateHex = (from: string, to: string, ratio: number): string => {
+  const start = hexToRgb(from);
+  const end = hexToRgb(to);
+  const t = clamp(ratio);
+
+  return rgbToHex({
+    r: start.r + (end.r - start.r) * t,
+    g: start.g + (end.g - start.g) * t,
+    b: start.b + (end.b - start.b) * t,
+  });
+};
+
+/**
+ * 生成热力图色阶
+ * 顺序色阶从主色的浅色背景过渡到深色主色；
+ * 发散色阶以浅色为中点，负向一侧使用主色的互补色调色板
+ * @param baseColor 基础颜色
+ * @param diverging 是否使用发散色阶
+ * @returns 按数值从小到大排列的色阶节点
+ */
+export const createHeatmapColorStops = (baseColor: string, diverging = false): string[] => {
+  const palette = createChartPalette(baseColor, 1);
+  const positiveStops = [palette.primarySoft, palette.primary, palette.primaryStrong];
+
+  if (!diverging) {
+    return [palette.background, ...positiveStops];
+  }
+
+  const complement = hslToHex(applyAdjustment(rgbToHsl(hexToRgb(palette.primary)), { hue: 180 }));
+  const negativePalette = createChartPalette(complement, 1);
+
+  return [
+    negativePalette.primaryStrong,
+    negativePalette.primary,
+    negativePalette.primarySoft,
+    palette.background,
+    ...positiveStops,
+  ];
+};
+
+/**
+ * 在色阶上按 0-1 的位置取色
+ */
+export const interpolateColorStops = (stops: string[], position: number): string => {
+  if (stops.length === 0) {
+    return DEFAULT_CHART_BASE_COLOR;
+  }
+  if (stops.length === 1) {
+    return stops[0];
+  }
+
+  const scaled = clamp(position) * (stops.length - 1);
+  const index = Math.min(Math.floor(scaled), stops.length - 2);
+  return interpolateHex(stops[index], stops[index + 1], scaled - index);
+};
+
+/**
+ * 调亮颜色，用于层级图表中逐层变浅的子节点
+ * @param color 基础颜色
+ * @param amount 亮度增量 (0-1)
+ */
+export const lightenHexColor = (color: string, amount: number): string =>
+  hslToHex(applyAdjustment(rgbToHsl(hexToRgb(color)), { lightness: amount }));
+
 export type SeriesColorMap = Record<string, string>;
 
 export const mapSeriesKeysToColors = (keys: string[], palette: ChartPalette): SeriesColorMap => {
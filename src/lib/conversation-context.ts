@@ -114,7 +114,7 @@ export function mapChartToSnapshot(chart: ChartResultContent): ConversationChart
     title: chart.title,
     description: chart.description,
     data: sanitizeChartData(chart.chartData),
-    config: sanitizeConfig(chart.chartConfig),
+    config: omitAggregationSource(sanitizeConfig(chart.chartConfig)),
     theme: chart.theme,
     imageInfo: chart.imageInfo
       ? {
@@ -165,6 +165,19 @@ export function sanitizeConfig(config: Record<string, any>): Record<string, any>
   }
 }
 
+/**
+ * 聚合前的原始取值只供配置面板重新聚合，不随对话上下文发送
+ */
+function omitAggregationSource(config: Record<string, any>): Record<string, any> {
+  if (!config.aggregation?.source) {
+    return config;
+  }
+
+  const aggregation = { ...config.aggregation };
+  delete aggregation.source;
+  return { ...config, aggregation };
+}
+
 function findLastChartContent(session: SingleChatSession): ChartResultContent | undefined {
   for (let i = session.messages.length - 1; i >= 0; i -= 1) {
     const message = session.messages[i];
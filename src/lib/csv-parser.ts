@@ -0,0 +1,417 @@
+/**
+ * CSV/TSV 解析工具
+ * 按 RFC 4180 解析带引号、转义引号和字段内换行的分隔文本，
+ * 并自动识别文本编码、分隔符、引号字符以及是否包含表头
+ */
+
+import type { DataRow, DataValue } from "@/lib/ai-chart-system/types";
+
+/** 候选分隔符，识别结果相同时按此顺序优先 */
+export const CSV_DELIMITER_CANDIDATES = [",", "\t", ";", "|"] as const;
+
+/** 候选引号字符 */
+export const CSV_QUOTE_CANDIDATES = ['"', "'"] as const;
+
+/** 识别分隔符、引号与表头时采样的记录数 */
+const SNIFF_RECORD_LIMIT = 50;
+
+/** 最多逐条列出的问题行数，其余合并为一条汇总 */
+const MAX_ROW_WARNINGS = 20;
+
+export type CsvDelimiter = (typeof CSV_DELIMITER_CANDIDATES)[number];
+export type CsvQuote = (typeof CSV_QUOTE_CANDIDATES)[number];
+export type TextEncodingName = "utf-8" | "utf-16le" | "utf-16be" | "gbk";
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+  /** 文件是否以 BOM 开头 */
+  hasBom: boolean;
+}
+
+export interface CsvDialect {
+  delimiter: CsvDelimiter;
+  quote: CsvQuote;
+  hasHeader: boolean;
+}
+
+export interface CsvRecord {
+  fields: string[];
+  /** 记录起始的物理行号（从 1 开始） */
+  line: number;
+}
+
+export interface CsvIssue {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: DataRow[];
+  dialect: CsvDialect;
+  /** 格式异常的行，形如 "第 12 行：引号未闭合" */
+  warnings: string[];
+}
+
+/**
+ * 将文件内容解码为文本：优先按 BOM 判断，其次尝试严格 UTF-8，失败时按 GBK（Excel 中文导出的常见编码）解码
+ */
+export function decodeTextBuffer(buffer: ArrayBuffer): DecodedText {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return {
+      text: new TextDecoder("utf-8").decode(bytes.subarray(3)),
+      encoding: "utf-8",
+      hasBom: true,
+    };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return {
+      text: new TextDecoder("utf-16le").decode(bytes.subarray(2)),
+      encoding: "utf-16le",
+      hasBom: true,
+    };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return {
+      text: new TextDecoder("utf-16be").decode(bytes.subarray(2)),
+      encoding: "utf-16be",
+      hasBom: true,
+    };
+  }
+
+  try {
+    return {
+      text: new TextDecoder("utf-8", { fatal: true }).decode(bytes),
+      encoding: "utf-8",
+      hasBom: false,
+    };
+  } catch {
+    // 非法 UTF-8 序列，继续尝试 GBK
+  }
+
+  try {
+    return { text: new TextDecoder("gbk").decode(bytes), encoding: "gbk", hasBom: false };
+  } catch {
+    // 运行环境不支持 GBK 解码时按 UTF-8 宽松解码
+    return { text: new TextDecoder("utf-8").decode(bytes), encoding: "utf-8", hasBom: false };
+  }
+}
+
+/**
+ * 按 RFC 4180 将文本拆分为记录
+ * 引号字段内允许分隔符、换行和成对的转义引号；不规范的引号按原样保留并记录问题
+ */
+export function parseCsvRecords(
+  text: string,
+  delimiter: string,
+  quote: string,
+  limit = Infinity
+): { records: CsvRecord[]; issues: CsvIssue[] } {
+  const records: CsvRecord[] = [];
+  const issues: CsvIssue[] = [];
+
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let inQuotes = false;
+  let afterQuote = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const addIssue = (message: string) => {
+    if (!issues.some(issue => issue.line === recordLine && issue.message === message)) {
+      issues.push({ line: recordLine, message });
+    }
+  };
+
+  const endField = () => {
+    fields.push(quoted ? field : field.trim());
+    field = "";
+    quoted = false;
+    afterQuote = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    // 空行不作为记录
+    if (fields.length > 1 || fields[0] !== "") {
+      records.push({ fields, line: recordLine });
+    }
+    fields = [];
+  };
+
+  let i = 0;
+  while (i < text.length && records.length < limit) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i += 2;
+        } else {
+          inQuotes = false;
+          afterQuote = true;
+          i++;
+        }
+        continue;
+      }
+      if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+      field += char;
+      i++;
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+      i++;
+      continue;
+    }
+
+    if (char === "\r" || char === "\n") {
+      endRecord();
+      i += char === "\r" && text[i + 1] === "\n" ? 2 : 1;
+      line++;
+      recordLine = line;
+      continue;
+    }
+
+    if (afterQuote) {
+      if (char.trim()) {
+        addIssue("引号字段结束后存在多余字符");
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === quote) {
+      if (!quoted && field.trim() === "") {
+        field = "";
+        quoted = true;
+        inQuotes = true;
+      } else {
+        addIssue("字段中存在未转义的引号");
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    field += char;
+    i++;
+  }
+
+  if (records.length < limit && (field !== "" || quoted || fields.length > 0)) {
+    if (inQuotes) addIssue("引号未闭合，已读取到文件末尾");
+    endRecord();
+  }
+
+  return { records, issues };
+}
+
+/**
+ * 统计引号字符作为完整字段包围符出现的次数
+ */
+function countQuotedFields(sample: string, quote: string): number {
+  const delimiters = CSV_DELIMITER_CANDIDATES.map(delimiter =>
+    delimiter === "\t" ? "\\t" : `\\${delimiter}`
+  ).join("");
+  const pattern = new RegExp(
+    `(?:^|[${delimiters}])[ ]*${quote}[^${quote}\\r\\n]*${quote}[ ]*(?=[${delimiters}]|\\r?$)`,
+    "gm"
+  );
+  return sample.match(pattern)?.length ?? 0;
+}
+
+/**
+ * 识别引号字符：单引号只有在明显多于双引号包围的字段时才采用
+ */
+function sniffQuote(sample: string): CsvQuote {
+  return countQuotedFields(sample, "'") > countQuotedFields(sample, '"') ? "'" : '"';
+}
+
+/**
+ * 识别分隔符：选择使各记录字段数最一致、且字段数大于 1 的候选
+ */
+function sniffDelimiter(text: string, quote: string): CsvDelimiter {
+  let best: { delimiter: CsvDelimiter; consistency: number; columns: number } = {
+    delimiter: ",",
+    consistency: 0,
+    columns: 1,
+  };
+
+  CSV_DELIMITER_CANDIDATES.forEach(delimiter => {
+    const { records } = parseCsvRecords(text, delimiter, quote, SNIFF_RECORD_LIMIT);
+    if (records.length === 0) return;
+
+    const counts = new Map<number, number>();
+    records.forEach(record => {
+      counts.set(record.fields.length, (counts.get(record.fields.length) ?? 0) + 1);
+    });
+    const [columns, frequency] = Array.from(counts).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (columns < 2) return;
+
+    const consistency = frequency / records.length;
+    if (
+      consistency > best.consistency ||
+      (consistency === best.consistency && columns > best.columns)
+    ) {
+      best = { delimiter, consistency, columns };
+    }
+  });
+
+  return best.delimiter;
+}
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const GROUPED_NUMBER_PATTERN = /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const YEAR_PATTERN = /^(19|20)\d{2}$/;
+
+const isNumericText = (value: string) =>
+  NUMBER_PATTERN.test(value) || GROUPED_NUMBER_PATTERN.test(value);
+
+/**
+ * 识别首行是否为表头：逐列比较首行与其余行的取值类型
+ * 数值列的首行为文本时投赞成票，为数值时投反对票（年份表头如 "2023" 除外），与下方取值重复时投反对票
+ */
+function sniffHeader(records: CsvRecord[]): boolean {
+  if (records.length < 2) return true;
+
+  const [first, ...rest] = records;
+  let votes = 0;
+
+  first.fields.forEach((headerCell, column) => {
+    const values = rest.map(record => record.fields[column] ?? "").filter(value => value !== "");
+    if (values.length === 0 || headerCell === "") return;
+
+    const numericRate = values.filter(isNumericText).length / values.length;
+    if (numericRate >= 0.8) {
+      if (!isNumericText(headerCell)) {
+        votes++;
+      } else if (
+        !YEAR_PATTERN.test(headerCell) ||
+        values.every(value => YEAR_PATTERN.test(value))
+      ) {
+        votes--;
+      }
+      return;
+    }
+
+    if (values.includes(headerCell)) votes--;
+  });
+
+  return votes >= 0;
+}
+
+/**
+ * 识别分隔文本的格式，已指定的设置保持不变
+ */
+export function sniffCsvDialect(text: string, options: Partial<CsvDialect> = {}): CsvDialect {
+  const sample = text.split(/\r?\n/, SNIFF_RECORD_LIMIT).join("\n");
+  const quote = options.quote ?? sniffQuote(sample);
+  const delimiter = options.delimiter ?? sniffDelimiter(text, quote);
+  const hasHeader =
+    options.hasHeader ??
+    sniffHeader(parseCsvRecords(text, delimiter, quote, SNIFF_RECORD_LIMIT).records);
+
+  return { delimiter, quote, hasHeader };
+}
+
+/**
+ * 将单元格文本转换为类型化的值：空值为 null，数值（含千分位）转为数字，true/false 转为布尔值
+ * 带前导零的编码（如 "00123"）保持为文本
+ */
+export function toTypedValue(raw: string): DataValue {
+  const value = raw.trim();
+  if (value === "") return null;
+
+  if (isNumericText(value) && !/^[+-]?0\d/.test(value)) {
+    return Number(value.replace(/,/g, ""));
+  }
+
+  const lower = value.toLowerCase();
+  if (lower === "true" || lower === "false") return lower === "true";
+
+  return raw;
+}
+
+/**
+ * 生成唯一的表头名称：空表头补为 Column_n，重名表头追加序号
+ */
+export function buildHeaders(cells: string[], columnCount: number): string[] {
+  const used = new Set<string>();
+
+  return Array.from({ length: columnCount }, (_, index) => {
+    const base = cells[index]?.trim() || `Column_${index + 1}`;
+    let name = base;
+    let suffix = 2;
+    while (used.has(name)) {
+      name = `${base}_${suffix++}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * 格式化问题行列表，超过上限的行合并为一条汇总
+ */
+export function formatIssues(issues: CsvIssue[]): string[] {
+  const sorted = [...issues].sort((a, b) => a.line - b.line);
+  const warnings = sorted
+    .slice(0, MAX_ROW_WARNINGS)
+    .map(issue => `第 ${issue.line} 行：${issue.message}`);
+
+  const remainingLines = new Set(sorted.slice(MAX_ROW_WARNINGS).map(issue => issue.line));
+  if (remainingLines.size > 0) {
+    warnings.push(`另有 ${remainingLines.size} 行存在格式问题`);
+  }
+  return warnings;
+}
+
+/**
+ * 解析 CSV/TSV 文本为数据行
+ * 未指定的分隔符、引号与表头设置自动识别
+ */
+export function parseCsv(text: string, options: Partial<CsvDialect> = {}): CsvParseResult {
+  const dialect = sniffCsvDialect(text, options);
+  const { records, issues } = parseCsvRecords(text, dialect.delimiter, dialect.quote);
+  if (records.length === 0) {
+    return { headers: [], rows: [], dialect, warnings: formatIssues(issues) };
+  }
+
+  const headerRecord = dialect.hasHeader ? records[0] : undefined;
+  const dataRecords = dialect.hasHeader ? records.slice(1) : records;
+  const columnCount = headerRecord
+    ? headerRecord.fields.length
+    : dataRecords.reduce((max, record) => Math.max(max, record.fields.length), 0);
+  const headers = buildHeaders(headerRecord?.fields ?? [], columnCount);
+
+  const rows = dataRecords.map(record => {
+    const { fields, line } = record;
+
+    if (fields.length < columnCount) {
+      issues.push({
+        line,
+        message: `字段数不足（${fields.length}/${columnCount}），缺失字段按空值处理`,
+      });
+    } else if (fields.slice(columnCount).some(value => value !== "")) {
+      issues.push({
+        line,
+        message: `字段数过多（${fields.length}/${columnCount}），多余字段已忽略`,
+      });
+    }
+
+    const row: DataRow = {};
+    headers.forEach((header, index) => {
+      row[header] = toTypedValue(fields[index] ?? "");
+    });
+    return row;
+  });
+
+  return { headers, rows, dialect, warnings: formatIssues(issues) };
+}
@@ -4,6 +4,10 @@
  */
 
 import { ChartType } from "@/types/chart";
+import { ComboSeriesAssignment } from "@/types/chart-config";
+import { DUAL_AXIS_MAGNITUDE_THRESHOLD, WATERFALL_TOTAL_KEYWORDS } from "@/constants/chart-config";
+import { buildHierarchyTree } from "@/lib/hierarchy-utils";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 
 export interface SeriesKey {
   key: string;
@@ -43,8 +47,11 @@ export function getCategoricalKeys(chartType: ChartType): string[] {
     case 'pie':
     case 'radial':
       return ['name', 'label', 'category']; // 这些字段用作标签，不是数值
-    default:
-      return ['name', 'category', 'label', 'type'];
+    default: {
+      // 扩展图表类型可在插件中声明标签字段
+      const pluginKeys = chartTypeRegistry.get(chartType)?.categoricalKeys;
+      return pluginKeys ? [...pluginKeys] : ['name', 'category', 'label', 'type'];
+    }
   }
 }
 
@@ -146,6 +153,21 @@ export function extractCategoricalKeys(
   return seriesKeys;
 }
 
+/**
+ * 从层级图表数据中提取系列键（矩形树图、旭日图），每个顶层分支作为一个系列
+ */
+export function extractHierarchyKeys(chartType: ChartType, data: any[]): SeriesKey[] {
+  const roots = buildHierarchyTree(data);
+  const seriesKeys = roots.map((root, index) => ({
+    key: `branch-${index}`,
+    label: root.name,
+  }));
+
+  console.log(`✅ [extractHierarchyKeys] Extracted ${seriesKeys.length} branches for ${chartType}`);
+
+  return seriesKeys;
+}
+
 /**
  * 智能提取系列键的主函数
  */
@@ -156,12 +178,20 @@ export function extractSeriesKeys(
 ): SeriesKey[] {
   console.log(`🚀 [extractSeriesKeys] Starting analysis for ${chartType} chart`);
 
-  if (['line', 'bar', 'area', 'radar'].includes(chartType)) {
+  if (
+    [
+      'line', 'bar', 'area', 'radar', 'scatter', 'bubble', 'combo', 'heatmap', 'waterfall',
+      'histogram', 'boxplot', 'candlestick', 'choropleth',
+    ].includes(chartType)
+  ) {
     // 多系列图表：提取数值字段作为系列
     return extractMultiSeriesKeys(chartType, data, config);
-  } else if (['pie', 'radial'].includes(chartType)) {
+  } else if (['pie', 'radial', 'funnel'].includes(chartType)) {
     // 分类图表：每个数据项作为一个系列
     return extractCategoricalKeys(chartType, data, config);
+  } else if (['treemap', 'sunburst'].includes(chartType)) {
+    // 层级图表：每个顶层分支作为一个系列
+    return extractHierarchyKeys(chartType, data);
   } else {
     console.warn(`⚠️ [extractSeriesKeys] Unknown chart type: ${chartType}`);
     return [];
@@ -201,7 +231,7 @@ export function validateSeriesKeys(
   }
 
   // 分类图表的特殊验证
-  if (['pie', 'radial'].includes(chartType)) {
+  if (['pie', 'radial', 'funnel'].includes(chartType)) {
     if (seriesKeys.length > 20) {
       warnings.push(`Too many categories (${seriesKeys.length}) for ${chartType} chart`);
     }
@@ -211,4 +241,130 @@ export function validateSeriesKeys(
     isValid: warnings.length === 0,
     warnings
   };
-}
\ No newline at end of file
+}
+
+/**
+ * 计算数值字段的数量级（最大绝对值的 log10），没有有效数值时返回 null
+ */
+export function getFieldMagnitude(data: any[], key: string): number | null {
+  const values = data
+    .map(item => Math.abs(Number(item?.[key])))
+    .filter(value => Number.isFinite(value) && value > 0);
+
+  if (values.length === 0) return null;
+  return Math.log10(Math.max(...values));
+}
+
+/**
+ * 计算多个数值字段之间的量级跨度（相差的数量级）
+ */
+export function getMagnitudeSpread(data: any[], keys: string[]): number {
+  const magnitudes = keys
+    .map(key => getFieldMagnitude(data, key))
+    .filter((magnitude): magnitude is number => magnitude !== null);
+
+  if (magnitudes.length < 2) return 0;
+  return Math.max(...magnitudes) - Math.min(...magnitudes);
+}
+
+/**
+ * 判断多个系列是否需要双Y轴展示
+ */
+export function needsDualAxis(data: any[], keys: string[]): boolean {
+  return getMagnitudeSpread(data, keys) >= DUAL_AXIS_MAGNITUDE_THRESHOLD;
+}
+
+/**
+ * 为组合图规划系列布局
+ * 量级接近最大系列的字段以柱形显示在左轴，量级相差超过阈值的字段以折线显示在右轴；
+ * 量级接近时全部使用左轴，首个系列为柱形，其余为折线
+ */
+export function planComboSeriesLayout(
+  data: any[],
+  keys: string[]
+): Record<string, ComboSeriesAssignment> {
+  const layout: Record<string, ComboSeriesAssignment> = {};
+
+  if (!needsDualAxis(data, keys)) {
+    keys.forEach((key, index) => {
+      layout[key] = { mark: index === 0 ? 'bar' : 'line', axis: 'left' };
+    });
+    return layout;
+  }
+
+  const magnitudes = keys.map(key => getFieldMagnitude(data, key) ?? 0);
+  const maxMagnitude = Math.max(...magnitudes);
+
+  keys.forEach((key, index) => {
+    const isPrimary = maxMagnitude - magnitudes[index] < DUAL_AXIS_MAGNITUDE_THRESHOLD;
+    layout[key] = isPrimary ? { mark: 'bar', axis: 'left' } : { mark: 'line', axis: 'right' };
+  });
+
+  console.log(`✅ [planComboSeriesLayout] Dual axis layout planned:`, layout);
+
+  return layout;
+}
+
+/**
+ * 瀑布图单个柱体
+ */
+export interface WaterfallStep {
+  label: string;
+  /** 变化量（合计柱为合计值） */
+  value: number;
+  /** 柱体起点 */
+  start: number;
+  /** 柱体终点（即累计值） */
+  end: number;
+  kind: 'increase' | 'decrease' | 'total';
+}
+
+/** 合计关键词之后的分隔符，如 "Total: 2024"、"合计（万元）"、"Subtotal - Q1" */
+const WATERFALL_TOTAL_SEPARATOR = /^\s*[:：\-–—(（[【/|]/;
+
+/**
+ * 判断分类名称是否为瀑布图合计行
+ * 名称需与关键词完全相同，或以关键词开头并紧跟分隔符；"Total opex change" 之类的普通步骤不算合计
+ */
+export function isWaterfallTotalLabel(label: string): boolean {
+  const normalized = label.trim().toLowerCase().replace(/\s+/g, ' ');
+  return WATERFALL_TOTAL_KEYWORDS.some(
+    keyword =>
+      normalized === keyword ||
+      (normalized.startsWith(keyword) &&
+        WATERFALL_TOTAL_SEPARATOR.test(normalized.slice(keyword.length)))
+  );
+}
+
+/**
+ * 计算瀑布图的累计柱体
+ * 普通行按变化量从上一个累计值浮动，合计行从0绘制并以其数值重置累计值；
+ * appendTotal 为 true 且最后一行不是合计时，追加一个期末合计柱
+ */
+export function buildWaterfallSteps(
+  data: any[],
+  categoryKey: string,
+  valueKey: string,
+  appendTotal = false
+): WaterfallStep[] {
+  let running = 0;
+  const steps: WaterfallStep[] = data.map(item => {
+    const label = String(item[categoryKey]);
+    const value = Number(item[valueKey]) || 0;
+
+    if (isWaterfallTotalLabel(label)) {
+      running = value;
+      return { label, value, start: 0, end: value, kind: 'total' };
+    }
+
+    const start = running;
+    running += value;
+    return { label, value, start, end: running, kind: value >= 0 ? 'increase' : 'decrease' };
+  });
+
+  if (appendTotal && steps.length > 0 && steps[steps.length - 1].kind !== 'total') {
+    steps.push({ label: 'Total', value: running, start: 0, end: running, kind: 'total' });
+  }
+
+  return steps;
+}
@@ -11,6 +11,7 @@ import {
   StandardChartConfig,
   DataTransformOptions
 } from "@/types/chart";
+import { buildHierarchyTree } from "@/lib/hierarchy-utils";
 
 /**
  * 检测数据是否为多系列格式
@@ -171,8 +172,44 @@ export function standardizeChartData(
 ): { data: ChartData, config: StandardChartConfig } {
   console.log(`🚀 [standardizeChartData] Auto-standardizing for ${chartType} chart`);
 
-  if (['pie', 'radial'].includes(chartType)) {
+  if (['pie', 'radial', 'funnel'].includes(chartType)) {
     return standardizeToCategorical(data, chartType, existingConfig);
+  } else if (['scatter', 'bubble'].includes(chartType)) {
+    // 散点图的每一行都是独立的坐标点，保留原始字段以便按分组字段着色
+    return {
+      data: data as MultiSeriesDataPoint[],
+      config: generateConfigFromData(data, existingConfig || {})
+    };
+  } else if (chartType === 'heatmap') {
+    // 热力图使用长表格式（行分类、列分类、数值），不做宽表转换
+    return {
+      data: data as MultiSeriesDataPoint[],
+      config: generateConfigFromData(data, existingConfig || {})
+    };
+  } else if (['histogram', 'boxplot'].includes(chartType)) {
+    // 分布图保留原始观测值，分箱与四分位数在组件渲染时计算
+    return {
+      data: data as MultiSeriesDataPoint[],
+      config: generateConfigFromData(data, existingConfig || {})
+    };
+  } else if (['treemap', 'sunburst'].includes(chartType)) {
+    // 层级图使用层级节点行（邻接表），渲染时还原为树
+    return {
+      data: data as MultiSeriesDataPoint[],
+      config: generateConfigFromData(data, existingConfig || {})
+    };
+  } else if (chartType === 'candlestick') {
+    // K线图保留开高低收字段与原始日期，时间轴解析在组件渲染时完成
+    return {
+      data: data as MultiSeriesDataPoint[],
+      config: generateConfigFromData(data, existingConfig || {})
+    };
+  } else if (chartType === 'choropleth') {
+    // 地图保留原始地区取值，名称匹配在组件渲染时完成
+    return {
+      data: data as MultiSeriesDataPoint[],
+      config: generateConfigFromData(data, existingConfig || {})
+    };
   } else {
     return standardizeToMultiSeries(data, chartType, existingConfig);
   }
@@ -272,17 +309,63 @@ function formatFieldLabel(field: string): string {
     .replace(/^./, str => str.toUpperCase());
 }
 
+/**
+ * 提取散点图的分组（第一个字符串字段的不同取值），没有分组字段时返回空数组
+ */
+export function getScatterGroups(data: unknown[]): string[] {
+  if (!Array.isArray(data) || data.length === 0) return [];
+
+  const firstItem = data[0] as Record<string, unknown>;
+  const groupKey = Object.keys(firstItem).find(key => typeof firstItem[key] === 'string');
+  if (!groupKey) return [];
+
+  return Array.from(
+    new Set(data.map(item => String((item as Record<string, unknown>)[groupKey])))
+  );
+}
+
 /**
  * 计算标准化数据的系列数量 - 重构版本，基于稳定的数据结构
  */
 export function getSeriesCount(data: ChartData, chartType: ChartType): number {
   console.log(`📊 [getSeriesCount] Calculating series count for ${chartType} chart`);
 
-  if (['pie', 'radial'].includes(chartType)) {
+  if (['pie', 'radial', 'funnel'].includes(chartType)) {
     // 分类图：数据项数量 = 颜色数量
     const count = Array.isArray(data) ? data.length : 1;
     console.log(`✅ [getSeriesCount] Categorical chart: ${count} series`);
     return count;
+  } else if (['scatter', 'bubble'].includes(chartType)) {
+    // 散点图：分组数量 = 颜色数量
+    const count = Math.max(getScatterGroups(data as unknown[]).length, 1);
+    console.log(`✅ [getSeriesCount] Scatter chart: ${count} groups`);
+    return count;
+  } else if (chartType === 'heatmap') {
+    // 热力图：单一色阶，只需要一个基准色
+    console.log(`✅ [getSeriesCount] Heatmap chart: 1 scale color`);
+    return 1;
+  } else if (chartType === 'histogram') {
+    // 直方图：单一柱色
+    console.log(`✅ [getSeriesCount] Histogram chart: 1 bar color`);
+    return 1;
+  } else if (chartType === 'boxplot') {
+    // 箱线图：与散点图相同，按首个分类字段分组着色
+    const count = Math.max(getScatterGroups(data as unknown[]).length, 1);
+    console.log(`✅ [getSeriesCount] Box plot chart: ${count} groups`);
+    return count;
+  } else if (['treemap', 'sunburst'].includes(chartType)) {
+    // 层级图：每个顶层分支一种颜色
+    const count = Math.max(buildHierarchyTree(data as Array<Record<string, unknown>>).length, 1);
+    console.log(`✅ [getSeriesCount] Hierarchy chart: ${count} top-level branches`);
+    return count;
+  } else if (chartType === 'candlestick') {
+    // K线图：蜡烛与成交量都使用涨跌语义颜色，只需一个基准色
+    console.log(`✅ [getSeriesCount] Candlestick chart: 1 series color`);
+    return 1;
+  } else if (chartType === 'choropleth') {
+    // 地图：与热力图相同，单一色阶
+    console.log(`✅ [getSeriesCount] Choropleth chart: 1 scale color`);
+    return 1;
   } else {
     // 多系列图表：数值字段数量 = 颜色数量
     if (!Array.isArray(data) || data.length === 0) {
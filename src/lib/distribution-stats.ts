@@ -0,0 +1,208 @@
+/**
+ * 分布统计工具
+ * 直方图分箱与箱线图四分位数计算，直接基于原始观测值
+ */
+
+import { HistogramBinMethod } from "@/types/chart-config";
+
+export interface HistogramBin {
+  /** 区间标签，如 "10 – 20" */
+  label: string;
+  /** 区间起点（含） */
+  start: number;
+  /** 区间终点（最后一个区间含终点） */
+  end: number;
+  /** 落入区间的观测数量 */
+  count: number;
+}
+
+export interface HistogramResult {
+  bins: HistogramBin[];
+  /** 实际使用的分箱规则 */
+  method: Exclude<HistogramBinMethod, "auto"> | "manual";
+  binWidth: number;
+}
+
+export interface BoxPlotStats {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+  /** 下须（不小于 Q1 - 1.5×IQR 的最小观测值） */
+  lowerWhisker: number;
+  /** 上须（不大于 Q3 + 1.5×IQR 的最大观测值） */
+  upperWhisker: number;
+  outliers: number[];
+  count: number;
+}
+
+/** 手动分箱数量上限，避免渲染过多柱体 */
+const MAX_BIN_COUNT = 100;
+
+/**
+ * 转换单个观测值；空值与空白文本不是观测值（Number(null)、Number("") 均为 0），返回 null
+ */
+function toFiniteNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string" || value.trim() === "") return null;
+
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * 提取有效数值，忽略空值、空白文本、非数字与无穷值
+ */
+export function toFiniteNumbers(values: unknown[]): number[] {
+  return values.map(toFiniteNumber).filter((value): value is number => value !== null);
+}
+
+/**
+ * 线性插值分位数（与 numpy 默认算法一致），sorted 必须已升序排列
+ */
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Sturges 规则：k = ⌈log2(n)⌉ + 1，适合近似正态的小样本
+ */
+function sturgesBinCount(count: number): number {
+  return Math.ceil(Math.log2(count)) + 1;
+}
+
+/**
+ * Freedman–Diaconis 规则：宽度 = 2×IQR / ∛n，对偏态与异常值更稳健
+ */
+function freedmanDiaconisWidth(sorted: number[]): number {
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  return (2 * iqr) / Math.cbrt(sorted.length);
+}
+
+const formatBinEdge = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * 计算直方图分箱
+ * binCount 大于0时使用手动分箱数；否则按 method 自动选择，
+ * auto 优先使用 Freedman–Diaconis，IQR 为0或样本过少时退回 Sturges
+ */
+export function computeHistogramBins(
+  values: number[],
+  method: HistogramBinMethod = "auto",
+  binCount = 0
+): HistogramResult {
+  if (values.length === 0) {
+    return { bins: [], method: "sturges", binWidth: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const range = max - min;
+
+  // 所有观测值相同时只有一个区间
+  if (range === 0) {
+    return {
+      bins: [{ label: formatBinEdge(min), start: min, end: max, count: sorted.length }],
+      method: binCount > 0 ? "manual" : "sturges",
+      binWidth: 0,
+    };
+  }
+
+  let resolvedMethod: HistogramResult["method"];
+  let count: number;
+
+  if (binCount > 0) {
+    resolvedMethod = "manual";
+    count = Math.round(binCount);
+  } else {
+    const fdWidth = freedmanDiaconisWidth(sorted);
+    const useFd =
+      method === "freedman-diaconis" || (method === "auto" && sorted.length >= 30 && fdWidth > 0);
+
+    if (useFd && fdWidth > 0) {
+      resolvedMethod = "freedman-diaconis";
+      count = Math.ceil(range / fdWidth);
+    } else {
+      resolvedMethod = "sturges";
+      count = sturgesBinCount(sorted.length);
+    }
+  }
+
+  count = Math.min(Math.max(count, 1), MAX_BIN_COUNT);
+  const binWidth = range / count;
+
+  const bins: HistogramBin[] = Array.from({ length: count }, (_, index) => {
+    const start = min + index * binWidth;
+    const end = index === count - 1 ? max : start + binWidth;
+    return { label: `${formatBinEdge(start)} – ${formatBinEdge(end)}`, start, end, count: 0 };
+  });
+
+  sorted.forEach(value => {
+    const index = Math.min(Math.floor((value - min) / binWidth), count - 1);
+    bins[index].count += 1;
+  });
+
+  return { bins, method: resolvedMethod, binWidth };
+}
+
+/**
+ * 计算箱线图统计量（Tukey 规则识别异常值）
+ */
+export function computeBoxPlotStats(values: number[]): BoxPlotStats | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const median = quantile(sorted, 0.5);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lowerFence = q1 - 1.5 * iqr;
+  const upperFence = q3 + 1.5 * iqr;
+
+  const inliers = sorted.filter(value => value >= lowerFence && value <= upperFence);
+
+  return {
+    min: sorted[0],
+    q1,
+    median,
+    q3,
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    lowerWhisker: inliers[0] ?? q1,
+    upperWhisker: inliers[inliers.length - 1] ?? q3,
+    outliers: sorted.filter(value => value < lowerFence || value > upperFence),
+    count: sorted.length,
+  };
+}
+
+/**
+ * 按分组字段拆分观测值并计算各组箱线图统计量，没有分组字段时整体作为一组
+ */
+export function groupBoxPlotStats(
+  rows: Array<Record<string, unknown>>,
+  valueKey: string,
+  groupKey?: string,
+  fallbackGroup = "All"
+): Array<{ group: string; stats: BoxPlotStats }> {
+  const groups = new Map<string, number[]>();
+
+  rows.forEach(row => {
+    const value = toFiniteNumber(row[valueKey]);
+    if (value === null) return;
+    const group = groupKey ? String(row[groupKey] ?? fallbackGroup) : fallbackGroup;
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(value);
+  });
+
+  return Array.from(groups.entries())
+    .map(([group, values]) => ({ group, stats: computeBoxPlotStats(values) }))
+    .filter((entry): entry is { group: string; stats: BoxPlotStats } => entry.stats !== null);
+}
@@ -0,0 +1,103 @@
+/**
+ * 分面（小多图）工具
+ * 按分类字段拆分数据行，并计算子图共用的数值轴范围与网格列数
+ */
+
+import { FACET_DEFAULTS } from "@/constants/chart-config";
+
+/** 分面字段缺失时使用的取值 */
+export const FACET_BLANK_VALUE = "(blank)";
+
+export interface FacetGroup<T> {
+  /** 分面取值 */
+  value: string;
+  rows: T[];
+}
+
+const toFacetValue = (value: unknown): string =>
+  value === null || value === undefined || String(value).trim() === ""
+    ? FACET_BLANK_VALUE
+    : String(value).trim();
+
+/**
+ * 按分面字段拆分数据行
+ * 指定 values 时按其顺序输出（忽略不在列表中的取值），否则按数据中首次出现的顺序
+ */
+export function splitFacetRows<T extends Record<string, unknown>>(
+  rows: T[],
+  field: string,
+  values?: string[]
+): FacetGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  values?.forEach(value => groups.set(value, []));
+
+  rows.forEach(row => {
+    const value = toFacetValue(row[field]);
+    if (values && !groups.has(value)) return;
+    if (!groups.has(value)) groups.set(value, []);
+    groups.get(value)!.push(row);
+  });
+
+  return Array.from(groups, ([value, groupRows]) => ({ value, rows: groupRows }));
+}
+
+/**
+ * 获取分面字段的取值列表（按首次出现顺序）
+ */
+export function getFacetValues(rows: Record<string, unknown>[], field: string): string[] {
+  return splitFacetRows(rows, field).map(group => group.value);
+}
+
+/**
+ * 判断分类字段是否适合作为分面字段：
+ * 取值数量在 (minPanels, MAX_PANELS] 之间，且每个子图平均至少有 MIN_ROWS_PER_PANEL 行
+ */
+export function isFacetCandidate(
+  rows: Record<string, unknown>[],
+  field: string,
+  minPanels: number
+): boolean {
+  const panelCount = getFacetValues(rows, field).length;
+  return (
+    panelCount > minPanels &&
+    panelCount <= FACET_DEFAULTS.MAX_PANELS &&
+    rows.length / panelCount >= FACET_DEFAULTS.MIN_ROWS_PER_PANEL
+  );
+}
+
+/**
+ * 将数值边界向外取整到半个数量级（如 873 → 900、1234 → 1500），使共享坐标轴刻度整齐
+ */
+function niceBound(value: number, direction: "up" | "down"): number {
+  if (value === 0) return 0;
+  const unit = 10 ** Math.floor(Math.log10(Math.abs(value))) / 2;
+  return direction === "up" ? Math.ceil(value / unit) * unit : Math.floor(value / unit) * unit;
+}
+
+/**
+ * 计算所有子图共用的数值轴范围；下界不高于 0，与单图默认的数值轴一致
+ */
+export function computeFacetValueDomain(
+  rows: Record<string, unknown>[],
+  keys: string[]
+): [number, number] | undefined {
+  const values = rows.flatMap(row =>
+    keys.map(key => Number(row[key])).filter(value => Number.isFinite(value))
+  );
+  if (values.length === 0) return undefined;
+
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  if (min === max) return undefined;
+
+  return [niceBound(min, "down"), niceBound(max, "up")];
+}
+
+/**
+ * 计算分面网格列数：未指定时 1 个子图单列、2-4 个两列，更多时三列
+ */
+export function resolveFacetColumns(panelCount: number, columns?: number): number {
+  if (columns && columns > 0) return Math.min(columns, Math.max(panelCount, 1));
+  if (panelCount <= 1) return 1;
+  return panelCount <= 4 ? 2 : 3;
+}
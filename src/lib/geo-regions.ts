@@ -0,0 +1,294 @@
+/**
+ * 地理区域工具
+ * 将分类字段中的地区名称/编码匹配到内置底图（世界国家、中国省级行政区），
+ * 并提供地图投影与 SVG 路径生成
+ */
+
+import type { ChoroplethMap } from "@/types/chart-config";
+import { WORLD_COUNTRIES } from "@/data/geo/world-countries";
+import { CHINA_PROVINCES } from "@/data/geo/china-provinces";
+
+/** 坐标点：[经度, 纬度] */
+export type GeoPoint = readonly [number, number];
+
+export interface GeoRegion {
+  /** 主编码（世界为 ISO 3166-1 alpha-3，中国为 ISO 3166-2） */
+  code: string;
+  /** 其他编码（alpha-2、行政区划代码等） */
+  altCodes?: readonly string[];
+  name: { en: string; zh: string };
+  /** 常见别名、简称、旧称 */
+  aliases?: readonly string[];
+  polygons: readonly (readonly GeoPoint[])[];
+}
+
+/** 内置底图（不含 auto） */
+export type GeoMapKey = Exclude<ChoroplethMap, "auto">;
+
+export interface GeoMapDefinition {
+  key: GeoMapKey;
+  label: { en: string; zh: string };
+  regions: GeoRegion[];
+}
+
+export const GEO_MAPS: Record<GeoMapKey, GeoMapDefinition> = {
+  world: { key: "world", label: { en: "World", zh: "世界" }, regions: WORLD_COUNTRIES },
+  china: { key: "china", label: { en: "China", zh: "中国" }, regions: CHINA_PROVINCES },
+};
+
+/** 名称后缀（先长后短），匹配前去除，如 "广东省"、"Guangdong Province" */
+const REGION_NAME_SUFFIXES = [
+  "维吾尔自治区",
+  "壮族自治区",
+  "回族自治区",
+  "特别行政区",
+  "自治区",
+  "省",
+  "市",
+  "special administrative region",
+  "autonomous region",
+  "municipality",
+  "province",
+  "sar",
+];
+
+/** 名称前缀（冠词），如 "The Netherlands" */
+const REGION_NAME_PREFIXES = ["the "];
+
+const CJK_PATTERN = /[\u4e00-\u9fff]/;
+
+/**
+ * 归一化地区名称：小写、去除变音符号、常见前后缀与标点空白
+ */
+export function normalizeRegionName(value: string): string {
+  let name = value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+  REGION_NAME_PREFIXES.forEach(prefix => {
+    if (name.startsWith(prefix)) name = name.slice(prefix.length);
+  });
+  for (const suffix of REGION_NAME_SUFFIXES) {
+    if (name.length > suffix.length && name.endsWith(suffix)) {
+      name = name.slice(0, -suffix.length).trim();
+      break;
+    }
+  }
+
+  return name.replace(/[^a-z0-9\u4e00-\u9fff]/g, "");
+}
+
+/**
+ * 编辑距离，用于拼写近似的英文名称匹配
+ */
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/** 各底图的名称索引：归一化名称 -> 地区 */
+const regionIndexCache = new Map<GeoMapKey, Map<string, GeoRegion>>();
+
+function getRegionIndex(mapKey: GeoMapKey): Map<string, GeoRegion> {
+  const cached = regionIndexCache.get(mapKey);
+  if (cached) return cached;
+
+  const index = new Map<string, GeoRegion>();
+  GEO_MAPS[mapKey].regions.forEach(region => {
+    const names = [
+      region.code,
+      ...(region.altCodes || []),
+      region.name.en,
+      region.name.zh,
+      ...(region.aliases || []),
+    ];
+    names.forEach(name => {
+      const key = normalizeRegionName(name);
+      if (key && !index.has(key)) index.set(key, region);
+    });
+  });
+
+  regionIndexCache.set(mapKey, index);
+  return index;
+}
+
+/**
+ * 在底图中查找地区
+ * 依次尝试：编码/名称/别名精确匹配 → 中文简称前缀匹配 → 英文编辑距离近似匹配，
+ * 近似匹配仅在候选唯一时采用
+ */
+export function findRegion(value: unknown, mapKey: GeoMapKey): GeoRegion | null {
+  if (value === null || value === undefined) return null;
+  const key = normalizeRegionName(String(value));
+  if (!key) return null;
+
+  const index = getRegionIndex(mapKey);
+  const exact = index.get(key);
+  if (exact) return exact;
+
+  const candidates = new Set<GeoRegion>();
+  if (CJK_PATTERN.test(key)) {
+    if (key.length < 2) return null;
+    index.forEach((region, name) => {
+      if (CJK_PATTERN.test(name) && (name.startsWith(key) || key.startsWith(name))) {
+        candidates.add(region);
+      }
+    });
+  } else {
+    if (key.length < 5) return null;
+    const maxDistance = key.length >= 9 ? 2 : 1;
+    index.forEach((region, name) => {
+      if (Math.abs(name.length - key.length) > maxDistance) return;
+      if (levenshtein(key, name) <= maxDistance) candidates.add(region);
+    });
+  }
+
+  return candidates.size === 1 ? Array.from(candidates)[0] : null;
+}
+
+export interface RegionMatchResult {
+  mapKey: GeoMapKey;
+  /** 原始取值 -> 匹配到的地区 */
+  matches: Map<string, GeoRegion>;
+  /** 未能匹配的原始取值（去重，保持出现顺序） */
+  unmatched: string[];
+  /** 匹配成功的取值占比（0-1） */
+  matchRate: number;
+}
+
+function matchRegionsOnMap(values: string[], mapKey: GeoMapKey): RegionMatchResult {
+  const matches = new Map<string, GeoRegion>();
+  const unmatched: string[] = [];
+  values.forEach(value => {
+    const region = findRegion(value, mapKey);
+    if (region) {
+      matches.set(value, region);
+    } else {
+      unmatched.push(value);
+    }
+  });
+
+  return {
+    mapKey,
+    matches,
+    unmatched,
+    matchRate: values.length > 0 ? matches.size / values.length : 0,
+  };
+}
+
+/**
+ * 将地区取值匹配到底图
+ * 未指定底图（或为 auto）时分别尝试世界与中国底图，取匹配数更多者；
+ * 数量相同时，含中文取值优先中国底图
+ */
+export function matchRegions(values: unknown[], map: ChoroplethMap = "auto"): RegionMatchResult {
+  const distinctValues = Array.from(
+    new Set(
+      values
+        .filter(value => value !== null && value !== undefined && String(value).trim() !== "")
+        .map(value => String(value).trim())
+    )
+  );
+
+  if (map !== "auto") {
+    return matchRegionsOnMap(distinctValues, map);
+  }
+
+  const world = matchRegionsOnMap(distinctValues, "world");
+  const china = matchRegionsOnMap(distinctValues, "china");
+  if (china.matches.size !== world.matches.size) {
+    return china.matches.size > world.matches.size ? china : world;
+  }
+  return distinctValues.some(value => CJK_PATTERN.test(value)) ? china : world;
+}
+
+export interface GeoProjection {
+  width: number;
+  height: number;
+  project: (point: GeoPoint) => [number, number];
+}
+
+/**
+ * 创建等距圆柱投影，按地区范围自适应画布
+ * 经度按中心纬度的余弦缩放，减小高纬度地区的横向拉伸
+ */
+export function createGeoProjection(regions: GeoRegion[], width: number): GeoProjection {
+  let minLon = Infinity;
+  let maxLon = -Infinity;
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  regions.forEach(region =>
+    region.polygons.forEach(polygon =>
+      polygon.forEach(([lon, lat]) => {
+        minLon = Math.min(minLon, lon);
+        maxLon = Math.max(maxLon, lon);
+        minLat = Math.min(minLat, lat);
+        maxLat = Math.max(maxLat, lat);
+      })
+    )
+  );
+
+  if (!Number.isFinite(minLon)) {
+    return { width, height: width / 2, project: () => [0, 0] };
+  }
+
+  const lonScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const spanX = Math.max((maxLon - minLon) * lonScale, 1e-6);
+  const spanY = Math.max(maxLat - minLat, 1e-6);
+  const scale = width / spanX;
+
+  return {
+    width,
+    height: spanY * scale,
+    project: ([lon, lat]) => [(lon - minLon) * lonScale * scale, (maxLat - lat) * scale],
+  };
+}
+
+/**
+ * 将地区多边形转换为 SVG 路径
+ */
+export function regionToSvgPath(region: GeoRegion, projection: GeoProjection): string {
+  return region.polygons
+    .map(polygon =>
+      polygon
+        .map((point, index) => {
+          const [x, y] = projection.project(point);
+          return `${index === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+        })
+        .join("")
+    )
+    .map(path => `${path}Z`)
+    .join("");
+}
+
+/**
+ * 地区外接框中心（投影后坐标），用于小面积地区的标记点与标签定位
+ */
+export function regionCenter(
+  region: GeoRegion,
+  projection: GeoProjection
+): { x: number; y: number; width: number; height: number } {
+  const points = region.polygons[0]?.map(point => projection.project(point)) || [];
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  return { x: (minX + maxX) / 2, y: (minY + maxY) / 2, width: maxX - minX, height: maxY - minY };
+}
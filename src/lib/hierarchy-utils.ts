@@ -0,0 +1,205 @@
+/**
+ * 层级数据工具
+ * 将明细行按层级字段聚合为节点行（邻接表），供矩形树图与旭日图使用
+ */
+
+/** 节点路径分隔符 */
+export const HIERARCHY_PATH_SEPARATOR = " / ";
+
+/** 层级字段为空时使用的节点名称 */
+const BLANK_NODE_NAME = "(blank)";
+
+/**
+ * 层级节点行：每个节点一行，通过 parent 指向父节点路径，根节点的 parent 为空字符串
+ * 使用扁平结构以兼容 DataRow，渲染时再还原为树
+ */
+export type HierarchyNodeRow = {
+  path: string;
+  parent: string;
+  name: string;
+  depth: number;
+  value: number;
+};
+
+export interface HierarchyNode {
+  name: string;
+  path: string;
+  depth: number;
+  value: number;
+  children: HierarchyNode[];
+}
+
+/**
+ * 判断数据是否已经是层级节点行
+ */
+export function isHierarchyNodeRows(data: unknown[]): data is HierarchyNodeRow[] {
+  if (!Array.isArray(data) || data.length === 0) return false;
+  const firstItem = data[0] as Record<string, unknown>;
+  return (
+    typeof firstItem?.path === "string" &&
+    typeof firstItem?.parent === "string" &&
+    typeof firstItem?.name === "string" &&
+    typeof firstItem?.value === "number"
+  );
+}
+
+/**
+ * 按层级字段聚合明细行
+ * sizeField 缺省时按行计数；尺寸非正数的行无法占据面积，直接忽略。
+ * 返回深度优先顺序的节点行，同级节点按数值从大到小排列
+ */
+export function buildHierarchyRows(
+  rows: Array<Record<string, unknown>>,
+  levels: string[],
+  sizeField?: string
+): HierarchyNodeRow[] {
+  if (levels.length === 0) return [];
+
+  const roots: HierarchyNode[] = [];
+  const nodeIndex = new Map<string, HierarchyNode>();
+
+  rows.forEach(row => {
+    const size = sizeField ? Number(row[sizeField]) : 1;
+    if (!Number.isFinite(size) || size <= 0) return;
+
+    let siblings = roots;
+    let path = "";
+    levels.forEach((level, depth) => {
+      const rawName = row[level];
+      const name =
+        rawName === null || rawName === undefined || String(rawName).trim() === ""
+          ? BLANK_NODE_NAME
+          : String(rawName);
+      path = depth === 0 ? name : `${path}${HIERARCHY_PATH_SEPARATOR}${name}`;
+
+      let node = nodeIndex.get(path);
+      if (!node) {
+        node = { name, path, depth, value: 0, children: [] };
+        nodeIndex.set(path, node);
+        siblings.push(node);
+      }
+      node.value += size;
+      siblings = node.children;
+    });
+  });
+
+  const result: HierarchyNodeRow[] = [];
+  const visit = (nodes: HierarchyNode[], parent: string) => {
+    [...nodes]
+      .sort((a, b) => b.value - a.value)
+      .forEach(node => {
+        result.push({
+          path: node.path,
+          parent,
+          name: node.name,
+          depth: node.depth,
+          value: node.value,
+        });
+        visit(node.children, node.path);
+      });
+  };
+  visit(roots, "");
+
+  return result;
+}
+
+/**
+ * 将数据还原为层级树
+ * 节点行直接按 parent 组装；明细行则以全部文本字段为层级、首个数值字段为尺寸聚合
+ */
+export function buildHierarchyTree(data: Array<Record<string, unknown>>): HierarchyNode[] {
+  if (!Array.isArray(data) || data.length === 0) return [];
+
+  let nodeRows: HierarchyNodeRow[];
+  if (isHierarchyNodeRows(data)) {
+    nodeRows = data;
+  } else {
+    const firstItem = data[0];
+    const keys = Object.keys(firstItem);
+    const levels = keys.filter(key => typeof firstItem[key] === "string");
+    const sizeField = keys.find(key => typeof firstItem[key] === "number");
+    nodeRows = buildHierarchyRows(data, levels, sizeField);
+  }
+
+  const roots: HierarchyNode[] = [];
+  const nodeIndex = new Map<string, HierarchyNode>();
+  nodeRows.forEach(row => {
+    const node: HierarchyNode = {
+      name: row.name,
+      path: row.path,
+      depth: row.depth,
+      value: row.value,
+      children: [],
+    };
+    nodeIndex.set(row.path, node);
+    const parent = row.parent ? nodeIndex.get(row.parent) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * 统计叶子节点数量
+ */
+export function countHierarchyLeaves(nodes: HierarchyNode[]): number {
+  return nodes.reduce(
+    (count, node) => count + (node.children.length === 0 ? 1 : countHierarchyLeaves(node.children)),
+    0
+  );
+}
+
+/**
+ * 从分类字段中识别嵌套层级
+ * 按取值数量从少到多排列，子字段的每个取值只归属于一个父字段取值时视为嵌套；
+ * 返回从外到内的层级字段，少于两级时返回空数组
+ */
+export function detectNestedHierarchy(
+  rows: Array<Record<string, unknown>>,
+  categoricalFields: string[]
+): string[] {
+  if (rows.length === 0 || categoricalFields.length < 2) return [];
+
+  const uniqueCount = (field: string) => new Set(rows.map(row => String(row[field] ?? ""))).size;
+
+  // 每个取值都不同的字段是标识列，不构成层级
+  const candidates = categoricalFields
+    .map(field => ({ field, unique: uniqueCount(field) }))
+    .filter(candidate => candidate.unique > 1 && candidate.unique < rows.length)
+    .sort((a, b) => a.unique - b.unique);
+
+  const isNestedIn = (child: string, parent: string) => {
+    const parentOf = new Map<string, string>();
+    return rows.every(row => {
+      const childValue = String(row[child] ?? "");
+      const parentValue = String(row[parent] ?? "");
+      const existing = parentOf.get(childValue);
+      if (existing === undefined) {
+        parentOf.set(childValue, parentValue);
+        return true;
+      }
+      return existing === parentValue;
+    });
+  };
+
+  let best: string[] = [];
+  candidates.forEach((root, index) => {
+    const chain = [root.field];
+    let current = root;
+    candidates.slice(index + 1).forEach(candidate => {
+      if (candidate.unique > current.unique && isNestedIn(candidate.field, current.field)) {
+        chain.push(candidate.field);
+        current = candidate;
+      }
+    });
+    if (chain.length > best.length) {
+      best = chain;
+    }
+  });
+
+  return best.length >= 2 ? best : [];
+}
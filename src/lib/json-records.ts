@@ -0,0 +1,216 @@
+/**
+ * JSON / NDJSON 记录解析
+ * 在 JSON 文档中定位记录数组，并将嵌套对象展开为点号分隔的字段名（如 "user.address.city"）
+ */
+
+import { CsvIssue, buildHeaders, formatIssues, toTypedValue } from "@/lib/csv-parser";
+import type { DataRow, DataValue } from "@/lib/ai-chart-system/types";
+
+/** 嵌套对象最多展开的层数，更深的对象保留为 JSON 文本 */
+const MAX_FLATTEN_DEPTH = 5;
+
+/** 查找记录数组时最多深入的层数 */
+const MAX_SEARCH_DEPTH = 4;
+
+/** 常见的记录数组字段名，记录数相同时优先选择 */
+const RECORD_ARRAY_KEYS = ["data", "items", "results", "records", "rows", "list", "entries"];
+
+export interface JsonRecordsResult {
+  headers: string[];
+  rows: DataRow[];
+  /** 记录数组在文档中的路径，根节点为 "$" */
+  path: string;
+  warnings: string[];
+}
+
+interface RecordArrayCandidate {
+  path: string;
+  key: string;
+  depth: number;
+  items: unknown[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * 转换叶子节点的值：字符串按CSV规则识别数字与布尔值，基本类型数组合并为文本，其余保留为 JSON 文本
+ */
+function toFieldValue(value: unknown): DataValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") return toTypedValue(value);
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  if (Array.isArray(value) && value.every(item => !isPlainObject(item) && !Array.isArray(item))) {
+    return value.join(", ");
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 将嵌套对象展开为单层记录，字段名以点号连接
+ */
+export function flattenRecord(record: Record<string, unknown>, prefix = "", depth = 0): DataRow {
+  return Object.entries(record).reduce<DataRow>((row, [key, value]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0 && depth < MAX_FLATTEN_DEPTH) {
+      Object.assign(row, flattenRecord(value, name, depth + 1));
+    } else {
+      row[name] = toFieldValue(value);
+    }
+    return row;
+  }, {});
+}
+
+/**
+ * 递归查找以对象为主的数组
+ */
+function findRecordArrays(
+  value: unknown,
+  path: string,
+  key: string,
+  depth: number,
+  found: RecordArrayCandidate[]
+): RecordArrayCandidate[] {
+  if (Array.isArray(value)) {
+    const objectCount = value.filter(isPlainObject).length;
+    if (objectCount > 0 && objectCount * 2 >= value.length) {
+      found.push({ path, key, depth, items: value });
+    }
+  } else if (isPlainObject(value) && depth < MAX_SEARCH_DEPTH) {
+    Object.entries(value).forEach(([childKey, child]) =>
+      findRecordArrays(child, `${path}.${childKey}`, childKey, depth + 1, found)
+    );
+  }
+  return found;
+}
+
+/**
+ * 选择记录数组：记录数最多者优先，其次为常见字段名，再次为层级较浅者
+ */
+function pickRecordArray(candidates: RecordArrayCandidate[]): RecordArrayCandidate | undefined {
+  const preference = (candidate: RecordArrayCandidate) =>
+    RECORD_ARRAY_KEYS.includes(candidate.key.toLowerCase()) ? 1 : 0;
+
+  return [...candidates].sort(
+    (a, b) => b.items.length - a.items.length || preference(b) - preference(a) || a.depth - b.depth
+  )[0];
+}
+
+/**
+ * 合并各记录的字段（按首次出现的顺序），缺失字段补为 null
+ */
+function alignRecords(records: DataRow[]): { headers: string[]; rows: DataRow[]; sparse: boolean } {
+  const fields = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+  const headers = buildHeaders(fields, fields.length);
+  let sparse = false;
+
+  const rows = records.map(record =>
+    fields.reduce<DataRow>((row, field, index) => {
+      if (!(field in record)) sparse = true;
+      row[headers[index]] = record[field] ?? null;
+      return row;
+    }, {})
+  );
+
+  return { headers, rows, sparse };
+}
+
+/**
+ * 二维数组（首行为表头）转换为记录
+ */
+function fromTableArray(table: unknown[][]): DataRow[] {
+  const [headerRow, ...body] = table;
+  const headers = buildHeaders(
+    headerRow.map(cell => (cell === null || cell === undefined ? "" : String(cell))),
+    Math.max(headerRow.length, ...body.map(row => row.length))
+  );
+  return body.map(row =>
+    headers.reduce<DataRow>((record, header, index) => {
+      record[header] = toFieldValue(row[index]);
+      return record;
+    }, {})
+  );
+}
+
+/**
+ * 解析 JSON 文档
+ * 支持记录数组（可嵌套在 data/items 等字段下）、首行为表头的二维数组以及单个对象
+ */
+export function parseJsonRecords(text: string): JsonRecordsResult {
+  const document: unknown = JSON.parse(text);
+  const warnings: string[] = [];
+
+  if (
+    Array.isArray(document) &&
+    document.length > 1 &&
+    document.every(Array.isArray) &&
+    (document[0] as unknown[]).every(cell => typeof cell === "string")
+  ) {
+    const { headers, rows } = alignRecords(fromTableArray(document as unknown[][]));
+    return { headers, rows, path: "$", warnings: ["按二维数组解析，首行作为表头"] };
+  }
+
+  const candidates = findRecordArrays(document, "$", "", 0, []);
+  const picked = pickRecordArray(candidates);
+
+  let records: DataRow[];
+  let path = "$";
+  if (picked) {
+    path = picked.path;
+    const objects = picked.items.filter(isPlainObject);
+    records = objects.map(item => flattenRecord(item));
+
+    if (path !== "$") {
+      warnings.push(`使用 JSON 路径 ${path} 下的 ${objects.length} 条记录`);
+    }
+    if (candidates.length > 1) {
+      warnings.push(`文档中共有 ${candidates.length} 个记录数组，已选择记录最多的一个`);
+    }
+    if (objects.length < picked.items.length) {
+      warnings.push(`跳过 ${picked.items.length - objects.length} 个非对象元素`);
+    }
+  } else if (isPlainObject(document)) {
+    records = [flattenRecord(document)];
+    warnings.push("未找到记录数组，整个对象作为一条记录");
+  } else {
+    records = [];
+  }
+
+  const { headers, rows, sparse } = alignRecords(records);
+  if (sparse) {
+    warnings.push("部分记录缺少字段，已补为空值");
+  }
+
+  return { headers, rows, path, warnings };
+}
+
+/**
+ * 解析 NDJSON（每行一个 JSON 对象），无法解析或不是对象的行记入 warnings
+ */
+export function parseNdjsonRecords(text: string): JsonRecordsResult {
+  const issues: CsvIssue[] = [];
+  const records: DataRow[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "") return;
+
+    try {
+      const value: unknown = JSON.parse(line);
+      if (isPlainObject(value)) {
+        records.push(flattenRecord(value));
+      } else {
+        issues.push({ line: index + 1, message: "不是 JSON 对象，已跳过" });
+      }
+    } catch {
+      issues.push({ line: index + 1, message: "JSON 解析失败，已跳过" });
+    }
+  });
+
+  const { headers, rows, sparse } = alignRecords(records);
+  const warnings = formatIssues(issues);
+  if (sparse) {
+    warnings.push("部分记录缺少字段，已补为空值");
+  }
+
+  return { headers, rows, path: "$", warnings };
+}
@@ -0,0 +1,116 @@
+/**
+ * Markdown 表格解析
+ * 识别 GFM 管道表格（表头行 + 分隔行 + 数据行），文档中有多个表格时选择规模最大的一个
+ */
+
+import { buildHeaders, toTypedValue } from "@/lib/csv-parser";
+import type { DataRow } from "@/lib/ai-chart-system/types";
+
+/** 分隔行单元格，如 "---"、":--:"、"--:" */
+const SEPARATOR_CELL = /^:?-+:?$/;
+
+export interface MarkdownTable {
+  headers: string[];
+  rows: DataRow[];
+  /** 表头所在的行号（从 1 开始） */
+  line: number;
+}
+
+export interface MarkdownTableResult extends MarkdownTable {
+  tableCount: number;
+  warnings: string[];
+}
+
+/**
+ * 拆分表格行：去掉首尾的管道符，按未转义的 "|" 分列；不含管道符的行返回 null
+ */
+function splitTableRow(line: string): string[] | null {
+  const trimmed = line.trim();
+  if (!/(^|[^\\])\|/.test(trimmed)) return null;
+
+  const cells = trimmed
+    .replace(/^\|/, "")
+    .replace(/(^|[^\\])\|$/, "$1")
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, "|"));
+
+  return cells;
+}
+
+/**
+ * 去掉单元格中的行内标记：加粗、斜体、删除线、行内代码与链接
+ */
+function stripInlineMarkdown(cell: string): string {
+  return cell
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__|~~)(.*?)\1/g, "$2")
+    .replace(/(^|\s)[*_](\S(?:.*?\S)?)[*_](?=\s|$)/g, "$1$2")
+    .trim();
+}
+
+function isSeparatorRow(cells: string[] | null, columnCount: number): boolean {
+  return (
+    !!cells &&
+    cells.length === columnCount &&
+    cells.every(cell => SEPARATOR_CELL.test(cell.replace(/\s/g, "")))
+  );
+}
+
+/**
+ * 查找文档中的所有管道表格
+ * 数据行的列数少于表头时补空值，多出的列忽略（与 GFM 渲染一致）
+ */
+export function findMarkdownTables(text: string): MarkdownTable[] {
+  const lines = text.split(/\r?\n/);
+  const tables: MarkdownTable[] = [];
+
+  for (let index = 0; index < lines.length - 1; index++) {
+    const headerCells = splitTableRow(lines[index]);
+    if (!headerCells || !isSeparatorRow(splitTableRow(lines[index + 1]), headerCells.length)) {
+      continue;
+    }
+
+    const headers = buildHeaders(headerCells.map(stripInlineMarkdown), headerCells.length);
+    const rows: DataRow[] = [];
+    let next = index + 2;
+    for (; next < lines.length; next++) {
+      const cells = lines[next].trim() === "" ? null : splitTableRow(lines[next]);
+      if (!cells) break;
+
+      rows.push(
+        headers.reduce<DataRow>((row, header, column) => {
+          row[header] = toTypedValue(stripInlineMarkdown(cells[column] ?? ""));
+          return row;
+        }, {})
+      );
+    }
+
+    tables.push({ headers, rows, line: index + 1 });
+    index = next - 1;
+  }
+
+  return tables;
+}
+
+/**
+ * 解析 Markdown 文档中的表格，没有表格时返回 null
+ */
+export function parseMarkdownTable(text: string): MarkdownTableResult | null {
+  const tables = findMarkdownTables(text);
+  const size = (table: MarkdownTable) => table.rows.length * table.headers.length;
+  const picked = tables.reduce<MarkdownTable | undefined>(
+    (best, table) => (!best || size(table) > size(best) ? table : best),
+    undefined
+  );
+  if (!picked) return null;
+
+  const warnings: string[] = [];
+  if (tables.length > 1) {
+    warnings.push(
+      `文件包含 ${tables.length} 个表格，已使用第 ${picked.line} 行开始的表格（${picked.rows.length} 行）`
+    );
+  }
+
+  return { ...picked, tableCount: tables.length, warnings };
+}
@@ -0,0 +1,95 @@
+/**
+ * K线（OHLC）数据工具
+ * 按字段名识别开盘/最高/最低/收盘/成交量字段，并解析时间轴取值
+ */
+
+import type { OhlcFieldMapping } from "@/lib/ai-chart-system/types";
+
+/** 各价格字段的常见命名（小写、去除空格与分隔符后比较） */
+export const OHLC_FIELD_ALIASES = {
+  open: ["open", "o", "openprice", "开盘", "开盘价", "今开"],
+  high: ["high", "h", "highprice", "最高", "最高价"],
+  low: ["low", "l", "lowprice", "最低", "最低价"],
+  close: ["close", "c", "closeprice", "last", "收盘", "收盘价", "最新价"],
+  volume: ["volume", "vol", "v", "成交量", "成交额", "交易量"],
+} as const;
+
+type OhlcFieldRole = keyof typeof OHLC_FIELD_ALIASES;
+
+const normalizeFieldName = (name: string) => name.toLowerCase().replace(/[\s_\-.()（）]/g, "");
+
+/**
+ * 字段名与角色的匹配程度：2 为完全匹配，1 为包含别名（如 "Adj Close"、"Open Price"），0 为不匹配
+ * 单字母别名只允许完全匹配，避免误判
+ */
+function matchScore(name: string, role: OhlcFieldRole): number {
+  const normalized = normalizeFieldName(name);
+  const aliases: readonly string[] = OHLC_FIELD_ALIASES[role];
+  if (aliases.includes(normalized)) return 2;
+  return aliases.some(alias => alias.length > 1 && normalized.includes(alias)) ? 1 : 0;
+}
+
+/**
+ * 从候选数值字段中识别开高低收字段，四个价格字段缺一时返回 null
+ */
+function matchOhlcFields(numericFields: string[]): OhlcFieldMapping | null {
+  const used = new Set<string>();
+  const pick = (role: OhlcFieldRole) => {
+    // 完全匹配优先，同分时取靠前的字段
+    const picked = numericFields
+      .filter(field => !used.has(field))
+      .map(field => ({ field, score: matchScore(field, role) }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score)[0]?.field;
+    if (picked) used.add(picked);
+    return picked;
+  };
+
+  // 先匹配四个价格字段，成交量为可选字段
+  const open = pick("open");
+  const high = pick("high");
+  const low = pick("low");
+  const close = pick("close");
+  if (!open || !high || !low || !close) return null;
+
+  const volume = pick("volume");
+  return volume ? { open, high, low, close, volume } : { open, high, low, close };
+}
+
+/**
+ * 根据数据架构识别K线字段，只考虑数值类型的字段
+ */
+export function detectOhlcFields(
+  fields: Array<{ name: string; type: string }>
+): OhlcFieldMapping | null {
+  return matchOhlcFields(fields.filter(field => field.type === "number").map(field => field.name));
+}
+
+/**
+ * 根据数据行识别K线字段
+ * 字段名无法识别时按数值字段顺序依次视为开、高、低、收（及成交量），与预处理输出的字段顺序一致
+ */
+export function detectOhlcKeys(row: Record<string, unknown>): OhlcFieldMapping | null {
+  const numericKeys = Object.keys(row).filter(key => typeof row[key] === "number");
+  const matched = matchOhlcFields(numericKeys);
+  if (matched) return matched;
+  if (numericKeys.length < 4) return null;
+
+  const [open, high, low, close, volume] = numericKeys;
+  return volume ? { open, high, low, close, volume } : { open, high, low, close };
+}
+
+/**
+ * 将日期取值解析为时间戳，无法解析时返回 null
+ * 纯数字（如序号）不视为日期
+ */
+export function parseTimestamp(value: unknown): number | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.getTime();
+  }
+  if (typeof value !== "string" || !/\d/.test(value) || /^\d+(\.\d+)?$/.test(value.trim())) {
+    return null;
+  }
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
@@ -26,7 +26,7 @@ export const SECURITY_CONFIG = {
       MAX_FILES_PER_HOUR: 20,       // 每小时最多上传20个文件
       MAX_FILES_PER_REQUEST: 3,     // 每次请求最多3个文件
       MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
-      ALLOWED_EXTENSIONS: ['.xlsx', '.xls', '.csv'],
+      ALLOWED_EXTENSIONS: ['.xlsx', '.xls', '.csv', '.tsv', '.json', '.ndjson', '.md', '.markdown'],
     }
   },
   
@@ -262,7 +262,7 @@ export class SecurityManager {
 
       // 检查文件扩展名
       const extension = '.' + file.name.split('.').pop()?.toLowerCase();
-      if (!FILE_UPLOAD.ALLOWED_EXTENSIONS.includes(extension as '.xlsx' | '.xls' | '.csv')) {
+      if (!(FILE_UPLOAD.ALLOWED_EXTENSIONS as readonly string[]).includes(extension)) {
         return { isValid: false, reason: '不支持的文件类型' };
       }
     }
@@ -15,6 +15,7 @@ import {
  
 } from "@/types";
 import { MESSAGE_TYPES } from "@/constants/message";
+import type { AICassette } from "@/lib/ai/types";
 
 /**
  * 文件大小限制（字节）
@@ -70,6 +71,7 @@ export async function serializeFileAttachment(
     size: attachment.size,
     uploadedAt: attachment.uploadedAt,
     storageType: 'base64', // 默认值，后面可能会修改
+    sheetSelection: attachment.sheetSelection,
   };
 
   try {
@@ -135,6 +137,7 @@ export function deserializeFileAttachment(
       size: serializableAttachment.size,
       file: file,
       uploadedAt: serializableAttachment.uploadedAt,
+      sheetSelection: serializableAttachment.sheetSelection,
     };
   } catch (error) {
     console.error(`❌ [Serializer] 文件反序列化失败 ${serializableAttachment.name}:`, error);
@@ -150,6 +153,7 @@ function getFileTypeFromAttachmentType(type: string): string {
     excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
     csv: 'text/csv',
     json: 'application/json',
+    markdown: 'text/markdown',
     image: 'image/png',
   };
   return typeMap[type] || 'application/octet-stream';
@@ -323,6 +327,7 @@ export async function deserializeSession(
     _demoReplay: serializableSession._demoReplay,
     _storage: serializableSession._storage,
     _pendingProcessing: serializableSession._pendingProcessing,
+    _cassette: serializableSession._cassette,
   };
 
   console.log(`✅ [Serializer] 会话反序列化完成:`, {
@@ -334,6 +339,29 @@ export async function deserializeSession(
   return restoredSession;
 }
 
+/**
+ * 获取服务端为该会话录制的 AI 调用，未开启录制、没有录制或请求失败时返回 undefined
+ */
+async function fetchSessionCassette(sessionId: string): Promise<AICassette | undefined> {
+  try {
+    const response = await fetch(`/api/ai/cassette?sessionId=${encodeURIComponent(sessionId)}`);
+    // 服务端未开启录制
+    if (response.status === 404) {
+      return undefined;
+    }
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      console.warn(`⚠️ [Serializer] 获取AI调用录制失败:`, result.error);
+      return undefined;
+    }
+    return result.cassette?.entries?.length ? result.cassette : undefined;
+  } catch (error) {
+    console.warn(`⚠️ [Serializer] 获取AI调用录制失败:`, error);
+    return undefined;
+  }
+}
+
 /**
  * 生成会话导出数据
  */
@@ -342,6 +370,7 @@ export async function exportSessionData(
   options: {
     includeFiles?: boolean;
     includeCharts?: boolean;
+    includeCassette?: boolean;
     format?: 'json' | 'compressed';
   } = {}
 ): Promise<{
@@ -349,12 +378,13 @@ export async function exportSessionData(
   additionalFiles?: Record<string, Blob>;
   exportSize: number;
 }> {
-  const { includeFiles = true, includeCharts = true, format = 'json' } = options;
+  const { includeFiles = true, includeCharts = true, includeCassette = false, format = 'json' } = options;
 
   console.log(`📤 [Serializer] 开始导出会话数据:`, {
     sessionId: session.id,
     includeFiles,
     includeCharts,
+    includeCassette,
     format,
   });
 
@@ -367,6 +397,11 @@ export async function exportSessionData(
   //   // 从IndexedDB获取文件内容
   // }
 
+  // 显式要求时附带服务端录制的该会话 AI 调用（含提示词与上传数据，仅开发环境开启 AI_CASSETTE_MODE 时可取）
+  if (includeCassette) {
+    serializedSession._cassette = await fetchSessionCassette(session.id);
+  }
+
   const exportData = JSON.stringify(serializedSession, null, 2);
   const exportSize = new Blob([exportData]).size;
 
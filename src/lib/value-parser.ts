@@ -0,0 +1,679 @@
+/**
+ * 本地化取值解析
+ * 识别各地区格式的数字（千分位、逗号小数、括号负数）、货币、百分比、中文数量级（万、亿）
+ * 以及多种日期写法（2024年3月、Mar-24、03/05/2024、Excel 序列号），按列统一解析
+ */
+
+import type { DataValue, FieldType } from "@/lib/ai-chart-system/types";
+import type { FieldValueFormat } from "@/types/data";
+
+/** 判定为数值列所需的可解析比例 */
+const NUMERIC_RATIO = 0.8;
+
+/** 判定为日期列所需的可解析比例 */
+const DATE_RATIO = 0.6;
+
+/** 判定为布尔列所需的比例 */
+const BOOLEAN_RATIO = 0.8;
+
+/** Excel 序列号的合理范围（约 1954 年至 2119 年） */
+const EXCEL_SERIAL_RANGE = [20000, 80000] as const;
+
+/** Excel 序列号的起点（1899-12-30，已包含 1900 年闰年错误的修正） */
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 货币符号 → ISO 4217 代码，"¥" 按人民币处理 */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  US$: "USD",
+  HK$: "HKD",
+  A$: "AUD",
+  C$: "CAD",
+  R$: "BRL",
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "CNY",
+  "￥": "CNY",
+  "₩": "KRW",
+  "₹": "INR",
+  "₽": "RUB",
+  元: "CNY",
+  円: "JPY",
+};
+
+/** 货币代码，RMB 视为 CNY */
+const CURRENCY_CODES: Record<string, string> = {
+  USD: "USD",
+  EUR: "EUR",
+  CNY: "CNY",
+  RMB: "CNY",
+  JPY: "JPY",
+  GBP: "GBP",
+  HKD: "HKD",
+  AUD: "AUD",
+  CAD: "CAD",
+  KRW: "KRW",
+  INR: "INR",
+};
+
+/** 数量级单位及其倍数 */
+const MAGNITUDES: Record<string, number> = {
+  千: 1e3,
+  万: 1e4,
+  百万: 1e6,
+  千万: 1e7,
+  亿: 1e8,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  MM: 1e6,
+  mn: 1e6,
+  B: 1e9,
+  bn: 1e9,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  january: 1,
+  feb: 2,
+  february: 2,
+  mar: 3,
+  march: 3,
+  apr: 4,
+  april: 4,
+  may: 5,
+  jun: 6,
+  june: 6,
+  jul: 7,
+  july: 7,
+  aug: 8,
+  august: 8,
+  sep: 9,
+  sept: 9,
+  september: 9,
+  oct: 10,
+  october: 10,
+  nov: 11,
+  november: 11,
+  dec: 12,
+  december: 12,
+};
+
+const GRANULARITY_ORDER = ["year", "quarter", "month", "day", "datetime"] as const;
+
+type DateGranularity = (typeof GRANULARITY_ORDER)[number];
+type DecimalSeparator = "." | ",";
+type DateOrder = "mdy" | "dmy";
+
+/** 日期片段（如 "3月"、"2024年"）不作为计量单位 */
+const DATE_PART_UNITS = /^(年|月|日|号|季度?|周|星期.?)$/;
+
+const BOOLEAN_TEXT = ["true", "false", "是", "否", "yes", "no"];
+
+/** 字段名中表示日期的完整单词（用于识别 Excel 序列号） */
+const DATE_NAME_WORDS = ["date", "datetime", "timestamp"];
+
+/** 中文字段名以这些词结尾时表示日期（如 "下单日期"） */
+const DATE_NAME_SUFFIXES = ["日期", "时间"];
+
+/** 补零的整数编码（如 "00123"），按文本保留 */
+const ZERO_PADDED_INTEGER = /^[+-]?0\d+$/;
+
+/**
+ * 字段名是否表示日期：按完整单词匹配（date、order_date、orderDate、created_at），
+ * 不按子串匹配，避免 "日销售额"、"lifetime_value" 之类的度量字段被当作日期
+ */
+function isDateFieldName(name: string): boolean {
+  const trimmed = name.trim();
+  if (/_at$/i.test(trimmed) || DATE_NAME_SUFFIXES.some(suffix => trimmed.endsWith(suffix))) {
+    return true;
+  }
+
+  const words = trimmed
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/);
+  return words.some(word => DATE_NAME_WORDS.includes(word));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const CURRENCY_PREFIX = new RegExp(
+  `^(${[...Object.keys(CURRENCY_SYMBOLS), ...Object.keys(CURRENCY_CODES)]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|")})\\s*`,
+  "i"
+);
+
+const CURRENCY_SUFFIX = new RegExp(
+  `\\s*(${[...Object.keys(CURRENCY_SYMBOLS), ...Object.keys(CURRENCY_CODES)]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|")})$`,
+  "i"
+);
+
+/** 数字主体 + 可选数量级 + 可选计量单位；拉丁字母数量级后不能紧跟字母（避免把 "km" 拆成 k + m） */
+const NUMBER_BODY =
+  /^(\d[\d.,'\s]*\d|\d|[.,]\d+)\s*(百万|千万|千|万|亿|MM|mn|bn|[kKMB](?![a-zA-Z]))?\s*([a-zA-Z°µ²³/一-龥]{1,6})?$/;
+
+/**
+ * 解析出的数值及其格式
+ */
+export interface ParsedNumber {
+  value: number;
+  kind: "number" | "currency" | "percent";
+  currency?: string;
+  symbol?: string;
+  symbolPosition?: "prefix" | "suffix";
+  magnitude?: string;
+  unit?: string;
+}
+
+/**
+ * 解析出的日期
+ */
+export interface ParsedDate {
+  date: Date;
+  granularity: DateGranularity;
+  /** 数字日期的日/月顺序：无法判断（两个数都不大于 12）时为 "ambiguous" */
+  order?: DateOrder | "ambiguous";
+}
+
+/**
+ * 列分析结果
+ */
+export interface ColumnAnalysis {
+  type: FieldType;
+  format?: FieldValueFormat;
+  warnings: string[];
+}
+
+const currencyOf = (token: string) =>
+  CURRENCY_SYMBOLS[token] ?? CURRENCY_CODES[token.toUpperCase()] ?? undefined;
+
+/**
+ * 按小数分隔符把数字主体转换为数值：另一种分隔符、空格与撇号视为千分位
+ */
+function parseNumberBody(body: string, decimalSeparator: DecimalSeparator): number | null {
+  const thousands = decimalSeparator === "." ? "," : ".";
+  const compact = body.replace(/[\s']/g, "");
+  if (compact.split(decimalSeparator).length > 2) return null;
+
+  // 千分位分隔符必须每三位出现一次
+  const [integerPart] = compact.split(decimalSeparator);
+  if (integerPart.includes(thousands)) {
+    const groups = integerPart.split(thousands);
+    if (groups.slice(1).some(group => group.length !== 3) || groups[0].length > 3) return null;
+  }
+
+  const normalized = compact.split(thousands).join("").replace(decimalSeparator, ".");
+  const value = Number(normalized.startsWith(".") ? `0${normalized}` : normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * 从单个取值推断小数分隔符，无法判断（如 "1,234"、"1.234"）时返回 null
+ */
+function inferDecimalSeparator(text: string): DecimalSeparator | null {
+  const body = text.replace(/[^\d.,]/g, "");
+  const lastDot = body.lastIndexOf(".");
+  const lastComma = body.lastIndexOf(",");
+
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? "." : ",";
+  if (lastDot < 0 && lastComma < 0) return null;
+
+  const separator = lastDot >= 0 ? "." : ",";
+  const other = separator === "." ? "," : ".";
+  if (body.split(separator).length > 2) return other;
+  return body.length - body.lastIndexOf(separator) - 1 === 3 ? null : separator;
+}
+
+/**
+ * 按列推断小数分隔符：多数可判断的取值使用逗号小数时返回 ","，否则返回 "."
+ */
+export function detectDecimalSeparator(values: DataValue[]): DecimalSeparator {
+  let dot = 0;
+  let comma = 0;
+  values.forEach(value => {
+    if (typeof value !== "string") return;
+    const separator = inferDecimalSeparator(value);
+    if (separator === ".") dot++;
+    if (separator === ",") comma++;
+  });
+  return comma > dot ? "," : ".";
+}
+
+/**
+ * 解析本地化数字，不是数字时返回 null
+ * 支持千分位、逗号小数、括号负数、货币符号与代码、百分比、万/亿/k/M 数量级与计量单位，百分比保留为百分点（"45%" → 45）
+ */
+export function parseLocaleNumber(
+  value: DataValue,
+  decimalSeparator: DecimalSeparator = "."
+): ParsedNumber | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? { value, kind: "number" } : null;
+  }
+  if (typeof value !== "string") return null;
+
+  let text = value.replace(/[\u00a0\u2007\u202f]/g, " ").trim();
+  if (text === "") return null;
+
+  // 普通数字快速路径（含科学计数法）
+  if (decimalSeparator === "." && /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(text)) {
+    return { value: Number(text), kind: "number" };
+  }
+
+  let negative = false;
+  const parenthesized = text.match(/^\((.*)\)$/);
+  if (parenthesized) {
+    negative = true;
+    text = parenthesized[1].trim();
+  }
+
+  const takeSign = () => {
+    const sign = text.match(/^[-−+]\s*/);
+    if (sign) {
+      negative = negative || sign[0].trim() !== "+";
+      text = text.slice(sign[0].length);
+    }
+  };
+
+  takeSign();
+
+  let currency: string | undefined;
+  let symbol: string | undefined;
+  let symbolPosition: ParsedNumber["symbolPosition"];
+  const prefix = text.match(CURRENCY_PREFIX);
+  if (prefix) {
+    symbol = prefix[1];
+    currency = currencyOf(symbol);
+    symbolPosition = "prefix";
+    text = text.slice(prefix[0].length);
+    takeSign();
+  }
+
+  if (/-$/.test(text)) {
+    negative = true;
+    text = text.slice(0, -1).trim();
+  }
+
+  let percent = false;
+  if (/[%％]$/.test(text)) {
+    percent = true;
+    text = text.slice(0, -1).trim();
+  }
+
+  if (!currency) {
+    const suffix = text.match(CURRENCY_SUFFIX);
+    if (suffix && /[\d万亿千kKMB]$/.test(text.slice(0, suffix.index).trim())) {
+      symbol = suffix[1];
+      currency = currencyOf(symbol);
+      symbolPosition = "suffix";
+      text = text.slice(0, suffix.index).trim();
+    }
+  }
+
+  const match = text.match(NUMBER_BODY);
+  if (!match) return null;
+
+  const [, body, magnitude, unit] = match;
+  if (unit && (MONTHS[unit.toLowerCase()] || DATE_PART_UNITS.test(unit))) return null;
+
+  const parsed = parseNumberBody(body, decimalSeparator);
+  if (parsed === null) return null;
+
+  const scaled = parsed * (magnitude ? MAGNITUDES[magnitude] : 1);
+  return {
+    value: negative ? -scaled : scaled,
+    kind: currency ? "currency" : percent ? "percent" : "number",
+    ...(currency && { currency, symbol, symbolPosition }),
+    ...(magnitude && { magnitude }),
+    ...(unit && { unit }),
+  };
+}
+
+const toFullYear = (year: string) => {
+  const value = Number(year);
+  if (year.length === 4) return value;
+  return value < 70 ? 2000 + value : 1900 + value;
+};
+
+function buildDate(year: number, month: number, day = 1): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 ? date : null;
+}
+
+/**
+ * 解析 Excel 日期序列号
+ */
+export function fromExcelSerial(serial: number): Date {
+  return new Date(EXCEL_EPOCH + Math.round(serial * DAY_MS));
+}
+
+/**
+ * 解析日期，不是日期时返回 null
+ * order 指定数字日期（如 03/05/2024）的日/月顺序，缺省时两个数都不大于 12 则按月/日/年解析并标记为 ambiguous
+ */
+export function parseDateValue(value: DataValue, order?: DateOrder): ParsedDate | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    const midnight = value.getUTCHours() + value.getUTCMinutes() + value.getUTCSeconds() === 0;
+    return { date: value, granularity: midnight ? "day" : "datetime" };
+  }
+  if (typeof value !== "string") return null;
+
+  const text = value.trim();
+  let match: RegExpMatchArray | null;
+
+  // ISO 8601：2024-03、2024-03-05、2024-03-05T10:00:00Z
+  if ((match = text.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/))) {
+    const date = buildDate(Number(match[1]), Number(match[2]), Number(match[3] ?? 1));
+    return date && { date, granularity: match[3] ? "day" : "month" };
+  }
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}/.test(text)) {
+    const date = new Date(text.replace(" ", "T"));
+    return isNaN(date.getTime()) ? null : { date, granularity: "datetime" };
+  }
+
+  // 2024/3/5、2024.03
+  if ((match = text.match(/^(\d{4})[/.](\d{1,2})(?:[/.](\d{1,2}))?$/))) {
+    const date = buildDate(Number(match[1]), Number(match[2]), Number(match[3] ?? 1));
+    return date && { date, granularity: match[3] ? "day" : "month" };
+  }
+
+  // 2024年、2024年3月、2024年3月5日
+  if ((match = text.match(/^(\d{4})\s*年(?:\s*(\d{1,2})\s*月(?:\s*(\d{1,2})\s*[日号])?)?$/))) {
+    const date = buildDate(Number(match[1]), Number(match[2] ?? 1), Number(match[3] ?? 1));
+    const granularity = match[3] ? "day" : match[2] ? "month" : "year";
+    return date && { date, granularity };
+  }
+
+  // 季度：2024Q1、2024 Q1、2024年Q1、Q1 2024、2024年第1季度
+  if (
+    (match = text.match(/^(\d{4})\s*[-年]?\s*(?:Q([1-4])|第?([1-4一二三四])季度?)$/i)) ||
+    (match = text.match(/^Q([1-4])[\s-]*(\d{4})$/i))
+  ) {
+    const quarterFirst = /^Q/i.test(text);
+    const year = Number(quarterFirst ? match[2] : match[1]);
+    const quarterText = quarterFirst ? match[1] : (match[2] ?? match[3]);
+    const quarter = "一二三四".includes(quarterText)
+      ? "一二三四".indexOf(quarterText) + 1
+      : Number(quarterText);
+    const date = buildDate(year, (quarter - 1) * 3 + 1);
+    return date && { date, granularity: "quarter" };
+  }
+
+  // Mar-24、Mar 2024、March 2024
+  if (
+    (match = text.match(/^([a-z]{3,9})\.?[\s\-/']*(\d{2}|\d{4})$/i)) &&
+    MONTHS[match[1].toLowerCase()]
+  ) {
+    const date = buildDate(toFullYear(match[2]), MONTHS[match[1].toLowerCase()]);
+    return date && { date, granularity: "month" };
+  }
+
+  // March 5, 2024、Mar 5 2024
+  if (
+    (match = text.match(/^([a-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/i)) &&
+    MONTHS[match[1].toLowerCase()]
+  ) {
+    const date = buildDate(Number(match[3]), MONTHS[match[1].toLowerCase()], Number(match[2]));
+    return date && { date, granularity: "day" };
+  }
+
+  // 5 Mar 2024、05-Mar-24
+  if (
+    (match = text.match(/^(\d{1,2})[\s-]([a-z]{3,9})\.?[\s\-,]+(\d{2}|\d{4})$/i)) &&
+    MONTHS[match[2].toLowerCase()]
+  ) {
+    const date = buildDate(toFullYear(match[3]), MONTHS[match[2].toLowerCase()], Number(match[1]));
+    return date && { date, granularity: "day" };
+  }
+
+  // 03/05/2024、5.3.2024、03-05-24
+  if ((match = text.match(/^(\d{1,2})([/.-])(\d{1,2})\2(\d{2}|\d{4})$/))) {
+    const first = Number(match[1]);
+    const second = Number(match[3]);
+    const year = toFullYear(match[4]);
+    const detected: DateOrder | "ambiguous" =
+      first > 12 ? "dmy" : second > 12 ? "mdy" : "ambiguous";
+    const resolved = detected === "ambiguous" ? (order ?? "mdy") : detected;
+    const date =
+      resolved === "dmy" ? buildDate(year, second, first) : buildDate(year, first, second);
+    return date && { date, granularity: "day", order: detected };
+  }
+
+  // 其余含四位年份的写法（如 "Tue Mar 05 2024 10:00:00 GMT+0800"）交给 Date.parse
+  if (/\b\d{4}\b/.test(text) && /[a-z]{3}/i.test(text) && text.length >= 10) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : { date, granularity: "datetime" };
+  }
+
+  return null;
+}
+
+/**
+ * 日期的标准文本：按粒度输出 "2024"、"2024-03"、"2024-03-05" 或完整的 ISO 时间
+ */
+export function toIsoDateText(date: Date, granularity: DateGranularity): string {
+  const iso = date.toISOString();
+  switch (granularity) {
+    case "year":
+      return iso.slice(0, 4);
+    case "quarter":
+    case "month":
+      return iso.slice(0, 7);
+    case "day":
+      return iso.slice(0, 10);
+    default:
+      return iso;
+  }
+}
+
+function mostCommon<T>(items: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  items.forEach(item => counts.set(item, (counts.get(item) ?? 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+const isBooleanLike = (value: DataValue) =>
+  typeof value === "boolean" ||
+  (value !== null && BOOLEAN_TEXT.includes(String(value).toLowerCase()));
+
+/**
+ * 汇总数值列的格式：货币、百分比、数量级与单位取最常见的写法
+ */
+function summarizeNumberFormat(
+  name: string,
+  parsed: ParsedNumber[],
+  decimalSeparator: DecimalSeparator,
+  warnings: string[]
+): FieldValueFormat | undefined {
+  const currencies = Array.from(new Set(parsed.map(item => item.currency).filter(Boolean)));
+  if (currencies.length > 1) {
+    warnings.push(`字段 "${name}" 包含多种货币（${currencies.join("、")}），数值未做汇率换算`);
+  }
+
+  const withCurrency = parsed.filter(item => item.currency);
+  const percentCount = parsed.filter(item => item.kind === "percent").length;
+  const kind: FieldValueFormat["kind"] =
+    withCurrency.length > 0 ? "currency" : percentCount * 2 >= parsed.length ? "percent" : "number";
+  const currency = mostCommon(withCurrency.map(item => item.currency));
+  const symbolSource = withCurrency.find(item => item.currency === currency);
+  const magnitude = mostCommon(parsed.map(item => item.magnitude).filter(Boolean) as string[]);
+  const unit = mostCommon(parsed.map(item => item.unit).filter(Boolean) as string[]);
+
+  const format: FieldValueFormat = {
+    kind,
+    ...(symbolSource && {
+      currency: symbolSource.currency,
+      symbol: symbolSource.symbol,
+      symbolPosition: symbolSource.symbolPosition,
+    }),
+    ...(magnitude && { magnitude }),
+    ...(unit && { unit }),
+    ...(decimalSeparator === "," && { decimalSeparator }),
+  };
+
+  return Object.keys(format).length > 1 || kind !== "number" ? format : undefined;
+}
+
+/**
+ * 汇总日期列的格式并检查日/月顺序：有可判断的取值时按其顺序解析，全部无法判断时按月/日/年解析并给出提示
+ */
+function summarizeDateFormat(
+  name: string,
+  values: DataValue[],
+  warnings: string[]
+): FieldValueFormat {
+  const parsed = values.map(value => parseDateValue(value)).filter(Boolean) as ParsedDate[];
+  const orders = parsed.map(item => item.order).filter(Boolean);
+  const hasDmy = orders.includes("dmy");
+  const hasMdy = orders.includes("mdy");
+  const ambiguousSample = values.find(value => parseDateValue(value)?.order === "ambiguous");
+
+  let dateOrder: DateOrder | undefined;
+  if (hasDmy && hasMdy) {
+    dateOrder =
+      orders.filter(order => order === "dmy").length >
+      orders.filter(order => order === "mdy").length
+        ? "dmy"
+        : "mdy";
+    warnings.push(
+      `字段 "${name}" 同时存在 日/月/年 与 月/日/年 两种日期写法，已统一按 ${dateOrder === "dmy" ? "日/月/年" : "月/日/年"} 解析`
+    );
+  } else if (hasDmy || hasMdy) {
+    dateOrder = hasDmy ? "dmy" : "mdy";
+  } else if (ambiguousSample !== undefined) {
+    dateOrder = "mdy";
+    warnings.push(
+      `字段 "${name}" 的日期无法确定日/月顺序（如 ${ambiguousSample}），已按 月/日/年 解析`
+    );
+  }
+
+  const granularity = GRANULARITY_ORDER[
+    Math.max(...parsed.map(item => GRANULARITY_ORDER.indexOf(item.granularity)))
+  ] as DateGranularity;
+
+  return { kind: "date", granularity, ...(dateOrder && { dateOrder }) };
+}
+
+/**
+ * 分析一列取值，推断字段类型与取值格式
+ * 布尔值优先，其次为数值（含货币、百分比），再次为日期；补零的整数编码按文本处理；
+ * 字段名为日期单词且取值为合理范围内的数字时按 Excel 序列号解析
+ */
+export function analyzeColumn(name: string, values: DataValue[]): ColumnAnalysis {
+  const present = values.filter(value => value !== null && value !== undefined && value !== "");
+  const warnings: string[] = [];
+  if (present.length === 0) return { type: "string", warnings };
+
+  const total = present.length;
+  if (present.filter(isBooleanLike).length / total > BOOLEAN_RATIO) {
+    return { type: "boolean", warnings };
+  }
+
+  // 补零编码（如邮编、工号）转为数字会丢失前导零，整列按文本处理
+  if (present.some(value => typeof value === "string" && ZERO_PADDED_INTEGER.test(value.trim()))) {
+    return { type: "string", warnings };
+  }
+
+  const decimalSeparator = detectDecimalSeparator(present);
+  let numbers = present
+    .map(value => parseLocaleNumber(value, decimalSeparator))
+    .filter(Boolean) as ParsedNumber[];
+
+  // 单位不一致（如 "1st"、"2nd"）时带单位的取值不算数值
+  if (new Set(numbers.map(item => item.unit).filter(Boolean)).size > 1) {
+    numbers = numbers.filter(item => !item.unit);
+  }
+
+  if (numbers.length / total > NUMERIC_RATIO) {
+    const [min, max] = EXCEL_SERIAL_RANGE;
+    const looksLikeSerial =
+      isDateFieldName(name) &&
+      numbers.every(item => item.kind === "number" && !item.unit && !item.magnitude) &&
+      numbers.every(item => item.value >= min && item.value <= max);
+    if (looksLikeSerial) {
+      const fractional = numbers.some(item => !Number.isInteger(item.value));
+      return {
+        type: "date",
+        format: { kind: "date", granularity: fractional ? "datetime" : "day", excelSerial: true },
+        warnings: [`字段 "${name}" 按 Excel 日期序列号解析`],
+      };
+    }
+
+    return {
+      type: "number",
+      format: summarizeNumberFormat(name, numbers, decimalSeparator, warnings),
+      warnings,
+    };
+  }
+
+  const dateCount = present.filter(value => parseDateValue(value) !== null).length;
+  if (dateCount / total > DATE_RATIO) {
+    return { type: "date", format: summarizeDateFormat(name, present, warnings), warnings };
+  }
+
+  return { type: "string", warnings };
+}
+
+/**
+ * 按字段类型与格式转换单个取值，无法解析时返回 null
+ */
+export function parseFieldValue(
+  value: DataValue,
+  type: FieldType,
+  format?: FieldValueFormat
+): DataValue {
+  if (value === null || value === undefined || value === "") return null;
+
+  switch (type) {
+    case "number":
+      return parseLocaleNumber(value, format?.decimalSeparator)?.value ?? null;
+    case "date": {
+      if (format?.excelSerial) {
+        const serial = parseLocaleNumber(value)?.value;
+        return serial === undefined
+          ? null
+          : toIsoDateText(fromExcelSerial(serial), format.granularity ?? "day");
+      }
+      const parsed = parseDateValue(value, format?.dateOrder);
+      return parsed ? toIsoDateText(parsed.date, format?.granularity ?? parsed.granularity) : null;
+    }
+    case "boolean":
+      return ["true", "1", "是", "yes"].includes(String(value).toLowerCase());
+    default:
+      return String(value).trim();
+  }
+}
+
+/**
+ * 按字段格式显示数值，用于坐标轴刻度与数值标签
+ * 有数量级时按该数量级缩写（120000 → "¥12万"），百分比追加 "%"，逗号小数格式按欧洲写法显示
+ */
+export function formatFieldValue(value: DataValue, format?: FieldValueFormat): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "number") return String(value);
+  if (!format || format.kind === "date") return value.toLocaleString();
+
+  const locale = format.decimalSeparator === "," ? "de-DE" : undefined;
+  const factor = format.magnitude ? MAGNITUDES[format.magnitude] : 1;
+  const scaled = value / factor;
+  const number = `${Math.abs(scaled).toLocaleString(locale, { maximumFractionDigits: 2 })}${format.magnitude ?? ""}`;
+  const sign = scaled < 0 ? "-" : "";
+
+  if (format.kind === "percent") return `${sign}${number}%`;
+  if (format.kind === "currency" && format.symbol) {
+    return format.symbolPosition === "suffix"
+      ? `${sign}${number}${/^[A-Za-z€]/.test(format.symbol) ? " " : ""}${format.symbol}`
+      : `${sign}${format.symbol}${number}`;
+  }
+  return format.unit ? `${sign}${number} ${format.unit}` : `${sign}${number}`;
+}
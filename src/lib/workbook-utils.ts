@@ -0,0 +1,541 @@
+/**
+ * Excel 工作簿解析工具
+ * 识别每个工作表中的数据表区域（跳过封面、标题行与备注行），
+ * 处理合并单元格与多行表头，并支持按工作表名称与区域选择数据
+ */
+
+import * as XLSX from "xlsx";
+import { buildHeaders } from "@/lib/csv-parser";
+import {
+  AIChartError,
+  DataRow,
+  DataValue,
+  SheetSelection,
+  WorkbookInfo,
+  WorkbookSheetSummary,
+  WorkbookTableRegion,
+} from "@/lib/ai-chart-system/types";
+
+/** 表头最多行数 */
+const MAX_HEADER_ROWS = 3;
+
+/** 多行表头的连接符，如 "销售额 - Q1" */
+const HEADER_JOINER = " - ";
+
+/**
+ * 单元格区域（0 起始，首尾均包含）
+ */
+export interface CellBounds {
+  startRow: number;
+  endRow: number;
+  startCol: number;
+  endCol: number;
+}
+
+/**
+ * 按绝对坐标存放的工作表单元格值，空单元格为 null
+ */
+export type SheetGrid = DataValue[][];
+
+/**
+ * 工作表的网格与合并单元格
+ */
+export interface ParsedSheet {
+  name: string;
+  grid: SheetGrid;
+  merges: XLSX.Range[];
+}
+
+/**
+ * 从工作簿中提取的数据表
+ */
+export interface WorkbookTable {
+  headers: string[];
+  rows: DataRow[];
+  info: WorkbookInfo;
+  warnings: string[];
+}
+
+/**
+ * 读取工作簿，日期单元格保留格式化文本
+ */
+export function readWorkbook(buffer: ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(new Uint8Array(buffer), { type: "array", cellDates: true });
+}
+
+/**
+ * 读取工作表的单元格值与合并单元格
+ */
+export function parseSheet(workbook: XLSX.WorkBook, name: string): ParsedSheet {
+  const worksheet = workbook.Sheets[name];
+  const grid: SheetGrid = [];
+  if (!worksheet?.["!ref"]) return { name, grid, merges: [] };
+
+  const range = XLSX.utils.decode_range(worksheet["!ref"]);
+  for (let r = 0; r <= range.e.r; r++) {
+    const row: DataValue[] = new Array(range.e.c + 1).fill(null);
+    if (r >= range.s.r) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        row[c] = toCellValue(worksheet[XLSX.utils.encode_cell({ r, c })]);
+      }
+    }
+    grid.push(row);
+  }
+
+  return { name, grid, merges: worksheet["!merges"] ?? [] };
+}
+
+function toCellValue(cell: XLSX.CellObject | undefined): DataValue {
+  if (!cell || cell.t === "z" || cell.t === "e" || cell.v === undefined) return null;
+
+  if (cell.v instanceof Date) {
+    return cell.w ?? cell.v.toISOString().slice(0, 10);
+  }
+  if (typeof cell.v === "string") {
+    const text = cell.v.trim();
+    return text === "" ? null : text;
+  }
+  return cell.v;
+}
+
+/**
+ * A1 格式的区域文本，如 "A5:F40"
+ */
+export function formatCellBounds(bounds: CellBounds): string {
+  return XLSX.utils.encode_range({
+    s: { r: bounds.startRow, c: bounds.startCol },
+    e: { r: bounds.endRow, c: bounds.endCol },
+  });
+}
+
+/**
+ * 解析区域文本：支持 A1 区域（"A5:F40"）与行区间（"5:40"、"5-40"），无法识别时返回 null
+ * 行区间不限定列，返回的 startCol/endCol 为 undefined
+ */
+export function parseCellBounds(
+  text: string
+): (Pick<CellBounds, "startRow" | "endRow"> & Partial<CellBounds>) | null {
+  const value = text.trim().toUpperCase();
+
+  const rowMatch = value.match(/^(\d+)\s*[:\-~]\s*(\d+)$/);
+  if (rowMatch) {
+    const [start, end] = [Number(rowMatch[1]), Number(rowMatch[2])].sort((a, b) => a - b);
+    if (start < 1) return null;
+    return { startRow: start - 1, endRow: end - 1 };
+  }
+
+  const cellMatch = value.match(/^([A-Z]{1,3}\d+):([A-Z]{1,3}\d+)$/);
+  if (cellMatch) {
+    const { s, e } = XLSX.utils.decode_range(value);
+    return {
+      startRow: Math.min(s.r, e.r),
+      endRow: Math.max(s.r, e.r),
+      startCol: Math.min(s.c, e.c),
+      endCol: Math.max(s.c, e.c),
+    };
+  }
+
+  return null;
+}
+
+/** 工作表名前后的引号 */
+const SHEET_QUOTES = "\"'“”‘’「」『』《》";
+
+/** 紧邻工作表名之前的说明，如 "sheet Q3"、"工作表：Q3" */
+const SHEET_KEYWORD_BEFORE = /(?:sheet|tab|worksheet|工作表)\s*[:：]?\s*$/i;
+
+/** 紧邻工作表名之后的说明，如 "Q3 sheet"、"Q3工作表" */
+const SHEET_KEYWORD_AFTER = /^\s*(?:(?:sheet|tab|worksheet)\b|工作表|表|页)/i;
+
+const isWordChar = (char: string | undefined) => !!char && /[A-Za-z0-9_]/.test(char);
+
+/**
+ * 在描述中查找工作簿里实际存在的工作表名（优先匹配较长的名称）
+ * 名称需带引号，或紧邻 sheet/工作表 等说明，避免把普通词语误认为工作表
+ */
+function findMentionedSheet(text: string, sheetNames: string[]): string | undefined {
+  const lowerText = text.toLowerCase();
+  const names = [...sheetNames].filter(name => name.trim()).sort((a, b) => b.length - a.length);
+
+  for (const name of names) {
+    const target = name.trim().toLowerCase();
+    for (let index = lowerText.indexOf(target); index >= 0; ) {
+      const end = index + target.length;
+      const before = text[index - 1];
+      const after = text[end];
+      const isWholeWord =
+        !(isWordChar(before) && isWordChar(target[0])) &&
+        !(isWordChar(after) && isWordChar(target[target.length - 1]));
+      const quoted = !!before && SHEET_QUOTES.includes(before);
+
+      if (
+        isWholeWord &&
+        (quoted ||
+          SHEET_KEYWORD_BEFORE.test(text.slice(0, index)) ||
+          SHEET_KEYWORD_AFTER.test(text.slice(end)))
+      ) {
+        return name;
+      }
+      index = lowerText.indexOf(target, index + 1);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 从用户描述中识别工作表与区域，如 "use the Q3 sheet, rows 5-40"、"用 Q3 工作表 A3:E7"
+ * 工作表按工作簿中实际的名称匹配；未匹配到但描述中带引号指定了工作表时保留该名称，由提取时给出提示
+ */
+export function parseSheetSelection(text: string, sheetNames: string[]): SheetSelection {
+  const selection: SheetSelection = {};
+
+  const quotedPatterns = [
+    /(?:sheet|tab|worksheet|工作表)\s*[:：]?\s*["'“‘「『《]([^"'”’」』》]+)["'”’」』》]/i,
+    /["'“‘「『《]([^"'”’」』》]+)["'”’」』》]\s*(?:sheet|tab|worksheet|工作表|表)/i,
+  ];
+  const sheet =
+    findMentionedSheet(text, sheetNames) ??
+    quotedPatterns.map(pattern => text.match(pattern)?.[1].trim()).find(Boolean);
+  if (sheet) {
+    selection.sheet = sheet;
+  }
+
+  const rangeMatch = text.match(/\b([A-Za-z]{1,3}\d+\s*:\s*[A-Za-z]{1,3}\d+)\b/);
+  const rowMatch =
+    text.match(/\brows?\s+(\d+)\s*(?:-|–|~|to|through)\s*(\d+)/i) ||
+    text.match(/第\s*(\d+)\s*(?:-|–|~|至|到)\s*第?\s*(\d+)\s*行/);
+  if (rangeMatch) {
+    selection.range = rangeMatch[1].replace(/\s/g, "").toUpperCase();
+  } else if (rowMatch) {
+    selection.range = `${rowMatch[1]}:${rowMatch[2]}`;
+  }
+
+  return selection;
+}
+
+/**
+ * 将合并单元格的值填充到合并区域的每个单元格
+ */
+function fillMerges(grid: SheetGrid, merges: XLSX.Range[]): SheetGrid {
+  const filled = grid.map(row => [...row]);
+  merges.forEach(({ s, e }) => {
+    const value = grid[s.r]?.[s.c] ?? null;
+    for (let r = s.r; r <= e.r && r < filled.length; r++) {
+      for (let c = s.c; c <= e.c && c < filled[r].length; c++) {
+        filled[r][c] = value;
+      }
+    }
+  });
+  return filled;
+}
+
+const isEmpty = (value: DataValue | undefined) => value === null || value === undefined;
+
+const isTextCell = (value: DataValue | undefined) =>
+  typeof value === "string" && !/^[+-]?[\d,]*\.?\d+%?$/.test(value);
+
+/** 表头单元格：文本或年份（如 2023） */
+const isHeaderCell = (value: DataValue | undefined) =>
+  isTextCell(value) ||
+  (typeof value === "number" && Number.isInteger(value) && value >= 1900 && value <= 2100);
+
+function rowValues(grid: SheetGrid, row: number, startCol: number, endCol: number): DataValue[] {
+  return (grid[row] ?? []).slice(startCol, endCol + 1);
+}
+
+function isCoveredByMerge(merges: XLSX.Range[], row: number, col: number): boolean {
+  return merges.some(({ s, e }) => row >= s.r && row <= e.r && col >= s.c && col <= e.c);
+}
+
+/**
+ * 将连续的非空下标分段，如 [1,2,3,6,7] → [[1,3],[6,7]]
+ */
+function splitRuns(indexes: number[]): [number, number][] {
+  return indexes.reduce<[number, number][]>((runs, index) => {
+    const last = runs[runs.length - 1];
+    if (last && index === last[1] + 1) {
+      last[1] = index;
+    } else {
+      runs.push([index, index]);
+    }
+    return runs;
+  }, []);
+}
+
+/**
+ * 标题或备注行：区域内只有首列一个值（常见为横跨整表的合并标题、"数据来源：…"）
+ */
+function isCaptionRow(grid: SheetGrid, row: number, startCol: number, endCol: number): boolean {
+  const values = rowValues(grid, row, startCol, endCol);
+  const filled = values.filter(value => !isEmpty(value));
+  return endCol > startCol && filled.length === 1 && !isEmpty(values[0]);
+}
+
+/**
+ * 识别表头行数：首行全为文本（或年份）时视为表头；
+ * 若表头行存在横向合并、纵向合并延伸到下一行或留空的分组位，且下一行仍为文本，则继续合并为多行表头
+ */
+function detectHeaderRows(grid: SheetGrid, merges: XLSX.Range[], bounds: CellBounds): number {
+  const { startRow, endRow, startCol, endCol } = bounds;
+  const isHeaderRow = (row: number) => {
+    const values = rowValues(grid, row, startCol, endCol);
+    const filled = values.filter(value => !isEmpty(value));
+    return (
+      filled.length > 0 &&
+      filled.every(isHeaderCell) &&
+      (filled.some(isTextCell) || isEmpty(values[0]))
+    );
+  };
+
+  if (!isHeaderRow(startRow)) return 0;
+
+  let headerRows = 1;
+  while (headerRows < MAX_HEADER_ROWS && startRow + headerRows < endRow) {
+    const current = startRow + headerRows - 1;
+    const next = current + 1;
+    if (!isHeaderRow(next)) break;
+
+    const inColumns = (range: XLSX.Range) => range.s.c <= endCol && range.e.c >= startCol;
+    const continues =
+      merges.some(
+        range =>
+          inColumns(range) &&
+          ((range.s.r <= current && range.e.r >= next) ||
+            (range.s.r === current && range.e.c > range.s.c))
+      ) ||
+      rowValues(grid, current, startCol, endCol).some(
+        (value, offset) => isEmpty(value) && !isCoveredByMerge(merges, current, startCol + offset)
+      );
+    if (!continues) break;
+    headerRows++;
+  }
+
+  return headerRows;
+}
+
+/**
+ * 数据表特征得分：数据行数 × 列数 × 填充率，数值单元格占比越高得分越高
+ */
+function scoreRegion(grid: SheetGrid, bounds: CellBounds, headerRows: number): number {
+  const { startRow, endRow, startCol, endCol } = bounds;
+  const columnCount = endCol - startCol + 1;
+  const cells = [];
+  for (let r = startRow + headerRows; r <= endRow; r++) {
+    cells.push(...rowValues(grid, r, startCol, endCol));
+  }
+
+  const filled = cells.filter(value => !isEmpty(value));
+  if (filled.length === 0) return 0;
+
+  const numericRatio = filled.filter(value => typeof value === "number").length / filled.length;
+  const density = filled.length / cells.length;
+  const rowCount = endRow - startRow + 1 - headerRows;
+  const score =
+    rowCount * columnCount * density * (0.25 + numericRatio) + (headerRows > 0 ? columnCount : 0);
+
+  return Math.round(score * 100) / 100;
+}
+
+function toRegion(grid: SheetGrid, merges: XLSX.Range[], bounds: CellBounds): WorkbookTableRegion {
+  const headerRows = detectHeaderRows(grid, merges, bounds);
+  return {
+    range: formatCellBounds(bounds),
+    headerRows,
+    rowCount: bounds.endRow - bounds.startRow + 1 - headerRows,
+    columnCount: bounds.endCol - bounds.startCol + 1,
+    score: scoreRegion(grid, bounds, headerRows),
+  };
+}
+
+/**
+ * 识别工作表中的数据表区域（按自上而下、自左而右的顺序）
+ * 以空行分隔上下的表、以空列分隔并排的表，并去掉首尾的标题与备注行
+ */
+export function detectTableRegions(
+  sheet: ParsedSheet,
+  limits?: Partial<CellBounds>
+): WorkbookTableRegion[] {
+  const { grid, merges } = sheet;
+  const width = Math.max(0, ...grid.map(row => row.length));
+  const top = Math.max(0, limits?.startRow ?? 0);
+  const bottom = Math.min(grid.length - 1, limits?.endRow ?? grid.length - 1);
+  const left = Math.max(0, limits?.startCol ?? 0);
+  const right = Math.min(width - 1, limits?.endCol ?? width - 1);
+
+  const range = (start: number, end: number) =>
+    Array.from({ length: Math.max(0, end - start + 1) }, (_, index) => start + index);
+  const hasValue = (r: number, c: number) => !isEmpty(grid[r]?.[c]);
+
+  const regions: WorkbookTableRegion[] = [];
+  const rowRuns = splitRuns(
+    range(top, bottom).filter(r => range(left, right).some(c => hasValue(r, c)))
+  );
+
+  rowRuns.forEach(([runTop, runBottom]) => {
+    const columns = range(left, right).filter(c =>
+      range(runTop, runBottom).some(r => hasValue(r, c) || isCoveredByMerge(merges, r, c))
+    );
+
+    splitRuns(columns).forEach(([startCol, endCol]) => {
+      let startRow = runTop;
+      let endRow = runBottom;
+      while (startRow < endRow && isCaptionRow(grid, startRow, startCol, endCol)) startRow++;
+      while (endRow > startRow && isCaptionRow(grid, endRow, startCol, endCol)) endRow--;
+
+      const region = toRegion(grid, merges, { startRow, endRow, startCol, endCol });
+      if (region.rowCount > 0 && region.score > 0) {
+        regions.push(region);
+      }
+    });
+  });
+
+  return regions;
+}
+
+/**
+ * 汇总工作簿中每个工作表的数据表区域，用于界面展示与自动选择
+ */
+export function summarizeWorkbook(workbook: XLSX.WorkBook): WorkbookSheetSummary[] {
+  return workbook.SheetNames.map(name => ({
+    name,
+    regions: detectTableRegions(parseSheet(workbook, name)),
+  }));
+}
+
+/**
+ * 按区域生成表头与数据行
+ * 合并单元格的值填充到整个合并区域；多行表头逐列拼接（如 "销售额 - Q1"），
+ * 未合并但留空的分组表头沿用左侧的分组名
+ */
+export function buildTable(
+  sheet: ParsedSheet,
+  region: WorkbookTableRegion
+): { headers: string[]; rows: DataRow[] } {
+  const { s, e } = XLSX.utils.decode_range(region.range);
+  const grid = fillMerges(sheet.grid, sheet.merges);
+  const headerEnd = s.r + region.headerRows;
+
+  const headerCells = Array.from({ length: region.columnCount }, (_, offset) => {
+    const parts: string[] = [];
+    for (let r = s.r; r < headerEnd; r++) {
+      let value = grid[r]?.[s.c + offset];
+      // 分组表头行（非最后一行）的空位沿用左侧分组名
+      if (isEmpty(value) && r < headerEnd - 1) {
+        for (let c = s.c + offset - 1; c >= s.c && isEmpty(value); c--) {
+          value = grid[r]?.[c];
+        }
+      }
+      const text = isEmpty(value) ? "" : String(value).trim();
+      if (text && parts[parts.length - 1] !== text) parts.push(text);
+    }
+    return parts.join(HEADER_JOINER);
+  });
+  const headers = buildHeaders(headerCells, region.columnCount);
+
+  const rows: DataRow[] = [];
+  for (let r = headerEnd; r <= e.r; r++) {
+    const values = rowValues(grid, r, s.c, e.c);
+    if (values.every(isEmpty)) continue;
+
+    const row: DataRow = {};
+    headers.forEach((header, offset) => {
+      const value = values[offset];
+      row[header] = isEmpty(value) ? "" : (value as DataValue);
+    });
+    rows.push(row);
+  }
+
+  return { headers, rows };
+}
+
+function findSheetName(workbook: XLSX.WorkBook, name: string): string | undefined {
+  const normalized = name.trim().toLowerCase();
+  return (
+    workbook.SheetNames.find(sheetName => sheetName === name) ??
+    workbook.SheetNames.find(sheetName => sheetName.trim().toLowerCase() === normalized)
+  );
+}
+
+const pickBest = (regions: WorkbookTableRegion[]) =>
+  regions.reduce<WorkbookTableRegion | undefined>(
+    (best, region) => (!best || region.score > best.score ? region : best),
+    undefined
+  );
+
+/**
+ * 从工作簿中提取数据表
+ * 未指定工作表时选择得分最高的区域；指定区域时仅在该区域内识别表头与数据
+ */
+export function extractWorkbookTable(
+  workbook: XLSX.WorkBook,
+  selection: SheetSelection = {}
+): WorkbookTable {
+  const sheets = summarizeWorkbook(workbook);
+  const warnings: string[] = [];
+
+  let sheetName = selection.sheet ? findSheetName(workbook, selection.sheet) : undefined;
+  if (selection.sheet && !sheetName) {
+    warnings.push(`未找到工作表 "${selection.sheet}"，已自动选择数据表`);
+  }
+
+  if (!sheetName) {
+    const candidates = sheets
+      .map(sheet => ({ name: sheet.name, region: pickBest(sheet.regions) }))
+      .filter(candidate => candidate.region);
+    sheetName = candidates.sort((a, b) => b.region!.score - a.region!.score)[0]?.name;
+  }
+  if (!sheetName) {
+    throw new AIChartError("data_extraction", "INSUFFICIENT_DATA", "工作簿中没有可识别的数据表");
+  }
+
+  const sheet = parseSheet(workbook, sheetName);
+  const summary = sheets.find(item => item.name === sheetName)!;
+
+  let region: WorkbookTableRegion | undefined;
+  const bounds = selection.range ? parseCellBounds(selection.range) : null;
+  if (selection.range && !bounds) {
+    warnings.push(`无法识别区域 "${selection.range}"，已自动识别数据区域`);
+  }
+  if (bounds) {
+    region = pickBest(detectTableRegions(sheet, bounds));
+    if (!region) {
+      throw new AIChartError(
+        "data_extraction",
+        "INSUFFICIENT_DATA",
+        `工作表 "${sheetName}" 的区域 ${selection.range} 中没有数据`
+      );
+    }
+  } else {
+    region = pickBest(summary.regions);
+    if (!region) {
+      throw new AIChartError(
+        "data_extraction",
+        "INSUFFICIENT_DATA",
+        `工作表 "${sheetName}" 中没有可识别的数据表`
+      );
+    }
+  }
+
+  const autoSelected = !selection.sheet && !bounds;
+  const totalRegions = sheets.reduce((sum, item) => sum + item.regions.length, 0);
+  if (autoSelected && totalRegions > 1) {
+    warnings.push(
+      `自动选择工作表 "${sheetName}" 的区域 ${region.range}（共 ${sheets.length} 个工作表、${totalRegions} 个数据区域）`
+    );
+  }
+  if (region.headerRows === 0) {
+    warnings.push("未识别到表头，字段按 Column_1、Column_2… 命名");
+  } else if (region.headerRows > 1) {
+    warnings.push(`表头由 ${region.headerRows} 行合并生成`);
+  }
+
+  const { headers, rows } = buildTable(sheet, region);
+
+  return {
+    headers,
+    rows,
+    info: { sheets, sheet: sheetName, region, autoSelected },
+    warnings,
+  };
+}
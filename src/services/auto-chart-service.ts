@@ -9,7 +9,8 @@ import {
   ConversationContextPayload,
 } from "@/types";
 import { PROCESSING_STEPS } from "@/constants/processing";
-import { CHART_TYPES, CHART_TYPE_LABELS } from "@/constants/chart";
+import { CHART_TYPES } from "@/constants/chart";
+import { chartTypeRegistry } from "@/lib/chart-registry";
 import { AutoExportService } from "./auto-export-service";
 import { LocalStorageService } from "./local-storage-service";
 import { createRoot } from "react-dom/client";
@@ -617,13 +618,20 @@ export class AutoChartService {
           { dimension: "Support", productA: 88, productB: 72, productC: 83 },
         ];
       case BAR:
-      default:
+      default: {
+        // 扩展图表类型使用插件的模板数据
+        const sampleData =
+          chartType === BAR ? undefined : chartTypeRegistry.get(chartType)?.sampleData;
+        if (sampleData?.length) {
+          return sampleData.map(row => ({ ...row }));
+        }
         return [
           { name: "Product A", revenue: 1200, target: 1000 },
           { name: "Product B", revenue: 800, target: 900 },
           { name: "Product C", revenue: 1500, target: 1200 },
           { name: "Product D", revenue: 600, target: 700 },
         ];
+      }
     }
   }
 
@@ -662,7 +670,6 @@ export class AutoChartService {
   }
 
   private getChartTypeLabel(chartType: string): string {
-    const normalizedType = chartType as ChartType;
-    return CHART_TYPE_LABELS[normalizedType]?.en ?? chartType;
+    return chartTypeRegistry.getLabel(chartType as ChartType);
   }
 }
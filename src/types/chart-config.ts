@@ -7,10 +7,19 @@ import {
   CHART_CONFIG_TYPES,
   COLOR_CONFIG_CATEGORIES,
   CHART_CONFIG_MODES,
-  CHART_CONFIG_SCHEMAS,
   CHART_CONFIG_RANGES,
   LINE_DOT_VARIANTS,
   LINE_CURVE_TYPES,
+  COMBO_SERIES_MARKS,
+  COMBO_AXIS_SIDES,
+  HEATMAP_COLOR_SCALES,
+  FUNNEL_CONVERSION_BASES,
+  HISTOGRAM_BIN_METHODS,
+  CHOROPLETH_MAPS,
+  FACET_AXIS_MODES,
+  AGGREGATE_FUNCTIONS,
+  TIME_BUCKETS,
+  CATEGORY_SORT_MODES,
   CONFIG_COMPONENT_MAP,
 } from "@/constants/chart-config";
 import { ChartType } from "@/types/chart";
@@ -41,6 +50,64 @@ export type LineDotVariant = (typeof LINE_DOT_VARIANTS)[number]["value"];
  */
 export type LineCurveType = (typeof LINE_CURVE_TYPES)[number]["value"];
 
+/**
+ * 组合图系列标记类型
+ */
+export type ComboSeriesMark = (typeof COMBO_SERIES_MARKS)[number]["value"];
+
+/**
+ * 组合图Y轴位置
+ */
+export type ComboAxisSide = (typeof COMBO_AXIS_SIDES)[number]["value"];
+
+/**
+ * 热力图色阶类型
+ */
+export type HeatmapColorScale = (typeof HEATMAP_COLOR_SCALES)[number]["value"];
+
+/**
+ * 漏斗图转化率计算基准
+ */
+export type FunnelConversionBase = (typeof FUNNEL_CONVERSION_BASES)[number]["value"];
+
+/**
+ * 直方图分箱规则
+ */
+export type HistogramBinMethod = (typeof HISTOGRAM_BIN_METHODS)[number]["value"];
+
+/**
+ * 分级统计地图底图
+ */
+export type ChoroplethMap = (typeof CHOROPLETH_MAPS)[number]["value"];
+
+/**
+ * 分面（小多图）坐标轴模式
+ */
+export type FacetAxisMode = (typeof FACET_AXIS_MODES)[number]["value"];
+
+/**
+ * 聚合函数
+ */
+export type AggregateFunction = (typeof AGGREGATE_FUNCTIONS)[number]["value"];
+
+/**
+ * 日期分桶粒度
+ */
+export type TimeBucket = (typeof TIME_BUCKETS)[number]["value"];
+
+/**
+ * 分类排序方式
+ */
+export type CategorySort = (typeof CATEGORY_SORT_MODES)[number]["value"];
+
+/**
+ * 组合图单个系列的标记与坐标轴分配
+ */
+export interface ComboSeriesAssignment {
+  mark: ComboSeriesMark;
+  axis: ComboAxisSide;
+}
+
 /**
  * 配置组件类型
  */
@@ -121,11 +188,6 @@ export interface ChartConfigSchema {
   options: readonly OptionConfigItem[];
 }
 
-/**
- * 图表配置描述映射
- */
-export type ChartConfigSchemas = typeof CHART_CONFIG_SCHEMAS;
-
 /**
  * 统一的颜色配置结构 - 支持填充和描边的细粒度控制
  */
@@ -142,6 +204,12 @@ export interface UnifiedColorConfig {
   background: string;
   /** 文本颜色 */
   text: string;
+  /** 增加项颜色（瀑布图） */
+  increase?: string;
+  /** 减少项颜色（瀑布图） */
+  decrease?: string;
+  /** 合计项颜色（瀑布图） */
+  total?: string;
   /** 动态颜色配置（键值对形式，支持复杂配置项） */
   dynamic?: Record<string, string>;
 }
@@ -190,6 +258,76 @@ export interface UnifiedOptionConfig {
   radarFillOpacity?: number;
   radarStrokeWidth?: number;
   radarMaxValue?: number;
+
+  // 散点图/气泡图选项
+  scatterShowGrid?: boolean;
+  scatterShowTrendLine?: boolean;
+  scatterDotSize?: number;
+  scatterFillOpacity?: number;
+  bubbleMinSize?: number;
+  bubbleMaxSize?: number;
+
+  // 组合图选项
+  comboSeries?: Record<string, ComboSeriesAssignment>;
+  comboShowGrid?: boolean;
+  comboBarRadius?: number;
+  comboShowDots?: boolean;
+
+  // 热力图选项
+  heatmapColorScale?: HeatmapColorScale;
+  heatmapShowValues?: boolean;
+  heatmapShowLegend?: boolean;
+  heatmapCellGap?: number;
+
+  // 瀑布图选项
+  waterfallShowTotal?: boolean;
+  waterfallShowConnectors?: boolean;
+  waterfallShowValues?: boolean;
+  waterfallShowGrid?: boolean;
+  waterfallBarRadius?: number;
+
+  // 漏斗图选项
+  funnelShowConversion?: boolean;
+  funnelConversionBase?: FunnelConversionBase;
+  funnelShowValues?: boolean;
+
+  // 直方图选项
+  histogramBinMethod?: HistogramBinMethod;
+  histogramBinCount?: number;
+  histogramShowGrid?: boolean;
+  histogramShowMean?: boolean;
+
+  // 箱线图选项
+  boxplotShowOutliers?: boolean;
+  boxplotShowMean?: boolean;
+  boxplotShowGrid?: boolean;
+
+  // 矩形树图选项
+  treemapShowLabels?: boolean;
+  treemapShowValues?: boolean;
+  treemapCellGap?: number;
+
+  // 旭日图选项
+  sunburstShowLabels?: boolean;
+  sunburstInnerRadius?: number;
+
+  // K线图选项
+  candlestickShowVolume?: boolean;
+  candlestickShowGrid?: boolean;
+
+  // 分级统计地图选项
+  choroplethMap?: ChoroplethMap;
+  choroplethColorScale?: HeatmapColorScale;
+  choroplethShowLegend?: boolean;
+  choroplethShowUnmatched?: boolean;
+
+  // 分组聚合选项（柱/线/面积等图表带有可重新计算的聚合结果时提供）
+  aggregateFunction?: AggregateFunction;
+  timeBucket?: TimeBucket;
+
+  // 分类排序与 Top N 选项（饼图、径向图、柱状图、雷达图）
+  topN?: number;
+  categorySort?: CategorySort;
 }
 
 /**
@@ -12,7 +12,13 @@ import {
   CHART_INDICATOR_TYPES,
 } from "@/constants/chart";
 
-export type ChartType = (typeof CHART_TYPES)[keyof typeof CHART_TYPES];
+/** 内置图表类型 */
+export type BuiltinChartType = (typeof CHART_TYPES)[keyof typeof CHART_TYPES];
+
+/** 通过图表注册表扩展的插件图表类型，统一使用 "x-" 前缀避免与内置类型冲突 */
+export type PluginChartType = `x-${string}`;
+
+export type ChartType = BuiltinChartType | PluginChartType;
 
 export type SimpleChartType = (typeof SIMPLE_CHART_TYPES)[keyof typeof SIMPLE_CHART_TYPES];
 
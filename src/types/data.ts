@@ -20,3 +20,38 @@ export type DataPatternType = (typeof DATA_PATTERN_TYPES)[keyof typeof DATA_PATT
 export type CleaningAction = (typeof CLEANING_ACTIONS)[keyof typeof CLEANING_ACTIONS];
 
 export type DataErrorType = (typeof DATA_ERROR_TYPES)[keyof typeof DATA_ERROR_TYPES];
+
+/**
+ * 工作表与数据区域选择
+ * range 为 A1 区域（如 "A5:F40"）或行区间（如 "5:40"），缺省时自动识别
+ */
+export interface SheetSelection {
+  sheet?: string;
+  range?: string;
+}
+
+/**
+ * 字段取值格式
+ * 解析时识别出的货币、百分比、数量级与日期粒度，供坐标轴与数值标签还原显示
+ */
+export interface FieldValueFormat {
+  kind: "number" | "currency" | "percent" | "date";
+  /** ISO 4217 货币代码，如 "CNY" */
+  currency?: string;
+  /** 原始货币符号，如 "¥"、"€" */
+  symbol?: string;
+  /** 货币符号位于数字之前还是之后 */
+  symbolPosition?: "prefix" | "suffix";
+  /** 数量级单位，如 "万"、"k"（数值已换算为基本单位） */
+  magnitude?: string;
+  /** 计量单位，如 "kg"、"件" */
+  unit?: string;
+  /** 小数分隔符，"," 表示欧洲格式（如 1.234,56） */
+  decimalSeparator?: "." | ",";
+  /** 日期粒度 */
+  granularity?: "year" | "quarter" | "month" | "day" | "datetime";
+  /** 数字日期的日/月顺序 */
+  dateOrder?: "mdy" | "dmy";
+  /** 日期以 Excel 序列号存储 */
+  excelSerial?: boolean;
+}
@@ -32,6 +32,8 @@ export type {
   DataPatternType,
   CleaningAction,
   DataErrorType,
+  SheetSelection,
+  FieldValueFormat,
 } from "./data";
 
 // AI Agent 相关类型
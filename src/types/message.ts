@@ -4,6 +4,7 @@
  */
 
 import { ChartType } from "./chart";
+import { SheetSelection } from "./data";
 import {
   MESSAGE_TYPES,
   ATTACHMENT_TYPES,
@@ -13,6 +14,7 @@ import {
 import { ProcessingFlow } from "./processing";
 import { ChartTheme } from "./chart-theme";
 import { LocalImageInfo } from "./storage";
+import type { AICassette } from "@/lib/ai/types";
 
 /**
  * 从常量派生的类型
@@ -32,6 +34,8 @@ export interface FileAttachment {
   size: number;
   file: File;
   uploadedAt: Date;
+  /** Excel文件使用的工作表与区域，缺省时自动识别 */
+  sheetSelection?: SheetSelection;
 }
 
 /**
@@ -51,6 +55,8 @@ export interface SerializableFileAttachment {
   staticPath?: string;
   // 文件元数据
   metadata?: Record<string, any>;
+  // Excel文件使用的工作表与区域
+  sheetSelection?: SheetSelection;
 }
 
 /**
@@ -88,6 +94,10 @@ export interface ChartResultContent {
   chartType: ChartType;
   title: string;
   description?: string;
+  /**
+   * 图表生成过程中的非致命提示（如地图中未匹配的地区）
+   */
+  warnings?: string[];
   imageInfo: LocalImageInfo;
   theme?: ChartTheme;
 }
@@ -201,6 +211,9 @@ export interface SingleChatSession {
 
   // 标记是否正在等待处理（首页跳转时）
   _pendingProcessing?: boolean;
+
+  // 该会话录制的 AI 调用（导出时附带，用于回放复现）
+  _cassette?: AICassette;
 }
 
 /**